@@ -87,6 +87,59 @@ export interface ListAgentsResponse {
   total: number;
 }
 
+// Agent workflow types (stored as-is, so keys stay camelCase)
+export type WorkflowNodeType = 'say' | 'collect' | 'tool' | 'branch' | 'transfer' | 'end';
+export type WorkflowSlotType = 'text' | 'number' | 'yes_no' | 'choice';
+export type WorkflowOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'exists'
+  | 'not_exists';
+
+export interface WorkflowCondition {
+  /** Slot name, or a dotted path into a saved tool result */
+  slot: string;
+  operator: WorkflowOperator;
+  value?: string | number | boolean;
+  next: string;
+}
+
+export interface WorkflowNode {
+  id: string;
+  type: WorkflowNodeType;
+  instructions?: string;
+  /** Extra agent tools allowed on this node */
+  tools?: string[];
+  /** say */
+  message?: string;
+  /** collect */
+  slot?: { name: string; description: string; type?: WorkflowSlotType; options?: string[] };
+  /** tool */
+  tool?: string;
+  saveAs?: string;
+  onError?: string;
+  /** branch */
+  conditions?: WorkflowCondition[];
+  default?: string;
+  /** transfer */
+  department?: string;
+  /** say, collect, tool */
+  next?: string;
+}
+
+export interface AgentWorkflow {
+  start: string;
+  nodes: WorkflowNode[];
+}
+
+export interface AgentWorkflowResponse {
+  agent_id: string;
+  workflow: AgentWorkflow | null;
+}
+
 // Call Types
 export interface CallResponse {
   session_id: string;
@@ -99,6 +152,21 @@ export interface CallResponse {
   started_at?: number;
   ended_at?: number;
   duration_seconds?: number;
+  supervisor_actions?: SupervisorActionRecord[];
+  analysis?: CallAnalysis | null;
+}
+
+/** Post-call summary, sentiment and disposition */
+export interface CallAnalysis {
+  summary: string;
+  sentiment: 'positive' | 'neutral' | 'negative';
+  /** -1 (very negative) to 1 (very positive) */
+  sentiment_score: number;
+  disposition: string;
+  disposition_reason: string | null;
+  entities: Array<{ type: string; value: string }>;
+  model: string;
+  analyzed_at: number;
 }
 
 export interface ListCallsResponse {
@@ -112,6 +180,7 @@ export interface TranscriptMessage {
   name?: string;
   params?: Record<string, unknown>;
   result?: Record<string, unknown>;
+  sentiment?: 'positive' | 'neutral' | 'negative' | null;
   timestamp: number;
 }
 
@@ -121,6 +190,59 @@ export interface TranscriptResponse {
   total_messages: number;
 }
 
+export type AgentLiveState = 'initializing' | 'listening' | 'thinking' | 'speaking' | 'idle';
+
+export interface LiveCallResponse {
+  session_id: string;
+  agent_id?: string;
+  call_type?: 'inbound' | 'outbound' | 'web';
+  phone_number?: string;
+  status: string;
+  agent_state: AgentLiveState | null;
+  started_at: number;
+  last_activity_at: number;
+  duration_seconds: number;
+}
+
+export interface ListLiveCallsResponse {
+  total: number;
+  items: LiveCallResponse[];
+}
+
+export interface LiveCallEvent {
+  type: 'user_message' | 'agent_response' | 'function_call' | 'agent_state';
+  text?: string;
+  language?: string;
+  function_name?: string;
+  params?: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  state?: AgentLiveState;
+  timestamp: number;
+}
+
+export type SupervisorAction = 'listen' | 'whisper' | 'takeover' | 'release';
+
+export interface SupervisorActionRecord {
+  action: SupervisorAction;
+  supervisor: string;
+  message?: string;
+  participant_identity?: string;
+  at: number;
+}
+
+export interface SupervisorActionResponse {
+  success: boolean;
+  session_id: string;
+  action: SupervisorAction;
+  supervisor: string;
+  /** Listen and takeover: browser access to the call's room */
+  participant_identity?: string;
+  token?: string;
+  livekit_url?: string;
+  join_url?: string;
+  expires_in?: number;
+}
+
 export interface OutboundCallRequest {
   organizationId: string;
   agentId: string;
@@ -383,6 +505,19 @@ export const agentApi = {
     return apiClient.put(getVersionedApiUrl(`/agents/${id}`), data);
   },
 
+  getWorkflow: async (id: string): Promise<AgentWorkflowResponse> => {
+    return apiClient.get(getVersionedApiUrl(`/agents/${id}/workflow`));
+  },
+
+  /** Validated by the server - a 400 error lists every problem */
+  saveWorkflow: async (id: string, workflow: AgentWorkflow): Promise<{ success: boolean; message: string; node_count: number }> => {
+    return apiClient.put(getVersionedApiUrl(`/agents/${id}/workflow`), { workflow });
+  },
+
+  deleteWorkflow: async (id: string): Promise<{ success: boolean; message: string }> => {
+    return apiClient.delete(getVersionedApiUrl(`/agents/${id}/workflow`));
+  },
+
   updateStatus: async (id: string, status: 'active' | 'inactive'): Promise<{ success: boolean; message: string; status: string }> => {
     return apiClient.patch(getVersionedApiUrl(`/agents/${id}/status`), { status });
   },
@@ -482,6 +617,21 @@ export const callApi = {
     return apiClient.get(getVersionedApiUrl('/calls'), queryParams);
   },
 
+  listLive: async (params?: { tenantId?: string; agentId?: string }): Promise<ListLiveCallsResponse> => {
+    const queryParams: Record<string, any> = {
+      tenant_id: params?.tenantId || getDefaultTenantId(),
+    };
+    if (params?.agentId) {
+      queryParams.agent_id = params.agentId;
+    }
+    return apiClient.get(getVersionedApiUrl('/calls/live'), queryParams);
+  },
+
+  /** Server-sent event stream URL for an active call (use with EventSource) */
+  getLiveStreamUrl: (sessionId: string): string => {
+    return getVersionedApiUrl(`/calls/${sessionId}/live`);
+  },
+
   getById: async (sessionId: string): Promise<CallResponse> => {
     return apiClient.get(getVersionedApiUrl(`/calls/${sessionId}`));
   },
@@ -490,6 +640,23 @@ export const callApi = {
     return apiClient.get(getVersionedApiUrl(`/calls/${sessionId}/transcript`));
   },
 
+  /** Re-run post-call analysis (e.g. after changing the agent's dispositions) */
+  analyze: async (sessionId: string): Promise<{ session_id: string; analysis: CallAnalysis }> => {
+    return apiClient.post(getVersionedApiUrl(`/calls/${sessionId}/analyze`), {});
+  },
+
+  supervisorAction: async (params: {
+    sessionId: string;
+    action: SupervisorAction;
+    supervisor?: string;
+    message?: string;
+  }): Promise<SupervisorActionResponse> => {
+    return apiClient.post(getVersionedApiUrl(`/calls/${params.sessionId}/supervisor/${params.action}`), {
+      supervisor: params.supervisor,
+      message: params.message,
+    });
+  },
+
   initiateOutbound: async (data: OutboundCallRequest): Promise<OutboundCallResponse> => {
     return apiClient.post(getVersionedApiUrl('/calls/outbound'), data);
   },
@@ -19,7 +19,11 @@ import {
   ApiError,
   type ListAgentsResponse,
   type AgentResponse,
+  type AgentWorkflow,
   type ListCallsResponse,
+  type ListLiveCallsResponse,
+  type LiveCallEvent,
+  type AgentLiveState,
   type TranscriptResponse,
   type ListDocumentsResponse,
   type AnalyticsResponse,
@@ -212,6 +216,20 @@ export function useDeleteAgent() {
   return useMutation((id: string) => agentApi.delete(id));
 }
 
+export function useAgentWorkflow(agentId: string) {
+  return useQuery(() => agentApi.getWorkflow(agentId), [agentId]);
+}
+
+export function useSaveAgentWorkflow() {
+  return useMutation(({ id, workflow }: { id: string; workflow: AgentWorkflow }) =>
+    agentApi.saveWorkflow(id, workflow)
+  );
+}
+
+export function useDeleteAgentWorkflow() {
+  return useMutation((id: string) => agentApi.deleteWorkflow(id));
+}
+
 // =============================================================================
 // Call Hooks
 // =============================================================================
@@ -240,6 +258,60 @@ export function useInitiateOutboundCall() {
   return useMutation(callApi.initiateOutbound);
 }
 
+export function useAnalyzeCall() {
+  return useMutation(callApi.analyze);
+}
+
+export function useSupervisorAction() {
+  return useMutation(callApi.supervisorAction);
+}
+
+/**
+ * Follow an active call over server-sent events
+ * Collects turns and tool calls, tracks the agent's state and stops when the call ends.
+ */
+export function useLiveCallStream(sessionId: string | null) {
+  const [events, setEvents] = useState<LiveCallEvent[]>([]);
+  const [agentState, setAgentState] = useState<AgentLiveState | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [hasEnded, setHasEnded] = useState(false);
+
+  useEffect(() => {
+    setEvents([]);
+    setAgentState(null);
+    setHasEnded(false);
+    if (!sessionId) return;
+
+    const source = new EventSource(callApi.getLiveStreamUrl(sessionId));
+    const onEvent = (message: MessageEvent) => {
+      const event = JSON.parse(message.data) as LiveCallEvent;
+      if (event.type === 'agent_state') {
+        setAgentState(event.state || null);
+      } else {
+        setEvents((prev) => [...prev, event]);
+      }
+    };
+
+    source.onopen = () => setIsConnected(true);
+    source.onerror = () => setIsConnected(false);
+    source.addEventListener('call', (message) => {
+      setAgentState(JSON.parse((message as MessageEvent).data).agent_state || null);
+    });
+    for (const type of ['user_message', 'agent_response', 'function_call', 'agent_state']) {
+      source.addEventListener(type, onEvent as EventListener);
+    }
+    source.addEventListener('ended', () => {
+      setHasEnded(true);
+      setIsConnected(false);
+      source.close();
+    });
+
+    return () => source.close();
+  }, [sessionId]);
+
+  return { events, agentState, isConnected, hasEnded };
+}
+
 // =============================================================================
 // Knowledge Base Hooks
 // =============================================================================
@@ -457,8 +529,8 @@ export function usePolling<T>(
 export function useActiveCalls(tenantId?: string, pollIntervalMs = 5000) {
   const tid = tenantId || getDefaultTenantId();
 
-  return usePolling(
-    () => callApi.list({ tenantId: tid, limit: 50 }),
+  return usePolling<ListLiveCallsResponse>(
+    () => callApi.listLive({ tenantId: tid }),
     pollIntervalMs
   );
 }
@@ -46,13 +46,28 @@ export type {
   UpdateAgentRequest,
   AgentResponse,
   ListAgentsResponse,
+  AgentWorkflow,
+  AgentWorkflowResponse,
+  WorkflowNode,
+  WorkflowNodeType,
+  WorkflowCondition,
+  WorkflowOperator,
+  WorkflowSlotType,
   // Call types
   CallResponse,
   ListCallsResponse,
+  CallAnalysis,
   TranscriptMessage,
   TranscriptResponse,
   OutboundCallRequest,
   OutboundCallResponse,
+  AgentLiveState,
+  LiveCallResponse,
+  ListLiveCallsResponse,
+  LiveCallEvent,
+  SupervisorAction,
+  SupervisorActionRecord,
+  SupervisorActionResponse,
   // Knowledge types
   DocumentUploadResponse,
   DocumentResponse,
@@ -89,11 +104,17 @@ export {
   useCreateAgent,
   useUpdateAgent,
   useDeleteAgent,
+  useAgentWorkflow,
+  useSaveAgentWorkflow,
+  useDeleteAgentWorkflow,
   // Calls
   useCalls,
   useCall,
   useCallTranscript,
   useInitiateOutboundCall,
+  useLiveCallStream,
+  useAnalyzeCall,
+  useSupervisorAction,
   // Knowledge Base
   useDocuments,
   useUploadDocument,
@@ -389,7 +389,7 @@ interface ColumnDefinition {
 }
 
 // Data source categories - matches backend DynamicDataExtractor
-type DataSourceType = 'call' | 'transcript' | 'extracted' | 'agent' | 'static';
+type DataSourceType = 'call' | 'transcript' | 'extracted' | 'fields' | 'agent' | 'static';
 
 // Format transformations
 type DataFormat = 'text' | 'datetime' | 'date' | 'time' | 'phone' | 'number' | 'currency' | 'uppercase' | 'lowercase' | 'json';
@@ -417,6 +417,13 @@ const DATA_SOURCE_OPTIONS: { value: DataSourceType; label: string; description:
     icon: '🤖',
     examples: ['customer name', 'appointment date', 'reason for visit', 'phone number', 'email address']
   },
+  { 
+    value: 'fields', 
+    label: 'Collected Fields', 
+    description: 'Details the agent collected and confirmed during the call (agent fields config)', 
+    icon: '✅',
+    examples: ['phone_number', 'appointment_date', 'customer_name']
+  },
   { 
     value: 'agent', 
     label: 'Agent Info', 
@@ -1174,6 +1181,7 @@ function doPost(e) {
                               if (value === 'call') defaultPath = 'callId';
                               else if (value === 'transcript') defaultPath = 'full';
                               else if (value === 'extracted') defaultPath = column.description || 'customer name';
+                              else if (value === 'fields') defaultPath = 'phone_number';
                               else if (value === 'agent') defaultPath = 'name';
                               else if (value === 'static') defaultPath = 'Static Value';
                               
@@ -17,6 +17,7 @@ import {
   MessageSquare,
   Sparkles,
   BarChart3,
+  GitBranch,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -33,6 +34,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { KBUploader } from "@/components/knowledge/KBUploader";
+import { WorkflowEditor } from "@/components/agents/WorkflowEditor";
 import { useAgentStore, useKBStore, useUIStore } from "@/store";
 import { AgentLanguage, AgentVoice, SUPPORTED_LANGUAGES, VOICE_CONFIG, FEMALE_VOICES, MALE_VOICES, STATUS_COLORS } from "@/types";
 import { cn, formatDate } from "@/lib/utils";
@@ -426,6 +428,10 @@ export default function AgentDetailPage() {
             <Settings className="h-4 w-4" />
             Configuration
           </TabsTrigger>
+          <TabsTrigger value="workflow" className="flex items-center gap-2">
+            <GitBranch className="h-4 w-4" />
+            Workflow
+          </TabsTrigger>
           <TabsTrigger value="calls" className="flex items-center gap-2">
             <Phone className="h-4 w-4" />
             Call History
@@ -708,6 +714,11 @@ export default function AgentDetailPage() {
           </Card>
         </TabsContent>
 
+        {/* Workflow Tab */}
+        <TabsContent value="workflow">
+          <WorkflowEditor agentId={agentId} />
+        </TabsContent>
+
         {/* Calls Tab */}
         <TabsContent value="calls">
           <Card>
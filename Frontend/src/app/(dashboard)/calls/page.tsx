@@ -23,6 +23,7 @@ import {
 } from "@/components/ui/select";
 import { useAgents, useCalls } from "@/api/hooks";
 import { CallLogDetail, CallListItem } from "@/components/calls/CallLogDetail";
+import { LiveCallsPanel } from "@/components/calls/LiveCallMonitor";
 
 const ORG_ID = process.env.NEXT_PUBLIC_DEFAULT_TENANT_ID || process.env.DEFAULT_ORGANIZATION_ID || '';
 
@@ -62,6 +63,7 @@ export default function CallsPage() {
     isTelephony: !!call.phone_number,
     transcript: [],
     transcriptLength: 0,
+    analysis: call.analysis,
   })) || [];
 
   // Filter by search (adjusted for API response structure)
@@ -94,7 +96,7 @@ export default function CallsPage() {
           Call History
         </h1>
         <p className="text-muted-foreground">
-          View and manage all calls across your organization with full transcripts.
+          View and manage all calls across your organization with full transcripts, and follow calls in progress live.
         </p>
       </div>
 
@@ -146,6 +148,9 @@ export default function CallsPage() {
         </Card>
       </div>
 
+      {/* Live Calls */}
+      <LiveCallsPanel tenantId={ORG_ID} agents={agents} />
+
       {/* Filters */}
       <div className="flex flex-col sm:flex-row gap-4">
         <div className="relative flex-1">
@@ -0,0 +1,690 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ArrowDown,
+  ArrowRight,
+  ArrowUp,
+  GitBranch,
+  ListChecks,
+  Loader2,
+  MessageSquare,
+  PhoneForwarded,
+  PhoneOff,
+  Plus,
+  Save,
+  Trash2,
+  Wrench,
+} from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAgentWorkflow, useDeleteAgentWorkflow, useSaveAgentWorkflow } from "@/api/hooks";
+import type {
+  AgentWorkflow,
+  WorkflowCondition,
+  WorkflowNode,
+  WorkflowNodeType,
+  WorkflowOperator,
+  WorkflowSlotType,
+} from "@/api/endpoints";
+import { useConfirmDialog } from "@/components/ui/confirm-dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { cn } from "@/lib/utils";
+
+const NODE_TYPES: Record<WorkflowNodeType, { label: string; description: string; icon: React.ElementType; className: string }> = {
+  say: { label: "Say", description: "Tell the caller something", icon: MessageSquare, className: "bg-blue-100 text-blue-700" },
+  collect: { label: "Ask & collect", description: "Ask for one value and record it", icon: ListChecks, className: "bg-green-100 text-green-700" },
+  tool: { label: "Call tool", description: "Run one of the agent's tools", icon: Wrench, className: "bg-amber-100 text-amber-700" },
+  branch: { label: "Branch", description: "Choose the next step from collected values", icon: GitBranch, className: "bg-purple-100 text-purple-700" },
+  transfer: { label: "Transfer", description: "Transfer to a department", icon: PhoneForwarded, className: "bg-orange-100 text-orange-700" },
+  end: { label: "End", description: "Say goodbye and hang up", icon: PhoneOff, className: "bg-gray-100 text-gray-700" },
+};
+
+const SLOT_TYPES: Record<WorkflowSlotType, string> = {
+  text: "Text",
+  number: "Number",
+  yes_no: "Yes / No",
+  choice: "Choice",
+};
+
+const OPERATORS: Record<WorkflowOperator, string> = {
+  equals: "equals",
+  not_equals: "does not equal",
+  contains: "contains",
+  greater_than: "is greater than",
+  less_than: "is less than",
+  exists: "is set",
+  not_exists: "is not set",
+};
+
+const COMMON_TOOLS = ["search_knowledge", "end_call", "transfer_call", "collect_digits"];
+
+/** Nodes a node moves to (used for the flow preview and dangling-link checks) */
+function nextIds(node: WorkflowNode): string[] {
+  switch (node.type) {
+    case "say":
+    case "collect":
+      return node.next ? [node.next] : [];
+    case "tool":
+      return [node.next, node.onError].filter(Boolean) as string[];
+    case "branch":
+      return [...(node.conditions || []).map((c) => c.next), node.default].filter(Boolean) as string[];
+    default:
+      return [];
+  }
+}
+
+function newNode(type: WorkflowNodeType, existing: WorkflowNode[]): WorkflowNode {
+  let index = existing.length + 1;
+  while (existing.some((n) => n.id === `${type}_${index}`)) index++;
+  const id = `${type}_${index}`;
+
+  switch (type) {
+    case "say":
+      return { id, type, message: "", next: "" };
+    case "collect":
+      return { id, type, slot: { name: "", description: "", type: "text" }, next: "" };
+    case "tool":
+      return { id, type, tool: "", next: "" };
+    case "branch":
+      return { id, type, conditions: [{ slot: "", operator: "equals", value: "", next: "" }], default: "" };
+    case "transfer":
+      return { id, type, department: "" };
+    default:
+      return { id, type };
+  }
+}
+
+function NodeSelect({
+  value,
+  nodes,
+  onChange,
+  placeholder = "Select step",
+  excludeId,
+}: {
+  value?: string;
+  nodes: WorkflowNode[];
+  onChange: (value: string) => void;
+  placeholder?: string;
+  excludeId?: string;
+}) {
+  return (
+    <Select value={value || undefined} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {nodes
+          .filter((n) => n.id !== excludeId)
+          .map((n) => (
+            <SelectItem key={n.id} value={n.id}>
+              {n.id} ({NODE_TYPES[n.type].label})
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function NodeForm({
+  node,
+  nodes,
+  onChange,
+}: {
+  node: WorkflowNode;
+  nodes: WorkflowNode[];
+  onChange: (node: WorkflowNode) => void;
+}) {
+  const set = (patch: Partial<WorkflowNode>) => onChange({ ...node, ...patch });
+  const setCondition = (index: number, patch: Partial<WorkflowCondition>) =>
+    set({ conditions: (node.conditions || []).map((c, i) => (i === index ? { ...c, ...patch } : c)) });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Step ID</Label>
+        <Input
+          value={node.id}
+          onChange={(e) => set({ id: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, "_") })}
+        />
+        <p className="text-xs text-muted-foreground">snake_case, used by other steps to link here</p>
+      </div>
+
+      {node.type === "say" && (
+        <div className="space-y-2">
+          <Label>Message</Label>
+          <Textarea
+            value={node.message || ""}
+            onChange={(e) => set({ message: e.target.value })}
+            placeholder="Before we start, I need to verify your identity."
+            rows={3}
+          />
+        </div>
+      )}
+
+      {node.type === "collect" && node.slot && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Slot name</Label>
+              <Input
+                value={node.slot.name}
+                onChange={(e) =>
+                  set({ slot: { ...node.slot!, name: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, "_") } })
+                }
+                placeholder="date_of_birth"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Answer type</Label>
+              <Select
+                value={node.slot.type || "text"}
+                onValueChange={(value) => set({ slot: { ...node.slot!, type: value as WorkflowSlotType } })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SLOT_TYPES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>What to ask for</Label>
+            <Input
+              value={node.slot.description}
+              onChange={(e) => set({ slot: { ...node.slot!, description: e.target.value } })}
+              placeholder="date of birth (day, month and year)"
+            />
+          </div>
+          {node.slot.type === "choice" && (
+            <div className="space-y-2">
+              <Label>Options (comma separated)</Label>
+              <Input
+                value={(node.slot.options || []).join(", ")}
+                onChange={(e) =>
+                  set({
+                    slot: {
+                      ...node.slot!,
+                      options: e.target.value.split(",").map((o) => o.trim()).filter(Boolean),
+                    },
+                  })
+                }
+                placeholder="savings, current, fixed deposit"
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      {node.type === "tool" && (
+        <>
+          <div className="space-y-2">
+            <Label>Tool</Label>
+            <Input
+              value={node.tool || ""}
+              onChange={(e) => set({ tool: e.target.value.trim() })}
+              placeholder="check_availability"
+              list="workflow-tools"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Save result as (optional)</Label>
+              <Input
+                value={node.saveAs || ""}
+                onChange={(e) => set({ saveAs: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, "_") || undefined })}
+                placeholder="availability"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>On error (optional)</Label>
+              <NodeSelect
+                value={node.onError}
+                nodes={nodes}
+                excludeId={node.id}
+                onChange={(value) => set({ onError: value })}
+                placeholder="Stay and retry"
+              />
+            </div>
+          </div>
+        </>
+      )}
+
+      {node.type === "branch" && (
+        <div className="space-y-3">
+          <Label>Conditions (first match wins)</Label>
+          {(node.conditions || []).map((condition, index) => (
+            <div key={index} className="space-y-2 rounded-lg border p-3">
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  value={condition.slot}
+                  onChange={(e) => setCondition(index, { slot: e.target.value.trim() })}
+                  placeholder="slot or result.path"
+                />
+                <Select
+                  value={condition.operator}
+                  onValueChange={(value) => setCondition(index, { operator: value as WorkflowOperator })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(OPERATORS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {condition.operator !== "exists" && condition.operator !== "not_exists" ? (
+                  <Input
+                    value={condition.value === undefined ? "" : String(condition.value)}
+                    onChange={(e) => setCondition(index, { value: e.target.value })}
+                    placeholder="value"
+                  />
+                ) : (
+                  <div />
+                )}
+                <NodeSelect
+                  value={condition.next}
+                  nodes={nodes}
+                  excludeId={node.id}
+                  onChange={(value) => setCondition(index, { next: value })}
+                  placeholder="Go to"
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive"
+                onClick={() => set({ conditions: (node.conditions || []).filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="mr-1 h-3 w-3" />
+                Remove condition
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              set({ conditions: [...(node.conditions || []), { slot: "", operator: "equals", value: "", next: "" }] })
+            }
+          >
+            <Plus className="mr-1 h-3 w-3" />
+            Add condition
+          </Button>
+          <div className="space-y-2">
+            <Label>Otherwise go to</Label>
+            <NodeSelect value={node.default} nodes={nodes} excludeId={node.id} onChange={(value) => set({ default: value })} />
+          </div>
+        </div>
+      )}
+
+      {node.type === "transfer" && (
+        <div className="space-y-2">
+          <Label>Department</Label>
+          <Input
+            value={node.department || ""}
+            onChange={(e) => set({ department: e.target.value })}
+            placeholder="billing"
+          />
+          <p className="text-xs text-muted-foreground">Must be in the agent&apos;s transfer directory</p>
+        </div>
+      )}
+
+      {(node.type === "say" || node.type === "collect" || node.type === "tool") && (
+        <div className="space-y-2">
+          <Label>Next step</Label>
+          <NodeSelect value={node.next} nodes={nodes} excludeId={node.type === "collect" ? undefined : node.id} onChange={(value) => set({ next: value })} />
+        </div>
+      )}
+
+      {node.type !== "branch" && (
+        <>
+          <div className="space-y-2">
+            <Label>Instructions for this step (optional)</Label>
+            <Textarea
+              value={node.instructions || ""}
+              onChange={(e) => set({ instructions: e.target.value || undefined })}
+              placeholder="Read the number back digit by digit to confirm it."
+              rows={3}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Extra tools allowed on this step (comma separated)</Label>
+            <Input
+              value={(node.tools || []).join(", ")}
+              onChange={(e) => {
+                const tools = e.target.value.split(",").map((t) => t.trim()).filter(Boolean);
+                set({ tools: tools.length > 0 ? tools : undefined });
+              }}
+              placeholder="search_knowledge"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function WorkflowEditor({ agentId }: { agentId: string }) {
+  const { toast } = useToast();
+  const confirm = useConfirmDialog();
+  const { data, isLoading, refetch } = useAgentWorkflow(agentId);
+  const { mutate: saveWorkflow, isLoading: isSaving } = useSaveAgentWorkflow();
+  const { mutate: deleteWorkflow, isLoading: isDeleting } = useDeleteAgentWorkflow();
+
+  const [workflow, setWorkflow] = useState<AgentWorkflow>({ start: "", nodes: [] });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [addType, setAddType] = useState<WorkflowNodeType>("collect");
+
+  useEffect(() => {
+    if (data?.workflow) {
+      setWorkflow(data.workflow);
+      setSelectedId(data.workflow.start);
+    }
+  }, [data]);
+
+  const ids = useMemo(() => new Set(workflow.nodes.map((n) => n.id)), [workflow.nodes]);
+  const selectedIndex = workflow.nodes.findIndex((n) => n.id === selectedId);
+  const selected = selectedIndex >= 0 ? workflow.nodes[selectedIndex] : null;
+
+  const addNode = () => {
+    const node = newNode(addType, workflow.nodes);
+    setWorkflow((wf) => ({ start: wf.start || node.id, nodes: [...wf.nodes, node] }));
+    setSelectedId(node.id);
+  };
+
+  const updateNode = (index: number, node: WorkflowNode) => {
+    setWorkflow((wf) => {
+      const oldId = wf.nodes[index].id;
+      const rename = (id?: string) => (id === oldId ? node.id : id);
+      // Keep links pointing at a renamed step
+      const nodes = wf.nodes.map((n, i) => {
+        const updated = i === index ? node : n;
+        if (oldId === node.id) return updated;
+        return {
+          ...updated,
+          next: rename(updated.next),
+          default: rename(updated.default),
+          onError: rename(updated.onError),
+          conditions: updated.conditions?.map((c) => ({ ...c, next: rename(c.next)! })),
+        };
+      });
+      return { start: rename(wf.start)!, nodes };
+    });
+    setSelectedId(node.id);
+  };
+
+  const removeNode = (index: number) => {
+    setWorkflow((wf) => {
+      const nodes = wf.nodes.filter((_, i) => i !== index);
+      return { start: wf.start === wf.nodes[index].id ? nodes[0]?.id || "" : wf.start, nodes };
+    });
+    setSelectedId(null);
+  };
+
+  const moveNode = (index: number, offset: number) => {
+    setWorkflow((wf) => {
+      const nodes = [...wf.nodes];
+      const [node] = nodes.splice(index, 1);
+      nodes.splice(index + offset, 0, node);
+      return { ...wf, nodes };
+    });
+  };
+
+  const handleSave = async () => {
+    setErrors([]);
+    try {
+      const result = await saveWorkflow({ id: agentId, workflow });
+      toast({ title: "Workflow saved", description: `${result.node_count} steps` });
+    } catch (error) {
+      const message = (error as Error).message || "Failed to save workflow";
+      setErrors(message.replace(/^Invalid workflow:\s*/, "").split("; "));
+      toast({ title: "Workflow not saved", description: "Fix the problems listed below", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async () => {
+    const confirmed = await confirm.show({
+      title: "Remove workflow?",
+      description: "The agent goes back to free-form conversation using its prompt.",
+      confirmText: "Remove",
+      variant: "destructive",
+    });
+    if (!confirmed) return;
+
+    try {
+      await deleteWorkflow(agentId);
+      setWorkflow({ start: "", nodes: [] });
+      setSelectedId(null);
+      setErrors([]);
+      toast({ title: "Workflow removed" });
+      refetch();
+    } catch (error) {
+      toast({ title: "Failed to remove workflow", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-5">
+      {confirm.dialog}
+      <datalist id="workflow-tools">
+        {COMMON_TOOLS.map((tool) => (
+          <option key={tool} value={tool} />
+        ))}
+      </datalist>
+
+      {/* Flow */}
+      <Card className="lg:col-span-3">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <GitBranch className="h-5 w-5" />
+                Conversation Flow
+              </CardTitle>
+              <CardDescription>
+                Steps the agent follows in order. On each step the AI only sees that step&apos;s instructions and tools.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              {data?.workflow && (
+                <Button variant="outline" size="sm" onClick={handleDelete} disabled={isDeleting}>
+                  <Trash2 className="mr-1 h-4 w-4" />
+                  Remove
+                </Button>
+              )}
+              <Button size="sm" onClick={handleSave} disabled={isSaving || workflow.nodes.length === 0}>
+                {isSaving ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Save className="mr-1 h-4 w-4" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label>Start at</Label>
+              <NodeSelect
+                value={workflow.start}
+                nodes={workflow.nodes}
+                onChange={(value) => setWorkflow((wf) => ({ ...wf, start: value }))}
+              />
+            </div>
+            <div className="w-44 space-y-2">
+              <Label>New step</Label>
+              <Select value={addType} onValueChange={(value) => setAddType(value as WorkflowNodeType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(NODE_TYPES).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={addNode}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="rounded-lg border border-destructive/50 bg-destructive/5 p-3 text-sm text-destructive">
+              <p className="mb-1 font-medium">The workflow has problems:</p>
+              <ul className="list-disc space-y-0.5 pl-5">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {workflow.nodes.length === 0 ? (
+            <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+              No workflow - the agent converses freely from its prompt. Add a step to build a flow.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {workflow.nodes.map((node, index) => {
+                const type = NODE_TYPES[node.type];
+                const Icon = type.icon;
+                const links = nextIds(node);
+                return (
+                  <div
+                    key={`${node.id}-${index}`}
+                    className={cn(
+                      "cursor-pointer rounded-lg border p-3 transition-colors hover:bg-muted/50",
+                      selectedId === node.id && "border-primary bg-muted/50"
+                    )}
+                    onClick={() => setSelectedId(node.id)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <Badge className={cn("gap-1", type.className)}>
+                        <Icon className="h-3 w-3" />
+                        {type.label}
+                      </Badge>
+                      <span className="font-mono text-sm">{node.id}</span>
+                      {workflow.start === node.id && <Badge variant="outline">start</Badge>}
+                      <div className="ml-auto flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={index === 0}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            moveNode(index, -1);
+                          }}
+                        >
+                          <ArrowUp className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={index === workflow.nodes.length - 1}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            moveNode(index, 1);
+                          }}
+                        >
+                          <ArrowDown className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-destructive"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            removeNode(index);
+                          }}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                    <p className="mt-1 truncate text-sm text-muted-foreground">
+                      {node.type === "say" && (node.message || "No message yet")}
+                      {node.type === "collect" && `Ask for ${node.slot?.description || "..."}${node.slot?.name ? ` → ${node.slot.name}` : ""}`}
+                      {node.type === "tool" && `Run ${node.tool || "..."}${node.saveAs ? ` → ${node.saveAs}` : ""}`}
+                      {node.type === "branch" && `${node.conditions?.length || 0} conditions`}
+                      {node.type === "transfer" && `Transfer to ${node.department || "..."}`}
+                      {node.type === "end" && "End the call"}
+                    </p>
+                    {links.length > 0 && (
+                      <div className="mt-2 flex flex-wrap items-center gap-1 text-xs">
+                        <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                        {links.map((link, i) => (
+                          <Badge
+                            key={`${link}-${i}`}
+                            variant="outline"
+                            className={cn("font-mono", !ids.has(link) && "border-destructive text-destructive")}
+                          >
+                            {link}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Step editor */}
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle>{selected ? NODE_TYPES[selected.type].label : "Step"}</CardTitle>
+          <CardDescription>
+            {selected ? NODE_TYPES[selected.type].description : "Select a step to edit it"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {selected && (
+            <NodeForm
+              node={selected}
+              nodes={workflow.nodes}
+              onChange={(node) => updateNode(selectedIndex, node)}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
   Phone,
   Clock,
@@ -15,6 +15,8 @@ import {
   Wrench,
   Calendar,
   Timer,
+  Sparkles,
+  RefreshCw,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -27,6 +29,9 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/components/ui/use-toast";
+import { useAnalyzeCall } from "@/api/hooks";
+import type { CallAnalysis } from "@/api/endpoints";
 import { cn } from "@/lib/utils";
 
 interface TranscriptEntry {
@@ -56,6 +61,7 @@ interface CallSession {
   isTelephony?: boolean;
   transcript?: TranscriptEntry[];
   transcriptLength?: number;
+  analysis?: CallAnalysis | null;
 }
 
 interface CallLogDetailProps {
@@ -67,6 +73,26 @@ interface CallLogDetailProps {
 
 export function CallLogDetail({ call, isOpen, onClose, isLoadingTranscript = false }: CallLogDetailProps) {
   const [expandedTranscript, setExpandedTranscript] = useState(true);
+  const [analysis, setAnalysis] = useState<CallAnalysis | null>(call.analysis || null);
+  const analyzeCall = useAnalyzeCall();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setAnalysis(call.analysis || null);
+  }, [call.sessionId, call.analysis]);
+
+  const handleAnalyze = async () => {
+    try {
+      const result = await analyzeCall.mutate(call.sessionId);
+      setAnalysis(result.analysis);
+    } catch (error) {
+      toast({
+        title: "Analysis failed",
+        description: error instanceof Error ? error.message : "Could not analyze this call",
+        variant: "destructive",
+      });
+    }
+  };
 
   const formatTime = (timestamp?: number) => {
     if (!timestamp || timestamp === 0) return "--";
@@ -129,6 +155,17 @@ export function CallLogDetail({ call, isOpen, onClose, isLoadingTranscript = fal
     }
   };
 
+  const getSentimentColor = (sentiment: string) => {
+    switch (sentiment) {
+      case "positive":
+        return "bg-green-100 text-green-700";
+      case "negative":
+        return "bg-red-100 text-red-700";
+      default:
+        return "bg-gray-100 text-gray-700";
+    }
+  };
+
   const getSpeakerIcon = (speaker: string) => {
     switch (speaker) {
       case "user":
@@ -261,6 +298,60 @@ export function CallLogDetail({ call, isOpen, onClose, isLoadingTranscript = fal
               </div>
             </Card>
 
+            {/* Post-call Analysis */}
+            {call.status !== "active" && (
+              <Card>
+                <CardHeader className="py-3 flex flex-row items-center justify-between space-y-0">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <Sparkles className="h-4 w-4" />
+                    Call Summary
+                  </CardTitle>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleAnalyze}
+                    disabled={analyzeCall.isLoading}
+                  >
+                    <RefreshCw className={cn("h-4 w-4 mr-1", analyzeCall.isLoading && "animate-spin")} />
+                    {analysis ? "Re-analyze" : "Analyze"}
+                  </Button>
+                </CardHeader>
+                <CardContent className="pt-0 space-y-3">
+                  {analysis ? (
+                    <>
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <Badge variant="outline" className="capitalize">
+                          {analysis.disposition.replace(/_/g, " ")}
+                        </Badge>
+                        <Badge className={cn("capitalize", getSentimentColor(analysis.sentiment))}>
+                          {analysis.sentiment} ({analysis.sentiment_score > 0 ? "+" : ""}
+                          {analysis.sentiment_score.toFixed(2)})
+                        </Badge>
+                      </div>
+                      <p className="text-sm">{analysis.summary}</p>
+                      {analysis.disposition_reason && (
+                        <p className="text-xs text-muted-foreground">{analysis.disposition_reason}</p>
+                      )}
+                      {analysis.entities.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {analysis.entities.map((entity, index) => (
+                            <Badge key={`${entity.type}-${index}`} variant="secondary" className="text-xs font-normal">
+                              <span className="text-muted-foreground mr-1">{entity.type}:</span>
+                              {entity.value}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      No analysis yet. Calls are analyzed automatically after they end.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Transcript */}
             <Card>
               <CardHeader className="py-3">
@@ -0,0 +1,356 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Activity,
+  Bot,
+  Ear,
+  Globe,
+  Headphones,
+  Loader2,
+  MessageSquare,
+  Mic,
+  PhoneIncoming,
+  PhoneOutgoing,
+  Radio,
+  Send,
+  Undo2,
+  User,
+  Volume2,
+  Wrench,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useActiveCalls, useLiveCallStream, useSupervisorAction } from "@/api/hooks";
+import type { AgentLiveState, LiveCallResponse, SupervisorAction } from "@/api/endpoints";
+import { useToast } from "@/components/ui/use-toast";
+import { cn } from "@/lib/utils";
+
+const formatElapsed = (startedAt: number) => {
+  const seconds = Math.max(0, Math.floor((Date.now() - startedAt) / 1000));
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+function AgentStateBadge({ state }: { state: AgentLiveState | null }) {
+  const getStateStyle = () => {
+    switch (state) {
+      case "speaking":
+        return { className: "bg-purple-100 text-purple-700", icon: <Volume2 className="h-3 w-3" /> };
+      case "thinking":
+        return { className: "bg-amber-100 text-amber-700", icon: <Loader2 className="h-3 w-3 animate-spin" /> };
+      case "listening":
+        return { className: "bg-blue-100 text-blue-700", icon: <Ear className="h-3 w-3" /> };
+      default:
+        return { className: "bg-gray-100 text-gray-700", icon: <Activity className="h-3 w-3" /> };
+    }
+  };
+
+  const { className, icon } = getStateStyle();
+  return (
+    <Badge className={cn("text-xs gap-1 capitalize", className)}>
+      {icon}
+      {state || "connecting"}
+    </Badge>
+  );
+}
+
+// =============================================================================
+// Supervisor controls (listen, whisper, takeover)
+// =============================================================================
+
+const SUPERVISOR_NAME_KEY = "supervisor_name";
+
+function SupervisorControls({ sessionId }: { sessionId: string }) {
+  const { toast } = useToast();
+  const { mutate, isLoading } = useSupervisorAction();
+  const [supervisor, setSupervisor] = useState("");
+  const [whisper, setWhisper] = useState("");
+  const [isTakenOver, setIsTakenOver] = useState(false);
+
+  useEffect(() => {
+    setSupervisor(localStorage.getItem(SUPERVISOR_NAME_KEY) || "");
+  }, []);
+
+  const run = async (action: SupervisorAction, message?: string) => {
+    if (supervisor) localStorage.setItem(SUPERVISOR_NAME_KEY, supervisor);
+    try {
+      const result = await mutate({ sessionId, action, supervisor: supervisor || undefined, message });
+      // Listen and takeover open the call's room in a new tab (microphone on for takeover)
+      if (result.join_url) window.open(result.join_url, "_blank", "noopener");
+      if (action === "takeover") setIsTakenOver(true);
+      if (action === "release") setIsTakenOver(false);
+      if (action === "whisper") {
+        setWhisper("");
+        toast({ title: "Guidance sent", description: "The agent will use it from its next reply." });
+      }
+    } catch (error) {
+      toast({
+        title: "Supervisor action failed",
+        description: error instanceof Error ? error.message : "Failed to reach the call",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2 border rounded-lg p-3 bg-gray-50">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          placeholder="Your name"
+          value={supervisor}
+          onChange={(e) => setSupervisor(e.target.value)}
+          className="w-40 h-8 bg-white"
+        />
+        <Button size="sm" variant="outline" disabled={isLoading} onClick={() => run("listen")}>
+          <Headphones className="h-4 w-4 mr-1" />
+          Listen
+        </Button>
+        {isTakenOver ? (
+          <Button size="sm" disabled={isLoading} onClick={() => run("release")}>
+            <Undo2 className="h-4 w-4 mr-1" />
+            Hand back to AI
+          </Button>
+        ) : (
+          <Button size="sm" variant="destructive" disabled={isLoading} onClick={() => run("takeover")}>
+            <Mic className="h-4 w-4 mr-1" />
+            Take over
+          </Button>
+        )}
+      </div>
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (whisper.trim()) run("whisper", whisper.trim());
+        }}
+      >
+        <Input
+          placeholder="Whisper guidance to the agent (the caller won't hear it)"
+          value={whisper}
+          onChange={(e) => setWhisper(e.target.value)}
+          disabled={isTakenOver}
+          className="h-8 bg-white"
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={isLoading || isTakenOver || !whisper.trim()}>
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+// =============================================================================
+// Live call monitor (single call)
+// =============================================================================
+
+interface LiveCallMonitorProps {
+  call: LiveCallResponse;
+  agentName?: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function LiveCallMonitor({ call, agentName, isOpen, onClose }: LiveCallMonitorProps) {
+  const { events, agentState, isConnected, hasEnded } = useLiveCallStream(isOpen ? call.session_id : null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [events.length]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            <div className="p-2 bg-red-50 rounded-lg">
+              <Radio className={cn("h-5 w-5 text-red-500", !hasEnded && "animate-pulse")} />
+            </div>
+            <div>
+              <div className="flex items-center gap-2">
+                {hasEnded ? "Call Ended" : "Live Call"}
+                {!hasEnded && <AgentStateBadge state={agentState} />}
+              </div>
+              <p className="text-sm text-muted-foreground font-normal">
+                {call.phone_number || agentName || "Web Call"} • Session: {call.session_id.slice(0, 8)}...
+              </p>
+            </div>
+          </DialogTitle>
+          <DialogDescription className="sr-only">
+            Live transcript, tool calls and agent state for a call in progress
+          </DialogDescription>
+        </DialogHeader>
+
+        {!hasEnded && <SupervisorControls sessionId={call.session_id} />}
+
+        <ScrollArea className="max-h-[calc(90vh-220px)]">
+          <div className="space-y-3 pr-4">
+            {events.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                {isConnected || hasEnded ? (
+                  <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                ) : (
+                  <Loader2 className="h-8 w-8 mx-auto mb-2 animate-spin" />
+                )}
+                <p>{hasEnded ? "No activity was recorded" : "Waiting for the conversation..."}</p>
+              </div>
+            ) : (
+              events.map((event, index) =>
+                event.type === "function_call" ? (
+                  <div
+                    key={`${event.timestamp}-${index}`}
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg border bg-gray-50 border-gray-200 text-sm"
+                  >
+                    <Wrench className="h-4 w-4 text-muted-foreground" />
+                    <Badge variant="outline" className="text-xs">
+                      Function: {event.function_name}
+                    </Badge>
+                    <span className="ml-auto text-xs text-muted-foreground">{formatTime(event.timestamp)}</span>
+                  </div>
+                ) : (
+                  <div
+                    key={`${event.timestamp}-${index}`}
+                    className={cn(
+                      "p-3 rounded-lg border",
+                      event.type === "user_message" ? "bg-blue-50 border-blue-200" : "bg-purple-50 border-purple-200"
+                    )}
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="flex items-center gap-2">
+                        {event.type === "user_message" ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
+                        <span className="font-medium text-sm">
+                          {event.type === "user_message" ? "User" : "Agent"}
+                        </span>
+                        {event.language && (
+                          <Badge variant="secondary" className="text-xs">
+                            {event.language}
+                          </Badge>
+                        )}
+                      </div>
+                      <span className="text-xs text-muted-foreground">{formatTime(event.timestamp)}</span>
+                    </div>
+                    <p className="text-sm whitespace-pre-wrap">{event.text}</p>
+                  </div>
+                )
+              )
+            )}
+            <div ref={bottomRef} />
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// =============================================================================
+// Live calls panel (calls in progress)
+// =============================================================================
+
+interface LiveCallsPanelProps {
+  tenantId?: string;
+  agents: Array<{ _id?: string; id?: string; name: string }>;
+}
+
+export function LiveCallsPanel({ tenantId, agents }: LiveCallsPanelProps) {
+  const { data, isLoading } = useActiveCalls(tenantId, 5000);
+  const [monitoredCall, setMonitoredCall] = useState<LiveCallResponse | null>(null);
+  const liveCalls = data?.items || [];
+
+  const getAgentName = (agentId?: string) =>
+    agents.find((a) => (a._id || a.id) === agentId)?.name;
+
+  const getCallTypeIcon = (callType?: string) => {
+    switch (callType) {
+      case "inbound":
+        return <PhoneIncoming className="h-4 w-4 text-green-600" />;
+      case "outbound":
+        return <PhoneOutgoing className="h-4 w-4 text-blue-600" />;
+      default:
+        return <Globe className="h-4 w-4 text-purple-600" />;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Radio className="h-5 w-5 text-red-500" />
+          Live Calls
+          {liveCalls.length > 0 && (
+            <Badge className="bg-red-100 text-red-700">{liveCalls.length} in progress</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading && !data ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : liveCalls.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No calls in progress. Active calls appear here and can be followed in real time.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {liveCalls.map((call) => (
+              <div
+                key={call.session_id}
+                onClick={() => setMonitoredCall(call)}
+                className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 cursor-pointer transition-colors"
+              >
+                <div className="flex items-center gap-4">
+                  <div className="relative">
+                    <div className="p-2 bg-gray-100 rounded-full">{getCallTypeIcon(call.call_type)}</div>
+                    <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full border-2 border-white bg-red-500 animate-pulse" />
+                  </div>
+                  <div>
+                    <div className="font-medium">
+                      {call.phone_number || getAgentName(call.agent_id) || "Web Call"}
+                    </div>
+                    <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                      <span className="capitalize">{call.call_type || "web"}</span>
+                      {getAgentName(call.agent_id) && <span>• {getAgentName(call.agent_id)}</span>}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-4">
+                  <AgentStateBadge state={call.agent_state} />
+                  <div className="font-medium font-mono">{formatElapsed(call.started_at)}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {monitoredCall && (
+        <LiveCallMonitor
+          call={monitoredCall}
+          agentName={getAgentName(monitoredCall.agent_id)}
+          isOpen={!!monitoredCall}
+          onClose={() => setMonitoredCall(null)}
+        />
+      )}
+    </Card>
+  );
+}
@@ -8,11 +8,17 @@
  * @module
  */
 
+import type * as agentUsage from "../agentUsage.js";
 import type * as agents from "../agents.js";
 import type * as analytics from "../analytics.js";
 import type * as callInteractions from "../callInteractions.js";
+import type * as callLiveEvents from "../callLiveEvents.js";
 import type * as callMetrics from "../callMetrics.js";
+import type * as callRecordings from "../callRecordings.js";
+import type * as callScores from "../callScores.js";
 import type * as callSessions from "../callSessions.js";
+import type * as campaigns from "../campaigns.js";
+import type * as catalog from "../catalog.js";
 import type * as cleanupIntegrations from "../cleanupIntegrations.js";
 import type * as crons from "../crons.js";
 import type * as debugChunks from "../debugChunks.js";
@@ -20,6 +26,7 @@ import type * as documentIngestion from "../documentIngestion.js";
 import type * as documents from "../documents.js";
 import type * as functionSchemas from "../functionSchemas.js";
 import type * as integrations from "../integrations.js";
+import type * as knowledgeSources from "../knowledgeSources.js";
 import type * as organizations from "../organizations.js";
 import type * as promptEnhancer_config from "../promptEnhancer/config.js";
 import type * as promptEnhancer_index from "../promptEnhancer/index.js";
@@ -35,11 +42,17 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  agentUsage: typeof agentUsage;
   agents: typeof agents;
   analytics: typeof analytics;
   callInteractions: typeof callInteractions;
+  callLiveEvents: typeof callLiveEvents;
   callMetrics: typeof callMetrics;
+  callRecordings: typeof callRecordings;
+  callScores: typeof callScores;
   callSessions: typeof callSessions;
+  campaigns: typeof campaigns;
+  catalog: typeof catalog;
   cleanupIntegrations: typeof cleanupIntegrations;
   crons: typeof crons;
   debugChunks: typeof debugChunks;
@@ -47,6 +60,7 @@ declare const fullApi: ApiFromModules<{
   documents: typeof documents;
   functionSchemas: typeof functionSchemas;
   integrations: typeof integrations;
+  knowledgeSources: typeof knowledgeSources;
   organizations: typeof organizations;
   "promptEnhancer/config": typeof promptEnhancer_config;
   "promptEnhancer/index": typeof promptEnhancer_index;
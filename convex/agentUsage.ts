@@ -0,0 +1,365 @@
+/**
+ * Agent Usage - Per-agent call limits
+ *
+ * Manages:
+ * - Concurrent call slots (atomic acquire/release keyed by room name)
+ * - Monthly call counters per billing cycle
+ * - Over-limit decisions (reject / busy message / queue)
+ *
+ * Mutations run as serializable transactions, so the slot count check
+ * and the insert can't race between the dispatch webhook, the outbound
+ * API and the agent entry.
+ */
+
+import { internalMutation, mutation, query } from "./_generated/server.js";
+import { v } from "convex/values";
+import type { MutationCtx, QueryCtx } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+
+// Defaults match AgentConfigService
+const DEFAULT_MAX_CONCURRENT_CALLS = 5;
+const DEFAULT_MONTHLY_CALL_LIMIT = 1000;
+const DEFAULT_MAX_QUEUE_WAIT_SECONDS = 120;
+const DEFAULT_OVER_LIMIT_MESSAGE = "All our agents are busy right now. Please call back in a little while.";
+
+// Slots older than this are treated as leaked (agent crashed before release)
+const STALE_SLOT_MS = 2 * 60 * 60 * 1000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Billing cycle containing `now` for a given reset day (UTC)
+ * Reset day is clamped to 1-28 so every month has it.
+ */
+function getBillingCycle(now: number, billingCycleDay?: number): { cycleStart: number; cycleEnd: number } {
+    const day = Math.min(28, Math.max(1, Math.floor(billingCycleDay ?? 1)));
+    const date = new Date(now);
+    let year = date.getUTCFullYear();
+    let month = date.getUTCMonth();
+
+    if (date.getUTCDate() < day) {
+        month -= 1;
+        if (month < 0) {
+            month = 11;
+            year -= 1;
+        }
+    }
+
+    const cycleStart = Date.UTC(year, month, day);
+    const cycleEnd = Date.UTC(month === 11 ? year + 1 : year, (month + 1) % 12, day);
+    return { cycleStart, cycleEnd };
+}
+
+/**
+ * Resolve an agent ID that may not be a valid Convex ID (fallback agents)
+ */
+async function getAgent(ctx: QueryCtx, agentId: string): Promise<Doc<"agents"> | null> {
+    const id = ctx.db.normalizeId("agents", agentId);
+    return id ? await ctx.db.get(id) : null;
+}
+
+/**
+ * Active (non-stale) slots for an agent
+ */
+async function getActiveSlots(ctx: QueryCtx, agentId: string, now: number): Promise<Doc<"agentCallSlots">[]> {
+    const slots = await ctx.db
+        .query("agentCallSlots")
+        .withIndex("by_agent_id", (q) => q.eq("agentId", agentId))
+        .collect();
+    return slots.filter((s) => now - s.acquiredAt < STALE_SLOT_MS);
+}
+
+/**
+ * Current cycle usage row (null if no calls yet this cycle)
+ */
+async function getCycleUsage(ctx: QueryCtx, agentId: string, cycleStart: number): Promise<Doc<"agentUsage"> | null> {
+    return await ctx.db
+        .query("agentUsage")
+        .withIndex("by_agent_cycle", (q) => q.eq("agentId", agentId).eq("cycleStart", cycleStart))
+        .first();
+}
+
+/**
+ * Limits and over-limit settings for an agent (with defaults)
+ */
+function getLimits(agent: Doc<"agents">) {
+    return {
+        maxConcurrentCalls: agent.maxConcurrentCalls ?? DEFAULT_MAX_CONCURRENT_CALLS,
+        monthlyCallLimit: agent.monthlyCallLimit ?? DEFAULT_MONTHLY_CALL_LIMIT,
+        overLimitBehavior: agent.overLimitBehavior ?? "reject",
+        overLimitMessage: agent.overLimitMessage ?? DEFAULT_OVER_LIMIT_MESSAGE,
+        maxQueueWaitSeconds: agent.maxQueueWaitSeconds ?? DEFAULT_MAX_QUEUE_WAIT_SECONDS,
+    };
+}
+
+/**
+ * Recount an agent's slots and sync the currentConcurrentCalls counter
+ */
+async function syncConcurrentCounter(ctx: MutationCtx, agentId: string, now: number): Promise<number> {
+    const active = await getActiveSlots(ctx, agentId, now);
+    const id = ctx.db.normalizeId("agents", agentId);
+    if (id) {
+        await ctx.db.patch(id, { currentConcurrentCalls: active.length });
+    }
+    return active.length;
+}
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Acquire a concurrent call slot for an agent
+ *
+ * Idempotent per slotKey - the dispatch webhook, outbound API and agent
+ * entry can all call this for the same room. The monthly counter only
+ * increments when a new slot is created.
+ */
+export const acquireCallSlot = mutation({
+    args: {
+        agentId: v.string(),
+        organizationId: v.string(),
+        slotKey: v.string(),
+        direction: v.union(v.literal("inbound"), v.literal("outbound"), v.literal("web")),
+    },
+    handler: async (ctx, args) => {
+        const now = Date.now();
+
+        const existing = await ctx.db
+            .query("agentCallSlots")
+            .withIndex("by_slot_key", (q) => q.eq("slotKey", args.slotKey))
+            .first();
+        if (existing) {
+            return { allowed: true, status: "already_held" as const };
+        }
+
+        const agent = await getAgent(ctx, args.agentId);
+        if (!agent) {
+            // Unknown / fallback agent - nothing to enforce against
+            return { allowed: true, status: "untracked" as const };
+        }
+
+        const limits = getLimits(agent);
+        const { cycleStart, cycleEnd } = getBillingCycle(now, agent.billingCycleDay);
+
+        // Reclaim leaked slots for this agent while we're here
+        const allSlots = await ctx.db
+            .query("agentCallSlots")
+            .withIndex("by_agent_id", (q) => q.eq("agentId", args.agentId))
+            .collect();
+        const activeSlots = [];
+        for (const slot of allSlots) {
+            if (now - slot.acquiredAt >= STALE_SLOT_MS) {
+                await ctx.db.delete(slot._id);
+            } else {
+                activeSlots.push(slot);
+            }
+        }
+
+        const usage = await getCycleUsage(ctx, args.agentId, cycleStart);
+        const callCount = usage?.callCount ?? 0;
+
+        const reason = callCount >= limits.monthlyCallLimit
+            ? "monthly_limit" as const
+            : activeSlots.length >= limits.maxConcurrentCalls
+                ? "concurrent_limit" as const
+                : null;
+
+        if (reason) {
+            // Queueing can't help once the month's quota is spent
+            const behavior = reason === "monthly_limit" && limits.overLimitBehavior === "queue"
+                ? "busy_message"
+                : limits.overLimitBehavior;
+
+            return {
+                allowed: false,
+                status: "over_limit" as const,
+                reason,
+                behavior,
+                message: limits.overLimitMessage,
+                maxQueueWaitSeconds: limits.maxQueueWaitSeconds,
+                currentConcurrentCalls: activeSlots.length,
+                maxConcurrentCalls: limits.maxConcurrentCalls,
+                monthlyCallCount: callCount,
+                monthlyCallLimit: limits.monthlyCallLimit,
+            };
+        }
+
+        await ctx.db.insert("agentCallSlots", {
+            agentId: args.agentId,
+            organizationId: args.organizationId,
+            slotKey: args.slotKey,
+            direction: args.direction,
+            acquiredAt: now,
+        });
+
+        if (usage) {
+            await ctx.db.patch(usage._id, { callCount: usage.callCount + 1, updatedAt: now });
+        } else {
+            await ctx.db.insert("agentUsage", {
+                agentId: args.agentId,
+                organizationId: args.organizationId,
+                cycleStart,
+                cycleEnd,
+                callCount: 1,
+                rejectedCount: 0,
+                updatedAt: now,
+            });
+        }
+
+        await ctx.db.patch(agent._id, { currentConcurrentCalls: activeSlots.length + 1 });
+
+        return {
+            allowed: true,
+            status: "acquired" as const,
+            currentConcurrentCalls: activeSlots.length + 1,
+            maxConcurrentCalls: limits.maxConcurrentCalls,
+            monthlyCallCount: callCount + 1,
+            monthlyCallLimit: limits.monthlyCallLimit,
+        };
+    },
+});
+
+/**
+ * Release a call slot by key (idempotent)
+ * Shared with callSessions:failOrphanedSession, whose agent died holding its slot.
+ */
+export async function releaseSlot(
+    ctx: MutationCtx,
+    slotKey: string
+): Promise<{ released: false } | { released: true; currentConcurrentCalls: number }> {
+    const slot = await ctx.db
+        .query("agentCallSlots")
+        .withIndex("by_slot_key", (q) => q.eq("slotKey", slotKey))
+        .first();
+
+    if (!slot) {
+        return { released: false };
+    }
+
+    await ctx.db.delete(slot._id);
+    const currentConcurrentCalls = await syncConcurrentCounter(ctx, slot.agentId, Date.now());
+
+    return { released: true, currentConcurrentCalls };
+}
+
+/**
+ * Release a call slot (idempotent)
+ */
+export const releaseCallSlot = mutation({
+    args: {
+        slotKey: v.string(),
+    },
+    handler: async (ctx, args) => {
+        return await releaseSlot(ctx, args.slotKey);
+    },
+});
+
+/**
+ * Count a call that was turned away (rejected, busy message, queue timeout)
+ */
+export const recordRejection = mutation({
+    args: {
+        agentId: v.string(),
+        organizationId: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const agent = await getAgent(ctx, args.agentId);
+        if (!agent) return { success: false };
+
+        const now = Date.now();
+        const { cycleStart, cycleEnd } = getBillingCycle(now, agent.billingCycleDay);
+        const usage = await getCycleUsage(ctx, args.agentId, cycleStart);
+
+        if (usage) {
+            await ctx.db.patch(usage._id, { rejectedCount: usage.rejectedCount + 1, updatedAt: now });
+        } else {
+            await ctx.db.insert("agentUsage", {
+                agentId: args.agentId,
+                organizationId: args.organizationId,
+                cycleStart,
+                cycleEnd,
+                callCount: 0,
+                rejectedCount: 1,
+                updatedAt: now,
+            });
+        }
+
+        return { success: true };
+    },
+});
+
+/**
+ * Delete leaked slots across all agents (cron)
+ */
+export const reclaimStaleSlots = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        const now = Date.now();
+        const stale = await ctx.db
+            .query("agentCallSlots")
+            .withIndex("by_acquired_at", (q) => q.lt("acquiredAt", now - STALE_SLOT_MS))
+            .collect();
+
+        const agentIds = new Set<string>();
+        for (const slot of stale) {
+            await ctx.db.delete(slot._id);
+            agentIds.add(slot.agentId);
+        }
+
+        for (const agentId of agentIds) {
+            await syncConcurrentCounter(ctx, agentId, now);
+        }
+
+        if (stale.length > 0) {
+            console.log(`[AgentUsage] Reclaimed ${stale.length} stale call slots`);
+        }
+
+        return { reclaimed: stale.length };
+    },
+});
+
+// ============================================
+// QUERY OPERATIONS
+// ============================================
+
+/**
+ * Current usage for an agent (concurrent calls + this billing cycle)
+ */
+export const getUsage = query({
+    args: {
+        agentId: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const agent = await getAgent(ctx, args.agentId);
+        if (!agent) return null;
+
+        const now = Date.now();
+        const limits = getLimits(agent);
+        const { cycleStart, cycleEnd } = getBillingCycle(now, agent.billingCycleDay);
+        const [activeSlots, usage] = await Promise.all([
+            getActiveSlots(ctx, args.agentId, now),
+            getCycleUsage(ctx, args.agentId, cycleStart),
+        ]);
+
+        return {
+            agentId: args.agentId,
+            organizationId: agent.organizationId,
+            currentConcurrentCalls: activeSlots.length,
+            maxConcurrentCalls: limits.maxConcurrentCalls,
+            monthlyCallCount: usage?.callCount ?? 0,
+            monthlyCallLimit: limits.monthlyCallLimit,
+            rejectedCount: usage?.rejectedCount ?? 0,
+            cycleStart,
+            cycleEnd,
+            overLimitBehavior: limits.overLimitBehavior,
+            activeCalls: activeSlots.map((s) => ({
+                slotKey: s.slotKey,
+                direction: s.direction,
+                acquiredAt: s.acquiredAt,
+            })),
+        };
+    },
+});
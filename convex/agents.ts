@@ -11,6 +11,26 @@ import { mutation, query } from "./_generated/server.js";
 import { v } from "convex/values";
 import { api } from "./_generated/api.js";
 
+/**
+ * Transfer directory entry validator (department → human destination)
+ */
+const transferTargetValidator = v.object({
+    department: v.string(),
+    destination: v.string(),
+    mode: v.optional(v.union(v.literal("cold"), v.literal("warm"))),
+    voicemail: v.optional(v.string()),
+    description: v.optional(v.string()),
+});
+
+/**
+ * What happens to calls beyond maxConcurrentCalls / monthlyCallLimit
+ */
+const overLimitBehaviorValidator = v.union(
+    v.literal("reject"),
+    v.literal("busy_message"),
+    v.literal("queue")
+);
+
 // ============================================
 // CREATE OPERATIONS
 // ============================================
@@ -33,6 +53,13 @@ export const create = mutation({
         phoneNumber: v.optional(v.string()),
         phoneLocation: v.optional(v.string()),
         enableContextualEnrichment: v.optional(v.boolean()),
+        transferDirectory: v.optional(v.array(transferTargetValidator)),
+        maxConcurrentCalls: v.optional(v.number()),
+        monthlyCallLimit: v.optional(v.number()),
+        overLimitBehavior: v.optional(overLimitBehaviorValidator),
+        overLimitMessage: v.optional(v.string()),
+        maxQueueWaitSeconds: v.optional(v.number()),
+        billingCycleDay: v.optional(v.number()),
     },
     handler: async (ctx, args) => {
         const now = Date.now();
@@ -51,6 +78,13 @@ export const create = mutation({
             phoneNumber: args.phoneNumber,
             phoneLocation: args.phoneLocation,
             enableContextualEnrichment: args.enableContextualEnrichment ?? true,
+            transferDirectory: args.transferDirectory,
+            maxConcurrentCalls: args.maxConcurrentCalls,
+            monthlyCallLimit: args.monthlyCallLimit,
+            overLimitBehavior: args.overLimitBehavior,
+            overLimitMessage: args.overLimitMessage,
+            maxQueueWaitSeconds: args.maxQueueWaitSeconds,
+            billingCycleDay: args.billingCycleDay,
             fullPrompt: args.systemPrompt,  // Use systemPrompt directly
             promptVersion: now,
             status: "active",
@@ -252,6 +286,13 @@ export const update = mutation({
         phoneNumber: v.optional(v.string()),
         phoneLocation: v.optional(v.string()),
         enableContextualEnrichment: v.optional(v.boolean()),
+        transferDirectory: v.optional(v.array(transferTargetValidator)),
+        maxConcurrentCalls: v.optional(v.number()),
+        monthlyCallLimit: v.optional(v.number()),
+        overLimitBehavior: v.optional(overLimitBehaviorValidator),
+        overLimitMessage: v.optional(v.string()),
+        maxQueueWaitSeconds: v.optional(v.number()),
+        billingCycleDay: v.optional(v.number()),
     },
     handler: async (ctx, args) => {
         const { agentId, ...updates } = args;
@@ -275,6 +316,13 @@ export const update = mutation({
         if (updates.phoneNumber !== undefined) updateData.phoneNumber = updates.phoneNumber;
         if (updates.phoneLocation !== undefined) updateData.phoneLocation = updates.phoneLocation;
         if (updates.enableContextualEnrichment !== undefined) updateData.enableContextualEnrichment = updates.enableContextualEnrichment;
+        if (updates.transferDirectory !== undefined) updateData.transferDirectory = updates.transferDirectory;
+        if (updates.maxConcurrentCalls !== undefined) updateData.maxConcurrentCalls = updates.maxConcurrentCalls;
+        if (updates.monthlyCallLimit !== undefined) updateData.monthlyCallLimit = updates.monthlyCallLimit;
+        if (updates.overLimitBehavior !== undefined) updateData.overLimitBehavior = updates.overLimitBehavior;
+        if (updates.overLimitMessage !== undefined) updateData.overLimitMessage = updates.overLimitMessage;
+        if (updates.maxQueueWaitSeconds !== undefined) updateData.maxQueueWaitSeconds = updates.maxQueueWaitSeconds;
+        if (updates.billingCycleDay !== undefined) updateData.billingCycleDay = updates.billingCycleDay;
 
         // Update fullPrompt if systemPrompt changed
         const promptRebuilt = updates.systemPrompt !== undefined;
@@ -347,6 +395,28 @@ export const updateConfig = mutation({
     },
 });
 
+/**
+ * Set or remove the agent's workflow (validated JSON from the API server)
+ */
+export const updateWorkflow = mutation({
+    args: {
+        agentId: v.id("agents"),
+        workflow: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const agent = await ctx.db.get(args.agentId);
+        if (!agent) {
+            throw new Error(`Agent not found: ${args.agentId}`);
+        }
+
+        await ctx.db.patch(args.agentId, {
+            workflow: args.workflow,
+            updatedAt: Date.now(),
+        });
+        return { success: true, hasWorkflow: args.workflow !== undefined };
+    },
+});
+
 /**
  * Update system prompt only
  * Rebuilds fullPrompt since systemPrompt is the main content
@@ -12,6 +12,7 @@
 
 import { query } from "./_generated/server.js";
 import { v } from "convex/values";
+import { computeCampaignStats } from "./campaigns.js";
 
 // ============================================
 // TODAY'S STATISTICS
@@ -1022,3 +1023,136 @@ export const getDashboardChartData = query({
         };
     },
 });
+
+// ============================================
+// CAMPAIGN ANALYTICS
+// ============================================
+
+/**
+ * Per-campaign contact outcomes for an organization
+ */
+export const getCampaignAnalytics = query({
+    args: {
+        organizationId: v.string(),
+        agentId: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const campaigns = await ctx.db
+            .query("campaigns")
+            .withIndex("by_organization_id", (q) => q.eq("organizationId", args.organizationId))
+            .order("desc")
+            .collect();
+
+        const filtered = campaigns.filter((c) => !args.agentId || c.agentId === args.agentId);
+        const rows = await Promise.all(filtered.map(async (campaign) => ({
+            campaignId: campaign._id,
+            name: campaign.name,
+            agentId: campaign.agentId,
+            status: campaign.status,
+            startedAt: campaign.startedAt,
+            completedAt: campaign.completedAt,
+            ...(await computeCampaignStats(ctx, campaign._id)),
+        })));
+
+        const totals = rows.reduce((acc, row) => ({
+            contacts: acc.contacts + row.totalContacts,
+            dialed: acc.dialed + row.contactsDialed,
+            answered: acc.answered + row.byOutcome.answered,
+            attempts: acc.attempts + row.totalAttempts,
+        }), { contacts: 0, dialed: 0, answered: 0, attempts: 0 });
+
+        return {
+            campaigns: rows,
+            totals: {
+                ...totals,
+                answerRate: totals.dialed > 0 ? Math.round((totals.answered / totals.dialed) * 100) : 0,
+            },
+        };
+    },
+});
+
+// ============================================
+// QA SCORECARD ANALYTICS
+// ============================================
+
+/**
+ * QA score trends: daily average score and pass rate, plus per-criterion pass rates
+ * (which rubric items agents miss most)
+ */
+export const getQAScoreTrends = query({
+    args: {
+        organizationId: v.string(),
+        agentId: v.optional(v.string()),
+        days: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const days = args.days || 30;
+        const now = Date.now();
+        const startTime = now - (days * 24 * 60 * 60 * 1000);
+
+        const scores = await ctx.db
+            .query("callScores")
+            .withIndex("by_organization_and_graded_at", (q) =>
+                q.eq("organizationId", args.organizationId).gte("gradedAt", startTime)
+            )
+            .collect();
+        const filteredScores = scores.filter((s) => !args.agentId || s.agentId === args.agentId);
+
+        // Group by day
+        const dailyData: Record<string, { total: number; passed: number; scoreSum: number }> = {};
+        const criteriaData: Record<string, { id: string; description: string; passed: number; failed: number; notApplicable: number }> = {};
+
+        filteredScores.forEach(score => {
+            const date = new Date(score.gradedAt);
+            const dateKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+            if (!dailyData[dateKey]) {
+                dailyData[dateKey] = { total: 0, passed: 0, scoreSum: 0 };
+            }
+            dailyData[dateKey].total++;
+            dailyData[dateKey].scoreSum += score.score;
+            if (score.passed) dailyData[dateKey].passed++;
+
+            score.criteria.forEach(criterion => {
+                if (!criteriaData[criterion.id]) {
+                    criteriaData[criterion.id] = { id: criterion.id, description: criterion.description, passed: 0, failed: 0, notApplicable: 0 };
+                }
+                if (criterion.result === "pass") criteriaData[criterion.id].passed++;
+                else if (criterion.result === "fail") criteriaData[criterion.id].failed++;
+                else criteriaData[criterion.id].notApplicable++;
+            });
+        });
+
+        // Fill in missing days
+        const daily = [];
+        for (let i = days - 1; i >= 0; i--) {
+            const date = new Date(now - (i * 24 * 60 * 60 * 1000));
+            const dateKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+            const day = dailyData[dateKey];
+            daily.push({
+                date: dateKey,
+                graded: day?.total || 0,
+                avgScore: day ? Math.round(day.scoreSum / day.total) : null,
+                passRate: day ? Math.round((day.passed / day.total) * 100) : null,
+            });
+        }
+
+        const total = filteredScores.length;
+        const passed = filteredScores.filter(s => s.passed).length;
+
+        return {
+            daily,
+            criteria: Object.values(criteriaData)
+                .map(c => ({
+                    ...c,
+                    passRate: c.passed + c.failed > 0 ? Math.round((c.passed / (c.passed + c.failed)) * 100) : null,
+                }))
+                .sort((a, b) => (a.passRate ?? 101) - (b.passRate ?? 101)),
+            summary: {
+                graded: total,
+                avgScore: total > 0 ? Math.round(filteredScores.reduce((sum, s) => sum + s.score, 0) / total) : null,
+                passRate: total > 0 ? Math.round((passed / total) * 100) : null,
+            },
+        };
+    },
+});
@@ -25,6 +25,7 @@ export const logUserMessage = mutation({
         agentId: v.optional(v.string()),
         userInput: v.string(),
         latencyMs: v.optional(v.number()), // STT latency
+        language: v.optional(v.string()), // Detected spoken language
     },
     handler: async (ctx, args) => {
         return await ctx.db.insert("callInteractions", {
@@ -35,6 +36,7 @@ export const logUserMessage = mutation({
             timestamp: Date.now(),
             userInput: args.userInput,
             latencyMs: args.latencyMs,
+            language: args.language,
         });
     },
 });
@@ -92,12 +94,14 @@ export const logFunctionCall = mutation({
 });
 
 /**
- * Batch log interactions at end of call
- * Saves all user messages, agent responses, and function calls in one transaction
+ * Batch log interactions (periodic flushes during the call and the final flush)
+ * Saves user messages, agent responses, and function calls in one transaction;
+ * interactions whose interactionId is already stored are skipped
  */
 export const logInteractionsBatch = mutation({
     args: {
         interactions: v.array(v.object({
+            interactionId: v.optional(v.string()),
             sessionId: v.string(),
             organizationId: v.string(),
             agentId: v.optional(v.string()),
@@ -113,27 +117,44 @@ export const logInteractionsBatch = mutation({
             functionParams: v.optional(v.string()),
             functionResult: v.optional(v.string()),
             latencyMs: v.optional(v.number()),
+            language: v.optional(v.string()),
         })),
     },
     handler: async (ctx, args) => {
-        const ids = await Promise.all(
-            args.interactions.map((interaction) =>
-                ctx.db.insert("callInteractions", {
-                    sessionId: interaction.sessionId,
-                    organizationId: interaction.organizationId,
-                    agentId: interaction.agentId,
-                    interactionType: interaction.interactionType,
-                    timestamp: interaction.timestamp,
-                    userInput: interaction.userInput,
-                    agentResponse: interaction.agentResponse,
-                    functionName: interaction.functionName,
-                    functionParams: interaction.functionParams,
-                    functionResult: interaction.functionResult,
-                    latencyMs: interaction.latencyMs,
-                })
-            )
-        );
-        return { count: ids.length, ids };
+        const ids = [];
+        let skipped = 0;
+
+        for (const interaction of args.interactions) {
+            // Retried batches (periodic flush, spool replay) must not duplicate rows
+            if (interaction.interactionId) {
+                const existing = await ctx.db
+                    .query("callInteractions")
+                    .withIndex("by_interaction_id", (q) => q.eq("interactionId", interaction.interactionId))
+                    .first();
+                if (existing) {
+                    ids.push(existing._id);
+                    skipped++;
+                    continue;
+                }
+            }
+
+            ids.push(await ctx.db.insert("callInteractions", {
+                interactionId: interaction.interactionId,
+                sessionId: interaction.sessionId,
+                organizationId: interaction.organizationId,
+                agentId: interaction.agentId,
+                interactionType: interaction.interactionType,
+                timestamp: interaction.timestamp,
+                userInput: interaction.userInput,
+                agentResponse: interaction.agentResponse,
+                functionName: interaction.functionName,
+                functionParams: interaction.functionParams,
+                functionResult: interaction.functionResult,
+                latencyMs: interaction.latencyMs,
+                language: interaction.language,
+            }));
+        }
+        return { count: ids.length - skipped, skipped, ids };
     },
 });
 
@@ -0,0 +1,171 @@
+/**
+ * Call Live Events - Near real-time feed of in-progress calls
+ *
+ * The agent appends turns, tool calls and agent state changes in small batches
+ * while a call is running (callInteractions are flushed every few seconds and
+ * the transcript at the end of the call). The API polls listSince to stream a call to the
+ * dashboard and listActiveCalls to show what is live right now.
+ *
+ * Events are only needed while a call is being watched; the cron purges them
+ * after LIVE_EVENT_TTL_MS.
+ */
+
+import { internalMutation, mutation, query } from "./_generated/server.js";
+import { internal } from "./_generated/api.js";
+import { v } from "convex/values";
+
+// How long live events are kept (the full transcript lives on callSessions)
+const LIVE_EVENT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// How many events one purge run deletes (reschedules itself while more remain)
+const PURGE_BATCH_SIZE = 500;
+
+// Max events returned per poll
+const DEFAULT_POLL_LIMIT = 200;
+
+const eventTypeValidator = v.union(
+    v.literal("user_message"),
+    v.literal("agent_response"),
+    v.literal("function_call"),
+    v.literal("agent_state")
+);
+
+// ============================================
+// CREATE OPERATIONS
+// ============================================
+
+/**
+ * Append a batch of live events for one or more sessions
+ * Agent state events also update the session's liveAgentState
+ */
+export const appendBatch = mutation({
+    args: {
+        events: v.array(v.object({
+            sessionId: v.string(),
+            organizationId: v.string(),
+            agentId: v.optional(v.string()),
+            eventType: eventTypeValidator,
+            text: v.optional(v.string()),
+            language: v.optional(v.string()),
+            functionName: v.optional(v.string()),
+            functionParams: v.optional(v.string()),
+            functionResult: v.optional(v.string()),
+            state: v.optional(v.string()),
+            timestamp: v.number(),
+        })),
+    },
+    handler: async (ctx, args) => {
+        const latest = new Map<string, { timestamp: number; state?: string }>();
+
+        for (const event of args.events) {
+            await ctx.db.insert("callLiveEvents", event);
+
+            const current = latest.get(event.sessionId) || { timestamp: 0 };
+            latest.set(event.sessionId, {
+                timestamp: Math.max(current.timestamp, event.timestamp),
+                state: event.eventType === "agent_state" ? event.state : current.state,
+            });
+        }
+
+        for (const [sessionId, activity] of latest) {
+            const session = await ctx.db
+                .query("callSessions")
+                .withIndex("by_session_id", (q) => q.eq("sessionId", sessionId))
+                .unique();
+            if (!session) continue;
+
+            await ctx.db.patch(session._id, {
+                lastActivityAt: activity.timestamp,
+                ...(activity.state && { liveAgentState: activity.state }),
+            });
+        }
+
+        return { count: args.events.length };
+    },
+});
+
+// ============================================
+// QUERY OPERATIONS
+// ============================================
+
+/**
+ * Events for a session created after a cursor (the _creationTime of the last
+ * event the caller has seen), with the session's current status
+ */
+export const listSince = query({
+    args: {
+        sessionId: v.string(),
+        after: v.optional(v.number()),
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const session = await ctx.db
+            .query("callSessions")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
+            .unique();
+
+        const events = await ctx.db
+            .query("callLiveEvents")
+            .withIndex("by_session_id", (q) =>
+                q.eq("sessionId", args.sessionId).gt("_creationTime", args.after ?? 0)
+            )
+            .take(args.limit ?? DEFAULT_POLL_LIMIT);
+
+        return {
+            status: session?.status ?? null,
+            agentState: session?.liveAgentState ?? null,
+            events,
+        };
+    },
+});
+
+/**
+ * Calls currently in progress for an organization (optionally one agent)
+ */
+export const listActiveCalls = query({
+    args: {
+        organizationId: v.string(),
+        agentId: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const sessions = await ctx.db
+            .query("callSessions")
+            .withIndex("by_status_and_organization", (q) =>
+                q.eq("status", "active").eq("organizationId", args.organizationId)
+            )
+            .collect();
+
+        return sessions
+            .filter((s) => !args.agentId || s.agentId === args.agentId)
+            .sort((a, b) => b.startedAt - a.startedAt);
+    },
+});
+
+// ============================================
+// CLEANUP OPERATIONS
+// ============================================
+
+/**
+ * Delete live events older than LIVE_EVENT_TTL_MS (internal - called by cron)
+ */
+export const purgeOldEvents = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        const cutoff = Date.now() - LIVE_EVENT_TTL_MS;
+
+        const old = await ctx.db
+            .query("callLiveEvents")
+            .withIndex("by_timestamp", (q) => q.lt("timestamp", cutoff))
+            .take(PURGE_BATCH_SIZE);
+
+        for (const event of old) {
+            await ctx.db.delete(event._id);
+        }
+
+        if (old.length === PURGE_BATCH_SIZE) {
+            await ctx.scheduler.runAfter(0, internal.callLiveEvents.purgeOldEvents, {});
+        }
+
+        return { success: true, deletedCount: old.length };
+    },
+});
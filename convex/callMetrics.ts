@@ -6,6 +6,7 @@
  * - Function call performance
  * - Quality scores
  * - Error tracking
+ * - Provider failovers (STT/TTS/LLM switched mid-call)
  * 
  * Used for performance optimization and debugging
  */
@@ -29,7 +30,8 @@ export const logMetric = mutation({
             v.literal("latency"),
             v.literal("function_call"),
             v.literal("error"),
-            v.literal("quality")
+            v.literal("quality"),
+            v.literal("failover")
         ),
         metricName: v.string(),
         value: v.number(),
@@ -67,7 +69,8 @@ export const logMetricsBatch = mutation({
                 v.literal("latency"),
                 v.literal("function_call"),
                 v.literal("error"),
-                v.literal("quality")
+                v.literal("quality"),
+                v.literal("failover")
             ),
             metricName: v.string(),
             value: v.number(),
@@ -124,7 +127,8 @@ export const getByAgentId = query({
             v.literal("latency"),
             v.literal("function_call"),
             v.literal("error"),
-            v.literal("quality")
+            v.literal("quality"),
+            v.literal("failover")
         )),
     },
     handler: async (ctx, args) => {
@@ -370,3 +374,75 @@ export const getErrorMetrics = query({
         };
     },
 });
+
+/**
+ * Get provider failover counts (how often STT/TTS/LLM switched mid-call)
+ */
+export const getFailoverStats = query({
+    args: {
+        organizationId: v.string(),
+        agentId: v.optional(v.string()),
+        timeRange: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const hours = args.timeRange || 24;
+        const cutoffTime = Date.now() - (hours * 60 * 60 * 1000);
+        
+        const metrics = await ctx.db
+            .query("callMetrics")
+            .withIndex("by_organization_id", (q) => q.eq("organizationId", args.organizationId))
+            .collect();
+        
+        const failovers = metrics.filter(m =>
+            m.metricType === "failover" &&
+            (!args.agentId || m.agentId === args.agentId) &&
+            m.timestamp &&
+            m.timestamp >= cutoffTime
+        );
+        
+        // Group by modality + provider switch (e.g. "tts: SarvamTTS -> OpenAITTS")
+        const grouped = failovers.reduce((acc, m) => {
+            const meta = m.metadata ? JSON.parse(m.metadata) : {};
+            const key = `${m.metricName}|${meta.from}|${meta.to}`;
+            if (!acc[key]) {
+                acc[key] = {
+                    metric_name: m.metricName,
+                    modality: meta.modality,
+                    from: meta.from,
+                    to: meta.to,
+                    count: 0,
+                    sessions: new Set<string>(),
+                    reasons: {} as Record<string, number>,
+                    last_at: 0,
+                };
+            }
+            acc[key].count++;
+            acc[key].sessions.add(m.sessionId);
+            acc[key].reasons[meta.reason || "error"] = (acc[key].reasons[meta.reason || "error"] || 0) + 1;
+            acc[key].last_at = Math.max(acc[key].last_at, m.timestamp || 0);
+            return acc;
+        }, {} as Record<string, any>);
+        
+        const switches = Object.values(grouped).map((g: any) => ({
+            metric_name: g.metric_name,
+            modality: g.modality,
+            from: g.from,
+            to: g.to,
+            count: g.count,
+            affected_sessions: g.sessions.size,
+            reasons: g.reasons,
+            last_at: g.last_at,
+        }));
+        
+        // Sort by count descending
+        switches.sort((a, b) => b.count - a.count);
+        
+        return {
+            agent_id: args.agentId,
+            time_range_hours: hours,
+            total_failovers: failovers.filter(m => !m.metricName?.endsWith("_recovered")).length,
+            affected_sessions: new Set(failovers.map(m => m.sessionId)).size,
+            switches,
+        };
+    },
+});
@@ -0,0 +1,322 @@
+/**
+ * Call Recordings - Recording lifecycle and retention
+ *
+ * Manages:
+ * - Recording state on callSessions (started by the agent via LiveKit egress)
+ * - Retention: the cron deletes recordings past recordingExpiresAt from the
+ *   S3-compatible bucket, then clears the session's recording fields. A session
+ *   keeps its key (status "deleting") until its object is gone, so failed
+ *   deletes are retried by the next run.
+ *
+ * Deleting objects needs the bucket credentials in the Convex environment
+ * (RECORDING_S3_* - same values as the backend):
+ *   npx convex env set RECORDING_S3_BUCKET call-recordings
+ */
+
+import { internalAction, internalMutation, mutation, query } from "./_generated/server.js";
+import { internal } from "./_generated/api.js";
+import type { Id } from "./_generated/dataModel.js";
+import { v } from "convex/values";
+
+// How many expired recordings one cron run purges
+const PURGE_BATCH_SIZE = 50;
+
+// ============================================
+// HELPERS
+// ============================================
+
+interface S3Settings {
+    bucket: string;
+    region: string;
+    endpoint?: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    forcePathStyle: boolean;
+}
+
+function getS3Settings(): S3Settings | null {
+    const bucket = process.env.RECORDING_S3_BUCKET;
+    const accessKeyId = process.env.RECORDING_S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.RECORDING_S3_SECRET_ACCESS_KEY;
+    if (!bucket || !accessKeyId || !secretAccessKey) return null;
+
+    return {
+        bucket,
+        region: process.env.RECORDING_S3_REGION || "us-east-1",
+        endpoint: process.env.RECORDING_S3_ENDPOINT,
+        accessKeyId,
+        secretAccessKey,
+        forcePathStyle: process.env.RECORDING_S3_FORCE_PATH_STYLE === "true",
+    };
+}
+
+function objectUrl(s3: S3Settings, key: string): URL {
+    const path = key.split("/").map(encodeURIComponent).join("/");
+    if (s3.endpoint || s3.forcePathStyle) {
+        const endpoint = (s3.endpoint || `https://s3.${s3.region}.amazonaws.com`).replace(/\/+$/, "");
+        return new URL(`${endpoint}/${s3.bucket}/${path}`);
+    }
+    return new URL(`https://${s3.bucket}.s3.${s3.region}.amazonaws.com/${path}`);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+    return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function sha256Hex(data: string): Promise<string> {
+    return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(data)));
+}
+
+async function hmac(key: ArrayBuffer, data: string): Promise<ArrayBuffer> {
+    const cryptoKey = await crypto.subtle.importKey("raw", key, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+    return crypto.subtle.sign("HMAC", cryptoKey, new TextEncoder().encode(data));
+}
+
+/**
+ * Delete one object with an AWS Signature V4 signed request
+ * (works against S3, R2, MinIO and other S3-compatible stores)
+ */
+async function deleteObject(s3: S3Settings, key: string): Promise<void> {
+    const url = objectUrl(s3, key);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const date = amzDate.slice(0, 8);
+    const payloadHash = await sha256Hex("");
+
+    const signedHeaders = "host;x-amz-content-sha256;x-amz-date";
+    const canonicalRequest = [
+        "DELETE",
+        url.pathname,
+        "",
+        `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+        signedHeaders,
+        payloadHash,
+    ].join("\n");
+
+    const scope = `${date}/${s3.region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, await sha256Hex(canonicalRequest)].join("\n");
+
+    let signingKey = await hmac(new TextEncoder().encode(`AWS4${s3.secretAccessKey}`).buffer as ArrayBuffer, date);
+    for (const part of [s3.region, "s3", "aws4_request"]) {
+        signingKey = await hmac(signingKey, part);
+    }
+    const signature = toHex(await hmac(signingKey, stringToSign));
+
+    const response = await fetch(url, {
+        method: "DELETE",
+        headers: {
+            "x-amz-date": amzDate,
+            "x-amz-content-sha256": payloadHash,
+            Authorization: `AWS4-HMAC-SHA256 Credential=${s3.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        },
+    });
+
+    // 404 means it is already gone - retention is satisfied either way
+    if (!response.ok && response.status !== 404) {
+        const body = await response.text().catch(() => "");
+        throw new Error(`DELETE ${key} returned ${response.status}: ${body.slice(0, 200)}`);
+    }
+}
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Record that egress started recording a call
+ */
+export const startRecording = mutation({
+    args: {
+        sessionId: v.string(),
+        egressId: v.string(),
+        recordingKey: v.string(),
+        recordingUrl: v.string(),
+        retentionDays: v.number(),
+    },
+    handler: async (ctx, args) => {
+        const session = await ctx.db
+            .query("callSessions")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
+            .unique();
+
+        if (!session) throw new Error(`Session not found: ${args.sessionId}`);
+
+        const now = Date.now();
+        await ctx.db.patch(session._id, {
+            recordingEgressId: args.egressId,
+            recordingKey: args.recordingKey,
+            recordingUrl: args.recordingUrl,
+            recordingStatus: "recording",
+            recordingStartedAt: now,
+            recordingExpiresAt: now + args.retentionDays * 24 * 60 * 60 * 1000,
+            updatedAt: now,
+        });
+
+        return { success: true };
+    },
+});
+
+/**
+ * Record how a recording ended (egress stopped with the call, or failed)
+ */
+export const finishRecording = mutation({
+    args: {
+        sessionId: v.string(),
+        status: v.union(v.literal("completed"), v.literal("failed")),
+    },
+    handler: async (ctx, args) => {
+        const session = await ctx.db
+            .query("callSessions")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
+            .unique();
+
+        if (!session || session.recordingStatus !== "recording") return { success: false };
+
+        await ctx.db.patch(session._id, {
+            recordingStatus: args.status,
+            updatedAt: Date.now(),
+        });
+
+        return { success: true };
+    },
+});
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Recording details for a call (null if the call was never recorded)
+ */
+export const getBySessionId = query({
+    args: { sessionId: v.string() },
+    handler: async (ctx, args) => {
+        const session = await ctx.db
+            .query("callSessions")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
+            .unique();
+
+        if (!session?.recordingStatus) return null;
+
+        return {
+            sessionId: session.sessionId,
+            organizationId: session.organizationId,
+            agentId: session.agentId,
+            status: session.recordingStatus,
+            recordingKey: session.recordingKey,
+            recordingUrl: session.recordingUrl,
+            startedAt: session.recordingStartedAt,
+            expiresAt: session.recordingExpiresAt,
+            deletedAt: session.recordingDeletedAt,
+        };
+    },
+});
+
+// ============================================
+// RETENTION (cron)
+// ============================================
+
+/**
+ * Purge recordings past their retention period
+ * Marks them "deleting" and deletes the audio in a background action; the
+ * session fields are only cleared once the object is gone (markRecordingDeleted).
+ * Expired sessions stay in the index until then, so each run retries failures.
+ */
+export const purgeExpiredRecordings = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        const now = Date.now();
+
+        const expired = await ctx.db
+            .query("callSessions")
+            .withIndex("by_recording_expires_at", (q) =>
+                q.gt("recordingExpiresAt", 0).lt("recordingExpiresAt", now)
+            )
+            .take(PURGE_BATCH_SIZE);
+
+        const recordings: Array<{ sessionId: Id<"callSessions">; key: string }> = [];
+        for (const session of expired) {
+            if (session.recordingKey) {
+                recordings.push({ sessionId: session._id, key: session.recordingKey });
+                if (session.recordingStatus !== "deleting") {
+                    await ctx.db.patch(session._id, { recordingStatus: "deleting", updatedAt: now });
+                }
+            } else {
+                // Nothing was uploaded - nothing to delete
+                await ctx.db.patch(session._id, {
+                    recordingStatus: "deleted",
+                    recordingUrl: undefined,
+                    recordingExpiresAt: undefined,
+                    recordingDeletedAt: now,
+                    updatedAt: now,
+                });
+            }
+        }
+
+        if (recordings.length > 0) {
+            await ctx.scheduler.runAfter(0, internal.callRecordings.deleteRecordingObjects, { recordings });
+        }
+
+        return { success: true, purgedCount: expired.length };
+    },
+});
+
+/**
+ * Delete recording audio from the bucket (internal action)
+ * Used by purgeExpiredRecordings. Sessions whose delete fails keep their key.
+ */
+export const deleteRecordingObjects = internalAction({
+    args: {
+        recordings: v.array(v.object({
+            sessionId: v.id("callSessions"),
+            key: v.string(),
+        })),
+    },
+    handler: async (ctx, args) => {
+        const s3 = getS3Settings();
+        if (!s3) {
+            console.error(`Cannot delete ${args.recordings.length} expired recordings: RECORDING_S3_* not set in the Convex environment`);
+            return { success: false, deleted: 0 };
+        }
+
+        let deleted = 0;
+        for (const recording of args.recordings) {
+            try {
+                await deleteObject(s3, recording.key);
+            } catch (error) {
+                console.error(`Failed to delete recording ${recording.key}, retrying on the next run:`, error);
+                continue;
+            }
+            await ctx.runMutation(internal.callRecordings.markRecordingDeleted, recording);
+            deleted++;
+        }
+
+        return { success: deleted === args.recordings.length, deleted };
+    },
+});
+
+/**
+ * Clear a session's recording fields once its object is deleted (internal)
+ */
+export const markRecordingDeleted = internalMutation({
+    args: {
+        sessionId: v.id("callSessions"),
+        key: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const session = await ctx.db.get(args.sessionId);
+        // Only the key that was deleted
+        if (!session || session.recordingKey !== args.key) return { success: false };
+
+        const now = Date.now();
+        await ctx.db.patch(session._id, {
+            recordingStatus: "deleted",
+            recordingUrl: undefined,
+            recordingKey: undefined,
+            recordingExpiresAt: undefined,
+            recordingDeletedAt: now,
+            updatedAt: now,
+        });
+
+        return { success: true };
+    },
+});
@@ -0,0 +1,116 @@
+/**
+ * Call Scores - QA scorecards for completed calls
+ *
+ * The agent worker grades each saved transcript (callSessions.transcript) against
+ * the agent's rubric (config.qaRubric) and stores one scorecard per call here.
+ * Trends are aggregated in analytics.ts (getQAScoreTrends).
+ */
+
+import { mutation, query } from "./_generated/server.js";
+import { v } from "convex/values";
+
+const DEFAULT_LIST_LIMIT = 50;
+
+// ============================================
+// CREATE OPERATIONS
+// ============================================
+
+/**
+ * Save a call's scorecard (replaces an earlier grading of the same call)
+ */
+export const saveScore = mutation({
+    args: {
+        sessionId: v.string(),
+        organizationId: v.string(),
+        agentId: v.string(),
+        score: v.number(),
+        passed: v.boolean(),
+        passingScore: v.number(),
+        criteria: v.array(v.object({
+            id: v.string(),
+            description: v.string(),
+            weight: v.number(),
+            critical: v.boolean(),
+            result: v.union(
+                v.literal("pass"),
+                v.literal("fail"),
+                v.literal("not_applicable")
+            ),
+            evidence: v.optional(v.string()),
+        })),
+        model: v.string(),
+        gradedAt: v.number(),
+    },
+    handler: async (ctx, args) => {
+        const existing = await ctx.db
+            .query("callScores")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
+            .unique();
+
+        if (existing) {
+            await ctx.db.replace(existing._id, args);
+            return { id: existing._id, regraded: true };
+        }
+
+        const id = await ctx.db.insert("callScores", args);
+        return { id, regraded: false };
+    },
+});
+
+// ============================================
+// QUERY OPERATIONS
+// ============================================
+
+/**
+ * Get the scorecard for a call
+ */
+export const getBySessionId = query({
+    args: { sessionId: v.string() },
+    handler: async (ctx, args) => {
+        return await ctx.db
+            .query("callScores")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
+            .unique();
+    },
+});
+
+/**
+ * Low-scoring calls, lowest first
+ * Without maxScore, returns calls that failed their rubric
+ */
+export const listLowScoring = query({
+    args: {
+        organizationId: v.string(),
+        agentId: v.optional(v.string()),
+        maxScore: v.optional(v.number()),
+        days: v.optional(v.number()),
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const since = Date.now() - (args.days ?? 30) * 24 * 60 * 60 * 1000;
+
+        const scores = args.agentId
+            ? await ctx.db
+                .query("callScores")
+                .withIndex("by_agent_and_graded_at", (q) =>
+                    q.eq("agentId", args.agentId!).gte("gradedAt", since)
+                )
+                .collect()
+            : await ctx.db
+                .query("callScores")
+                .withIndex("by_organization_and_graded_at", (q) =>
+                    q.eq("organizationId", args.organizationId).gte("gradedAt", since)
+                )
+                .collect();
+
+        const low = scores
+            .filter((s) => s.organizationId === args.organizationId)
+            .filter((s) => (args.maxScore !== undefined ? s.score <= args.maxScore : !s.passed))
+            .sort((a, b) => a.score - b.score || b.gradedAt - a.gradedAt);
+
+        return {
+            total: low.length,
+            items: low.slice(0, args.limit ?? DEFAULT_LIST_LIMIT),
+        };
+    },
+});
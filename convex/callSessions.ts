@@ -9,6 +9,14 @@
 
 import { mutation, query } from "./_generated/server.js";
 import { v } from "convex/values";
+import { releaseSlot } from "./agentUsage.js";
+import { completeCampaignCall } from "./campaigns.js";
+
+const sentimentValidator = v.union(
+    v.literal("positive"),
+    v.literal("neutral"),
+    v.literal("negative")
+);
 
 // ============================================
 // CREATE & UPDATE OPERATIONS
@@ -147,10 +155,282 @@ export const endSession = mutation({
             updatedAt: now,
         });
 
+        // Roll the outcome into the campaign contact that placed this call (if any)
+        await completeCampaignCall(ctx, session, durationSeconds);
+
         return { success: true, durationSeconds };
     },
 });
 
+/**
+ * Fail a session whose agent died mid-call (called by the worker's startup recovery)
+ * Rebuilds the transcript from whatever interactions reached callInteractions
+ */
+export const failOrphanedSession = mutation({
+    args: {
+        sessionId: v.string(),
+        reason: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const session = await ctx.db
+            .query("callSessions")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
+            .unique();
+
+        if (!session) throw new Error(`Session not found: ${args.sessionId}`);
+        if (session.status !== "active") {
+            return { success: false, status: session.status, recoveredInteractions: 0 };
+        }
+
+        const interactions = await ctx.db
+            .query("callInteractions")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
+            .collect();
+        interactions.sort((a, b) => a.timestamp - b.timestamp);
+
+        const transcript = interactions.map((i) => ({
+            timestamp: i.timestamp,
+            speaker: i.interactionType === "user_message" ? "user" as const
+                : i.interactionType === "agent_response" ? "agent" as const : "system" as const,
+            text: i.userInput || i.agentResponse || `Function: ${i.functionName}`,
+            ...(i.language && { language: i.language }),
+            type: i.interactionType === "function_call" ? "function_call" as const : "speech" as const,
+            ...(i.interactionType === "function_call"
+                ? { metadata: { functionName: i.functionName, latencyMs: i.latencyMs } }
+                : i.latencyMs ? { metadata: { latencyMs: i.latencyMs } } : {}),
+        }));
+
+        const now = Date.now();
+        const endedAt = Math.max(
+            interactions[interactions.length - 1]?.timestamp ?? 0,
+            session.lastActivityAt ?? 0
+        ) || now;
+        const durationSeconds = Math.max(0, Math.floor((endedAt - session.startedAt) / 1000));
+
+        let metadata: Record<string, unknown> = {};
+        try {
+            metadata = session.metadata ? JSON.parse(session.metadata) : {};
+        } catch {
+            // Keep the failure reason even if existing metadata is unreadable
+        }
+
+        await ctx.db.patch(session._id, {
+            status: "failed",
+            endedAt,
+            durationSeconds,
+            metadata: JSON.stringify({ ...metadata, failureReason: args.reason, recoveredAt: now }),
+            ...(transcript.length > 0 && !session.transcript?.length && { transcript }),
+            updatedAt: now,
+        });
+
+        // The caller was connected - roll the call into its campaign contact (if any)
+        await completeCampaignCall(ctx, session, durationSeconds);
+
+        // The dead agent never released its concurrency slot (slot key = room name)
+        const slot = session.roomName ? await releaseSlot(ctx, session.roomName) : { released: false };
+
+        return {
+            success: true,
+            status: "failed",
+            recoveredInteractions: interactions.length,
+            slotReleased: slot.released,
+        };
+    },
+});
+
+/**
+ * Record a call transfer attempt and its outcome
+ * Appends to the session's transfer history (a call may try several departments)
+ */
+export const recordTransfer = mutation({
+    args: {
+        sessionId: v.string(),
+        transfer: v.object({
+            department: v.string(),
+            destination: v.string(),
+            mode: v.union(v.literal("cold"), v.literal("warm")),
+            outcome: v.union(
+                v.literal("answered"),
+                v.literal("referred"),
+                v.literal("busy"),
+                v.literal("no_answer"),
+                v.literal("voicemail"),
+                v.literal("failed")
+            ),
+            reason: v.optional(v.string()),
+            summary: v.optional(v.string()),
+            sipStatusCode: v.optional(v.number()),
+            error: v.optional(v.string()),
+            requestedAt: v.number(),
+            completedAt: v.number(),
+        }),
+    },
+    handler: async (ctx, args) => {
+        const session = await ctx.db
+            .query("callSessions")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
+            .unique();
+
+        if (!session) throw new Error(`Session not found: ${args.sessionId}`);
+
+        const transfers = [...(session.transfers ?? []), args.transfer];
+        await ctx.db.patch(session._id, {
+            transfers,
+            updatedAt: Date.now(),
+        });
+
+        return { success: true, transferCount: transfers.length };
+    },
+});
+
+/**
+ * Record a mid-call handoff from one AI agent to another
+ * Appends to the session's hop chain (session.agentId stays the answering agent)
+ */
+export const recordAgentHandoff = mutation({
+    args: {
+        sessionId: v.string(),
+        handoff: v.object({
+            fromAgentId: v.string(),
+            toAgentId: v.string(),
+            source: v.union(v.literal("tool"), v.literal("ivr")),
+            reason: v.optional(v.string()),
+            at: v.number(),
+        }),
+    },
+    handler: async (ctx, args) => {
+        const session = await ctx.db
+            .query("callSessions")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
+            .unique();
+
+        if (!session) throw new Error(`Session not found: ${args.sessionId}`);
+
+        const agentHandoffs = [...(session.agentHandoffs ?? []), args.handoff];
+        await ctx.db.patch(session._id, {
+            agentHandoffs,
+            updatedAt: Date.now(),
+        });
+
+        return { success: true, handoffCount: agentHandoffs.length };
+    },
+});
+
+/**
+ * Save the caller details collected during a call (replaces any saved earlier)
+ */
+export const saveCollectedFields = mutation({
+    args: {
+        sessionId: v.string(),
+        fields: v.array(v.object({
+            name: v.string(),
+            value: v.union(v.string(), v.number()),
+            confirmed: v.boolean(),
+            collectedAt: v.number(),
+        })),
+    },
+    handler: async (ctx, args) => {
+        const session = await ctx.db
+            .query("callSessions")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
+            .unique();
+
+        if (!session) throw new Error(`Session not found: ${args.sessionId}`);
+
+        await ctx.db.patch(session._id, {
+            collectedFields: args.fields,
+            updatedAt: Date.now(),
+        });
+
+        return { success: true, fieldCount: args.fields.length };
+    },
+});
+
+/**
+ * Record a supervisor intervention (listen, whisper, takeover, release)
+ * Appends to the session's supervisor audit trail
+ */
+export const recordSupervisorAction = mutation({
+    args: {
+        sessionId: v.string(),
+        action: v.object({
+            action: v.union(
+                v.literal("listen"),
+                v.literal("whisper"),
+                v.literal("takeover"),
+                v.literal("release")
+            ),
+            supervisor: v.string(),
+            message: v.optional(v.string()),
+            participantIdentity: v.optional(v.string()),
+            at: v.number(),
+        }),
+    },
+    handler: async (ctx, args) => {
+        const session = await ctx.db
+            .query("callSessions")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
+            .unique();
+
+        if (!session) throw new Error(`Session not found: ${args.sessionId}`);
+
+        const supervisorActions = [...(session.supervisorActions ?? []), args.action];
+        await ctx.db.patch(session._id, {
+            supervisorActions,
+            updatedAt: Date.now(),
+        });
+
+        return { success: true, actionCount: supervisorActions.length };
+    },
+});
+
+/**
+ * Save post-call analysis, with per-turn sentiment on the caller's interactions
+ */
+export const saveAnalysis = mutation({
+    args: {
+        sessionId: v.string(),
+        analysis: v.object({
+            summary: v.string(),
+            sentiment: sentimentValidator,
+            sentimentScore: v.number(),
+            disposition: v.string(),
+            dispositionReason: v.optional(v.string()),
+            entities: v.array(v.object({
+                type: v.string(),
+                value: v.string(),
+            })),
+            model: v.string(),
+            analyzedAt: v.number(),
+        }),
+        turnSentiments: v.array(v.object({
+            interactionId: v.id("callInteractions"),
+            sentiment: sentimentValidator,
+        })),
+    },
+    handler: async (ctx, args) => {
+        const session = await ctx.db
+            .query("callSessions")
+            .withIndex("by_session_id", (q) => q.eq("sessionId", args.sessionId))
+            .unique();
+
+        if (!session) throw new Error(`Session not found: ${args.sessionId}`);
+
+        await ctx.db.patch(session._id, {
+            analysis: args.analysis,
+            updatedAt: Date.now(),
+        });
+
+        for (const turn of args.turnSentiments) {
+            const interaction = await ctx.db.get(turn.interactionId);
+            if (interaction?.sessionId !== args.sessionId) continue;
+            await ctx.db.patch(turn.interactionId, { sentiment: turn.sentiment });
+        }
+
+        return { success: true };
+    },
+});
+
 // ============================================
 // QUERY OPERATIONS
 // ============================================
@@ -234,6 +514,19 @@ export const listByAgent = query({
     },
 });
 
+/**
+ * List all active sessions (startup recovery looks for ones whose room is gone)
+ */
+export const listActive = query({
+    args: {},
+    handler: async (ctx) => {
+        return await ctx.db
+            .query("callSessions")
+            .withIndex("by_status", (q) => q.eq("status", "active"))
+            .collect();
+    },
+});
+
 /**
  * Get active sessions count for an agent (for rate limiting)
  */
@@ -260,6 +553,7 @@ export const updateTranscript = mutation({
             timestamp: v.number(),
             speaker: v.union(v.literal("user"), v.literal("agent"), v.literal("system")),
             text: v.string(),
+            language: v.optional(v.string()),
             type: v.optional(v.union(
                 v.literal("speech"),
                 v.literal("function_call"),
@@ -0,0 +1,848 @@
+/**
+ * Campaigns - Outbound calling campaigns
+ *
+ * Manages:
+ * - Campaign lifecycle (draft → scheduled/running → paused → completed/cancelled)
+ * - Contact lists with per-contact variables and outcomes
+ * - Do-not-call list filtering (on upload and again before each dial)
+ * - Scheduling: the cron queues due contacts inside their calling window,
+ *   the backend dialer claims queued contacts and reports dial results
+ */
+
+import { internalMutation, mutation, query } from "./_generated/server.js";
+import { v } from "convex/values";
+import type { MutationCtx, QueryCtx } from "./_generated/server.js";
+import type { Doc, Id } from "./_generated/dataModel.js";
+
+// Defaults for new campaigns
+const DEFAULT_TIMEZONE = "Asia/Kolkata";
+const DEFAULT_CALLING_WINDOWS = [
+    { days: [1, 2, 3, 4, 5, 6], startTime: "09:00", endTime: "20:00" },
+];
+const DEFAULT_MAX_CONCURRENT_DIALS = 2;
+const DEFAULT_RETRY_POLICY = {
+    maxAttempts: 3,
+    retryDelayMinutes: 60,
+    retryOn: ["busy" as const, "no_answer" as const],
+};
+
+// Contacts stuck in a transient state longer than this are recovered by the cron
+const STUCK_DIALING_MS = 5 * 60 * 1000;
+const STUCK_IN_CALL_MS = 2 * 60 * 60 * 1000;
+
+// How many due contacts the scheduler inspects per campaign per run
+const SCHEDULER_SCAN_LIMIT = 500;
+
+const callingWindowValidator = v.object({
+    days: v.array(v.number()),
+    startTime: v.string(),
+    endTime: v.string(),
+});
+
+const retryPolicyValidator = v.object({
+    maxAttempts: v.number(),
+    retryDelayMinutes: v.number(),
+    retryOn: v.array(v.union(v.literal("busy"), v.literal("no_answer"), v.literal("failed"))),
+});
+
+const dialOutcomeValidator = v.union(
+    v.literal("answered"),
+    v.literal("busy"),
+    v.literal("no_answer"),
+    v.literal("failed")
+);
+
+type CampaignContactStatus = Doc<"campaignContacts">["status"];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Minutes since local midnight and weekday for a timestamp in a timezone
+ * Falls back to UTC for unknown zones.
+ */
+function getLocalTime(now: number, timezone: string): { day: number; minutes: number } {
+    const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+    try {
+        const parts = new Intl.DateTimeFormat("en-US", {
+            timeZone: timezone,
+            weekday: "short",
+            hour: "2-digit",
+            minute: "2-digit",
+            hourCycle: "h23",
+        }).formatToParts(new Date(now));
+
+        const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+        return {
+            day: weekdays.indexOf(get("weekday")),
+            minutes: parseInt(get("hour"), 10) * 60 + parseInt(get("minute"), 10),
+        };
+    } catch {
+        const date = new Date(now);
+        return { day: date.getUTCDay(), minutes: date.getUTCHours() * 60 + date.getUTCMinutes() };
+    }
+}
+
+/**
+ * "HH:MM" → minutes since midnight
+ */
+function parseTimeOfDay(value: string): number {
+    const [hours, minutes] = value.split(":").map((n) => parseInt(n, 10));
+    return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Whether `now` falls inside any calling window in the given timezone
+ */
+function isWithinCallingWindow(
+    windows: Doc<"campaigns">["callingWindows"],
+    timezone: string,
+    now: number
+): boolean {
+    if (windows.length === 0) return true;
+
+    const local = getLocalTime(now, timezone);
+    return windows.some((w) => {
+        if (!w.days.includes(local.day)) return false;
+        return local.minutes >= parseTimeOfDay(w.startTime) && local.minutes < parseTimeOfDay(w.endTime);
+    });
+}
+
+/**
+ * Resolve a campaign ID string
+ */
+async function getCampaign(ctx: QueryCtx, campaignId: string): Promise<Doc<"campaigns"> | null> {
+    const id = ctx.db.normalizeId("campaigns", campaignId);
+    return id ? await ctx.db.get(id) : null;
+}
+
+/**
+ * Contacts of a campaign in a given status
+ */
+async function getContactsByStatus(
+    ctx: QueryCtx,
+    campaignId: string,
+    status: CampaignContactStatus
+): Promise<Doc<"campaignContacts">[]> {
+    return await ctx.db
+        .query("campaignContacts")
+        .withIndex("by_campaign_status", (q) => q.eq("campaignId", campaignId).eq("status", status))
+        .collect();
+}
+
+/**
+ * Whether a number is on the organization's do-not-call list
+ */
+async function isDoNotCall(ctx: QueryCtx, organizationId: string, phoneNumber: string): Promise<boolean> {
+    const entry = await ctx.db
+        .query("dncNumbers")
+        .withIndex("by_org_phone", (q) => q.eq("organizationId", organizationId).eq("phoneNumber", phoneNumber))
+        .first();
+    return entry !== null;
+}
+
+/**
+ * Apply a dial outcome to a contact: answered → in_call, otherwise retry or give up
+ */
+async function applyDialOutcome(
+    ctx: MutationCtx,
+    contact: Doc<"campaignContacts">,
+    campaign: Doc<"campaigns"> | null,
+    outcome: "answered" | "busy" | "no_answer" | "failed",
+    details: { roomName?: string; sipStatusCode?: number; error?: string },
+    now: number
+): Promise<CampaignContactStatus> {
+    const attempts = contact.attempts + 1;
+
+    if (outcome === "answered") {
+        await ctx.db.patch(contact._id, {
+            status: "in_call",
+            lastOutcome: outcome,
+            attempts,
+            lastAttemptAt: now,
+            roomName: details.roomName ?? contact.roomName,
+            lastSipStatusCode: undefined,
+            lastError: undefined,
+            updatedAt: now,
+        });
+        return "in_call";
+    }
+
+    const policy = campaign?.retryPolicy ?? DEFAULT_RETRY_POLICY;
+    const retry = attempts < policy.maxAttempts && policy.retryOn.includes(outcome);
+    const status: CampaignContactStatus = retry ? "pending" : "failed";
+
+    await ctx.db.patch(contact._id, {
+        status,
+        lastOutcome: outcome,
+        attempts,
+        lastAttemptAt: now,
+        nextAttemptAt: retry ? now + policy.retryDelayMinutes * 60 * 1000 : contact.nextAttemptAt,
+        roomName: details.roomName ?? contact.roomName,
+        lastSipStatusCode: details.sipStatusCode,
+        lastError: details.error,
+        updatedAt: now,
+    });
+    return status;
+}
+
+/**
+ * Mark the campaign contact behind a room as completed when its call ends
+ * Called from callSessions.endSession so outcomes roll into analytics.
+ */
+export async function completeCampaignCall(
+    ctx: MutationCtx,
+    session: Doc<"callSessions">,
+    durationSeconds: number
+): Promise<void> {
+    if (!session.roomName) return;
+
+    const contact = await ctx.db
+        .query("campaignContacts")
+        .withIndex("by_room_name", (q) => q.eq("roomName", session.roomName))
+        .first();
+    if (!contact) return;
+
+    const now = Date.now();
+    if (contact.status === "in_call" || contact.status === "dialing") {
+        await ctx.db.patch(contact._id, {
+            status: "completed",
+            lastOutcome: "answered",
+            sessionId: session.sessionId,
+            durationSeconds,
+            updatedAt: now,
+        });
+    }
+    await ctx.db.patch(session._id, { campaignId: contact.campaignId });
+}
+
+/**
+ * Count of contacts by status and last outcome for a campaign
+ */
+export async function computeCampaignStats(ctx: QueryCtx, campaignId: string) {
+    const contacts = await ctx.db
+        .query("campaignContacts")
+        .withIndex("by_campaign_status", (q) => q.eq("campaignId", campaignId))
+        .collect();
+
+    const byStatus: Record<string, number> = {
+        pending: 0, queued: 0, dialing: 0, in_call: 0,
+        completed: 0, failed: 0, dnc: 0, cancelled: 0,
+    };
+    const byOutcome: Record<string, number> = { answered: 0, busy: 0, no_answer: 0, failed: 0 };
+    let totalAttempts = 0;
+    let totalDuration = 0;
+
+    for (const contact of contacts) {
+        byStatus[contact.status] = (byStatus[contact.status] || 0) + 1;
+        if (contact.lastOutcome) byOutcome[contact.lastOutcome] += 1;
+        totalAttempts += contact.attempts;
+        totalDuration += contact.durationSeconds ?? 0;
+    }
+
+    const dialed = contacts.filter((c) => c.attempts > 0).length;
+
+    return {
+        totalContacts: contacts.length,
+        byStatus,
+        byOutcome,
+        totalAttempts,
+        contactsDialed: dialed,
+        answerRate: dialed > 0 ? Math.round((byOutcome.answered / dialed) * 100) : 0,
+        avgCallDurationSeconds: byStatus.completed > 0 ? Math.round(totalDuration / byStatus.completed) : 0,
+        remaining: byStatus.pending + byStatus.queued + byStatus.dialing + byStatus.in_call,
+    };
+}
+
+// ============================================
+// CAMPAIGN MUTATIONS
+// ============================================
+
+/**
+ * Create a campaign (starts as draft)
+ */
+export const create = mutation({
+    args: {
+        organizationId: v.string(),
+        agentId: v.string(),
+        name: v.string(),
+        timezone: v.optional(v.string()),
+        callingWindows: v.optional(v.array(callingWindowValidator)),
+        maxConcurrentDials: v.optional(v.number()),
+        retryPolicy: v.optional(retryPolicyValidator),
+        startAt: v.optional(v.number()),
+        endAt: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const now = Date.now();
+        return await ctx.db.insert("campaigns", {
+            organizationId: args.organizationId,
+            agentId: args.agentId,
+            name: args.name,
+            status: "draft",
+            timezone: args.timezone ?? DEFAULT_TIMEZONE,
+            callingWindows: args.callingWindows ?? DEFAULT_CALLING_WINDOWS,
+            maxConcurrentDials: Math.max(1, args.maxConcurrentDials ?? DEFAULT_MAX_CONCURRENT_DIALS),
+            retryPolicy: args.retryPolicy ?? DEFAULT_RETRY_POLICY,
+            startAt: args.startAt,
+            endAt: args.endAt,
+            createdAt: now,
+            updatedAt: now,
+        });
+    },
+});
+
+/**
+ * Update campaign settings (not allowed once completed or cancelled)
+ */
+export const update = mutation({
+    args: {
+        campaignId: v.string(),
+        name: v.optional(v.string()),
+        timezone: v.optional(v.string()),
+        callingWindows: v.optional(v.array(callingWindowValidator)),
+        maxConcurrentDials: v.optional(v.number()),
+        retryPolicy: v.optional(retryPolicyValidator),
+        startAt: v.optional(v.number()),
+        endAt: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const campaign = await getCampaign(ctx, args.campaignId);
+        if (!campaign) throw new Error(`Campaign not found: ${args.campaignId}`);
+        if (campaign.status === "completed" || campaign.status === "cancelled") {
+            throw new Error(`Campaign is ${campaign.status} and can no longer be changed`);
+        }
+
+        const { campaignId: _campaignId, ...updates } = args;
+        const updateData: Partial<Doc<"campaigns">> = { updatedAt: Date.now() };
+        if (updates.name !== undefined) updateData.name = updates.name;
+        if (updates.timezone !== undefined) updateData.timezone = updates.timezone;
+        if (updates.callingWindows !== undefined) updateData.callingWindows = updates.callingWindows;
+        if (updates.maxConcurrentDials !== undefined) updateData.maxConcurrentDials = Math.max(1, updates.maxConcurrentDials);
+        if (updates.retryPolicy !== undefined) updateData.retryPolicy = updates.retryPolicy;
+        if (updates.startAt !== undefined) updateData.startAt = updates.startAt;
+        if (updates.endAt !== undefined) updateData.endAt = updates.endAt;
+
+        await ctx.db.patch(campaign._id, updateData);
+        return { success: true };
+    },
+});
+
+/**
+ * Start, pause, resume or cancel a campaign
+ */
+export const setStatus = mutation({
+    args: {
+        campaignId: v.string(),
+        action: v.union(v.literal("start"), v.literal("pause"), v.literal("resume"), v.literal("cancel")),
+    },
+    handler: async (ctx, args) => {
+        const campaign = await getCampaign(ctx, args.campaignId);
+        if (!campaign) throw new Error(`Campaign not found: ${args.campaignId}`);
+
+        const now = Date.now();
+        const finished = campaign.status === "completed" || campaign.status === "cancelled";
+        if (finished) {
+            throw new Error(`Campaign is already ${campaign.status}`);
+        }
+
+        let status: Doc<"campaigns">["status"];
+        switch (args.action) {
+            case "start":
+            case "resume":
+                status = campaign.startAt && campaign.startAt > now ? "scheduled" : "running";
+                break;
+            case "pause":
+                status = "paused";
+                break;
+            case "cancel":
+                status = "cancelled";
+                break;
+        }
+
+        await ctx.db.patch(campaign._id, {
+            status,
+            startedAt: status === "running" ? (campaign.startedAt ?? now) : campaign.startedAt,
+            completedAt: status === "cancelled" ? now : campaign.completedAt,
+            updatedAt: now,
+        });
+
+        // Paused / cancelled campaigns give queued contacts back (or drop them)
+        if (status === "paused" || status === "cancelled") {
+            const waiting = [
+                ...(await getContactsByStatus(ctx, args.campaignId, "queued")),
+                ...(status === "cancelled" ? await getContactsByStatus(ctx, args.campaignId, "pending") : []),
+            ];
+            for (const contact of waiting) {
+                await ctx.db.patch(contact._id, {
+                    status: status === "cancelled" ? "cancelled" : "pending",
+                    updatedAt: now,
+                });
+            }
+        }
+
+        return { success: true, status };
+    },
+});
+
+/**
+ * Delete a campaign that never ran (draft/cancelled) with its contacts
+ */
+export const remove = mutation({
+    args: { campaignId: v.string() },
+    handler: async (ctx, args) => {
+        const campaign = await getCampaign(ctx, args.campaignId);
+        if (!campaign) throw new Error(`Campaign not found: ${args.campaignId}`);
+        if (campaign.status !== "draft" && campaign.status !== "cancelled" && campaign.status !== "completed") {
+            throw new Error("Pause and cancel the campaign before deleting it");
+        }
+
+        const contacts = await ctx.db
+            .query("campaignContacts")
+            .withIndex("by_campaign_status", (q) => q.eq("campaignId", args.campaignId))
+            .collect();
+        for (const contact of contacts) {
+            await ctx.db.delete(contact._id);
+        }
+        await ctx.db.delete(campaign._id);
+
+        return { success: true, deletedContacts: contacts.length };
+    },
+});
+
+// ============================================
+// CONTACT MUTATIONS
+// ============================================
+
+/**
+ * Add contacts to a campaign (call in batches of a few hundred)
+ * Duplicates within the campaign are skipped; DNC numbers are stored as "dnc".
+ */
+export const addContacts = mutation({
+    args: {
+        campaignId: v.string(),
+        contacts: v.array(v.object({
+            phoneNumber: v.string(),
+            name: v.optional(v.string()),
+            timezone: v.optional(v.string()),
+            variables: v.optional(v.string()),
+        })),
+    },
+    handler: async (ctx, args) => {
+        const campaign = await getCampaign(ctx, args.campaignId);
+        if (!campaign) throw new Error(`Campaign not found: ${args.campaignId}`);
+        if (campaign.status === "completed" || campaign.status === "cancelled") {
+            throw new Error(`Campaign is ${campaign.status}`);
+        }
+
+        const now = Date.now();
+        let added = 0;
+        let duplicates = 0;
+        let doNotCall = 0;
+
+        for (const contact of args.contacts) {
+            const existing = await ctx.db
+                .query("campaignContacts")
+                .withIndex("by_campaign_phone", (q) =>
+                    q.eq("campaignId", args.campaignId).eq("phoneNumber", contact.phoneNumber)
+                )
+                .first();
+            if (existing) {
+                duplicates++;
+                continue;
+            }
+
+            const blocked = await isDoNotCall(ctx, campaign.organizationId, contact.phoneNumber);
+            if (blocked) doNotCall++;
+            else added++;
+
+            await ctx.db.insert("campaignContacts", {
+                campaignId: args.campaignId,
+                organizationId: campaign.organizationId,
+                phoneNumber: contact.phoneNumber,
+                name: contact.name,
+                timezone: contact.timezone,
+                variables: contact.variables,
+                status: blocked ? "dnc" : "pending",
+                attempts: 0,
+                nextAttemptAt: now,
+                createdAt: now,
+                updatedAt: now,
+            });
+        }
+
+        return { added, duplicates, doNotCall };
+    },
+});
+
+/**
+ * Claim queued contacts for dialing (backend dialer)
+ * Re-checks DNC and campaign status so late changes are respected.
+ */
+export const claimQueuedContacts = mutation({
+    args: {
+        limit: v.number(),
+    },
+    handler: async (ctx, args) => {
+        const now = Date.now();
+        const running = await ctx.db
+            .query("campaigns")
+            .withIndex("by_status", (q) => q.eq("status", "running"))
+            .collect();
+
+        const claimed: Array<{
+            contactId: Id<"campaignContacts">;
+            campaignId: string;
+            organizationId: string;
+            agentId: string;
+            phoneNumber: string;
+            name?: string;
+            variables?: string;
+            attempt: number;
+        }> = [];
+
+        for (const campaign of running) {
+            if (claimed.length >= args.limit) break;
+
+            const queued = await ctx.db
+                .query("campaignContacts")
+                .withIndex("by_campaign_status", (q) => q.eq("campaignId", campaign._id).eq("status", "queued"))
+                .take(args.limit - claimed.length);
+
+            for (const contact of queued) {
+                if (await isDoNotCall(ctx, campaign.organizationId, contact.phoneNumber)) {
+                    await ctx.db.patch(contact._id, { status: "dnc", updatedAt: now });
+                    continue;
+                }
+
+                await ctx.db.patch(contact._id, { status: "dialing", updatedAt: now });
+                claimed.push({
+                    contactId: contact._id,
+                    campaignId: campaign._id,
+                    organizationId: campaign.organizationId,
+                    agentId: campaign.agentId,
+                    phoneNumber: contact.phoneNumber,
+                    name: contact.name,
+                    variables: contact.variables,
+                    attempt: contact.attempts + 1,
+                });
+            }
+        }
+
+        return claimed;
+    },
+});
+
+/**
+ * Report the result of a dial attempt
+ */
+export const recordDialResult = mutation({
+    args: {
+        contactId: v.id("campaignContacts"),
+        outcome: dialOutcomeValidator,
+        roomName: v.optional(v.string()),
+        sipStatusCode: v.optional(v.number()),
+        error: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const contact = await ctx.db.get(args.contactId);
+        if (!contact) throw new Error(`Campaign contact not found: ${args.contactId}`);
+
+        const campaign = await getCampaign(ctx, contact.campaignId);
+        const status = await applyDialOutcome(ctx, contact, campaign, args.outcome, {
+            roomName: args.roomName,
+            sipStatusCode: args.sipStatusCode,
+            error: args.error,
+        }, Date.now());
+
+        return { success: true, status };
+    },
+});
+
+/**
+ * Put a claimed contact back without counting an attempt
+ * Used when the dial couldn't be placed (e.g. agent at its call limit).
+ */
+export const requeueContact = mutation({
+    args: {
+        contactId: v.id("campaignContacts"),
+        delaySeconds: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const contact = await ctx.db.get(args.contactId);
+        if (!contact || contact.status !== "dialing") return { success: false };
+
+        const now = Date.now();
+        await ctx.db.patch(contact._id, {
+            status: "pending",
+            nextAttemptAt: now + (args.delaySeconds ?? 60) * 1000,
+            updatedAt: now,
+        });
+        return { success: true };
+    },
+});
+
+// ============================================
+// DO-NOT-CALL LIST
+// ============================================
+
+/**
+ * Add numbers to the organization's DNC list
+ * Pending contacts with these numbers are pulled from every campaign.
+ */
+export const addDncNumbers = mutation({
+    args: {
+        organizationId: v.string(),
+        phoneNumbers: v.array(v.string()),
+        reason: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const now = Date.now();
+        let added = 0;
+
+        for (const phoneNumber of args.phoneNumbers) {
+            if (await isDoNotCall(ctx, args.organizationId, phoneNumber)) continue;
+            await ctx.db.insert("dncNumbers", {
+                organizationId: args.organizationId,
+                phoneNumber,
+                reason: args.reason,
+                createdAt: now,
+            });
+            added++;
+        }
+
+        // Pull matching contacts that haven't been dialed yet
+        const campaigns = await ctx.db
+            .query("campaigns")
+            .withIndex("by_organization_id", (q) => q.eq("organizationId", args.organizationId))
+            .collect();
+        for (const campaign of campaigns) {
+            if (campaign.status === "completed" || campaign.status === "cancelled") continue;
+            for (const phoneNumber of args.phoneNumbers) {
+                const contact = await ctx.db
+                    .query("campaignContacts")
+                    .withIndex("by_campaign_phone", (q) => q.eq("campaignId", campaign._id).eq("phoneNumber", phoneNumber))
+                    .first();
+                if (contact && (contact.status === "pending" || contact.status === "queued")) {
+                    await ctx.db.patch(contact._id, { status: "dnc", updatedAt: now });
+                }
+            }
+        }
+
+        return { added };
+    },
+});
+
+/**
+ * Remove a number from the DNC list
+ */
+export const removeDncNumber = mutation({
+    args: {
+        organizationId: v.string(),
+        phoneNumber: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const entry = await ctx.db
+            .query("dncNumbers")
+            .withIndex("by_org_phone", (q) => q.eq("organizationId", args.organizationId).eq("phoneNumber", args.phoneNumber))
+            .first();
+        if (!entry) return { success: false };
+
+        await ctx.db.delete(entry._id);
+        return { success: true };
+    },
+});
+
+// ============================================
+// SCHEDULER (cron)
+// ============================================
+
+/**
+ * Advance campaigns: start scheduled ones, queue due contacts inside their
+ * calling window (up to maxConcurrentDials), recover stuck contacts and
+ * complete campaigns with nothing left to dial.
+ */
+export const scheduleDueContacts = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        const now = Date.now();
+
+        // Scheduled campaigns whose start time has arrived
+        const scheduled = await ctx.db
+            .query("campaigns")
+            .withIndex("by_status", (q) => q.eq("status", "scheduled"))
+            .collect();
+        for (const campaign of scheduled) {
+            if (!campaign.startAt || campaign.startAt <= now) {
+                await ctx.db.patch(campaign._id, { status: "running", startedAt: campaign.startedAt ?? now, updatedAt: now });
+            }
+        }
+
+        const running = await ctx.db
+            .query("campaigns")
+            .withIndex("by_status", (q) => q.eq("status", "running"))
+            .collect();
+
+        let queuedTotal = 0;
+
+        for (const campaign of running) {
+            const campaignId = campaign._id as string;
+
+            // Recover contacts whose dialer or call never reported back
+            const dialing = await getContactsByStatus(ctx, campaignId, "dialing");
+            for (const contact of dialing) {
+                if (now - contact.updatedAt > STUCK_DIALING_MS) {
+                    await applyDialOutcome(ctx, contact, campaign, "failed", { error: "Dial result never reported" }, now);
+                }
+            }
+            const inCall = await getContactsByStatus(ctx, campaignId, "in_call");
+            for (const contact of inCall) {
+                if (now - contact.updatedAt > STUCK_IN_CALL_MS) {
+                    await ctx.db.patch(contact._id, { status: "completed", updatedAt: now });
+                }
+            }
+
+            // Past the end date - stop dialing
+            if (campaign.endAt && campaign.endAt <= now) {
+                const leftover = [
+                    ...(await getContactsByStatus(ctx, campaignId, "pending")),
+                    ...(await getContactsByStatus(ctx, campaignId, "queued")),
+                ];
+                for (const contact of leftover) {
+                    await ctx.db.patch(contact._id, { status: "cancelled", updatedAt: now });
+                }
+                await ctx.db.patch(campaign._id, { status: "completed", completedAt: now, updatedAt: now });
+                continue;
+            }
+
+            const [queued, activeDialing, activeInCall] = await Promise.all([
+                getContactsByStatus(ctx, campaignId, "queued"),
+                getContactsByStatus(ctx, campaignId, "dialing"),
+                getContactsByStatus(ctx, campaignId, "in_call"),
+            ]);
+            const active = queued.length + activeDialing.length + activeInCall.length;
+            const available = campaign.maxConcurrentDials - active;
+
+            const due = await ctx.db
+                .query("campaignContacts")
+                .withIndex("by_campaign_status", (q) =>
+                    q.eq("campaignId", campaignId).eq("status", "pending").lte("nextAttemptAt", now)
+                )
+                .take(SCHEDULER_SCAN_LIMIT);
+
+            if (due.length === 0 && active === 0) {
+                const later = await ctx.db
+                    .query("campaignContacts")
+                    .withIndex("by_campaign_status", (q) => q.eq("campaignId", campaignId).eq("status", "pending"))
+                    .first();
+                if (!later) {
+                    await ctx.db.patch(campaign._id, { status: "completed", completedAt: now, updatedAt: now });
+                    console.log(`[Campaigns] Campaign ${campaign.name} completed`);
+                }
+                continue;
+            }
+
+            let slots = available;
+            for (const contact of due) {
+                if (slots <= 0) break;
+                if (!isWithinCallingWindow(campaign.callingWindows, contact.timezone ?? campaign.timezone, now)) continue;
+
+                await ctx.db.patch(contact._id, { status: "queued", updatedAt: now });
+                slots--;
+                queuedTotal++;
+            }
+        }
+
+        if (queuedTotal > 0) {
+            console.log(`[Campaigns] Queued ${queuedTotal} contacts for dialing`);
+        }
+
+        return { queued: queuedTotal };
+    },
+});
+
+// ============================================
+// QUERY OPERATIONS
+// ============================================
+
+/**
+ * Get campaign by ID
+ */
+export const getById = query({
+    args: { campaignId: v.string() },
+    handler: async (ctx, args) => {
+        return await getCampaign(ctx, args.campaignId);
+    },
+});
+
+/**
+ * List campaigns for an organization (newest first)
+ */
+export const listByOrganization = query({
+    args: {
+        organizationId: v.string(),
+    },
+    handler: async (ctx, args) => {
+        return await ctx.db
+            .query("campaigns")
+            .withIndex("by_organization_id", (q) => q.eq("organizationId", args.organizationId))
+            .order("desc")
+            .collect();
+    },
+});
+
+/**
+ * List contacts of a campaign, optionally filtered by status
+ */
+export const listContacts = query({
+    args: {
+        campaignId: v.string(),
+        status: v.optional(v.union(
+            v.literal("pending"),
+            v.literal("queued"),
+            v.literal("dialing"),
+            v.literal("in_call"),
+            v.literal("completed"),
+            v.literal("failed"),
+            v.literal("dnc"),
+            v.literal("cancelled")
+        )),
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const limit = args.limit ?? 100;
+        return await ctx.db
+            .query("campaignContacts")
+            .withIndex("by_campaign_status", (q) =>
+                args.status ? q.eq("campaignId", args.campaignId).eq("status", args.status) : q.eq("campaignId", args.campaignId)
+            )
+            .take(limit);
+    },
+});
+
+/**
+ * Per-contact outcome rollup for a campaign
+ */
+export const getStats = query({
+    args: { campaignId: v.string() },
+    handler: async (ctx, args) => {
+        return await computeCampaignStats(ctx, args.campaignId);
+    },
+});
+
+/**
+ * List the organization's DNC numbers
+ */
+export const listDncNumbers = query({
+    args: {
+        organizationId: v.string(),
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        return await ctx.db
+            .query("dncNumbers")
+            .withIndex("by_org_phone", (q) => q.eq("organizationId", args.organizationId))
+            .take(args.limit ?? 1000);
+    },
+});
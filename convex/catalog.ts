@@ -0,0 +1,219 @@
+/**
+ * Catalog - structured menu / price list items per agent
+ *
+ * Manages:
+ * - Imports from CSV / XLSX (parsed by the backend, upserted here in batches)
+ * - Quick edits (mark an item sold out, change a price) without re-importing
+ *
+ * Answers about prices, categories and availability come from these rows via
+ * the lookup_catalog tool; vector search stays for free-text documents.
+ */
+
+import { mutation, query } from "./_generated/server.js";
+import { v } from "convex/values";
+import type { QueryCtx } from "./_generated/server.js";
+import type { Doc } from "./_generated/dataModel.js";
+
+const variantValidator = v.object({
+    name: v.string(),
+    price: v.optional(v.number()),
+});
+
+const catalogItemValidator = v.object({
+    name: v.string(),
+    category: v.optional(v.string()),
+    description: v.optional(v.string()),
+    price: v.optional(v.number()),
+    currency: v.optional(v.string()),
+    variants: v.array(variantValidator),
+    available: v.boolean(),
+    tags: v.array(v.string()),
+    attributes: v.optional(v.string()),
+});
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Upsert key - the same item in a later import updates the existing row
+ */
+function toItemKey(name: string, category?: string): string {
+    const normalize = (s: string) => s.toLowerCase().replace(/\s+/g, " ").trim();
+    return `${normalize(category ?? "")}|${normalize(name)}`;
+}
+
+/**
+ * Resolve a catalog item ID string
+ */
+async function getItem(ctx: QueryCtx, itemId: string): Promise<Doc<"catalogItems"> | null> {
+    const id = ctx.db.normalizeId("catalogItems", itemId);
+    return id ? await ctx.db.get(id) : null;
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Upsert a batch of imported items (matched by category + name)
+ */
+export const upsertItems = mutation({
+    args: {
+        organizationId: v.string(),
+        agentId: v.string(),
+        importId: v.string(),
+        items: v.array(catalogItemValidator),
+    },
+    handler: async (ctx, args) => {
+        const now = Date.now();
+        let added = 0;
+        let updated = 0;
+
+        for (const item of args.items) {
+            const itemKey = toItemKey(item.name, item.category);
+            const existing = await ctx.db
+                .query("catalogItems")
+                .withIndex("by_agent_key", (q) => q.eq("agentId", args.agentId).eq("itemKey", itemKey))
+                .first();
+
+            if (existing) {
+                await ctx.db.patch(existing._id, { ...item, importId: args.importId, updatedAt: now });
+                updated++;
+            } else {
+                await ctx.db.insert("catalogItems", {
+                    ...item,
+                    organizationId: args.organizationId,
+                    agentId: args.agentId,
+                    itemKey,
+                    importId: args.importId,
+                    createdAt: now,
+                    updatedAt: now,
+                });
+                added++;
+            }
+        }
+
+        return { added, updated };
+    },
+});
+
+/**
+ * Remove items that are not in the given import (a full import replaces the catalog)
+ */
+export const removeItemsNotInImport = mutation({
+    args: {
+        agentId: v.string(),
+        importId: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const items = await ctx.db
+            .query("catalogItems")
+            .withIndex("by_agent_id", (q) => q.eq("agentId", args.agentId))
+            .collect();
+
+        let removed = 0;
+        for (const item of items) {
+            if (item.importId === args.importId) continue;
+            await ctx.db.delete(item._id);
+            removed++;
+        }
+        return { removed };
+    },
+});
+
+// ============================================
+// ITEM MUTATIONS
+// ============================================
+
+/**
+ * Edit one item (e.g. sold out for today, new price)
+ */
+export const updateItem = mutation({
+    args: {
+        itemId: v.string(),
+        name: v.optional(v.string()),
+        category: v.optional(v.string()),
+        description: v.optional(v.string()),
+        price: v.optional(v.union(v.number(), v.null())), // null = clear
+        variants: v.optional(v.array(variantValidator)),
+        available: v.optional(v.boolean()),
+        tags: v.optional(v.array(v.string())),
+    },
+    handler: async (ctx, args) => {
+        const item = await getItem(ctx, args.itemId);
+        if (!item) throw new Error(`Catalog item not found: ${args.itemId}`);
+
+        const { itemId: _itemId, price, ...changes } = args;
+        const patch: Partial<Doc<"catalogItems">> = Object.fromEntries(
+            Object.entries(changes).filter(([, value]) => value !== undefined)
+        );
+        if (price !== undefined) {
+            patch.price = price ?? undefined;
+        }
+        if (patch.name !== undefined || patch.category !== undefined) {
+            patch.itemKey = toItemKey(patch.name ?? item.name, patch.category ?? item.category);
+        }
+
+        await ctx.db.patch(item._id, { ...patch, updatedAt: Date.now() });
+        return { success: true };
+    },
+});
+
+/**
+ * Delete one item
+ */
+export const removeItem = mutation({
+    args: { itemId: v.string() },
+    handler: async (ctx, args) => {
+        const item = await getItem(ctx, args.itemId);
+        if (!item) return { success: false };
+
+        await ctx.db.delete(item._id);
+        return { success: true };
+    },
+});
+
+/**
+ * Delete an agent's whole catalog
+ */
+export const clearByAgent = mutation({
+    args: { agentId: v.string() },
+    handler: async (ctx, args) => {
+        const items = await ctx.db
+            .query("catalogItems")
+            .withIndex("by_agent_id", (q) => q.eq("agentId", args.agentId))
+            .collect();
+        for (const item of items) {
+            await ctx.db.delete(item._id);
+        }
+        return { removed: items.length };
+    },
+});
+
+// ============================================
+// QUERY OPERATIONS
+// ============================================
+
+/**
+ * Get item by ID
+ */
+export const getById = query({
+    args: { itemId: v.string() },
+    handler: async (ctx, args) => {
+        return await getItem(ctx, args.itemId);
+    },
+});
+
+/**
+ * List an agent's catalog (loaded once per call and filtered by the lookup tool)
+ */
+export const listByAgent = query({
+    args: { agentId: v.string() },
+    handler: async (ctx, args) => {
+        return await ctx.db
+            .query("catalogItems")
+            .withIndex("by_agent_id", (q) => q.eq("agentId", args.agentId))
+            .collect();
+    },
+});
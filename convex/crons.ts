@@ -34,4 +34,44 @@ crons.hourly(
     internal.ragManagement.purgeExpiredDeletions
 );
 
+// Purge live call events hourly at :15
+// The live feed is only needed while a call is watched; full transcripts stay on callSessions
+crons.hourly(
+    "purge-live-call-events",
+    { minuteUTC: 15 },
+    internal.callLiveEvents.purgeOldEvents
+);
+
+// Purge call recordings past their retention period hourly at :45
+// Deletes the audio from the recording bucket and clears the session's recording fields
+crons.hourly(
+    "purge-expired-recordings",
+    { minuteUTC: 45 },
+    internal.callRecordings.purgeExpiredRecordings
+);
+
+// Reclaim leaked concurrent call slots every 15 minutes
+// Slots left behind by crashed agents would otherwise block new calls
+crons.interval(
+    "reclaim-stale-call-slots",
+    { minutes: 15 },
+    internal.agentUsage.reclaimStaleSlots
+);
+
+// Queue due campaign contacts every minute
+// Respects calling windows and maxConcurrentDials; the backend dialer places the calls
+crons.interval(
+    "schedule-campaign-contacts",
+    { minutes: 1 },
+    internal.campaigns.scheduleDueContacts
+);
+
+// Queue knowledge sources whose re-sync is due every 15 minutes
+// The backend sync worker fetches them and re-embeds only changed chunks
+crons.interval(
+    "queue-knowledge-source-syncs",
+    { minutes: 15 },
+    internal.knowledgeSources.queueDueSyncs
+);
+
 export default crons;
@@ -27,6 +27,7 @@ export const listChunksByAgent = query({
             ragEntryId: chunk.ragEntryId,
             chunkIndex: chunk.chunkIndex,
             totalChunks: chunk.totalChunks,
+            language: chunk.language,
             text: chunk.text.substring(0, 100) + '...', // Preview only
             createdAt: chunk.createdAt,
         }));
@@ -54,6 +55,7 @@ export const listChunksByNamespace = query({
             ragEntryId: chunk.ragEntryId,
             chunkIndex: chunk.chunkIndex,
             totalChunks: chunk.totalChunks,
+            language: chunk.language,
             text: chunk.text.substring(0, 100) + '...', // Preview only
             createdAt: chunk.createdAt,
         }));
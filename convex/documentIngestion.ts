@@ -101,6 +101,7 @@ export const createIngestionSession = mutation({
         fileType: v.string(),
         fileSize: v.number(),
         sourceType: v.optional(v.string()),
+        sourceUrl: v.optional(v.string()),
     },
     handler: async (ctx, args) => {
         const sessionId = crypto.randomUUID();
@@ -115,6 +116,7 @@ export const createIngestionSession = mutation({
             fileType: args.fileType,
             fileSize: args.fileSize,
             sourceType: args.sourceType || "general",
+            sourceUrl: args.sourceUrl,
             stage: "uploading",
             progress: 0,
             createdAt: now,
@@ -139,6 +141,7 @@ export const updateIngestionStage = internalMutation({
         progress: v.optional(v.number()), // 0-100
         error: v.optional(v.string()),
         metadata: v.optional(v.string()), // JSON metadata
+        fileSize: v.optional(v.number()), // bytes, once known (URL ingestion)
     },
     handler: async (ctx, args) => {
         console.log('[updateIngestionStage] Called with:', {
@@ -166,6 +169,7 @@ export const updateIngestionStage = internalMutation({
             progress: args.progress,
             errorMessage: args.error,
             ...(args.metadata && { previewMetadata: args.metadata }),
+            ...(args.fileSize !== undefined && { fileSize: args.fileSize }),
             ...(args.stage === INGESTION_STAGES.PREVIEW_READY && { previewedAt: Date.now() }),
             ...(args.stage === INGESTION_STAGES.CONFIRMING && { confirmedAt: Date.now() }),
             ...(args.stage === INGESTION_STAGES.COMPLETED && { completedAt: Date.now() }),
@@ -249,6 +253,7 @@ export const getIngestionSessionStatus = query({
             chunkCount: session.chunkCount,
             error: session.errorMessage,
             documentId: session.documentId,
+            metadata: session.previewMetadata ? JSON.parse(session.previewMetadata) : null,
             previewChunks: session.previewChunks ? JSON.parse(session.previewChunks) : null,
         };
     },
@@ -336,6 +341,7 @@ export const convertSessionToDocument = internalMutation({
             fileType: session.fileType,
             fileSize: session.fileSize,
             sourceType: session.sourceType,
+            sourceUrl: session.sourceUrl,
             status: "completed",
             chunkCount: args.chunkCount,
             ragEntryIds: args.ragEntryIds,
@@ -591,6 +597,7 @@ async function persistChunksToRAG(
                         pageNumber: chunkMetadata.pageNumber,
                         sectionTitle: chunkMetadata.sectionTitle,
                         title: chunkMetadata.title,
+                        language: chunkMetadata.language,
                     },
                 }],
                 key: `${documentId}_chunk_${chunk.chunkIndex}`,
@@ -612,6 +619,7 @@ async function persistChunksToRAG(
                 ragNamespace: agentId,
                 pageNumber: chunkMetadata.pageNumber,
                 qualityScore: chunkMetadata.qualityScore,
+                language: chunkMetadata.language,
             });
 
             return result.entryId;
@@ -642,6 +650,7 @@ export const storeChunkMetadata = internalMutation({
         ragNamespace: v.string(),
         pageNumber: v.optional(v.number()),
         qualityScore: v.optional(v.number()),
+        language: v.optional(v.string()),
     },
     handler: async (ctx, args) => {
         await ctx.db.insert("chunks", {
@@ -657,6 +666,7 @@ export const storeChunkMetadata = internalMutation({
             ragNamespace: args.ragNamespace,
             pageNumber: args.pageNumber,
             qualityScore: args.qualityScore,
+            language: args.language,
             createdAt: Date.now(),
         });
     },
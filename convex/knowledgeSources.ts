@@ -0,0 +1,497 @@
+/**
+ * Knowledge Sources - documents that are kept in sync with where they came from
+ *
+ * Manages:
+ * - Sources: a URL (page, sitemap or crawl), a Google Drive export link, or an
+ *   uploaded file, each owning one document in the agent's knowledge base
+ * - Scheduling: the cron queues sources whose re-sync is due, the backend sync
+ *   worker claims them, fetches and chunks the content, upserts only changed
+ *   chunks (rag:upsertChunks) and reports back with completeSync
+ * - Sync history: one sourceSyncRuns row per sync with chunk stats
+ *
+ * Uploaded files can't be re-fetched; they sync when a new version is uploaded.
+ */
+
+import { internalMutation, mutation, query } from "./_generated/server.js";
+import { internal } from "./_generated/api.js";
+import { v } from "convex/values";
+import type { MutationCtx, QueryCtx } from "./_generated/server.js";
+import type { Doc, Id } from "./_generated/dataModel.js";
+
+// Syncs that never reported back are failed by the cron after this long
+const STUCK_SYNC_MS = 60 * 60 * 1000;
+
+// Sync history rows returned by default
+const DEFAULT_HISTORY_LIMIT = 20;
+
+const sourceTypeValidator = v.union(v.literal("url"), v.literal("drive"), v.literal("upload"));
+
+const syncTriggerValidator = v.union(v.literal("schedule"), v.literal("manual"), v.literal("upload"));
+
+type SyncTrigger = Doc<"sourceSyncRuns">["trigger"];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Resolve a source ID string
+ */
+async function getSource(ctx: QueryCtx, sourceId: string): Promise<Doc<"knowledgeSources"> | null> {
+    const id = ctx.db.normalizeId("knowledgeSources", sourceId);
+    return id ? await ctx.db.get(id) : null;
+}
+
+/**
+ * When the next scheduled sync is due (undefined = manual only)
+ * Uploaded files have nothing to re-fetch, so they are never scheduled.
+ */
+function computeNextSyncAt(
+    source: Pick<Doc<"knowledgeSources">, "type" | "enabled" | "syncIntervalHours">,
+    from: number
+): number | undefined {
+    if (source.type === "upload" || !source.enabled || !source.syncIntervalHours) return undefined;
+    return from + source.syncIntervalHours * 60 * 60 * 1000;
+}
+
+/**
+ * Sync status once a sync ends: idle, or queued again when a sync was requested while it ran
+ */
+function afterSync(source: Doc<"knowledgeSources">) {
+    return source.resyncRequested
+        ? { syncStatus: "queued" as const, queuedTrigger: "manual" as const, resyncRequested: undefined }
+        : { syncStatus: "idle" as const };
+}
+
+/**
+ * Mark a source as syncing and open a sync run
+ */
+async function startSync(
+    ctx: MutationCtx,
+    source: Doc<"knowledgeSources">,
+    trigger: SyncTrigger,
+    now: number
+) {
+    const runId = await ctx.db.insert("sourceSyncRuns", {
+        sourceId: source._id,
+        agentId: source.agentId,
+        trigger,
+        status: "running",
+        startedAt: now,
+    });
+    await ctx.db.patch(source._id, { syncStatus: "syncing", queuedTrigger: undefined, updatedAt: now });
+
+    return {
+        runId,
+        sourceId: source._id,
+        organizationId: source.organizationId,
+        agentId: source.agentId,
+        name: source.name,
+        type: source.type,
+        url: source.url,
+        crawlMode: source.crawlMode,
+        maxPages: source.maxPages,
+        maxDepth: source.maxDepth,
+        sourceType: source.sourceType,
+        documentId: source.documentId,
+        contentHash: source.contentHash,
+    };
+}
+
+// ============================================
+// SOURCE MUTATIONS
+// ============================================
+
+/**
+ * Create a source
+ * URL and Drive sources are queued for their first sync right away.
+ */
+export const create = mutation({
+    args: {
+        organizationId: v.string(),
+        agentId: v.string(),
+        name: v.string(),
+        type: sourceTypeValidator,
+        url: v.optional(v.string()),
+        crawlMode: v.optional(v.string()),
+        maxPages: v.optional(v.number()),
+        maxDepth: v.optional(v.number()),
+        fileName: v.optional(v.string()),
+        sourceType: v.optional(v.string()),
+        syncIntervalHours: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        if (args.type !== "upload" && !args.url) {
+            throw new Error(`A ${args.type} source needs a url`);
+        }
+
+        const now = Date.now();
+        return await ctx.db.insert("knowledgeSources", {
+            organizationId: args.organizationId,
+            agentId: args.agentId,
+            name: args.name,
+            type: args.type,
+            url: args.url,
+            crawlMode: args.crawlMode,
+            maxPages: args.maxPages,
+            maxDepth: args.maxDepth,
+            fileName: args.fileName,
+            sourceType: args.sourceType || "general",
+            documentId: crypto.randomUUID(),
+            syncIntervalHours: args.syncIntervalHours,
+            enabled: true,
+            syncStatus: args.type === "upload" ? "idle" : "queued",
+            queuedTrigger: args.type === "upload" ? undefined : "manual",
+            chunkCount: 0,
+            createdAt: now,
+            updatedAt: now,
+        });
+    },
+});
+
+/**
+ * Update source settings (the schedule restarts from the last sync)
+ */
+export const update = mutation({
+    args: {
+        sourceId: v.string(),
+        name: v.optional(v.string()),
+        url: v.optional(v.string()),
+        crawlMode: v.optional(v.string()),
+        maxPages: v.optional(v.number()),
+        maxDepth: v.optional(v.number()),
+        syncIntervalHours: v.optional(v.union(v.number(), v.null())), // null = manual only
+        enabled: v.optional(v.boolean()),
+    },
+    handler: async (ctx, args) => {
+        const source = await getSource(ctx, args.sourceId);
+        if (!source) throw new Error(`Knowledge source not found: ${args.sourceId}`);
+        if (args.url !== undefined && source.type === "upload") {
+            throw new Error("Uploaded sources have no url");
+        }
+
+        const { sourceId: _sourceId, syncIntervalHours, ...changes } = args;
+        const patch: Partial<Doc<"knowledgeSources">> = Object.fromEntries(
+            Object.entries(changes).filter(([, value]) => value !== undefined)
+        );
+        if (syncIntervalHours !== undefined) {
+            patch.syncIntervalHours = syncIntervalHours ?? undefined;
+        }
+
+        const now = Date.now();
+        const next = { ...source, ...patch };
+        patch.nextSyncAt = computeNextSyncAt(next, next.lastSyncAt ?? now);
+        patch.updatedAt = now;
+
+        await ctx.db.patch(source._id, patch);
+        return { success: true };
+    },
+});
+
+/**
+ * Delete a source and its sync history
+ * The document it owns is deleted separately (documentIngestion:deleteDocumentCascade).
+ */
+export const remove = mutation({
+    args: { sourceId: v.string() },
+    handler: async (ctx, args) => {
+        const source = await getSource(ctx, args.sourceId);
+        if (!source) throw new Error(`Knowledge source not found: ${args.sourceId}`);
+
+        const runs = await ctx.db
+            .query("sourceSyncRuns")
+            .withIndex("by_source", (q) => q.eq("sourceId", source._id))
+            .collect();
+        for (const run of runs) {
+            await ctx.db.delete(run._id);
+        }
+        await ctx.db.delete(source._id);
+
+        return { success: true, documentId: source.documentId };
+    },
+});
+
+// ============================================
+// SYNC LIFECYCLE
+// ============================================
+
+/**
+ * Queue a sync now (URL and Drive sources)
+ * A request during a running sync queues another one after it, since the
+ * running sync may have fetched the content before the change being synced.
+ */
+export const requestSync = mutation({
+    args: { sourceId: v.string() },
+    handler: async (ctx, args) => {
+        const source = await getSource(ctx, args.sourceId);
+        if (!source) throw new Error(`Knowledge source not found: ${args.sourceId}`);
+        if (source.type === "upload") {
+            throw new Error("Uploaded sources sync when a new version is uploaded");
+        }
+        if (source.syncStatus === "syncing") {
+            // updatedAt is left alone - it dates the running sync for stuck-sync recovery
+            await ctx.db.patch(source._id, { resyncRequested: true });
+            return { queued: true, syncStatus: source.syncStatus };
+        }
+        if (source.syncStatus !== "idle") {
+            return { queued: false, syncStatus: source.syncStatus };
+        }
+
+        await ctx.db.patch(source._id, { syncStatus: "queued", queuedTrigger: "manual", updatedAt: Date.now() });
+        return { queued: true, syncStatus: "queued" as const };
+    },
+});
+
+/**
+ * Start a sync immediately (new version of an uploaded file)
+ */
+export const beginSync = mutation({
+    args: {
+        sourceId: v.string(),
+        trigger: syncTriggerValidator,
+    },
+    handler: async (ctx, args) => {
+        const source = await getSource(ctx, args.sourceId);
+        if (!source) throw new Error(`Knowledge source not found: ${args.sourceId}`);
+        if (source.syncStatus === "syncing") {
+            throw new Error("A sync is already running for this source");
+        }
+        return await startSync(ctx, source, args.trigger, Date.now());
+    },
+});
+
+/**
+ * Claim queued sources for the backend sync worker
+ */
+export const claimQueuedSyncs = mutation({
+    args: {
+        limit: v.number(),
+    },
+    handler: async (ctx, args) => {
+        const now = Date.now();
+        const queued = await ctx.db
+            .query("knowledgeSources")
+            .withIndex("by_sync_status", (q) => q.eq("syncStatus", "queued"))
+            .take(args.limit);
+
+        const claimed = [];
+        for (const source of queued) {
+            claimed.push(await startSync(ctx, source, source.queuedTrigger ?? "schedule", now));
+        }
+        return claimed;
+    },
+});
+
+/**
+ * Report the result of a sync
+ * Completed syncs refresh the source's document (created on the first one)
+ * from its rows in the chunks table.
+ */
+export const completeSync = mutation({
+    args: {
+        runId: v.id("sourceSyncRuns"),
+        status: v.union(v.literal("completed"), v.literal("unchanged"), v.literal("failed")),
+        contentHash: v.optional(v.string()),
+        fileName: v.optional(v.string()),
+        fileType: v.optional(v.string()),
+        pagesFetched: v.optional(v.number()),
+        bytes: v.optional(v.number()),
+        chunksTotal: v.optional(v.number()),
+        chunksAdded: v.optional(v.number()),
+        chunksRemoved: v.optional(v.number()),
+        chunksUnchanged: v.optional(v.number()),
+        error: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const run = await ctx.db.get(args.runId);
+        if (!run) throw new Error(`Sync run not found: ${args.runId}`);
+        const source = await ctx.db.get(run.sourceId);
+        const now = Date.now();
+
+        await ctx.db.patch(run._id, {
+            status: args.status,
+            pagesFetched: args.pagesFetched,
+            bytes: args.bytes,
+            chunksTotal: args.chunksTotal,
+            chunksAdded: args.chunksAdded,
+            chunksRemoved: args.chunksRemoved,
+            chunksUnchanged: args.chunksUnchanged,
+            error: args.error,
+            completedAt: now,
+        });
+
+        // Source deleted while the sync was running
+        if (!source) return { success: true };
+
+        let chunkCount = source.chunkCount;
+        if (args.status === "completed") {
+            const chunks = await ctx.db
+                .query("chunks")
+                .withIndex("by_document_id", (q) => q.eq("documentId", source.documentId))
+                .collect();
+            chunkCount = chunks.length;
+
+            const document = await ctx.db
+                .query("documents")
+                .withIndex("by_document_id", (q) => q.eq("documentId", source.documentId))
+                .unique();
+            const fields = {
+                fileName: args.fileName ?? source.fileName ?? source.name,
+                fileSize: args.bytes ?? document?.fileSize ?? 0,
+                status: "completed" as const,
+                chunkCount,
+                ragEntryIds: chunks.map((chunk) => chunk.ragEntryId),
+                processedAt: now,
+            };
+
+            if (document) {
+                await ctx.db.patch(document._id, fields);
+            } else {
+                await ctx.db.insert("documents", {
+                    ...fields,
+                    documentId: source.documentId,
+                    organizationId: source.organizationId,
+                    agentId: source.agentId,
+                    fileType: args.fileType ?? (source.type === "url" ? ".html" : ""),
+                    sourceType: source.sourceType,
+                    sourceUrl: source.url,
+                    sourceId: source._id,
+                    uploadedAt: now,
+                });
+            }
+
+            await ctx.runMutation(internal.ragManagement.updateAgentMetadata, {
+                agentId: source.agentId,
+                organizationId: source.organizationId,
+                chunksAdded: chunkCount - (document?.chunkCount ?? 0),
+                documentsAdded: document ? 0 : 1,
+            });
+        }
+
+        await ctx.db.patch(source._id, {
+            ...afterSync(source),
+            lastSyncAt: now,
+            lastSyncStatus: args.status,
+            lastError: args.error,
+            contentHash: args.status === "failed" ? source.contentHash : args.contentHash ?? source.contentHash,
+            fileName: args.fileName ?? source.fileName,
+            chunkCount,
+            nextSyncAt: computeNextSyncAt(source, now),
+            updatedAt: now,
+        });
+
+        return { success: true };
+    },
+});
+
+/**
+ * Cron: queue sources whose scheduled sync is due, and fail syncs that never reported back
+ */
+export const queueDueSyncs = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        const now = Date.now();
+
+        const due = await ctx.db
+            .query("knowledgeSources")
+            .withIndex("by_next_sync", (q) =>
+                q.eq("enabled", true).eq("syncStatus", "idle").lte("nextSyncAt", now)
+            )
+            .collect();
+        for (const source of due) {
+            // Unscheduled sources have no nextSyncAt
+            if (source.nextSyncAt === undefined) continue;
+            await ctx.db.patch(source._id, { syncStatus: "queued", queuedTrigger: "schedule", updatedAt: now });
+        }
+
+        const syncing = await ctx.db
+            .query("knowledgeSources")
+            .withIndex("by_sync_status", (q) => q.eq("syncStatus", "syncing"))
+            .collect();
+        let recovered = 0;
+        for (const source of syncing) {
+            if (now - source.updatedAt < STUCK_SYNC_MS) continue;
+
+            const running = await ctx.db
+                .query("sourceSyncRuns")
+                .withIndex("by_source", (q) => q.eq("sourceId", source._id))
+                .filter((q) => q.eq(q.field("status"), "running"))
+                .collect();
+            for (const run of running) {
+                await ctx.db.patch(run._id, { status: "failed", error: "Sync never reported back", completedAt: now });
+            }
+            await ctx.db.patch(source._id, {
+                ...afterSync(source),
+                lastSyncStatus: "failed",
+                lastError: "Sync never reported back",
+                nextSyncAt: computeNextSyncAt(source, now),
+                updatedAt: now,
+            });
+            recovered++;
+        }
+
+        return { queued: due.filter((s) => s.nextSyncAt !== undefined).length, recovered };
+    },
+});
+
+// ============================================
+// QUERY OPERATIONS
+// ============================================
+
+/**
+ * Get source by ID
+ */
+export const getById = query({
+    args: { sourceId: v.string() },
+    handler: async (ctx, args) => {
+        return await getSource(ctx, args.sourceId);
+    },
+});
+
+/**
+ * List an agent's sources (newest first)
+ */
+export const listByAgent = query({
+    args: { agentId: v.string() },
+    handler: async (ctx, args) => {
+        return await ctx.db
+            .query("knowledgeSources")
+            .withIndex("by_agent_id", (q) => q.eq("agentId", args.agentId))
+            .order("desc")
+            .collect();
+    },
+});
+
+/**
+ * Chunk keys currently stored for a source's document (change detection)
+ */
+export const listChunkKeys = query({
+    args: { documentId: v.string() },
+    handler: async (ctx, args) => {
+        const chunks = await ctx.db
+            .query("chunks")
+            .withIndex("by_document_id", (q) => q.eq("documentId", args.documentId))
+            .collect();
+        return chunks.map((chunk) => chunk.chunkId);
+    },
+});
+
+/**
+ * Sync history of a source (newest first)
+ */
+export const listSyncRuns = query({
+    args: {
+        sourceId: v.string(),
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const id = ctx.db.normalizeId("knowledgeSources", args.sourceId);
+        if (!id) return [];
+
+        return await ctx.db
+            .query("sourceSyncRuns")
+            .withIndex("by_source", (q) => q.eq("sourceId", id as Id<"knowledgeSources">))
+            .order("desc")
+            .take(args.limit ?? DEFAULT_HISTORY_LIMIT);
+    },
+});
@@ -9,8 +9,14 @@
  * - Search returns relevant chunks for LLM context injection
  * - Deduplication via content hashing prevents duplicate chunks
  * 
+ * HYBRID SEARCH:
+ * - Vector search over RAG entries + full-text search over the chunks table
+ * - Results fused with weighted reciprocal-rank fusion (RRF)
+ * - Product names, SKUs and transliterations match by keyword even when
+ *   their embeddings are weak
+ * 
  * PERFORMANCE OPTIMIZATIONS:
- * - Pure semantic search (no hybrid filtering)
+ * - Both legs run in parallel within one action
  * - Parallel warmup queries to prime connections
  * - Low latency (<200ms) for voice interactions
  * - Content-hash based deduplication for idempotent ingestion
@@ -20,8 +26,9 @@
 
 import { RAG } from "@convex-dev/rag";
 import { openai } from "@ai-sdk/openai";
-import { components } from "./_generated/api.js";
-import { action } from "./_generated/server.js";
+import { components, internal } from "./_generated/api.js";
+import { action, internalMutation, internalQuery } from "./_generated/server.js";
+import type { ActionCtx } from "./_generated/server.js";
 import { v } from "convex/values";
 
 // ============================================================================
@@ -82,6 +89,60 @@ export const ingest = action({
     },
 });
 
+/**
+ * All entry keys in a namespace, mapped to their entry IDs
+ */
+async function listEntryKeys(ctx: ActionCtx, namespace: string): Promise<Map<string, string>> {
+    const keys = new Map<string, string>();
+    const ns = await rag.getNamespace(ctx, { namespace });
+    if (!ns) return keys;
+
+    let cursor: string | null = null;
+    do {
+        const result: Awaited<ReturnType<typeof rag.list>> = await rag.list(ctx, {
+            namespaceId: ns.namespaceId,
+            status: "ready",
+            paginationOpts: { cursor, numItems: 500 },
+        });
+        for (const entry of result.page) {
+            if (entry.key) keys.set(entry.key, entry.entryId);
+        }
+        cursor = result.isDone ? null : result.continueCursor;
+    } while (cursor);
+
+    return keys;
+}
+
+/**
+ * Chunk keys and RAG entry IDs of a document, from the chunks table
+ */
+export const getDocumentChunkKeys = internalQuery({
+    args: { documentId: v.string() },
+    handler: async (ctx, args) => {
+        const chunks = await ctx.db
+            .query("chunks")
+            .withIndex("by_document_id", (q) => q.eq("documentId", args.documentId))
+            .collect();
+        return chunks.map(chunk => ({ key: chunk.chunkId, entryId: chunk.ragEntryId }));
+    },
+});
+
+/**
+ * Remove chunk rows by key (their RAG entries are deleted by the caller)
+ */
+export const deleteChunkRecords = internalMutation({
+    args: { keys: v.array(v.string()) },
+    handler: async (ctx, args) => {
+        for (const key of args.keys) {
+            const chunk = await ctx.db
+                .query("chunks")
+                .withIndex("by_chunk_id", (q) => q.eq("chunkId", key))
+                .first();
+            if (chunk) await ctx.db.delete(chunk._id);
+        }
+    },
+});
+
 /**
  * Upsert chunks with deduplication support
  * 
@@ -91,7 +152,11 @@ export const ingest = action({
  * - New key → inserted
  * 
  * Designed for re-ingestion scenarios where documents may be updated.
- * Uses content hashes as part of the key for deduplication.
+ * Uses content hashes as part of the key for deduplication, so only new
+ * or changed chunks are embedded.
+ * 
+ * With documentId, existing keys come from that document's rows in the chunks
+ * table and inserted chunks get a row there too (keyword search, chunk viewer).
  * 
  * @param namespace - Agent ID for knowledge isolation
  * @param chunks - Array of chunk objects with text, key, title, and contentHash
@@ -100,6 +165,9 @@ export const ingest = action({
 export const upsertChunks = action({
     args: {
         namespace: v.string(),
+        documentId: v.optional(v.string()),     // Track chunks under this document
+        organizationId: v.optional(v.string()),
+        totalChunks: v.optional(v.number()),    // Document size when upserting in batches
         chunks: v.array(v.object({
             text: v.string(),           // Chunk content
             key: v.string(),            // Unique key (agentId_docId_contentHash)
@@ -115,47 +183,52 @@ export const upsertChunks = action({
         let skipped = 0;
         const processedKeys: string[] = [];
         
-        // Get existing entries to check for duplicates
-        const existingEntries = await rag.list(ctx, {
-            namespaceId: args.namespace as any,
-            status: "ready",
-            paginationOpts: { cursor: null, numItems: 500 },
-        });
-        
-        // Create lookup map by key
-        const existingByKey = new Map<string, { entryId: string; key: string }>();
-        for (const entry of existingEntries.page) {
-            if (entry.key) {
-                existingByKey.set(entry.key, { entryId: entry.entryId, key: entry.key });
-            }
-        }
+        // Get existing keys to check for duplicates
+        const existingKeys = args.documentId
+            ? new Set((await ctx.runQuery(internal.rag.getDocumentChunkKeys, { documentId: args.documentId })).map(c => c.key))
+            : new Set((await listEntryKeys(ctx, args.namespace)).keys());
         
         // Process each chunk
         for (const chunk of args.chunks) {
             processedKeys.push(chunk.key);
             
-            const existing = existingByKey.get(chunk.key);
-            
-            if (existing) {
+            if (existingKeys.has(chunk.key)) {
                 // Key exists - this is a duplicate (same content produces same key)
                 // Since key includes contentHash, same key = same content = skip
                 skipped++;
-                console.log(`[Upsert] Skipped duplicate: ${chunk.key}`);
-            } else {
-                // New chunk - insert
-                try {
-                    await rag.add(ctx, {
-                        namespace: args.namespace,
-                        key: chunk.key,
+                continue;
+            }
+
+            // New chunk - insert (as a single pre-made chunk so RAG doesn't re-chunk it)
+            try {
+                const result = await rag.add(ctx, {
+                    namespace: args.namespace,
+                    key: chunk.key,
+                    chunks: [{ text: chunk.text, metadata: chunk.metadata ?? {} }],
+                    title: chunk.title,
+                });
+                existingKeys.add(chunk.key);
+                inserted++;
+
+                if (args.documentId) {
+                    await ctx.runMutation(internal.documentIngestion.storeChunkMetadata, {
+                        chunkId: chunk.key,
+                        documentId: args.documentId,
+                        organizationId: args.organizationId ?? args.namespace,
+                        agentId: args.namespace,
                         text: chunk.text,
-                        title: chunk.title,
+                        tokenCount: chunk.metadata?.tokenCount ?? Math.ceil(chunk.text.length / 4),
+                        chunkIndex: chunk.metadata?.chunkIndex ?? 0,
+                        totalChunks: args.totalChunks ?? args.chunks.length,
+                        ragEntryId: result.entryId,
+                        ragNamespace: args.namespace,
+                        language: chunk.metadata?.language,
                     });
-                    inserted++;
-                } catch (error) {
-                    // If the key already exists (race condition), treat as skip
-                    console.log(`[Upsert] Insert failed for ${chunk.key}:`, error);
-                    skipped++;
                 }
+            } catch (error) {
+                // If the key already exists (race condition), treat as skip
+                console.log(`[Upsert] Insert failed for ${chunk.key}:`, error);
+                skipped++;
             }
         }
         
@@ -179,12 +252,14 @@ export const upsertChunks = action({
  * 
  * @param namespace - Agent ID
  * @param keys - Array of chunk keys to delete
+ * @param documentId - Look the keys up in (and remove them from) this document's chunk rows
  * @returns Number of chunks deleted
  */
 export const deleteChunksByKeys = action({
     args: {
         namespace: v.string(),
         keys: v.array(v.string()),
+        documentId: v.optional(v.string()),
     },
     handler: async (ctx, args) => {
         if (args.keys.length === 0) {
@@ -193,20 +268,10 @@ export const deleteChunksByKeys = action({
         
         let deleted = 0;
         
-        // Get all entries in namespace
-        const entries = await rag.list(ctx, {
-            namespaceId: args.namespace as any,
-            status: "ready",
-            paginationOpts: { cursor: null, numItems: 500 },
-        });
-        
         // Create key-to-entryId map
-        const keyToEntryId = new Map<string, string>();
-        for (const entry of entries.page) {
-            if (entry.key) {
-                keyToEntryId.set(entry.key, entry.entryId);
-            }
-        }
+        const keyToEntryId = args.documentId
+            ? new Map((await ctx.runQuery(internal.rag.getDocumentChunkKeys, { documentId: args.documentId })).map(c => [c.key, c.entryId]))
+            : await listEntryKeys(ctx, args.namespace);
         
         // Delete each key
         for (const key of args.keys) {
@@ -220,6 +285,10 @@ export const deleteChunksByKeys = action({
                 }
             }
         }
+
+        if (args.documentId) {
+            await ctx.runMutation(internal.rag.deleteChunkRecords, { keys: args.keys });
+        }
         
         console.log(`[Delete] Removed ${deleted}/${args.keys.length} chunks`);
         return { deleted };
@@ -240,24 +309,102 @@ export const getChunkKeysByPrefix = action({
         keyPrefix: v.string(),
     },
     handler: async (ctx, args) => {
-        const entries = await rag.list(ctx, {
-            namespaceId: args.namespace as any,
-            status: "ready",
-            paginationOpts: { cursor: null, numItems: 500 },
-        });
+        const keys = await listEntryKeys(ctx, args.namespace);
         
-        const matchingKeys = entries.page
-            .filter(e => e.key && e.key.startsWith(args.keyPrefix))
-            .map(e => e.key!);
+        const matchingKeys = [...keys.keys()].filter(key => key.startsWith(args.keyPrefix));
         
         return { keys: matchingKeys, count: matchingKeys.length };
     },
 });
 
+/**
+ * Keyword leg of hybrid search - full-text search over the agent's chunks
+ * Returned in relevance order
+ */
+export const keywordSearch = internalQuery({
+    args: {
+        agentId: v.string(),
+        query: v.string(),
+        limit: v.number(),
+    },
+    handler: async (ctx, args) => {
+        const chunks = await ctx.db
+            .query("chunks")
+            .withSearchIndex("search_text", q => q.search("text", args.query).eq("agentId", args.agentId))
+            .take(args.limit);
+
+        return chunks.map(chunk => ({
+            entryId: chunk.ragEntryId,
+            text: chunk.text,
+            language: chunk.language,
+        }));
+    },
+});
+
+/**
+ * A search hit after fusion
+ */
+interface FusedResult {
+    entryId: string;
+    score?: number;             // Cosine similarity (same as vectorScore) - unset for keyword-only hits
+    vectorScore?: number;       // Cosine similarity, when found by the vector leg
+    fusedScore: number;         // RRF score, normalized to 0-1 - for ranking only, not a similarity
+    keywordRank?: number;       // 1-based rank, when found by the keyword leg
+    text?: string;
+    title?: string;
+    language?: string;          // Source language recorded at ingestion
+}
+
+/**
+ * Weighted reciprocal-rank fusion: fusedScore = Σ weight / (k + rank)
+ * Normalized so a result ranked first by both legs scores 1. Only the order is
+ * meaningful - a weak query's best hit still scores high - so score stays the
+ * cosine similarity for confidence checks.
+ */
+function fuseResults(
+    vector: Array<{ entryId: string; score: number; text?: string; title?: string; language?: string }>,
+    keyword: Array<{ entryId: string; text: string; language?: string }>,
+    opts: { vectorWeight: number; keywordWeight: number; k: number }
+): FusedResult[] {
+    const fused = new Map<string, FusedResult>();
+    const maxScore = (opts.vectorWeight + opts.keywordWeight) / (opts.k + 1);
+
+    vector.forEach((hit, i) => {
+        fused.set(hit.entryId, {
+            entryId: hit.entryId,
+            score: hit.score,
+            vectorScore: hit.score,
+            fusedScore: opts.vectorWeight / (opts.k + i + 1),
+            text: hit.text,
+            title: hit.title,
+            language: hit.language,
+        });
+    });
+
+    keyword.forEach((hit, i) => {
+        const existing = fused.get(hit.entryId);
+        const fusedScore = opts.keywordWeight / (opts.k + i + 1);
+        if (existing) {
+            existing.fusedScore += fusedScore;
+            existing.keywordRank = i + 1;
+        } else {
+            fused.set(hit.entryId, { entryId: hit.entryId, fusedScore, keywordRank: i + 1, text: hit.text, language: hit.language });
+        }
+    });
+
+    return [...fused.values()]
+        .map(result => ({ ...result, fusedScore: maxScore > 0 ? result.fusedScore / maxScore : 0 }))
+        .sort((a, b) => b.fusedScore - a.fusedScore);
+}
+
 /**
  * Search knowledge base - optimized for voice agent latency
- * Single action: embedding + vector search in one call
+ * Single action: embedding + vector search (+ keyword search in hybrid mode)
  * Uses agentId as namespace for agent-specific knowledge retrieval
+ * 
+ * Vector mode is the default. In hybrid mode minScore only applies to the
+ * vector leg - a keyword match is kept even when its embedding is a weak match.
+ * Results are ranked by fusedScore; score is always the cosine similarity.
  */
 export const search = action({
     args: {
@@ -265,6 +412,12 @@ export const search = action({
         query: v.string(),           // User's question
         limit: v.optional(v.number()),
         minScore: v.optional(v.number()),
+        mode: v.optional(v.union(v.literal("hybrid"), v.literal("vector"))),
+        keywordQuery: v.optional(v.string()),   // Query for the keyword leg (defaults to query)
+        vectorWeight: v.optional(v.number()),   // RRF weight of the vector leg (default 1)
+        keywordWeight: v.optional(v.number()),  // RRF weight of the keyword leg (default 1)
+        rrfK: v.optional(v.number()),           // RRF constant (default 60)
+        candidates: v.optional(v.number()),     // Hits taken from each leg before fusion
     },
     handler: async (ctx, args) => {
         // Input validation - handle empty/whitespace queries gracefully
@@ -278,35 +431,109 @@ export const search = action({
             };
         }
 
-        const { results, text, entries } = await rag.search(ctx, {
-            namespace: args.namespace,
-            query: trimmedQuery,
-            // Optimized for voice agent latency and accuracy:
-            // - limit=3: Fewer results = faster response, top results are usually best
-            // - threshold=0.35: Balanced - filters noise but keeps valid borderline matches
-            // - No chunkContext: Each chunk is self-contained with embedded context
-            limit: args.limit ?? 3,
-            vectorScoreThreshold: args.minScore ?? 0.35,
-            chunkContext: { before: 0, after: 0 }, // Chunks are self-contained
+        const limit = args.limit ?? 3;
+
+        if (args.mode !== "hybrid") {
+            const { results, text, entries } = await rag.search(ctx, {
+                namespace: args.namespace,
+                query: trimmedQuery,
+                // Optimized for voice agent latency and accuracy:
+                // - limit=3: Fewer results = faster response, top results are usually best
+                // - threshold=0.35: Balanced - filters noise but keeps valid borderline matches
+                // - No chunkContext: Each chunk is self-contained with embedded context
+                limit,
+                vectorScoreThreshold: args.minScore ?? 0.35,
+                chunkContext: { before: 0, after: 0 }, // Chunks are self-contained
+            });
+
+            console.log("RAG Search Results:", JSON.stringify(results[0] || "No results", null, 2));
+
+            return {
+                text,  // Formatted text for LLM prompt
+                results: results.map(r => {
+                    const entry = entries.find(e => e.entryId === r.entryId);
+                    return {
+                        score: r.score,
+                        vectorScore: r.score,
+                        text: entry?.text,
+                        title: entry?.title,
+                        language: r.content[0]?.metadata?.language,
+                        entryId: r.entryId,
+                    };
+                }),
+                resultsCount: results.length,
+                entries: entries.map(e => ({
+                    entryId: e.entryId,
+                    title: e.title,
+                    text: e.text,
+                })),
+            };
+        }
+
+        const candidates = Math.max(args.candidates ?? limit * 4, limit);
+        const keywordQuery = args.keywordQuery?.trim() || trimmedQuery;
+
+        const [vector, keyword] = await Promise.all([
+            rag.search(ctx, {
+                namespace: args.namespace,
+                query: trimmedQuery,
+                limit: candidates,
+                vectorScoreThreshold: args.minScore ?? 0.35,
+                chunkContext: { before: 0, after: 0 },
+            }),
+            ctx.runQuery(internal.rag.keywordSearch, {
+                agentId: args.namespace,
+                query: keywordQuery,
+                limit: candidates,
+            }) as Promise<Array<{ entryId: string; text: string; language?: string }>>,
+        ]);
+
+        const vectorHits = vector.results.map(r => {
+            const entry = vector.entries.find(e => e.entryId === r.entryId);
+            return {
+                entryId: r.entryId as string,
+                score: r.score,
+                text: entry?.text,
+                title: entry?.title,
+                language: r.content[0]?.metadata?.language as string | undefined,
+            };
         });
 
-        console.log("RAG Search Results:", JSON.stringify(results[0] || "No results", null, 2));
+        const fused = fuseResults(vectorHits, keyword, {
+            vectorWeight: args.vectorWeight ?? 1,
+            keywordWeight: args.keywordWeight ?? 1,
+            k: args.rrfK ?? 60,
+        });
+
+        // Keyword-only hits come from the chunks table - skip rows whose RAG entry is gone
+        const results: FusedResult[] = [];
+        for (const result of fused) {
+            if (results.length >= limit) break;
+            if (result.vectorScore === undefined) {
+                const entry = await rag.getEntry(ctx, { entryId: result.entryId as any });
+                if (!entry || entry.status !== "ready") continue;
+                result.title = entry.title;
+            }
+            results.push(result);
+        }
+
+        console.log("RAG Hybrid Search:", JSON.stringify({
+            vectorHits: vectorHits.length,
+            keywordHits: keyword.length,
+            top: results[0] ?? "No results",
+        }, null, 2));
 
         return {
-            text,  // Formatted text for LLM prompt
-            results: results.map(r => {
-                const entry = entries.find(e => e.entryId === r.entryId);
-                return {
-                    score: r.score,
-                    text: entry?.text,
-                    entryId: r.entryId,
-                };
-            }),
+            // Same format as rag.search's text
+            text: results
+                .map(r => (r.title ? `# ${r.title}:\n${r.text ?? ''}` : r.text ?? ''))
+                .join("\n---\n"),
+            results,
             resultsCount: results.length,
-            entries: entries.map(e => ({
-                entryId: e.entryId,
-                title: e.title,
-                text: e.text,
+            entries: results.map(r => ({
+                entryId: r.entryId,
+                title: r.title,
+                text: r.text,
             })),
         };
     },
@@ -9,6 +9,8 @@
  * - callSessions: Active and completed call tracking
  * - callInteractions: Conversation logs (user/agent messages)
  * - callMetrics: Performance and quality metrics
+ * - callLiveEvents: Short-lived feed of in-progress call activity (live monitoring)
+ * - callScores: QA scorecards (LLM grading of transcripts against agent rubrics)
  * 
  * KNOWLEDGE BASE TABLES:
  * - documents: Uploaded file metadata
@@ -58,6 +60,7 @@ export default defineSchema({
         sipParticipantId: v.optional(v.string()),        // LiveKit SIP participant identity
         callDirection: v.optional(v.union(v.literal("inbound"), v.literal("outbound"))),
         isTelephony: v.optional(v.boolean()),            // true if phone call vs web
+        campaignId: v.optional(v.string()),              // Outbound campaign that placed this call
         
         startedAt: v.number(),
         endedAt: v.optional(v.number()),
@@ -70,6 +73,7 @@ export default defineSchema({
             timestamp: v.number(),
             speaker: v.union(v.literal("user"), v.literal("agent"), v.literal("system")),
             text: v.string(),
+            language: v.optional(v.string()),
             type: v.optional(v.union(
                 v.literal("speech"),
                 v.literal("function_call"),
@@ -82,11 +86,102 @@ export default defineSchema({
             })),
         }))),
         
+        // Human handoff attempts (cold/warm SIP transfers) and their outcomes
+        transfers: v.optional(v.array(v.object({
+            department: v.string(),
+            destination: v.string(),                     // E.164 number or sip: URI
+            mode: v.union(v.literal("cold"), v.literal("warm")),
+            outcome: v.union(
+                v.literal("answered"),
+                v.literal("referred"),
+                v.literal("busy"),
+                v.literal("no_answer"),
+                v.literal("voicemail"),
+                v.literal("failed")
+            ),
+            reason: v.optional(v.string()),              // Why the caller asked for a human
+            summary: v.optional(v.string()),             // Briefing given to the human (warm only)
+            sipStatusCode: v.optional(v.number()),       // SIP response code on failure (486, 480...)
+            error: v.optional(v.string()),
+            requestedAt: v.number(),
+            completedAt: v.number(),
+        }))),
+        
+        // Mid-call handoffs between AI agents, in order (the hop chain)
+        agentHandoffs: v.optional(v.array(v.object({
+            fromAgentId: v.string(),
+            toAgentId: v.string(),
+            source: v.union(v.literal("tool"), v.literal("ivr")), // handoff_to_agent or the IVR agent menu
+            reason: v.optional(v.string()),
+            at: v.number(),
+        }))),
+        
+        // Caller details collected and validated during the call (agent config.fields)
+        collectedFields: v.optional(v.array(v.object({
+            name: v.string(),
+            value: v.union(v.string(), v.number()),     // Normalized: +91XXXXXXXXXX, YYYY-MM-DD...
+            confirmed: v.boolean(),                      // Caller confirmed the read-back
+            collectedAt: v.number(),
+        }))),
+        
+        // Supervisor interventions (listen-in, whisper, takeover) - audit trail
+        supervisorActions: v.optional(v.array(v.object({
+            action: v.union(
+                v.literal("listen"),
+                v.literal("whisper"),
+                v.literal("takeover"),
+                v.literal("release")
+            ),
+            supervisor: v.string(),                      // Who intervened (name or email)
+            message: v.optional(v.string()),             // Whisper guidance given to the AI
+            participantIdentity: v.optional(v.string()), // LiveKit identity used to join the room
+            at: v.number(),
+        }))),
+        
+        // Call recording (LiveKit egress to S3-compatible storage, see callRecordings.ts)
+        recordingUrl: v.optional(v.string()),            // Object URL of the mixed call audio
+        recordingKey: v.optional(v.string()),            // Object key in the recording bucket
+        recordingEgressId: v.optional(v.string()),
+        recordingStatus: v.optional(v.union(
+            v.literal("recording"),
+            v.literal("completed"),
+            v.literal("failed"),
+            v.literal("deleting"),  // Past retention, audio not yet removed from the bucket
+            v.literal("deleted")
+        )),
+        recordingStartedAt: v.optional(v.number()),
+        recordingExpiresAt: v.optional(v.number()),      // Retention deadline (cleared once the audio is deleted)
+        recordingDeletedAt: v.optional(v.number()),
+        
+        // Live monitoring (updated while the call is in progress, see callLiveEvents.ts)
+        liveAgentState: v.optional(v.string()),          // initializing | listening | thinking | speaking
+        lastActivityAt: v.optional(v.number()),
+        
+        // Post-call AI analysis (written once the transcript is saved, see call-analysis.ts)
+        analysis: v.optional(v.object({
+            summary: v.string(),
+            sentiment: v.union(
+                v.literal("positive"),
+                v.literal("neutral"),
+                v.literal("negative")
+            ),
+            sentimentScore: v.number(),                  // -1 (very negative) to 1 (very positive)
+            disposition: v.string(),                     // One of the agent's config.dispositions
+            dispositionReason: v.optional(v.string()),
+            entities: v.array(v.object({                 // Key facts: names, dates, amounts, products...
+                type: v.string(),
+                value: v.string(),
+            })),
+            model: v.string(),
+            analyzedAt: v.number(),
+        })),
+        
         createdAt: v.number(),
         updatedAt: v.number(),
     })
         .index("by_session_id", ["sessionId"])
         .index("by_room_name", ["roomName"])
+        .index("by_recording_expires_at", ["recordingExpiresAt"])
         .index("by_organization_id", ["organizationId"])
         .index("by_agent_id", ["agentId"])
         .index("by_status", ["status"])
@@ -94,6 +189,7 @@ export default defineSchema({
 
     // Call interactions - individual messages and function calls
     callInteractions: defineTable({
+        interactionId: v.optional(v.string()), // Client-generated ID - makes batch retries idempotent
         sessionId: v.string(),
         organizationId: v.string(), // Denormalized for faster org-level queries
         agentId: v.optional(v.string()), // For per-agent analytics and ML training
@@ -114,7 +210,9 @@ export default defineSchema({
             v.literal("neutral")
         )),
         latencyMs: v.optional(v.number()), // Response latency tracking
+        language: v.optional(v.string()), // Spoken language (e.g. 'hi-IN'), detected for caller messages
     })
+        .index("by_interaction_id", ["interactionId"])
         .index("by_session_id", ["sessionId"])
         .index("by_organization_id", ["organizationId"])
         .index("by_agent_id", ["agentId"])
@@ -142,7 +240,8 @@ export default defineSchema({
             v.literal("latency"),
             v.literal("function_call"),
             v.literal("error"),
-            v.literal("quality")
+            v.literal("quality"),
+            v.literal("failover")
         )),
         metricName: v.optional(v.string()), // e.g., "tts_latency", "hybrid_search", etc.
         value: v.optional(v.number()),
@@ -156,6 +255,56 @@ export default defineSchema({
         .index("by_organization_id", ["organizationId"])
         .index("by_agent_id", ["agentId"]),
 
+    // Live call events - turns, tool calls and agent state streamed while a call is in progress
+    // Written in small batches by the agent; purged by cron after LIVE_EVENT_TTL_MS
+    callLiveEvents: defineTable({
+        sessionId: v.string(),
+        organizationId: v.string(),
+        agentId: v.optional(v.string()),
+        eventType: v.union(
+            v.literal("user_message"),
+            v.literal("agent_response"),
+            v.literal("function_call"),
+            v.literal("agent_state")
+        ),
+        text: v.optional(v.string()),
+        language: v.optional(v.string()),
+        functionName: v.optional(v.string()),
+        functionParams: v.optional(v.string()), // JSON
+        functionResult: v.optional(v.string()), // JSON
+        state: v.optional(v.string()),          // Agent state for agent_state events
+        timestamp: v.number(),
+    })
+        .index("by_session_id", ["sessionId"])
+        .index("by_timestamp", ["timestamp"]),
+
+    // QA scorecards - one per graded call, against the agent's config.qaRubric
+    callScores: defineTable({
+        sessionId: v.string(),
+        organizationId: v.string(),
+        agentId: v.string(),
+        score: v.number(),                              // 0-100, weighted over applicable criteria
+        passed: v.boolean(),                            // score >= passingScore and no critical criterion failed
+        passingScore: v.number(),
+        criteria: v.array(v.object({
+            id: v.string(),
+            description: v.string(),
+            weight: v.number(),
+            critical: v.boolean(),
+            result: v.union(
+                v.literal("pass"),
+                v.literal("fail"),
+                v.literal("not_applicable")
+            ),
+            evidence: v.optional(v.string()),           // Quote or reason given by the grader
+        })),
+        model: v.string(),
+        gradedAt: v.number(),
+    })
+        .index("by_session_id", ["sessionId"])
+        .index("by_organization_and_graded_at", ["organizationId", "gradedAt"])
+        .index("by_agent_and_graded_at", ["agentId", "gradedAt"]),
+
     // Persistent agents (reusable configurations)
     agents: defineTable({
         organizationId: v.string(),
@@ -182,6 +331,26 @@ export default defineSchema({
         maxConcurrentCalls: v.optional(v.number()), // Default 5 - max simultaneous calls
         monthlyCallLimit: v.optional(v.number()),   // Default 1000 - monthly quota
         currentConcurrentCalls: v.optional(v.number()), // Track active calls in real-time
+        overLimitBehavior: v.optional(v.union(           // Default "reject"
+            v.literal("reject"),        // Refuse the call (SIP busy / HTTP 429)
+            v.literal("busy_message"),  // Answer, play overLimitMessage, hang up
+            v.literal("queue")          // Hold the caller until a slot frees up
+        )),
+        overLimitMessage: v.optional(v.string()),   // Spoken for busy_message / queue
+        maxQueueWaitSeconds: v.optional(v.number()), // Default 120 - queue timeout
+        billingCycleDay: v.optional(v.number()),    // Default 1 - day of month (UTC) the monthly quota resets
+        
+        // Call transfer directory (department → human phone number / SIP URI)
+        transferDirectory: v.optional(v.array(v.object({
+            department: v.string(),                      // e.g., "billing", "front desk"
+            destination: v.string(),                     // E.164 number or sip: URI
+            mode: v.optional(v.union(v.literal("cold"), v.literal("warm"))), // Default "cold"
+            voicemail: v.optional(v.string()),           // Fallback when busy / no answer
+            description: v.optional(v.string()),         // Helps the LLM pick the right department
+        }))),
+        
+        // Step-by-step conversation flow (JSON - see src/services/agent-workflow.ts)
+        workflow: v.optional(v.string()),
         
         // Document parsing configuration
         enableContextualEnrichment: v.optional(v.boolean()), // Context embedding in chunks
@@ -196,6 +365,118 @@ export default defineSchema({
         .index("by_phone_and_status", ["phoneCountryCode", "phoneNumber", "status"])
         .index("by_status", ["status", "updatedAt"]),
 
+    // Active call slots - one row per in-progress call counted against maxConcurrentCalls
+    // Keyed by room name so acquire/release are idempotent across dispatch, API and agent
+    agentCallSlots: defineTable({
+        agentId: v.string(),
+        organizationId: v.string(),
+        slotKey: v.string(),        // LiveKit room name
+        direction: v.union(v.literal("inbound"), v.literal("outbound"), v.literal("web")),
+        acquiredAt: v.number(),
+    })
+        .index("by_agent_id", ["agentId"])
+        .index("by_slot_key", ["slotKey"])
+        .index("by_acquired_at", ["acquiredAt"]),
+
+    // Monthly usage per agent per billing cycle
+    agentUsage: defineTable({
+        agentId: v.string(),
+        organizationId: v.string(),
+        cycleStart: v.number(),     // Billing cycle start (ms, UTC)
+        cycleEnd: v.number(),       // Next cycle start (exclusive)
+        callCount: v.number(),      // Calls admitted this cycle
+        rejectedCount: v.number(),  // Calls refused / busy-messaged this cycle
+        updatedAt: v.number(),
+    })
+        .index("by_agent_cycle", ["agentId", "cycleStart"]),
+
+    // ============================================
+    // OUTBOUND CAMPAIGN TABLES
+    // ============================================
+
+    // Outbound calling campaigns - one agent dialing a contact list
+    campaigns: defineTable({
+        organizationId: v.string(),
+        agentId: v.string(),
+        name: v.string(),
+        status: v.union(
+            v.literal("draft"),
+            v.literal("scheduled"),   // Starts automatically at startAt
+            v.literal("running"),
+            v.literal("paused"),
+            v.literal("completed"),
+            v.literal("cancelled")
+        ),
+        timezone: v.string(),                        // IANA zone for contacts without their own
+        callingWindows: v.array(v.object({
+            days: v.array(v.number()),               // 0 = Sunday ... 6 = Saturday
+            startTime: v.string(),                   // "09:00" (contact's local time)
+            endTime: v.string(),                     // "18:00"
+        })),
+        maxConcurrentDials: v.number(),
+        retryPolicy: v.object({
+            maxAttempts: v.number(),                 // Total dial attempts per contact
+            retryDelayMinutes: v.number(),
+            retryOn: v.array(v.union(v.literal("busy"), v.literal("no_answer"), v.literal("failed"))),
+        }),
+        startAt: v.optional(v.number()),
+        endAt: v.optional(v.number()),               // Stop dialing after this time
+        startedAt: v.optional(v.number()),
+        completedAt: v.optional(v.number()),
+        createdAt: v.number(),
+        updatedAt: v.number(),
+    })
+        .index("by_organization_id", ["organizationId"])
+        .index("by_status", ["status"]),
+
+    // Campaign contacts - one row per number to dial, with per-contact variables and outcome
+    campaignContacts: defineTable({
+        campaignId: v.string(),
+        organizationId: v.string(),
+        phoneNumber: v.string(),                     // E.164
+        name: v.optional(v.string()),
+        timezone: v.optional(v.string()),            // Overrides the campaign timezone
+        variables: v.optional(v.string()),           // JSON of extra CSV columns
+        status: v.union(
+            v.literal("pending"),     // Waiting for its window / retry time
+            v.literal("queued"),      // Picked by the scheduler, waiting for the dialer
+            v.literal("dialing"),
+            v.literal("in_call"),
+            v.literal("completed"),   // Answered and the call has ended
+            v.literal("failed"),      // Out of attempts
+            v.literal("dnc"),         // On the do-not-call list
+            v.literal("cancelled")
+        ),
+        lastOutcome: v.optional(v.union(
+            v.literal("answered"),
+            v.literal("busy"),
+            v.literal("no_answer"),
+            v.literal("failed")
+        )),
+        attempts: v.number(),
+        nextAttemptAt: v.number(),
+        lastAttemptAt: v.optional(v.number()),
+        lastSipStatusCode: v.optional(v.number()),
+        lastError: v.optional(v.string()),
+        roomName: v.optional(v.string()),            // Room of the current / last attempt
+        sessionId: v.optional(v.string()),           // callSessions.sessionId of the answered call
+        durationSeconds: v.optional(v.number()),
+        createdAt: v.number(),
+        updatedAt: v.number(),
+    })
+        .index("by_campaign_status", ["campaignId", "status", "nextAttemptAt"])
+        .index("by_campaign_phone", ["campaignId", "phoneNumber"])
+        .index("by_room_name", ["roomName"]),
+
+    // Do-not-call list (per organization)
+    dncNumbers: defineTable({
+        organizationId: v.string(),
+        phoneNumber: v.string(),                     // E.164
+        reason: v.optional(v.string()),
+        createdAt: v.number(),
+    })
+        .index("by_org_phone", ["organizationId", "phoneNumber"]),
+
     // ============================================
     // KNOWLEDGE BASE TABLES
     // ============================================
@@ -209,6 +490,8 @@ export default defineSchema({
         fileType: v.string(), // "pdf", "csv", "xlsx", "docx", "image", etc.
         fileSize: v.number(), // bytes
         sourceType: v.string(), // "menu", "faq", "policy", "catalog", etc.
+        sourceUrl: v.optional(v.string()), // Starting URL for URL ingestion
+        sourceId: v.optional(v.string()), // knowledgeSources row that keeps this document in sync
         status: v.union(
             v.literal("uploading"),
             v.literal("processing"),
@@ -228,6 +511,92 @@ export default defineSchema({
         .index("by_status", ["organizationId", "status"])
         .index("by_agent_and_status", ["agentId", "status"]),
 
+    // Knowledge sources - where a document comes from, re-synced on a schedule
+    knowledgeSources: defineTable({
+        organizationId: v.string(),
+        agentId: v.string(),
+        name: v.string(),
+        type: v.union(
+            v.literal("url"),       // Web page, sitemap or crawl (see crawl*)
+            v.literal("drive"),     // Google Drive / Docs export link
+            v.literal("upload")     // Uploaded file - synced when a new version is uploaded
+        ),
+        url: v.optional(v.string()),
+        crawlMode: v.optional(v.string()),           // "page" | "sitemap" | "crawl"
+        maxPages: v.optional(v.number()),
+        maxDepth: v.optional(v.number()),
+        fileName: v.optional(v.string()),            // Last uploaded / exported file name
+        sourceType: v.string(),                      // "menu", "faq", "policy", etc.
+        documentId: v.string(),                      // Document kept in sync (created on first sync)
+        syncIntervalHours: v.optional(v.number()),   // Unset = manual syncs only
+        enabled: v.boolean(),                        // Scheduled syncs on/off
+        syncStatus: v.union(
+            v.literal("idle"),
+            v.literal("queued"),    // Waiting for the backend sync worker
+            v.literal("syncing")
+        ),
+        queuedTrigger: v.optional(v.union(v.literal("schedule"), v.literal("manual"))),
+        resyncRequested: v.optional(v.boolean()),    // Manual sync asked for mid-sync - re-queued when it finishes
+        nextSyncAt: v.optional(v.number()),
+        lastSyncAt: v.optional(v.number()),
+        lastSyncStatus: v.optional(v.union(v.literal("completed"), v.literal("unchanged"), v.literal("failed"))),
+        lastError: v.optional(v.string()),
+        contentHash: v.optional(v.string()),         // Hash of all chunk texts at the last successful sync
+        chunkCount: v.number(),
+        createdAt: v.number(),
+        updatedAt: v.number(),
+    })
+        .index("by_agent_id", ["agentId"])
+        .index("by_sync_status", ["syncStatus"])
+        .index("by_next_sync", ["enabled", "syncStatus", "nextSyncAt"]),
+
+    // Sync history - one row per source sync
+    sourceSyncRuns: defineTable({
+        sourceId: v.id("knowledgeSources"),
+        agentId: v.string(),
+        trigger: v.union(v.literal("schedule"), v.literal("manual"), v.literal("upload")),
+        status: v.union(
+            v.literal("running"),
+            v.literal("completed"),   // Changed chunks re-embedded
+            v.literal("unchanged"),   // Content hash matched - nothing re-embedded
+            v.literal("failed")
+        ),
+        pagesFetched: v.optional(v.number()),
+        bytes: v.optional(v.number()),
+        chunksTotal: v.optional(v.number()),
+        chunksAdded: v.optional(v.number()),
+        chunksRemoved: v.optional(v.number()),
+        chunksUnchanged: v.optional(v.number()),
+        error: v.optional(v.string()),
+        startedAt: v.number(),
+        completedAt: v.optional(v.number()),
+    })
+        .index("by_source", ["sourceId", "startedAt"]),
+
+    // Catalog items - structured menu / price list rows (exact lookups, not vector search)
+    catalogItems: defineTable({
+        organizationId: v.string(),
+        agentId: v.string(),
+        itemKey: v.string(),                         // Normalized "category|name" (upsert key)
+        name: v.string(),
+        category: v.optional(v.string()),
+        description: v.optional(v.string()),
+        price: v.optional(v.number()),               // Unset = price on request / varies by variant
+        currency: v.optional(v.string()),            // ISO code, e.g. "INR"
+        variants: v.array(v.object({
+            name: v.string(),                        // "Half", "Large", "500 ml"
+            price: v.optional(v.number()),
+        })),
+        available: v.boolean(),
+        tags: v.array(v.string()),                   // Lowercase: "vegetarian", "vegan", "spicy"...
+        attributes: v.optional(v.string()),          // JSON of extra spreadsheet columns
+        importId: v.string(),                        // Import that last wrote this row
+        createdAt: v.number(),
+        updatedAt: v.number(),
+    })
+        .index("by_agent_id", ["agentId"])
+        .index("by_agent_key", ["agentId", "itemKey"]),
+
     // Function schemas - dynamic function definitions
     functionSchemas: defineTable({
         organizationId: v.string(),
@@ -341,6 +710,7 @@ export default defineSchema({
         fileType: v.string(),               // "pdf", "docx", "xlsx", etc.
         fileSize: v.number(),               // bytes
         sourceType: v.string(),             // "menu", "faq", "policy", etc.
+        sourceUrl: v.optional(v.string()),  // Starting URL for URL ingestion
         
         // Workflow state
         stage: v.union(
@@ -444,6 +814,7 @@ export default defineSchema({
         hasCode: v.optional(v.boolean()),       // Contains code blocks
         hasTable: v.optional(v.boolean()),      // Contains tables
         hasImage: v.optional(v.boolean()),      // References images
+        language: v.optional(v.string()),       // Source language (e.g. "en-IN", "ta-IN")
         
         // Vector DB mapping
         ragEntryId: v.string(),                 // ID in @convex-dev/rag
@@ -463,7 +834,11 @@ export default defineSchema({
         .index("by_agent_id", ["agentId"])
         .index("by_rag_entry_id", ["ragEntryId"])
         .index("by_document_and_index", ["documentId", "chunkIndex"]) // Ordered retrieval
-        .index("by_access_count", ["agentId", "accessCount"]),        // Hot chunks
+        .index("by_access_count", ["agentId", "accessCount"])         // Hot chunks
+        .searchIndex("search_text", {                                 // Keyword leg of hybrid search
+            searchField: "text",
+            filterFields: ["agentId"],
+        }),
 
     // ============================================
     // TOOL MARKETPLACE & INTEGRATIONS
@@ -0,0 +1,113 @@
+/**
+ * Agent Regression Tests
+ *
+ * Runs YAML/JSON test suites (scripted text conversations) against an agent.
+ * Exits with code 1 when any test fails, so it can gate prompt changes in CI.
+ *
+ * Usage:
+ *   npx tsx scripts/run-agent-tests.ts <suite.yaml> [more suites...] [options]
+ *
+ * Options:
+ *   --agent <id>     Agent to load from Convex (overrides agent / agent_id in the suites)
+ *   --mock-llm       Use each turn's mock_llm replies instead of OpenAI
+ *   --timeout <s>    Seconds to wait for each agent reply (default 30)
+ *   --json <file>    Also write the full results as JSON
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import dotenv from 'dotenv';
+import { parseTestSuite, runTestSuite, type SuiteResult, type TestResult } from '../src/agent/testing/index.js';
+
+dotenv.config();
+
+function printTest(result: TestResult) {
+    const icon = result.passed ? '✅' : '❌';
+    console.log(`   ${icon} ${result.name} (${(result.durationMs / 1000).toFixed(1)}s)`);
+
+    if (result.error) {
+        console.log(`      Error: ${result.error}`);
+    }
+
+    result.turns.forEach((turn, index) => {
+        if (turn.failures.length === 0) return;
+        console.log(`      Turn ${index + 1}: "${turn.user}"`);
+        for (const failure of turn.failures) {
+            console.log(`        - ${failure}`);
+        }
+        if (turn.replies.length > 0) {
+            console.log(`        Agent said: "${turn.replies.join(' ')}"`);
+        }
+    });
+}
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            agent: { type: 'string' },
+            'mock-llm': { type: 'boolean', default: false },
+            timeout: { type: 'string' },
+            json: { type: 'string' },
+        },
+    });
+
+    if (positionals.length === 0) {
+        console.error('\n❌ No test suite given!\n');
+        console.error('Usage:');
+        console.error('  npx tsx scripts/run-agent-tests.ts <suite.yaml> [--agent <id>] [--mock-llm] [--timeout <s>] [--json <file>]\n');
+        process.exit(1);
+    }
+
+    console.log('╔════════════════════════════════════════════════════════════════╗');
+    console.log('║           🧪 Agent Regression Tests                            ║');
+    console.log('╚════════════════════════════════════════════════════════════════╝\n');
+
+    const results: SuiteResult[] = [];
+    let invalidSuites = 0;
+
+    for (const file of positionals) {
+        const { suite, errors } = parseTestSuite(await readFile(file, 'utf-8'));
+        if (!suite) {
+            invalidSuites++;
+            console.error(`❌ ${file} is not a valid test suite:`);
+            errors.forEach(error => console.error(`   - ${error}`));
+            console.log('');
+            continue;
+        }
+
+        console.log(`📋 ${suite.name} (${file})`);
+        try {
+            const result = await runTestSuite(suite, {
+                agentId: values.agent,
+                mockLlm: values['mock-llm'],
+                turnTimeoutMs: values.timeout ? parseFloat(values.timeout) * 1000 : undefined,
+                onTestComplete: printTest,
+            });
+            results.push(result);
+            console.log(`   ${result.total - result.failed}/${result.total} passed (agent ${result.agentId}, LLM ${result.llm})\n`);
+        } catch (error) {
+            invalidSuites++;
+            console.error(`   ❌ ${(error as Error).message}\n`);
+        }
+    }
+
+    if (values.json) {
+        await writeFile(values.json, JSON.stringify(results, null, 2));
+        console.log(`📝 Results written to ${values.json}`);
+    }
+
+    const total = results.reduce((sum, r) => sum + r.total, 0);
+    const failed = results.reduce((sum, r) => sum + r.failed, 0);
+
+    console.log('═══════════════════════════════════════════════════════════════');
+    console.log(`   ${failed === 0 && invalidSuites === 0 ? '✅' : '❌'} ${total - failed}/${total} tests passed${invalidSuites ? `, ${invalidSuites} suite(s) could not run` : ''}`);
+    console.log('═══════════════════════════════════════════════════════════════\n');
+
+    process.exit(failed === 0 && invalidSuites === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+    console.error('Unexpected error:', error);
+    process.exit(1);
+});
@@ -0,0 +1,117 @@
+/**
+ * Voice End-to-End Tests
+ *
+ * Calls a running agent worker with a simulated caller over LiveKit and checks
+ * the transcribed replies, response latency and barge-in handling. Start a
+ * local server (livekit-server --dev) and the worker (npm run dev) first.
+ * Exits with code 1 when any scenario fails.
+ *
+ * Usage:
+ *   npx tsx scripts/run-voice-tests.ts <scenario.yaml> [more scenarios...] [options]
+ *
+ * Options:
+ *   --agent <id>     Agent to call (overrides agent_id in the scenarios)
+ *   --url <ws-url>   LiveKit server (default: scenario livekit_url, then LIVEKIT_URL)
+ *   --timeout <s>    Seconds to wait for the agent to start replying (default 15)
+ *   --json <file>    Also write the full results as JSON
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { parseArgs } from 'node:util';
+import dotenv from 'dotenv';
+import { parseVoiceScenario, runVoiceScenario, type VoiceScenarioResult, type VoiceStepResult } from '../src/agent/testing/index.js';
+
+dotenv.config();
+
+function printStep(result: VoiceStepResult, index: number) {
+    const icon = result.failures.length === 0 ? '✅' : '❌';
+    const label = result.action === 'listen' ? 'listen' : `${result.action} "${result.input}"`;
+    const timings = [
+        result.latencyMs !== undefined ? `reply ${result.latencyMs}ms` : null,
+        result.interruptMs !== undefined ? `stopped ${result.interruptMs}ms after barge-in` : null,
+    ].filter(Boolean).join(', ');
+
+    console.log(`   ${icon} Step ${index + 1}: ${label}${timings ? ` (${timings})` : ''}`);
+    if (result.transcript) {
+        console.log(`      Agent said: "${result.transcript}"`);
+    }
+    for (const failure of result.failures) {
+        console.log(`        - ${failure}`);
+    }
+}
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            agent: { type: 'string' },
+            url: { type: 'string' },
+            timeout: { type: 'string' },
+            json: { type: 'string' },
+        },
+    });
+
+    if (positionals.length === 0) {
+        console.error('\n❌ No scenario given!\n');
+        console.error('Usage:');
+        console.error('  npx tsx scripts/run-voice-tests.ts <scenario.yaml> [--agent <id>] [--url <ws-url>] [--timeout <s>] [--json <file>]\n');
+        process.exit(1);
+    }
+
+    console.log('╔════════════════════════════════════════════════════════════════╗');
+    console.log('║           📞 Voice End-to-End Tests                            ║');
+    console.log('╚════════════════════════════════════════════════════════════════╝\n');
+
+    const results: VoiceScenarioResult[] = [];
+    let invalidScenarios = 0;
+
+    for (const file of positionals) {
+        const { scenario, errors } = parseVoiceScenario(await readFile(file, 'utf-8'));
+        if (!scenario) {
+            invalidScenarios++;
+            console.error(`❌ ${file} is not a valid voice scenario:`);
+            errors.forEach(error => console.error(`   - ${error}`));
+            console.log('');
+            continue;
+        }
+
+        console.log(`📋 ${scenario.name} (${file})`);
+        let stepIndex = 0;
+        try {
+            const result = await runVoiceScenario(scenario, {
+                agentId: values.agent,
+                livekitUrl: values.url,
+                baseDir: dirname(file),
+                stepTimeoutMs: values.timeout ? parseFloat(values.timeout) * 1000 : undefined,
+                onStepComplete: step => printStep(step, stepIndex++),
+            });
+            results.push(result);
+            if (result.error) {
+                console.log(`   ❌ ${result.error}`);
+            }
+            console.log(`   ${result.passed ? 'Passed' : 'Failed'} in ${(result.durationMs / 1000).toFixed(1)}s (room ${result.roomName})\n`);
+        } catch (error) {
+            invalidScenarios++;
+            console.error(`   ❌ ${(error as Error).message}\n`);
+        }
+    }
+
+    if (values.json) {
+        await writeFile(values.json, JSON.stringify(results, null, 2));
+        console.log(`📝 Results written to ${values.json}`);
+    }
+
+    const failed = results.filter(r => !r.passed).length;
+
+    console.log('═══════════════════════════════════════════════════════════════');
+    console.log(`   ${failed === 0 && invalidScenarios === 0 ? '✅' : '❌'} ${results.length - failed}/${results.length} scenarios passed${invalidScenarios ? `, ${invalidScenarios} could not run` : ''}`);
+    console.log('═══════════════════════════════════════════════════════════════\n');
+
+    process.exit(failed === 0 && invalidScenarios === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+    console.error('Unexpected error:', error);
+    process.exit(1);
+});
@@ -0,0 +1,230 @@
+/**
+ * Field Collector - tracks the caller details an agent must collect (config.fields)
+ *
+ * The LLM records each value with record_field as the caller gives it. Values are
+ * parsed and validated (see services/agent-fields), and critical ones are read back
+ * and only count once the caller confirms them with confirm_field. Every LLM step
+ * is told which fields are still missing, so the agent asks for them before the
+ * call ends. The validated record is saved on the call session and handed to
+ * call_ended integrations.
+ * @module agent/field-collector
+ */
+
+import { llm } from '@livekit/agents';
+import { logger } from '../core/logging.js';
+import { getConvexClient, isConvexConfigured } from '../core/convex-client.js';
+import {
+  formatFieldForReadBack,
+  needsConfirmation,
+  parseFieldValue,
+  type FieldDefinition,
+  type FieldValue,
+} from '../services/agent-fields.js';
+import type { ToolExecutionContext, ToolResult } from '../services/tool-handlers.js';
+
+export const RECORD_FIELD_TOOL = 'record_field';
+export const CONFIRM_FIELD_TOOL = 'confirm_field';
+
+/**
+ * A value collected during the call
+ */
+export interface CollectedField {
+  name: string;
+  value: FieldValue;
+  /** False while waiting for the caller to confirm the read-back */
+  confirmed: boolean;
+  collectedAt: number;
+}
+
+export class FieldCollector {
+  private readonly values = new Map<string, CollectedField>();
+
+  /**
+   * @param tools - The agent's tools; record_field and confirm_field are added
+   * @param carried - Values collected by a previous agent on the same call (handoffs)
+   */
+  constructor(
+    private readonly fields: FieldDefinition[],
+    private context: ToolExecutionContext,
+    tools: llm.ToolContext,
+    carried: CollectedField[] = []
+  ) {
+    for (const value of carried) {
+      this.values.set(value.name, value);
+    }
+    if (fields.length > 0) {
+      tools[RECORD_FIELD_TOOL] = this.createRecordFieldTool();
+      tools[CONFIRM_FIELD_TOOL] = this.createConfirmFieldTool();
+    }
+  }
+
+  /** All values collected so far, including unconfirmed ones */
+  get collected(): CollectedField[] {
+    return [...this.values.values()];
+  }
+
+  /** Confirmed values by field name - what integrations receive */
+  get record(): Record<string, FieldValue> {
+    return Object.fromEntries(
+      this.collected.filter(field => field.confirmed).map(field => [field.name, field.value])
+    );
+  }
+
+  /** Required fields with no confirmed value yet */
+  get missing(): FieldDefinition[] {
+    return this.fields.filter(field => field.required !== false && !this.values.get(field.name)?.confirmed);
+  }
+
+  /**
+   * System message listing what is collected, what needs confirming and what is still missing
+   * @returns null when the agent has no fields
+   */
+  instructions(): string | null {
+    if (this.fields.length === 0) return null;
+
+    const lines = [
+      '## Caller details',
+      `Collect these details during the conversation, one at a time. Call ${RECORD_FIELD_TOOL} as soon as the caller gives one.`,
+    ];
+    const describe = (field: FieldDefinition) => field.description ? `${field.name} (${field.description})` : field.name;
+
+    const unconfirmed = this.fields.filter(field => this.values.get(field.name)?.confirmed === false);
+    for (const field of unconfirmed) {
+      const value = this.values.get(field.name)!.value;
+      lines.push(
+        `Confirm ${field.name}: read "${formatFieldForReadBack(field, value)}" back to the caller and ` +
+        `call ${CONFIRM_FIELD_TOOL} with whether they agreed.`
+      );
+    }
+
+    const missing = this.missing.filter(field => !this.values.has(field.name));
+    if (missing.length > 0) {
+      lines.push(`Still needed: ${missing.map(describe).join('; ')}.`);
+    }
+
+    const optional = this.fields.filter(field => field.required === false && !this.values.has(field.name));
+    if (optional.length > 0) {
+      lines.push(`Ask if it fits naturally: ${optional.map(describe).join('; ')}.`);
+    }
+
+    const confirmed = this.collected.filter(field => field.confirmed);
+    if (confirmed.length > 0) {
+      lines.push(`Already collected (do not ask again): ${confirmed.map(f => `${f.name}: ${f.value}`).join(', ')}.`);
+    }
+
+    if (this.missing.length > 0) {
+      lines.push('Do not end the call until the required details are collected, unless the caller refuses or asks to hang up.');
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Save the collected values on the call session
+   */
+  async save(): Promise<void> {
+    if (this.values.size === 0 || !isConvexConfigured()) return;
+
+    await getConvexClient().mutation('callSessions:saveCollectedFields', {
+      sessionId: this.context.sessionId,
+      fields: this.collected,
+    });
+  }
+
+  private findField(name: string): FieldDefinition | undefined {
+    return this.fields.find(field => field.name === name);
+  }
+
+  private createRecordFieldTool(): llm.FunctionTool<{ field: string; value: string }, any, ToolResult> {
+    return llm.tool({
+      description: 'Record a detail the caller just gave (validated, and read back for confirmation when needed).',
+      parameters: {
+        type: 'object',
+        properties: {
+          field: {
+            type: 'string',
+            enum: this.fields.map(field => field.name),
+            description: 'Which detail this is',
+          },
+          value: {
+            type: 'string',
+            description: 'The value exactly as the caller said it (digits or words, any language)',
+          },
+        },
+        required: ['field', 'value'],
+      } as any,
+      execute: async (args) => this.recordField(args.field, args.value),
+    });
+  }
+
+  private createConfirmFieldTool(): llm.FunctionTool<{ field: string; confirmed: boolean }, any, ToolResult> {
+    return llm.tool({
+      description: 'Record whether the caller confirmed a detail you read back to them.',
+      parameters: {
+        type: 'object',
+        properties: {
+          field: {
+            type: 'string',
+            enum: this.fields.map(field => field.name),
+          },
+          confirmed: {
+            type: 'boolean',
+            description: 'true if the caller said it is correct',
+          },
+        },
+        required: ['field', 'confirmed'],
+      } as any,
+      execute: async (args) => this.confirmField(args.field, args.confirmed),
+    });
+  }
+
+  private async recordField(name: string, raw: string): Promise<ToolResult> {
+    const field = this.findField(name);
+    if (!field) {
+      return { success: false, error: `Unknown field: ${name}` };
+    }
+
+    const { value, error } = parseFieldValue(field, raw);
+    const confirm = needsConfirmation(field);
+    await this.log(RECORD_FIELD_TOOL, { field: name, value: raw }, error ? { status: 'invalid', error } : { status: 'recorded', value });
+
+    if (error) {
+      return { success: false, error: `${error}. Ask the caller again.` };
+    }
+
+    this.values.set(name, { name, value, confirmed: !confirm, collectedAt: Date.now() });
+    return {
+      success: true,
+      result: confirm
+        ? `Read it back to the caller as "${formatFieldForReadBack(field, value)}" and ask if it is correct.`
+        : `Recorded ${name}.`,
+    };
+  }
+
+  private async confirmField(name: string, confirmed: boolean): Promise<ToolResult> {
+    const field = this.findField(name);
+    const current = this.values.get(name);
+    if (!field || !current) {
+      return { success: false, error: `Nothing recorded for ${name} yet` };
+    }
+
+    await this.log(CONFIRM_FIELD_TOOL, { field: name, confirmed }, { status: confirmed ? 'confirmed' : 'rejected', value: current.value });
+
+    if (!confirmed) {
+      this.values.delete(name);
+      return { success: true, result: `Ask the caller for ${name} again.` };
+    }
+    current.confirmed = true;
+    return { success: true, result: `${name} confirmed.` };
+  }
+
+  private async log(tool: string, params: Record<string, unknown>, result: Record<string, unknown>): Promise<void> {
+    await this.context.callTracker.logFunctionCall(
+      this.context.sessionId,
+      this.context.organizationId,
+      tool,
+      params,
+      result,
+      { latencyMs: 0 }
+    ).catch(error => logger.debug('Failed to log field collection', { error: (error as Error).message }));
+  }
+}
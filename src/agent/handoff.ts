@@ -0,0 +1,241 @@
+/**
+ * Agent Handoff - passes a live call from one AI agent to another
+ *
+ * Used by the handoff_to_agent tool (targets come from the current agent's
+ * config.handoffTargets) and by the IVR agent menu. The next agent is built
+ * the same way as the one that answered: its own prompt, tools, workflow,
+ * greeting and knowledge namespace. It takes on that agent's languages and
+ * voice, and starts with a copy of the conversation so far and the caller
+ * details already collected. Each hop is
+ * recorded on the call session (callSessions.agentHandoffs).
+ * @module agent/handoff
+ */
+
+import type { llm, voice } from '@livekit/agents';
+import { logger } from '../core/logging.js';
+import { getConvexClient, isConvexConfigured } from '../core/convex-client.js';
+import { getAgentConfigService, type AgentConfigData } from '../services/agent-config.js';
+import { getFunctionGenerator } from '../services/function-generator.js';
+import { renderPromptTemplate, type PromptVariables } from '../services/prompt-template.js';
+import {
+  buildToolContext,
+  createMinimalToolContext,
+  type HandoffCallbackFn,
+  type ToolExecutionContext,
+} from '../services/tool-handlers.js';
+import { VoiceKnowledgeService } from '../services/voice-knowledge.js';
+import { injectDateTimeIntoPrompt } from './room-utils.js';
+import { VoiceAssistant } from './voice-assistant.js';
+import { WorkflowRunner } from './workflow-runner.js';
+import { FieldCollector } from './field-collector.js';
+import type { LanguageSwitcher } from './language-switcher.js';
+import type { AgentContext } from './types.js';
+
+/**
+ * Guards against agents handing a call back and forth forever
+ */
+const MAX_HANDOFFS_PER_CALL = 5;
+
+export type HandoffSource = 'tool' | 'ivr';
+
+/** One hop in the call's agent chain */
+export interface AgentHop {
+  fromAgentId: string;
+  toAgentId: string;
+  source: HandoffSource;
+  reason?: string;
+  at: number;
+}
+
+export interface AgentHandoffOptions {
+  session: voice.AgentSession;
+  /** Context of the agent that answered (shared call services and telephony state) */
+  agentContext: AgentContext;
+  /** Tool context of the agent that answered (shared callbacks) */
+  toolContext: ToolExecutionContext;
+  /** Per-call template variables (they can change once the caller joins) */
+  getPromptVariables: () => PromptVariables;
+  /** TTS provider of the call - other agents' voices only apply on the same engine */
+  ttsProvider: string;
+  /** Follows the next agent's languages and voice (voice calls only) */
+  languageSwitcher?: LanguageSwitcher;
+  /** Adjust each next agent's tools before use (agent tests apply their tool mocks) */
+  prepareTools?: (tools: llm.ToolContext, agentId: string) => void;
+  getAgent: () => VoiceAssistant | null;
+  setAgent: (agent: VoiceAssistant) => void;
+}
+
+export class AgentHandoff {
+  private readonly hops: AgentHop[] = [];
+  private currentAgentId: string;
+  private currentAgentName: string;
+
+  constructor(private options: AgentHandoffOptions) {
+    this.currentAgentId = options.agentContext.agentId;
+    this.currentAgentName = options.agentContext.agentName;
+  }
+
+  /** Agents the call has been with, in order (starting with the one that answered) */
+  get chain(): string[] {
+    return [this.options.agentContext.agentId, ...this.hops.map(hop => hop.toAgentId)];
+  }
+
+  /**
+   * Handoff callback for the tool context
+   * The tool returns the prepared agent as llm.handoff, and the session switches to it after the tool call.
+   */
+  getHandoffCallback(): HandoffCallbackFn {
+    return (targetAgentId: string, reason?: string) => this.prepare(targetAgentId, 'tool', reason);
+  }
+
+  /**
+   * Switch to another agent right away (IVR agent menu)
+   * @returns true when the call was handed off
+   */
+  async switchTo(targetAgentId: string, source: HandoffSource, reason?: string): Promise<boolean> {
+    const { agent } = await this.prepare(targetAgentId, source, reason);
+    if (!agent) return false;
+
+    this.options.session.updateAgent(agent);
+    return true;
+  }
+
+  /**
+   * Build the next agent and make it the call's current agent
+   */
+  private async prepare(
+    targetAgentId: string,
+    source: HandoffSource,
+    reason?: string
+  ): Promise<{ agent?: VoiceAssistant; error?: string }> {
+    const { agentContext, toolContext } = this.options;
+    const { organizationId, sessionId } = agentContext;
+
+    if (targetAgentId === this.currentAgentId) {
+      return { error: 'The caller is already talking to that assistant' };
+    }
+    if (this.hops.length >= MAX_HANDOFFS_PER_CALL) {
+      logger.warning('Handoff limit reached', { sessionId, chain: this.chain });
+      return { error: 'This call has been handed over too many times' };
+    }
+
+    const agentConfigService = getAgentConfigService();
+    const [targetConfig, targetPrompt] = await Promise.all([
+      agentConfigService.loadAgentConfig(targetAgentId).catch(() => null),
+      agentConfigService.getCachedFullPrompt(targetAgentId).catch(() => null),
+    ]);
+
+    if (!targetConfig || !targetPrompt?.prompt || targetConfig.organizationId !== organizationId) {
+      logger.warning('Handoff target agent unavailable', { targetAgentId, source, sessionId });
+      return { error: 'That assistant is not available' };
+    }
+
+    const promptVariables = this.options.getPromptVariables();
+    const render = (template: string) => renderPromptTemplate(template, promptVariables).text;
+
+    const targetKnowledge = new VoiceKnowledgeService(organizationId, targetAgentId, targetConfig.rag);
+    const { languageSwitcher } = this.options;
+    targetKnowledge.setCallerLanguage(() => languageSwitcher?.language ?? targetConfig.language);
+    const targetFunctions = getFunctionGenerator().generateFunctions(targetConfig, {
+      includeDefaults: true,
+      includeKnowledgeSearch: true,
+    });
+    const targetToolContext: ToolExecutionContext = {
+      ...toolContext,
+      agentId: targetAgentId,
+      knowledgeService: targetKnowledge,
+      transferDirectory: targetConfig.transferDirectory,
+      handoffTargets: targetConfig.handoffTargets,
+    };
+    const targetTools = targetFunctions.length > 0
+      ? buildToolContext(targetFunctions, targetToolContext)
+      : createMinimalToolContext(targetToolContext);
+    this.options.prepareTools?.(targetTools, targetAgentId);
+
+    const targetName = targetConfig.name || agentContext.agentName;
+    const current = this.options.getAgent();
+    // Details the caller already gave stay with the call
+    const collectedFields = current?.collectedFields || [];
+    const targetAssistant = new VoiceAssistant(
+      injectDateTimeIntoPrompt(render(targetPrompt.prompt)),
+      targetTools,
+      {
+        ...agentContext,
+        agentId: targetAgentId,
+        agentName: targetName,
+        greeting: targetConfig.greeting ? render(targetConfig.greeting) : agentContext.greeting,
+        farewell: targetConfig.farewell ? render(targetConfig.farewell) : agentContext.farewell,
+        knowledgeService: targetKnowledge,
+        functions: targetFunctions,
+        ivr: undefined,
+        workflow: targetConfig.workflow
+          ? new WorkflowRunner(targetConfig.workflow, targetToolContext, targetTools)
+          : undefined,
+        fieldCollector: targetConfig.fields || collectedFields.length > 0
+          ? new FieldCollector(targetConfig.fields || [], targetToolContext, targetTools, collectedFields)
+          : undefined,
+        handoffFrom: this.currentAgentId,
+        handoffInstructions: source === 'tool'
+          ? `You have just taken over this call from ${this.currentAgentName}` +
+            (reason ? `, who passed it on because: ${reason}.` : '.') +
+            ' Briefly introduce yourself and continue helping the caller. Do not ask again for anything they already told you.'
+          : undefined,
+      },
+      // Keep the conversation so far (the new agent's own instructions replace the old ones)
+      current?.chatCtx.copy({ excludeInstructions: true })
+    );
+
+    const hop: AgentHop = { fromAgentId: this.currentAgentId, toAgentId: targetAgentId, source, reason, at: Date.now() };
+    current?.markHandoff();
+    this.options.setAgent(targetAssistant);
+    this.hops.push(hop);
+    this.currentAgentId = targetAgentId;
+    this.currentAgentName = targetName;
+
+    logger.info('Call handed to agent', { from: hop.fromAgentId, to: targetAgentId, source, reason, sessionId, chain: this.chain });
+
+    await this.adoptVoice(targetConfig);
+    this.recordHop(hop);
+
+    return { agent: targetAssistant };
+  }
+
+  /**
+   * Switch TTS voice and languages to the next agent's
+   * (the STT/TTS engines stay the same for the whole call)
+   */
+  private async adoptVoice(targetConfig: AgentConfigData): Promise<void> {
+    const { languageSwitcher, ttsProvider } = this.options;
+    if (!languageSwitcher) return;
+
+    const targetProvider = targetConfig.tts?.provider || 'sarvam';
+    const sameEngine = targetProvider === ttsProvider;
+    if (!sameEngine) {
+      logger.info('Handoff target uses another TTS engine - keeping the current voice', {
+        callProvider: ttsProvider,
+        targetProvider,
+      });
+    }
+
+    try {
+      await languageSwitcher.adopt({
+        language: targetConfig.language,
+        allowedLanguages: targetConfig.supportedLanguages || [targetConfig.language],
+        voices: sameEngine ? targetConfig.languageVoices : undefined,
+        defaultVoice: sameEngine
+          ? targetConfig.tts?.voice || (targetProvider === 'sarvam' ? targetConfig.rawConfig?.voice : undefined)
+          : undefined,
+      });
+    } catch (error) {
+      logger.error('Failed to switch voice for handoff', { error: (error as Error).message });
+    }
+  }
+
+  private recordHop(hop: AgentHop): void {
+    const { sessionId, textMode } = this.options.agentContext;
+    if (textMode || !isConvexConfigured()) return;
+
+    getConvexClient().mutation('callSessions:recordAgentHandoff', { sessionId, handoff: hop })
+      .catch(error => logger.error('Failed to record agent handoff', { error: (error as Error).message, sessionId }));
+  }
+}
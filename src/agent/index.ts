@@ -36,18 +36,34 @@ import { createPluginsFromAgentConfig } from '../plugins/index.js';
 import { SessionService } from '../services/session.js';
 import { CallTrackingService } from '../services/call-tracking.js';
 import { VoiceKnowledgeService } from '../services/voice-knowledge.js';
-import { getAgentConfigService } from '../services/agent-config.js';
+import { getAgentConfigService, getLanguageName } from '../services/agent-config.js';
 import { getFunctionGenerator } from '../services/function-generator.js';
-import { buildToolContext, createMinimalToolContext, ToolExecutionContext } from '../services/tool-handlers.js';
+import { getCallLimitService } from '../services/call-limits.js';
+import { getCallRecordingService, type ActiveRecording } from '../services/call-recording.js';
+import { recoverOrphanedCalls } from '../services/call-recovery.js';
+import { CatalogLookup } from '../services/catalog/index.js';
+import {
+  buildPromptVariables,
+  describePromptVariables,
+  hasPromptVariables,
+  parseCallMetadata,
+  renderPromptTemplate,
+} from '../services/prompt-template.js';
+import { buildToolContext, createMinimalToolContext, executeTransfer, ToolExecutionContext } from '../services/tool-handlers.js';
 import { CallType } from '../models/session.js';
 
 // Telephony
-import { createLatencyTracker, LatencyOperation } from '../telephony/index.js';
+import { createLatencyTracker, createDTMFHandler, LatencyOperation } from '../telephony/index.js';
 
 // Agent modules
 import { VAD_CONFIG, VOICE_OPTIONS, CONNECTION_OPTIONS, DEFAULT_AGENT, PREWARM_PHRASES } from './config.js';
 import { extractRoomContext, processParticipantContext, injectDateTimeIntoPrompt } from './room-utils.js';
 import { VoiceAssistant, activeSessions } from './voice-assistant.js';
+import { LanguageSwitcher } from './language-switcher.js';
+import { SupervisorControl } from './supervisor.js';
+import { AgentHandoff } from './handoff.js';
+import { WorkflowRunner } from './workflow-runner.js';
+import { FieldCollector } from './field-collector.js';
 import type { AgentContext } from './types.js';
 
 dotenv.config();
@@ -102,6 +118,11 @@ if (!isJobSubprocess) {
   const healthPort = parseInt(process.env.HEALTH_PORT || '8080', 10);
   healthServer = startHealthServer(healthPort);
 
+  // Replay spools and fail calls left 'active' by a previous crash
+  recoverOrphanedCalls().catch(error => {
+    logger.error('Call recovery failed', { error: (error as Error).message });
+  });
+
   onShutdown(async () => {
     if (healthServer) await stopHealthServer(healthServer);
   });
@@ -147,6 +168,7 @@ export default defineAgent({
     const functionGenerator = getFunctionGenerator();
     const agentConfigService = getAgentConfigService();
     const knowledgeService = new VoiceKnowledgeService(organizationId, agentId);
+    const catalog = new CatalogLookup(agentId);
 
     // Parallel initialization
     const [session, agentConfig] = await Promise.all([
@@ -160,11 +182,13 @@ export default defineAgent({
       }),
       agentConfigService.loadAgentConfig(agentId).catch(() => null),
       knowledgeService.warmupNamespace().catch(() => null),
+      // Loaded up front so catalog lookups are answered without a round trip
+      catalog.load().catch(() => 0),
     ]);
 
     // Process agent config
     let agentName = DEFAULT_AGENT.name;
-    let greeting = DEFAULT_AGENT.greeting;
+    let greeting: string = DEFAULT_AGENT.greeting;
     let farewell = 'Thank you for calling! Have a great day!';
     let functions: any[] = [];
     let agentLanguage = config.sarvam.language;
@@ -192,6 +216,7 @@ export default defineAgent({
       // Use voice from rawConfig (stored as JSON in config column)
       agentVoice = agentConfig.rawConfig?.voice || agentVoice;
       agentPace = agentConfig.rawConfig?.pace || agentPace;
+      knowledgeService.setRagConfig(agentConfig.rag ?? {});
 
       functions = functionGenerator.generateFunctions(agentConfig, {
         includeDefaults: true,
@@ -211,6 +236,19 @@ export default defineAgent({
       throw new Error(`Agent ${agentId} not found. Please configure the agent in the database.`);
     }
 
+    // Enforce per-agent call limits (no-op if the dispatch webhook already holds this room's slot)
+    const callLimits = getCallLimitService();
+    const slotParams = {
+      agentId,
+      organizationId,
+      slotKey: roomName,
+      direction: isSIPRoom ? 'inbound' as const : 'web' as const,
+    };
+    const admission = await callLimits.acquireSlot(slotParams);
+    ctx.addShutdownCallback(async () => {
+      await callLimits.releaseSlot(roomName);
+    });
+
     // Get system prompt - agent MUST have a prompt configured
     const promptResult = await agentConfigService.getCachedFullPrompt(agentId);
     if (!promptResult.prompt) {
@@ -225,7 +263,24 @@ export default defineAgent({
       promptPreview: promptResult.prompt.substring(0, 100) + '...',
     });
 
-    const systemPrompt = injectDateTimeIntoPrompt(promptResult.prompt);
+    // Per-call template variables ({{customer.name}}) - outbound calls carry them in room metadata
+    const roomMetadata = parseCallMetadata(ctx.job.room?.metadata);
+    let promptVariables = buildPromptVariables(roomMetadata);
+    const greetingTemplate = greeting;
+    const renderedPrompt = renderPromptTemplate(promptResult.prompt, promptVariables);
+    const renderedGreeting = renderPromptTemplate(greetingTemplate, promptVariables);
+    greeting = renderedGreeting.text;
+    farewell = renderPromptTemplate(farewell, promptVariables).text;
+
+    if (renderedPrompt.missing.length > 0 || renderedGreeting.missing.length > 0) {
+      logger.warning('Prompt template variables missing for this call', {
+        prompt: renderedPrompt.missing,
+        greeting: renderedGreeting.missing,
+        sessionId: session.sessionId,
+      });
+    }
+
+    const systemPrompt = injectDateTimeIntoPrompt(renderedPrompt.text);
 
     // Create metrics collector
     const metricsCollector = new TurnMetricsCollector(session.sessionId, {
@@ -251,8 +306,46 @@ export default defineAgent({
       isTelephony: isSIPRoom,
     };
 
+    // Over the limit but not rejected upstream - the assistant tells the caller (and may queue them)
+    if (!admission.allowed) {
+      agentContext.overLimit = {
+        behavior: admission.behavior || 'busy_message',
+        message: admission.message || 'All our agents are busy right now. Please call back in a little while.',
+        maxQueueWaitSeconds: admission.maxQueueWaitSeconds ?? 120,
+        waitForSlot: () => callLimits.waitForSlot(slotParams, admission.maxQueueWaitSeconds ?? 120),
+        recordRejection: () => callLimits.recordRejection(agentId, organizationId),
+      };
+    }
+
+    // Recorded agents announce the recording before the greeting; egress stops with the call
+    if (agentConfig.recording?.enabled) {
+      const recordingService = getCallRecordingService();
+      let activeRecording: ActiveRecording | null = null;
+
+      agentContext.recording = {
+        consentMessage: agentConfig.recording.consentMessage || config.recording.consentMessage,
+        start: async () => {
+          activeRecording = await recordingService.startRecording({
+            roomName,
+            sessionId: session.sessionId,
+            organizationId,
+            retentionDays: agentConfig.recording?.retentionDays,
+          });
+          return activeRecording !== null;
+        },
+      };
+      ctx.addShutdownCallback(async () => {
+        if (activeRecording) await recordingService.stopRecording(session.sessionId, activeRecording);
+      });
+    }
+
     // Create a mutable reference for the assistant (set after creation)
     let assistantRef: VoiceAssistant | null = null;
+    // Hands the call to other agents (created with the voice session)
+    let agentHandoff: AgentHandoff | null = null;
+
+    // Keypad input is only possible on SIP calls
+    const dtmfHandler = isSIPRoom ? createDTMFHandler() : undefined;
 
     // Build tool context with deferred shutdown callback
     const toolExecutionContext: ToolExecutionContext = {
@@ -264,6 +357,14 @@ export default defineAgent({
       callTracker,
       // Deferred getter - returns the shutdown callback when the assistant is ready
       getShutdownCallback: () => assistantRef?.getShutdownCallback(),
+      roomName,
+      transferDirectory: agentConfig?.transferDirectory,
+      getSipParticipantIdentity: () => agentContext.sipParticipantIdentity,
+      getSpeakCallback: () => assistantRef?.getSpeakCallback(),
+      dtmfHandler,
+      handoffTargets: agentConfig?.handoffTargets,
+      getHandoffCallback: () => agentHandoff?.getHandoffCallback(),
+      catalog: catalog.size > 0 ? catalog : undefined,
     };
 
     // Build tools first
@@ -271,6 +372,16 @@ export default defineAgent({
       ? buildToolContext(functions, toolExecutionContext)
       : createMinimalToolContext(toolExecutionContext);
 
+    // Agents with a workflow walk it step by step (adds record_answer to the tools)
+    if (agentConfig?.workflow) {
+      agentContext.workflow = new WorkflowRunner(agentConfig.workflow, toolExecutionContext, tools);
+    }
+
+    // Agents with fields collect and confirm them (adds record_field and confirm_field)
+    if (agentConfig?.fields) {
+      agentContext.fieldCollector = new FieldCollector(agentConfig.fields, toolExecutionContext, tools);
+    }
+
     // Create assistant with tools
     const assistant = new VoiceAssistant(systemPrompt, tools, agentContext);
     
@@ -278,20 +389,72 @@ export default defineAgent({
     assistantRef = assistant;
 
     // Initialize plugins using agent-specific configuration (voice, pace, language from database)
+    // config.tts picks the engine + voice; the legacy config.voice/pace apply to Sarvam
+    const ttsSettings = agentConfig?.tts;
+    const usesSarvamTts = !ttsSettings || ttsSettings.provider === 'sarvam';
+    if (ttsSettings?.voice) agentVoice = ttsSettings.voice;
+    else if (!usesSarvamTts) agentVoice = '(provider default)';
+
+    // Agents with several allowed languages let the STT identify each utterance's language
+    const supportedLanguages = agentConfig?.supportedLanguages || [agentLanguage];
+    const detectLanguage = supportedLanguages.some(language => language !== agentLanguage);
+    const pluginVoice = usesSarvamTts || ttsSettings?.voice ? agentVoice : undefined;
+
     const plugins = createPluginsFromAgentConfig({
       language: agentLanguage,
-      voice: agentVoice,
-      pace: agentPace,
+      detectLanguage,
+      voice: pluginVoice,
+      pace: usesSarvamTts ? agentPace : agentConfig?.rawConfig?.pace,
+      sttProvider: agentConfig?.stt?.provider,
+      sttModel: agentConfig?.stt?.model,
+      sttBaseUrl: agentConfig?.stt?.baseUrl,
+      ttsProvider: ttsSettings?.provider,
+      ttsModel: ttsSettings?.model,
+      ttsBaseUrl: ttsSettings?.baseUrl,
+      ttsResponseFormat: ttsSettings?.responseFormat,
+      ttsSampleRate: ttsSettings?.sampleRate,
+      vad: sileroVad,
+      // Provider outages switch to fallbacks mid-call; each switch lands in callMetrics
+      onFailover: (event) => {
+        callTracker.logFailover(session.sessionId, organizationId, event, { agentId })
+          .catch(err => logger.error('Failed to record failover', { error: err.message }));
+      },
     });
 
-    logger.info(`🎤 TTS configured: Voice=${agentVoice}, Pace=${agentPace}, Language=${agentLanguage}`);
+    logger.info(`🎤 TTS configured: Provider=${ttsSettings?.provider || 'sarvam'}, Voice=${agentVoice}, Pace=${agentPace}, Language=${agentLanguage}`);
+
+    // Follows the caller between allowed languages (and the IVR language menu)
+    const languageSwitcher = new LanguageSwitcher({
+      language: agentLanguage,
+      allowedLanguages: supportedLanguages,
+      stt: plugins.stt,
+      tts: plugins.tts,
+      voices: agentConfig?.languageVoices,
+      defaultVoice: pluginVoice,
+      onSwitch: async (_from, to, source) => {
+        if (!assistantRef) return;
+
+        // Tell the LLM so replies follow the caller
+        const chatCtx = assistantRef.chatCtx.copy();
+        chatCtx.addMessage({
+          role: 'system',
+          content: source === 'ivr'
+            ? `The caller selected ${getLanguageName(to)} from the phone menu. Respond only in ${getLanguageName(to)} from now on.`
+            : source === 'handoff'
+              ? `Respond in ${getLanguageName(to)}.`
+              : `The caller is now speaking ${getLanguageName(to)}. Respond in ${getLanguageName(to)} from now on.`,
+        });
+        await assistantRef.updateChatCtx(chatCtx);
+      },
+    });
+    knowledgeService.setCallerLanguage(() => languageSwitcher.language);
 
     // Setup TTS callback for response capture
     if (plugins.tts.setOnTextSynthesized) {
       plugins.tts.setOnTextSynthesized((text: string) => {
         if (text?.trim()) {
           metricsCollector.recordAgentResponse(text);
-          callTracker.logAgentResponse(session.sessionId, organizationId, text, { agentId })
+          callTracker.logAgentResponse(session.sessionId, organizationId, text, { agentId, language: languageSwitcher.language })
             .catch(err => logger.error('Failed to log response', { error: err.message }));
         }
       });
@@ -300,7 +463,7 @@ export default defineAgent({
     // Prewarm TTS and STT connections for faster first response
     plugins.tts.prewarm(2);
     plugins.tts.prewarmPhraseCache([greeting, ...PREWARM_PHRASES]).catch(() => {});
-    plugins.stt.prewarm(1);  // Pre-warm STT WebSocket connection
+    plugins.stt.prewarm(1);  // Pre-warm STT connection (WebSocket pool or HTTP keep-alive)
 
     // Create voice session
     const voiceSession = new voice.AgentSession({
@@ -313,11 +476,53 @@ export default defineAgent({
       connOptions: CONNECTION_OPTIONS,
     });
 
+    // Supervisors can whisper to the agent or take the call over (commands arrive via the API)
+    agentContext.supervisor = new SupervisorControl({
+      sessionId: session.sessionId,
+      session: voiceSession,
+      getAgent: () => assistantRef,
+    });
+
+    // Mid-call handoffs to other agents (handoff_to_agent tool and the IVR agent menu)
+    agentHandoff = new AgentHandoff({
+      session: voiceSession,
+      agentContext,
+      toolContext: toolExecutionContext,
+      getPromptVariables: () => promptVariables,
+      ttsProvider: ttsSettings?.provider || 'sarvam',
+      languageSwitcher,
+      getAgent: () => assistantRef,
+      setAgent: (next) => { assistantRef = next; },
+    });
+
+    // Pre-conversation IVR menu (played by the assistant before the greeting)
+    if (dtmfHandler && agentConfig.ivrMenu) {
+      agentContext.ivr = {
+        menu: agentConfig.ivrMenu,
+        dtmfHandler,
+        switchLanguage: async (languageCode: string) => {
+          await languageSwitcher.switchTo(languageCode, 'ivr');
+          logger.info('IVR language selected', { language: languageSwitcher.language, sessionId: session.sessionId });
+        },
+        switchAgent: async (targetAgentId: string) => {
+          const routed = await agentHandoff!.switchTo(targetAgentId, 'ivr');
+          if (routed) logger.info('IVR routed call to agent', { from: agentId, to: targetAgentId, sessionId: session.sessionId });
+          return routed;
+        },
+        transfer: async (department: string) => {
+          const result = await executeTransfer(toolExecutionContext, department, 'ivr_menu');
+          return result.success;
+        },
+      };
+    }
+
     // Setup event handlers
-    setupVoiceSessionEvents(voiceSession, session.sessionId, organizationId, agentId, latencyTracker, metricsCollector, callTracker);
+    setupVoiceSessionEvents(voiceSession, session.sessionId, organizationId, agentId, latencyTracker, metricsCollector, callTracker, languageSwitcher);
 
     // Connect and start
     await ctx.connect();
+    dtmfHandler?.attach(ctx.room);
+    agentContext.supervisor.attach(ctx.room);
     
     try {
       await voiceSession.start({
@@ -352,6 +557,24 @@ export default defineAgent({
 
     // Wait for participant
     const participant = await ctx.waitForParticipant();
+
+    // No room metadata (e.g. room created by the SIP call) - fall back to the participant's
+    const participantMetadata = roomMetadata ? null : parseCallMetadata(participant.metadata);
+    const participantVariables = buildPromptVariables(participantMetadata);
+    if (hasPromptVariables(participantVariables)) {
+      promptVariables = participantVariables;
+      greeting = renderPromptTemplate(greetingTemplate, promptVariables).text;
+
+      if (assistantRef) {
+        const chatCtx = assistantRef.chatCtx.copy();
+        chatCtx.addMessage({
+          role: 'system',
+          content: `Details for this call (use them instead of any blank placeholders): ${describePromptVariables(promptVariables)}`,
+        });
+        await assistantRef.updateChatCtx(chatCtx);
+      }
+    }
+
     processParticipantContext(participant, greeting, latencyTracker, agentContext);
 
     logger.info(`🟢 Ready - Participant: ${participant.identity}`);
@@ -369,7 +592,8 @@ function setupVoiceSessionEvents(
   agentId: string,
   latencyTracker: any,
   metricsCollector: TurnMetricsCollector,
-  callTracker: CallTrackingService
+  callTracker: CallTrackingService,
+  languageSwitcher: LanguageSwitcher
 ): void {
   const usageCollector = new metrics.UsageCollector();
   
@@ -449,17 +673,28 @@ function setupVoiceSessionEvents(
 
   voiceSession.on(voice.AgentSessionEventTypes.UserInputTranscribed, (ev: any) => {
     const userText = ev.transcript || ev.text || '';
-    if (ev.isFinal || ev.final) latencyTracker.markUserSpeechEnd();
+    const isFinal = ev.isFinal || ev.final;
+    if (isFinal) latencyTracker.markUserSpeechEnd();
 
     if (userText) {
       metricsCollector.recordUserInput(userText);
-      callTracker.logUserMessage(sessionId, organizationId, userText, { agentId }).catch(() => {});
+      callTracker.logUserMessage(sessionId, organizationId, userText, {
+        agentId,
+        language: ev.language || undefined,
+        isFinal: !!isFinal,
+      }).catch(() => {});
+    }
+
+    // Switch TTS before the reply is generated if the caller changed language
+    if (isFinal && userText && languageSwitcher.isMultilingual) {
+      languageSwitcher.observe(ev.language, userText)
+        .catch(err => logger.error('Language switch failed', { error: err.message }));
     }
     
     // Debug: Log turn detection context
     logger.debug('Turn detection input', {
       transcript: userText,
-      isFinal: ev.isFinal || ev.final,
+      isFinal,
       sessionId: sessionId.substring(0, 12),
     });
   });
@@ -474,6 +709,7 @@ function setupVoiceSessionEvents(
       newState, 
       sessionId: sessionId.substring(0, 12) 
     });
+    if (newState) callTracker.logAgentState(sessionId, organizationId, newState, { agentId });
     
     if (newState === 'speaking') {
       latencyTracker.markAgentSpeechStart();
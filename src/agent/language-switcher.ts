@@ -0,0 +1,122 @@
+/**
+ * Language Switcher
+ *
+ * Follows the caller between the agent's allowed languages mid-call. The STT
+ * reports the language it identified on each final transcript; when the caller
+ * moves to another allowed language, TTS language (and voice, if the agent maps
+ * one) is re-configured before the reply is synthesized.
+ * @module agent/language-switcher
+ */
+
+import { logger } from '../core/logging.js';
+import { normalizeLanguageCode } from '../services/agent-config.js';
+import type { STTWithPrewarm, TTSWithPrewarm } from '../plugins/types.js';
+
+/**
+ * Short utterances ("ok", "haan", "sari") are easily misidentified, so they
+ * only switch language when the next utterance agrees
+ */
+const MIN_WORDS_FOR_SWITCH = 3;
+
+export type LanguageSwitchSource = 'detected' | 'ivr' | 'handoff';
+
+export interface LanguageSwitcherOptions {
+  /** Language the call starts in (the agent's language) */
+  language: string;
+  /** Languages the caller may switch to (detected languages outside it are ignored) */
+  allowedLanguages: string[];
+  stt: STTWithPrewarm;
+  tts: TTSWithPrewarm;
+  /** Optional TTS voice per language (config.languageVoices) */
+  voices?: Record<string, string>;
+  /** Voice restored for languages without a mapped voice */
+  defaultVoice?: string;
+  /** Called after every switch (e.g., to tell the LLM) */
+  onSwitch?: (from: string, to: string, source: LanguageSwitchSource) => Promise<void> | void;
+}
+
+export class LanguageSwitcher {
+  private current: string;
+  private allowed: Set<string>;
+  private pending: string | null = null;
+
+  constructor(private options: LanguageSwitcherOptions) {
+    this.current = normalizeLanguageCode(options.language);
+    this.allowed = new Set([this.current, ...options.allowedLanguages.map(normalizeLanguageCode)]);
+  }
+
+  /** Language the agent is currently speaking */
+  get language(): string {
+    return this.current;
+  }
+
+  /** True when the agent may follow the caller into another language */
+  get isMultilingual(): boolean {
+    return this.allowed.size > 1;
+  }
+
+  /**
+   * Handle the language identified on a final transcript
+   * @returns true if the call switched language
+   */
+  async observe(detected: string | null | undefined, transcript: string): Promise<boolean> {
+    if (!detected) return false;
+
+    const language = normalizeLanguageCode(detected);
+    if (language === this.current) {
+      this.pending = null;
+      return false;
+    }
+    if (!this.allowed.has(language)) {
+      logger.debug('Detected language not allowed for agent', { detected: language, current: this.current });
+      return false;
+    }
+
+    const words = transcript.trim().split(/\s+/).filter(Boolean).length;
+    if (words < MIN_WORDS_FOR_SWITCH && this.pending !== language) {
+      this.pending = language;
+      return false;
+    }
+
+    await this.switchTo(language, 'detected');
+    return true;
+  }
+
+  /**
+   * Re-configure STT/TTS for a language (also used by the IVR language menu)
+   */
+  async switchTo(languageCode: string, source: LanguageSwitchSource): Promise<void> {
+    const language = normalizeLanguageCode(languageCode);
+    const from = this.current;
+    this.pending = null;
+    if (language === from) return;
+
+    const { stt, tts, voices, defaultVoice } = this.options;
+    this.current = language;
+    stt.setLanguageCode?.(language);
+    tts.setLanguageCode?.(language);
+
+    const voice = voices?.[language] || (voices?.[from] ? defaultVoice : undefined);
+    if (voice) tts.setVoice?.(voice);
+
+    logger.info('Call language switched', { from, to: language, source, voice: voice || '(unchanged)' });
+    await this.options.onSwitch?.(from, language, source);
+  }
+
+  /**
+   * Take on another agent's languages and voices (mid-call agent handoff)
+   * The caller's current language is kept if the new agent also speaks it.
+   */
+  async adopt(settings: Pick<LanguageSwitcherOptions, 'language' | 'allowedLanguages' | 'voices' | 'defaultVoice'>): Promise<void> {
+    const language = normalizeLanguageCode(settings.language);
+    this.options = { ...this.options, voices: settings.voices, defaultVoice: settings.defaultVoice };
+    this.allowed = new Set([language, ...settings.allowedLanguages.map(normalizeLanguageCode)]);
+    this.pending = null;
+
+    const target = this.allowed.has(this.current) ? this.current : language;
+    const voice = settings.voices?.[target] || settings.defaultVoice;
+    if (voice) this.options.tts.setVoice?.(voice);
+
+    await this.switchTo(target, 'handoff');
+  }
+}
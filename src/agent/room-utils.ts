@@ -62,6 +62,7 @@ export function processParticipantContext(
     agentContext.callerPhoneNumber = callContext.sessionMetadata.callerPhoneNumber;
     agentContext.callDirection = callContext.sessionMetadata.callDirection as 'inbound' | 'outbound' | undefined;
     agentContext.greeting = callContext.greeting;
+    agentContext.sipParticipantIdentity = participant.identity;
     logger.info('SIP participant detected', {
       identity: participant.identity,
       callerPhone: callContext.sessionMetadata.callerPhoneNumber,
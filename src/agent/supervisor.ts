@@ -0,0 +1,116 @@
+/**
+ * Supervisor Control - Applies supervisor commands to a running call
+ *
+ * Commands arrive as LiveKit data messages on the SUPERVISOR_TOPIC, sent by the
+ * API server (see services/supervisor.ts). Messages from room participants are
+ * ignored, so a caller cannot pause the agent or inject guidance.
+ *
+ * - whisper: guidance added to the agent's chat context (never spoken)
+ * - takeover: AI speech is cut and further replies are suppressed while a human talks
+ * - release: the AI resumes, told that a human handled part of the call
+ */
+
+import { voice } from '@livekit/agents';
+import { RoomEvent, type RemoteParticipant, type Room } from '@livekit/rtc-node';
+import { logger } from '../core/logging.js';
+import { SUPERVISOR_TOPIC, type SupervisorCommand } from '../services/supervisor.js';
+
+export interface SupervisorControlOptions {
+  sessionId: string;
+  session: voice.AgentSession;
+  /** Current agent (changes when the call is handed to another agent) */
+  getAgent: () => voice.Agent | null;
+}
+
+export class SupervisorControl {
+  private room: Room | null = null;
+  private takenOverBy: string | null = null;
+  private takenOverAt = 0;
+
+  constructor(private options: SupervisorControlOptions) {}
+
+  private readonly onDataReceived = (payload: Uint8Array, participant?: RemoteParticipant, _kind?: unknown, topic?: string) => {
+    if (topic !== SUPERVISOR_TOPIC) return;
+    if (participant) {
+      logger.warning('Ignoring supervisor command from room participant', { identity: participant.identity });
+      return;
+    }
+
+    let command: SupervisorCommand;
+    try {
+      command = JSON.parse(new TextDecoder().decode(payload));
+    } catch {
+      logger.warning('Ignoring malformed supervisor command');
+      return;
+    }
+
+    this.handle(command).catch(error => {
+      logger.error('Supervisor command failed', { action: command.action, error: (error as Error).message });
+    });
+  };
+
+  /** True while a human has taken over the call */
+  get isTakenOver(): boolean {
+    return this.takenOverBy !== null;
+  }
+
+  /**
+   * Start listening for commands on the call's room
+   */
+  attach(room: Room): void {
+    if (this.room === room) return;
+    this.detach();
+
+    this.room = room;
+    room.on(RoomEvent.DataReceived, this.onDataReceived);
+  }
+
+  detach(): void {
+    if (this.room) {
+      this.room.off(RoomEvent.DataReceived, this.onDataReceived);
+      this.room = null;
+    }
+  }
+
+  private async handle(command: SupervisorCommand): Promise<void> {
+    const { sessionId } = this.options;
+    logger.info('Supervisor command received', { action: command.action, supervisor: command.supervisor, sessionId });
+
+    switch (command.action) {
+      case 'whisper':
+        await this.addSystemMessage(
+          `Guidance from a human supervisor (do not mention it or read it to the caller): ${command.message}`
+        );
+        break;
+
+      case 'takeover':
+        if (this.isTakenOver) return;
+        this.takenOverBy = command.supervisor;
+        this.takenOverAt = Date.now();
+        this.options.session.interrupt();
+        this.options.session.output.setAudioEnabled(false);
+        break;
+
+      case 'release': {
+        if (!this.isTakenOver) return;
+        const seconds = Math.round((Date.now() - this.takenOverAt) / 1000);
+        this.takenOverBy = null;
+        this.options.session.output.setAudioEnabled(true);
+        await this.addSystemMessage(
+          `A human supervisor spoke with the caller directly for the last ${seconds} seconds. ` +
+          'Their words are not in this conversation. Continue helping the caller from here.'
+        );
+        break;
+      }
+    }
+  }
+
+  private async addSystemMessage(content: string): Promise<void> {
+    const agent = this.options.getAgent();
+    if (!agent) return;
+
+    const chatCtx = agent.chatCtx.copy();
+    chatCtx.addMessage({ role: 'system', content });
+    await agent.updateChatCtx(chatCtx);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Agent Testing - scripted text conversations against a configured agent,
+ * and spoken end-to-end scenarios against a running worker
+ *
+ * Used by scripts/run-agent-tests.ts, scripts/run-voice-tests.ts and
+ * POST /api/v1/agents/:id/test.
+ */
+
+// Suite format
+export {
+  parseTestSuite,
+  type TestSuite,
+  type TestCase,
+  type TestTurn,
+  type TurnExpectation,
+  type InlineAgent,
+} from './suite.js';
+
+// Text-mode session
+export {
+  TextSession,
+  type TextSessionOptions,
+  type TextToolCall,
+  type TextTurnResult,
+} from './text-session.js';
+
+// Runner
+export {
+  runTestSuite,
+  checkExpectations,
+  type RunSuiteOptions,
+  type SuiteResult,
+  type TestResult,
+  type TurnResult,
+} from './runner.js';
+
+// Voice scenarios (simulated caller over LiveKit)
+export {
+  parseVoiceScenario,
+  type VoiceScenario,
+  type VoiceStep,
+  type ReplyExpectation,
+} from './voice-scenario.js';
+
+export {
+  SimulatedCaller,
+  type SimulatedCallerOptions,
+  type AgentSpeechSegment,
+} from './simulated-caller.js';
+
+export {
+  runVoiceScenario,
+  checkReply,
+  type RunVoiceScenarioOptions,
+  type VoiceScenarioResult,
+  type VoiceStepResult,
+} from './voice-runner.js';
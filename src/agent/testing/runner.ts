@@ -0,0 +1,225 @@
+/**
+ * Agent Test Runner - run a suite's scripted conversations and check expectations
+ *
+ * Every test gets a fresh text session. Turns run in order; a turn's failures
+ * are recorded and the conversation carries on, except once the agent has
+ * ended the call (later turns fail without being sent).
+ *
+ * @module agent/testing/runner
+ */
+
+import type { llm } from '@livekit/agents';
+import { config } from '../../core/config.js';
+import { logger } from '../../core/logging.js';
+import { createLLM, ScriptedLLM, type ScriptedReply } from '../../plugins/index.js';
+import type { InlineAgent, TestCase, TestSuite, TurnExpectation } from './suite.js';
+import { TextSession, type TextToolCall } from './text-session.js';
+
+const DEFAULT_TURN_TIMEOUT_MS = 30000;
+
+// Agent ID reported for suites with an inline agent and no agent_id
+const INLINE_AGENT_ID = 'inline';
+
+export interface RunSuiteOptions {
+  /** Agent to load from Convex (overrides the suite's agent and agent_id) */
+  agentId?: string;
+  /** Use the scripted LLM and each turn's mock_llm replies instead of OpenAI */
+  mockLlm?: boolean;
+  turnTimeoutMs?: number;
+  /** Called as each test finishes (progress output) */
+  onTestComplete?: (result: TestResult) => void;
+}
+
+export interface TurnResult {
+  user: string;
+  replies: string[];
+  toolCalls: TextToolCall[];
+  callEnded: boolean;
+  failures: string[];
+}
+
+export interface TestResult {
+  name: string;
+  passed: boolean;
+  greeting: string[];
+  turns: TurnResult[];
+  /** Set when the test could not run (agent missing, timeout...) */
+  error?: string;
+  durationMs: number;
+}
+
+export interface SuiteResult {
+  suite: string;
+  agentId: string;
+  llm: string;
+  passed: boolean;
+  total: number;
+  failed: number;
+  tests: TestResult[];
+  durationMs: number;
+}
+
+/**
+ * Run every test in a suite
+ */
+export async function runTestSuite(suite: TestSuite, options: RunSuiteOptions = {}): Promise<SuiteResult> {
+  // An explicit agent ID tests the stored agent; otherwise the suite's inline agent wins over agent_id
+  const inlineAgent = options.agentId ? undefined : suite.agent;
+  const agentId = options.agentId || suite.agent_id || (inlineAgent ? INLINE_AGENT_ID : undefined);
+  if (!agentId) {
+    throw new Error('No agent to test - add an agent or agent_id to the suite, or pass an agent ID');
+  }
+
+  const startedAt = Date.now();
+  const realLlm = options.mockLlm
+    ? null
+    : createLLM('openai', config.convex.openaiApiKey, { temperature: 0.1 });
+
+  const tests: TestResult[] = [];
+  for (const test of suite.tests) {
+    const result = await runTestCase(suite, test, agentId, inlineAgent, realLlm ?? new ScriptedLLM(), options);
+    tests.push(result);
+    options.onTestComplete?.(result);
+  }
+
+  const failed = tests.filter(t => !t.passed).length;
+  logger.info('Agent test suite finished', { suite: suite.name, agentId, total: tests.length, failed });
+
+  return {
+    suite: suite.name,
+    agentId,
+    llm: realLlm ? realLlm.model : 'scripted',
+    passed: failed === 0,
+    total: tests.length,
+    failed,
+    tests,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+async function runTestCase(
+  suite: TestSuite,
+  test: TestCase,
+  agentId: string,
+  inlineAgent: InlineAgent | undefined,
+  conversationLlm: llm.LLM,
+  options: RunSuiteOptions
+): Promise<TestResult> {
+  const startedAt = Date.now();
+  const turns: TurnResult[] = [];
+  let session: TextSession | null = null;
+
+  try {
+    session = await TextSession.start({
+      agentId,
+      agent: inlineAgent,
+      llm: conversationLlm,
+      callMetadata: { ...suite.call_metadata, ...test.call_metadata },
+      mockTools: { ...suite.mock_tools, ...test.mock_tools },
+    });
+
+    for (const turn of test.turns) {
+      if (session.callEnded) {
+        turns.push({ user: turn.user, replies: [], toolCalls: [], callEnded: true, failures: ['Call ended before this turn'] });
+        continue;
+      }
+
+      if (conversationLlm instanceof ScriptedLLM) {
+        conversationLlm.reset();
+        conversationLlm.enqueue((turn.mock_llm || []) as ScriptedReply[]);
+      }
+
+      const outcome = await session.send(turn.user, options.turnTimeoutMs ?? DEFAULT_TURN_TIMEOUT_MS);
+      turns.push({
+        user: turn.user,
+        replies: outcome.replies,
+        toolCalls: outcome.toolCalls,
+        callEnded: outcome.ended,
+        failures: turn.expect ? checkExpectations(turn.expect, outcome) : [],
+      });
+    }
+
+    return {
+      name: test.name,
+      passed: turns.every(t => t.failures.length === 0),
+      greeting: session.greeting,
+      turns,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    logger.warning('Agent test errored', { test: test.name, agentId, error: (error as Error).message });
+    return {
+      name: test.name,
+      passed: false,
+      greeting: session?.greeting || [],
+      turns,
+      error: (error as Error).message,
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    await session?.close().catch(() => {});
+  }
+}
+
+/**
+ * Compare one turn's outcome with its expectations
+ * @returns List of failures (empty when the turn passed)
+ */
+export function checkExpectations(
+  expect: TurnExpectation,
+  outcome: { replies: string[]; toolCalls: TextToolCall[]; ended: boolean }
+): string[] {
+  const failures: string[] = [];
+  const reply = outcome.replies.join(' ').toLowerCase();
+  const calledNames = outcome.toolCalls.map(c => c.name);
+
+  for (const phrase of expect.reply_contains || []) {
+    if (!reply.includes(phrase.toLowerCase())) {
+      failures.push(`Reply does not contain "${phrase}"`);
+    }
+  }
+  for (const phrase of expect.reply_not_contains || []) {
+    if (reply.includes(phrase.toLowerCase())) {
+      failures.push(`Reply contains "${phrase}"`);
+    }
+  }
+
+  for (const expected of expect.tool_called || []) {
+    const calls = outcome.toolCalls.filter(c => c.name === expected.name);
+    if (calls.length === 0) {
+      failures.push(`Expected ${expected.name} to be called (called: ${calledNames.join(', ') || 'none'})`);
+    } else if (expected.args && !calls.some(c => argsMatch(c.args, expected.args!))) {
+      failures.push(
+        `${expected.name} was called with ${calls.map(c => JSON.stringify(c.args)).join(', ')}, expected ${JSON.stringify(expected.args)}`
+      );
+    }
+  }
+  for (const name of expect.tool_not_called || []) {
+    if (calledNames.includes(name)) {
+      failures.push(`Expected ${name} not to be called`);
+    }
+  }
+
+  if (expect.call_ended !== undefined && outcome.ended !== expect.call_ended) {
+    failures.push(expect.call_ended ? 'Expected the agent to end the call' : 'Agent ended the call');
+  }
+
+  return failures;
+}
+
+/**
+ * Expected args only need to be a subset; strings compare trimmed and case-insensitive
+ */
+function argsMatch(actual: unknown, expected: unknown): boolean {
+  if (expected !== null && typeof expected === 'object') {
+    if (Array.isArray(expected)) {
+      return Array.isArray(actual)
+        && actual.length === expected.length
+        && expected.every((value, i) => argsMatch(actual[i], value));
+    }
+    if (actual === null || typeof actual !== 'object') return false;
+    return Object.entries(expected).every(([key, value]) => argsMatch((actual as Record<string, unknown>)[key], value));
+  }
+  if (actual === undefined || actual === null) return expected === actual;
+  return String(actual).trim().toLowerCase() === String(expected).trim().toLowerCase();
+}
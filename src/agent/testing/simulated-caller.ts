@@ -0,0 +1,358 @@
+/**
+ * Simulated Caller - a scripted participant that talks to an agent over LiveKit
+ *
+ * Publishes a microphone track fed from TTS or WAV audio (silence in between,
+ * so the agent's VAD sees real pauses), subscribes to the agent's audio and
+ * splits it into speech segments by energy. Segments carry wall-clock start
+ * and end times for latency checks and are transcribed with the caller's STT.
+ *
+ * @module agent/testing/simulated-caller
+ */
+
+import {
+  AudioFrame,
+  AudioResampler,
+  AudioSource,
+  AudioStream,
+  LocalAudioTrack,
+  Room,
+  RoomEvent,
+  TrackKind,
+  TrackPublishOptions,
+  TrackSource,
+  combineAudioFrames,
+  type RemoteTrack,
+} from '@livekit/rtc-node';
+import { stt, type tts } from '@livekit/agents';
+import { AccessToken } from 'livekit-server-sdk';
+import { config } from '../../core/config.js';
+import { logger } from '../../core/logging.js';
+
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 10;
+const FRAME_SAMPLES = (SAMPLE_RATE * FRAME_MS) / 1000;
+// Keep the mic queue short so wall-clock timestamps match what the agent hears
+const MIC_QUEUE_MS = 100;
+
+// Agent audio above this RMS (16-bit) counts as speech
+const SPEECH_RMS_THRESHOLD = 300;
+// Silence that splits agent speech into separate segments
+const SEGMENT_GAP_MS = 600;
+const POLL_INTERVAL_MS = 20;
+const TRANSCRIBE_TIMEOUT_MS = 20000;
+
+/** A stretch of agent speech, with wall-clock times (ms) */
+export interface AgentSpeechSegment {
+  startedAt: number;
+  /** Last voiced frame (updates while the segment is open) */
+  endedAt: number;
+  frames: AudioFrame[];
+}
+
+export interface SimulatedCallerOptions {
+  livekitUrl: string;
+  roomName: string;
+  /** Sent as participant metadata (the agent reads call variables from it) */
+  metadata?: Record<string, unknown>;
+  stt: stt.STT;
+  tts: tts.TTS;
+}
+
+interface MicChunk {
+  frame: AudioFrame;
+  /** Called after capture with the time the chunk will finish playing */
+  onCaptured?: (playedAt: number) => void;
+}
+
+function frameRms(frame: AudioFrame): number {
+  const { data } = frame;
+  if (data.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum += data[i] * data[i];
+  }
+  return Math.sqrt(sum / data.length);
+}
+
+/**
+ * Convert any 16-bit audio to 10ms mono frames at the mic sample rate
+ */
+function toMicFrames(frames: AudioFrame[]): AudioFrame[] {
+  if (frames.length === 0) return [];
+
+  let audio = combineAudioFrames(frames);
+  if (audio.channels > 1) {
+    const mono = new Int16Array(audio.samplesPerChannel);
+    for (let i = 0; i < mono.length; i++) {
+      let sum = 0;
+      for (let c = 0; c < audio.channels; c++) sum += audio.data[i * audio.channels + c];
+      mono[i] = Math.round(sum / audio.channels);
+    }
+    audio = new AudioFrame(mono, audio.sampleRate, 1, mono.length);
+  }
+  if (audio.sampleRate !== SAMPLE_RATE) {
+    const resampler = new AudioResampler(audio.sampleRate, SAMPLE_RATE, 1);
+    audio = combineAudioFrames([...resampler.push(audio), ...resampler.flush()]);
+  }
+
+  const chunks: AudioFrame[] = [];
+  for (let offset = 0; offset < audio.data.length; offset += FRAME_SAMPLES) {
+    const data = new Int16Array(FRAME_SAMPLES);
+    data.set(audio.data.subarray(offset, offset + FRAME_SAMPLES));
+    chunks.push(new AudioFrame(data, SAMPLE_RATE, 1, FRAME_SAMPLES));
+  }
+  return chunks;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class SimulatedCaller {
+  private room = new Room();
+  private source = new AudioSource(SAMPLE_RATE, 1, MIC_QUEUE_MS);
+  private micQueue: MicChunk[] = [];
+  private micRunning = false;
+  private micDone: Promise<void> | null = null;
+
+  private segments: AgentSpeechSegment[] = [];
+  private current: AgentSpeechSegment | null = null;
+  private agentTrackSeen = false;
+
+  readonly joinedAt: number;
+
+  private constructor(private options: SimulatedCallerOptions) {
+    this.joinedAt = Date.now();
+  }
+
+  /**
+   * Join the room and start publishing the (silent) microphone
+   */
+  static async connect(options: SimulatedCallerOptions): Promise<SimulatedCaller> {
+    const caller = new SimulatedCaller(options);
+    await caller.join();
+    return caller;
+  }
+
+  private async join(): Promise<void> {
+    const identity = `sim-caller-${Math.random().toString(36).slice(2, 8)}`;
+    const token = new AccessToken(config.livekit.apiKey, config.livekit.apiSecret, {
+      identity,
+      name: 'Simulated caller',
+      metadata: this.options.metadata ? JSON.stringify(this.options.metadata) : undefined,
+    });
+    token.addGrant({ roomJoin: true, room: this.options.roomName, canPublish: true, canSubscribe: true });
+
+    this.room.on(RoomEvent.TrackSubscribed, (track, _publication, participant) => {
+      if (track.kind !== TrackKind.KIND_AUDIO) return;
+      logger.info('Simulated caller subscribed to agent audio', { participant: participant.identity });
+      this.agentTrackSeen = true;
+      this.consumeAgentAudio(track).catch(error => {
+        logger.warning('Agent audio stream ended with error', { error: (error as Error).message });
+      });
+    });
+
+    await this.room.connect(this.options.livekitUrl, await token.toJwt(), { autoSubscribe: true, dynacast: false });
+
+    const track = LocalAudioTrack.createAudioTrack('caller-mic', this.source);
+    await this.room.localParticipant!.publishTrack(
+      track,
+      new TrackPublishOptions({ source: TrackSource.SOURCE_MICROPHONE })
+    );
+
+    this.micRunning = true;
+    this.micDone = this.runMic();
+  }
+
+  /**
+   * Feed queued speech to the mic, and silence when there is none
+   */
+  private async runMic(): Promise<void> {
+    const silence = new AudioFrame(new Int16Array(FRAME_SAMPLES), SAMPLE_RATE, 1, FRAME_SAMPLES);
+    while (this.micRunning) {
+      const chunk = this.micQueue.shift();
+      await this.source.captureFrame(chunk?.frame ?? silence);
+      chunk?.onCaptured?.(Date.now() + this.source.queuedDuration);
+    }
+  }
+
+  private async consumeAgentAudio(track: RemoteTrack): Promise<void> {
+    const reader = new AudioStream(track, { sampleRate: SAMPLE_RATE, numChannels: 1 }).getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      this.onAgentFrame(value);
+    }
+  }
+
+  private onAgentFrame(frame: AudioFrame): void {
+    const now = Date.now();
+    if (frameRms(frame) > SPEECH_RMS_THRESHOLD) {
+      if (!this.current) {
+        this.current = { startedAt: now, endedAt: now, frames: [] };
+      }
+      this.current.endedAt = now;
+      this.current.frames.push(frame);
+      return;
+    }
+
+    if (this.current) {
+      this.current.frames.push(frame);
+      this.closeSegmentIfQuiet(now);
+    }
+  }
+
+  private closeSegmentIfQuiet(now: number): void {
+    if (this.current && now - this.current.endedAt >= SEGMENT_GAP_MS) {
+      this.segments.push(this.current);
+      this.current = null;
+    }
+  }
+
+  private async waitUntil(predicate: () => boolean, timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      this.closeSegmentIfQuiet(Date.now());
+      if (predicate()) return true;
+      await sleep(POLL_INTERVAL_MS);
+    }
+    return predicate();
+  }
+
+  /**
+   * Wait for the agent to publish its audio track
+   */
+  waitForAgent(timeoutMs: number): Promise<boolean> {
+    return this.waitUntil(() => this.agentTrackSeen, timeoutMs);
+  }
+
+  /**
+   * Agent speech that started at or after a time (including an open segment)
+   */
+  agentSpeechSince(since: number): AgentSpeechSegment[] {
+    const all = this.current ? [...this.segments, this.current] : this.segments;
+    return all.filter(segment => segment.startedAt >= since);
+  }
+
+  /**
+   * Segment the agent was speaking at a given time, if any
+   */
+  agentSpeechAt(at: number): AgentSpeechSegment | undefined {
+    const all = this.current ? [...this.segments, this.current] : this.segments;
+    return all.find(segment => segment.startedAt <= at && segment.endedAt >= at);
+  }
+
+  /**
+   * Wait for the agent to start speaking after a time
+   * @returns When the speech started, or null on timeout
+   */
+  async waitForAgentSpeech(since: number, timeoutMs: number): Promise<number | null> {
+    const started = await this.waitUntil(() => this.agentSpeechSince(since).length > 0, timeoutMs);
+    return started ? this.agentSpeechSince(since)[0].startedAt : null;
+  }
+
+  /**
+   * Wait until the agent has been silent for quietMs
+   */
+  waitForAgentQuiet(quietMs: number, timeoutMs: number): Promise<boolean> {
+    return this.waitUntil(() => {
+      if (this.current) return false;
+      const last = this.segments[this.segments.length - 1];
+      return !last || Date.now() - last.endedAt >= quietMs;
+    }, timeoutMs);
+  }
+
+  /**
+   * Play audio into the room
+   * @returns When the audio started and finished playing (wall clock)
+   */
+  speak(audio: AudioFrame[]): Promise<{ startedAt: number; endedAt: number }> {
+    const chunks = toMicFrames(audio);
+    if (chunks.length === 0) {
+      return Promise.reject(new Error('No audio to speak'));
+    }
+
+    return new Promise(resolve => {
+      let startedAt = 0;
+      chunks.forEach((frame, index) => {
+        const chunk: MicChunk = { frame };
+        if (index === 0) {
+          chunk.onCaptured = playedAt => { startedAt = playedAt - FRAME_MS; };
+        }
+        if (index === chunks.length - 1) {
+          const previous = chunk.onCaptured;
+          chunk.onCaptured = playedAt => {
+            previous?.(playedAt);
+            setTimeout(() => resolve({ startedAt, endedAt: playedAt }), Math.max(0, playedAt - Date.now()));
+          };
+        }
+        this.micQueue.push(chunk);
+      });
+    });
+  }
+
+  /**
+   * Caller TTS for a line of text
+   */
+  async synthesize(text: string): Promise<AudioFrame[]> {
+    const frames: AudioFrame[] = [];
+    for await (const audio of this.options.tts.synthesize(text)) {
+      frames.push(audio.frame);
+    }
+    if (frames.length === 0) {
+      throw new Error(`Caller TTS returned no audio for "${text}"`);
+    }
+    return frames;
+  }
+
+  /**
+   * Transcribe agent speech with the caller STT
+   */
+  async transcribe(segments: AgentSpeechSegment[]): Promise<string> {
+    const texts: string[] = [];
+    for (const segment of segments) {
+      if (segment.frames.length === 0) continue;
+      const text = await this.transcribeFrames(segment.frames);
+      if (text) texts.push(text);
+    }
+    return texts.join(' ');
+  }
+
+  private async transcribeFrames(frames: AudioFrame[]): Promise<string> {
+    const sttPlugin = this.options.stt;
+    if (!sttPlugin.capabilities.streaming) {
+      const event = await sttPlugin.recognize(frames);
+      return event.alternatives?.[0]?.text?.trim() || '';
+    }
+
+    const stream = sttPlugin.stream();
+    for (const frame of frames) {
+      stream.pushFrame(frame);
+    }
+    // Trailing silence lets endpointing providers finalize the last words
+    const silence = new AudioFrame(new Int16Array(SAMPLE_RATE), SAMPLE_RATE, 1, SAMPLE_RATE);
+    stream.pushFrame(silence);
+    stream.flush();
+    stream.endInput();
+
+    const texts: string[] = [];
+    const timer = setTimeout(() => stream.close(), TRANSCRIBE_TIMEOUT_MS);
+    try {
+      for await (const event of stream) {
+        const text = event.alternatives?.[0]?.text?.trim();
+        if (event.type === stt.SpeechEventType.FINAL_TRANSCRIPT && text) {
+          texts.push(text);
+        }
+      }
+    } finally {
+      clearTimeout(timer);
+      stream.close();
+    }
+    return texts.join(' ');
+  }
+
+  async close(): Promise<void> {
+    this.micRunning = false;
+    await this.micDone?.catch(() => {});
+    await this.room.disconnect();
+    await this.source.close();
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Agent Test Suites - scripted conversations with expectations
+ *
+ * Suites are YAML or JSON:
+ *
+ *   name: Clinic booking
+ *   agent_id: k17abc...              # optional when the runner is given an agent
+ *   agent:                           # inline agent instead of loading agent_id from Convex
+ *     prompt: You are the receptionist at Smile Dental...
+ *     greeting: Hello {{customer.name}}, Smile Dental here.
+ *     functions: [...]               # same shape as the agent's config.functions
+ *   call_metadata:                   # same shape as room metadata ({{customer.name}} etc.)
+ *     customerName: Priya
+ *   mock_tools:                      # tool name -> canned result (no webhook is called)
+ *     book_appointment: { success: true, confirmation_id: APT-1001 }
+ *   tests:
+ *     - name: Books a cleaning
+ *       turns:
+ *         - user: I want a cleaning tomorrow at 10
+ *           mock_llm:                # replies for the scripted LLM (ignored with a real LLM)
+ *             - tool_calls: [{ name: book_appointment, args: { service: cleaning } }]
+ *             - Your cleaning is booked for tomorrow at 10.
+ *           expect:
+ *             tool_called: { name: book_appointment, args: { service: cleaning } }
+ *             reply_contains: booked
+ *         - user: That's all, bye
+ *           expect:
+ *             call_ended: true
+ *
+ * @module agent/testing/suite
+ */
+
+import { z } from 'zod';
+import YAML from 'yaml';
+
+/** A single value or a list of them (normalized to a list) */
+const oneOrMany = <T extends z.ZodTypeAny>(schema: T) =>
+  z.union([schema, z.array(schema)]).transform(value => (Array.isArray(value) ? value : [value]) as z.infer<T>[]);
+
+const ToolCallExpectationSchema = z.union([
+  z.string().min(1),
+  z.object({
+    name: z.string().min(1),
+    args: z.record(z.unknown()).optional(),
+  }),
+]).transform(value => (typeof value === 'string' ? { name: value } : value));
+
+const ScriptedReplySchema = z.union([
+  z.string(),
+  z.object({
+    text: z.string().optional(),
+    tool_calls: z.array(z.object({
+      name: z.string().min(1),
+      args: z.record(z.unknown()).optional(),
+    })).optional(),
+  }),
+]);
+
+const TurnExpectationSchema = z.object({
+  /** Every phrase must appear in the agent's replies (case-insensitive) */
+  reply_contains: oneOrMany(z.string().min(1)).optional(),
+  /** No phrase may appear in the agent's replies (case-insensitive) */
+  reply_not_contains: oneOrMany(z.string().min(1)).optional(),
+  /** Tools that must be called; args only need to include the listed keys */
+  tool_called: oneOrMany(ToolCallExpectationSchema).optional(),
+  tool_not_called: oneOrMany(z.string().min(1)).optional(),
+  /** Whether the agent ended the call on this turn */
+  call_ended: z.boolean().optional(),
+}).strict();
+
+const TurnSchema = z.object({
+  user: z.string().min(1),
+  mock_llm: z.array(ScriptedReplySchema).optional(),
+  expect: TurnExpectationSchema.optional(),
+}).strict();
+
+const TestCaseSchema = z.object({
+  name: z.string().min(1),
+  call_metadata: z.record(z.unknown()).optional(),
+  mock_tools: z.record(z.unknown()).optional(),
+  turns: z.array(TurnSchema).min(1),
+}).strict();
+
+/** Agent defined in the suite itself (runs without Convex) */
+const InlineAgentSchema = z.object({
+  name: z.string().min(1).optional(),
+  prompt: z.string().min(1),
+  greeting: z.string().optional(),
+  farewell: z.string().optional(),
+  language: z.string().optional(),
+  functions: z.array(z.record(z.unknown())).optional(),
+  /** Anything else from the agent's config JSON (transferDirectory, fields, handoffTargets...) */
+  config: z.record(z.unknown()).optional(),
+}).strict();
+
+const TestSuiteSchema = z.object({
+  name: z.string().min(1),
+  agent_id: z.string().min(1).optional(),
+  agent: InlineAgentSchema.optional(),
+  call_metadata: z.record(z.unknown()).optional(),
+  mock_tools: z.record(z.unknown()).optional(),
+  tests: z.array(TestCaseSchema).min(1),
+}).strict();
+
+export type InlineAgent = z.infer<typeof InlineAgentSchema>;
+export type TurnExpectation = z.infer<typeof TurnExpectationSchema>;
+export type TestTurn = z.infer<typeof TurnSchema>;
+export type TestCase = z.infer<typeof TestCaseSchema>;
+export type TestSuite = z.infer<typeof TestSuiteSchema>;
+
+/**
+ * Parse and validate a suite
+ * @param source - YAML/JSON text, or an already-parsed object (API bodies)
+ * @returns The suite, or the list of problems with it
+ */
+export function parseTestSuite(source: string | unknown): { suite?: TestSuite; errors: string[] } {
+  let raw: unknown = source;
+  if (typeof source === 'string') {
+    try {
+      // YAML is a superset of JSON, so this reads both
+      raw = YAML.parse(source);
+    } catch (error) {
+      return { errors: [`Invalid YAML/JSON: ${(error as Error).message}`] };
+    }
+  }
+
+  const result = TestSuiteSchema.safeParse(raw);
+  if (!result.success) {
+    return {
+      errors: result.error.issues.map(issue => `${issue.path.join('.') || 'suite'}: ${issue.message}`),
+    };
+  }
+  return { suite: result.data, errors: [] };
+}
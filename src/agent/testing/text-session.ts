@@ -0,0 +1,334 @@
+/**
+ * Text Session - drive an agent with typed turns instead of audio
+ *
+ * Builds the same VoiceAssistant, tool context and system prompt as the
+ * worker entry point (agent/index.ts), then runs it in a LiveKit AgentSession
+ * with no room, STT or TTS. Interactions stay in memory and nothing is saved,
+ * analyzed or sent to integrations when the session closes. An inline agent
+ * is used as-is, so a session with one (and a scripted LLM) needs no Convex.
+ *
+ * @module agent/testing/text-session
+ */
+
+import { voice, llm, initializeLogger } from '@livekit/agents';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../core/logging.js';
+import { TurnMetricsCollector } from '../../core/call-analytics.js';
+import { SessionService } from '../../services/session.js';
+import { CallTrackingService } from '../../services/call-tracking.js';
+import { VoiceKnowledgeService } from '../../services/voice-knowledge.js';
+import { getAgentConfigService } from '../../services/agent-config.js';
+import { getFunctionGenerator } from '../../services/function-generator.js';
+import { buildPromptVariables, renderPromptTemplate } from '../../services/prompt-template.js';
+import { buildToolContext, createMinimalToolContext, ToolExecutionContext } from '../../services/tool-handlers.js';
+import { DEFAULT_AGENT } from '../config.js';
+import { injectDateTimeIntoPrompt } from '../room-utils.js';
+import { VoiceAssistant } from '../voice-assistant.js';
+import { AgentHandoff } from '../handoff.js';
+import { WorkflowRunner } from '../workflow-runner.js';
+import { FieldCollector } from '../field-collector.js';
+import type { AgentContext } from '../types.js';
+import type { InlineAgent } from './suite.js';
+
+// How long to wait for the greeting after the session starts
+const GREETING_TIMEOUT_MS = 10000;
+
+// Organization for inline agents (they aren't stored anywhere)
+const INLINE_AGENT_ORGANIZATION = 'test';
+
+export interface TextSessionOptions {
+  agentId: string;
+  /** Agent defined by the suite - used instead of loading agentId from Convex */
+  agent?: InlineAgent;
+  /** LLM for the conversation (OpenAI for real runs, ScriptedLLM for offline runs) */
+  llm: llm.LLM;
+  /** Room-metadata-shaped call details for {{variables}} (customerName, customData...) */
+  callMetadata?: Record<string, any>;
+  /** Tool name -> result returned instead of running the tool */
+  mockTools?: Record<string, unknown>;
+}
+
+export interface TextToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  output?: string;
+  isError?: boolean;
+}
+
+/**
+ * Everything the agent did in response to one user turn
+ */
+export interface TextTurnResult {
+  replies: string[];
+  toolCalls: TextToolCall[];
+  /** The agent ended the call (end_call or a shutdown from another tool) */
+  ended: boolean;
+}
+
+let agentsLoggerReady = false;
+
+/**
+ * Shape an inline agent like an agents table row (config is stored as JSON text)
+ */
+function toAgentRecord(agentId: string, agent: InlineAgent): Record<string, unknown> {
+  return {
+    _id: agentId,
+    organizationId: INLINE_AGENT_ORGANIZATION,
+    name: agent.name || DEFAULT_AGENT.name,
+    systemPrompt: agent.prompt,
+    greeting: agent.greeting,
+    farewell: agent.farewell,
+    language: agent.language,
+    config: JSON.stringify({
+      ...agent.config,
+      ...(agent.functions ? { functions: agent.functions } : {}),
+    }),
+  };
+}
+
+/**
+ * The LiveKit SDK logs through its own logger, normally set up by the worker CLI
+ */
+function ensureAgentsLogger(): void {
+  if (agentsLoggerReady) return;
+  try {
+    initializeLogger({ pretty: false, level: 'warn' });
+  } catch {
+    // Already initialized by the worker
+  }
+  agentsLoggerReady = true;
+}
+
+export class TextSession {
+  private ended = false;
+
+  private constructor(
+    private session: voice.AgentSession,
+    private callTracker: CallTrackingService,
+    private agentHandoff: AgentHandoff,
+    readonly sessionId: string,
+    readonly greeting: string[]
+  ) {}
+
+  /**
+   * Build the agent and start a session (resolves once the greeting was spoken)
+   */
+  static async start(options: TextSessionOptions): Promise<TextSession> {
+    ensureAgentsLogger();
+
+    const { agentId } = options;
+    const agentConfigService = getAgentConfigService();
+    const [agentConfig, promptResult] = options.agent
+      ? [agentConfigService.parseAgentConfig(toAgentRecord(agentId, options.agent)), { prompt: options.agent.prompt }]
+      : await Promise.all([
+        agentConfigService.loadAgentConfig(agentId),
+        agentConfigService.getCachedFullPrompt(agentId),
+      ]);
+    if (!agentConfig) {
+      throw new Error(`Agent ${agentId} not found`);
+    }
+    if (!promptResult.prompt) {
+      throw new Error(`Agent ${agentId} has no prompt`);
+    }
+
+    const organizationId = agentConfig.organizationId;
+    const sessionId = `test-${uuidv4()}`;
+    const promptVariables = buildPromptVariables(options.callMetadata);
+
+    const greeting = renderPromptTemplate(
+      agentConfig.greeting || agentConfig.rawConfig?.greeting || agentConfig.rawConfig?.welcome_message || DEFAULT_AGENT.greeting,
+      promptVariables
+    ).text;
+    const farewell = renderPromptTemplate(
+      agentConfig.farewell || agentConfig.rawConfig?.farewell || agentConfig.rawConfig?.endCall || 'Thank you for calling! Have a great day!',
+      promptVariables
+    ).text;
+    const systemPrompt = injectDateTimeIntoPrompt(renderPromptTemplate(promptResult.prompt, promptVariables).text);
+
+    const functions = getFunctionGenerator().generateFunctions(agentConfig, {
+      includeDefaults: true,
+      includeKnowledgeSearch: true,
+    });
+    const sessionService = new SessionService({ enablePersistence: false });
+    const callTracker = new CallTrackingService(500, { persist: false });
+    const knowledgeService = new VoiceKnowledgeService(organizationId, agentId, agentConfig.rag);
+    knowledgeService.setCallerLanguage(() => agentConfig.language);
+
+    let textSession: TextSession | null = null;
+    let assistantRef: VoiceAssistant | null = null;
+    let agentHandoff: AgentHandoff | null = null;
+
+    const toolExecutionContext: ToolExecutionContext = {
+      organizationId,
+      agentId,
+      sessionId,
+      knowledgeService,
+      sessionService,
+      callTracker,
+      getShutdownCallback: () => async () => {
+        if (textSession) textSession.ended = true;
+      },
+      transferDirectory: agentConfig.transferDirectory,
+      getSpeakCallback: () => assistantRef?.getSpeakCallback(),
+      handoffTargets: agentConfig.handoffTargets,
+      getHandoffCallback: () => agentHandoff?.getHandoffCallback(),
+    };
+
+    const tools = functions.length > 0
+      ? buildToolContext(functions, toolExecutionContext)
+      : createMinimalToolContext(toolExecutionContext);
+
+    const applyToolMocks = (agentTools: llm.ToolContext, forAgentId: string) => {
+      for (const [name, result] of Object.entries(options.mockTools || {})) {
+        if (!agentTools[name]) {
+          logger.warning('Mocked tool is not available to this agent', { tool: name, agentId: forAgentId });
+          continue;
+        }
+        agentTools[name] = { ...agentTools[name], execute: async () => result };
+      }
+    };
+    applyToolMocks(tools, agentId);
+
+    const agentContext: AgentContext = {
+      organizationId,
+      agentId,
+      agentName: agentConfig.name || DEFAULT_AGENT.name,
+      greeting,
+      farewell,
+      sessionId,
+      sessionService,
+      callTracker,
+      knowledgeService,
+      functions,
+      metricsCollector: new TurnMetricsCollector(sessionId, {
+        enablePerTurnLogs: false,
+        enableSessionSummary: false,
+      }),
+      textMode: true,
+    };
+    if (agentConfig.workflow) {
+      agentContext.workflow = new WorkflowRunner(agentConfig.workflow, toolExecutionContext, tools);
+    }
+    if (agentConfig.fields) {
+      agentContext.fieldCollector = new FieldCollector(agentConfig.fields, toolExecutionContext, tools);
+    }
+
+    const assistant = new VoiceAssistant(systemPrompt, tools, agentContext);
+    assistantRef = assistant;
+
+    const session = new voice.AgentSession({ llm: options.llm });
+    agentHandoff = new AgentHandoff({
+      session,
+      agentContext,
+      toolContext: toolExecutionContext,
+      getPromptVariables: () => promptVariables,
+      ttsProvider: agentConfig.tts?.provider || 'sarvam',
+      prepareTools: applyToolMocks,
+      getAgent: () => assistantRef,
+      setAgent: (next) => { assistantRef = next; },
+    });
+
+    // The assistant greets from onEnter - wait for it so turns start after the greeting
+    const greetingTexts: string[] = [];
+    const greeted = new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, GREETING_TIMEOUT_MS);
+      session.on(voice.AgentSessionEventTypes.ConversationItemAdded, (ev) => {
+        if (greetingTexts.length === 0 && ev.item.role === 'assistant' && ev.item.textContent) {
+          greetingTexts.push(ev.item.textContent);
+          clearTimeout(timer);
+          resolve();
+        }
+      });
+    });
+
+    await session.start({ agent: assistant, record: false });
+    await greeted;
+
+    textSession = new TextSession(session, callTracker, agentHandoff, sessionId, greetingTexts);
+    return textSession;
+  }
+
+  get callEnded(): boolean {
+    return this.ended;
+  }
+
+  /**
+   * Send a user turn and wait for the agent to finish responding (replies and tool calls)
+   */
+  async send(text: string, timeoutMs: number): Promise<TextTurnResult> {
+    // Replies said outside the run (a handed-off agent introduces itself from onEnter)
+    const spoken: string[] = [];
+    const onItem = (ev: voice.ConversationItemAddedEvent) => {
+      if (ev.item.role === 'assistant' && ev.item.textContent) {
+        spoken.push(ev.item.textContent);
+      }
+    };
+    this.session.on(voice.AgentSessionEventTypes.ConversationItemAdded, onItem);
+    const hopsBefore = this.agentHandoff.chain.length;
+    const run = this.session.run({ userInput: text });
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        run.wait(),
+        new Promise((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Agent did not finish responding within ${timeoutMs / 1000}s`)),
+            timeoutMs
+          );
+        }),
+      ]);
+    } catch (error) {
+      this.session.off(voice.AgentSessionEventTypes.ConversationItemAdded, onItem);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const replies: string[] = [];
+    const toolCalls = new Map<string, TextToolCall>();
+    for (const event of run.events) {
+      if (event.type === 'message' && event.item.role === 'assistant' && event.item.textContent) {
+        replies.push(event.item.textContent);
+      } else if (event.type === 'function_call') {
+        let args: Record<string, unknown> = {};
+        try {
+          args = JSON.parse(event.item.args || '{}');
+        } catch {
+          // Keep the call with empty args - the expectation will report the mismatch
+        }
+        toolCalls.set(event.item.callId, { name: event.item.name, args });
+      } else if (event.type === 'function_call_output') {
+        const call = toolCalls.get(event.item.callId);
+        if (call) {
+          call.output = event.item.output;
+          call.isError = event.item.isError;
+        }
+      }
+    }
+
+    if (this.agentHandoff.chain.length > hopsBefore) {
+      const deadline = Date.now() + GREETING_TIMEOUT_MS;
+      while (spoken.length <= replies.length && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      replies.push(...spoken.slice(replies.length));
+    }
+    this.session.off(voice.AgentSessionEventTypes.ConversationItemAdded, onItem);
+
+    const calls = [...toolCalls.values()];
+    if (calls.some(call => call.name === 'end_call')) {
+      this.ended = true;
+    }
+
+    return { replies, toolCalls: calls, ended: this.ended };
+  }
+
+  async close(): Promise<void> {
+    try {
+      await this.session.close();
+    } finally {
+      this.callTracker.clearBuffer(this.sessionId);
+    }
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Voice Scenario Runner - drive a running agent worker with a simulated caller
+ *
+ * Creates a room named like a real call ({organizationId}_{agentId}_{id}) so
+ * the worker dispatches the agent to it with the normal voice pipeline, then
+ * plays each step and checks the transcribed reply, response latency and
+ * barge-in behaviour. Steps carry on after a failed check, like text tests.
+ *
+ * @module agent/testing/voice-runner
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../../core/config.js';
+import { logger } from '../../core/logging.js';
+import { getAgentConfigService } from '../../services/agent-config.js';
+import { createSpeechPlugins } from '../../plugins/index.js';
+import { wavToAudioFrame } from '../../plugins/wav.js';
+import { SimulatedCaller } from './simulated-caller.js';
+import type { ReplyExpectation, VoiceScenario, VoiceStep } from './voice-scenario.js';
+
+const AGENT_JOIN_TIMEOUT_MS = 30000;
+const DEFAULT_STEP_TIMEOUT_MS = 15000;
+// The agent's reply is complete after this much silence
+const REPLY_QUIET_MS = 1500;
+// Upper bound on one reply (long answers, tool calls in between)
+const MAX_REPLY_MS = 60000;
+
+export interface RunVoiceScenarioOptions {
+  /** Agent to call (overrides the scenario's agent_id) */
+  agentId?: string;
+  /** LiveKit server (overrides the scenario's livekit_url and LIVEKIT_URL) */
+  livekitUrl?: string;
+  /** Directory that step audio paths are relative to */
+  baseDir?: string;
+  /** How long to wait for the agent to start replying */
+  stepTimeoutMs?: number;
+  /** Called as each step finishes (progress output) */
+  onStepComplete?: (result: VoiceStepResult) => void;
+}
+
+export interface VoiceStepResult {
+  action: 'listen' | 'say' | 'audio';
+  /** Text spoken or audio file played */
+  input?: string;
+  /** What the caller STT heard the agent say */
+  transcript: string;
+  /** End of caller speech (or step start, for listen) to first agent audio */
+  latencyMs?: number;
+  /** Caller barge-in to the agent's audio stopping */
+  interruptMs?: number;
+  failures: string[];
+}
+
+export interface VoiceScenarioResult {
+  scenario: string;
+  agentId: string;
+  roomName: string;
+  passed: boolean;
+  steps: VoiceStepResult[];
+  /** Set when the scenario could not run (no agent joined, LiveKit unreachable...) */
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Run a scenario against whichever worker is registered with the LiveKit server
+ */
+export async function runVoiceScenario(
+  scenario: VoiceScenario,
+  options: RunVoiceScenarioOptions = {}
+): Promise<VoiceScenarioResult> {
+  const agentId = options.agentId || scenario.agent_id;
+  if (!agentId) {
+    throw new Error('No agent to call - set agent_id in the scenario or pass an agent ID');
+  }
+
+  let organizationId = scenario.organization_id;
+  if (!organizationId) {
+    const agentConfig = await getAgentConfigService().loadAgentConfig(agentId);
+    if (!agentConfig) throw new Error(`Agent ${agentId} not found`);
+    organizationId = agentConfig.organizationId;
+  }
+
+  const startedAt = Date.now();
+  const roomName = `${organizationId}_${agentId}_voicetest-${uuidv4().slice(0, 8)}`;
+  const livekitUrl = options.livekitUrl || scenario.livekit_url || config.livekit.url;
+  const stepTimeoutMs = options.stepTimeoutMs ?? DEFAULT_STEP_TIMEOUT_MS;
+  const steps: VoiceStepResult[] = [];
+
+  const { stt, tts } = createSpeechPlugins({
+    language: scenario.language,
+    sttProvider: scenario.caller?.stt?.provider,
+    sttModel: scenario.caller?.stt?.model,
+    sttBaseUrl: scenario.caller?.stt?.base_url,
+    ttsProvider: scenario.caller?.tts?.provider,
+    ttsModel: scenario.caller?.tts?.model,
+    ttsBaseUrl: scenario.caller?.tts?.base_url,
+    voice: scenario.caller?.tts?.voice,
+    ttsResponseFormat: scenario.caller?.tts?.response_format,
+    ttsSampleRate: scenario.caller?.tts?.sample_rate,
+  });
+
+  let caller: SimulatedCaller | null = null;
+  try {
+    caller = await SimulatedCaller.connect({
+      livekitUrl,
+      roomName,
+      metadata: scenario.call_metadata,
+      stt,
+      tts,
+    });
+
+    if (!await caller.waitForAgent(AGENT_JOIN_TIMEOUT_MS)) {
+      throw new Error(`No agent joined ${roomName} within ${AGENT_JOIN_TIMEOUT_MS / 1000}s - is the worker running against ${livekitUrl}?`);
+    }
+
+    let mark = caller.joinedAt;
+    for (const step of scenario.steps) {
+      const result = await runStep(caller, step, mark, stepTimeoutMs, options.baseDir);
+      steps.push(result);
+      options.onStepComplete?.(result);
+      mark = Date.now();
+    }
+
+    return {
+      scenario: scenario.name,
+      agentId,
+      roomName,
+      passed: steps.every(s => s.failures.length === 0),
+      steps,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    logger.warning('Voice scenario errored', { scenario: scenario.name, agentId, roomName, error: (error as Error).message });
+    return {
+      scenario: scenario.name,
+      agentId,
+      roomName,
+      passed: false,
+      steps,
+      error: (error as Error).message,
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    await caller?.close().catch(() => {});
+    await Promise.allSettled([stt.close(), tts.close()]);
+  }
+}
+
+async function runStep(
+  caller: SimulatedCaller,
+  step: VoiceStep,
+  since: number,
+  timeoutMs: number,
+  baseDir = process.cwd()
+): Promise<VoiceStepResult> {
+  if (step.listen) {
+    const replyStart = await caller.waitForAgentSpeech(since, step.listen.timeout_ms ?? timeoutMs);
+    if (replyStart === null) {
+      return { action: 'listen', transcript: '', failures: ['Agent did not speak'] };
+    }
+
+    await caller.waitForAgentQuiet(REPLY_QUIET_MS, MAX_REPLY_MS);
+    const transcript = await caller.transcribe(caller.agentSpeechSince(since));
+    const latencyMs = replyStart - since;
+    return {
+      action: 'listen',
+      transcript,
+      latencyMs,
+      failures: checkReply(step.listen, transcript, latencyMs),
+    };
+  }
+
+  const action = step.say ? 'say' : 'audio';
+  const input = step.say ?? step.audio!;
+  const audio = step.say
+    ? await caller.synthesize(step.say)
+    : [wavToAudioFrame(await readFile(resolve(baseDir, step.audio!)))];
+  const failures: string[] = [];
+
+  if (step.barge_in_after_ms !== undefined) {
+    const agentStart = await caller.waitForAgentSpeech(since, timeoutMs);
+    if (agentStart === null) {
+      failures.push('Agent did not start speaking, nothing to interrupt');
+    } else {
+      await new Promise(r => setTimeout(r, Math.max(0, agentStart + step.barge_in_after_ms! - Date.now())));
+    }
+  } else {
+    // Let the agent finish so the caller does not interrupt by accident
+    await caller.waitForAgentQuiet(REPLY_QUIET_MS, MAX_REPLY_MS);
+  }
+
+  const spoken = await caller.speak(audio);
+
+  let interruptMs: number | undefined;
+  if (step.barge_in_after_ms !== undefined && failures.length === 0) {
+    const interrupted = caller.agentSpeechAt(spoken.startedAt);
+    if (!interrupted) {
+      failures.push('Agent had already stopped speaking when the caller barged in');
+    } else {
+      // The agent's speech may still be running - wait for it to stop
+      await caller.waitForAgentQuiet(0, MAX_REPLY_MS);
+      interruptMs = interrupted.endedAt - spoken.startedAt;
+    }
+  }
+
+  const replyStart = await caller.waitForAgentSpeech(spoken.endedAt, timeoutMs);
+  if (replyStart === null) {
+    failures.push(`Agent did not reply within ${timeoutMs / 1000}s`);
+    return { action, input, transcript: '', interruptMs, failures };
+  }
+
+  await caller.waitForAgentQuiet(REPLY_QUIET_MS, MAX_REPLY_MS);
+  const transcript = await caller.transcribe(caller.agentSpeechSince(spoken.endedAt));
+  const latencyMs = replyStart - spoken.endedAt;
+
+  return {
+    action,
+    input,
+    transcript,
+    latencyMs,
+    interruptMs,
+    failures: [...failures, ...(step.expect ? checkReply(step.expect, transcript, latencyMs, interruptMs) : [])],
+  };
+}
+
+/**
+ * Compare a transcribed reply and its timings with the expectations
+ * @returns List of failures (empty when the step passed)
+ */
+export function checkReply(
+  expect: ReplyExpectation,
+  transcript: string,
+  latencyMs?: number,
+  interruptMs?: number
+): string[] {
+  const failures: string[] = [];
+  const reply = transcript.toLowerCase();
+
+  for (const phrase of expect.reply_contains || []) {
+    if (!reply.includes(phrase.toLowerCase())) {
+      failures.push(`Reply does not contain "${phrase}"`);
+    }
+  }
+  for (const phrase of expect.reply_not_contains || []) {
+    if (reply.includes(phrase.toLowerCase())) {
+      failures.push(`Reply contains "${phrase}"`);
+    }
+  }
+
+  if (expect.max_latency_ms !== undefined && latencyMs !== undefined && latencyMs > expect.max_latency_ms) {
+    failures.push(`Reply took ${latencyMs}ms (max ${expect.max_latency_ms}ms)`);
+  }
+  if (expect.max_interrupt_ms !== undefined && interruptMs !== undefined && interruptMs > expect.max_interrupt_ms) {
+    failures.push(`Agent kept talking ${interruptMs}ms after the barge-in (max ${expect.max_interrupt_ms}ms)`);
+  }
+
+  return failures;
+}
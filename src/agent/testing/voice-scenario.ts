@@ -0,0 +1,136 @@
+/**
+ * Voice Scenarios - spoken end-to-end tests against a running agent worker
+ *
+ * A simulated caller joins a LiveKit room, speaks each step (TTS or a WAV
+ * file), transcribes what the agent says back and checks it. Scenarios are
+ * YAML or JSON:
+ *
+ *   name: Clinic booking (voice)
+ *   agent_id: k17abc...
+ *   language: en-IN
+ *   caller:                          # caller's own STT/TTS (defaults: Sarvam)
+ *     stt: { provider: whisper, base_url: http://localhost:8000/v1 }
+ *     tts: { provider: custom, base_url: http://localhost:8880/v1, voice: af_heart }
+ *   steps:
+ *     - listen:                      # the greeting
+ *         reply_contains: welcome
+ *         max_latency_ms: 5000       # from joining the room
+ *     - say: I want a cleaning tomorrow at ten
+ *       expect:
+ *         reply_contains: [cleaning, tomorrow]
+ *         max_latency_ms: 2500       # end of caller speech -> first agent audio
+ *     - audio: fixtures/hindi-question.wav
+ *     - say: Actually, make it eleven
+ *       barge_in_after_ms: 800       # speak 800ms into the agent's reply
+ *       expect:
+ *         max_interrupt_ms: 1000     # caller speech start -> agent goes quiet
+ *
+ * @module agent/testing/voice-scenario
+ */
+
+import { z } from 'zod';
+import YAML from 'yaml';
+
+/** A single value or a list of them (normalized to a list) */
+const oneOrMany = <T extends z.ZodTypeAny>(schema: T) =>
+  z.union([schema, z.array(schema)]).transform(value => (Array.isArray(value) ? value : [value]) as z.infer<T>[]);
+
+const CallerSTTSchema = z.object({
+  provider: z.enum(['sarvam', 'whisper', 'deepgram', 'custom']).default('sarvam'),
+  model: z.string().min(1).optional(),
+  base_url: z.string().url().optional(),
+}).strict();
+
+const CallerTTSSchema = z.object({
+  provider: z.enum(['sarvam', 'openai', 'custom']).default('sarvam'),
+  model: z.string().min(1).optional(),
+  voice: z.string().min(1).optional(),
+  base_url: z.string().url().optional(),
+  response_format: z.enum(['pcm', 'wav']).optional(),
+  sample_rate: z.number().int().positive().optional(),
+}).strict();
+
+const ReplyExpectationSchema = z.object({
+  /** Every phrase must appear in the transcribed reply (case-insensitive) */
+  reply_contains: oneOrMany(z.string().min(1)).optional(),
+  /** No phrase may appear in the transcribed reply (case-insensitive) */
+  reply_not_contains: oneOrMany(z.string().min(1)).optional(),
+  /** End of caller speech (or joining, for listen) to the first agent audio */
+  max_latency_ms: z.number().positive().optional(),
+  /** Barge-in steps: caller speech start to the agent's audio stopping */
+  max_interrupt_ms: z.number().positive().optional(),
+}).strict();
+
+const ListenSchema = ReplyExpectationSchema.extend({
+  /** How long to wait for the agent to start speaking */
+  timeout_ms: z.number().positive().optional(),
+}).strict();
+
+const StepSchema = z.object({
+  /** Only listen (the greeting, or a follow-up the agent says unprompted) */
+  listen: ListenSchema.optional(),
+  /** Text the caller speaks through its TTS */
+  say: z.string().min(1).optional(),
+  /** 16-bit PCM WAV file the caller plays (relative to the scenario file) */
+  audio: z.string().min(1).optional(),
+  /** Speak this long after the agent starts its next reply, interrupting it */
+  barge_in_after_ms: z.number().nonnegative().optional(),
+  expect: ReplyExpectationSchema.optional(),
+}).strict().superRefine((step, ctx) => {
+  const actions = [step.listen, step.say, step.audio].filter(a => a !== undefined).length;
+  if (actions !== 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Each step needs exactly one of listen, say or audio' });
+  }
+  if (step.listen && (step.expect || step.barge_in_after_ms !== undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'listen steps take their expectations inline' });
+  }
+  if (step.expect?.max_interrupt_ms !== undefined && step.barge_in_after_ms === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'max_interrupt_ms needs barge_in_after_ms' });
+  }
+});
+
+const VoiceScenarioSchema = z.object({
+  name: z.string().min(1),
+  agent_id: z.string().min(1).optional(),
+  /** Defaults to the agent's organization */
+  organization_id: z.string().min(1).optional(),
+  /** Caller language (STT/TTS) */
+  language: z.string().min(2).default('en-IN'),
+  /** Defaults to LIVEKIT_URL (e.g. ws://localhost:7880 for livekit-server --dev) */
+  livekit_url: z.string().min(1).optional(),
+  /** Sent as the caller's participant metadata ({{customer.name}} etc.) */
+  call_metadata: z.record(z.unknown()).optional(),
+  caller: z.object({
+    stt: CallerSTTSchema.optional(),
+    tts: CallerTTSSchema.optional(),
+  }).strict().optional(),
+  steps: z.array(StepSchema).min(1),
+}).strict();
+
+export type ReplyExpectation = z.infer<typeof ReplyExpectationSchema>;
+export type VoiceStep = z.infer<typeof StepSchema>;
+export type VoiceScenario = z.infer<typeof VoiceScenarioSchema>;
+
+/**
+ * Parse and validate a scenario
+ * @param source - YAML/JSON text, or an already-parsed object
+ * @returns The scenario, or the list of problems with it
+ */
+export function parseVoiceScenario(source: string | unknown): { scenario?: VoiceScenario; errors: string[] } {
+  let raw: unknown = source;
+  if (typeof source === 'string') {
+    try {
+      raw = YAML.parse(source);
+    } catch (error) {
+      return { errors: [`Invalid YAML/JSON: ${(error as Error).message}`] };
+    }
+  }
+
+  const result = VoiceScenarioSchema.safeParse(raw);
+  if (!result.success) {
+    return {
+      errors: result.error.issues.map(issue => `${issue.path.join('.') || 'scenario'}: ${issue.message}`),
+    };
+  }
+  return { scenario: result.data, errors: [] };
+}
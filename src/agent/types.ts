@@ -8,7 +8,47 @@ import type { CallTrackingService } from '../services/call-tracking.js';
 import type { VoiceKnowledgeService } from '../services/voice-knowledge.js';
 import type { GeneratedFunction } from '../services/function-generator.js';
 import type { TurnMetricsCollector } from '../core/call-analytics.js';
-import type { LatencyTracker } from '../telephony/index.js';
+import type { OverLimitBehavior } from '../services/call-limits.js';
+import type { LatencyTracker, DTMFHandler, IVRMenuConfig } from '../telephony/index.js';
+import type { SupervisorControl } from './supervisor.js';
+import type { WorkflowRunner } from './workflow-runner.js';
+import type { FieldCollector } from './field-collector.js';
+
+/**
+ * Pre-conversation IVR menu wiring
+ * Route callbacks return true when the call was handed off (skip the greeting).
+ */
+export interface IVRRouting {
+  menu: IVRMenuConfig;
+  dtmfHandler: DTMFHandler;
+  switchLanguage: (languageCode: string) => Promise<void>;
+  switchAgent: (agentId: string) => Promise<boolean>;
+  transfer: (department: string) => Promise<boolean>;
+}
+
+/**
+ * Over-limit handling for a call admitted past the agent's limits
+ * (behavior "busy_message" or "queue" - "reject" never reaches the agent)
+ */
+export interface OverLimitHandling {
+  behavior: OverLimitBehavior;
+  message: string;
+  maxQueueWaitSeconds: number;
+  /** Poll for a free slot; resolves true once the call is admitted */
+  waitForSlot: () => Promise<boolean>;
+  /** Count the call as turned away */
+  recordRejection: () => Promise<void>;
+}
+
+/**
+ * Call recording for agents with config.recording enabled
+ */
+export interface RecordingHandling {
+  /** Disclaimer spoken once recording has started */
+  consentMessage: string;
+  /** Start recording; resolves false if it could not be started */
+  start: () => Promise<boolean>;
+}
 
 /**
  * Agent context - runtime state passed through the voice session
@@ -29,6 +69,26 @@ export interface AgentContext {
   isTelephony?: boolean;
   callerPhoneNumber?: string;
   callDirection?: 'inbound' | 'outbound';
+  /** LiveKit identity of the caller's SIP participant (used for transfers) */
+  sipParticipantIdentity?: string;
+  /** IVR menu played before the greeting (SIP calls with ivrMenu configured) */
+  ivr?: IVRRouting;
+  /** Agent ID this agent took the call over from (set on mid-call agent switches) */
+  handoffFrom?: string;
+  /** Instructions for the first reply after a handoff_to_agent handoff (instead of the greeting) */
+  handoffInstructions?: string;
+  /** Set when the agent was over its call limits as the call arrived */
+  overLimit?: OverLimitHandling;
+  /** Set when the agent records calls (consent is announced before the greeting) */
+  recording?: RecordingHandling;
+  /** Supervisor whisper/takeover commands for this call */
+  supervisor?: SupervisorControl;
+  /** Step-by-step conversation flow (agents with a workflow) */
+  workflow?: WorkflowRunner;
+  /** Caller details to collect and validate (agents with config.fields) */
+  fieldCollector?: FieldCollector;
+  /** Scripted text conversation (agent tests) - no audio, integrations or call-end persistence */
+  textMode?: boolean;
 }
 
 /**
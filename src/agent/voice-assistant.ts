@@ -5,27 +5,45 @@
  * @module agent/voice-assistant
  */
 
+import type { ReadableStream } from 'node:stream/web';
 import { voice, llm } from '@livekit/agents';
 import { logger } from '../core/logging.js';
 import { DEFAULT_AGENT } from './config.js';
-import type { AgentContext } from './types.js';
+import type { AgentContext, IVRRouting, OverLimitHandling } from './types.js';
+import { CONFIRM_FIELD_TOOL, RECORD_FIELD_TOOL, type CollectedField } from './field-collector.js';
 import { getIntegrationEventHandler } from '../services/IntegrationEventHandler.js';
+import { getCallAnalysisService, type CallAnalysis } from '../services/call-analysis.js';
+import { getCallQAService } from '../services/call-qa.js';
 import { config } from '../core/config.js';
+import { runIVRMenu } from '../telephony/index.js';
 
 /**
  * Global active sessions tracker for graceful shutdown
  */
 export const activeSessions = new Map<string, { callTracker: any; sessionId: string }>();
 
+/**
+ * Reject if a post-call step outlives its budget
+ * The job process is killed shortly after the call ends, so nothing there may wait indefinitely.
+ */
+function withDeadline<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${what} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, deadline]).finally(() => clearTimeout(timer));
+}
+
 /**
  * Production Voice Assistant
  */
 export class VoiceAssistant extends voice.Agent {
   private ctx?: AgentContext;
   private isShuttingDown = false;
+  private handedOff = false;
 
-  constructor(systemPrompt: string, tools: llm.ToolContext, ctx?: AgentContext) {
-    super({ instructions: systemPrompt, tools });
+  constructor(systemPrompt: string, tools: llm.ToolContext, ctx?: AgentContext, chatCtx?: llm.ChatContext) {
+    super({ instructions: systemPrompt, tools, chatCtx });
     this.ctx = ctx;
   }
 
@@ -72,11 +90,104 @@ export class VoiceAssistant extends voice.Agent {
     };
   }
 
+  /**
+   * Get speak callback for tool handlers
+   * Speaks without interruption and resolves once the audio has played out
+   */
+  getSpeakCallback(): (text: string) => Promise<void> {
+    return async (text: string) => {
+      const handle = this.session.say(text, { allowInterruptions: false });
+      await handle.waitForPlayout();
+    };
+  }
+
+  /**
+   * Mark this assistant as replaced by another agent mid-call
+   * Skips call-end cleanup in onExit since the call continues.
+   */
+  markHandoff(): void {
+    this.handedOff = true;
+  }
+
+  /**
+   * Caller details collected so far (carried over to the next agent on a handoff)
+   */
+  get collectedFields(): CollectedField[] {
+    return this.ctx?.fieldCollector?.collected || [];
+  }
+
+  /**
+   * Play the pre-conversation IVR menu and route on the caller's keypress
+   * @returns true when the call was routed elsewhere (skip the greeting)
+   */
+  private async runPreConversationMenu(ivr: IVRRouting): Promise<boolean> {
+    const option = await runIVRMenu(ivr.menu, ivr.dtmfHandler, this.getSpeakCallback());
+    if (!option) return false;
+
+    if (this.ctx?.callTracker && this.ctx?.sessionId) {
+      this.ctx.callTracker.logFunctionCall(
+        this.ctx.sessionId,
+        this.ctx.organizationId,
+        'ivr_menu',
+        { digit: option.digit },
+        { action: option.action, value: option.value },
+        { latencyMs: 0 }
+      ).catch(err => logger.error('Failed to log IVR selection', { error: err.message }));
+    }
+
+    try {
+      switch (option.action) {
+        case 'language':
+          await ivr.switchLanguage(option.value);
+          return false;
+        case 'agent':
+          return await ivr.switchAgent(option.value);
+        case 'transfer':
+          return await ivr.transfer(option.value);
+      }
+    } catch (error) {
+      logger.error('IVR routing failed', {
+        action: option.action,
+        value: option.value,
+        error: (error as Error).message,
+        sessionId: this.ctx?.sessionId,
+      });
+    }
+
+    return false;
+  }
+
+  /**
+   * Handle a call that arrived while the agent was over its limits
+   * Queued callers hear a hold message while we poll for a free slot.
+   * @returns true when the caller was turned away (skip the conversation)
+   */
+  private async handleOverLimit(overLimit: OverLimitHandling): Promise<boolean> {
+    const speak = this.getSpeakCallback();
+
+    if (overLimit.behavior === 'queue') {
+      await speak('Thank you for calling. All our agents are busy, please stay on the line and we will be with you shortly.');
+      const admitted = await overLimit.waitForSlot();
+      if (admitted) return false;
+    }
+
+    logger.info('Turning away over-limit call', {
+      behavior: overLimit.behavior,
+      sessionId: this.ctx?.sessionId,
+      agentId: this.ctx?.agentId,
+    });
+
+    await speak(overLimit.message);
+    await overLimit.recordRejection();
+    await this.shutdown('over_limit');
+    return true;
+  }
+
   /**
    * Trigger integrations at call end (Google Sheets, Slack, Email, etc.)
    * This is DYNAMIC - it uses whatever integrations the user has configured for the agent
    */
-  private async triggerCallEndIntegrations(): Promise<void> {
+  private async triggerCallEndIntegrations(analysis: CallAnalysis | null): Promise<void> {
     if (!this.ctx?.sessionId || !this.ctx?.callTracker) {
       return;
     }
@@ -138,6 +249,25 @@ export class VoiceAssistant extends voice.Agent {
         (extractedData.functionsUsed as string[]).push(call.functionName || 'unknown');
       }
 
+      // Validated caller details (take precedence over same-named function parameters)
+      const fields = this.ctx.fieldCollector?.record;
+      if (fields && Object.keys(fields).length > 0) {
+        Object.assign(extractedData, fields);
+        extractedData.fields = fields;
+      }
+
+      // Post-call analysis (takes precedence over same-named function parameters)
+      if (analysis) {
+        Object.assign(extractedData, {
+          summary: analysis.summary,
+          sentimentScore: analysis.sentimentScore,
+          disposition: analysis.disposition,
+          dispositionReason: analysis.dispositionReason,
+          entities: analysis.entities,
+        });
+        integrationHandler.setSentiment(this.ctx.sessionId, analysis.sentiment);
+      }
+
       // Update extracted data in the integration handler
       integrationHandler.updateExtractedData(this.ctx.sessionId, extractedData);
 
@@ -149,7 +279,7 @@ export class VoiceAssistant extends voice.Agent {
       });
 
       // Trigger call_ended event for ALL configured integrations
-      await integrationHandler.onCallEnded(this.ctx.sessionId, extractedData.outcome as string);
+      await integrationHandler.onCallEnded(this.ctx.sessionId, (extractedData.outcome as string) || analysis?.disposition);
       
       logger.info('Triggered call_ended integration event', {
         sessionId: this.ctx.sessionId,
@@ -175,11 +305,64 @@ export class VoiceAssistant extends voice.Agent {
     }
   }
 
+  /**
+   * Suppress the AI's reply while a supervisor has taken over the call
+   * (the caller's turn is still kept in the chat context)
+   */
+  async onUserTurnCompleted(_chatCtx: llm.ChatContext, _newMessage: llm.ChatMessage): Promise<void> {
+    if (this.ctx?.supervisor?.isTakenOver) {
+      throw new voice.StopResponse();
+    }
+  }
+
+  /**
+   * Agents with a workflow only see the current step's instructions and tools;
+   * agents with fields are told which caller details are still missing
+   */
+  async llmNode(
+    chatCtx: llm.ChatContext,
+    toolCtx: llm.ToolContext,
+    modelSettings: voice.ModelSettings
+  ): Promise<ReadableStream<llm.ChatChunk | string> | null> {
+    const workflow = this.ctx?.workflow;
+    const fieldInstructions = this.ctx?.fieldCollector?.instructions();
+    if (!workflow && !fieldInstructions) {
+      return voice.Agent.default.llmNode(this, chatCtx, toolCtx, modelSettings);
+    }
+
+    const stepCtx = chatCtx.copy();
+    let stepTools = toolCtx;
+    if (workflow) {
+      stepCtx.addMessage({ role: 'system', content: workflow.stepInstructions() });
+      stepTools = workflow.narrowTools(toolCtx);
+    }
+    if (fieldInstructions) {
+      stepCtx.addMessage({ role: 'system', content: fieldInstructions });
+      for (const name of [RECORD_FIELD_TOOL, CONFIRM_FIELD_TOOL]) {
+        if (toolCtx[name]) stepTools[name] = toolCtx[name];
+      }
+    }
+    return voice.Agent.default.llmNode(this, stepCtx, stepTools, modelSettings);
+  }
+
   async onEnter(): Promise<void> {
     logger.info('Voice Assistant activated', {
       sessionId: this.ctx?.sessionId,
       agentId: this.ctx?.agentId,
     });
+    this.ctx?.workflow?.attach(this.session);
+
+    // Handed the conversation by another agent - carry on instead of greeting
+    if (this.ctx?.handoffInstructions) {
+      this.session.generateReply({ instructions: this.ctx.handoffInstructions });
+      return;
+    }
+
+    // Test conversation - greet in one message and skip call setup
+    if (this.ctx?.textMode) {
+      await this.session.say(this.ctx.greeting || DEFAULT_AGENT.greeting);
+      return;
+    }
 
     if (this.ctx?.sessionId && this.ctx?.callTracker) {
       activeSessions.set(this.ctx.sessionId, {
@@ -188,6 +371,12 @@ export class VoiceAssistant extends voice.Agent {
       });
     }
 
+    // Taking over a live call - the previous agent already set everything up
+    if (this.ctx?.handoffFrom) {
+      await this.session.say(this.ctx.greeting || DEFAULT_AGENT.greeting);
+      return;
+    }
+
     // Initialize integration handler for this call
     try {
       const integrationHandler = getIntegrationEventHandler({
@@ -211,6 +400,22 @@ export class VoiceAssistant extends voice.Agent {
     // Delay to ensure audio path is established
     await new Promise(resolve => setTimeout(resolve, 2000));
 
+    if (this.ctx?.overLimit) {
+      const turnedAway = await this.handleOverLimit(this.ctx.overLimit);
+      if (turnedAway) return;
+    }
+
+    // Recording starts first so the consent announcement is part of it
+    if (this.ctx?.recording) {
+      const recording = await this.ctx.recording.start();
+      if (recording) await this.getSpeakCallback()(this.ctx.recording.consentMessage);
+    }
+
+    if (this.ctx?.ivr) {
+      const routed = await this.runPreConversationMenu(this.ctx.ivr);
+      if (routed) return;
+    }
+
     const greeting = this.ctx?.greeting || DEFAULT_AGENT.greeting;
     const splitIndex = greeting.indexOf('.');
 
@@ -228,6 +433,18 @@ export class VoiceAssistant extends voice.Agent {
 
   async onExit(): Promise<void> {
     logger.info('Voice Assistant deactivated', { sessionId: this.ctx?.sessionId });
+    this.ctx?.workflow?.detach();
+    
+    if (this.handedOff) {
+      logger.info('Call continues with another agent - skipping call-end cleanup', {
+        sessionId: this.ctx?.sessionId,
+        agentId: this.ctx?.agentId,
+      });
+      return;
+    }
+
+    // Test conversations are never saved, analyzed or sent to integrations
+    if (this.ctx?.textMode) return;
     
     if (this.ctx?.sessionId) {
       activeSessions.delete(this.ctx.sessionId);
@@ -250,27 +467,25 @@ export class VoiceAssistant extends voice.Agent {
     }
 
     // Flush to database
+    let flushed = false;
     if (this.ctx?.callTracker && this.ctx?.sessionId) {
       try {
-        await this.ctx.callTracker.flushSessionToConvex(this.ctx.sessionId);
+        flushed = (await this.ctx.callTracker.flushSessionToConvex(this.ctx.sessionId)).success;
       } catch (error) {
         logger.error('Failed to save session data', { error: (error as Error).message });
       }
     }
 
-    // Send appointment data to Google Sheets (if webhook is configured)
-    if (this.ctx?.callTracker && this.ctx?.sessionId) {
+    // Caller details collected during the call
+    if (flushed && this.ctx?.fieldCollector) {
       try {
-        await this.triggerCallEndIntegrations();
+        await this.ctx.fieldCollector.save();
       } catch (error) {
-        logger.error('Failed to trigger call end integrations', { 
-          error: (error as Error).message,
-          sessionId: this.ctx.sessionId 
-        });
+        logger.error('Failed to save collected fields', { error: (error as Error).message });
       }
     }
 
-    // End session
+    // End the session before anything slow, so a killed process never leaves the call active
     if (this.ctx?.sessionService && this.ctx?.sessionId) {
       try {
         await this.ctx.sessionService.endSession(this.ctx.sessionId);
@@ -278,5 +493,36 @@ export class VoiceAssistant extends voice.Agent {
         logger.error('Failed to end session', { error: (error as Error).message });
       }
     }
+
+    // Summary, sentiment and disposition, and the QA scorecard (both read what was just saved)
+    let analysis: CallAnalysis | null = null;
+    if (flushed && this.ctx?.sessionId) {
+      const sessionId = this.ctx.sessionId;
+      const [analysisResult, qaResult] = await Promise.allSettled([
+        withDeadline(getCallAnalysisService().analyzeCall(sessionId), config.analysis.timeoutMs + 5000, 'Post-call analysis'),
+        withDeadline(getCallQAService().gradeCall(sessionId), config.qa.timeoutMs + 5000, 'QA grading'),
+      ]);
+
+      if (analysisResult.status === 'fulfilled') {
+        analysis = analysisResult.value;
+      } else {
+        logger.error('Post-call analysis failed', { error: (analysisResult.reason as Error).message, sessionId });
+      }
+      if (qaResult.status === 'rejected') {
+        logger.error('QA grading failed', { error: (qaResult.reason as Error).message, sessionId });
+      }
+    }
+
+    // Send appointment data to Google Sheets (if webhook is configured)
+    if (this.ctx?.callTracker && this.ctx?.sessionId) {
+      try {
+        await this.triggerCallEndIntegrations(analysis);
+      } catch (error) {
+        logger.error('Failed to trigger call end integrations', { 
+          error: (error as Error).message,
+          sessionId: this.ctx.sessionId 
+        });
+      }
+    }
   }
 }
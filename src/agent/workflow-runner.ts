@@ -0,0 +1,261 @@
+/**
+ * Workflow Runner - walks an agent's workflow as a state machine during a call
+ *
+ * Each LLM step only sees the current node's instructions (appended as a system
+ * message) and tools. The runner moves on when the node is done:
+ *
+ * - collect: the LLM records the caller's answer with record_answer
+ * - tool: the node's tool ran successfully (its result can be saved as a slot)
+ * - branch: evaluated straight away against the collected slots
+ * - say: its message is prepended to the next reply, then the next node applies
+ * - transfer/end: final - the LLM transfers with transfer_call or ends with end_call
+ *
+ * The greeting is spoken as usual; the start node applies from the caller's
+ * first reply.
+ * @module agent/workflow-runner
+ */
+
+import { llm, voice } from '@livekit/agents';
+import { logger } from '../core/logging.js';
+import {
+  evaluateCondition,
+  normalizeSlotValue,
+  type WorkflowDefinition,
+  type WorkflowNode,
+  type WorkflowSlot,
+} from '../services/agent-workflow.js';
+import type { ToolExecutionContext, ToolResult } from '../services/tool-handlers.js';
+
+export const RECORD_ANSWER_TOOL = 'record_answer';
+
+// Guards against a malformed workflow spinning through branch/say nodes
+const MAX_INSTANT_STEPS = 25;
+
+export class WorkflowRunner {
+  private readonly nodes: Map<string, WorkflowNode>;
+  private current: WorkflowNode;
+  /** Say messages waiting to be spoken with the next reply */
+  private pendingSay: string[] = [];
+  /** The pending say messages were given to the LLM (spoken with its next reply) */
+  private sayInstructed = false;
+  private readonly visited: string[] = [];
+  readonly slots: Record<string, unknown> = {};
+  private session: voice.AgentSession | null = null;
+
+  /**
+   * @param tools - The agent's tools; record_answer is added and tool-node tools are wrapped
+   */
+  constructor(
+    definition: WorkflowDefinition,
+    private context: ToolExecutionContext,
+    tools: llm.ToolContext
+  ) {
+    this.nodes = new Map(definition.nodes.map(node => [node.id, node]));
+    this.install(tools);
+    this.enter(definition.start);
+  }
+
+  /** Current node */
+  get node(): WorkflowNode {
+    return this.current;
+  }
+
+  /** Node ids in the order the call went through them */
+  get path(): string[] {
+    return [...this.visited];
+  }
+
+  /**
+   * Follow the session's replies (pending say messages count as spoken once the agent replies)
+   */
+  attach(session: voice.AgentSession): void {
+    this.session = session;
+    session.on(voice.AgentSessionEventTypes.ConversationItemAdded, this.onItemAdded);
+  }
+
+  detach(): void {
+    this.session?.off(voice.AgentSessionEventTypes.ConversationItemAdded, this.onItemAdded);
+    this.session = null;
+  }
+
+  private readonly onItemAdded = (ev: voice.ConversationItemAddedEvent) => {
+    if (this.sayInstructed && ev.item.role === 'assistant' && ev.item.textContent) {
+      this.pendingSay = [];
+      this.sayInstructed = false;
+    }
+  };
+
+  /**
+   * Only the current node's tools (plus end_call, so the caller can always hang up)
+   */
+  narrowTools(toolCtx: llm.ToolContext): llm.ToolContext {
+    const node = this.current;
+    const allowed = new Set(['end_call', ...(node.tools || [])]);
+
+    if (node.type === 'tool') allowed.add(node.tool);
+    if (node.type === 'transfer') allowed.add('transfer_call');
+
+    const narrowed: llm.ToolContext = {};
+    for (const name of allowed) {
+      if (toolCtx[name]) narrowed[name] = toolCtx[name];
+    }
+    if (node.type === 'collect') {
+      narrowed[RECORD_ANSWER_TOOL] = this.createRecordAnswerTool(node.slot);
+    }
+    return narrowed;
+  }
+
+  /**
+   * System message for the current step
+   */
+  stepInstructions(): string {
+    const node = this.current;
+    const lines = [`## Current step: ${node.id}`];
+
+    if (this.pendingSay.length > 0) {
+      lines.push(`Start your reply by telling the caller: ${this.pendingSay.join(' ')}`);
+      this.sayInstructed = true;
+    }
+
+    switch (node.type) {
+      case 'collect':
+        lines.push(
+          `Ask the caller for: ${node.slot.description}.` +
+          (node.slot.type === 'choice' ? ` Valid answers: ${node.slot.options?.join(', ')}.` : '') +
+          ` As soon as they answer, call ${RECORD_ANSWER_TOOL} with the value. Do not move on until it is recorded.`
+        );
+        break;
+      case 'tool':
+        lines.push(`Call the ${node.tool} tool now, using what the caller has told you.`);
+        break;
+      case 'transfer':
+        lines.push(`Tell the caller you are connecting them, then call transfer_call with department "${node.department}".`);
+        break;
+      case 'end':
+        lines.push('Thank the caller, say goodbye and call end_call.');
+        break;
+    }
+
+    if (node.instructions) lines.push(node.instructions);
+
+    const collected = Object.entries(this.slots)
+      .filter(([, value]) => typeof value !== 'object')
+      .map(([name, value]) => `${name}: ${value}`);
+    if (collected.length > 0) {
+      lines.push(`Already collected (do not ask again): ${collected.join(', ')}.`);
+    }
+
+    lines.push('Follow this step only - do not skip ahead or ask for anything else.');
+    return lines.join('\n');
+  }
+
+  private install(tools: llm.ToolContext): void {
+    tools[RECORD_ANSWER_TOOL] = this.createRecordAnswerTool();
+
+    const toolNodeTools = new Set(
+      [...this.nodes.values()].flatMap(node => (node.type === 'tool' ? [node.tool] : []))
+    );
+    for (const name of toolNodeTools) {
+      const tool = tools[name] as llm.FunctionTool<any, any, any> | undefined;
+      if (!tool) {
+        logger.warning('Workflow tool not available to the agent', { tool: name, agentId: this.context.agentId });
+        continue;
+      }
+      tools[name] = {
+        ...tool,
+        execute: async (args: any, opts: any) => {
+          const output = await tool.execute(args, opts);
+          this.onToolResult(name, output);
+          return output;
+        },
+      };
+    }
+  }
+
+  private createRecordAnswerTool(slot?: WorkflowSlot): llm.FunctionTool<{ value: string }, any, ToolResult> {
+    return llm.tool({
+      description: slot
+        ? `Record the caller's answer for ${slot.name} (${slot.description}) once they have told you.`
+        : 'Record the caller\'s answer for the current step.',
+      parameters: {
+        type: 'object',
+        properties: {
+          value: {
+            type: 'string',
+            description: slot?.type === 'choice'
+              ? `One of: ${slot.options?.join(', ')}`
+              : slot?.type === 'yes_no' ? 'yes or no' : 'The answer, as the caller gave it',
+          },
+        },
+        required: ['value'],
+      } as any,
+      execute: async (args) => this.recordAnswer(args.value),
+    });
+  }
+
+  private async recordAnswer(raw: string): Promise<ToolResult> {
+    const node = this.current;
+    if (node.type !== 'collect') {
+      return { success: false, error: 'Nothing to record on this step' };
+    }
+
+    const { value, error } = normalizeSlotValue(node.slot, raw);
+    await this.context.callTracker.logFunctionCall(
+      this.context.sessionId,
+      this.context.organizationId,
+      RECORD_ANSWER_TOOL,
+      { step: node.id, slot: node.slot.name, value: raw },
+      error ? { status: 'invalid', error } : { status: 'recorded', value },
+      { latencyMs: 0 }
+    ).catch(() => {});
+
+    if (error) {
+      return { success: false, error: `${error}. Ask the caller again.` };
+    }
+
+    this.slots[node.slot.name] = value;
+    this.enter(node.next);
+    return { success: true, result: `Recorded ${node.slot.name}.` };
+  }
+
+  private onToolResult(name: string, output: unknown): void {
+    const node = this.current;
+    if (node.type !== 'tool' || node.tool !== name) return;
+
+    const failed = !!output && typeof output === 'object' && (output as ToolResult).success === false;
+    if (failed) {
+      if (node.onError) this.enter(node.onError);
+      return;
+    }
+
+    if (node.saveAs) this.slots[node.saveAs] = output;
+    this.enter(node.next);
+  }
+
+  /**
+   * Move to a node, running through branch and say nodes until one waits for the caller
+   */
+  private enter(nodeId: string): void {
+    const from = this.current?.id;
+    let node = this.nodes.get(nodeId)!;
+
+    for (let steps = 0; steps < MAX_INSTANT_STEPS; steps++) {
+      this.visited.push(node.id);
+
+      if (node.type === 'branch') {
+        const match = node.conditions.find(condition => evaluateCondition(condition, this.slots));
+        node = this.nodes.get(match ? match.next : node.default)!;
+        continue;
+      }
+      if (node.type === 'say') {
+        this.pendingSay.push(node.message);
+        node = this.nodes.get(node.next)!;
+        continue;
+      }
+      break;
+    }
+
+    this.current = node;
+    logger.info('Workflow step', { sessionId: this.context.sessionId, from, to: node.id, type: node.type });
+  }
+}
@@ -8,6 +8,12 @@
  * - PUT /api/v1/agents/:id - Update agent
  * - DELETE /api/v1/agents/:id - Delete agent
  * - PATCH /api/v1/agents/:id/status - Update agent status
+ * - GET /api/v1/agents/:id/usage - Concurrent calls and monthly usage vs limits
+ * - POST /api/v1/agents/:id/preview-prompt - Render prompt/greeting templates with sample data
+ * - POST /api/v1/agents/:id/test - Run a regression test suite (scripted text conversations)
+ * - GET /api/v1/agents/:id/workflow - Get the agent's workflow
+ * - PUT /api/v1/agents/:id/workflow - Validate and save the agent's workflow
+ * - DELETE /api/v1/agents/:id/workflow - Remove the workflow (back to free-form conversation)
  * - GET /api/v1/agents/validate/:id - Validate phone number conflicts
  * - POST /api/v1/agents/route-by-phone - Get active agent for phone number (SIP routing)
  * - POST /api/v1/agents/bind_number - Bind phone number to agent (legacy)
@@ -16,6 +22,89 @@
 import { RequestContext, sendJson, sendError, parseJsonBody } from '../server.js';
 import { logger } from '../../core/logging.js';
 import { getConvexClient, isConvexConfigured } from '../../core/convex-client.js';
+import { validateIVRMenu } from '../../telephony/index.js';
+import { parseTestSuite, runTestSuite, type SuiteResult } from '../../agent/testing/index.js';
+import { getCallLimitService } from '../../services/call-limits.js';
+import { getAgentConfigService, validateDispositions, validateHandoffTargets, validateLanguageSettings, validateQARubric, validateRagSettings, validateRecordingSettings, validateSTTSettings, validateTTSSettings, type AgentConfigData } from '../../services/agent-config.js';
+import { validateWorkflow, type WorkflowValidationContext } from '../../services/agent-workflow.js';
+import { validateFields } from '../../services/agent-fields.js';
+import { getFunctionGenerator } from '../../services/function-generator.js';
+import {
+    extractTemplateVariables,
+    renderPromptTemplate,
+    validatePromptTemplate,
+    type PromptVariables,
+} from '../../services/prompt-template.js';
+
+const OVER_LIMIT_BEHAVIORS = ['reject', 'busy_message', 'queue'];
+
+/**
+ * Validate {{variable}} templates in the prompt, greeting and farewell
+ * @returns List of problems (empty when valid)
+ */
+function validateAgentTemplates(body: { system_prompt?: string; greeting?: string; farewell?: string }): string[] {
+    return [
+        ...(body.system_prompt ? validatePromptTemplate(body.system_prompt, 'system_prompt') : []),
+        ...(body.greeting ? validatePromptTemplate(body.greeting, 'greeting') : []),
+        ...(body.farewell ? validatePromptTemplate(body.farewell, 'farewell') : []),
+    ];
+}
+
+/**
+ * Tools and departments an agent's workflow may use
+ */
+function getWorkflowValidationContext(agentConfig: AgentConfigData): WorkflowValidationContext {
+    const functions = getFunctionGenerator().generateFunctions(agentConfig, {
+        includeDefaults: true,
+        includeKnowledgeSearch: true,
+    });
+
+    return {
+        tools: [
+            'end_call',
+            'transfer_call',
+            'collect_digits',
+            'search_knowledge',
+            ...(agentConfig.handoffTargets?.length ? ['handoff_to_agent'] : []),
+            ...functions.filter(f => f.enabled).map(f => f.name),
+        ],
+        departments: (agentConfig.transferDirectory || []).map(t => t.department),
+    };
+}
+
+/**
+ * Test suite results in API (snake_case) form
+ */
+function formatSuiteResult(result: SuiteResult): Record<string, any> {
+    return {
+        suite: result.suite,
+        agent_id: result.agentId,
+        llm: result.llm,
+        passed: result.passed,
+        total: result.total,
+        failed: result.failed,
+        duration_ms: result.durationMs,
+        tests: result.tests.map(test => ({
+            name: test.name,
+            passed: test.passed,
+            error: test.error ?? null,
+            duration_ms: test.durationMs,
+            greeting: test.greeting,
+            turns: test.turns.map(turn => ({
+                user: turn.user,
+                replies: turn.replies,
+                tool_calls: turn.toolCalls.map(call => ({
+                    name: call.name,
+                    args: call.args,
+                    output: call.output ?? null,
+                    is_error: call.isError ?? false,
+                })),
+                call_ended: turn.callEnded,
+                failures: turn.failures,
+            })),
+        })),
+    };
+}
 
 export async function handleAgentRoutes(ctx: RequestContext): Promise<void> {
     const { pathname, method, query, res, req } = ctx;
@@ -44,7 +133,7 @@ export async function handleAgentRoutes(ctx: RequestContext): Promise<void> {
                 fullBody: body,
             });
             
-            const { tenant_id, name, role, system_prompt, config: agentConfig, ai_persona_name, greeting, farewell, language, phone_country_code, phone_number, phone_location, enable_contextual_enrichment } = body;
+            const { tenant_id, name, role, system_prompt, config: agentConfig, ai_persona_name, greeting, farewell, language, phone_country_code, phone_number, phone_location, enable_contextual_enrichment, transfer_directory, max_concurrent_calls, monthly_call_limit, over_limit_behavior, over_limit_message, max_queue_wait_seconds, billing_cycle_day } = body;
             
             if (!tenant_id) {
                 sendError(res, 'tenant_id is required', 400);
@@ -54,6 +143,85 @@ export async function handleAgentRoutes(ctx: RequestContext): Promise<void> {
                 sendError(res, 'name is required', 400);
                 return;
             }
+            const templateErrors = validateAgentTemplates({ system_prompt, greeting, farewell });
+            if (templateErrors.length > 0) {
+                sendError(res, `Invalid template variables: ${templateErrors.join('; ')}`, 400);
+                return;
+            }
+            if (over_limit_behavior && !OVER_LIMIT_BEHAVIORS.includes(over_limit_behavior)) {
+                sendError(res, `over_limit_behavior must be one of: ${OVER_LIMIT_BEHAVIORS.join(', ')}`, 400);
+                return;
+            }
+            if (agentConfig?.ivrMenu) {
+                const ivrErrors = validateIVRMenu(agentConfig.ivrMenu);
+                if (ivrErrors.length > 0) {
+                    sendError(res, `Invalid IVR menu: ${ivrErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (agentConfig?.stt) {
+                const sttErrors = validateSTTSettings(agentConfig.stt);
+                if (sttErrors.length > 0) {
+                    sendError(res, `Invalid STT settings: ${sttErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (agentConfig?.tts) {
+                const ttsErrors = validateTTSSettings(agentConfig.tts);
+                if (ttsErrors.length > 0) {
+                    sendError(res, `Invalid TTS settings: ${ttsErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (agentConfig?.recording) {
+                const recordingErrors = validateRecordingSettings(agentConfig.recording);
+                if (recordingErrors.length > 0) {
+                    sendError(res, `Invalid recording settings: ${recordingErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (agentConfig?.dispositions) {
+                const dispositionErrors = validateDispositions(agentConfig.dispositions);
+                if (dispositionErrors.length > 0) {
+                    sendError(res, `Invalid dispositions: ${dispositionErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (agentConfig?.qaRubric) {
+                const rubricErrors = validateQARubric(agentConfig.qaRubric);
+                if (rubricErrors.length > 0) {
+                    sendError(res, `Invalid QA rubric: ${rubricErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (agentConfig?.handoffTargets) {
+                const handoffErrors = validateHandoffTargets(agentConfig.handoffTargets);
+                if (handoffErrors.length > 0) {
+                    sendError(res, `Invalid handoff targets: ${handoffErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (agentConfig?.fields) {
+                const fieldErrors = validateFields(agentConfig.fields);
+                if (fieldErrors.length > 0) {
+                    sendError(res, `Invalid fields: ${fieldErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (agentConfig?.rag) {
+                const ragErrors = validateRagSettings(agentConfig.rag);
+                if (ragErrors.length > 0) {
+                    sendError(res, `Invalid RAG settings: ${ragErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (agentConfig) {
+                const languageErrors = validateLanguageSettings(agentConfig);
+                if (languageErrors.length > 0) {
+                    sendError(res, `Invalid language settings: ${languageErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
             
             // Resolve tenant_id (can be Convex ID or slug)
             let organizationId = tenant_id;
@@ -80,6 +248,13 @@ export async function handleAgentRoutes(ctx: RequestContext): Promise<void> {
                 phoneNumber: phone_number,
                 phoneLocation: phone_location,
                 enableContextualEnrichment: enable_contextual_enrichment ?? true,
+                transferDirectory: transfer_directory,
+                maxConcurrentCalls: max_concurrent_calls,
+                monthlyCallLimit: monthly_call_limit,
+                overLimitBehavior: over_limit_behavior,
+                overLimitMessage: over_limit_message,
+                maxQueueWaitSeconds: max_queue_wait_seconds,
+                billingCycleDay: billing_cycle_day,
             });
             
             logger.info('Agent created', { agentId, name, organizationId });
@@ -162,6 +337,13 @@ export async function handleAgentRoutes(ctx: RequestContext): Promise<void> {
                 phone_number: agent.phoneNumber,
                 phone_location: agent.phoneLocation,
                 enable_contextual_enrichment: agent.enableContextualEnrichment,
+                transfer_directory: agent.transferDirectory || [],
+                max_concurrent_calls: agent.maxConcurrentCalls,
+                monthly_call_limit: agent.monthlyCallLimit,
+                over_limit_behavior: agent.overLimitBehavior || 'reject',
+                over_limit_message: agent.overLimitMessage,
+                max_queue_wait_seconds: agent.maxQueueWaitSeconds,
+                billing_cycle_day: agent.billingCycleDay,
                 status: agent.status || 'active',
                 organization_id: agent.organizationId,
                 created_at: agent.createdAt,
@@ -182,6 +364,86 @@ export async function handleAgentRoutes(ctx: RequestContext): Promise<void> {
         try {
             const body = await parseJsonBody(req);
             
+            const templateErrors = validateAgentTemplates(body);
+            if (templateErrors.length > 0) {
+                sendError(res, `Invalid template variables: ${templateErrors.join('; ')}`, 400);
+                return;
+            }
+            if (body.over_limit_behavior && !OVER_LIMIT_BEHAVIORS.includes(body.over_limit_behavior)) {
+                sendError(res, `over_limit_behavior must be one of: ${OVER_LIMIT_BEHAVIORS.join(', ')}`, 400);
+                return;
+            }
+            if (body.config?.ivrMenu) {
+                const ivrErrors = validateIVRMenu(body.config.ivrMenu);
+                if (ivrErrors.length > 0) {
+                    sendError(res, `Invalid IVR menu: ${ivrErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (body.config?.stt) {
+                const sttErrors = validateSTTSettings(body.config.stt);
+                if (sttErrors.length > 0) {
+                    sendError(res, `Invalid STT settings: ${sttErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (body.config?.tts) {
+                const ttsErrors = validateTTSSettings(body.config.tts);
+                if (ttsErrors.length > 0) {
+                    sendError(res, `Invalid TTS settings: ${ttsErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (body.config?.recording) {
+                const recordingErrors = validateRecordingSettings(body.config.recording);
+                if (recordingErrors.length > 0) {
+                    sendError(res, `Invalid recording settings: ${recordingErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (body.config?.dispositions) {
+                const dispositionErrors = validateDispositions(body.config.dispositions);
+                if (dispositionErrors.length > 0) {
+                    sendError(res, `Invalid dispositions: ${dispositionErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (body.config?.qaRubric) {
+                const rubricErrors = validateQARubric(body.config.qaRubric);
+                if (rubricErrors.length > 0) {
+                    sendError(res, `Invalid QA rubric: ${rubricErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (body.config?.handoffTargets) {
+                const handoffErrors = validateHandoffTargets(body.config.handoffTargets);
+                if (handoffErrors.length > 0) {
+                    sendError(res, `Invalid handoff targets: ${handoffErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (body.config?.fields) {
+                const fieldErrors = validateFields(body.config.fields);
+                if (fieldErrors.length > 0) {
+                    sendError(res, `Invalid fields: ${fieldErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (body.config?.rag) {
+                const ragErrors = validateRagSettings(body.config.rag);
+                if (ragErrors.length > 0) {
+                    sendError(res, `Invalid RAG settings: ${ragErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            if (body.config) {
+                const languageErrors = validateLanguageSettings(body.config);
+                if (languageErrors.length > 0) {
+                    sendError(res, `Invalid language settings: ${languageErrors.join('; ')}`, 400);
+                    return;
+                }
+            }
+            
             await convex.mutation('agents:update', {
                 agentId,
                 name: body.name,
@@ -196,6 +458,13 @@ export async function handleAgentRoutes(ctx: RequestContext): Promise<void> {
                 phoneNumber: body.phone_number,
                 phoneLocation: body.phone_location,
                 enableContextualEnrichment: body.enable_contextual_enrichment,
+                transferDirectory: body.transfer_directory,
+                maxConcurrentCalls: body.max_concurrent_calls,
+                monthlyCallLimit: body.monthly_call_limit,
+                overLimitBehavior: body.over_limit_behavior,
+                overLimitMessage: body.over_limit_message,
+                maxQueueWaitSeconds: body.max_queue_wait_seconds,
+                billingCycleDay: body.billing_cycle_day,
             });
             
             sendJson(res, {
@@ -211,6 +480,199 @@ export async function handleAgentRoutes(ctx: RequestContext): Promise<void> {
         return;
     }
     
+    // GET /api/v1/agents/:id/usage
+    const usageMatch = pathname.match(/^\/api\/v1\/agents\/([^\/]+)\/usage$/);
+    if (usageMatch && method === 'GET') {
+        const agentId = usageMatch[1];
+        
+        try {
+            const usage = await getCallLimitService().getUsage(agentId);
+            
+            if (!usage) {
+                sendError(res, 'Agent not found', 404);
+                return;
+            }
+            
+            sendJson(res, {
+                agent_id: usage.agentId,
+                organization_id: usage.organizationId,
+                current_concurrent_calls: usage.currentConcurrentCalls,
+                max_concurrent_calls: usage.maxConcurrentCalls,
+                monthly_call_count: usage.monthlyCallCount,
+                monthly_call_limit: usage.monthlyCallLimit,
+                rejected_count: usage.rejectedCount,
+                cycle_start: usage.cycleStart,
+                cycle_end: usage.cycleEnd,
+                over_limit_behavior: usage.overLimitBehavior,
+                active_calls: usage.activeCalls.map(c => ({
+                    room_name: c.slotKey,
+                    direction: c.direction,
+                    started_at: c.acquiredAt,
+                })),
+            });
+            
+        } catch (error) {
+            logger.error('Get agent usage failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+    
+    // POST /api/v1/agents/:id/preview-prompt
+    const previewMatch = pathname.match(/^\/api\/v1\/agents\/([^\/]+)\/preview-prompt$/);
+    if (previewMatch && method === 'POST') {
+        const agentId = previewMatch[1];
+        
+        try {
+            const body = await parseJsonBody(req);
+            const agent = await convex.query('agents:getById', { agentId });
+            
+            if (!agent) {
+                sendError(res, 'Agent not found', 404);
+                return;
+            }
+            
+            // Unsaved drafts can be previewed by sending them in the body
+            const prompt: string = body.system_prompt ?? agent.fullPrompt ?? agent.systemPrompt ?? '';
+            const greeting: string = body.greeting ?? agent.greeting ?? '';
+            const farewell: string = body.farewell ?? agent.farewell ?? '';
+            const sampleData: PromptVariables = body.sample_data || {};
+            
+            const renderedPrompt = renderPromptTemplate(prompt, sampleData);
+            const renderedGreeting = renderPromptTemplate(greeting, sampleData);
+            const renderedFarewell = renderPromptTemplate(farewell, sampleData);
+            
+            const variables = [prompt, greeting, farewell]
+                .flatMap(text => extractTemplateVariables(text))
+                .map(ref => ref.path);
+            
+            sendJson(res, {
+                agent_id: agentId,
+                rendered_prompt: renderedPrompt.text,
+                rendered_greeting: renderedGreeting.text,
+                rendered_farewell: renderedFarewell.text,
+                variables: [...new Set(variables)],
+                missing_variables: [...new Set([
+                    ...renderedPrompt.missing,
+                    ...renderedGreeting.missing,
+                    ...renderedFarewell.missing,
+                ])],
+                errors: validateAgentTemplates({ system_prompt: prompt, greeting, farewell }),
+            });
+            
+        } catch (error) {
+            logger.error('Preview prompt failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+    
+    // POST /api/v1/agents/:id/test
+    // Body: { suite: <suite object or YAML/JSON text>, mock_llm?: boolean, turn_timeout_seconds?: number }
+    const testMatch = pathname.match(/^\/api\/v1\/agents\/([^\/]+)\/test$/);
+    if (testMatch && method === 'POST') {
+        const agentId = testMatch[1];
+        
+        try {
+            const body = await parseJsonBody(req);
+            if (!body.suite) {
+                sendError(res, 'suite is required', 400);
+                return;
+            }
+            
+            const { suite, errors } = parseTestSuite(body.suite);
+            if (!suite) {
+                sendError(res, `Invalid test suite: ${errors.join('; ')}`, 400);
+                return;
+            }
+            
+            const agent = await convex.query('agents:getById', { agentId });
+            if (!agent) {
+                sendError(res, 'Agent not found', 404);
+                return;
+            }
+            
+            const result = await runTestSuite(suite, {
+                agentId,
+                mockLlm: body.mock_llm === true,
+                turnTimeoutMs: body.turn_timeout_seconds ? body.turn_timeout_seconds * 1000 : undefined,
+            });
+            
+            sendJson(res, formatSuiteResult(result));
+            
+        } catch (error) {
+            logger.error('Agent test run failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+    
+    // GET|PUT|DELETE /api/v1/agents/:id/workflow
+    // PUT body: { workflow: { start, nodes: [...] } }
+    const workflowMatch = pathname.match(/^\/api\/v1\/agents\/([^\/]+)\/workflow$/);
+    if (workflowMatch && ['GET', 'PUT', 'DELETE'].includes(method)) {
+        const agentId = workflowMatch[1];
+        
+        try {
+            const agent = await convex.query('agents:getById', { agentId });
+            if (!agent) {
+                sendError(res, 'Agent not found', 404);
+                return;
+            }
+            
+            if (method === 'GET') {
+                sendJson(res, {
+                    agent_id: agentId,
+                    workflow: agent.workflow ? JSON.parse(agent.workflow) : null,
+                });
+                return;
+            }
+            
+            if (method === 'DELETE') {
+                await convex.mutation('agents:updateWorkflow', { agentId });
+                getAgentConfigService().clearCache(agentId);
+                sendJson(res, { success: true, message: 'Workflow removed', agent_id: agentId });
+                return;
+            }
+            
+            const body = await parseJsonBody(req);
+            if (!body.workflow) {
+                sendError(res, 'workflow is required', 400);
+                return;
+            }
+            
+            const agentConfig = await getAgentConfigService().loadAgentConfig(agentId);
+            if (!agentConfig) {
+                sendError(res, 'Agent not found', 404);
+                return;
+            }
+            
+            const workflowErrors = validateWorkflow(body.workflow, getWorkflowValidationContext(agentConfig));
+            if (workflowErrors.length > 0) {
+                sendError(res, `Invalid workflow: ${workflowErrors.join('; ')}`, 400);
+                return;
+            }
+            
+            await convex.mutation('agents:updateWorkflow', {
+                agentId,
+                workflow: JSON.stringify(body.workflow),
+            });
+            getAgentConfigService().clearCache(agentId);
+            
+            sendJson(res, {
+                success: true,
+                message: 'Workflow saved',
+                agent_id: agentId,
+                node_count: body.workflow.nodes.length,
+            });
+            
+        } catch (error) {
+            logger.error('Agent workflow request failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+    
     // PATCH /api/v1/agents/:id/status
     const statusMatch = pathname.match(/^\/api\/v1\/agents\/([^\/]+)\/status$/);
     if (statusMatch && method === 'PATCH') {
@@ -7,7 +7,10 @@
  * - GET /api/v1/analytics/agent/:agent_id - Per-agent analytics
  * - GET /api/v1/analytics/latency/:agent_id - Latency statistics
  * - GET /api/v1/analytics/functions/:agent_id - Function call statistics
+ * - GET /api/v1/analytics/failover - Provider failover counts
  * - GET /api/v1/analytics/health - System health metrics
+ * - GET /api/v1/analytics/campaigns - Outbound campaign outcomes
+ * - GET /api/v1/analytics/charts/qa - QA scorecard trends
  */
 
 import { RequestContext, sendJson, sendError } from '../server.js';
@@ -208,6 +211,34 @@ export async function handleAnalyticsRoutes(ctx: RequestContext): Promise<void>
         return;
     }
     
+    // GET /api/v1/analytics/failover?tenant_id=xxx&agent_id=xxx&time_range=24
+    if (pathname === '/api/v1/analytics/failover' && method === 'GET') {
+        const tenantId = query.tenant_id;
+        
+        if (!tenantId) {
+            sendError(res, 'tenant_id query parameter is required', 400);
+            return;
+        }
+        
+        try {
+            const failoverStats = await convex.query('callMetrics:getFailoverStats', {
+                organizationId: tenantId,
+                agentId: query.agent_id || undefined,
+                timeRange: parseInt(query.time_range || '24', 10),
+            });
+            
+            sendJson(res, {
+                status: 'success',
+                ...failoverStats,
+            });
+            
+        } catch (error) {
+            logger.error('Get failover stats failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+    
     // GET /api/v1/analytics/health?tenant_id=xxx
     if (pathname === '/api/v1/analytics/health' && method === 'GET') {
         const tenantId = query.tenant_id;
@@ -354,6 +385,34 @@ export async function handleAnalyticsRoutes(ctx: RequestContext): Promise<void>
         return;
     }
     
+    // GET /api/v1/analytics/campaigns?tenant_id=xxx&agent_id=xxx
+    if (pathname === '/api/v1/analytics/campaigns' && method === 'GET') {
+        const tenantId = query.tenant_id;
+        const agentId = query.agent_id;
+        
+        if (!tenantId) {
+            sendError(res, 'tenant_id query parameter is required', 400);
+            return;
+        }
+        
+        try {
+            const campaignData = await convex.query('analytics:getCampaignAnalytics', {
+                organizationId: tenantId,
+                agentId: agentId || undefined,
+            });
+            
+            sendJson(res, {
+                status: 'success',
+                ...campaignData,
+            });
+            
+        } catch (error) {
+            logger.error('Get campaign analytics failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+    
     // GET /api/v1/analytics/charts/status-distribution?tenant_id=xxx&agent_id=xxx&days=30
     if (pathname === '/api/v1/analytics/charts/status-distribution' && method === 'GET') {
         const tenantId = query.tenant_id;
@@ -532,6 +591,36 @@ export async function handleAnalyticsRoutes(ctx: RequestContext): Promise<void>
         return;
     }
     
+    // GET /api/v1/analytics/charts/qa?tenant_id=xxx&agent_id=xxx&days=30
+    if (pathname === '/api/v1/analytics/charts/qa' && method === 'GET') {
+        const tenantId = query.tenant_id;
+        const agentId = query.agent_id;
+        const days = parseInt(query.days || '30', 10);
+        
+        if (!tenantId) {
+            sendError(res, 'tenant_id query parameter is required', 400);
+            return;
+        }
+        
+        try {
+            const qaData = await convex.query('analytics:getQAScoreTrends', {
+                organizationId: tenantId,
+                agentId: agentId || undefined,
+                days,
+            });
+            
+            sendJson(res, {
+                status: 'success',
+                ...qaData,
+            });
+            
+        } catch (error) {
+            logger.error('Get QA analytics failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+    
     // GET /api/v1/analytics/charts/dashboard?tenant_id=xxx&agent_id=xxx&days=7
     if (pathname === '/api/v1/analytics/charts/dashboard' && method === 'GET') {
         const tenantId = query.tenant_id;
@@ -3,21 +3,37 @@
  * 
  * Endpoints:
  * - GET /api/v1/calls - List calls
+ * - GET /api/v1/calls/live - List calls in progress (live monitoring)
+ * - GET /api/v1/calls/low-scoring - Calls that failed (or scored below max_score on) their QA rubric
  * - GET /api/v1/calls/:session_id - Get call details
+ * - GET /api/v1/calls/:session_id/live - Server-sent event stream of an active call
  * - GET /api/v1/calls/:session_id/transcript - Get call transcript
+ * - POST /api/v1/calls/:session_id/analyze - Re-run post-call summary, sentiment and disposition
+ * - GET /api/v1/calls/:session_id/score - QA scorecard
+ * - POST /api/v1/calls/:session_id/grade - Re-grade the call against the agent's QA rubric
+ * - GET /api/v1/calls/:session_id/recording - Recording details with playback/download links
+ * - GET /api/v1/calls/:session_id/recording/download - Redirect to the recording download
+ * - POST /api/v1/calls/:session_id/supervisor/:action - Supervisor listen, whisper, takeover, release
  * - POST /api/v1/calls/outbound - Initiate outbound call (telephony)
  */
 
 import { RequestContext, sendJson, sendError, parseBody } from '../server.js';
+import { config } from '../../core/config.js';
 import { logger } from '../../core/logging.js';
 import { getConvexClient, isConvexConfigured } from '../../core/convex-client.js';
 import {
     createOutboundCallHandler,
     createLatencyTracker,
+    generateSIPRoomName,
     isOutboundEnabled,
     validatePhoneNumber,
     type OutboundCallRequest,
 } from '../../telephony/index.js';
+import { getCallLimitService } from '../../services/call-limits.js';
+import { getCallAnalysisService } from '../../services/call-analysis.js';
+import { getCallQAService } from '../../services/call-qa.js';
+import { getCallRecordingService } from '../../services/call-recording.js';
+import { getSupervisorService, type SupervisorAction } from '../../services/supervisor.js';
 
 export async function handleCallRoutes(ctx: RequestContext): Promise<void> {
     const { pathname, method, query, res } = ctx;
@@ -88,6 +104,7 @@ export async function handleCallRoutes(ctx: RequestContext): Promise<void> {
                         ended_at: s.endedAt,
                         duration_seconds: durationSeconds,
                         call_type: s.callType,
+                        analysis: s.analysis ? formatAnalysis(s.analysis) : null,
                     };
                 }),
             });
@@ -99,6 +116,73 @@ export async function handleCallRoutes(ctx: RequestContext): Promise<void> {
         return;
     }
     
+    // GET /api/v1/calls/low-scoring?tenant_id=xxx&agent_id=xxx&max_score=70&days=30&limit=50
+    // Must be matched before /:session_id
+    if (pathname === '/api/v1/calls/low-scoring' && method === 'GET') {
+        const tenantId = query.tenant_id;
+        
+        if (!tenantId) {
+            sendError(res, 'tenant_id is required', 400);
+            return;
+        }
+        
+        try {
+            const result = await convex.query('callScores:listLowScoring', {
+                organizationId: tenantId,
+                agentId: query.agent_id || undefined,
+                maxScore: query.max_score !== undefined ? parseFloat(query.max_score) : undefined,
+                days: parseInt(query.days || '30', 10),
+                limit: parseInt(query.limit || '50', 10),
+            });
+            
+            sendJson(res, {
+                total: result.total,
+                items: result.items.map((s: any) => formatScorecard(s)),
+            });
+            
+        } catch (error) {
+            logger.error('List low-scoring calls failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+    
+    // GET /api/v1/calls/live?tenant_id=xxx&agent_id=xxx
+    // Must be matched before /:session_id
+    if (pathname === '/api/v1/calls/live' && method === 'GET') {
+        const tenantId = query.tenant_id;
+        const agentId = query.agent_id;
+        
+        if (!tenantId) {
+            sendError(res, 'tenant_id is required', 400);
+            return;
+        }
+        
+        try {
+            const sessions = await convex.query('callLiveEvents:listActiveCalls', {
+                organizationId: tenantId,
+                agentId: agentId || undefined,
+            });
+            
+            sendJson(res, {
+                total: sessions.length,
+                items: sessions.map((s: any) => formatLiveCall(s)),
+            });
+            
+        } catch (error) {
+            logger.error('List live calls failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+    
+    // GET /api/v1/calls/:session_id/live - text/event-stream
+    const liveMatch = pathname.match(/^\/api\/v1\/calls\/([^/]+)\/live$/);
+    if (liveMatch && method === 'GET') {
+        await streamLiveCall(ctx, liveMatch[1]);
+        return;
+    }
+    
     // GET /api/v1/calls/:session_id
     const getMatch = pathname.match(/^\/api\/v1\/calls\/([^/]+)$/);
     if (getMatch && method === 'GET') {
@@ -127,6 +211,28 @@ export async function handleCallRoutes(ctx: RequestContext): Promise<void> {
                 started_at: session.startedAt,
                 ended_at: session.endedAt,
                 duration_seconds: durationSeconds,
+                recording_status: session.recordingStatus || null,
+                supervisor_actions: (session.supervisorActions || []).map((a: any) => ({
+                    action: a.action,
+                    supervisor: a.supervisor,
+                    message: a.message,
+                    participant_identity: a.participantIdentity,
+                    at: a.at,
+                })),
+                agent_handoffs: (session.agentHandoffs || []).map((h: any) => ({
+                    from_agent_id: h.fromAgentId,
+                    to_agent_id: h.toAgentId,
+                    source: h.source,
+                    reason: h.reason,
+                    at: h.at,
+                })),
+                collected_fields: (session.collectedFields || []).map((f: any) => ({
+                    name: f.name,
+                    value: f.value,
+                    confirmed: f.confirmed,
+                    collected_at: f.collectedAt,
+                })),
+                analysis: session.analysis ? formatAnalysis(session.analysis) : null,
                 config: session.config ? JSON.parse(session.config) : null,
             });
             
@@ -148,7 +254,7 @@ export async function handleCallRoutes(ctx: RequestContext): Promise<void> {
             // Format as conversation
             const conversation = (interactions || []).map((i: any) => {
                 if (i.interactionType === 'user_message') {
-                    return { role: 'user', content: i.userInput, timestamp: i.timestamp };
+                    return { role: 'user', content: i.userInput, sentiment: i.sentiment ?? null, timestamp: i.timestamp };
                 } else if (i.interactionType === 'agent_response') {
                     return { role: 'assistant', content: i.agentResponse, timestamp: i.timestamp };
                 } else if (i.interactionType === 'function_call') {
@@ -176,6 +282,219 @@ export async function handleCallRoutes(ctx: RequestContext): Promise<void> {
         return;
     }
     
+    // POST /api/v1/calls/:session_id/analyze
+    const analyzeMatch = pathname.match(/^\/api\/v1\/calls\/([^/]+)\/analyze$/);
+    if (analyzeMatch && method === 'POST') {
+        const sessionId = analyzeMatch[1];
+        
+        try {
+            const analysisService = getCallAnalysisService();
+            if (!analysisService.isAvailable()) {
+                sendError(res, 'Post-call analysis is not configured (needs OPENAI_API_KEY)', 503);
+                return;
+            }
+            
+            const session = await convex.query('callSessions:getBySessionId', { sessionId });
+            if (!session) {
+                sendError(res, 'Call not found', 404);
+                return;
+            }
+            if (session.status === 'active') {
+                sendError(res, 'Call is still in progress', 409);
+                return;
+            }
+            
+            const analysis = await analysisService.analyzeCall(sessionId);
+            if (!analysis) {
+                sendError(res, 'Nothing to analyze - the caller did not speak', 422);
+                return;
+            }
+            
+            sendJson(res, { session_id: sessionId, analysis: formatAnalysis(analysis) });
+            
+        } catch (error) {
+            logger.error('Analyze call failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+    
+    // GET /api/v1/calls/:session_id/score
+    const scoreMatch = pathname.match(/^\/api\/v1\/calls\/([^/]+)\/score$/);
+    if (scoreMatch && method === 'GET') {
+        try {
+            const scorecard = await convex.query('callScores:getBySessionId', { sessionId: scoreMatch[1] });
+            if (!scorecard) {
+                sendError(res, 'Call has not been graded', 404);
+                return;
+            }
+            sendJson(res, formatScorecard(scorecard));
+            
+        } catch (error) {
+            logger.error('Get call score failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+    
+    // POST /api/v1/calls/:session_id/grade
+    const gradeMatch = pathname.match(/^\/api\/v1\/calls\/([^/]+)\/grade$/);
+    if (gradeMatch && method === 'POST') {
+        const sessionId = gradeMatch[1];
+        
+        try {
+            const qaService = getCallQAService();
+            if (!qaService.isAvailable()) {
+                sendError(res, 'QA grading is not configured (needs OPENAI_API_KEY)', 503);
+                return;
+            }
+            
+            const session = await convex.query('callSessions:getBySessionId', { sessionId });
+            if (!session) {
+                sendError(res, 'Call not found', 404);
+                return;
+            }
+            if (session.status === 'active') {
+                sendError(res, 'Call is still in progress', 409);
+                return;
+            }
+            
+            const scorecard = await qaService.gradeCall(sessionId);
+            if (!scorecard) {
+                sendError(res, 'Nothing to grade - the agent has no QA rubric or the call has no transcript', 422);
+                return;
+            }
+            
+            sendJson(res, formatScorecard(scorecard));
+            
+        } catch (error) {
+            logger.error('Grade call failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+    
+    // GET /api/v1/calls/:session_id/recording[/download]
+    const recordingMatch = pathname.match(/^\/api\/v1\/calls\/([^/]+)\/recording(\/download)?$/);
+    if (recordingMatch && method === 'GET') {
+        const sessionId = recordingMatch[1];
+        const isDownload = !!recordingMatch[2];
+        
+        try {
+            const recording = await convex.query('callRecordings:getBySessionId', { sessionId });
+            
+            if (!recording) {
+                sendError(res, 'Recording not found', 404);
+                return;
+            }
+            if (recording.status === 'deleting' || recording.status === 'deleted' || !recording.recordingKey) {
+                sendError(res, 'Recording was deleted by the retention policy', 410);
+                return;
+            }
+            
+            const recordingService = getCallRecordingService();
+            if (!recordingService.isConfigured()) {
+                sendError(res, 'Recording storage not configured', 503);
+                return;
+            }
+            
+            const urls = recordingService.getRecordingUrls(recording.recordingKey, `call-${sessionId}.ogg`);
+            
+            if (isDownload) {
+                res.writeHead(302, { Location: urls.downloadUrl, 'Access-Control-Allow-Origin': '*' });
+                res.end();
+                return;
+            }
+            
+            sendJson(res, {
+                session_id: sessionId,
+                status: recording.status,
+                format: 'ogg',
+                started_at: recording.startedAt,
+                expires_at: recording.expiresAt,
+                playback_url: urls.playbackUrl,
+                download_url: urls.downloadUrl,
+                url_expires_in_seconds: urls.expiresIn,
+            });
+            
+        } catch (error) {
+            logger.error('Get recording failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+    
+    // POST /api/v1/calls/:session_id/supervisor/:action
+    const supervisorMatch = pathname.match(/^\/api\/v1\/calls\/([^/]+)\/supervisor\/(listen|whisper|takeover|release)$/);
+    if (supervisorMatch && method === 'POST') {
+        const sessionId = supervisorMatch[1];
+        const action = supervisorMatch[2] as SupervisorAction;
+        
+        try {
+            const body = await parseBody<{ supervisor?: string; message?: string }>(ctx.req);
+            const supervisor = body.supervisor?.trim() || 'supervisor';
+            const message = body.message?.trim();
+            
+            if (action === 'whisper' && !message) {
+                sendError(res, 'message is required', 400);
+                return;
+            }
+            
+            const session = await convex.query('callSessions:getBySessionId', { sessionId });
+            if (!session) {
+                sendError(res, 'Call not found', 404);
+                return;
+            }
+            if (session.status !== 'active' || !session.roomName) {
+                sendError(res, 'Call is not active', 409);
+                return;
+            }
+            
+            const supervisorService = getSupervisorService();
+            
+            // Whisper, takeover and release are carried out by the agent in the room
+            if (action !== 'listen') {
+                const command = action === 'whisper'
+                    ? { action, supervisor, message: message! }
+                    : { action, supervisor };
+                const delivered = await supervisorService.sendCommand(session.roomName, command);
+                if (!delivered) {
+                    sendError(res, 'No agent is connected to this call', 409);
+                    return;
+                }
+            }
+            
+            // Listen and takeover join the room from the browser
+            const join = action === 'listen' || action === 'takeover'
+                ? await supervisorService.createJoin(session.roomName, supervisor, action)
+                : null;
+            
+            await supervisorService.recordAction(sessionId, action, supervisor, {
+                message,
+                participantIdentity: join?.identity,
+            });
+            
+            sendJson(res, {
+                success: true,
+                session_id: sessionId,
+                action,
+                supervisor,
+                ...(join && {
+                    participant_identity: join.identity,
+                    token: join.token,
+                    livekit_url: join.livekitUrl,
+                    join_url: join.joinUrl,
+                    expires_in: join.expiresIn,
+                }),
+            });
+            
+        } catch (error) {
+            logger.error('Supervisor action failed', { sessionId, action, error: (error as Error).message });
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+    
     // POST /api/v1/calls/outbound - Initiate outbound call
     if (pathname === '/api/v1/calls/outbound' && method === 'POST') {
         try {
@@ -208,6 +527,30 @@ export async function handleCallRoutes(ctx: RequestContext): Promise<void> {
                 return;
             }
             
+            // Reserve a call slot before dialing (room name is the slot key)
+            const roomName = body.roomName || generateSIPRoomName(body.organizationId, body.agentId);
+            const callLimits = getCallLimitService();
+            const admission = await callLimits.acquireSlot({
+                agentId: body.agentId,
+                organizationId: body.organizationId,
+                slotKey: roomName,
+                direction: 'outbound',
+            });
+            
+            if (!admission.allowed) {
+                await callLimits.recordRejection(body.agentId, body.organizationId);
+                sendJson(res, {
+                    success: false,
+                    error: 'Agent call limit reached',
+                    reason: admission.reason,
+                    current_concurrent_calls: admission.currentConcurrentCalls,
+                    max_concurrent_calls: admission.maxConcurrentCalls,
+                    monthly_call_count: admission.monthlyCallCount,
+                    monthly_call_limit: admission.monthlyCallLimit,
+                }, 429);
+                return;
+            }
+            
             // Create latency tracker and outbound handler
             const latencyTracker = createLatencyTracker(`outbound_${Date.now()}`);
             const outboundHandler = createOutboundCallHandler(latencyTracker);
@@ -217,12 +560,13 @@ export async function handleCallRoutes(ctx: RequestContext): Promise<void> {
                 organizationId: body.organizationId,
                 agentId: body.agentId,
                 phoneNumber: phoneValidation.e164!,
-                roomName: body.roomName,
+                roomName,
                 ringTimeout: body.ringTimeout,
                 metadata: body.metadata,
             });
             
             if (!response.success) {
+                await callLimits.releaseSlot(roomName);
                 sendError(res, response.error || 'Failed to initiate call', 500);
                 return;
             }
@@ -252,3 +596,147 @@ export async function handleCallRoutes(ctx: RequestContext): Promise<void> {
     
     sendError(res, 'Not Found', 404);
 }
+
+// ============================================
+// Live monitoring
+// ============================================
+
+// Comment line sent when nothing else was written, so proxies keep the stream open
+const LIVE_HEARTBEAT_MS = 15_000;
+
+/**
+ * Active call summary for the live monitoring list
+ */
+function formatAnalysis(analysis: any): Record<string, any> {
+    return {
+        summary: analysis.summary,
+        sentiment: analysis.sentiment,
+        sentiment_score: analysis.sentimentScore,
+        disposition: analysis.disposition,
+        disposition_reason: analysis.dispositionReason ?? null,
+        entities: analysis.entities,
+        model: analysis.model,
+        analyzed_at: analysis.analyzedAt,
+    };
+}
+
+function formatScorecard(scorecard: any): Record<string, any> {
+    return {
+        session_id: scorecard.sessionId,
+        agent_id: scorecard.agentId,
+        score: scorecard.score,
+        passed: scorecard.passed,
+        passing_score: scorecard.passingScore,
+        criteria: scorecard.criteria.map((c: any) => ({
+            id: c.id,
+            description: c.description,
+            weight: c.weight,
+            critical: c.critical,
+            result: c.result,
+            evidence: c.evidence ?? null,
+        })),
+        model: scorecard.model,
+        graded_at: scorecard.gradedAt,
+    };
+}
+
+function formatLiveCall(session: any): Record<string, any> {
+    return {
+        session_id: session.sessionId,
+        agent_id: session.agentId,
+        call_type: session.callType,
+        phone_number: session.callerPhoneNumber || session.destinationPhoneNumber,
+        status: session.status,
+        agent_state: session.liveAgentState || null,
+        started_at: session.startedAt,
+        last_activity_at: session.lastActivityAt || session.startedAt,
+        duration_seconds: Math.floor((Date.now() - session.startedAt) / 1000),
+    };
+}
+
+/**
+ * Live event in API shape
+ */
+function formatLiveEvent(event: any): Record<string, any> {
+    return {
+        type: event.eventType,
+        text: event.text,
+        language: event.language,
+        function_name: event.functionName,
+        params: event.functionParams ? JSON.parse(event.functionParams) : undefined,
+        result: event.functionResult ? JSON.parse(event.functionResult) : undefined,
+        state: event.state,
+        timestamp: event.timestamp,
+    };
+}
+
+/**
+ * Stream an active call as server-sent events
+ *
+ * Events: `call` (session snapshot), `user_message`, `agent_response`,
+ * `function_call`, `agent_state`, and `ended` once the call is over.
+ * Each event carries an id, so a reconnecting EventSource resumes from
+ * Last-Event-ID instead of replaying the whole call.
+ */
+async function streamLiveCall(ctx: RequestContext, sessionId: string): Promise<void> {
+    const { req, res } = ctx;
+    const convex = getConvexClient();
+    
+    const session = await convex.query('callSessions:getBySessionId', { sessionId });
+    if (!session) {
+        sendError(res, 'Call not found', 404);
+        return;
+    }
+    
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+        'Access-Control-Allow-Origin': '*',
+    });
+    
+    let closed = false;
+    req.on('close', () => {
+        closed = true;
+    });
+    
+    let lastWriteAt = Date.now();
+    const send = (event: string, data: any, id?: number) => {
+        res.write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        lastWriteAt = Date.now();
+    };
+    
+    send('call', formatLiveCall(session));
+    logger.info('Live call stream opened', { sessionId });
+    
+    let cursor = parseFloat(String(req.headers['last-event-id'] || '0')) || 0;
+    
+    while (!closed) {
+        try {
+            const result = await convex.query('callLiveEvents:listSince', { sessionId, after: cursor });
+            
+            for (const event of result.events) {
+                cursor = event._creationTime;
+                send(event.eventType, formatLiveEvent(event), cursor);
+            }
+            
+            if (result.status !== 'active' && result.events.length === 0) {
+                send('ended', { session_id: sessionId, status: result.status });
+                break;
+            }
+        } catch (error) {
+            logger.warning('Live call poll failed', { sessionId, error: (error as Error).message });
+        }
+        
+        if (Date.now() - lastWriteAt >= LIVE_HEARTBEAT_MS) {
+            res.write(': heartbeat\n\n');
+            lastWriteAt = Date.now();
+        }
+        
+        await new Promise(resolve => setTimeout(resolve, config.monitoring.pollIntervalMs));
+    }
+    
+    logger.info('Live call stream closed', { sessionId });
+    res.end();
+}
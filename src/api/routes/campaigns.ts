@@ -0,0 +1,564 @@
+/**
+ * Campaign Routes
+ *
+ * Endpoints:
+ * - POST /api/v1/campaigns - Create campaign
+ * - GET /api/v1/campaigns?tenant_id=xxx - List campaigns by organization
+ * - GET /api/v1/campaigns/:id - Get campaign with outcome stats
+ * - PUT /api/v1/campaigns/:id - Update campaign settings
+ * - DELETE /api/v1/campaigns/:id - Delete campaign (draft/cancelled/completed)
+ * - POST /api/v1/campaigns/:id/contacts - Upload contacts (CSV file, CSV text or JSON)
+ * - GET /api/v1/campaigns/:id/contacts - List contacts and their outcomes
+ * - POST /api/v1/campaigns/:id/start|pause|resume|cancel - Change campaign status
+ * - GET /api/v1/campaigns/:id/stats - Per-contact outcome rollup
+ * - GET /api/v1/campaigns/dnc?tenant_id=xxx - List do-not-call numbers
+ * - POST /api/v1/campaigns/dnc - Add numbers to the do-not-call list
+ * - DELETE /api/v1/campaigns/dnc/:phone?tenant_id=xxx - Remove a do-not-call number
+ */
+
+import { RequestContext, sendJson, sendError, parseJsonBody, parseMultipartBody } from '../server.js';
+import { logger } from '../../core/logging.js';
+import { getConvexClient, isConvexConfigured } from '../../core/convex-client.js';
+import { parseContactsCsv, type CampaignContactInput } from '../../services/campaigns.js';
+import { validatePhoneNumber } from '../../telephony/index.js';
+
+/**
+ * Contacts sent to Convex per mutation
+ */
+const CONTACT_BATCH_SIZE = 200;
+
+/**
+ * Map a campaign document to the API shape
+ */
+function toCampaignResponse(campaign: any) {
+    return {
+        id: campaign._id,
+        organization_id: campaign.organizationId,
+        agent_id: campaign.agentId,
+        name: campaign.name,
+        status: campaign.status,
+        timezone: campaign.timezone,
+        calling_windows: (campaign.callingWindows || []).map((w: any) => ({
+            days: w.days,
+            start_time: w.startTime,
+            end_time: w.endTime,
+        })),
+        max_concurrent_dials: campaign.maxConcurrentDials,
+        retry_policy: {
+            max_attempts: campaign.retryPolicy?.maxAttempts,
+            retry_delay_minutes: campaign.retryPolicy?.retryDelayMinutes,
+            retry_on: campaign.retryPolicy?.retryOn,
+        },
+        start_at: campaign.startAt,
+        end_at: campaign.endAt,
+        started_at: campaign.startedAt,
+        completed_at: campaign.completedAt,
+        created_at: campaign.createdAt,
+        updated_at: campaign.updatedAt,
+    };
+}
+
+/**
+ * Map campaign stats to the API shape
+ */
+function toStatsResponse(stats: any) {
+    return {
+        total_contacts: stats.totalContacts,
+        by_status: stats.byStatus,
+        by_outcome: stats.byOutcome,
+        total_attempts: stats.totalAttempts,
+        contacts_dialed: stats.contactsDialed,
+        answer_rate: stats.answerRate,
+        avg_call_duration_seconds: stats.avgCallDurationSeconds,
+        remaining: stats.remaining,
+    };
+}
+
+/**
+ * Convert snake_case campaign settings from a request body to Convex args
+ * @returns Settings, or an error message
+ */
+function parseCampaignSettings(body: any): { settings: Record<string, any> } | { error: string } {
+    const settings: Record<string, any> = {};
+
+    if (body.timezone !== undefined) {
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone: body.timezone });
+        } catch {
+            return { error: `Unknown timezone: ${body.timezone}` };
+        }
+        settings.timezone = body.timezone;
+    }
+
+    if (body.calling_windows !== undefined) {
+        if (!Array.isArray(body.calling_windows)) {
+            return { error: 'calling_windows must be an array' };
+        }
+        const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+        for (const w of body.calling_windows) {
+            if (!Array.isArray(w.days) || w.days.some((d: any) => !Number.isInteger(d) || d < 0 || d > 6)) {
+                return { error: 'calling_windows[].days must be weekday numbers 0 (Sunday) to 6 (Saturday)' };
+            }
+            if (!timePattern.test(w.start_time || '') || !timePattern.test(w.end_time || '')) {
+                return { error: 'calling_windows[].start_time / end_time must be HH:MM' };
+            }
+        }
+        settings.callingWindows = body.calling_windows.map((w: any) => ({
+            days: w.days,
+            startTime: w.start_time,
+            endTime: w.end_time,
+        }));
+    }
+
+    if (body.max_concurrent_dials !== undefined) {
+        settings.maxConcurrentDials = Number(body.max_concurrent_dials);
+    }
+
+    if (body.retry_policy !== undefined) {
+        const retryOn = body.retry_policy.retry_on ?? ['busy', 'no_answer'];
+        if (!Array.isArray(retryOn) || retryOn.some((o: string) => !['busy', 'no_answer', 'failed'].includes(o))) {
+            return { error: 'retry_policy.retry_on may only contain busy, no_answer, failed' };
+        }
+        settings.retryPolicy = {
+            maxAttempts: Number(body.retry_policy.max_attempts ?? 3),
+            retryDelayMinutes: Number(body.retry_policy.retry_delay_minutes ?? 60),
+            retryOn,
+        };
+    }
+
+    if (body.start_at !== undefined) settings.startAt = new Date(body.start_at).getTime();
+    if (body.end_at !== undefined) settings.endAt = new Date(body.end_at).getTime();
+
+    return { settings };
+}
+
+export async function handleCampaignRoutes(ctx: RequestContext): Promise<void> {
+    const { pathname, method, query, res, req } = ctx;
+
+    if (!isConvexConfigured()) {
+        sendError(res, 'Convex not configured', 503);
+        return;
+    }
+
+    const convex = getConvexClient();
+
+    // ============================================
+    // DO-NOT-CALL LIST (before /:id routes)
+    // ============================================
+
+    // GET /api/v1/campaigns/dnc?tenant_id=xxx
+    if (pathname === '/api/v1/campaigns/dnc' && method === 'GET') {
+        if (!query.tenant_id) {
+            sendError(res, 'tenant_id query parameter is required', 400);
+            return;
+        }
+
+        try {
+            const numbers = await convex.query('campaigns:listDncNumbers', {
+                organizationId: query.tenant_id,
+            });
+
+            sendJson(res, {
+                numbers: (numbers || []).map((n: any) => ({
+                    phone_number: n.phoneNumber,
+                    reason: n.reason,
+                    created_at: n.createdAt,
+                })),
+                total: numbers?.length || 0,
+            });
+
+        } catch (error) {
+            logger.error('List DNC numbers failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // POST /api/v1/campaigns/dnc
+    if (pathname === '/api/v1/campaigns/dnc' && method === 'POST') {
+        try {
+            const body = await parseJsonBody(req);
+
+            if (!body.tenant_id) {
+                sendError(res, 'tenant_id is required', 400);
+                return;
+            }
+            if (!Array.isArray(body.phone_numbers) || body.phone_numbers.length === 0) {
+                sendError(res, 'phone_numbers must be a non-empty array', 400);
+                return;
+            }
+
+            const phoneNumbers: string[] = [];
+            for (const raw of body.phone_numbers) {
+                const phone = validatePhoneNumber(String(raw));
+                if (!phone.isValid) {
+                    sendError(res, `Invalid phone number: ${raw}`, 400);
+                    return;
+                }
+                phoneNumbers.push(phone.e164!);
+            }
+
+            const result = await convex.mutation('campaigns:addDncNumbers', {
+                organizationId: body.tenant_id,
+                phoneNumbers,
+                reason: body.reason,
+            });
+
+            logger.info('DNC numbers added', { organizationId: body.tenant_id, added: result.added });
+
+            sendJson(res, { success: true, added: result.added }, 201);
+
+        } catch (error) {
+            logger.error('Add DNC numbers failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // DELETE /api/v1/campaigns/dnc/:phone?tenant_id=xxx
+    const dncMatch = pathname.match(/^\/api\/v1\/campaigns\/dnc\/([^/]+)$/);
+    if (dncMatch && method === 'DELETE') {
+        if (!query.tenant_id) {
+            sendError(res, 'tenant_id query parameter is required', 400);
+            return;
+        }
+
+        const phone = validatePhoneNumber(decodeURIComponent(dncMatch[1]));
+        if (!phone.isValid) {
+            sendError(res, phone.error || 'Invalid phone number', 400);
+            return;
+        }
+
+        try {
+            const result = await convex.mutation('campaigns:removeDncNumber', {
+                organizationId: query.tenant_id,
+                phoneNumber: phone.e164!,
+            });
+
+            if (!result.success) {
+                sendError(res, 'Number not on DNC list', 404);
+                return;
+            }
+
+            sendJson(res, { success: true, phone_number: phone.e164 });
+
+        } catch (error) {
+            logger.error('Remove DNC number failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // ============================================
+    // CAMPAIGNS
+    // ============================================
+
+    // POST /api/v1/campaigns
+    if (pathname === '/api/v1/campaigns' && method === 'POST') {
+        try {
+            const body = await parseJsonBody(req);
+
+            if (!body.tenant_id) {
+                sendError(res, 'tenant_id is required', 400);
+                return;
+            }
+            if (!body.agent_id) {
+                sendError(res, 'agent_id is required', 400);
+                return;
+            }
+            if (!body.name) {
+                sendError(res, 'name is required', 400);
+                return;
+            }
+
+            const parsed = parseCampaignSettings(body);
+            if ('error' in parsed) {
+                sendError(res, parsed.error, 400);
+                return;
+            }
+
+            const agent = await convex.query('agents:getById', { agentId: body.agent_id });
+            if (!agent || agent.organizationId !== body.tenant_id) {
+                sendError(res, 'Agent not found for this organization', 404);
+                return;
+            }
+
+            const campaignId = await convex.mutation('campaigns:create', {
+                organizationId: body.tenant_id,
+                agentId: body.agent_id,
+                name: body.name,
+                ...parsed.settings,
+            });
+
+            logger.info('Campaign created', { campaignId, name: body.name, agentId: body.agent_id });
+
+            const campaign = await convex.query('campaigns:getById', { campaignId });
+            sendJson(res, {
+                campaign: toCampaignResponse(campaign),
+                message: 'Campaign created successfully',
+            }, 201);
+
+        } catch (error) {
+            logger.error('Create campaign failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // GET /api/v1/campaigns?tenant_id=xxx
+    if (pathname === '/api/v1/campaigns' && method === 'GET') {
+        if (!query.tenant_id) {
+            sendError(res, 'tenant_id query parameter is required', 400);
+            return;
+        }
+
+        try {
+            const campaigns = await convex.query('campaigns:listByOrganization', {
+                organizationId: query.tenant_id,
+            });
+
+            sendJson(res, {
+                campaigns: (campaigns || []).map(toCampaignResponse),
+                total: campaigns?.length || 0,
+            });
+
+        } catch (error) {
+            logger.error('List campaigns failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // POST /api/v1/campaigns/:id/contacts
+    const contactsMatch = pathname.match(/^\/api\/v1\/campaigns\/([^/]+)\/contacts$/);
+    if (contactsMatch && method === 'POST') {
+        const campaignId = contactsMatch[1];
+
+        try {
+            let contacts: CampaignContactInput[] = [];
+            let errors: Array<{ row: number; error: string }> = [];
+            const contentType = req.headers['content-type'] || '';
+
+            if (contentType.includes('multipart/form-data')) {
+                const { fields, files } = await parseMultipartBody(req);
+                const file = files[0];
+                if (!file) {
+                    sendError(res, 'CSV file is required', 400);
+                    return;
+                }
+                ({ contacts, errors } = parseContactsCsv(file.data.toString('utf-8'), fields.default_country_code));
+            } else if (contentType.includes('text/csv')) {
+                const chunks: Buffer[] = [];
+                for await (const chunk of req) chunks.push(chunk as Buffer);
+                ({ contacts, errors } = parseContactsCsv(Buffer.concat(chunks).toString('utf-8'), query.default_country_code));
+            } else {
+                const body = await parseJsonBody(req);
+                if (typeof body.csv === 'string') {
+                    ({ contacts, errors } = parseContactsCsv(body.csv, body.default_country_code));
+                } else if (Array.isArray(body.contacts)) {
+                    body.contacts.forEach((c: any, index: number) => {
+                        const phone = validatePhoneNumber(String(c.phone_number || ''));
+                        if (!phone.isValid) {
+                            errors.push({ row: index + 1, error: `Invalid phone number: ${c.phone_number || '(empty)'}` });
+                            return;
+                        }
+                        contacts.push({
+                            phoneNumber: phone.e164!,
+                            name: c.name,
+                            timezone: c.timezone,
+                            variables: c.variables,
+                        });
+                    });
+                } else {
+                    sendError(res, 'Provide a CSV file, a csv string or a contacts array', 400);
+                    return;
+                }
+            }
+
+            let added = 0;
+            let duplicates = 0;
+            let doNotCall = 0;
+
+            for (let i = 0; i < contacts.length; i += CONTACT_BATCH_SIZE) {
+                const batch = contacts.slice(i, i + CONTACT_BATCH_SIZE).map(c => ({
+                    phoneNumber: c.phoneNumber,
+                    name: c.name,
+                    timezone: c.timezone,
+                    variables: c.variables ? JSON.stringify(c.variables) : undefined,
+                }));
+                const result = await convex.mutation('campaigns:addContacts', { campaignId, contacts: batch });
+                added += result.added;
+                duplicates += result.duplicates;
+                doNotCall += result.doNotCall;
+            }
+
+            logger.info('Campaign contacts uploaded', { campaignId, added, duplicates, doNotCall, invalid: errors.length });
+
+            sendJson(res, {
+                success: true,
+                added,
+                duplicates,
+                do_not_call: doNotCall,
+                invalid: errors.length,
+                errors: errors.slice(0, 100),
+            }, 201);
+
+        } catch (error) {
+            logger.error('Upload campaign contacts failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // GET /api/v1/campaigns/:id/contacts?status=xxx&limit=100
+    if (contactsMatch && method === 'GET') {
+        const campaignId = contactsMatch[1];
+
+        try {
+            const contacts = await convex.query('campaigns:listContacts', {
+                campaignId,
+                status: query.status || undefined,
+                limit: parseInt(query.limit || '100', 10),
+            });
+
+            sendJson(res, {
+                contacts: (contacts || []).map((c: any) => ({
+                    id: c._id,
+                    phone_number: c.phoneNumber,
+                    name: c.name,
+                    timezone: c.timezone,
+                    variables: c.variables ? JSON.parse(c.variables) : null,
+                    status: c.status,
+                    last_outcome: c.lastOutcome,
+                    attempts: c.attempts,
+                    next_attempt_at: c.nextAttemptAt,
+                    last_attempt_at: c.lastAttemptAt,
+                    last_sip_status_code: c.lastSipStatusCode,
+                    last_error: c.lastError,
+                    session_id: c.sessionId,
+                    duration_seconds: c.durationSeconds,
+                })),
+                total: contacts?.length || 0,
+            });
+
+        } catch (error) {
+            logger.error('List campaign contacts failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // POST /api/v1/campaigns/:id/start|pause|resume|cancel
+    const actionMatch = pathname.match(/^\/api\/v1\/campaigns\/([^/]+)\/(start|pause|resume|cancel)$/);
+    if (actionMatch && method === 'POST') {
+        const [, campaignId, action] = actionMatch;
+
+        try {
+            if (action === 'start') {
+                const stats = await convex.query('campaigns:getStats', { campaignId });
+                if (!stats.byStatus.pending) {
+                    sendError(res, 'Campaign has no contacts to dial', 400);
+                    return;
+                }
+            }
+
+            const result = await convex.mutation('campaigns:setStatus', { campaignId, action });
+
+            logger.info('Campaign status changed', { campaignId, action, status: result.status });
+
+            sendJson(res, { success: true, campaign_id: campaignId, status: result.status });
+
+        } catch (error) {
+            logger.error('Change campaign status failed', error);
+            sendError(res, (error as Error).message, 400);
+        }
+        return;
+    }
+
+    // GET /api/v1/campaigns/:id/stats
+    const statsMatch = pathname.match(/^\/api\/v1\/campaigns\/([^/]+)\/stats$/);
+    if (statsMatch && method === 'GET') {
+        try {
+            const stats = await convex.query('campaigns:getStats', { campaignId: statsMatch[1] });
+            sendJson(res, { campaign_id: statsMatch[1], ...toStatsResponse(stats) });
+
+        } catch (error) {
+            logger.error('Get campaign stats failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // GET /api/v1/campaigns/:id
+    const idMatch = pathname.match(/^\/api\/v1\/campaigns\/([^/]+)$/);
+    if (idMatch && method === 'GET') {
+        const campaignId = idMatch[1];
+
+        try {
+            const campaign = await convex.query('campaigns:getById', { campaignId });
+            if (!campaign) {
+                sendError(res, 'Campaign not found', 404);
+                return;
+            }
+
+            const stats = await convex.query('campaigns:getStats', { campaignId });
+            sendJson(res, {
+                ...toCampaignResponse(campaign),
+                stats: toStatsResponse(stats),
+            });
+
+        } catch (error) {
+            logger.error('Get campaign failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // PUT /api/v1/campaigns/:id
+    if (idMatch && method === 'PUT') {
+        const campaignId = idMatch[1];
+
+        try {
+            const body = await parseJsonBody(req);
+            const parsed = parseCampaignSettings(body);
+            if ('error' in parsed) {
+                sendError(res, parsed.error, 400);
+                return;
+            }
+
+            await convex.mutation('campaigns:update', {
+                campaignId,
+                name: body.name,
+                ...parsed.settings,
+            });
+
+            sendJson(res, { success: true, message: 'Campaign updated', campaign_id: campaignId });
+
+        } catch (error) {
+            logger.error('Update campaign failed', error);
+            sendError(res, (error as Error).message, 400);
+        }
+        return;
+    }
+
+    // DELETE /api/v1/campaigns/:id
+    if (idMatch && method === 'DELETE') {
+        const campaignId = idMatch[1];
+
+        try {
+            const result = await convex.mutation('campaigns:remove', { campaignId });
+            sendJson(res, {
+                success: true,
+                message: 'Campaign deleted',
+                deleted_contacts: result.deletedContacts,
+            });
+
+        } catch (error) {
+            logger.error('Delete campaign failed', error);
+            sendError(res, (error as Error).message, 400);
+        }
+        return;
+    }
+
+    sendError(res, 'Not Found', 404);
+}
@@ -0,0 +1,249 @@
+/**
+ * Catalog Routes
+ *
+ * Structured catalogs (menus, price lists) answered by the lookup_catalog tool.
+ *
+ * Endpoints:
+ * - POST /api/v1/catalog/import - Import a CSV / XLSX catalog (multipart: file, tenant_id, agent_id, mode, currency)
+ * - GET /api/v1/catalog?agent_id=xxx - List the catalog, or look items up with query / category / tag / min_price / max_price / available_only / sort / limit
+ * - PUT /api/v1/catalog/items/:id - Edit an item (price, availability, tags...)
+ * - DELETE /api/v1/catalog/items/:id - Delete an item
+ * - DELETE /api/v1/catalog?agent_id=xxx - Delete the agent's whole catalog
+ */
+
+import { RequestContext, sendJson, sendError, parseJsonBody, parseMultipartBody } from '../server.js';
+import { logger } from '../../core/logging.js';
+import { getConvexClient, isConvexConfigured } from '../../core/convex-client.js';
+import {
+    CatalogImportError,
+    CATALOG_SORTS,
+    importCatalog,
+    lookupCatalog,
+    catalogCategories,
+    normalizeTag,
+    parseVariants,
+    toCatalogItem,
+    type CatalogFilters,
+    type CatalogItem,
+} from '../../services/catalog/index.js';
+
+/**
+ * Map a catalog item to the API shape
+ */
+function toCatalogItemResponse(item: CatalogItem) {
+    return {
+        id: item.id,
+        name: item.name,
+        category: item.category,
+        description: item.description,
+        price: item.price ?? null,
+        currency: item.currency,
+        variants: item.variants,
+        available: item.available,
+        tags: item.tags,
+        attributes: item.attributes ?? null,
+    };
+}
+
+/**
+ * Lookup filters from query parameters (null when none are given)
+ */
+function parseLookupFilters(query: Record<string, string>): CatalogFilters | null {
+    const filters: CatalogFilters = {
+        query: query.query || undefined,
+        category: query.category || undefined,
+        tags: query.tag ? query.tag.split(',').map(t => t.trim()).filter(Boolean) : undefined,
+        minPrice: query.min_price ? Number(query.min_price) : undefined,
+        maxPrice: query.max_price ? Number(query.max_price) : undefined,
+        availableOnly: query.available_only === 'true' || undefined,
+        sort: CATALOG_SORTS.find(sort => sort === query.sort),
+        limit: query.limit ? parseInt(query.limit, 10) : undefined,
+    };
+    return Object.values(filters).some(value => value !== undefined) ? filters : null;
+}
+
+export async function handleCatalogRoutes(ctx: RequestContext): Promise<void> {
+    const { pathname, method, query, res, req } = ctx;
+
+    if (!isConvexConfigured()) {
+        sendError(res, 'Convex not configured', 503);
+        return;
+    }
+
+    const convex = getConvexClient();
+
+    // POST /api/v1/catalog/import
+    if (pathname === '/api/v1/catalog/import' && method === 'POST') {
+        try {
+            const { fields, files } = await parseMultipartBody(req);
+            const tenantId = fields.tenant_id || query.tenant_id;
+            const agentId = fields.agent_id || query.agent_id;
+            const mode = fields.mode || query.mode || 'replace';
+
+            if (!tenantId) {
+                sendError(res, 'tenant_id is required', 400);
+                return;
+            }
+            if (!agentId) {
+                sendError(res, 'agent_id is required', 400);
+                return;
+            }
+            if (mode !== 'replace' && mode !== 'merge') {
+                sendError(res, 'mode must be replace or merge', 400);
+                return;
+            }
+            const file = files[0];
+            if (!file) {
+                sendError(res, 'CSV or XLSX file is required', 400);
+                return;
+            }
+
+            const agent = await convex.query('agents:getById', { agentId });
+            if (!agent || agent.organizationId !== tenantId) {
+                sendError(res, 'Agent not found for this organization', 404);
+                return;
+            }
+
+            const result = await importCatalog({
+                organizationId: tenantId,
+                agentId,
+                fileName: file.filename,
+                data: file.data,
+                mode,
+                currency: (fields.currency || query.currency)?.toUpperCase(),
+            });
+
+            sendJson(res, {
+                success: true,
+                items: result.items,
+                added: result.added,
+                updated: result.updated,
+                removed: result.removed,
+                duplicates: result.duplicates,
+                categories: result.categories,
+                errors: result.errors,
+            }, 201);
+
+        } catch (error) {
+            if (error instanceof CatalogImportError) {
+                sendError(res, error.message, 422);
+                return;
+            }
+            logger.error('Catalog import failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // GET /api/v1/catalog?agent_id=xxx
+    if (pathname === '/api/v1/catalog' && method === 'GET') {
+        if (!query.agent_id) {
+            sendError(res, 'agent_id query parameter is required', 400);
+            return;
+        }
+
+        try {
+            const docs = await convex.query('catalog:listByAgent', { agentId: query.agent_id });
+            const items: CatalogItem[] = (docs || []).map(toCatalogItem);
+            const filters = parseLookupFilters(query);
+
+            if (filters) {
+                const result = lookupCatalog(items, filters);
+                sendJson(res, {
+                    items: result.matches.map(match => ({ ...toCatalogItemResponse(match.item), score: match.score })),
+                    total: result.total,
+                    category: result.category,
+                    suggestions: result.suggestions,
+                });
+                return;
+            }
+
+            sendJson(res, {
+                items: items.map(toCatalogItemResponse),
+                total: items.length,
+                categories: catalogCategories(items),
+            });
+
+        } catch (error) {
+            logger.error('Get catalog failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // DELETE /api/v1/catalog?agent_id=xxx
+    if (pathname === '/api/v1/catalog' && method === 'DELETE') {
+        if (!query.agent_id) {
+            sendError(res, 'agent_id query parameter is required', 400);
+            return;
+        }
+
+        try {
+            const result = await convex.mutation('catalog:clearByAgent', { agentId: query.agent_id });
+            sendJson(res, { success: true, removed: result.removed });
+
+        } catch (error) {
+            logger.error('Clear catalog failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    const itemMatch = pathname.match(/^\/api\/v1\/catalog\/items\/([^/]+)$/);
+
+    // PUT /api/v1/catalog/items/:id
+    if (itemMatch && method === 'PUT') {
+        const itemId = itemMatch[1];
+
+        try {
+            const body = await parseJsonBody(req);
+            if (body.variants !== undefined && typeof body.variants !== 'string' && !Array.isArray(body.variants)) {
+                sendError(res, 'variants must be an array of { name, price } or a string like "Half: 140, Full: 240"', 400);
+                return;
+            }
+
+            await convex.mutation('catalog:updateItem', {
+                itemId,
+                name: body.name,
+                category: body.category,
+                description: body.description,
+                price: body.price === null ? null : body.price !== undefined ? Number(body.price) : undefined,
+                variants: typeof body.variants === 'string'
+                    ? parseVariants(body.variants)
+                    : body.variants?.map((variant: any) => ({
+                        name: String(variant.name),
+                        price: variant.price !== undefined && variant.price !== null ? Number(variant.price) : undefined,
+                    })),
+                available: body.available,
+                tags: Array.isArray(body.tags) ? body.tags.map((tag: string) => normalizeTag(String(tag))) : undefined,
+            });
+
+            const item = await convex.query('catalog:getById', { itemId });
+            sendJson(res, { success: true, item: toCatalogItemResponse(toCatalogItem(item)) });
+
+        } catch (error) {
+            logger.error('Update catalog item failed', error);
+            sendError(res, (error as Error).message, 400);
+        }
+        return;
+    }
+
+    // DELETE /api/v1/catalog/items/:id
+    if (itemMatch && method === 'DELETE') {
+        try {
+            const result = await convex.mutation('catalog:removeItem', { itemId: itemMatch[1] });
+            if (!result.success) {
+                sendError(res, 'Catalog item not found', 404);
+                return;
+            }
+            sendJson(res, { success: true });
+
+        } catch (error) {
+            logger.error('Delete catalog item failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    sendError(res, 'Not Found', 404);
+}
@@ -8,6 +8,11 @@
  * - Parse & chunk (deterministic)
  * - Return preview data OR auto-persist
  * 
+ * POST /api/v1/documents/ingest-url
+ * - Fetch a page, a sitemap's pages, or a same-site crawl (JSON body: url, mode, max_pages, max_depth)
+ * - Returns 202 with the session id; the crawl runs in the background and
+ *   reports progress through /status, then the usual preview/confirm flow
+ * 
  * POST /api/v1/documents/:sessionId/confirm
  * - Confirm chunks and persist to DB
  * 
@@ -21,11 +26,19 @@
  * - Get ingestion progress
  */
 
-import { RequestContext, sendJson, sendError, parseMultipartBody } from '../server.js';
+import { RequestContext, sendJson, sendError, parseMultipartBody, parseJsonBody } from '../server.js';
 import { logger } from '../../core/logging.js';
 import { getConvexClient } from '../../core/convex-client.js';
 import { getDocumentParser } from '../../services/document-parser/index.js';
-import { getChunkingService, analyzeContentType } from '../../services/chunking.js';
+import { chunkCrawledPages, chunkParsedDocument } from '../../services/knowledge-chunks.js';
+import {
+    assertPublicUrl,
+    crawlWebsite,
+    CRAWL_MODES,
+    WebCrawlError,
+    type CrawlMode,
+    type CrawlOptions,
+} from '../../services/web-crawler/index.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -111,23 +124,7 @@ export async function handleDocumentIngestionRoutes(ctx: RequestContext): Promis
 
                 // Step 5: Chunk content (STATELESS, DETERMINISTIC)
                 logger.info('Chunking document...');
-                const chunkingService = getChunkingService();
-                let chunks: { text: string; chunkIndex: number; metadata: any }[];
-
-                if (structuredElements.length > 0) {
-                    const contentType = analyzeContentType(structuredElements);
-                    chunks = chunkingService.chunkDocumentIntelligent(
-                        structuredElements,
-                        contentType,
-                        [fileName]
-                    );
-                } else {
-                    const cleanedText = chunkingService.cleanText(parsedContent);
-                    chunks = chunkingService.chunkText(cleanedText, {
-                        filename: fileName,
-                        sourceType,
-                    });
-                }
+                const chunks = chunkParsedDocument(parsed, fileName, sourceType);
 
                 logger.info(`Chunking complete: ${chunks.length} chunks`);
 
@@ -201,6 +198,83 @@ export async function handleDocumentIngestionRoutes(ctx: RequestContext): Promis
         return;
     }
 
+    // ═══════════════════════════════════════════════════════════════════════
+    // POST /api/v1/documents/ingest-url
+    // ═══════════════════════════════════════════════════════════════════════
+    if (pathname === '/api/v1/documents/ingest-url' && method === 'POST') {
+        const agentId = query.agent_id;
+        const organizationId = query.organization_id || 'default_org';
+        const sourceType = query.source_type || 'general';
+
+        if (!agentId) {
+            sendError(res, 'agent_id query parameter is required', 400);
+            return;
+        }
+
+        try {
+            const body = await parseJsonBody(req);
+            const url = typeof body.url === 'string' ? body.url.trim() : '';
+            const mode: CrawlMode = body.mode ?? 'page';
+
+            if (!/^https?:\/\/[^/]+/i.test(url)) {
+                sendError(res, 'url must be an http(s) URL', 400);
+                return;
+            }
+            if (!CRAWL_MODES.includes(mode)) {
+                sendError(res, `mode must be one of: ${CRAWL_MODES.join(', ')}`, 400);
+                return;
+            }
+
+            // Reject private/loopback hosts before a session exists (the crawler re-checks every request)
+            await assertPublicUrl(url);
+
+            logger.info('Starting URL ingestion', { url, mode, agentId });
+
+            // Step 1: Create ingestion session (size is filled in once pages are fetched)
+            const session = await convex.mutation('documentIngestion:createIngestionSession', {
+                agentId,
+                organizationId,
+                fileName: url,
+                fileType: '.html',
+                fileSize: 0,
+                sourceType,
+                sourceUrl: url,
+            });
+            const sessionId = session.sessionId as string;
+
+            await convex.mutation('documentIngestion:updateIngestionStage', {
+                sessionId,
+                stage: 'parsing',
+                progress: 0,
+            });
+
+            // Step 2: Crawl in the background - a site crawl can take minutes
+            void crawlAndChunk(sessionId, session.previewEnabled, sourceType, {
+                url,
+                mode,
+                maxPages: body.max_pages !== undefined ? Number(body.max_pages) : undefined,
+                maxDepth: body.max_depth !== undefined ? Number(body.max_depth) : undefined,
+            });
+
+            sendJson(res, {
+                success: true,
+                sessionId,
+                previewEnabled: session.previewEnabled,
+                fileName: url,
+                stage: 'parsing',
+                statusUrl: `/api/v1/documents/${sessionId}/status`,
+                message: session.previewEnabled
+                    ? 'Crawl started. Poll the status URL until stage is preview_ready, then call /confirm to persist.'
+                    : 'Crawl started. Poll the status URL until stage is completed.',
+            }, 202);
+        } catch (error) {
+            logger.error('URL ingestion failed', error);
+            const status = error instanceof WebCrawlError ? 422 : 500;
+            sendError(res, (error as Error).message, status);
+        }
+        return;
+    }
+
     // ═══════════════════════════════════════════════════════════════════════
     // POST /api/v1/documents/:sessionId/confirm
     // ═══════════════════════════════════════════════════════════════════════
@@ -379,8 +453,10 @@ export async function handleDocumentIngestionRoutes(ctx: RequestContext): Promis
                 sessionId: session.sessionId,
                 fileName: session.fileName,
                 stage: session.stage,
+                progress: session.progress,
                 chunkCount: session.chunkCount,
                 error: session.error,
+                metadata: session.metadata,
                 previewChunks: session.previewChunks,
             }, 200);
         } catch (error) {
@@ -498,3 +574,85 @@ export async function handleDocumentIngestionRoutes(ctx: RequestContext): Promis
     // No matching route
     sendError(res, 'Not Found', 404);
 }
+
+/**
+ * Background half of URL ingestion: crawl, chunk, then store the preview or persist
+ * Failures (and a session cancelled mid-crawl) end the session instead of throwing.
+ */
+async function crawlAndChunk(
+    sessionId: string,
+    previewEnabled: boolean,
+    sourceType: string,
+    options: CrawlOptions
+): Promise<void> {
+    const convex = getConvexClient();
+
+    try {
+        const crawl = await crawlWebsite({
+            ...options,
+            onProgress: async progress => {
+                // cancelIngestion deletes the session - stop fetching for nobody
+                const session = await convex.query('documentIngestion:getIngestionSessionStatus', { sessionId });
+                if (!session) {
+                    throw new WebCrawlError('URL ingestion cancelled');
+                }
+                await convex.mutation('documentIngestion:updateIngestionStage', {
+                    sessionId,
+                    stage: 'parsing',
+                    progress: Math.min(99, Math.round((progress.pages + progress.skipped) / progress.maxPages * 100)),
+                    metadata: JSON.stringify({ crawl: progress }),
+                });
+            },
+        });
+
+        // Chunk each page, keeping its URL and title as context
+        await convex.mutation('documentIngestion:updateIngestionStage', {
+            sessionId,
+            stage: 'chunking',
+            fileSize: crawl.totalBytes,
+        });
+
+        const chunks = chunkCrawledPages(crawl.pages, sourceType);
+        const serializedChunks = chunks.map(c => ({
+            chunkIndex: c.chunkIndex,
+            text: c.text,
+            metadata: JSON.stringify(c.metadata || {}),
+        }));
+
+        logger.info(`URL chunking complete: ${crawl.pages.length} pages, ${chunks.length} chunks`, {
+            sessionId,
+            skipped: crawl.skipped.length,
+        });
+
+        if (previewEnabled) {
+            await convex.mutation('documentIngestion:storeChunksForPreview', {
+                sessionId,
+                chunks: serializedChunks,
+            });
+        } else {
+            await convex.action('documentIngestion:ingestDirect', {
+                sessionId,
+                chunks: serializedChunks,
+            });
+        }
+
+        // Page list and skip reasons for the status endpoint
+        await convex.mutation('documentIngestion:updateIngestionStage', {
+            sessionId,
+            stage: previewEnabled ? 'preview_ready' : 'completed',
+            progress: 100,
+            metadata: JSON.stringify({
+                totalChunks: chunks.length,
+                pages: crawl.pages.map(p => ({ url: p.url, title: p.title })),
+                skipped: crawl.skipped,
+            }),
+        });
+    } catch (error) {
+        logger.error('URL ingestion failed', { sessionId, error: (error as Error).message });
+        await convex.mutation('documentIngestion:updateIngestionStage', {
+            sessionId,
+            stage: 'failed',
+            error: (error as Error).message,
+        }).catch(() => undefined);
+    }
+}
@@ -0,0 +1,403 @@
+/**
+ * Knowledge Source Routes
+ *
+ * A knowledge source is a document that remembers where it came from, so it
+ * can be re-synced: a URL (page, sitemap or crawl), a Google Drive export
+ * link, or an uploaded file (synced when a new version is uploaded).
+ *
+ * Endpoints:
+ * - POST /api/v1/knowledge-sources - Create a URL / Drive source (JSON) or an upload source (multipart)
+ * - GET /api/v1/knowledge-sources?agent_id=xxx - List an agent's sources
+ * - GET /api/v1/knowledge-sources/:id - Get source
+ * - PUT /api/v1/knowledge-sources/:id - Update source settings and schedule
+ * - DELETE /api/v1/knowledge-sources/:id - Delete source and its document
+ * - POST /api/v1/knowledge-sources/:id/sync - Queue a sync now
+ * - POST /api/v1/knowledge-sources/:id/upload - Upload a new version (multipart)
+ * - GET /api/v1/knowledge-sources/:id/history - Sync history
+ */
+
+import * as path from 'path';
+import { RequestContext, sendJson, sendError, parseJsonBody, parseMultipartBody } from '../server.js';
+import { logger } from '../../core/logging.js';
+import { getConvexClient, isConvexConfigured } from '../../core/convex-client.js';
+import { SUPPORTED_EXTENSIONS } from '../../services/document-parser/index.js';
+import { syncKnowledgeSource, type ClaimedSourceSync, type SourceFile } from '../../services/knowledge-sources.js';
+import { CRAWL_MODES } from '../../services/web-crawler/index.js';
+
+/**
+ * Map a source document to the API shape
+ */
+function toSourceResponse(source: any) {
+    return {
+        id: source._id,
+        organization_id: source.organizationId,
+        agent_id: source.agentId,
+        name: source.name,
+        type: source.type,
+        url: source.url,
+        crawl_mode: source.crawlMode,
+        max_pages: source.maxPages,
+        max_depth: source.maxDepth,
+        file_name: source.fileName,
+        source_type: source.sourceType,
+        document_id: source.documentId,
+        sync_interval_hours: source.syncIntervalHours ?? null,
+        enabled: source.enabled,
+        sync_status: source.syncStatus,
+        next_sync_at: source.nextSyncAt,
+        last_sync_at: source.lastSyncAt,
+        last_sync_status: source.lastSyncStatus,
+        last_error: source.lastError,
+        chunk_count: source.chunkCount,
+        created_at: source.createdAt,
+        updated_at: source.updatedAt,
+    };
+}
+
+/**
+ * Map a sync run to the API shape
+ */
+function toSyncRunResponse(run: any) {
+    return {
+        id: run._id,
+        trigger: run.trigger,
+        status: run.status,
+        pages_fetched: run.pagesFetched,
+        bytes: run.bytes,
+        chunks_total: run.chunksTotal,
+        chunks_added: run.chunksAdded,
+        chunks_removed: run.chunksRemoved,
+        chunks_unchanged: run.chunksUnchanged,
+        error: run.error,
+        started_at: run.startedAt,
+        completed_at: run.completedAt,
+    };
+}
+
+/**
+ * Convert snake_case source settings from a request body to Convex args
+ * @returns Settings, or an error message
+ */
+function parseSourceSettings(body: any): { settings: Record<string, any> } | { error: string } {
+    const settings: Record<string, any> = {};
+
+    if (body.name !== undefined) settings.name = String(body.name);
+
+    if (body.url !== undefined) {
+        try {
+            const url = new URL(body.url);
+            if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+                return { error: 'url must be an http(s) URL' };
+            }
+        } catch {
+            return { error: `Invalid url: ${body.url}` };
+        }
+        settings.url = body.url;
+    }
+
+    if (body.crawl_mode !== undefined) {
+        if (!CRAWL_MODES.includes(body.crawl_mode)) {
+            return { error: `crawl_mode must be one of: ${CRAWL_MODES.join(', ')}` };
+        }
+        settings.crawlMode = body.crawl_mode;
+    }
+
+    if (body.max_pages !== undefined) settings.maxPages = Number(body.max_pages);
+    if (body.max_depth !== undefined) settings.maxDepth = Number(body.max_depth);
+
+    if (body.sync_interval_hours !== undefined) {
+        const hours = body.sync_interval_hours === null ? null : Number(body.sync_interval_hours);
+        if (hours !== null && !(hours >= 1)) {
+            return { error: 'sync_interval_hours must be at least 1 (or null for manual syncs only)' };
+        }
+        settings.syncIntervalHours = hours;
+    }
+
+    if (body.enabled !== undefined) settings.enabled = Boolean(body.enabled);
+
+    return { settings };
+}
+
+/**
+ * Validate an uploaded file
+ * @returns The file, or an error message
+ */
+function toSourceFile(files: Array<{ filename: string; data: Buffer }>): { file: SourceFile } | { error: string } {
+    if (files.length === 0) {
+        return { error: 'No file uploaded' };
+    }
+    const { filename, data } = files[0];
+    const ext = path.extname(filename).toLowerCase();
+    if (!SUPPORTED_EXTENSIONS.has(ext)) {
+        return { error: `Unsupported file type: ${ext || filename}` };
+    }
+    return { file: { fileName: filename, data } };
+}
+
+export async function handleKnowledgeSourceRoutes(ctx: RequestContext): Promise<void> {
+    const { pathname, method, query, res, req } = ctx;
+
+    if (!isConvexConfigured()) {
+        sendError(res, 'Convex not configured', 503);
+        return;
+    }
+
+    const convex = getConvexClient();
+
+    // POST /api/v1/knowledge-sources
+    if (pathname === '/api/v1/knowledge-sources' && method === 'POST') {
+        try {
+            const isUpload = (req.headers['content-type'] || '').startsWith('multipart/form-data');
+            let body: any;
+            let upload: SourceFile | undefined;
+
+            if (isUpload) {
+                const { fields, files } = await parseMultipartBody(req);
+                const parsedFile = toSourceFile(files);
+                if ('error' in parsedFile) {
+                    sendError(res, parsedFile.error, 400);
+                    return;
+                }
+                body = { ...fields, type: 'upload' };
+                upload = parsedFile.file;
+            } else {
+                body = await parseJsonBody(req);
+                if (body.type !== 'url' && body.type !== 'drive') {
+                    sendError(res, 'type must be url or drive (upload files as multipart/form-data)', 400);
+                    return;
+                }
+                if (!body.url) {
+                    sendError(res, 'url is required', 400);
+                    return;
+                }
+            }
+
+            if (!body.tenant_id) {
+                sendError(res, 'tenant_id is required', 400);
+                return;
+            }
+            if (!body.agent_id) {
+                sendError(res, 'agent_id is required', 400);
+                return;
+            }
+
+            const parsed = parseSourceSettings(body);
+            if ('error' in parsed) {
+                sendError(res, parsed.error, 400);
+                return;
+            }
+            const { syncIntervalHours, enabled: _enabled, ...settings } = parsed.settings;
+
+            const agent = await convex.query('agents:getById', { agentId: body.agent_id });
+            if (!agent || agent.organizationId !== body.tenant_id) {
+                sendError(res, 'Agent not found for this organization', 404);
+                return;
+            }
+
+            const sourceId = await convex.mutation('knowledgeSources:create', {
+                ...settings,
+                organizationId: body.tenant_id,
+                agentId: body.agent_id,
+                name: body.name || upload?.fileName || body.url,
+                type: body.type,
+                fileName: upload?.fileName,
+                sourceType: body.source_type,
+                syncIntervalHours: syncIntervalHours ?? undefined,
+            });
+
+            logger.info('Knowledge source created', { sourceId, type: body.type, agentId: body.agent_id });
+
+            // Uploads sync right away; URL and Drive sources are picked up by the sync worker
+            let sync;
+            if (upload) {
+                const claimed: ClaimedSourceSync = await convex.mutation('knowledgeSources:beginSync', {
+                    sourceId,
+                    trigger: 'upload',
+                });
+                sync = await syncKnowledgeSource(claimed, upload);
+            }
+
+            const source = await convex.query('knowledgeSources:getById', { sourceId });
+            sendJson(res, {
+                source: toSourceResponse(source),
+                sync,
+                message: upload ? 'Knowledge source created and synced' : 'Knowledge source created, first sync queued',
+            }, 201);
+
+        } catch (error) {
+            logger.error('Create knowledge source failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // GET /api/v1/knowledge-sources?agent_id=xxx
+    if (pathname === '/api/v1/knowledge-sources' && method === 'GET') {
+        if (!query.agent_id) {
+            sendError(res, 'agent_id query parameter is required', 400);
+            return;
+        }
+
+        try {
+            const sources = await convex.query('knowledgeSources:listByAgent', {
+                agentId: query.agent_id,
+            });
+
+            sendJson(res, {
+                sources: (sources || []).map(toSourceResponse),
+                total: sources?.length || 0,
+            });
+
+        } catch (error) {
+            logger.error('List knowledge sources failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // POST /api/v1/knowledge-sources/:id/sync
+    const syncMatch = pathname.match(/^\/api\/v1\/knowledge-sources\/([^/]+)\/sync$/);
+    if (syncMatch && method === 'POST') {
+        try {
+            const result = await convex.mutation('knowledgeSources:requestSync', { sourceId: syncMatch[1] });
+            sendJson(res, {
+                success: true,
+                queued: result.queued,
+                sync_status: result.syncStatus,
+                message: result.queued
+                    ? (result.syncStatus === 'syncing' ? 'Sync queued to run after the current one' : 'Sync queued')
+                    : `Sync already ${result.syncStatus}`,
+            }, result.queued ? 202 : 200);
+
+        } catch (error) {
+            logger.error('Request knowledge source sync failed', error);
+            sendError(res, (error as Error).message, 400);
+        }
+        return;
+    }
+
+    // POST /api/v1/knowledge-sources/:id/upload
+    const uploadMatch = pathname.match(/^\/api\/v1\/knowledge-sources\/([^/]+)\/upload$/);
+    if (uploadMatch && method === 'POST') {
+        const sourceId = uploadMatch[1];
+
+        try {
+            const source = await convex.query('knowledgeSources:getById', { sourceId });
+            if (!source) {
+                sendError(res, 'Knowledge source not found', 404);
+                return;
+            }
+            if (source.type !== 'upload') {
+                sendError(res, `A ${source.type} source is synced from its url, not uploaded`, 400);
+                return;
+            }
+
+            const { files } = await parseMultipartBody(req);
+            const parsedFile = toSourceFile(files);
+            if ('error' in parsedFile) {
+                sendError(res, parsedFile.error, 400);
+                return;
+            }
+
+            const claimed: ClaimedSourceSync = await convex.mutation('knowledgeSources:beginSync', {
+                sourceId,
+                trigger: 'upload',
+            });
+            const sync = await syncKnowledgeSource(claimed, parsedFile.file);
+
+            sendJson(res, { success: sync.status !== 'failed', sync }, sync.status === 'failed' ? 422 : 200);
+
+        } catch (error) {
+            logger.error('Upload knowledge source version failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // GET /api/v1/knowledge-sources/:id/history
+    const historyMatch = pathname.match(/^\/api\/v1\/knowledge-sources\/([^/]+)\/history$/);
+    if (historyMatch && method === 'GET') {
+        try {
+            const runs = await convex.query('knowledgeSources:listSyncRuns', {
+                sourceId: historyMatch[1],
+                limit: query.limit ? parseInt(query.limit, 10) : undefined,
+            });
+
+            sendJson(res, {
+                runs: (runs || []).map(toSyncRunResponse),
+                total: runs?.length || 0,
+            });
+
+        } catch (error) {
+            logger.error('Get knowledge source history failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    const idMatch = pathname.match(/^\/api\/v1\/knowledge-sources\/([^/]+)$/);
+
+    // GET /api/v1/knowledge-sources/:id
+    if (idMatch && method === 'GET') {
+        try {
+            const source = await convex.query('knowledgeSources:getById', { sourceId: idMatch[1] });
+            if (!source) {
+                sendError(res, 'Knowledge source not found', 404);
+                return;
+            }
+            sendJson(res, toSourceResponse(source));
+
+        } catch (error) {
+            logger.error('Get knowledge source failed', error);
+            sendError(res, (error as Error).message, 500);
+        }
+        return;
+    }
+
+    // PUT /api/v1/knowledge-sources/:id
+    if (idMatch && method === 'PUT') {
+        const sourceId = idMatch[1];
+
+        try {
+            const body = await parseJsonBody(req);
+            const parsed = parseSourceSettings(body);
+            if ('error' in parsed) {
+                sendError(res, parsed.error, 400);
+                return;
+            }
+
+            await convex.mutation('knowledgeSources:update', { sourceId, ...parsed.settings });
+
+            const source = await convex.query('knowledgeSources:getById', { sourceId });
+            sendJson(res, { success: true, message: 'Knowledge source updated', source: toSourceResponse(source) });
+
+        } catch (error) {
+            logger.error('Update knowledge source failed', error);
+            sendError(res, (error as Error).message, 400);
+        }
+        return;
+    }
+
+    // DELETE /api/v1/knowledge-sources/:id
+    if (idMatch && method === 'DELETE') {
+        try {
+            const result = await convex.mutation('knowledgeSources:remove', { sourceId: idMatch[1] });
+            const cascade = await convex.action('documentIngestion:deleteDocumentCascade', {
+                documentId: result.documentId,
+            });
+
+            sendJson(res, {
+                success: true,
+                message: 'Knowledge source deleted',
+                deleted_chunks: cascade.deletedChunks ?? 0,
+            });
+
+        } catch (error) {
+            logger.error('Delete knowledge source failed', error);
+            sendError(res, (error as Error).message, 400);
+        }
+        return;
+    }
+
+    sendError(res, 'Not Found', 404);
+}
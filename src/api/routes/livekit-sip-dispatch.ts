@@ -10,6 +10,10 @@
  * - Minimal processing overhead
  * - Fallback to default agent if no active agent found
  * 
+ * Call limits: the agent's concurrent slot is acquired here (keyed by room name).
+ * Over-limit calls with behavior "reject" get a 429 response (LiveKit rejects the call); "busy_message"
+ * and "queue" calls are still routed so the agent can speak to the caller.
+ * 
  * LiveKit Dispatch Rule Webhook Payload:
  * {
  *   "call_id": "string",
@@ -36,6 +40,7 @@
 import { RequestContext, sendJson, sendError, parseJsonBody } from '../server.js';
 import { logger } from '../../core/logging.js';
 import { getConvexClient, isConvexConfigured } from '../../core/convex-client.js';
+import { getCallLimitService } from '../../services/call-limits.js';
 
 export async function handleLivekitSipDispatchRoutes(ctx: RequestContext): Promise<void> {
     const { pathname, method, res, req } = ctx;
@@ -96,6 +101,22 @@ export async function handleLivekitSipDispatchRoutes(ctx: RequestContext): Promi
                 roomName = `call-${organizationId}_${agentId}_${Date.now()}`;
                 
                 logger.info(`[SIP Dispatch] Found active agent: ${activeAgent.name} (${agentId})`);
+                
+                // Enforce per-agent concurrency and monthly quota
+                const callLimits = getCallLimitService();
+                const admission = await callLimits.acquireSlot({
+                    agentId,
+                    organizationId,
+                    slotKey: roomName,
+                    direction: 'inbound',
+                });
+                
+                if (!admission.allowed && admission.behavior === 'reject') {
+                    await callLimits.recordRejection(agentId, organizationId);
+                    logger.warning(`[SIP Dispatch] Rejecting call - agent ${agentId} over ${admission.reason}`);
+                    sendError(res, `Agent over ${admission.reason}`, 429);
+                    return;
+                }
             } else {
                 // Fallback to default agent if no active agent found
                 agentId = process.env.DEFAULT_AGENT_ID || "fallback_agent";
@@ -24,6 +24,11 @@ import { handleOrganizationRoutes } from './routes/organizations.js';
 import { handleAnalyticsRoutes } from './routes/analytics.js';
 import { handleLivekitSipDispatchRoutes } from './routes/livekit-sip-dispatch.js';
 import { handleIntegrationRoutes } from './routes/integrations.js';
+import { handleCampaignRoutes } from './routes/campaigns.js';
+import { handleKnowledgeSourceRoutes } from './routes/knowledgeSources.js';
+import { handleCatalogRoutes } from './routes/catalog.js';
+import { getCampaignDialer } from '../services/campaigns.js';
+import { getKnowledgeSourceSyncer } from '../services/knowledge-sources.js';
 
 /**
  * Parse JSON body from request
@@ -196,6 +201,12 @@ export function createApiServer(port: number = 8000): http.Server {
                 await handleAnalyticsRoutes(ctx);
             } else if (pathname.startsWith('/api/v1/integrations')) {
                 await handleIntegrationRoutes(ctx);
+            } else if (pathname.startsWith('/api/v1/campaigns')) {
+                await handleCampaignRoutes(ctx);
+            } else if (pathname.startsWith('/api/v1/knowledge-sources')) {
+                await handleKnowledgeSourceRoutes(ctx);
+            } else if (pathname.startsWith('/api/v1/catalog')) {
+                await handleCatalogRoutes(ctx);
             } else {
                 sendError(res, 'Not Found', 404);
             }
@@ -241,6 +252,10 @@ export function createApiServer(port: number = 8000): http.Server {
         logger.info('  PUT  /api/v1/agents/:id                   - Update agent');
         logger.info('  DELETE /api/v1/agents/:id                 - Delete agent');
         logger.info('  PATCH /api/v1/agents/:id/status           - Update agent status');
+        logger.info('  GET  /api/v1/agents/:id/usage             - Call usage vs limits');
+        logger.info('  GET|PUT|DELETE /api/v1/agents/:id/workflow - Agent conversation workflow');
+        logger.info('  POST /api/v1/agents/:id/preview-prompt    - Render prompt templates');
+        logger.info('  POST /api/v1/agents/:id/test              - Run a regression test suite');
         logger.info('  POST /api/v1/agents/enhance-prompt        - AI prompt enhancement');
         logger.info('  GET  /api/v1/agents/validate/:id          - Validate phone conflicts');
         logger.info('  POST /api/v1/agents/route-by-phone        - Route call to agent');
@@ -250,8 +265,20 @@ export function createApiServer(port: number = 8000): http.Server {
         logger.info('📞 Calls');
         logger.info('  GET  /api/v1/calls?tenant_id=xxx          - List calls by org');
         logger.info('  GET  /api/v1/calls?agent_id=xxx           - List calls by agent');
+        logger.info('  GET  /api/v1/calls/live?tenant_id=xxx     - List calls in progress');
+        logger.info('  GET  /api/v1/calls/low-scoring?tenant_id=xxx - Calls that failed QA');
         logger.info('  GET  /api/v1/calls/:session_id            - Get call by session ID');
+        logger.info('  GET  /api/v1/calls/:session_id/live       - Live call event stream (SSE)');
         logger.info('  GET  /api/v1/calls/:session_id/transcript - Get call transcript');
+        logger.info('  POST /api/v1/calls/:session_id/analyze    - Re-run post-call analysis');
+        logger.info('  GET  /api/v1/calls/:session_id/score      - QA scorecard');
+        logger.info('  POST /api/v1/calls/:session_id/grade      - Re-grade against the QA rubric');
+        logger.info('  GET  /api/v1/calls/:session_id/recording  - Recording playback/download links');
+        logger.info('  GET  /api/v1/calls/:session_id/recording/download - Download recording');
+        logger.info('  POST /api/v1/calls/:session_id/supervisor/listen   - Listen-only join token');
+        logger.info('  POST /api/v1/calls/:session_id/supervisor/whisper  - Guide the AI (caller does not hear)');
+        logger.info('  POST /api/v1/calls/:session_id/supervisor/takeover - Pause the AI and speak to the caller');
+        logger.info('  POST /api/v1/calls/:session_id/supervisor/release  - Hand the call back to the AI');
         logger.info('  POST /api/v1/calls/outbound               - Initiate outbound call');
         
         logger.info('');
@@ -268,9 +295,20 @@ export function createApiServer(port: number = 8000): http.Server {
         logger.info('  GET  /api/v1/documents/:id/status         - Get upload session status');
         logger.info('  GET  /api/v1/documents/:id/chunks         - Get document chunks');
         logger.info('  POST /api/v1/documents/ingest             - Upload & ingest document');
+        logger.info('  POST /api/v1/documents/ingest-url         - Ingest a URL, sitemap or site crawl');
         logger.info('  POST /api/v1/documents/:id/confirm        - Confirm chunk preview');
         logger.info('  POST /api/v1/documents/:id/cancel         - Cancel upload session');
         logger.info('  DELETE /api/v1/documents/:id              - Delete document cascade');
+        logger.info('  GET  /api/v1/knowledge-sources?agent_id=xxx - List knowledge sources');
+        logger.info('  POST /api/v1/knowledge-sources            - Add URL / Drive / upload source');
+        logger.info('  GET|PUT|DELETE /api/v1/knowledge-sources/:id - Manage source and schedule');
+        logger.info('  POST /api/v1/knowledge-sources/:id/sync   - Re-sync now');
+        logger.info('  POST /api/v1/knowledge-sources/:id/upload - Upload a new file version');
+        logger.info('  GET  /api/v1/knowledge-sources/:id/history - Sync history');
+        logger.info('  POST /api/v1/catalog/import               - Import menu / price list (CSV, XLSX)');
+        logger.info('  GET  /api/v1/catalog?agent_id=xxx         - List or look up catalog items');
+        logger.info('  PUT|DELETE /api/v1/catalog/items/:id      - Edit or delete a catalog item');
+        logger.info('  DELETE /api/v1/catalog?agent_id=xxx       - Delete an agent\'s catalog');
         
         logger.info('');
         logger.info('📈 Analytics');
@@ -279,13 +317,16 @@ export function createApiServer(port: number = 8000): http.Server {
         logger.info('  GET  /api/v1/analytics/agent/:agent_id    - Per-agent analytics');
         logger.info('  GET  /api/v1/analytics/latency/:agent_id  - Latency statistics');
         logger.info('  GET  /api/v1/analytics/functions/:agent_id- Function call stats');
+        logger.info('  GET  /api/v1/analytics/failover           - Provider failover counts');
         logger.info('  GET  /api/v1/analytics/health             - System health metrics');
+        logger.info('  GET  /api/v1/analytics/campaigns          - Campaign outcomes');
         logger.info('  GET  /api/v1/analytics/charts/call-volume - Call volume chart data');
         logger.info('  GET  /api/v1/analytics/charts/status-dist - Status distribution');
         logger.info('  GET  /api/v1/analytics/charts/latency     - Latency trends');
         logger.info('  GET  /api/v1/analytics/charts/duration    - Call duration histogram');
         logger.info('  GET  /api/v1/analytics/charts/functions   - Function calls chart');
         logger.info('  GET  /api/v1/analytics/charts/sentiment   - Sentiment analysis');
+        logger.info('  GET  /api/v1/analytics/charts/qa          - QA scorecard trends');
         logger.info('  GET  /api/v1/analytics/charts/error-rate  - Error rate trends');
         logger.info('  GET  /api/v1/analytics/charts/peak-hours  - Peak usage hours');
         logger.info('  GET  /api/v1/analytics/charts/agent-perf  - Agent performance');
@@ -300,6 +341,21 @@ export function createApiServer(port: number = 8000): http.Server {
         logger.info('  POST /api/v1/integrations/test-webhook    - Test webhook (CORS proxy)');
         logger.info('  POST /api/v1/integrations/send-to-sheets  - Send data to sheets');
         
+        logger.info('');
+        logger.info('📣 Campaigns');
+        logger.info('  GET  /api/v1/campaigns?tenant_id=xxx      - List campaigns');
+        logger.info('  POST /api/v1/campaigns                    - Create campaign');
+        logger.info('  GET  /api/v1/campaigns/:id                - Get campaign + stats');
+        logger.info('  PUT  /api/v1/campaigns/:id                - Update campaign');
+        logger.info('  DELETE /api/v1/campaigns/:id              - Delete campaign');
+        logger.info('  POST /api/v1/campaigns/:id/contacts       - Upload contacts (CSV)');
+        logger.info('  GET  /api/v1/campaigns/:id/contacts       - List contact outcomes');
+        logger.info('  POST /api/v1/campaigns/:id/start          - Start (or pause/resume/cancel)');
+        logger.info('  GET  /api/v1/campaigns/:id/stats          - Outcome rollup');
+        logger.info('  GET  /api/v1/campaigns/dnc?tenant_id=xxx  - List do-not-call numbers');
+        logger.info('  POST /api/v1/campaigns/dnc                - Add do-not-call numbers');
+        logger.info('  DELETE /api/v1/campaigns/dnc/:phone       - Remove do-not-call number');
+        
         logger.info('');
         logger.info('📡 LiveKit SIP');
         logger.info('  POST /api/v1/livekit/sip-dispatch         - SIP dispatch webhook');
@@ -316,9 +372,17 @@ export function createApiServer(port: number = 8000): http.Server {
 const port = parseInt(process.env.API_PORT || '8000', 10);
 const server = createApiServer(port);
 
+// Dial contacts queued by the campaign scheduler cron
+getCampaignDialer().start();
+
+// Re-sync knowledge sources queued by the source sync cron
+getKnowledgeSourceSyncer().start();
+
 // Keep the process alive
 process.on('SIGINT', () => {
     logger.info('Shutting down API server...');
+    getCampaignDialer().stop();
+    getKnowledgeSourceSyncer().stop();
     server.close(() => {
         logger.info('API server stopped');
         process.exit(0);
@@ -327,6 +391,8 @@ process.on('SIGINT', () => {
 
 process.on('SIGTERM', () => {
     logger.info('Shutting down API server...');
+    getCampaignDialer().stop();
+    getKnowledgeSourceSyncer().stop();
     server.close(() => {
         logger.info('API server stopped');
         process.exit(0);
@@ -43,6 +43,121 @@ const sarvamConfigSchema = z.object({
   language: z.string().default('ta-IN'), // Default to Tamil for Indian language support
 });
 
+/**
+ * Alternative STT provider configuration schema
+ * Agents pick the provider in their config; credentials always come from here.
+ */
+const sttConfigSchema = z.object({
+  whisperBaseUrl: z.string().default('https://api.openai.com/v1'), // Any OpenAI-compatible /audio/transcriptions server
+  whisperModel: z.string().default('whisper-1'),
+  whisperApiKey: z.string().optional(), // Not needed for local faster-whisper servers
+  deepgramApiKey: z.string().optional(),
+  deepgramModel: z.string().default('nova-2'),
+  customApiKey: z.string().optional(),
+});
+
+/**
+ * Alternative TTS provider configuration schema
+ */
+const ttsConfigSchema = z.object({
+  openaiModel: z.string().default('gpt-4o-mini-tts'),
+  openaiVoice: z.string().default('alloy'),
+  customApiKey: z.string().optional(),
+});
+
+/**
+ * Provider failover configuration schema
+ * Fallbacks are tried in order when the agent's primary provider fails mid-call.
+ */
+const failoverConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  sttProviders: z.array(z.string()).default(['whisper']),
+  ttsProviders: z.array(z.string()).default(['openai']),
+  llmModel: z.string().optional(), // Fallback LLM (e.g. 'gpt-4.1-mini' or a model on llmBaseUrl)
+  llmBaseUrl: z.string().optional(), // OpenAI-compatible endpoint for the fallback LLM
+  llmApiKey: z.string().optional(),
+  failureThreshold: z.number().int().min(1).default(3), // Consecutive errors before the breaker opens
+  latencyThresholdMs: z.number().default(4000), // Responses slower than this count as a latency spike
+  cooldownMs: z.number().default(60_000), // How long a tripped provider is skipped before it is retried
+});
+
+/**
+ * Call recording configuration schema
+ * Recordings are written by LiveKit egress to an S3-compatible bucket (S3, R2, MinIO...).
+ * Agents opt in via config.recording; nothing is recorded without a bucket.
+ */
+const recordingConfigSchema = z.object({
+  s3Bucket: z.string().optional(),
+  s3Region: z.string().default('us-east-1'),
+  s3Endpoint: z.string().optional(), // Non-AWS providers (e.g. https://<account>.r2.cloudflarestorage.com)
+  s3AccessKeyId: z.string().optional(),
+  s3SecretAccessKey: z.string().optional(),
+  s3ForcePathStyle: z.boolean().default(false), // Needed by MinIO and most self-hosted stores
+  retentionDays: z.number().int().min(1).default(90), // Default for agents that do not set their own
+  consentMessage: z.string().default('This call is being recorded for quality and training purposes.'),
+  urlExpirySeconds: z.number().int().min(60).default(3600), // Lifetime of playback/download links
+});
+
+/**
+ * Live call monitoring configuration schema
+ * The agent publishes call activity in small batches; the API polls it for dashboard streams.
+ */
+const monitoringConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  flushIntervalMs: z.number().int().min(100).default(500), // How long the agent batches live events
+  pollIntervalMs: z.number().int().min(250).default(1000), // How often a live stream checks for new events
+});
+
+/**
+ * Supervisor controls configuration schema
+ * Supervisors join the call's LiveKit room from the browser with a short-lived token.
+ */
+const supervisorConfigSchema = z.object({
+  joinUrl: z.string().default('https://meet.livekit.io/custom'), // Web client opened with ?liveKitUrl=&token=
+  tokenTtlSeconds: z.number().int().min(60).default(3600),
+});
+
+/**
+ * Post-call analysis configuration schema
+ * Summary, sentiment, disposition and key entities are generated by an LLM after each call.
+ */
+const analysisConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  model: z.string().default('gpt-4o-mini'),
+  timeoutMs: z.number().int().min(1000).default(20000), // Runs while the job process shuts down (60s limit) - no retries
+  defaultDispositions: z.array(z.string()).default(['booked', 'interested', 'not_interested', 'callback', 'resolved', 'unresolved']), // For agents without config.dispositions
+});
+
+/**
+ * QA scorecard configuration schema
+ * Calls of agents with a config.qaRubric are graded by an LLM after they end.
+ */
+const qaConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  model: z.string().default('gpt-4o-mini'),
+  timeoutMs: z.number().int().min(1000).default(20000), // Same shutdown budget as analysis - no retries
+  passingScore: z.number().min(0).max(100).default(80), // For rubrics without their own passingScore
+});
+
+/**
+ * Knowledge retrieval configuration schema
+ * Rerankers used by agents with config.rag.rerank ('llm' or 'cross_encoder'), and the
+ * translator that lets Tamil/Hindi questions search English documents (config.rag.crossLingual).
+ */
+const ragConfigSchema = z.object({
+  llmRerankModel: z.string().default('gpt-4o-mini'),
+  crossEncoderUrl: z.string().url().optional(), // Cohere/Jina-compatible /rerank endpoint
+  crossEncoderApiKey: z.string().optional(),
+  crossEncoderModel: z.string().default('rerank-multilingual-v3.0'),
+  rerankTimeoutMs: z.number().int().min(100).default(1500), // Past this the fused order is used as-is
+  translationBackend: z.enum(['sarvam', 'local', 'none']).default('sarvam'),
+  sarvamTranslateModel: z.string().default('mayura:v1'),
+  localTranslateUrl: z.string().url().optional(), // OpenAI-compatible endpoint (vLLM, Ollama...) for the local backend
+  localTranslateModel: z.string().optional(),
+  localTranslateApiKey: z.string().optional(),
+  translateTimeoutMs: z.number().int().min(100).default(800), // Past this only the original query is searched
+});
+
 /**
  * LiveKit service configuration schema
  */
@@ -66,6 +181,9 @@ const convexConfigSchema = z.object({
 const sessionConfigSchema = z.object({
   defaultTtlSeconds: z.number().default(3600), // 1 hour
   enablePersistence: z.boolean().default(true),
+  flushIntervalMs: z.number().int().min(1000).default(5000), // Interactions are written to Convex this often during a call
+  spoolDir: z.string().default('.call-spool'), // Write-ahead spool, replayed after a crash or Convex outage
+  orphanGraceMs: z.number().int().min(0).default(120_000), // Active sessions younger than this are never treated as orphaned
 });
 
 /**
@@ -73,6 +191,15 @@ const sessionConfigSchema = z.object({
  */
 const appConfigSchema = z.object({
   sarvam: sarvamConfigSchema,
+  stt: sttConfigSchema,
+  tts: ttsConfigSchema,
+  failover: failoverConfigSchema,
+  recording: recordingConfigSchema,
+  monitoring: monitoringConfigSchema,
+  supervisor: supervisorConfigSchema,
+  analysis: analysisConfigSchema,
+  qa: qaConfigSchema,
+  rag: ragConfigSchema,
   livekit: livekitConfigSchema,
   convex: convexConfigSchema,
   session: sessionConfigSchema,
@@ -80,6 +207,14 @@ const appConfigSchema = z.object({
   logLevel: z.enum(['DEBUG', 'INFO', 'WARNING', 'ERROR']).default('INFO'),
 });
 
+/**
+ * Parse a comma-separated env var ('' disables the list)
+ */
+function parseList(value: string | undefined, defaults: string[]): string[] {
+  if (value === undefined) return defaults;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
 /**
  * Parse and validate configuration from environment variables
  */
@@ -99,6 +234,75 @@ function loadConfig() {
         ttsPace: parseFloat(process.env.SARVAM_TTS_PACE || '0.85'),  // Speech rate: 0.5-2.0, lower = slower
         language: process.env.SARVAM_LANGUAGE || 'ta-IN',  // Default to Tamil
       },
+      stt: {
+        whisperBaseUrl: process.env.WHISPER_BASE_URL || 'https://api.openai.com/v1',
+        whisperModel: process.env.WHISPER_MODEL || 'whisper-1',
+        whisperApiKey: process.env.WHISPER_API_KEY,
+        deepgramApiKey: process.env.DEEPGRAM_API_KEY,
+        deepgramModel: process.env.DEEPGRAM_MODEL || 'nova-2',
+        customApiKey: process.env.CUSTOM_STT_API_KEY,
+      },
+      tts: {
+        openaiModel: process.env.OPENAI_TTS_MODEL || 'gpt-4o-mini-tts',
+        openaiVoice: process.env.OPENAI_TTS_VOICE || 'alloy',
+        customApiKey: process.env.CUSTOM_TTS_API_KEY,
+      },
+      failover: {
+        enabled: process.env.FAILOVER_ENABLED !== 'false',
+        sttProviders: parseList(process.env.FAILOVER_STT_PROVIDERS, ['whisper']),
+        ttsProviders: parseList(process.env.FAILOVER_TTS_PROVIDERS, ['openai']),
+        llmModel: process.env.FAILOVER_LLM_MODEL,
+        llmBaseUrl: process.env.FAILOVER_LLM_BASE_URL,
+        llmApiKey: process.env.FAILOVER_LLM_API_KEY,
+        failureThreshold: parseInt(process.env.FAILOVER_FAILURE_THRESHOLD || '3', 10),
+        latencyThresholdMs: parseInt(process.env.FAILOVER_LATENCY_THRESHOLD_MS || '4000', 10),
+        cooldownMs: parseInt(process.env.FAILOVER_COOLDOWN_MS || '60000', 10),
+      },
+      recording: {
+        s3Bucket: process.env.RECORDING_S3_BUCKET,
+        s3Region: process.env.RECORDING_S3_REGION || 'us-east-1',
+        s3Endpoint: process.env.RECORDING_S3_ENDPOINT,
+        s3AccessKeyId: process.env.RECORDING_S3_ACCESS_KEY_ID,
+        s3SecretAccessKey: process.env.RECORDING_S3_SECRET_ACCESS_KEY,
+        s3ForcePathStyle: process.env.RECORDING_S3_FORCE_PATH_STYLE === 'true',
+        retentionDays: parseInt(process.env.RECORDING_RETENTION_DAYS || '90', 10),
+        consentMessage: process.env.RECORDING_CONSENT_MESSAGE || 'This call is being recorded for quality and training purposes.',
+        urlExpirySeconds: parseInt(process.env.RECORDING_URL_EXPIRY_SECONDS || '3600', 10),
+      },
+      monitoring: {
+        enabled: process.env.LIVE_MONITORING_ENABLED !== 'false',
+        flushIntervalMs: parseInt(process.env.LIVE_MONITORING_FLUSH_MS || '500', 10),
+        pollIntervalMs: parseInt(process.env.LIVE_MONITORING_POLL_MS || '1000', 10),
+      },
+      supervisor: {
+        joinUrl: process.env.SUPERVISOR_JOIN_URL || 'https://meet.livekit.io/custom',
+        tokenTtlSeconds: parseInt(process.env.SUPERVISOR_TOKEN_TTL_SECONDS || '3600', 10),
+      },
+      analysis: {
+        enabled: process.env.POST_CALL_ANALYSIS_ENABLED !== 'false',
+        model: process.env.POST_CALL_ANALYSIS_MODEL || 'gpt-4o-mini',
+        timeoutMs: parseInt(process.env.POST_CALL_ANALYSIS_TIMEOUT_MS || '20000', 10),
+        defaultDispositions: parseList(process.env.DEFAULT_CALL_DISPOSITIONS, ['booked', 'interested', 'not_interested', 'callback', 'resolved', 'unresolved']),
+      },
+      qa: {
+        enabled: process.env.QA_GRADING_ENABLED !== 'false',
+        model: process.env.QA_GRADING_MODEL || 'gpt-4o-mini',
+        timeoutMs: parseInt(process.env.QA_GRADING_TIMEOUT_MS || '20000', 10),
+        passingScore: parseFloat(process.env.QA_PASSING_SCORE || '80'),
+      },
+      rag: {
+        llmRerankModel: process.env.RAG_RERANK_LLM_MODEL || 'gpt-4o-mini',
+        crossEncoderUrl: process.env.RAG_CROSS_ENCODER_URL,
+        crossEncoderApiKey: process.env.RAG_CROSS_ENCODER_API_KEY,
+        crossEncoderModel: process.env.RAG_CROSS_ENCODER_MODEL || 'rerank-multilingual-v3.0',
+        rerankTimeoutMs: parseInt(process.env.RAG_RERANK_TIMEOUT_MS || '1500', 10),
+        translationBackend: (process.env.RAG_TRANSLATION_BACKEND || 'sarvam') as 'sarvam' | 'local' | 'none',
+        sarvamTranslateModel: process.env.RAG_SARVAM_TRANSLATE_MODEL || 'mayura:v1',
+        localTranslateUrl: process.env.RAG_LOCAL_TRANSLATE_URL,
+        localTranslateModel: process.env.RAG_LOCAL_TRANSLATE_MODEL,
+        localTranslateApiKey: process.env.RAG_LOCAL_TRANSLATE_API_KEY,
+        translateTimeoutMs: parseInt(process.env.RAG_TRANSLATE_TIMEOUT_MS || '800', 10),
+      },
       livekit: {
         url: process.env.LIVEKIT_URL || (isDownloadFilesMode ? 'wss://build.livekit.cloud' : ''),
         apiKey: process.env.LIVEKIT_API_KEY || (isDownloadFilesMode ? 'build-placeholder' : ''),
@@ -111,6 +315,9 @@ function loadConfig() {
       session: {
         defaultTtlSeconds: parseInt(process.env.SESSION_TTL_SECONDS || '3600', 10),
         enablePersistence: process.env.ENABLE_SESSION_PERSISTENCE !== 'false',
+        flushIntervalMs: parseInt(process.env.SESSION_FLUSH_INTERVAL_MS || '5000', 10),
+        spoolDir: process.env.CALL_SPOOL_DIR || '.call-spool',
+        orphanGraceMs: parseInt(process.env.ORPHAN_SESSION_GRACE_MS || '120000', 10),
       },
       isDevelopment: process.env.NODE_ENV !== 'production',
       logLevel: (process.env.LOG_LEVEL || 'INFO').toUpperCase() as 'DEBUG' | 'INFO' | 'WARNING' | 'ERROR',
@@ -141,6 +348,15 @@ export const config = loadConfig();
  * Type exports for configuration
  */
 export type SarvamConfig = z.infer<typeof sarvamConfigSchema>;
+export type STTProviderConfig = z.infer<typeof sttConfigSchema>;
+export type TTSProviderConfig = z.infer<typeof ttsConfigSchema>;
+export type FailoverConfig = z.infer<typeof failoverConfigSchema>;
+export type RecordingConfig = z.infer<typeof recordingConfigSchema>;
+export type MonitoringConfig = z.infer<typeof monitoringConfigSchema>;
+export type SupervisorConfig = z.infer<typeof supervisorConfigSchema>;
+export type AnalysisConfig = z.infer<typeof analysisConfigSchema>;
+export type QAConfig = z.infer<typeof qaConfigSchema>;
+export type RagConfig = z.infer<typeof ragConfigSchema>;
 export type LivekitConfig = z.infer<typeof livekitConfigSchema>;
 export type ConvexConfig = z.infer<typeof convexConfigSchema>;
 export type SessionConfig = z.infer<typeof sessionConfigSchema>;
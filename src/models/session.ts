@@ -78,6 +78,8 @@ export interface Interaction {
   functionParams?: any;
   functionResult?: any;
   latencyMs?: number;
+  /** Spoken language of the message (detected for callers, TTS language for the agent) */
+  language?: string;
   sentiment?: Sentiment;
   metadata?: Record<string, any>;
 }
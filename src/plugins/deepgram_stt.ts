@@ -0,0 +1,185 @@
+/**
+ * Deepgram Speech-to-Text Plugin for LiveKit Agents (TypeScript)
+ *
+ * Uses Deepgram's pre-recorded `/v1/listen` API on VAD-segmented utterances,
+ * the same non-streaming contract as WhisperSTT (AgentSession's Silero VAD
+ * decides where each utterance starts and ends).
+ */
+
+import { stt, type AudioBuffer, mergeFrames, APIConnectionError, APIStatusError, APITimeoutError } from '@livekit/agents';
+import { randomUUID } from 'crypto';
+import { getLogger } from '../core/logging.js';
+import { audioFrameToWav, audioFrameDuration } from './wav.js';
+import { toDetectedLanguageCode } from './language_id.js';
+
+const logger = getLogger('deepgram.stt');
+
+const DEEPGRAM_API_URL = 'https://api.deepgram.com/v1';
+
+export interface DeepgramSTTOptions {
+  apiKey: string;
+  /** Language code (e.g., 'hi-IN', 'en-IN') */
+  languageCode: string;
+  /** Identify the spoken language (detect_language) instead of forcing languageCode */
+  detectLanguage?: boolean;
+  /** Model name (default: 'nova-2') */
+  model?: string;
+  /** Override the API root (self-hosted Deepgram) */
+  baseUrl?: string;
+  /** Per-request timeout */
+  requestTimeoutMs?: number;
+}
+
+/**
+ * Deepgram uses 'en-IN' for Indian English and bare codes ('hi', 'ta') otherwise
+ */
+function toDeepgramLanguage(languageCode: string): string {
+  return languageCode.startsWith('en-') ? languageCode : languageCode.split('-')[0].toLowerCase();
+}
+
+export class DeepgramSTT extends stt.STT {
+  label = 'DeepgramSTT';
+
+  private apiKey: string;
+  private languageCode: string;
+  private model: string;
+  private detectLanguage: boolean;
+  private baseUrl: string;
+  private requestTimeoutMs: number;
+  private closed = false;
+
+  constructor(options: DeepgramSTTOptions) {
+    super({ streaming: false, interimResults: false });
+
+    this.apiKey = options.apiKey;
+    this.languageCode = options.languageCode;
+    this.model = options.model || 'nova-2';
+    this.detectLanguage = options.detectLanguage ?? false;
+    this.baseUrl = (options.baseUrl || DEEPGRAM_API_URL).replace(/\/+$/, '');
+    this.requestTimeoutMs = options.requestTimeoutMs || 15_000;
+
+    logger.info(`DeepgramSTT initialized: model=${this.model}, language=${this.detectLanguage ? 'auto' : this.languageCode}`);
+  }
+
+  protected async _recognize(buffer: AudioBuffer, abortSignal?: AbortSignal): Promise<stt.SpeechEvent> {
+    const frame = mergeFrames(buffer);
+    const startTime = performance.now();
+
+    const params = new URLSearchParams({
+      model: this.model,
+      punctuate: 'true',
+      smart_format: 'true',
+    });
+    if (this.detectLanguage) {
+      params.set('detect_language', 'true');
+    } else {
+      params.set('language', toDeepgramLanguage(this.languageCode));
+    }
+
+    const timeoutSignal = AbortSignal.timeout(this.requestTimeoutMs);
+    const signal = abortSignal ? AbortSignal.any([abortSignal, timeoutSignal]) : timeoutSignal;
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/listen?${params}`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Token ${this.apiKey}`,
+          'Content-Type': 'audio/wav',
+        },
+        body: audioFrameToWav(frame),
+        signal,
+      });
+    } catch (error) {
+      if (timeoutSignal.aborted) {
+        throw new APITimeoutError({ message: `DeepgramSTT request timed out after ${this.requestTimeoutMs}ms` });
+      }
+      throw new APIConnectionError({ message: `DeepgramSTT request failed: ${(error as Error).message}` });
+    }
+
+    const requestId = response.headers.get('dg-request-id') || randomUUID();
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new APIStatusError({
+        message: `DeepgramSTT returned ${response.status}: ${body.slice(0, 200)}`,
+        options: { statusCode: response.status, requestId },
+      });
+    }
+
+    const result = await response.json() as any;
+    const channel = result?.results?.channels?.[0];
+    const alternative = channel?.alternatives?.[0];
+    const text = (alternative?.transcript || '').trim();
+    const language = toDetectedLanguageCode(channel?.detected_language) || this.languageCode;
+
+    logger.info('Transcript received', {
+      requestId,
+      text,
+      ...(this.detectLanguage && { language }),
+      confidence: alternative?.confidence,
+      latencyMs: Math.round(performance.now() - startTime),
+    });
+
+    return {
+      type: stt.SpeechEventType.FINAL_TRANSCRIPT,
+      requestId,
+      alternatives: [
+        {
+          language,
+          text,
+          confidence: alternative?.confidence ?? 1.0,
+          startTime: 0,
+          endTime: audioFrameDuration(frame),
+        },
+      ],
+    };
+  }
+
+  /** Streaming is provided by AgentSession's VAD stream adapter */
+  stream(): stt.SpeechStream {
+    throw new Error('DeepgramSTT does not support streaming; give the AgentSession a VAD so it can segment audio');
+  }
+
+  /**
+   * Switch recognition language mid-call (applies from the next utterance).
+   * With language detection on, only the fallback label changes.
+   */
+  setLanguageCode(languageCode: string): void {
+    if (languageCode === this.languageCode) return;
+    logger.info('Switching STT language', { from: this.languageCode, to: languageCode });
+    this.languageCode = languageCode;
+  }
+
+  /**
+   * Pre-warm keep-alive connections before the first utterance.
+   * @param count - Number of connections to open (default: 1)
+   */
+  prewarm(count: number = 1): void {
+    if (this.closed) return;
+    logger.info('Pre-warming DeepgramSTT HTTP connections', { count });
+    for (let i = 0; i < count; i++) {
+      fetch(`${this.baseUrl}/projects`, {
+        headers: { Authorization: `Token ${this.apiKey}` },
+        signal: AbortSignal.timeout(5_000),
+      })
+        .then(response => response.arrayBuffer())
+        .catch(error => logger.debug('DeepgramSTT prewarm failed', { error: (error as Error).message }));
+    }
+  }
+
+  /**
+   * Nothing to tear down - connections are owned by the global HTTP agent.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+
+  getLanguageCode(): string {
+    return this.languageCode;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+}
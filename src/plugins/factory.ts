@@ -23,7 +23,11 @@
 
 import * as openai from '@livekit/agents-plugin-openai';
 import { SarvamSTT } from './sarvam_stt.js';
+import { WhisperSTT } from './whisper_stt.js';
+import { DeepgramSTT } from './deepgram_stt.js';
 import { SarvamTTS, type OnTextSynthesizedCallback } from './sarvam_tts.js';
+import { OpenAITTS } from './openai_tts.js';
+import { FailoverSTT, FailoverTTS, createFailoverLLM, type OnFailoverCallback } from './failover.js';
 import { config } from '../core/config.js';
 import { logger } from '../core/logging.js';
 import type {
@@ -38,7 +42,7 @@ import type {
   TTSWithPrewarm,
   STTWithPrewarm,
 } from './types.js';
-import type { stt, tts, llm } from '@livekit/agents';
+import type { stt, tts, llm, VAD } from '@livekit/agents';
 
 // ============================================
 // SARVAM LANGUAGE DETECTION
@@ -81,10 +85,10 @@ export function isSarvamLanguage(language: string): boolean {
 
 /**
  * Default STT configuration
- * Note: vadSignals is dynamically set based on language in createPluginsFromEnv
+ * Note: vadSignals is dynamically set based on language in createPluginsFromEnv.
+ * The model default is per provider (see createSTT).
  */
 const DEFAULT_STT_CONFIG: Partial<STTConfig> = {
-  model: 'saarika:v2.5',
   sampleRate: 16000,
   highVadSensitivity: false,
   vadSignals: false,  // Default off - enabled dynamically for Indian languages
@@ -92,10 +96,9 @@ const DEFAULT_STT_CONFIG: Partial<STTConfig> = {
 
 /**
  * Default TTS configuration
+ * Note: model/speaker defaults are per provider (see createTTS).
  */
 const DEFAULT_TTS_CONFIG: Partial<TTSConfig> = {
-  model: 'bulbul:v2',
-  speaker: 'anushka',
   pace: 0.85,
   enablePreprocessing: true,
 };
@@ -117,8 +120,12 @@ const DEFAULT_LLM_CONFIG: Partial<LLMConfig> = {
  * 
  * Supports multiple providers:
  * - 'sarvam': Sarvam AI (Indian languages) - with connection pooling and prewarm
- * - 'deepgram', 'assemblyai', 'whisper': Add imports and implementations
- * - 'custom': Uses baseUrl from config for local/custom endpoints
+ * - 'whisper': OpenAI-compatible /audio/transcriptions (OpenAI, faster-whisper, whisper.cpp)
+ * - 'deepgram': Deepgram pre-recorded API
+ * - 'custom': Whisper-compatible server at the baseUrl from config
+ * 
+ * Whisper, Deepgram and custom are non-streaming: AgentSession segments the
+ * audio with its Silero VAD and recognizes one utterance at a time.
  */
 function createSTT(
   provider: STTProvider,
@@ -147,24 +154,48 @@ function createSTT(
       return new SarvamSTT({
         apiKey: sttConfig.apiKey,
         languageCode: sttConfig.language!,
-        model: sttConfig.model,
+        model: sttConfig.model || 'saarika:v2.5',
         sampleRate: sttConfig.sampleRate,
         highVadSensitivity: sttConfig.highVadSensitivity,
         vadSignals: sttConfig.vadSignals,
+        detectLanguage: sttConfig.detectLanguage,
       });
 
-    // Add other providers here:
-    // case 'deepgram':
-    //   return new deepgram.STT({ apiKey: sttConfig.apiKey, model: sttConfig.model });
+    case 'whisper':
+      return new WhisperSTT({
+        baseUrl: sttConfig.baseUrl || config.stt.whisperBaseUrl,
+        apiKey: sttConfig.apiKey,
+        languageCode: sttConfig.language!,
+        model: sttConfig.model || config.stt.whisperModel,
+        detectLanguage: sttConfig.detectLanguage,
+      });
 
-    // case 'whisper':
-    //   return new whisper.STT({ baseUrl: sttConfig.baseUrl, model: sttConfig.model });
+    case 'deepgram':
+      if (!sttConfig.apiKey) throw new Error('Deepgram API key required (set DEEPGRAM_API_KEY)');
+      return new DeepgramSTT({
+        apiKey: sttConfig.apiKey,
+        languageCode: sttConfig.language!,
+        model: sttConfig.model || config.stt.deepgramModel,
+        baseUrl: sttConfig.baseUrl,
+        detectLanguage: sttConfig.detectLanguage,
+      });
+
+    // Add other providers here:
+    // case 'assemblyai':
+    //   return new assemblyai.STT({ apiKey: sttConfig.apiKey, model: sttConfig.model });
 
     case 'custom':
       if (!sttConfig.baseUrl) throw new Error('baseUrl required for custom STT provider');
       logger.info('Using custom STT endpoint', { baseUrl: sttConfig.baseUrl });
-      // Implement custom STT wrapper here
-      throw new Error('Custom STT provider not yet implemented. Add your implementation here.');
+      // Custom servers are expected to speak the Whisper transcription API
+      return new WhisperSTT({
+        baseUrl: sttConfig.baseUrl,
+        apiKey: sttConfig.apiKey,
+        languageCode: sttConfig.language!,
+        model: sttConfig.model,
+        detectLanguage: sttConfig.detectLanguage,
+        label: 'CustomSTT',
+      });
 
     default:
       throw new Error(`Unsupported STT provider: ${provider}. Add implementation in factory.ts`);
@@ -176,8 +207,12 @@ function createSTT(
  * 
  * Supports multiple providers:
  * - 'sarvam': Sarvam AI (Indian languages)
+ * - 'openai': OpenAI /audio/speech (baseUrl optional, for proxies)
  * - 'elevenlabs', 'azure', 'cartesia': Add imports and implementations
- * - 'custom': Uses baseUrl from config for local/custom endpoints
+ * - 'custom': OpenAI-compatible speech server at the baseUrl from config
+ * 
+ * Non-Sarvam engines extend SegmentedTTS, which provides the same sentence
+ * streaming, phrase cache and onTextSynthesized hook as SarvamTTS.
  */
 function createTTS(
   provider: TTSProvider,
@@ -209,14 +244,27 @@ function createTTS(
       ttsInstance = new SarvamTTS({
         apiKey: ttsConfig.apiKey,
         languageCode: ttsConfig.language!,
-        speaker: ttsConfig.speaker,
-        model: ttsConfig.model,
+        speaker: ttsConfig.speaker || 'anushka',
+        model: ttsConfig.model || 'bulbul:v2',
         pace: ttsConfig.pace,
         enablePreprocessing: ttsConfig.enablePreprocessing,
         onTextSynthesized: ttsConfig.onTextSynthesized,
       }) as TTSWithPrewarm;
       break;
 
+    case 'openai':
+      if (!ttsConfig.apiKey && !ttsConfig.baseUrl) throw new Error('OpenAI API key required for OpenAI TTS');
+      ttsInstance = new OpenAITTS({
+        baseUrl: ttsConfig.baseUrl || 'https://api.openai.com/v1',
+        apiKey: ttsConfig.apiKey,
+        languageCode: ttsConfig.language!,
+        model: ttsConfig.model || config.tts.openaiModel,
+        voice: ttsConfig.speaker || config.tts.openaiVoice,
+        speed: ttsConfig.pace,
+        onTextSynthesized: ttsConfig.onTextSynthesized,
+      });
+      break;
+
     // Add other providers here:
     // case 'elevenlabs':
     //   return new elevenlabs.TTS({ apiKey: ttsConfig.apiKey, voice: ttsConfig.speaker });
@@ -227,8 +275,20 @@ function createTTS(
     case 'custom':
       if (!ttsConfig.baseUrl) throw new Error('baseUrl required for custom TTS provider');
       logger.info('Using custom TTS endpoint', { baseUrl: ttsConfig.baseUrl });
-      // Implement custom TTS wrapper here
-      throw new Error('Custom TTS provider not yet implemented. Add your implementation here.');
+      // Custom servers are expected to speak the OpenAI speech API
+      ttsInstance = new OpenAITTS({
+        baseUrl: ttsConfig.baseUrl,
+        apiKey: ttsConfig.apiKey,
+        languageCode: ttsConfig.language!,
+        model: ttsConfig.model,
+        voice: ttsConfig.speaker,
+        speed: ttsConfig.pace,
+        responseFormat: ttsConfig.responseFormat,
+        sampleRate: ttsConfig.sampleRate,
+        onTextSynthesized: ttsConfig.onTextSynthesized,
+        label: 'CustomTTS',
+      });
+      break;
 
     default:
       throw new Error(`Unsupported TTS provider: ${provider}. Add implementation in factory.ts`);
@@ -251,7 +311,7 @@ function createTTS(
  * - 'anthropic': Claude models
  * - 'custom': Uses baseUrl from config for local/custom endpoints
  */
-function createLLM(
+export function createLLM(
   provider: LLMProvider,
   apiKey: string | undefined,
   overrides?: Partial<LLMConfig>
@@ -390,8 +450,9 @@ export function createPlugins(factoryConfig: PluginFactoryConfig): PluginBundle
   // });
 
   // Get API keys from flexible structure
-  const sttKey = apiKeys[sttProvider] || apiKeys.sarvam;
-  const ttsKey = apiKeys[ttsProvider] || apiKeys.sarvam;
+  // Keys are never shared across providers (a custom server must not receive the Sarvam key)
+  const sttKey = sttProvider === 'custom' ? apiKeys.customStt : apiKeys[sttProvider];
+  const ttsKey = ttsProvider === 'custom' ? apiKeys.customTts : apiKeys[ttsProvider];
   const llmKey = apiKeys[llmProvider] || apiKeys.openai;
 
   // Create plugins
@@ -481,16 +542,224 @@ export function createPluginsFromEnv(
 export interface AgentPluginConfig {
   /** Language code for STT/TTS (e.g., 'ta-IN', 'en-IN') */
   language: string;
-  /** TTS voice/speaker (e.g., 'anushka', 'arvind') */
+  /** TTS voice/speaker (e.g., 'anushka' for Sarvam, 'alloy' for OpenAI) */
   voice?: string;
-  /** TTS speech pace (0.5 to 2.0, default 0.85) */
+  /** TTS speech pace (0.5 to 2.0, default 0.85 for Sarvam, 1.0 otherwise) */
   pace?: number;
-  /** STT model (default: 'saarika:v2.5') */
+  /** Identify the caller's spoken language on every utterance (multi-language agents) */
+  detectLanguage?: boolean;
+  /** STT provider (default: 'sarvam') */
+  sttProvider?: STTProvider;
+  /** STT model (provider default: 'saarika:v2.5', WHISPER_MODEL, DEEPGRAM_MODEL) */
   sttModel?: string;
-  /** TTS model (default: 'bulbul:v2') */
+  /** STT endpoint for 'whisper' (overrides WHISPER_BASE_URL) and 'custom' providers */
+  sttBaseUrl?: string;
+  /** TTS provider (default: 'sarvam') */
+  ttsProvider?: TTSProvider;
+  /** TTS model (provider default: 'bulbul:v2', OPENAI_TTS_MODEL) */
   ttsModel?: string;
+  /** TTS endpoint for 'openai' (proxies) and 'custom' providers */
+  ttsBaseUrl?: string;
+  /** Audio format for 'custom' servers ('pcm' default, or 'wav') */
+  ttsResponseFormat?: 'pcm' | 'wav';
+  /** Sample rate of 'custom' server audio (default 24000) */
+  ttsSampleRate?: number;
   /** LLM temperature (0.0 to 2.0, default 0.1) */
   temperature?: number;
+  /** Session VAD - lets non-streaming STT fallbacks (Whisper, Deepgram) segment audio */
+  vad?: VAD;
+  /** Called whenever a provider fails over mid-call (or recovers) */
+  onFailover?: OnFailoverCallback;
+}
+
+/**
+ * API keys for every provider, from environment/vault
+ * The OpenAI key is only used for Whisper when talking to OpenAI itself.
+ */
+function getProviderApiKeys(sttBaseUrl?: string): Record<string, string> {
+  const whisperBaseUrl = sttBaseUrl || config.stt.whisperBaseUrl;
+  const whisperKey = config.stt.whisperApiKey
+    || (whisperBaseUrl.includes('api.openai.com') ? config.convex.openaiApiKey : undefined);
+
+  const keys: Record<string, string | undefined> = {
+    sarvam: config.sarvam.apiKey,
+    openai: config.convex.openaiApiKey,
+    whisper: whisperKey,
+    deepgram: config.stt.deepgramApiKey,
+    customStt: config.stt.customApiKey,
+    customTts: config.tts.customApiKey,
+  };
+
+  return Object.fromEntries(
+    Object.entries(keys).filter((entry): entry is [string, string] => !!entry[1])
+  );
+}
+
+/**
+ * Why an STT provider cannot be used with the current configuration (null if it can)
+ */
+function sttProviderProblem(provider: STTProvider, sttBaseUrl?: string): string | null {
+  if (provider === 'deepgram' && !config.stt.deepgramApiKey) {
+    return 'DEEPGRAM_API_KEY not set';
+  } else if (provider === 'custom' && !sttBaseUrl) {
+    return 'custom STT provider requires stt.baseUrl in agent config';
+  } else if (provider === 'whisper' && !getProviderApiKeys(sttBaseUrl).whisper
+    && (sttBaseUrl || config.stt.whisperBaseUrl).includes('api.openai.com')) {
+    return 'OPENAI_API_KEY not set';
+  } else if (provider === 'assemblyai') {
+    return 'AssemblyAI STT is not implemented';
+  } else if (!['sarvam', 'whisper', 'deepgram', 'custom'].includes(provider)) {
+    return `unknown STT provider '${provider}'`;
+  }
+  return null;
+}
+
+/**
+ * Why a TTS provider cannot be used with the current configuration (null if it can)
+ */
+function ttsProviderProblem(provider: TTSProvider, ttsBaseUrl?: string): string | null {
+  if (provider === 'openai' && !config.convex.openaiApiKey && !ttsBaseUrl) {
+    return 'OPENAI_API_KEY not set';
+  } else if (provider === 'custom' && !ttsBaseUrl) {
+    return 'custom TTS provider requires tts.baseUrl in agent config';
+  } else if (provider === 'elevenlabs' || provider === 'azure' || provider === 'cartesia') {
+    return `${provider} TTS is not implemented`;
+  } else if (!['sarvam', 'openai', 'custom'].includes(provider)) {
+    return `unknown TTS provider '${provider}'`;
+  }
+  return null;
+}
+
+/**
+ * Fall back to Sarvam when the agent's STT provider cannot be used,
+ * so a misconfigured provider degrades the call instead of dropping it
+ */
+function resolveSTTProvider(provider: STTProvider, sttBaseUrl?: string): STTProvider {
+  const problem = sttProviderProblem(provider, sttBaseUrl);
+  if (problem) {
+    logger.warning('Agent STT provider unavailable - using Sarvam', { provider, reason: problem });
+    return 'sarvam';
+  }
+
+  return provider;
+}
+
+/**
+ * Fall back to Sarvam when the agent's TTS provider cannot be used
+ */
+function resolveTTSProvider(provider: TTSProvider, ttsBaseUrl?: string): TTSProvider {
+  const problem = ttsProviderProblem(provider, ttsBaseUrl);
+  if (problem) {
+    logger.warning('Agent TTS provider unavailable - using Sarvam', { provider, reason: problem });
+    return 'sarvam';
+  }
+
+  return provider;
+}
+
+/**
+ * Fallback providers from FAILOVER_*_PROVIDERS that are usable and differ from the primary.
+ * Fallbacks run on provider defaults (agent model/voice/endpoint belong to the primary).
+ */
+function usableFallbacks<P extends string>(
+  kind: 'STT' | 'TTS',
+  providers: string[],
+  primary: P,
+  problemFor: (provider: P) => string | null
+): P[] {
+  return (providers as P[]).filter(provider => {
+    if (provider === primary) return false;
+    const problem = problemFor(provider);
+    if (problem) logger.warning(`${kind} fallback skipped`, { provider, reason: problem });
+    return !problem;
+  });
+}
+
+/**
+ * Wrap the primary plugins with failover to the configured fallback providers
+ * (see config.failover). Modalities without a usable fallback are left as-is.
+ */
+function withFailover(
+  bundle: PluginBundle,
+  options: {
+    language: string;
+    sttProvider: STTProvider;
+    ttsProvider: TTSProvider;
+    temperature: number;
+    detectLanguage?: boolean;
+    vad?: VAD;
+    onFailover?: OnFailoverCallback;
+  }
+): PluginBundle {
+  const failover = config.failover;
+  if (!failover.enabled) return bundle;
+
+  const { language, detectLanguage, vad, onFailover } = options;
+  const apiKeys = getProviderApiKeys();
+  const breaker = {
+    failureThreshold: failover.failureThreshold,
+    latencyThresholdMs: failover.latencyThresholdMs,
+    cooldownMs: failover.cooldownMs,
+  };
+  const result: PluginBundle = { ...bundle };
+
+  // STT
+  const sttFallbacks: STTWithPrewarm[] = [];
+  for (const provider of usableFallbacks('STT', failover.sttProviders, options.sttProvider, p => sttProviderProblem(p))) {
+    try {
+      sttFallbacks.push(createSTT(provider, language, apiKeys[provider], {
+        vadSignals: provider === 'sarvam' && isSarvamLanguage(language),
+        detectLanguage,
+      }));
+    } catch (error) {
+      logger.warning('STT fallback skipped', { provider, reason: (error as Error).message });
+    }
+  }
+
+  const sttProviders = [bundle.stt, ...sttFallbacks];
+  if (sttFallbacks.length > 0 && (vad || sttProviders.every(p => p.capabilities.streaming))) {
+    result.stt = new FailoverSTT({ providers: sttProviders, vad, breaker, onFailover }) as STTWithPrewarm;
+  } else if (sttFallbacks.length > 0) {
+    logger.warning('STT failover disabled - non-streaming fallbacks need the session VAD');
+  }
+
+  // TTS
+  const ttsFallbacks: TTSWithPrewarm[] = [];
+  for (const provider of usableFallbacks('TTS', failover.ttsProviders, options.ttsProvider, p => ttsProviderProblem(p))) {
+    try {
+      ttsFallbacks.push(createTTS(provider, language, apiKeys[provider], {
+        pace: provider === 'sarvam' ? 0.85 : 1.0,
+      }));
+    } catch (error) {
+      logger.warning('TTS fallback skipped', { provider, reason: (error as Error).message });
+    }
+  }
+
+  if (ttsFallbacks.length > 0) {
+    result.tts = new FailoverTTS({ providers: [bundle.tts, ...ttsFallbacks], languageCode: language, breaker, onFailover });
+  }
+
+  // LLM - a second model, optionally on another OpenAI-compatible endpoint
+  if (failover.llmModel) {
+    try {
+      const fallbackLLM = new openai.LLM({
+        model: failover.llmModel,
+        temperature: options.temperature,
+        ...(failover.llmBaseUrl && { baseURL: failover.llmBaseUrl }),
+        ...(failover.llmApiKey && { apiKey: failover.llmApiKey }),
+      });
+      result.llm = createFailoverLLM({
+        llms: [bundle.llm, fallbackLLM],
+        names: [`openai:${bundle.llm.model}`, `fallback:${failover.llmModel}`],
+        attemptTimeoutMs: failover.latencyThresholdMs,
+        onFailover,
+      });
+    } catch (error) {
+      logger.warning('LLM fallback skipped', { model: failover.llmModel, reason: (error as Error).message });
+    }
+  }
+
+  return result;
 }
 
 /**
@@ -498,6 +767,7 @@ export interface AgentPluginConfig {
  * 
  * API keys are always loaded from environment/vault for security.
  * All other settings (language, voice, pace) come from agent config.
+ * Fallback providers from config.failover are wrapped around the result.
  * 
  * @param agentConfig - Agent-specific plugin settings from database
  * @returns PluginBundle with STT, TTS, and LLM plugins
@@ -516,54 +786,120 @@ export function createPluginsFromAgentConfig(
 ): PluginBundle {
   const {
     language,
-    voice = 'anushka',
-    pace = 0.85,
-    sttModel = 'saarika:v2.5',
-    ttsModel = 'bulbul:v2',
+    sttModel,
+    sttBaseUrl,
+    ttsBaseUrl,
+    detectLanguage = false,
     temperature = 0.1,
   } = agentConfig;
 
+  const requestedSttProvider = agentConfig.sttProvider || 'sarvam';
+  const sttProvider = resolveSTTProvider(requestedSttProvider, sttBaseUrl);
+  // Model/endpoint belong to the requested provider - drop them if we fell back
+  const useSttOverrides = sttProvider === requestedSttProvider;
+
+  const requestedTtsProvider = agentConfig.ttsProvider || 'sarvam';
+  const ttsProvider = resolveTTSProvider(requestedTtsProvider, ttsBaseUrl);
+  // Voices are provider-specific too (an OpenAI voice is not a Sarvam speaker)
+  const useTtsOverrides = ttsProvider === requestedTtsProvider;
+  const voice = useTtsOverrides ? agentConfig.voice : undefined;
+  const pace = agentConfig.pace ?? (ttsProvider === 'sarvam' ? 0.85 : 1.0);
+  const ttsModel = useTtsOverrides ? agentConfig.ttsModel : undefined;
+
   // DUAL VAD ARCHITECTURE:
   // Silero VAD (in AgentSession) = pipeline control (ALWAYS enabled)
   // Sarvam VAD signals = transcript timing enhancement for Indian languages
-  const enableSarvamVadSignals = isSarvamLanguage(language);
+  const enableSarvamVadSignals = sttProvider === 'sarvam' && isSarvamLanguage(language);
 
   logger.info('Creating plugins from agent config', {
     language,
-    voice,
+    voice: voice || '(provider default)',
     pace,
-    sttModel,
-    ttsModel,
+    sttProvider,
+    sttModel: sttModel || '(provider default)',
+    detectLanguage,
+    ttsProvider,
+    ttsModel: ttsModel || '(provider default)',
     sarvamVadSignals: enableSarvamVadSignals,
   });
 
-  return createPlugins({
-    sttProvider: 'sarvam',
-    ttsProvider: 'sarvam',
+  const plugins = createPlugins({
+    sttProvider,
+    ttsProvider,
     llmProvider: 'openai',
     language,
     // API keys ALWAYS from environment/vault (never from agent config)
-    apiKeys: {
-      sarvam: config.sarvam.apiKey,
-      openai: config.convex.openaiApiKey,
-    },
+    apiKeys: getProviderApiKeys(sttBaseUrl),
     overrides: {
       stt: {
-        model: sttModel,
+        model: useSttOverrides ? sttModel : undefined,
+        baseUrl: useSttOverrides ? sttBaseUrl : undefined,
         // Enable Sarvam VAD signals for better transcript timing (Indian languages)
         vadSignals: enableSarvamVadSignals,
         highVadSensitivity: false, // Keep false to avoid double-triggers
+        detectLanguage,
       },
       tts: {
         model: ttsModel,
         speaker: voice,
         pace: pace,
+        baseUrl: useTtsOverrides ? ttsBaseUrl : undefined,
+        responseFormat: agentConfig.ttsResponseFormat,
+        sampleRate: agentConfig.ttsSampleRate,
       },
       llm: {
         temperature: temperature,
       },
     },
   });
+
+  return withFailover(plugins, {
+    language,
+    sttProvider,
+    ttsProvider,
+    temperature,
+    detectLanguage,
+    vad: agentConfig.vad,
+    onFailover: agentConfig.onFailover,
+  });
+}
+
+/**
+ * Speech-only plugins (no LLM, no failover)
+ *
+ * Used by the simulated caller in voice end-to-end tests, which speaks and
+ * listens to an agent but never holds a conversation of its own. Pointing
+ * 'whisper'/'custom' at local servers keeps the harness offline.
+ */
+export function createSpeechPlugins(
+  speechConfig: Pick<AgentPluginConfig,
+    'language' | 'voice' | 'pace' | 'sttProvider' | 'sttModel' | 'sttBaseUrl'
+    | 'ttsProvider' | 'ttsModel' | 'ttsBaseUrl' | 'ttsResponseFormat' | 'ttsSampleRate'>
+): { stt: STTWithPrewarm; tts: TTSWithPrewarm } {
+  const { language, sttBaseUrl, ttsBaseUrl } = speechConfig;
+  const sttProvider = speechConfig.sttProvider || 'sarvam';
+  const ttsProvider = speechConfig.ttsProvider || 'sarvam';
+
+  const sttProblem = sttProviderProblem(sttProvider, sttBaseUrl);
+  if (sttProblem) throw new Error(`STT provider '${sttProvider}' unavailable: ${sttProblem}`);
+  const ttsProblem = ttsProviderProblem(ttsProvider, ttsBaseUrl);
+  if (ttsProblem) throw new Error(`TTS provider '${ttsProvider}' unavailable: ${ttsProblem}`);
+
+  const apiKeys = getProviderApiKeys(sttBaseUrl);
+  const stt = createSTT(sttProvider, language, sttProvider === 'custom' ? apiKeys.customStt : apiKeys[sttProvider], {
+    model: speechConfig.sttModel,
+    baseUrl: sttBaseUrl,
+  });
+  const tts = createTTS(ttsProvider, language, ttsProvider === 'custom' ? apiKeys.customTts : apiKeys[ttsProvider], {
+    model: speechConfig.ttsModel,
+    speaker: speechConfig.voice,
+    pace: speechConfig.pace ?? (ttsProvider === 'sarvam' ? 0.85 : 1.0),
+    baseUrl: ttsBaseUrl,
+    responseFormat: speechConfig.ttsResponseFormat,
+    sampleRate: speechConfig.ttsSampleRate,
+  });
+
+  return { stt, tts };
 }
 
 // ============================================
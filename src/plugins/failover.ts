@@ -0,0 +1,841 @@
+/**
+ * Provider Failover for LiveKit Agents (TypeScript)
+ *
+ * Wraps a primary provider and ordered fallbacks for STT, TTS and LLM so an
+ * outage mid-call degrades the voice instead of ending the session:
+ * - A circuit breaker per provider trips on consecutive errors or latency spikes
+ * - Streams switch to the next healthy provider in place; the AgentSession
+ *   only sees an unrecoverable error once every provider has failed
+ * - The primary is tried again after a cooldown (at an utterance boundary for STT)
+ * - Every switch is reported through onFailover (recorded in callMetrics)
+ */
+
+import { APIConnectionError, llm, stt, tts, type APIConnectOptions, type AudioBuffer, type VAD } from '@livekit/agents';
+import { AudioResampler, type AudioFrame } from '@livekit/rtc-node';
+import { getLogger } from '../core/logging.js';
+import { detectSentenceBoundary, getMinSentenceLengthForLanguage, normalizeTextForTTS } from './tts_text.js';
+import type { OnTextSynthesizedCallback } from './sarvam_tts.js';
+import type { STTWithPrewarm, TTSWithPrewarm } from './types.js';
+
+const logger = getLogger('failover');
+
+/**
+ * Audio kept for replay when the STT provider dies mid-utterance
+ * (cleared on every final transcript, ~5s of 10ms frames)
+ */
+const MAX_REPLAY_FRAMES = 500;
+
+// ============================================
+// EVENTS
+// ============================================
+
+export type FailoverModality = 'stt' | 'tts' | 'llm';
+
+export interface FailoverEvent {
+  modality: FailoverModality;
+  /** Provider label traffic moved away from */
+  from: string;
+  /** Provider label now serving traffic */
+  to: string;
+  /** 'error'/'latency' when the breaker tripped, 'recovered' when returning to a higher-priority provider */
+  reason: 'error' | 'latency' | 'recovered';
+  /** Last error message from the provider that failed */
+  error?: string;
+}
+
+export type OnFailoverCallback = (event: FailoverEvent) => void;
+
+// ============================================
+// CIRCUIT BREAKER
+// ============================================
+
+export interface CircuitBreakerOptions {
+  /** Consecutive errors (or slow responses) before the breaker opens (default: 3) */
+  failureThreshold?: number;
+  /** Responses slower than this count as a latency spike (default: 4000) */
+  latencyThresholdMs?: number;
+  /** How long an open breaker rejects traffic before allowing a trial (default: 60000) */
+  cooldownMs?: number;
+}
+
+/**
+ * Per-provider circuit breaker
+ *
+ * closed    -> traffic flows, consecutive failures/slow responses are counted
+ * open      -> provider skipped until the cooldown elapses
+ * half_open -> next request is a trial; success closes, failure re-opens
+ */
+export class CircuitBreaker {
+  readonly name: string;
+
+  private state: 'closed' | 'open' | 'half_open' = 'closed';
+  private consecutiveFailures = 0;
+  private consecutiveSlow = 0;
+  private openedAt = 0;
+  private failureThreshold: number;
+  private latencyThresholdMs: number;
+  private cooldownMs: number;
+
+  /** Why the breaker last opened */
+  tripReason: 'error' | 'latency' = 'error';
+
+  constructor(name: string, options: CircuitBreakerOptions = {}) {
+    this.name = name;
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.latencyThresholdMs = options.latencyThresholdMs ?? 4000;
+    this.cooldownMs = options.cooldownMs ?? 60_000;
+  }
+
+  /**
+   * Whether traffic may go to this provider (moves an expired open breaker to half-open)
+   */
+  isAvailable(): boolean {
+    if (this.state !== 'open') return true;
+    if (Date.now() - this.openedAt < this.cooldownMs) return false;
+
+    this.state = 'half_open';
+    logger.info('Circuit half-open - trying provider again', { provider: this.name });
+    return true;
+  }
+
+  /**
+   * Record a successful response
+   * @param latencyMs - Time to first result, checked against the latency threshold
+   */
+  recordSuccess(latencyMs?: number): void {
+    this.consecutiveFailures = 0;
+
+    if (latencyMs !== undefined && latencyMs > this.latencyThresholdMs) {
+      this.consecutiveSlow++;
+      logger.warning('Provider latency spike', { provider: this.name, latencyMs: Math.round(latencyMs), count: this.consecutiveSlow });
+      if (this.state === 'half_open' || this.consecutiveSlow >= this.failureThreshold) this.trip('latency');
+      return;
+    }
+
+    this.consecutiveSlow = 0;
+    if (this.state === 'half_open') {
+      this.state = 'closed';
+      logger.info('Circuit closed - provider recovered', { provider: this.name });
+    }
+  }
+
+  /**
+   * Record a failed request (opens the breaker at the threshold, or at once when half-open)
+   */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) this.trip('error');
+  }
+
+  /**
+   * Open the breaker immediately (e.g. a long-lived stream died after exhausting its retries)
+   */
+  trip(reason: 'error' | 'latency'): void {
+    if (this.state !== 'open') {
+      logger.warning('Circuit opened - skipping provider', { provider: this.name, reason, cooldownMs: this.cooldownMs });
+    }
+    this.state = 'open';
+    this.tripReason = reason;
+    this.openedAt = Date.now();
+    this.consecutiveFailures = 0;
+    this.consecutiveSlow = 0;
+  }
+
+  get isOpen(): boolean {
+    return this.state === 'open';
+  }
+}
+
+/**
+ * Ordered providers with one breaker each. Tracks which provider is serving
+ * traffic and reports every change through onFailover.
+ */
+class ProviderPool {
+  readonly names: string[];
+
+  private breakers: CircuitBreaker[];
+  private activeIndex = 0;
+  private lastErrors: Array<string | undefined> = [];
+
+  constructor(
+    private readonly modality: FailoverModality,
+    names: string[],
+    options: CircuitBreakerOptions,
+    private readonly onFailover?: OnFailoverCallback,
+  ) {
+    this.names = names;
+    this.breakers = names.map(name => new CircuitBreaker(`${modality}:${name}`, options));
+  }
+
+  /**
+   * First provider (in priority order) whose breaker allows traffic.
+   * When every breaker is open the first non-excluded provider is tried anyway.
+   * @returns Provider index, or null when all providers are excluded
+   */
+  select(exclude: Set<number> = new Set()): number | null {
+    let index = this.breakers.findIndex((breaker, i) => !exclude.has(i) && breaker.isAvailable());
+    if (index === -1) index = this.names.findIndex((_, i) => !exclude.has(i));
+    if (index === -1) return null;
+
+    this.switchTo(index);
+    return index;
+  }
+
+  /**
+   * A higher-priority provider whose cooldown has elapsed, if any
+   */
+  recoveryCandidate(current: number): number | null {
+    for (let i = 0; i < current; i++) {
+      if (this.breakers[i].isOpen && this.breakers[i].isAvailable()) return i;
+    }
+    return null;
+  }
+
+  recordSuccess(index: number, latencyMs?: number): void {
+    this.breakers[index].recordSuccess(latencyMs);
+  }
+
+  recordFailure(index: number, error: unknown, options: { trip?: boolean } = {}): void {
+    this.lastErrors[index] = error instanceof Error ? error.message : String(error);
+    logger.warning(`${this.modality.toUpperCase()} provider failed`, { provider: this.names[index], error: this.lastErrors[index] });
+
+    if (options.trip) this.breakers[index].trip('error');
+    else this.breakers[index].recordFailure();
+  }
+
+  private switchTo(index: number): void {
+    const previous = this.activeIndex;
+    if (index === previous) return;
+    this.activeIndex = index;
+
+    const event: FailoverEvent = {
+      modality: this.modality,
+      from: this.names[previous],
+      to: this.names[index],
+      reason: index < previous ? 'recovered' : this.breakers[previous].isOpen ? this.breakers[previous].tripReason : 'error',
+      error: index < previous ? undefined : this.lastErrors[previous],
+    };
+
+    const log = event.reason === 'recovered' ? logger.info : logger.warning;
+    log.call(logger, `${this.modality.toUpperCase()} failover: ${event.from} -> ${event.to}`, { reason: event.reason, error: event.error });
+
+    try {
+      this.onFailover?.(event);
+    } catch (err) {
+      logger.warning('onFailover callback error', { error: (err as Error).message });
+    }
+  }
+}
+
+/**
+ * Listen for unrecoverable errors on a provider while one of its streams is active
+ */
+function watchErrors(emitter: stt.STT | tts.TTS): { error: () => Error | null; stop: () => void } {
+  let lastError: Error | null = null;
+  const onError = (ev: { error: Error; recoverable: boolean }) => {
+    if (!ev.recoverable) lastError = ev.error;
+  };
+
+  (emitter as stt.STT).on('error', onError);
+  return {
+    error: () => lastError,
+    stop: () => (emitter as stt.STT).off('error', onError),
+  };
+}
+
+// ============================================
+// STT FAILOVER
+// ============================================
+
+export interface FailoverSTTOptions {
+  /** Primary first, then fallbacks in priority order */
+  providers: STTWithPrewarm[];
+  /** VAD used to segment audio for non-streaming providers (Whisper, Deepgram) */
+  vad: VAD;
+  breaker?: CircuitBreakerOptions;
+  onFailover?: OnFailoverCallback;
+}
+
+export class FailoverSTT extends stt.STT {
+  label = 'FailoverSTT';
+
+  /** @internal */
+  readonly _pool: ProviderPool;
+  /** @internal - streaming view of each provider (non-streaming ones wrapped with the VAD) */
+  readonly _streamers: stt.STT[];
+
+  private providers: STTWithPrewarm[];
+
+  constructor(options: FailoverSTTOptions) {
+    const [primary] = options.providers;
+    super({ streaming: true, interimResults: primary.capabilities.interimResults });
+
+    this.providers = options.providers;
+    this._streamers = options.providers.map(provider =>
+      provider.capabilities.streaming ? provider : new stt.StreamAdapter(provider, options.vad)
+    );
+    this._pool = new ProviderPool('stt', options.providers.map(p => p.label), options.breaker || {}, options.onFailover);
+
+    // Child errors are handled here - an unheard 'error' event would throw
+    for (const streamer of this._streamers) {
+      streamer.on('error', ev => logger.debug('STT provider error', { provider: ev.label, recoverable: ev.recoverable }));
+    }
+
+    logger.info('STT failover enabled', { providers: this._pool.names });
+  }
+
+  /**
+   * One-shot recognition with failover (non-streaming providers only)
+   */
+  protected async _recognize(frame: AudioBuffer, abortSignal?: AbortSignal): Promise<stt.SpeechEvent> {
+    const exclude = new Set(this.providers.flatMap((p, i) => (p.capabilities.streaming ? [i] : [])));
+    let lastError: unknown = new Error('FailoverSTT recognize() needs a non-streaming provider - use stream()');
+
+    for (let index = this._pool.select(exclude); index !== null; index = this._pool.select(exclude)) {
+      const startTime = performance.now();
+      try {
+        const event = await this.providers[index].recognize(frame, abortSignal);
+        this._pool.recordSuccess(index, performance.now() - startTime);
+        return event;
+      } catch (error) {
+        if (abortSignal?.aborted) throw error;
+        lastError = error;
+        this._pool.recordFailure(index, error);
+        exclude.add(index);
+      }
+    }
+
+    throw lastError;
+  }
+
+  stream(options?: { connOptions?: APIConnectOptions }): stt.SpeechStream {
+    return new FailoverSpeechStream(this, options?.connOptions);
+  }
+
+  prewarm(count: number = 1): void {
+    this.providers.forEach((provider, i) => provider.prewarm(i === 0 ? count : 1));
+  }
+
+  setLanguageCode(languageCode: string): void {
+    this.providers.forEach(provider => provider.setLanguageCode?.(languageCode));
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.providers.map(provider => provider.close().catch(() => {})));
+  }
+}
+
+class FailoverSpeechStream extends stt.SpeechStream {
+  label = 'FailoverSpeechStream';
+
+  private failover: FailoverSTT;
+  private childConnOptions?: APIConnectOptions;
+  private child: stt.SpeechStream | null = null;
+  private replayFrames: AudioFrame[] = [];
+  private inputEnded = false;
+
+  constructor(failover: FailoverSTT, connOptions?: APIConnectOptions) {
+    super(failover, undefined, connOptions);
+    this.failover = failover;
+    this.childConnOptions = connOptions;
+  }
+
+  protected async run(): Promise<void> {
+    const pool = this.failover._pool;
+    const inputTask = this.forwardInput();
+    let exclude = new Set<number>();
+    let lastError: Error | null = null;
+
+    while (!this.abortSignal.aborted) {
+      const index = pool.select(exclude);
+      if (index === null) {
+        throw new APIConnectionError({
+          message: `All STT providers failed: ${lastError?.message || 'unknown error'}`,
+          options: { retryable: false },
+        });
+      }
+
+      const result = await this.runChild(index);
+      if (result.done) break;
+
+      if (result.recoverTo !== undefined) {
+        // Higher-priority provider is healthy again - it gets a fresh start
+        exclude = new Set();
+        continue;
+      }
+
+      lastError = result.error;
+      pool.recordFailure(index, result.error, { trip: true });
+      exclude.add(index);
+    }
+
+    await inputTask;
+  }
+
+  /**
+   * Run one provider stream until it ends, fails, or a better provider recovers
+   */
+  private async runChild(index: number): Promise<{ done?: boolean; error?: Error; recoverTo?: number }> {
+    const pool = this.failover._pool;
+    const streamer = this.failover._streamers[index];
+    const child = streamer.stream({ connOptions: this.childConnOptions });
+    const errors = watchErrors(streamer);
+
+    // Re-send the utterance that was in flight when the previous provider died
+    for (const frame of this.replayFrames) child.pushFrame(frame);
+    if (this.inputEnded) child.endInput();
+    this.child = child;
+
+    try {
+      for await (const event of child) {
+        this.queue.put(event);
+
+        if (event.type === stt.SpeechEventType.FINAL_TRANSCRIPT) {
+          this.replayFrames = [];
+          pool.recordSuccess(index);
+
+          const recoverTo = pool.recoveryCandidate(index);
+          if (recoverTo !== null) return { recoverTo };
+        }
+      }
+    } finally {
+      this.child = null;
+      errors.stop();
+      child.close();
+    }
+
+    if (this.abortSignal.aborted || (this.inputEnded && !errors.error())) return { done: true };
+    return { error: errors.error() || new Error(`${pool.names[index]} stream closed unexpectedly`) };
+  }
+
+  private async forwardInput(): Promise<void> {
+    for await (const data of this.input) {
+      if (data === FailoverSpeechStream.FLUSH_SENTINEL) {
+        this.safely(child => child.flush());
+        continue;
+      }
+
+      this.replayFrames.push(data);
+      if (this.replayFrames.length > MAX_REPLAY_FRAMES) this.replayFrames.shift();
+      this.safely(child => child.pushFrame(data));
+    }
+
+    this.inputEnded = true;
+    this.safely(child => child.endInput());
+  }
+
+  /**
+   * Forward to the active child (a child that is shutting down rejects input -
+   * the frame is still in the replay buffer for its replacement)
+   */
+  private safely(action: (child: stt.SpeechStream) => void): void {
+    if (!this.child) return;
+    try {
+      action(this.child);
+    } catch {
+      // Child closed between checks
+    }
+  }
+}
+
+// ============================================
+// TTS FAILOVER
+// ============================================
+
+export interface FailoverTTSOptions {
+  /** Primary first, then fallbacks in priority order */
+  providers: TTSWithPrewarm[];
+  languageCode: string;
+  breaker?: CircuitBreakerOptions;
+  onFailover?: OnFailoverCallback;
+  /** Callback fired when TTS starts synthesizing text (for logging agent responses) */
+  onTextSynthesized?: OnTextSynthesizedCallback;
+}
+
+export class FailoverTTS extends tts.TTS {
+  label = 'FailoverTTS';
+
+  /** @internal */
+  readonly _pool: ProviderPool;
+  /** @internal */
+  readonly _providers: TTSWithPrewarm[];
+
+  private languageCode: string;
+  private onTextSynthesized?: OnTextSynthesizedCallback;
+
+  constructor(options: FailoverTTSOptions) {
+    const [primary] = options.providers;
+    // Output at the primary's rate - fallback audio is resampled so the
+    // playout resampler (fixed on the first frame) never sees a rate change
+    super(primary.sampleRate, primary.numChannels, { streaming: true });
+
+    this._providers = options.providers;
+    this._pool = new ProviderPool('tts', options.providers.map(p => p.label), options.breaker || {}, options.onFailover);
+    this.languageCode = options.languageCode;
+    this.onTextSynthesized = options.onTextSynthesized;
+
+    for (const provider of this._providers) {
+      provider.on('error', ev => logger.debug('TTS provider error', { provider: ev.label, recoverable: ev.recoverable }));
+    }
+
+    logger.info('TTS failover enabled', { providers: this._pool.names });
+  }
+
+  prewarm(count: number = 2): void {
+    this._providers.forEach((provider, i) => provider.prewarm(i === 0 ? count : 1));
+  }
+
+  /**
+   * Phrase cache lives in the primary (fallback audio is only used during outages)
+   */
+  prewarmPhraseCache(phrases: string[]): Promise<number> {
+    return this._providers[0].prewarmPhraseCache(phrases);
+  }
+
+  getPhraseCacheStats(): { size: number; maxSize: number } {
+    return this._providers[0].getPhraseCacheStats();
+  }
+
+  /**
+   * Text is reported here rather than by the providers, so a sentence
+   * replayed on a fallback is not logged twice
+   */
+  setOnTextSynthesized(callback: OnTextSynthesizedCallback): void {
+    this.onTextSynthesized = callback;
+  }
+
+  /** @internal */
+  _notifyTextSynthesized(text: string): void {
+    if (this.onTextSynthesized && text.trim()) {
+      try {
+        this.onTextSynthesized(text.trim());
+      } catch (err) {
+        logger.warning('onTextSynthesized callback error', { error: (err as Error).message });
+      }
+    }
+  }
+
+  getLanguageCode(): string {
+    return this.languageCode;
+  }
+
+  setLanguageCode(languageCode: string): void {
+    this.languageCode = languageCode;
+    this._providers.forEach(provider => provider.setLanguageCode?.(languageCode));
+  }
+
+  /**
+   * Voice names are provider specific, so only the primary switches voice
+   */
+  setVoice(voice: string): void {
+    this._providers[0].setVoice?.(voice);
+  }
+
+  synthesize(text: string, connOptions?: APIConnectOptions, abortSignal?: AbortSignal): tts.ChunkedStream {
+    this._notifyTextSynthesized(text);
+    return new FailoverChunkedStream(text, this, connOptions, abortSignal);
+  }
+
+  stream(options?: { connOptions?: APIConnectOptions }): tts.SynthesizeStream {
+    return new FailoverSynthesizeStream(this, options?.connOptions);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this._providers.map(provider => provider.close().catch(() => {})));
+  }
+}
+
+/**
+ * Converts provider audio to the failover output rate, segment by segment
+ */
+class SegmentResampler {
+  private resampler: AudioResampler | null = null;
+
+  constructor(private readonly outputRate: number, private readonly numChannels: number) {}
+
+  /**
+   * @returns Frames at the output rate (last one final when the input was)
+   */
+  process(audio: tts.SynthesizedAudio): tts.SynthesizedAudio[] {
+    let frames: AudioFrame[] = [audio.frame];
+
+    if (audio.frame.sampleRate !== this.outputRate) {
+      if (!this.resampler) this.resampler = new AudioResampler(audio.frame.sampleRate, this.outputRate, this.numChannels);
+      frames = this.resampler.push(audio.frame);
+      if (audio.final) {
+        frames.push(...this.resampler.flush());
+        this.resampler = null;
+      }
+    }
+
+    return frames.map((frame, i) => ({ ...audio, frame, final: audio.final && i === frames.length - 1 }));
+  }
+}
+
+class FailoverChunkedStream extends tts.ChunkedStream {
+  label = 'FailoverChunkedStream';
+
+  private failover: FailoverTTS;
+  private childConnOptions?: APIConnectOptions;
+
+  constructor(text: string, failover: FailoverTTS, connOptions?: APIConnectOptions, abortSignal?: AbortSignal) {
+    super(text, failover, connOptions, abortSignal);
+    this.failover = failover;
+    this.childConnOptions = connOptions;
+  }
+
+  protected async run(): Promise<void> {
+    const pool = this.failover._pool;
+    const exclude = new Set<number>();
+    let lastError: Error | null = null;
+
+    for (let index = pool.select(exclude); index !== null; index = pool.select(exclude)) {
+      const provider = this.failover._providers[index];
+      const resampler = new SegmentResampler(this.failover.sampleRate, this.failover.numChannels);
+      const errors = watchErrors(provider);
+      const startTime = performance.now();
+      let framesEmitted = 0;
+
+      try {
+        const child = provider.synthesize(this.inputText, this.childConnOptions, this.abortSignal);
+        for await (const audio of child) {
+          if (framesEmitted === 0) pool.recordSuccess(index, performance.now() - startTime);
+          for (const out of resampler.process(audio)) this.queue.put(out);
+          framesEmitted++;
+        }
+      } finally {
+        errors.stop();
+      }
+
+      const error = errors.error();
+      if (!error || this.abortSignal.aborted) return;
+
+      pool.recordFailure(index, error);
+      // Starting over after partial audio would repeat words to the caller
+      if (framesEmitted > 0) {
+        throw new APIConnectionError({ message: error.message, options: { retryable: false } });
+      }
+      lastError = error;
+      exclude.add(index);
+    }
+
+    throw new APIConnectionError({
+      message: `All TTS providers failed: ${lastError?.message || 'unknown error'}`,
+      options: { retryable: false },
+    });
+  }
+}
+
+class FailoverSynthesizeStream extends tts.SynthesizeStream {
+  label = 'FailoverSynthesizeStream';
+
+  private failover: FailoverTTS;
+  private childConnOptions?: APIConnectOptions;
+  private child: tts.SynthesizeStream | null = null;
+
+  /** Complete sentences in order; each is sent to the provider followed by a flush */
+  private sentences: string[] = [];
+  /** Sentences whose audio finished (final frame received) */
+  private completed = 0;
+  private inputEnded = false;
+  /** When the active provider got its first sentence (latency clock) */
+  private childSentAt: number | null = null;
+
+  constructor(failover: FailoverTTS, connOptions?: APIConnectOptions) {
+    super(failover, connOptions);
+    this.failover = failover;
+    this.childConnOptions = connOptions;
+  }
+
+  protected async run(): Promise<void> {
+    const pool = this.failover._pool;
+    const inputTask = this.forwardInput();
+    const exclude = new Set<number>();
+    let lastError: Error | null = null;
+
+    while (!this.abortSignal.aborted) {
+      const index = pool.select(exclude);
+      if (index === null) {
+        throw new APIConnectionError({
+          message: `All TTS providers failed: ${lastError?.message || 'unknown error'}`,
+          options: { retryable: false },
+        });
+      }
+
+      const error = await this.runChild(index);
+      if (!error) break;
+
+      lastError = error;
+      pool.recordFailure(index, error);
+      exclude.add(index);
+    }
+
+    await inputTask;
+    this.queue.put(FailoverSynthesizeStream.END_OF_STREAM);
+  }
+
+  /**
+   * Speak the remaining sentences on one provider
+   * @returns The error that ended the provider stream, or null when it finished
+   */
+  private async runChild(index: number): Promise<Error | null> {
+    const pool = this.failover._pool;
+    const remaining = this.sentences.slice(this.completed);
+    if (this.inputEnded && remaining.length === 0) return null;
+
+    const provider = this.failover._providers[index];
+    const child = provider.stream({ connOptions: this.childConnOptions });
+    const resampler = new SegmentResampler(this.failover.sampleRate, this.failover.numChannels);
+    const errors = watchErrors(provider);
+    let firstAudio = true;
+    let sawEnd = false;
+
+    this.child = child;
+    this.childSentAt = null;
+
+    // Resume from the first sentence the previous provider did not finish
+    remaining.forEach(sentence => this.sendToChild(sentence));
+    if (this.inputEnded) child.endInput();
+
+    try {
+      for await (const audio of child) {
+        if (audio === FailoverSynthesizeStream.END_OF_STREAM) {
+          sawEnd = true;
+          continue;
+        }
+
+        if (firstAudio && this.childSentAt !== null) {
+          firstAudio = false;
+          pool.recordSuccess(index, performance.now() - this.childSentAt);
+        }
+
+        for (const out of resampler.process(audio)) this.queue.put(out);
+        if (audio.final) this.completed++;
+      }
+    } finally {
+      this.child = null;
+      errors.stop();
+      child.close();
+    }
+
+    if (this.abortSignal.aborted) return null;
+    if (errors.error()) return errors.error();
+    if (!sawEnd && this.completed < this.sentences.length) {
+      return new Error(`${pool.names[index]} stream closed unexpectedly`);
+    }
+    return null;
+  }
+
+  private sendToChild(sentence: string): void {
+    this.child.pushText(sentence);
+    this.child.flush();
+    this.childSentAt ??= performance.now();
+  }
+
+  /**
+   * Split incoming text into sentences (same boundaries the providers use)
+   * and hand each one to the active provider
+   */
+  private async forwardInput(): Promise<void> {
+    let sentenceBuffer = '';
+
+    for await (const textOrSentinel of this.input) {
+      if (this.abortSignal.aborted) break;
+
+      if (textOrSentinel === FailoverSynthesizeStream.FLUSH_SENTINEL) {
+        this.addSentence(sentenceBuffer);
+        sentenceBuffer = '';
+        continue;
+      }
+
+      sentenceBuffer += textOrSentinel as string;
+
+      const languageCode = this.failover.getLanguageCode();
+      if (sentenceBuffer.length >= getMinSentenceLengthForLanguage(languageCode)) {
+        const boundary = detectSentenceBoundary(sentenceBuffer, languageCode);
+        if (boundary) {
+          const [completeSentence, remainder] = boundary;
+          sentenceBuffer = remainder;
+          this.addSentence(completeSentence);
+        }
+      }
+    }
+
+    this.addSentence(sentenceBuffer);
+    this.inputEnded = true;
+    if (!this.child) return;
+
+    // A provider stream that never received text would never close its output
+    if (this.childSentAt === null) this.child.close();
+    else this.child.endInput();
+  }
+
+  private addSentence(rawText: string): void {
+    // Sentences that normalize to nothing produce no audio (and no final frame)
+    if (!normalizeTextForTTS(rawText)) return;
+
+    this.sentences.push(rawText);
+    this.failover._notifyTextSynthesized(rawText);
+
+    if (this.child) this.sendToChild(rawText);
+  }
+}
+
+// ============================================
+// LLM FAILOVER
+// ============================================
+
+export interface FailoverLLMOptions {
+  /** Primary first, then fallbacks in priority order */
+  llms: llm.LLM[];
+  /** Labels for metrics (e.g. 'openai:gpt-4o-mini') */
+  names: string[];
+  /** Per-attempt timeout - a slower first response counts as a failure */
+  attemptTimeoutMs?: number;
+  onFailover?: OnFailoverCallback;
+}
+
+/**
+ * LLM failover uses the framework's FallbackAdapter (which already marks a
+ * failed LLM unavailable and probes it in the background); availability
+ * changes are reported as failover events.
+ */
+export function createFailoverLLM(options: FailoverLLMOptions): llm.LLM {
+  const adapter = new llm.FallbackAdapter({
+    llms: options.llms,
+    attemptTimeout: (options.attemptTimeoutMs ?? 5000) / 1000,
+    maxRetryPerLLM: 1,
+  });
+
+  const available = options.llms.map(() => true);
+  let active = 0;
+
+  // 'llm_availability_changed' is not part of the typed LLM callbacks
+  (adapter as unknown as NodeJS.EventEmitter).on('llm_availability_changed', (ev: llm.AvailabilityChangedEvent) => {
+    const index = options.llms.indexOf(ev.llm);
+    if (index === -1) return;
+    available[index] = ev.available;
+
+    const next = available.findIndex(Boolean);
+    if (next === -1 || next === active) return;
+
+    const event: FailoverEvent = {
+      modality: 'llm',
+      from: options.names[active],
+      to: options.names[next],
+      reason: next < active ? 'recovered' : 'error',
+    };
+    active = next;
+
+    const log = event.reason === 'recovered' ? logger.info : logger.warning;
+    log.call(logger, `LLM failover: ${event.from} -> ${event.to}`, { reason: event.reason });
+    try {
+      options.onFailover?.(event);
+    } catch (err) {
+      logger.warning('onFailover callback error', { error: (err as Error).message });
+    }
+  });
+
+  logger.info('LLM failover enabled', { providers: options.names });
+  return adapter;
+}
@@ -10,14 +10,44 @@
 export { SarvamSTT } from './sarvam_stt.js';
 export type { SarvamSTTOptions, SarvamSTTLanguage, SarvamSTTModel } from './sarvam_stt.js';
 
+export { WhisperSTT } from './whisper_stt.js';
+export type { WhisperSTTOptions } from './whisper_stt.js';
+
+export { DeepgramSTT } from './deepgram_stt.js';
+export type { DeepgramSTTOptions } from './deepgram_stt.js';
+
 export { SarvamTTS } from './sarvam_tts.js';
 export type { SarvamTTSOptions, SarvamTTSLanguage, SarvamTTSModel, SarvamTTSSpeaker } from './sarvam_tts.js';
 
+export { SegmentedTTS } from './segmented_tts.js';
+export type { SegmentedTTSOptions } from './segmented_tts.js';
+
+export { OpenAITTS } from './openai_tts.js';
+export type { OpenAITTSOptions } from './openai_tts.js';
+
+export { FailoverSTT, FailoverTTS, CircuitBreaker, createFailoverLLM } from './failover.js';
+
+export { ScriptedLLM } from './scripted_llm.js';
+export type { ScriptedReply } from './scripted_llm.js';
+
+export { toDetectedLanguageCode } from './language_id.js';
+export type {
+  FailoverEvent,
+  FailoverModality,
+  OnFailoverCallback,
+  CircuitBreakerOptions,
+  FailoverSTTOptions,
+  FailoverTTSOptions,
+  FailoverLLMOptions,
+} from './failover.js';
+
 // Factory
 export { 
   createPlugins, 
   createPluginsFromEnv, 
   createPluginsFromAgentConfig,
+  createLLM,
+  createSpeechPlugins,
   isSarvamLanguage, 
   SARVAM_LANGUAGES 
 } from './factory.js';
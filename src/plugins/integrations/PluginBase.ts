@@ -199,6 +199,8 @@ export abstract class IntegrationPluginBase implements IIntegrationPlugin {
             appointmentDate: context.extractedData?.appointmentDate,
             appointmentTime: context.extractedData?.appointmentTime,
             outcome: context.extractedData?.outcome,
+            summary: context.extractedData?.summary,
+            disposition: context.extractedData?.disposition,
             
             // Trigger info
             trigger: context.trigger,
@@ -324,6 +326,8 @@ export abstract class IntegrationPluginBase implements IIntegrationPlugin {
             appointmentDate: context.extractedData?.appointmentDate || '',
             appointmentTime: context.extractedData?.appointmentTime || '',
             outcome: context.extractedData?.outcome || '',
+            summary: context.extractedData?.summary || '',
+            disposition: context.extractedData?.disposition || '',
             trigger: context.trigger,
             timestamp: new Date().toISOString(),
         };
@@ -661,6 +661,7 @@ Use these in the Subject Template:
 - \`{{intent}}\` - Detected intent
 - \`{{customerName}}\` - Customer name
 - \`{{sentiment}}\` - Call sentiment
+- \`{{disposition}}\` - Call disposition (booked, callback...)
 - \`{{duration}}\` - Call duration
 
 ### Example Subjects
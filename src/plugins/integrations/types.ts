@@ -113,6 +113,14 @@ export interface ExtractedCallData {
     status?: string;            // Call status
     callOutcome?: string;       // Alias for outcome
     
+    // Post-call analysis (callSessions.analysis)
+    disposition?: string;       // One of the agent's config.dispositions (e.g. "booked", "callback")
+    dispositionReason?: string;
+    entities?: Array<{ type: string; value: string }>;
+    
+    // Caller details validated during the call (agent config.fields, e.g. { phone_number: "+919876543210" })
+    fields?: Record<string, string | number>;
+    
     // Custom fields (from agent config or dynamic extraction)
     customFields?: Record<string, unknown>;
     
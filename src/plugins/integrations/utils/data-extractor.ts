@@ -3,6 +3,8 @@
  * 
  * Extracts data from integration context using flexible path-based configuration.
  * Now supports LLM-based extraction for 'extracted' source type.
+ * Fields the agent collected and validated during the call are used as-is
+ * (no LLM extraction for them).
  * 
  * @module plugins/integrations/utils/data-extractor
  */
@@ -25,6 +27,7 @@ export interface DynamicColumnConfig {
      * - For 'call': callId, duration, callerNumber, etc.
      * - For 'transcript': full, summary, userOnly, etc.
      * - For 'extracted': field to extract via LLM (e.g., "customer name", "appointment date")
+     * - For 'fields': name of a field the agent collected (e.g., "phone_number")
      * - For 'agent': name, id, organizationId
      * - For 'metadata': any metadata key
      * - For 'static': the value itself
@@ -45,6 +48,7 @@ export type DataSourceType =
     | 'call'        // Call metadata: callId, duration, callerNumber, startTime, endTime
     | 'transcript'  // Transcript data: full, summary, userOnly, agentOnly
     | 'extracted'   // LLM-extracted data from transcript (RECOMMENDED)
+    | 'fields'      // Caller details validated during the call (agent config.fields)
     | 'agent'       // Agent info: name, id, organizationId
     | 'metadata'    // Custom metadata fields
     | 'static';     // Static value (use path as the value itself)
@@ -106,8 +110,10 @@ export class DynamicDataExtractor {
             return;
         }
         
-        // Get columns that need LLM extraction
-        const extractedColumns = columns.filter(col => col.source === 'extracted');
+        // Get columns that need LLM extraction (collected fields are already known)
+        const extractedColumns = columns.filter(col =>
+            col.source === 'extracted' && this.getCollectedField(col) === undefined
+        );
         
         if (extractedColumns.length === 0) {
             return;
@@ -155,7 +161,10 @@ export class DynamicDataExtractor {
                 value = this.extractTranscriptData(config.path);
                 break;
             case 'extracted':
-                value = this.extractLLMData(config);
+                value = this.getCollectedField(config) ?? this.extractLLMData(config);
+                break;
+            case 'fields':
+                value = this.getCollectedField(config);
                 break;
             case 'agent':
                 value = this.extractAgentData(config.path);
@@ -266,6 +275,14 @@ export class DynamicDataExtractor {
         }
     }
     
+    /**
+     * Value of a field the agent collected during the call (matched by column name or path)
+     */
+    private getCollectedField(config: DynamicColumnConfig): unknown {
+        const fields = this.context.extractedData?.fields || {};
+        return fields[config.path] ?? fields[config.name];
+    }
+    
     /**
      * Extract LLM-extracted data
      */
@@ -442,6 +459,12 @@ export const DATA_SOURCE_DOCUMENTATION = {
             { path: '(any custom field)', description: 'Describe what to extract in plain English' },
         ],
     },
+    fields: {
+        description: 'Caller details the agent collected and confirmed during the call',
+        paths: [
+            { path: '[field_name]', description: 'Name of a field from the agent\'s fields config' },
+        ],
+    },
     agent: {
         description: 'Agent information',
         paths: [
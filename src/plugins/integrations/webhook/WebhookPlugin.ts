@@ -384,6 +384,8 @@ Customize the JSON payload. Use \`{{variable}}\` for dynamic values.
 | \`{{appointmentDate}}\` | Booked date | "2024-03-15" |
 | \`{{appointmentTime}}\` | Booked time | "14:30" |
 | \`{{outcome}}\` | Call outcome | "successful" |
+| \`{{summary}}\` | Post-call summary | "Caller booked a cleaning for Friday..." |
+| \`{{disposition}}\` | Post-call disposition | "booked" |
 | \`{{trigger}}\` | What triggered this | "call_ended" |
 | \`{{timestamp}}\` | ISO timestamp | "2024-03-15T14:30:00Z" |
 
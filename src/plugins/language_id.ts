@@ -0,0 +1,33 @@
+/**
+ * Spoken-language identification helpers shared by the STT plugins
+ *
+ * Providers report the detected language in different shapes: BCP-47
+ * ('hi-IN'), ISO-639-1 ('hi') or a full English name ('hindi' from the
+ * OpenAI Whisper API). Everything is mapped onto the agent's BCP-47 codes so
+ * transcripts and language switching compare like with like.
+ */
+
+const DETECTED_LANGUAGE_CODES: Record<string, string> = {
+  en: 'en-IN', english: 'en-IN',
+  hi: 'hi-IN', hindi: 'hi-IN',
+  ta: 'ta-IN', tamil: 'ta-IN',
+  te: 'te-IN', telugu: 'te-IN',
+  kn: 'kn-IN', kannada: 'kn-IN',
+  ml: 'ml-IN', malayalam: 'ml-IN',
+  bn: 'bn-IN', bengali: 'bn-IN',
+  mr: 'mr-IN', marathi: 'mr-IN',
+  gu: 'gu-IN', gujarati: 'gu-IN',
+  pa: 'pa-IN', punjabi: 'pa-IN',
+  od: 'od-IN', or: 'od-IN', odia: 'od-IN', oriya: 'od-IN',
+};
+
+/**
+ * Map a provider's detected language onto a BCP-47 code (e.g., 'hindi' -> 'hi-IN').
+ * Languages outside the table are returned as reported; empty input gives undefined.
+ */
+export function toDetectedLanguageCode(detected: unknown): string | undefined {
+  if (typeof detected !== 'string' || !detected.trim()) return undefined;
+
+  const value = detected.trim().toLowerCase();
+  return DETECTED_LANGUAGE_CODES[value] || DETECTED_LANGUAGE_CODES[value.split('-')[0]] || detected.trim();
+}
@@ -0,0 +1,221 @@
+/**
+ * OpenAI-compatible Text-to-Speech Plugin for LiveKit Agents (TypeScript)
+ *
+ * Speaks the OpenAI `/audio/speech` API, so it works against OpenAI itself
+ * and self-hosted servers with the same contract (Kokoro-FastAPI, openedai-speech,
+ * LocalAI, speaches, ...). Audio is requested as raw PCM and streamed into
+ * frames as the response body arrives.
+ */
+
+import { AudioByteStream, APIConnectionError, APIStatusError, APITimeoutError } from '@livekit/agents';
+import type { AudioFrame } from '@livekit/rtc-node';
+import { getLogger } from '../core/logging.js';
+import { SegmentedTTS } from './segmented_tts.js';
+import type { OnTextSynthesizedCallback } from './sarvam_tts.js';
+
+const logger = getLogger('openai.tts');
+
+const NUM_CHANNELS = 1;
+const FRAME_SIZE_MS = 50;
+
+export interface OpenAITTSOptions {
+  /** API root, e.g. 'https://api.openai.com/v1' or 'http://localhost:8880/v1' */
+  baseUrl: string;
+  /** Bearer token (optional for local servers) */
+  apiKey?: string;
+  languageCode: string;
+  /** Model name (e.g., 'gpt-4o-mini-tts', 'tts-1', 'kokoro') */
+  model?: string;
+  /** Voice name (e.g., 'alloy', 'nova', 'af_heart') */
+  voice?: string;
+  /** Speech speed (0.25 to 4.0, default 1.0) */
+  speed?: number;
+  /** Style instructions (gpt-4o-mini-tts only) */
+  instructions?: string;
+  /**
+   * Response format: 'pcm' is raw 16-bit mono; use 'wav' for servers
+   * that do not support pcm (header is stripped)
+   */
+  responseFormat?: 'pcm' | 'wav';
+  /** Sample rate of the returned audio (OpenAI pcm is 24kHz) */
+  sampleRate?: number;
+  /** Per-request timeout */
+  requestTimeoutMs?: number;
+  /** Label used in logs and metrics */
+  label?: string;
+  /** Callback fired when TTS starts synthesizing text (for logging agent responses) */
+  onTextSynthesized?: OnTextSynthesizedCallback;
+}
+
+export class OpenAITTS extends SegmentedTTS {
+  label: string;
+
+  private baseUrl: string;
+  private apiKey?: string;
+  private model: string;
+  private voice: string;
+  private speed: number;
+  private instructions?: string;
+  private responseFormat: 'pcm' | 'wav';
+  private requestTimeoutMs: number;
+  private closed = false;
+
+  constructor(options: OpenAITTSOptions) {
+    super(options.sampleRate || 24000, NUM_CHANNELS, {
+      languageCode: options.languageCode,
+      onTextSynthesized: options.onTextSynthesized,
+    });
+
+    this.label = options.label || 'OpenAITTS';
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model || 'gpt-4o-mini-tts';
+    this.voice = options.voice || 'alloy';
+    this.speed = options.speed ?? 1.0;
+    this.instructions = options.instructions;
+    this.responseFormat = options.responseFormat || 'pcm';
+    this.requestTimeoutMs = options.requestTimeoutMs || 30_000;
+
+    logger.info(`${this.label} initialized: model=${this.model}, voice=${this.voice}, language=${this.languageCode}, baseUrl=${this.baseUrl}`);
+  }
+
+  private headers(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  protected voiceSettings(): Array<string | number> {
+    return [this.baseUrl, this.model, this.voice, this.speed, this.instructions || ''];
+  }
+
+  protected async synthesizeSegment(
+    text: string,
+    onFrame: (frame: AudioFrame) => void,
+    abortSignal?: AbortSignal
+  ): Promise<void> {
+    const startTime = performance.now();
+    const timeoutSignal = AbortSignal.timeout(this.requestTimeoutMs);
+    const signal = abortSignal ? AbortSignal.any([abortSignal, timeoutSignal]) : timeoutSignal;
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/audio/speech`, {
+        method: 'POST',
+        headers: { ...this.headers(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.model,
+          voice: this.voice,
+          input: text,
+          response_format: this.responseFormat,
+          speed: this.speed,
+          ...(this.instructions && { instructions: this.instructions }),
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (abortSignal?.aborted) return;
+      if (timeoutSignal.aborted) {
+        throw new APITimeoutError({ message: `${this.label} request timed out after ${this.requestTimeoutMs}ms` });
+      }
+      throw new APIConnectionError({ message: `${this.label} request failed: ${(error as Error).message}` });
+    }
+
+    if (!response.ok || !response.body) {
+      const body = await response.text().catch(() => '');
+      throw new APIStatusError({
+        message: `${this.label} returned ${response.status}: ${body.slice(0, 200)}`,
+        options: { statusCode: response.status },
+      });
+    }
+
+    const samplesPerChannel = Math.floor((this.sampleRate * FRAME_SIZE_MS) / 1000);
+    const bstream = new AudioByteStream(this.sampleRate, NUM_CHANNELS, samplesPerChannel);
+    const stripHeader = this.responseFormat === 'wav' ? createWavHeaderStripper() : null;
+    let firstFrame = true;
+
+    const emit = (frames: AudioFrame[]) => {
+      for (const frame of frames) {
+        if (firstFrame) {
+          firstFrame = false;
+          logger.debug('First audio frame', { tts: this.label, ttfbMs: Math.round(performance.now() - startTime) });
+        }
+        onFrame(frame);
+      }
+    };
+
+    try {
+      for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+        const pcm = stripHeader ? stripHeader(chunk) : chunk;
+        if (pcm.byteLength === 0) continue;
+        emit(bstream.write(pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + pcm.byteLength) as ArrayBuffer));
+      }
+      emit(bstream.flush());
+    } catch (error) {
+      if (abortSignal?.aborted) return;
+      throw new APIConnectionError({ message: `${this.label} audio stream failed: ${(error as Error).message}` });
+    }
+  }
+
+  /**
+   * Pre-warm keep-alive connections (DNS + TCP + TLS) before the first sentence.
+   * @param count - Number of connections to open (default: 2)
+   */
+  prewarm(count: number = 2): void {
+    if (this.closed) return;
+    logger.info(`Pre-warming ${this.label} HTTP connections`, { count });
+    for (let i = 0; i < count; i++) {
+      fetch(`${this.baseUrl}/models`, { headers: this.headers(), signal: AbortSignal.timeout(5_000) })
+        .then(response => response.arrayBuffer())
+        .catch(error => logger.debug(`${this.label} prewarm failed`, { error: (error as Error).message }));
+    }
+  }
+
+  /**
+   * Nothing to tear down - connections are owned by the global HTTP agent.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+
+  /**
+   * Switch voice mid-call (applies from the next sentence).
+   */
+  setVoice(voice: string): void {
+    if (voice === this.voice) return;
+    logger.info(`Switching ${this.label} voice`, { from: this.voice, to: voice });
+    this.voice = voice;
+  }
+
+  getVoice(): string {
+    return this.voice;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+}
+
+/**
+ * Strip the RIFF header from a streamed WAV body, passing PCM through.
+ * Handles headers split across chunks and extra chunks before 'data'.
+ */
+function createWavHeaderStripper(): (chunk: Uint8Array) => Uint8Array {
+  let header: Buffer | null = Buffer.alloc(0);
+
+  return (chunk: Uint8Array) => {
+    if (!header) return chunk;
+
+    header = Buffer.concat([header, chunk]);
+    let offset = 12;  // 'RIFF' + size + 'WAVE'
+    while (offset + 8 <= header.length) {
+      const id = header.toString('ascii', offset, offset + 4);
+      const size = header.readUInt32LE(offset + 4);
+      if (id === 'data') {
+        const pcm = header.subarray(offset + 8);
+        header = null;
+        return pcm;
+      }
+      offset += 8 + size;
+    }
+    return new Uint8Array(0);
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * TTS Phrase Cache
+ *
+ * Caches decoded PCM audio for common phrases (greetings, acknowledgments).
+ * A cache hit skips the whole synthesis round-trip (~800-1200ms).
+ * Keys include the voice settings so a voice/language change never replays
+ * audio from the previous configuration.
+ */
+
+import type { AudioFrame } from '@livekit/rtc-node';
+import { createHash } from 'crypto';
+import { getLogger } from '../core/logging.js';
+
+const logger = getLogger('tts.cache');
+
+export class PhraseCache {
+  private entries: Map<string, { frames: AudioFrame[]; createdAt: number }> = new Map();
+
+  constructor(
+    readonly maxSize: number = 100,
+    private readonly ttlMs: number = 3600_000,
+  ) {}
+
+  /**
+   * Cache key for a phrase under the given voice settings
+   * @param settings - Everything that changes the audio (speaker, language, pace, model...)
+   */
+  static key(text: string, settings: Array<string | number>): string {
+    return createHash('md5').update([text, ...settings].join('|')).digest('hex');
+  }
+
+  /**
+   * Get cached frames (undefined if missing or expired)
+   */
+  get(key: string, textPreview: string = ''): AudioFrame[] | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (Date.now() - entry.createdAt > this.ttlMs) {
+      this.entries.delete(key);
+      logger.debug('Phrase cache entry expired', { key: key.substring(0, 8), textPreview: textPreview.substring(0, 30) });
+      return undefined;
+    }
+
+    logger.info('Phrase cache HIT', {
+      key: key.substring(0, 8),
+      textPreview: textPreview.substring(0, 30),
+      frames: entry.frames.length,
+      savedMs: '~1000ms'
+    });
+
+    return entry.frames;
+  }
+
+  /**
+   * Store frames, evicting the oldest entry when full (FIFO)
+   */
+  set(key: string, frames: AudioFrame[]): void {
+    if (frames.length === 0) return;
+
+    if (this.entries.size >= this.maxSize) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey) {
+        this.entries.delete(oldestKey);
+        logger.debug('Phrase cache eviction', { evictedKey: oldestKey.substring(0, 8) });
+      }
+    }
+
+    this.entries.set(key, { frames, createdAt: Date.now() });
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
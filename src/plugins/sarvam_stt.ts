@@ -12,6 +12,7 @@ import type { AudioFrame } from '@livekit/rtc-node';
 import WebSocket from 'ws';
 import { randomUUID } from 'crypto';
 import { getLogger } from '../core/logging.js';
+import { toDetectedLanguageCode } from './language_id.js';
 
 const logger = getLogger('sarvam.stt');
 
@@ -30,6 +31,11 @@ export interface SarvamSTTOptions {
   sampleRate?: number;
   highVadSensitivity?: boolean;
   vadSignals?: boolean;
+  /**
+   * Let Sarvam identify the spoken language (language-code=unknown) and report
+   * it on each transcript; languageCode is then only the fallback label
+   */
+  detectLanguage?: boolean;
 }
 
 export class SarvamSTT extends stt.STT {
@@ -41,9 +47,13 @@ export class SarvamSTT extends stt.STT {
   private _sampleRate: number;
   private highVadSensitivity: boolean;
   private vadSignals: boolean;
+  private detectLanguage: boolean;
   
   // Connection pool for WebSocket reuse (reduces first-turn latency)
   private wsPool: ConnectionPool<WebSocket>;
+  
+  // Open streams (reconnected when the language changes mid-call)
+  private activeStreams = new Set<SarvamSpeechStream>();
 
   constructor(options: SarvamSTTOptions) {
     super({ streaming: true, interimResults: true });
@@ -54,6 +64,7 @@ export class SarvamSTT extends stt.STT {
     this._sampleRate = options.sampleRate || 16000;
     this.highVadSensitivity = options.highVadSensitivity ?? false;
     this.vadSignals = options.vadSignals ?? true;
+    this.detectLanguage = options.detectLanguage ?? false;
     
     // Initialize connection pool with connect/close callbacks
     this.wsPool = new ConnectionPool<WebSocket>({
@@ -71,7 +82,7 @@ export class SarvamSTT extends stt.STT {
       connectTimeout: 10_000, // 10 seconds
     });
 
-    logger.info(`SarvamSTT initialized: model=${this.model}, language=${this.languageCode}`);
+    logger.info(`SarvamSTT initialized: model=${this.model}, language=${this.detectLanguage ? 'auto' : this.languageCode}`);
   }
   
   /**
@@ -80,7 +91,7 @@ export class SarvamSTT extends stt.STT {
    */
   private async _createWebSocket(timeout: number): Promise<WebSocket> {
     const params = new URLSearchParams({
-      'language-code': this.languageCode,
+      'language-code': this.detectLanguage ? 'unknown' : this.languageCode,
       'model': this.model,
       'vad_signals': this.vadSignals.toString(),
       'sample_rate': this._sampleRate.toString(),
@@ -114,7 +125,36 @@ export class SarvamSTT extends stt.STT {
   }
 
   stream(options?: { connOptions?: APIConnectOptions }): stt.SpeechStream {
-    return new SarvamSpeechStream(this, this._sampleRate, this.wsPool, options?.connOptions);
+    const stream = new SarvamSpeechStream(this, this._sampleRate, this.wsPool, options?.connOptions);
+    this.activeStreams.add(stream);
+    return stream;
+  }
+
+  /**
+   * Switch recognition language mid-call.
+   * Sarvam binds the language to the WebSocket URL, so pooled connections are
+   * invalidated and open streams reconnect with the new language.
+   * With language detection on, only the fallback label changes.
+   */
+  setLanguageCode(languageCode: string): void {
+    if (languageCode === this.languageCode) return;
+
+    logger.info('Switching STT language', { from: this.languageCode, to: languageCode });
+    this.languageCode = languageCode;
+    if (this.detectLanguage) return;
+
+    this.wsPool.invalidate();
+
+    for (const stream of this.activeStreams) {
+      stream.reconnect().catch(error => {
+        logger.error('STT reconnect after language change failed', { error: (error as Error).message });
+      });
+    }
+  }
+
+  /** @internal - called by SarvamSpeechStream on close */
+  releaseStream(stream: SarvamSpeechStream): void {
+    this.activeStreams.delete(stream);
   }
 
   protected async _recognize(_frame: AudioBuffer, _abortSignal?: AbortSignal): Promise<stt.SpeechEvent> {
@@ -260,6 +300,34 @@ class SarvamSpeechStream extends stt.SpeechStream {
     });
   }
 
+  /**
+   * Swap the current WebSocket for a fresh one (e.g., after a language change).
+   * The old socket is closed without triggering the auto-reconnect path.
+   */
+  async reconnect(): Promise<void> {
+    if (this.isClosed || this.isReconnecting) return;
+
+    this.isReconnecting = true;
+    const oldWs = this.ws;
+    this.ws = null;
+
+    if (oldWs) {
+      oldWs.removeAllListeners();
+      oldWs.on('error', () => {});
+      this.wsPool.remove(oldWs);
+      try {
+        oldWs.close(1000, 'Reconnecting');
+      } catch {}
+    }
+
+    try {
+      await this._connectWebSocket();
+      logger.info('STT WebSocket reconnected', { sessionId: this.sessionId });
+    } finally {
+      this.isReconnecting = false;
+    }
+  }
+
   private async _attemptReconnect(): Promise<void> {
     if (this.isReconnecting || this.isClosed) return;
     
@@ -428,7 +496,7 @@ class SarvamSpeechStream extends stt.SpeechStream {
         : stt.SpeechEventType.INTERIM_TRANSCRIPT,
       alternatives: [
         {
-          language: this.sttInstance.getLanguageCode(),
+          language: toDetectedLanguageCode(data?.language_code) || this.sttInstance.getLanguageCode(),
           text: transcript,
           confidence: 1.0,
           startTime: data?.speech_start || 0,
@@ -473,6 +541,7 @@ class SarvamSpeechStream extends stt.SpeechStream {
   // Override close to mark as intentionally closed (prevent reconnection)
   async close(wait: boolean = true): Promise<void> {
     this.isClosed = true;
+    this.sttInstance.releaseStream(this);
     logger.info('STT stream closing intentionally', { sessionId: this.sessionId });
     
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
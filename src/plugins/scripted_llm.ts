@@ -0,0 +1,104 @@
+/**
+ * Scripted LLM - deterministic stand-in for the OpenAI LLM in agent tests
+ *
+ * Replies come from a queue filled by the test script: every chat() request
+ * takes the next reply, which is plain text, tool calls, or both. A request
+ * with nothing queued gets an empty reply. Nothing is sent to a model, so
+ * results are repeatable and CI runs need no OpenAI key.
+ */
+
+import { llm, DEFAULT_API_CONNECT_OPTIONS, type APIConnectOptions } from '@livekit/agents';
+import { randomUUID } from 'node:crypto';
+
+/**
+ * One scripted LLM response
+ */
+export type ScriptedReply = string | {
+  text?: string;
+  tool_calls?: Array<{ name: string; args?: Record<string, unknown> }>;
+};
+
+export class ScriptedLLM extends llm.LLM {
+  private replies: ScriptedReply[] = [];
+
+  label(): string {
+    return 'scripted';
+  }
+
+  get model(): string {
+    return 'scripted';
+  }
+
+  /**
+   * Queue replies for the next chat() requests (in order)
+   */
+  enqueue(replies: ScriptedReply[]): void {
+    this.replies.push(...replies);
+  }
+
+  /**
+   * Drop replies the agent never asked for (e.g. left over from a failed turn)
+   */
+  reset(): void {
+    this.replies = [];
+  }
+
+  get pending(): number {
+    return this.replies.length;
+  }
+
+  chat({
+    chatCtx,
+    toolCtx,
+    connOptions,
+  }: {
+    chatCtx: llm.ChatContext;
+    toolCtx?: llm.ToolContext;
+    connOptions?: APIConnectOptions;
+    parallelToolCalls?: boolean;
+    toolChoice?: llm.ToolChoice;
+    extraKwargs?: Record<string, unknown>;
+  }): llm.LLMStream {
+    return new ScriptedLLMStream(this, this.replies.shift(), {
+      chatCtx,
+      toolCtx,
+      connOptions: connOptions ?? DEFAULT_API_CONNECT_OPTIONS,
+    });
+  }
+}
+
+class ScriptedLLMStream extends llm.LLMStream {
+  private reply?: ScriptedReply;
+
+  constructor(
+    scriptedLLM: ScriptedLLM,
+    reply: ScriptedReply | undefined,
+    opts: { chatCtx: llm.ChatContext; toolCtx?: llm.ToolContext; connOptions: APIConnectOptions }
+  ) {
+    super(scriptedLLM, opts);
+    this.reply = reply;
+  }
+
+  protected async run(): Promise<void> {
+    const reply = typeof this.reply === 'string' ? { text: this.reply } : this.reply;
+    if (!reply) return;
+
+    const id = randomUUID();
+    if (reply.text) {
+      this.queue.put({ id, delta: { role: 'assistant', content: reply.text } });
+    }
+    if (reply.tool_calls?.length) {
+      this.queue.put({
+        id,
+        delta: {
+          role: 'assistant',
+          toolCalls: reply.tool_calls.map(call => llm.FunctionCall.create({
+            callId: `call_${randomUUID().replace(/-/g, '').slice(0, 24)}`,
+            name: call.name,
+            args: JSON.stringify(call.args ?? {}),
+          })),
+        },
+      });
+    }
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Segmented TTS base class for LiveKit Agents (TypeScript)
+ *
+ * Gives request/response TTS engines (OpenAI-compatible HTTP servers, etc.)
+ * the same behaviour as SarvamTTS:
+ * - LLM text is split at sentence boundaries so the first sentence plays
+ *   while the rest is still being generated
+ * - Phrase cache for greetings / acknowledgments
+ * - onTextSynthesized hook for agent response logging
+ *
+ * Engines only implement synthesizeSegment() for one sentence of text.
+ */
+
+import { tts, type APIConnectOptions, isAPIError } from '@livekit/agents';
+import type { AudioFrame } from '@livekit/rtc-node';
+import { randomUUID } from 'crypto';
+import { getLogger } from '../core/logging.js';
+import { PhraseCache } from './phrase_cache.js';
+import { detectSentenceBoundary, getMinSentenceLengthForLanguage, normalizeTextForTTS } from './tts_text.js';
+import type { OnTextSynthesizedCallback } from './sarvam_tts.js';
+
+const logger = getLogger('segmented.tts');
+
+/**
+ * Phrases longer than this are not worth caching (unlikely to repeat)
+ */
+const MAX_CACHED_PHRASE_LENGTH = 200;
+
+export interface SegmentedTTSOptions {
+  languageCode: string;
+  /** Callback fired when TTS starts synthesizing text (for logging agent responses) */
+  onTextSynthesized?: OnTextSynthesizedCallback;
+}
+
+export abstract class SegmentedTTS extends tts.TTS {
+  protected languageCode: string;
+  private onTextSynthesized?: OnTextSynthesizedCallback;
+  private phraseCache = new PhraseCache(100, 3600_000);  // 100 phrases, 1 hour TTL
+
+  constructor(sampleRate: number, numChannels: number, options: SegmentedTTSOptions) {
+    super(sampleRate, numChannels, { streaming: true });
+    this.languageCode = options.languageCode;
+    this.onTextSynthesized = options.onTextSynthesized;
+  }
+
+  /**
+   * Synthesize one sentence, emitting frames as audio arrives.
+   * Throw an APIError subclass on failure so retries and failover can classify it.
+   */
+  protected abstract synthesizeSegment(
+    text: string,
+    onFrame: (frame: AudioFrame) => void,
+    abortSignal?: AbortSignal
+  ): Promise<void>;
+
+  /**
+   * Everything besides the text that changes the audio (voice, model, speed...)
+   */
+  protected abstract voiceSettings(): Array<string | number>;
+
+  /**
+   * Pre-warm connections for a faster first response.
+   */
+  abstract prewarm(count?: number): void;
+
+  /**
+   * Synthesize normalized text, serving from the phrase cache when possible.
+   * @internal - used by the chunked and synthesize streams
+   */
+  async _synthesizeText(text: string, onFrame: (frame: AudioFrame) => void, abortSignal?: AbortSignal): Promise<void> {
+    const cacheKey = PhraseCache.key(text, [this.languageCode, ...this.voiceSettings()]);
+    const cached = this.phraseCache.get(cacheKey, text);
+    if (cached) {
+      cached.forEach(onFrame);
+      return;
+    }
+
+    const frames: AudioFrame[] = [];
+    await this.synthesizeSegment(text, frame => {
+      frames.push(frame);
+      onFrame(frame);
+    }, abortSignal);
+
+    if (text.length < MAX_CACHED_PHRASE_LENGTH && !abortSignal?.aborted) {
+      this.phraseCache.set(cacheKey, frames);
+    }
+  }
+
+  /**
+   * Pre-cache common phrases for instant playback.
+   * @returns Number of phrases successfully cached
+   */
+  async prewarmPhraseCache(phrases: string[]): Promise<number> {
+    logger.info(`Pre-warming ${this.label} phrase cache`, { phraseCount: phrases.length });
+
+    let cached = 0;
+    for (const phrase of phrases) {
+      const text = normalizeTextForTTS(phrase);
+      if (!text) continue;
+
+      try {
+        await this._synthesizeText(text, () => {});
+        cached++;
+      } catch (error) {
+        logger.warning('Failed to pre-cache phrase', {
+          phrase: text.substring(0, 30),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return cached;
+  }
+
+  getPhraseCacheStats(): { size: number; maxSize: number } {
+    return { size: this.phraseCache.size, maxSize: this.phraseCache.maxSize };
+  }
+
+  setOnTextSynthesized(callback: OnTextSynthesizedCallback): void {
+    this.onTextSynthesized = callback;
+  }
+
+  /** @internal - called by the streams when text is about to be spoken */
+  _notifyTextSynthesized(text: string): void {
+    if (this.onTextSynthesized && text.trim()) {
+      try {
+        this.onTextSynthesized(text.trim());
+      } catch (err) {
+        logger.warning('onTextSynthesized callback error', { error: (err as Error).message });
+      }
+    }
+  }
+
+  getLanguageCode(): string {
+    return this.languageCode;
+  }
+
+  /**
+   * Switch synthesis language mid-call (applies from the next sentence).
+   */
+  setLanguageCode(languageCode: string): void {
+    if (languageCode === this.languageCode) return;
+    logger.info('Switching TTS language', { tts: this.label, from: this.languageCode, to: languageCode });
+    this.languageCode = languageCode;
+  }
+
+  synthesize(text: string, connOptions?: APIConnectOptions, abortSignal?: AbortSignal): tts.ChunkedStream {
+    this._notifyTextSynthesized(text);
+    return new SegmentedChunkedStream(text, this, connOptions, abortSignal);
+  }
+
+  stream(options?: { connOptions?: APIConnectOptions }): tts.SynthesizeStream {
+    return new SegmentedSynthesizeStream(this, options?.connOptions);
+  }
+}
+
+/**
+ * Queue frames for one segment, holding the last one back so it can be marked final
+ */
+function createFrameEmitter(
+  segmentId: string,
+  put: (audio: tts.SynthesizedAudio) => void
+): { onFrame: (frame: AudioFrame) => void; finish: () => void } {
+  let pending: AudioFrame | null = null;
+
+  return {
+    onFrame: (frame: AudioFrame) => {
+      if (pending) put({ requestId: segmentId, segmentId, frame: pending, final: false });
+      pending = frame;
+    },
+    finish: () => {
+      if (pending) put({ requestId: segmentId, segmentId, frame: pending, final: true });
+      pending = null;
+    },
+  };
+}
+
+class SegmentedChunkedStream extends tts.ChunkedStream {
+  label = 'SegmentedChunkedStream';
+
+  private ttsInstance: SegmentedTTS;
+
+  constructor(text: string, ttsInstance: SegmentedTTS, connOptions?: APIConnectOptions, abortSignal?: AbortSignal) {
+    super(text, ttsInstance, connOptions, abortSignal);
+    this.ttsInstance = ttsInstance;
+  }
+
+  protected async run(): Promise<void> {
+    const text = normalizeTextForTTS(this.inputText);
+    if (!text) return;
+
+    const segmentId = `tts_chunked_${Date.now()}_${randomUUID().slice(0, 9)}`;
+    const emitter = createFrameEmitter(segmentId, audio => this.queue.put(audio));
+
+    await this.ttsInstance._synthesizeText(text, emitter.onFrame, this.abortSignal);
+    emitter.finish();
+  }
+}
+
+class SegmentedSynthesizeStream extends tts.SynthesizeStream {
+  label = 'SegmentedSynthesizeStream';
+
+  private ttsInstance: SegmentedTTS;
+  private streamId: string;
+  private segmentCount = 0;
+
+  constructor(ttsInstance: SegmentedTTS, connOptions?: APIConnectOptions) {
+    super(ttsInstance, connOptions);
+    this.ttsInstance = ttsInstance;
+    this.streamId = `tts_stream_${Date.now()}_${randomUUID().slice(0, 9)}`;
+  }
+
+  protected async run(): Promise<void> {
+    let sentenceBuffer = '';
+
+    for await (const textOrSentinel of this.input) {
+      if (this.abortSignal.aborted) break;
+
+      if (textOrSentinel === SegmentedSynthesizeStream.FLUSH_SENTINEL) {
+        await this._speak(sentenceBuffer);
+        sentenceBuffer = '';
+        continue;
+      }
+
+      sentenceBuffer += textOrSentinel as string;
+
+      // Speak each complete sentence as soon as it arrives (lower TTFB)
+      const languageCode = this.ttsInstance.getLanguageCode();
+      if (sentenceBuffer.length >= getMinSentenceLengthForLanguage(languageCode)) {
+        const boundary = detectSentenceBoundary(sentenceBuffer, languageCode);
+        if (boundary) {
+          const [completeSentence, remainder] = boundary;
+          sentenceBuffer = remainder;
+          await this._speak(completeSentence);
+        }
+      }
+    }
+
+    await this._speak(sentenceBuffer);
+    this.queue.put(SegmentedSynthesizeStream.END_OF_STREAM);
+  }
+
+  /**
+   * Synthesize one sentence (one retry for retryable API errors)
+   */
+  private async _speak(rawText: string): Promise<void> {
+    const text = normalizeTextForTTS(rawText);
+    if (!text || this.abortSignal.aborted) return;
+
+    this.segmentCount++;
+    const segmentId = `${this.streamId}_seg${this.segmentCount}`;
+    this.ttsInstance._notifyTextSynthesized(text);
+
+    for (let attempt = 1; ; attempt++) {
+      const emitter = createFrameEmitter(segmentId, audio => this.queue.put(audio));
+      let framesEmitted = 0;
+
+      try {
+        await this.ttsInstance._synthesizeText(text, frame => {
+          framesEmitted++;
+          emitter.onFrame(frame);
+        }, this.abortSignal);
+        emitter.finish();
+        return;
+      } catch (error) {
+        emitter.finish();
+        // Retrying after partial audio would repeat words to the caller
+        const retryable = isAPIError(error) && error.retryable && framesEmitted === 0;
+        if (!retryable || attempt >= 2 || this.abortSignal.aborted) throw error;
+
+        logger.warning('TTS segment failed, retrying', {
+          segmentId,
+          tts: this.ttsInstance.label,
+          error: (error as Error).message,
+        });
+      }
+    }
+  }
+}
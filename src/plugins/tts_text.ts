@@ -0,0 +1,172 @@
+/**
+ * TTS Text Utilities
+ *
+ * Sentence-boundary detection and text normalization shared by all TTS
+ * plugins, so every engine streams the LLM output one sentence at a time.
+ */
+
+/**
+ * Minimum characters before checking for sentence boundaries.
+ * 
+ * TRADE-OFF: Streaming chunks vs Barge-in responsiveness
+ * 
+ * - SMALLER value (20-40): Faster barge-in, but may cut mid-sentence
+ * - LARGER value (60-100): Smoother sentences, but slower barge-in response
+ * - 9999 (disabled): Wait for full LLM response, no streaming
+ * 
+ * Character length comparison (same meaning):
+ * - Hindi: "सर्जरी हमेशा जरूरी नहीं होती।" → 27 chars
+ * - Tamil: "அறுவை சிகிச்சை தேவையில்லை." → 25 chars  
+ * - English: "Surgery is not always necessary." → 34 chars
+ * 
+ * IMPORTANT FOR BARGE-IN:
+ * When user interrupts, only PENDING audio can be cleared.
+ * Audio already in WebRTC buffer will finish playing (~200-500ms).
+ * Smaller chunks = faster interrupt response (less audio buffered).
+ * 
+ * Current: 100 chars = ~3-4 second audio chunks (smoothest pronunciation)
+ * 
+ * TUNING:
+ * - Increase if audio cuts mid-sentence frequently
+ * - Decrease for faster barge-in response (risk: audio glitches)
+ * - Set to 9999 to disable streaming entirely
+ */
+/**
+ * Language-specific sentence length thresholds for streaming TTS.
+ * Different languages have different character densities and sentence structures.
+ * 
+ * Script characteristics:
+ * - Indic scripts (Devanagari, Tamil, etc.): More compact, use fewer characters
+ * - English/Latin: Longer words, more characters per sentence
+ * - Urdu/Arabic: Right-to-left, compact script
+ * 
+ * Optimized for TTFB (Time to First Byte) while ensuring natural sentence breaks.
+ */
+const LANGUAGE_SENTENCE_THRESHOLDS: Record<string, number> = {
+  // English - longer sentences, need more chars for complete thoughts
+  'en-IN': 60,
+  
+  // Hindi (Devanagari script) - compact, shorter threshold
+  'hi-IN': 35,
+  
+  // Tamil (Tamil script) - very compact
+  'ta-IN': 35,
+  
+  // Telugu (Telugu script) - compact Indic script
+  'te-IN': 35,
+  
+  // Bengali/Bangla (Bengali script) - compact
+  'bn-IN': 35,
+  
+  // Marathi (Devanagari script) - same as Hindi
+  'mr-IN': 35,
+  
+  // Gujarati (Gujarati script) - compact Indic script
+  'gu-IN': 35,
+  
+  // Kannada (Kannada script) - compact Indic script
+  'kn-IN': 35,
+  
+  // Malayalam (Malayalam script) - compact but complex ligatures
+  'ml-IN': 40,
+  
+  // Punjabi (Gurmukhi script) - compact
+  'pa-IN': 35,
+  
+  // Odia (Odia script) - compact Indic script
+  'od-IN': 35,
+  
+  // Urdu (Perso-Arabic script) - very compact, right-to-left
+  'ur-IN': 30,
+};
+
+/**
+ * Default threshold for unknown languages
+ */
+const DEFAULT_SENTENCE_LENGTH = 40;
+
+/**
+ * Get minimum sentence length for a given language code.
+ * Falls back to default if language not configured.
+ */
+export function getMinSentenceLengthForLanguage(languageCode: string): number {
+  return LANGUAGE_SENTENCE_THRESHOLDS[languageCode] || DEFAULT_SENTENCE_LENGTH;
+}
+
+/**
+ * Detect sentence boundaries in text for streaming TTS.
+ * Supports 11+ Indian languages plus English.
+ * 
+ * @param text - The accumulated text buffer to check
+ * @param languageCode - Language code (e.g., 'hi-IN', 'ta-IN') for threshold selection
+ * @returns [completeSentence, remainder] if boundary found, null otherwise
+ */
+export function detectSentenceBoundary(text: string, languageCode?: string): [string, string] | null {
+  const minLength = languageCode ? getMinSentenceLengthForLanguage(languageCode) : DEFAULT_SENTENCE_LENGTH;
+  
+  // Optimized patterns based on LiveKit agents and Unicode UAX#29
+  // Order: Most specific punctuation → Generic patterns
+  // 
+  // IMPORTANT: Patterns use (\s*) or (\s+)? to handle both:
+  // 1. Streaming: tokens come with spaces, detect boundary at "sentence. Next"
+  // 2. End of input: detect sentence that ends with punctuation
+  const patterns: RegExp[] = [
+    // Devanagari Danda (।) and Double Danda (॥) - Hindi, Marathi, Sanskrit
+    // U+0964 (DEVANAGARI DANDA), U+0965 (DEVANAGARI DOUBLE DANDA)
+    // Requires whitespace after Danda to avoid mid-word splits
+    new RegExp(`^(.{${Math.min(minLength, 35)},}?[\u0964\u0965])(\\s+)`),
+    // Also match Danda at end of input (for final flush)
+    new RegExp(`^(.{${Math.min(minLength, 35)},}?[\u0964\u0965])$`),
+    
+    // Urdu/Arabic full stop (۔ U+06D4) - Urdu
+    new RegExp(`^(.{${Math.min(minLength, 30)},}?[\u06d4])(\\s+)`),
+    new RegExp(`^(.{${Math.min(minLength, 30)},}?[\u06d4])$`),
+    
+    // Standard punctuation (. ! ?) with whitespace - ALL languages
+    // Most Indian languages use standard Latin punctuation
+    new RegExp(`^(.{${Math.min(minLength, 35)},}?[.!?।॥])(\\s+)`),
+    
+    // Standard punctuation at end of input
+    new RegExp(`^(.{${Math.min(minLength, 35)},}?[.!?।॥])$`),
+    
+    // English/Latin - Space + capital letter (new sentence starting)
+    new RegExp(`^(.{${minLength},}?[.!?])(\\s+)(?=[A-Z])`),
+    
+    // Sentence ending with newline (all languages)
+    new RegExp(`^(.{${Math.min(minLength, 35)},}?[.!?।॥\u06d4])\\n`),
+  ];
+  
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) {
+      const completeSentence = match[1];
+      const remainder = text.slice(match[0].length);
+      return [completeSentence, remainder];
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Normalize text for TTS APIs
+ * Replaces Unicode characters that Sarvam (and most engines) don't support with ASCII equivalents
+ * This matches Python plugin behavior which handles this automatically
+ */
+export function normalizeTextForTTS(text: string): string {
+  return text
+    // Curly apostrophes/single quotes to straight apostrophe
+    .replace(/[\u2018\u2019\u201A\u201B\u2032\u2035]/g, "'")
+    // Curly double quotes to straight double quotes
+    .replace(/[\u201C\u201D\u201E\u201F\u2033\u2036]/g, '"')
+    // Various dashes to hyphen
+    .replace(/[\u2013\u2014\u2015]/g, '-')
+    // Ellipsis to three dots
+    .replace(/\u2026/g, '...')
+    // Non-breaking space to regular space
+    .replace(/\u00A0/g, ' ')
+    // Remove zero-width characters
+    .replace(/[\u200B\u200C\u200D\uFEFF]/g, '')
+    // Trim leading/trailing whitespace
+    .trim();
+}
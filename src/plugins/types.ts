@@ -51,6 +51,8 @@ export interface STTConfig {
   highVadSensitivity?: boolean;
   /** Enable VAD signals */
   vadSignals?: boolean;
+  /** Identify the spoken language per utterance ('language' becomes the fallback) */
+  detectLanguage?: boolean;
 }
 
 /**
@@ -71,6 +73,10 @@ export interface TTSConfig {
   pace?: number;
   /** Enable text preprocessing */
   enablePreprocessing?: boolean;
+  /** Audio format requested from OpenAI-compatible servers ('pcm' or 'wav') */
+  responseFormat?: 'pcm' | 'wav';
+  /** Sample rate of the audio returned by custom servers */
+  sampleRate?: number;
   /** Callback fired when TTS synthesizes text (for agent response logging) */
   onTextSynthesized?: (text: string) => void;
 }
@@ -106,12 +112,13 @@ export type STTProvider = 'sarvam' | 'deepgram' | 'assemblyai' | 'whisper' | 'cu
 /**
  * Available TTS providers
  * - 'sarvam': Sarvam AI (Indian languages)
+ * - 'openai': OpenAI /audio/speech (or any compatible server)
  * - 'elevenlabs': ElevenLabs TTS
  * - 'azure': Azure Speech Services
  * - 'cartesia': Cartesia TTS
  * - 'custom': Custom local or remote TTS server
  */
-export type TTSProvider = 'sarvam' | 'elevenlabs' | 'azure' | 'cartesia' | 'custom';
+export type TTSProvider = 'sarvam' | 'openai' | 'elevenlabs' | 'azure' | 'cartesia' | 'custom';
 
 /**
  * Available LLM providers
@@ -154,6 +161,16 @@ export interface TTSWithPrewarm extends tts.TTS {
    * @param callback - Function to call with the synthesized text
    */
   setOnTextSynthesized?(callback: (text: string) => void): void;
+  
+  /**
+   * Switch synthesis language mid-call (optional - provider dependent).
+   */
+  setLanguageCode?(languageCode: string): void;
+
+  /**
+   * Switch voice/speaker mid-call (optional - provider dependent).
+   */
+  setVoice?(voice: string): void;
 }
 
 /**
@@ -170,6 +187,11 @@ export interface STTWithPrewarm extends stt.STT {
    * Close the connection pool and cleanup resources.
    */
   close(): Promise<void>;
+  
+  /**
+   * Switch recognition language mid-call (optional - provider dependent).
+   */
+  setLanguageCode?(languageCode: string): void;
 }
 
 /**
@@ -0,0 +1,85 @@
+/**
+ * WAV encoding for HTTP speech APIs
+ *
+ * Segment-based STT providers (Whisper-compatible servers, Deepgram pre-recorded)
+ * accept a WAV file per utterance rather than a raw PCM stream. Decoding is used
+ * for pre-recorded caller audio in voice end-to-end tests.
+ */
+
+import { AudioFrame } from '@livekit/rtc-node';
+
+/**
+ * Wrap a 16-bit PCM audio frame in a WAV (RIFF) container
+ */
+export function audioFrameToWav(frame: AudioFrame): Buffer<ArrayBuffer> {
+  const pcm = Buffer.from(frame.data.buffer, frame.data.byteOffset, frame.data.byteLength);
+  const bitsPerSample = 16;
+  const byteRate = frame.sampleRate * frame.channels * (bitsPerSample / 8);
+  const blockAlign = frame.channels * (bitsPerSample / 8);
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);              // fmt chunk size
+  header.writeUInt16LE(1, 20);               // PCM
+  header.writeUInt16LE(frame.channels, 22);
+  header.writeUInt32LE(frame.sampleRate, 24);
+  header.writeUInt32LE(byteRate, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bitsPerSample, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Duration of an audio frame in seconds
+ */
+export function audioFrameDuration(frame: AudioFrame): number {
+  return frame.samplesPerChannel / frame.sampleRate;
+}
+
+/**
+ * Read a 16-bit PCM WAV file into a single audio frame
+ */
+export function wavToAudioFrame(wav: Buffer): AudioFrame {
+  if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let channels = 0;
+  let sampleRate = 0;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString('ascii', offset, offset + 4);
+    const chunkSize = wav.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      const format = wav.readUInt16LE(body);
+      const bitsPerSample = wav.readUInt16LE(body + 14);
+      if (format !== 1 || bitsPerSample !== 16) {
+        throw new Error(`Only 16-bit PCM WAV is supported (format ${format}, ${bitsPerSample}-bit)`);
+      }
+      channels = wav.readUInt16LE(body + 2);
+      sampleRate = wav.readUInt32LE(body + 4);
+    } else if (chunkId === 'data') {
+      if (!sampleRate) throw new Error('WAV data chunk before fmt chunk');
+      const end = Math.min(body + chunkSize, wav.length);
+      const samplesPerChannel = Math.floor((end - body) / 2 / channels);
+      const pcm = new Int16Array(samplesPerChannel * channels);
+      for (let i = 0; i < pcm.length; i++) {
+        pcm[i] = wav.readInt16LE(body + i * 2);
+      }
+      return new AudioFrame(pcm, sampleRate, channels, samplesPerChannel);
+    }
+
+    // Chunks are word-aligned
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
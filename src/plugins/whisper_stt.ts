@@ -0,0 +1,200 @@
+/**
+ * Whisper-compatible Speech-to-Text Plugin for LiveKit Agents (TypeScript)
+ *
+ * Works against any server exposing the OpenAI `/audio/transcriptions` API:
+ * OpenAI itself, faster-whisper-server / speaches, whisper.cpp server, Groq, etc.
+ *
+ * Whisper transcribes whole utterances, so this STT is non-streaming:
+ * AgentSession segments the caller's audio with Silero VAD and sends one
+ * request per utterance. Keep-alive HTTP connections take the place of the
+ * WebSocket pool used by SarvamSTT.
+ */
+
+import { stt, type AudioBuffer, mergeFrames, APIConnectionError, APIStatusError, APITimeoutError } from '@livekit/agents';
+import { randomUUID } from 'crypto';
+import { getLogger } from '../core/logging.js';
+import { audioFrameToWav, audioFrameDuration } from './wav.js';
+import { toDetectedLanguageCode } from './language_id.js';
+
+const logger = getLogger('whisper.stt');
+
+export interface WhisperSTTOptions {
+  /** API root, e.g. 'https://api.openai.com/v1' or 'http://localhost:8000/v1' */
+  baseUrl: string;
+  /** Bearer token (optional for local servers) */
+  apiKey?: string;
+  /** Language code (e.g., 'ta-IN'); sent to the server as ISO-639-1 ('ta') */
+  languageCode: string;
+  /** Model name (e.g., 'whisper-1', 'Systran/faster-whisper-small') */
+  model?: string;
+  /**
+   * Let Whisper identify the spoken language instead of forcing languageCode.
+   * Requests verbose_json to read it back, so the model must support that format (whisper-1 does).
+   */
+  detectLanguage?: boolean;
+  /** Optional prompt to bias vocabulary (names, product terms) */
+  prompt?: string;
+  /** Per-request timeout */
+  requestTimeoutMs?: number;
+  /** Label used in logs and metrics */
+  label?: string;
+}
+
+/**
+ * Whisper expects ISO-639-1 codes; Odia is 'or' rather than 'od'
+ */
+function toWhisperLanguage(languageCode: string): string {
+  const base = languageCode.split('-')[0].toLowerCase();
+  return base === 'od' ? 'or' : base;
+}
+
+export class WhisperSTT extends stt.STT {
+  label: string;
+
+  private baseUrl: string;
+  private apiKey?: string;
+  private languageCode: string;
+  private model: string;
+  private prompt?: string;
+  private detectLanguage: boolean;
+  private requestTimeoutMs: number;
+  private closed = false;
+
+  constructor(options: WhisperSTTOptions) {
+    super({ streaming: false, interimResults: false });
+
+    this.label = options.label || 'WhisperSTT';
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.languageCode = options.languageCode;
+    this.model = options.model || 'whisper-1';
+    this.prompt = options.prompt;
+    this.detectLanguage = options.detectLanguage ?? false;
+    this.requestTimeoutMs = options.requestTimeoutMs || 15_000;
+
+    logger.info(`${this.label} initialized: model=${this.model}, language=${this.detectLanguage ? 'auto' : this.languageCode}, baseUrl=${this.baseUrl}`);
+  }
+
+  private headers(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  protected async _recognize(buffer: AudioBuffer, abortSignal?: AbortSignal): Promise<stt.SpeechEvent> {
+    const frame = mergeFrames(buffer);
+    const requestId = randomUUID();
+    const startTime = performance.now();
+
+    const form = new FormData();
+    form.append('file', new Blob([audioFrameToWav(frame)], { type: 'audio/wav' }), 'audio.wav');
+    form.append('model', this.model);
+    if (this.detectLanguage) {
+      form.append('response_format', 'verbose_json');
+    } else {
+      form.append('language', toWhisperLanguage(this.languageCode));
+      form.append('response_format', 'json');
+    }
+    form.append('temperature', '0');
+    if (this.prompt) form.append('prompt', this.prompt);
+
+    const timeoutSignal = AbortSignal.timeout(this.requestTimeoutMs);
+    const signal = abortSignal ? AbortSignal.any([abortSignal, timeoutSignal]) : timeoutSignal;
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/audio/transcriptions`, {
+        method: 'POST',
+        headers: this.headers(),
+        body: form,
+        signal,
+      });
+    } catch (error) {
+      if (timeoutSignal.aborted) {
+        throw new APITimeoutError({ message: `${this.label} request timed out after ${this.requestTimeoutMs}ms` });
+      }
+      throw new APIConnectionError({ message: `${this.label} request failed: ${(error as Error).message}` });
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new APIStatusError({
+        message: `${this.label} returned ${response.status}: ${body.slice(0, 200)}`,
+        options: { statusCode: response.status, requestId },
+      });
+    }
+
+    const result = await response.json() as { text?: string; language?: string };
+    const text = (result.text || '').trim();
+    const language = toDetectedLanguageCode(result.language) || this.languageCode;
+
+    logger.info('Transcript received', {
+      requestId,
+      text,
+      ...(this.detectLanguage && { language }),
+      audioSeconds: Math.round(audioFrameDuration(frame) * 100) / 100,
+      latencyMs: Math.round(performance.now() - startTime),
+    });
+
+    return {
+      type: stt.SpeechEventType.FINAL_TRANSCRIPT,
+      requestId,
+      alternatives: [
+        {
+          language,
+          text,
+          confidence: 1.0,
+          startTime: 0,
+          endTime: audioFrameDuration(frame),
+        },
+      ],
+    };
+  }
+
+  /** Streaming is provided by AgentSession's VAD stream adapter */
+  stream(): stt.SpeechStream {
+    throw new Error(`${this.label} does not support streaming; give the AgentSession a VAD so it can segment audio`);
+  }
+
+  /**
+   * Switch recognition language mid-call.
+   * The language is sent per request, so the next utterance uses it.
+   * With language detection on, only the fallback label changes.
+   */
+  setLanguageCode(languageCode: string): void {
+    if (languageCode === this.languageCode) return;
+    logger.info('Switching STT language', { from: this.languageCode, to: languageCode });
+    this.languageCode = languageCode;
+  }
+
+  /**
+   * Pre-warm keep-alive connections (DNS + TCP + TLS) before the first utterance.
+   * @param count - Number of connections to open (default: 1)
+   */
+  prewarm(count: number = 1): void {
+    if (this.closed) return;
+    logger.info(`Pre-warming ${this.label} HTTP connections`, { count });
+    for (let i = 0; i < count; i++) {
+      fetch(`${this.baseUrl}/models`, { headers: this.headers(), signal: AbortSignal.timeout(5_000) })
+        .then(response => response.arrayBuffer())
+        .catch(error => logger.debug(`${this.label} prewarm failed`, { error: (error as Error).message }));
+    }
+  }
+
+  /**
+   * Nothing to tear down - connections are owned by the global HTTP agent.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+
+  getLanguageCode(): string {
+    return this.languageCode;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+}
@@ -70,6 +70,13 @@ export interface EscalationEvent {
     priority: 'low' | 'medium' | 'high' | 'urgent';
     targetAgent?: string;
     context?: string;
+    /** Set when the escalation came from a call transfer attempt */
+    transfer?: {
+        mode: 'cold' | 'warm';
+        destination: string;
+        outcome: 'answered' | 'referred' | 'busy' | 'no_answer' | 'voicemail' | 'failed';
+        sipStatusCode?: number;
+    };
 }
 
 /**
@@ -14,6 +14,11 @@
 import { config } from '../core/config.js';
 import { logger } from '../core/logging.js';
 import { getDomainRegistry, DomainType } from '../models/domain.js';
+import type { TransferTarget, IVRMenuConfig } from '../telephony/types.js';
+import { validateIVRMenu } from '../telephony/dtmf-handler.js';
+import { validateWorkflow, type WorkflowDefinition } from './agent-workflow.js';
+import { validateFields, type FieldDefinition } from './agent-fields.js';
+import { RAG_MODES, RERANKERS, type AgentRagConfig } from './voice-knowledge/types.js';
 
 /**
  * Parsed agent configuration from database
@@ -35,7 +40,8 @@ export interface AgentConfigData {
     // Language settings
     language: string; // Language code (e.g., 'ta-IN')
     languageName: string; // Full language name (e.g., 'Tamil')
-    supportedLanguages?: string[];
+    supportedLanguages?: string[]; // Languages callers may switch to (first is the agent's language)
+    languageVoices?: Record<string, string>; // Optional TTS voice per language (from config.languageVoices)
 
     // Agent interaction messages
     greeting?: string; // Message spoken when call begins
@@ -49,9 +55,42 @@ export interface AgentConfigData {
     maxConcurrentCalls?: number;
     monthlyCallLimit?: number;
 
+    // Call transfer directory (departments and numbers)
+    transferDirectory?: TransferTarget[];
+
+    // Agents this one may hand the call to mid-call (from config.handoffTargets)
+    handoffTargets?: HandoffTarget[];
+
+    // Pre-conversation IVR menu for SIP callers (from config.ivrMenu)
+    ivrMenu?: IVRMenuConfig;
+
+    // Speech-to-text provider (from config.stt, default Sarvam)
+    stt?: STTSettings;
+
+    // Text-to-speech provider and voice (from config.tts, default Sarvam)
+    tts?: TTSSettings;
+
+    // Call recording with consent announcement (from config.recording, off by default)
+    recording?: RecordingSettings;
+
+    // Post-call disposition labels (from config.dispositions, default DEFAULT_CALL_DISPOSITIONS)
+    dispositions?: string[];
+
+    // QA rubric every call is graded against (from config.qaRubric, no grading without one)
+    qaRubric?: QARubric;
+
+    // Step-by-step conversation flow (from the agents.workflow column)
+    workflow?: WorkflowDefinition;
+
+    // Caller details collected and validated during the call (from config.fields)
+    fields?: FieldDefinition[];
+
     // Knowledge settings
     enableContextualEnrichment?: boolean;
 
+    // Knowledge retrieval tuning (from config.rag, default vector-only without reranking)
+    rag?: AgentRagConfig;
+
     // Raw config JSON (for voice, pace, and future config)
     rawConfig?: Record<string, any>;
 }
@@ -67,6 +106,43 @@ export interface VoiceConfig {
     tone?: string;
 }
 
+/**
+ * STT providers an agent can select
+ */
+export const STT_PROVIDERS = ['sarvam', 'whisper', 'deepgram', 'custom'] as const;
+
+/**
+ * Speech-to-text provider selection (config.stt)
+ * Credentials are never stored here - they come from the environment.
+ */
+export interface STTSettings {
+    provider: typeof STT_PROVIDERS[number];
+    model?: string;
+    /** Whisper-compatible endpoint (required for 'custom', optional for 'whisper') */
+    baseUrl?: string;
+}
+
+/**
+ * TTS providers an agent can select
+ */
+export const TTS_PROVIDERS = ['sarvam', 'openai', 'custom'] as const;
+
+/**
+ * Text-to-speech provider and voice selection (config.tts)
+ */
+export interface TTSSettings {
+    provider: typeof TTS_PROVIDERS[number];
+    /** Provider voice (Sarvam speaker, OpenAI voice, ...) */
+    voice?: string;
+    model?: string;
+    /** OpenAI-compatible endpoint (required for 'custom') */
+    baseUrl?: string;
+    /** Audio format for custom servers without raw PCM support */
+    responseFormat?: 'pcm' | 'wav';
+    /** Sample rate of custom server audio */
+    sampleRate?: number;
+}
+
 // Language code mappings
 const LANGUAGE_CODES: Record<string, string> = {
     'en': 'en-IN',
@@ -90,6 +166,9 @@ const LANGUAGE_CODES: Record<string, string> = {
     'gu-IN': 'gu-IN',
     'pa': 'pa-IN',
     'pa-IN': 'pa-IN',
+    'od': 'od-IN',
+    'or': 'od-IN',
+    'od-IN': 'od-IN',
 };
 
 // Language code to full name mapping
@@ -115,8 +194,339 @@ const LANGUAGE_NAMES: Record<string, string> = {
     'gu-IN': 'Gujarati',
     'pa': 'Punjabi',
     'pa-IN': 'Punjabi',
+    'od': 'Odia',
+    'od-IN': 'Odia',
 };
 
+/**
+ * Normalize a language code (e.g., 'ta' -> 'ta-IN')
+ */
+export function normalizeLanguageCode(languageCode: string): string {
+    return LANGUAGE_CODES[languageCode] || languageCode;
+}
+
+/**
+ * Get the display name for a language code (e.g., 'ta-IN' -> 'Tamil')
+ */
+export function getLanguageName(languageCode: string): string {
+    return LANGUAGE_NAMES[languageCode] || languageCode;
+}
+
+/**
+ * Call recording opt-in (config.recording)
+ */
+export interface RecordingSettings {
+    enabled: boolean;
+    /** Disclaimer spoken before the greeting (default RECORDING_CONSENT_MESSAGE) */
+    consentMessage?: string;
+    /** Days before the recording is deleted (default RECORDING_RETENTION_DAYS) */
+    retentionDays?: number;
+}
+
+/**
+ * Validate an agent's recording settings (config.recording)
+ * @returns List of problems (empty when valid)
+ */
+export function validateRecordingSettings(raw: any): string[] {
+    const errors: string[] = [];
+
+    if (!raw || typeof raw !== 'object') {
+        return ['recording must be an object'];
+    }
+    if (typeof raw.enabled !== 'boolean') {
+        errors.push('recording.enabled must be true or false');
+    }
+    if (raw.consentMessage !== undefined && (typeof raw.consentMessage !== 'string' || !raw.consentMessage.trim())) {
+        errors.push('recording.consentMessage must be a non-empty string');
+    }
+    if (raw.retentionDays !== undefined && (!Number.isInteger(raw.retentionDays) || raw.retentionDays < 1 || raw.retentionDays > 3650)) {
+        errors.push('recording.retentionDays must be an integer between 1 and 3650');
+    }
+
+    return errors;
+}
+
+/**
+ * Agent the call may be handed to mid-call (config.handoffTargets)
+ */
+export interface HandoffTarget {
+    agentId: string;
+    /** Short label the LLM picks by (e.g. 'billing') */
+    name: string;
+    /** When to hand over (e.g. 'Invoices, refunds and payment problems') */
+    description: string;
+}
+
+/**
+ * Validate an agent's handoff targets (config.handoffTargets)
+ * @returns List of problems (empty when valid)
+ */
+export function validateHandoffTargets(raw: any): string[] {
+    if (!Array.isArray(raw) || raw.length === 0 || raw.length > 10) {
+        return ['handoffTargets must be an array of 1-10 targets'];
+    }
+
+    const errors: string[] = [];
+    const names = new Set<string>();
+    raw.forEach((target: any, i: number) => {
+        if (typeof target?.agentId !== 'string' || !target.agentId.trim()) {
+            errors.push(`handoffTargets[${i}].agentId is required`);
+        }
+        if (typeof target?.name !== 'string' || !target.name.trim()) {
+            errors.push(`handoffTargets[${i}].name is required`);
+        } else if (names.has(target.name.trim().toLowerCase())) {
+            errors.push(`handoffTargets[${i}].name is a duplicate: ${target.name}`);
+        } else {
+            names.add(target.name.trim().toLowerCase());
+        }
+        if (typeof target?.description !== 'string' || !target.description.trim()) {
+            errors.push(`handoffTargets[${i}].description is required`);
+        }
+    });
+
+    return errors;
+}
+
+/**
+ * QA rubric (config.qaRubric)
+ */
+export interface QARubric {
+    /** Minimum score (0-100) for a call to pass (default QA_PASSING_SCORE) */
+    passingScore?: number;
+    criteria: QACriterion[];
+}
+
+export interface QACriterion {
+    /** Stable key used in trends (e.g. 'confirmed_phone') */
+    id: string;
+    /** What the grader checks (e.g. 'Confirmed the caller's phone number before booking') */
+    description: string;
+    /** Relative weight in the score (default 1) */
+    weight?: number;
+    /** Failing a critical criterion fails the call whatever the score */
+    critical?: boolean;
+}
+
+/**
+ * Validate an agent's QA rubric (config.qaRubric)
+ * @returns List of problems (empty when valid)
+ */
+export function validateQARubric(raw: any): string[] {
+    if (!raw || typeof raw !== 'object') {
+        return ['qaRubric must be an object'];
+    }
+
+    const errors: string[] = [];
+    if (raw.passingScore !== undefined && (typeof raw.passingScore !== 'number' || raw.passingScore < 0 || raw.passingScore > 100)) {
+        errors.push('qaRubric.passingScore must be a number between 0 and 100');
+    }
+    if (!Array.isArray(raw.criteria) || raw.criteria.length === 0 || raw.criteria.length > 25) {
+        errors.push('qaRubric.criteria must be an array of 1-25 criteria');
+        return errors;
+    }
+
+    const ids = new Set<string>();
+    raw.criteria.forEach((criterion: any, i: number) => {
+        if (!criterion || typeof criterion.id !== 'string' || !/^[a-z0-9_]+$/.test(criterion.id)) {
+            errors.push(`qaRubric.criteria[${i}].id must be snake_case (a-z, 0-9, _)`);
+        } else if (ids.has(criterion.id)) {
+            errors.push(`qaRubric.criteria[${i}].id is a duplicate: ${criterion.id}`);
+        } else {
+            ids.add(criterion.id);
+        }
+        if (typeof criterion?.description !== 'string' || !criterion.description.trim()) {
+            errors.push(`qaRubric.criteria[${i}].description is required`);
+        }
+        if (criterion?.weight !== undefined && (typeof criterion.weight !== 'number' || criterion.weight <= 0)) {
+            errors.push(`qaRubric.criteria[${i}].weight must be a positive number`);
+        }
+        if (criterion?.critical !== undefined && typeof criterion.critical !== 'boolean') {
+            errors.push(`qaRubric.criteria[${i}].critical must be true or false`);
+        }
+    });
+
+    return errors;
+}
+
+/**
+ * Validate an agent's post-call disposition labels (config.dispositions)
+ * @returns List of problems (empty when valid)
+ */
+export function validateDispositions(raw: any): string[] {
+    if (!Array.isArray(raw) || raw.length === 0 || raw.length > 30) {
+        return ['dispositions must be an array of 1-30 labels'];
+    }
+
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    for (const label of raw) {
+        if (typeof label !== 'string' || !label.trim() || label.length > 50) {
+            errors.push('each disposition must be a non-empty string of at most 50 characters');
+            break;
+        }
+        if (seen.has(label.trim())) {
+            errors.push(`duplicate disposition: ${label}`);
+        }
+        seen.add(label.trim());
+    }
+
+    return errors;
+}
+
+/**
+ * Validate an agent's multi-language settings (config.supportedLanguages, config.languageVoices)
+ * @returns List of problems (empty when valid)
+ */
+export function validateLanguageSettings(raw: any): string[] {
+    const errors: string[] = [];
+
+    if (raw.supportedLanguages !== undefined) {
+        if (!Array.isArray(raw.supportedLanguages) || raw.supportedLanguages.length === 0) {
+            errors.push('supportedLanguages must be a non-empty array of language codes');
+        } else {
+            for (const code of raw.supportedLanguages) {
+                if (typeof code !== 'string' || !LANGUAGE_CODES[code]) {
+                    errors.push(`supportedLanguages: unsupported language ${JSON.stringify(code)}`);
+                }
+            }
+        }
+    }
+
+    if (raw.languageVoices !== undefined) {
+        if (!raw.languageVoices || typeof raw.languageVoices !== 'object' || Array.isArray(raw.languageVoices)) {
+            errors.push('languageVoices must be an object mapping language codes to voices');
+        } else {
+            for (const [code, voice] of Object.entries(raw.languageVoices)) {
+                if (!LANGUAGE_CODES[code]) {
+                    errors.push(`languageVoices: unsupported language ${code}`);
+                }
+                if (typeof voice !== 'string' || !voice) {
+                    errors.push(`languageVoices.${code} must be a voice name`);
+                }
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Check an optional provider endpoint URL
+ */
+function validateProviderUrl(field: string, baseUrl: unknown, errors: string[]): void {
+    if (baseUrl === undefined) return;
+    try {
+        const url = new URL(String(baseUrl));
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            errors.push(`${field}.baseUrl must be an http(s) URL`);
+        }
+    } catch {
+        errors.push(`${field}.baseUrl must be a valid URL`);
+    }
+}
+
+/**
+ * Validate an agent's STT settings (config.stt)
+ * @returns List of problems (empty when valid)
+ */
+export function validateSTTSettings(raw: any): string[] {
+    const errors: string[] = [];
+
+    if (!raw || typeof raw !== 'object') {
+        return ['stt must be an object'];
+    }
+    if (!STT_PROVIDERS.includes(raw.provider)) {
+        errors.push(`stt.provider must be one of: ${STT_PROVIDERS.join(', ')}`);
+    }
+    if (raw.model !== undefined && typeof raw.model !== 'string') {
+        errors.push('stt.model must be a string');
+    }
+    validateProviderUrl('stt', raw.baseUrl, errors);
+    if (raw.provider === 'custom' && !raw.baseUrl) {
+        errors.push('stt.baseUrl is required for the custom provider');
+    }
+
+    return errors;
+}
+
+/**
+ * Validate an agent's TTS settings (config.tts)
+ * @returns List of problems (empty when valid)
+ */
+export function validateTTSSettings(raw: any): string[] {
+    const errors: string[] = [];
+
+    if (!raw || typeof raw !== 'object') {
+        return ['tts must be an object'];
+    }
+    if (!TTS_PROVIDERS.includes(raw.provider)) {
+        errors.push(`tts.provider must be one of: ${TTS_PROVIDERS.join(', ')}`);
+    }
+    for (const field of ['voice', 'model'] as const) {
+        if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+            errors.push(`tts.${field} must be a string`);
+        }
+    }
+    validateProviderUrl('tts', raw.baseUrl, errors);
+    if (raw.provider === 'custom' && !raw.baseUrl) {
+        errors.push('tts.baseUrl is required for the custom provider');
+    }
+    if (raw.responseFormat !== undefined && !['pcm', 'wav'].includes(raw.responseFormat)) {
+        errors.push('tts.responseFormat must be pcm or wav');
+    }
+    if (raw.sampleRate !== undefined && (!Number.isInteger(raw.sampleRate) || raw.sampleRate < 8000 || raw.sampleRate > 48000)) {
+        errors.push('tts.sampleRate must be an integer between 8000 and 48000');
+    }
+
+    return errors;
+}
+
+/**
+ * Validate an agent's knowledge retrieval settings (config.rag)
+ * @returns List of problems (empty when valid)
+ */
+export function validateRagSettings(raw: any): string[] {
+    const errors: string[] = [];
+
+    if (!raw || typeof raw !== 'object') {
+        return ['rag must be an object'];
+    }
+    if (raw.topK !== undefined && (!Number.isInteger(raw.topK) || raw.topK < 1 || raw.topK > 20)) {
+        errors.push('rag.topK must be an integer between 1 and 20');
+    }
+    if (raw.similarityThreshold !== undefined && (typeof raw.similarityThreshold !== 'number' || raw.similarityThreshold < 0 || raw.similarityThreshold > 1)) {
+        errors.push('rag.similarityThreshold must be a number between 0 and 1');
+    }
+    if (raw.mode !== undefined && !RAG_MODES.includes(raw.mode)) {
+        errors.push(`rag.mode must be one of: ${RAG_MODES.join(', ')}`);
+    }
+    for (const field of ['vectorWeight', 'keywordWeight'] as const) {
+        if (raw[field] !== undefined && (typeof raw[field] !== 'number' || raw[field] < 0 || raw[field] > 10)) {
+            errors.push(`rag.${field} must be a number between 0 and 10`);
+        }
+    }
+    if (raw.vectorWeight === 0 && raw.keywordWeight === 0) {
+        errors.push('rag.vectorWeight and rag.keywordWeight cannot both be 0');
+    }
+    if (raw.rrfK !== undefined && (!Number.isInteger(raw.rrfK) || raw.rrfK < 1 || raw.rrfK > 1000)) {
+        errors.push('rag.rrfK must be an integer between 1 and 1000');
+    }
+    if (raw.rerank !== undefined && !RERANKERS.includes(raw.rerank)) {
+        errors.push(`rag.rerank must be one of: ${RERANKERS.join(', ')}`);
+    }
+    if (raw.rerankCandidates !== undefined && (!Number.isInteger(raw.rerankCandidates) || raw.rerankCandidates < 2 || raw.rerankCandidates > 50)) {
+        errors.push('rag.rerankCandidates must be an integer between 2 and 50');
+    }
+    if (raw.crossLingual !== undefined && typeof raw.crossLingual !== 'boolean') {
+        errors.push('rag.crossLingual must be true or false');
+    }
+    if (raw.knowledgeLanguage !== undefined && (typeof raw.knowledgeLanguage !== 'string' || !LANGUAGE_CODES[raw.knowledgeLanguage])) {
+        errors.push(`rag.knowledgeLanguage: unsupported language ${JSON.stringify(raw.knowledgeLanguage)}`);
+    }
+
+    return errors;
+}
+
 /**
  * Agent Config Service
  * 
@@ -139,12 +549,18 @@ export class AgentConfigService {
     private promptCacheTtl = 600000; // 10 minutes
 
     constructor(convexUrl?: string) {
-        const url = convexUrl || config.convex.url;
-        if (!url) {
+        // Checked on the first Convex call, so parseAgentConfig works without Convex (inline test agents)
+        this.convexUrl = convexUrl || config.convex.url || '';
+        if (this.convexUrl) {
+            logger.info(`AgentConfigService initialized with Convex URL: ${this.convexUrl}`);
+        }
+    }
+
+    private requireConvexUrl(): string {
+        if (!this.convexUrl) {
             throw new Error('CONVEX_URL is required for AgentConfigService');
         }
-        this.convexUrl = url;
-        logger.info(`AgentConfigService initialized with Convex URL: ${url}`);
+        return this.convexUrl;
     }
 
     /**
@@ -215,8 +631,9 @@ export class AgentConfigService {
      * Make a Convex query via HTTP with retry and timeout
      */
     private async convexQuery(functionPath: string, args: Record<string, any>): Promise<any> {
+        const convexUrl = this.requireConvexUrl();
         return this.withRetry(async () => {
-            const url = `${this.convexUrl}/api/query`;
+            const url = `${convexUrl}/api/query`;
             const response = await this.fetchWithTimeout(url, {
                 method: 'POST',
                 headers: {
@@ -242,8 +659,9 @@ export class AgentConfigService {
      * Execute a Convex mutation via HTTP with retry and timeout
      */
     private async convexMutation(functionName: string, args: Record<string, any>): Promise<any> {
+        const convexUrl = this.requireConvexUrl();
         return this.withRetry(async () => {
-            const url = `${this.convexUrl}/api/mutation`;
+            const url = `${convexUrl}/api/mutation`;
             
             const response = await this.fetchWithTimeout(url, {
                 method: 'POST',
@@ -425,8 +843,9 @@ export class AgentConfigService {
 
     /**
      * Parse agent document into config data
+     * Also used for agents defined inline in test suites (config as a JSON string, like the agents table)
      */
-    private parseAgentConfig(agent: any): AgentConfigData {
+    parseAgentConfig(agent: any): AgentConfigData {
         // Parse JSON config (for voice, pace, and future settings)
         let rawConfig: Record<string, any> = {};
         if (agent.config) {
@@ -459,18 +878,265 @@ export class AgentConfigService {
             voice: this.parseVoiceConfig(rawConfig.voice),
             language: normalizedLanguage,
             languageName,
-            supportedLanguages: rawConfig.supportedLanguages || [normalizedLanguage],
+            ...this.parseLanguageSettings(rawConfig, normalizedLanguage, agent._id),
             greeting: agent.greeting, // Direct column (spoken when call begins)
             farewell: agent.farewell, // Direct column (spoken when call ends)
             domainType,
             customInstructions: rawConfig.customInstructions,
             maxConcurrentCalls: agent.maxConcurrentCalls ?? 5,
             monthlyCallLimit: agent.monthlyCallLimit ?? 1000,
+            transferDirectory: agent.transferDirectory || [],
+            handoffTargets: this.parseHandoffTargets(rawConfig.handoffTargets, agent._id),
+            ivrMenu: this.parseIVRMenu(rawConfig.ivrMenu, agent._id),
+            stt: this.parseSTTSettings(rawConfig.stt, agent._id),
+            tts: this.parseTTSSettings(rawConfig.tts, agent._id),
+            recording: this.parseRecordingSettings(rawConfig.recording, agent._id),
+            dispositions: this.parseDispositions(rawConfig.dispositions, agent._id),
+            qaRubric: this.parseQARubric(rawConfig.qaRubric, agent._id),
+            workflow: this.parseWorkflow(agent.workflow, agent._id),
+            fields: this.parseFields(rawConfig.fields, agent._id),
             enableContextualEnrichment: agent.enableContextualEnrichment ?? true,
+            rag: this.parseRagSettings(rawConfig.rag, agent._id),
             rawConfig,
         };
     }
 
+    /**
+     * Parse IVR menu from raw config (invalid menus are ignored)
+     */
+    private parseIVRMenu(menuRaw: any, agentId: string): IVRMenuConfig | undefined {
+        if (!menuRaw) return undefined;
+
+        const errors = validateIVRMenu(menuRaw);
+        if (errors.length > 0) {
+            logger.warning(`Ignoring invalid IVR menu for agent: ${agentId}`, { errors });
+            return undefined;
+        }
+
+        return menuRaw as IVRMenuConfig;
+    }
+
+    /**
+     * Parse allowed languages and per-language voices (invalid settings pin the agent to its language)
+     */
+    private parseLanguageSettings(
+        rawConfig: Record<string, any>,
+        language: string,
+        agentId: string
+    ): Pick<AgentConfigData, 'supportedLanguages' | 'languageVoices'> {
+        const errors = validateLanguageSettings(rawConfig);
+        if (errors.length > 0) {
+            logger.warning(`Ignoring invalid language settings for agent: ${agentId}`, { errors });
+            return { supportedLanguages: [language] };
+        }
+
+        // Primary language first, then the rest without duplicates
+        const supportedLanguages = [...new Set([
+            language,
+            ...(rawConfig.supportedLanguages || []).map(normalizeLanguageCode),
+        ])];
+
+        const languageVoices = rawConfig.languageVoices
+            ? Object.fromEntries(
+                Object.entries(rawConfig.languageVoices as Record<string, string>)
+                    .map(([code, voice]) => [normalizeLanguageCode(code), voice])
+            )
+            : undefined;
+
+        return { supportedLanguages, languageVoices };
+    }
+
+    /**
+     * Parse STT provider settings from raw config (invalid settings fall back to Sarvam)
+     */
+    private parseSTTSettings(sttRaw: any, agentId: string): STTSettings | undefined {
+        if (!sttRaw) return undefined;
+
+        const errors = validateSTTSettings(sttRaw);
+        if (errors.length > 0) {
+            logger.warning(`Ignoring invalid STT settings for agent: ${agentId}`, { errors });
+            return undefined;
+        }
+
+        return {
+            provider: sttRaw.provider,
+            model: sttRaw.model,
+            baseUrl: sttRaw.baseUrl,
+        };
+    }
+
+    /**
+     * Parse TTS provider/voice settings from raw config (invalid settings fall back to Sarvam)
+     */
+    private parseTTSSettings(ttsRaw: any, agentId: string): TTSSettings | undefined {
+        if (!ttsRaw) return undefined;
+
+        const errors = validateTTSSettings(ttsRaw);
+        if (errors.length > 0) {
+            logger.warning(`Ignoring invalid TTS settings for agent: ${agentId}`, { errors });
+            return undefined;
+        }
+
+        return {
+            provider: ttsRaw.provider,
+            voice: ttsRaw.voice,
+            model: ttsRaw.model,
+            baseUrl: ttsRaw.baseUrl,
+            responseFormat: ttsRaw.responseFormat,
+            sampleRate: ttsRaw.sampleRate,
+        };
+    }
+
+    /**
+     * Parse knowledge retrieval settings from raw config (invalid settings fall back to the defaults)
+     */
+    private parseRagSettings(ragRaw: any, agentId: string): AgentRagConfig | undefined {
+        if (!ragRaw) return undefined;
+
+        const errors = validateRagSettings(ragRaw);
+        if (errors.length > 0) {
+            logger.warning(`Ignoring invalid RAG settings for agent: ${agentId}`, { errors });
+            return undefined;
+        }
+
+        return {
+            topK: ragRaw.topK,
+            similarityThreshold: ragRaw.similarityThreshold,
+            mode: ragRaw.mode,
+            vectorWeight: ragRaw.vectorWeight,
+            keywordWeight: ragRaw.keywordWeight,
+            rrfK: ragRaw.rrfK,
+            rerank: ragRaw.rerank,
+            rerankCandidates: ragRaw.rerankCandidates,
+            crossLingual: ragRaw.crossLingual,
+            knowledgeLanguage: ragRaw.knowledgeLanguage ? normalizeLanguageCode(ragRaw.knowledgeLanguage) : undefined,
+        };
+    }
+
+    /**
+     * Parse recording settings from raw config (invalid settings leave recording off)
+     */
+    private parseRecordingSettings(recordingRaw: any, agentId: string): RecordingSettings | undefined {
+        if (!recordingRaw) return undefined;
+
+        const errors = validateRecordingSettings(recordingRaw);
+        if (errors.length > 0) {
+            logger.warning(`Ignoring invalid recording settings for agent: ${agentId}`, { errors });
+            return undefined;
+        }
+
+        return {
+            enabled: recordingRaw.enabled,
+            consentMessage: recordingRaw.consentMessage,
+            retentionDays: recordingRaw.retentionDays,
+        };
+    }
+
+    /**
+     * Parse disposition labels from raw config (invalid lists fall back to the defaults)
+     */
+    private parseDispositions(dispositionsRaw: any, agentId: string): string[] | undefined {
+        if (!dispositionsRaw) return undefined;
+
+        const errors = validateDispositions(dispositionsRaw);
+        if (errors.length > 0) {
+            logger.warning(`Ignoring invalid dispositions for agent: ${agentId}`, { errors });
+            return undefined;
+        }
+
+        return (dispositionsRaw as string[]).map(label => label.trim());
+    }
+
+    /**
+     * Parse handoff targets from raw config (invalid lists disable handoffs)
+     */
+    private parseHandoffTargets(targetsRaw: any, agentId: string): HandoffTarget[] | undefined {
+        if (!targetsRaw) return undefined;
+
+        const errors = validateHandoffTargets(targetsRaw);
+        if (errors.length > 0) {
+            logger.warning(`Ignoring invalid handoff targets for agent: ${agentId}`, { errors });
+            return undefined;
+        }
+
+        return targetsRaw
+            .filter((t: any) => t.agentId.trim() !== agentId)
+            .map((t: any) => ({
+                agentId: t.agentId.trim(),
+                name: t.name.trim(),
+                description: t.description.trim(),
+            }));
+    }
+
+    /**
+     * Parse the agent's workflow JSON (invalid workflows are ignored - the agent runs free-form)
+     */
+    private parseWorkflow(workflowJson: string | undefined, agentId: string): WorkflowDefinition | undefined {
+        if (!workflowJson) return undefined;
+
+        let workflowRaw: any;
+        try {
+            workflowRaw = JSON.parse(workflowJson);
+        } catch {
+            logger.warning(`Failed to parse agent workflow JSON: ${agentId}`);
+            return undefined;
+        }
+
+        const errors = validateWorkflow(workflowRaw);
+        if (errors.length > 0) {
+            logger.warning(`Ignoring invalid workflow for agent: ${agentId}`, { errors });
+            return undefined;
+        }
+
+        return workflowRaw;
+    }
+
+    /**
+     * Parse fields to collect from raw config (invalid lists disable field collection)
+     */
+    private parseFields(fieldsRaw: any, agentId: string): FieldDefinition[] | undefined {
+        if (!fieldsRaw) return undefined;
+
+        const errors = validateFields(fieldsRaw);
+        if (errors.length > 0) {
+            logger.warning(`Ignoring invalid fields for agent: ${agentId}`, { errors });
+            return undefined;
+        }
+
+        return fieldsRaw.map((f: any) => ({
+            name: f.name,
+            description: f.description?.trim() || undefined,
+            type: f.type,
+            required: f.required,
+            pattern: f.pattern,
+            options: f.options?.map((o: string) => o.trim()),
+            confirm: f.confirm,
+        }));
+    }
+
+    /**
+     * Parse QA rubric from raw config (invalid rubrics disable grading)
+     */
+    private parseQARubric(rubricRaw: any, agentId: string): QARubric | undefined {
+        if (!rubricRaw) return undefined;
+
+        const errors = validateQARubric(rubricRaw);
+        if (errors.length > 0) {
+            logger.warning(`Ignoring invalid QA rubric for agent: ${agentId}`, { errors });
+            return undefined;
+        }
+
+        return {
+            passingScore: rubricRaw.passingScore,
+            criteria: rubricRaw.criteria.map((c: any) => ({
+                id: c.id,
+                description: c.description.trim(),
+                weight: c.weight,
+                critical: c.critical,
+            })),
+        };
+    }
+
     /**
      * Parse voice config from raw config
      */
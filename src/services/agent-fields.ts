@@ -0,0 +1,375 @@
+/**
+ * Agent Fields - structured caller details collected during a call
+ *
+ * An agent can declare the fields it needs (config.fields): name, phone number,
+ * dates, addresses... Values the LLM records are parsed and validated here,
+ * with Indian phone numbers and spoken dates in English, Hindi and Tamil
+ * understood, so integrations receive clean values instead of guesses made
+ * from the transcript after the call.
+ *
+ * @module services/agent-fields
+ */
+
+export const FIELD_TYPES = ['text', 'name', 'phone', 'email', 'date', 'number', 'address', 'enum'] as const;
+export type FieldType = typeof FIELD_TYPES[number];
+
+const MAX_FIELDS = 20;
+
+/** Types read back to the caller for confirmation unless the field sets confirm */
+const CONFIRMED_BY_DEFAULT: FieldType[] = ['phone', 'email', 'date', 'address'];
+
+/**
+ * A field to collect (config.fields)
+ */
+export interface FieldDefinition {
+    /** snake_case key integrations receive (e.g. 'phone_number') */
+    name: string;
+    /** What to ask for (e.g. 'mobile number to send the booking SMS to') */
+    description?: string;
+    type: FieldType;
+    /** Required fields are asked for before the call ends (default true) */
+    required?: boolean;
+    /** Regular expression the parsed value must match */
+    pattern?: string;
+    /** Allowed values for enum fields */
+    options?: string[];
+    /** Read the value back for confirmation (default: phone, email, date and address) */
+    confirm?: boolean;
+}
+
+export type FieldValue = string | number;
+
+/**
+ * Validate an agent's fields (config.fields)
+ * @returns List of problems (empty when valid)
+ */
+export function validateFields(raw: any): string[] {
+    if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_FIELDS) {
+        return [`fields must be an array of 1-${MAX_FIELDS} fields`];
+    }
+
+    const errors: string[] = [];
+    const names = new Set<string>();
+    raw.forEach((field: any, i: number) => {
+        if (!field || typeof field.name !== 'string' || !/^[a-z][a-z0-9_]*$/.test(field.name)) {
+            errors.push(`fields[${i}].name must be snake_case (a-z, 0-9, _)`);
+        } else if (names.has(field.name)) {
+            errors.push(`fields[${i}].name is a duplicate: ${field.name}`);
+        } else {
+            names.add(field.name);
+        }
+        if (!FIELD_TYPES.includes(field?.type)) {
+            errors.push(`fields[${i}].type must be one of: ${FIELD_TYPES.join(', ')}`);
+        }
+        if (field?.description !== undefined && typeof field.description !== 'string') {
+            errors.push(`fields[${i}].description must be a string`);
+        }
+        for (const flag of ['required', 'confirm']) {
+            if (field?.[flag] !== undefined && typeof field[flag] !== 'boolean') {
+                errors.push(`fields[${i}].${flag} must be true or false`);
+            }
+        }
+        if (field?.type === 'enum' && (!Array.isArray(field.options) || field.options.length === 0 ||
+            field.options.some((o: unknown) => typeof o !== 'string' || !o.trim()))) {
+            errors.push(`fields[${i}].options must be a list of values for enum fields`);
+        }
+        if (field?.pattern !== undefined) {
+            try {
+                new RegExp(field.pattern);
+            } catch {
+                errors.push(`fields[${i}].pattern is not a valid regular expression`);
+            }
+        }
+    });
+
+    return errors;
+}
+
+/**
+ * Whether a field's value is read back to the caller before it counts
+ */
+export function needsConfirmation(field: FieldDefinition): boolean {
+    return field.confirm ?? CONFIRMED_BY_DEFAULT.includes(field.type);
+}
+
+/**
+ * Parse and validate a value the caller gave for a field
+ *
+ * @param now - Reference time for relative dates ("tomorrow", "நாளை", "परसों")
+ */
+export function parseFieldValue(
+    field: FieldDefinition,
+    raw: string,
+    now: Date = new Date()
+): { value?: FieldValue; error?: string } {
+    const text = String(raw ?? '').trim();
+    if (!text) return { error: `No ${field.name} given` };
+
+    const result = parseByType(field, text, now);
+    if (result.error) return result;
+
+    if (field.pattern && !new RegExp(field.pattern).test(String(result.value))) {
+        return { error: `${field.name} is not in the expected format` };
+    }
+    return result;
+}
+
+/**
+ * How to read a value back to the caller (digits spaced out, dates spelled out)
+ */
+export function formatFieldForReadBack(field: FieldDefinition, value: FieldValue): string {
+    const text = String(value);
+    switch (field.type) {
+        case 'phone': {
+            const digits = text.replace(/^\+91/, '');
+            return `${digits.slice(0, 5).split('').join(' ')}, ${digits.slice(5).split('').join(' ')}`;
+        }
+        case 'date': {
+            const [year, month, day] = text.split('-').map(Number);
+            return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-IN', {
+                weekday: 'long', day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC',
+            });
+        }
+        case 'email':
+            return text.replace(/@/g, ' at ').replace(/\./g, ' dot ');
+        default:
+            return text;
+    }
+}
+
+function parseByType(field: FieldDefinition, text: string, now: Date): { value?: FieldValue; error?: string } {
+    switch (field.type) {
+        case 'phone':
+            return parsePhoneNumber(text);
+        case 'date':
+            return parseSpokenDate(text, now);
+        case 'email': {
+            const email = text.toLowerCase()
+                .replace(/\s+at\s+the\s+rate\s+(of\s+)?/g, '@')
+                .replace(/\s+at\s+/g, '@')
+                .replace(/\s+dot\s+/g, '.')
+                .replace(/\s+/g, '');
+            return /^[^@]+@[^@]+\.[a-z]{2,}$/.test(email) ? { value: email } : { error: `${field.name} is not a valid email address` };
+        }
+        case 'number': {
+            const value = Number(toAsciiDigits(text).replace(/[,\s₹]|rs\.?/gi, ''));
+            return Number.isFinite(value) ? { value } : { error: `${field.name} must be a number` };
+        }
+        case 'name': {
+            if (/\d/.test(toAsciiDigits(text))) return { error: `${field.name} should not contain numbers` };
+            const name = text.replace(/\s+/g, ' ')
+                .split(' ')
+                .map(word => /^[a-z]/.test(word) ? word[0].toUpperCase() + word.slice(1) : word)
+                .join(' ');
+            return { value: name };
+        }
+        case 'enum': {
+            const options = field.options || [];
+            const answer = text.toLowerCase();
+            const exact = options.find(o => o.toLowerCase() === answer);
+            if (exact) return { value: exact };
+            const mentioned = options.filter(o => answer.includes(o.toLowerCase()));
+            return mentioned.length === 1
+                ? { value: mentioned[0] }
+                : { error: `${field.name} must be one of: ${options.join(', ')}` };
+        }
+        default:
+            return { value: text.replace(/\s+/g, ' ') };
+    }
+}
+
+// =============================================================================
+// Indian phone numbers
+// =============================================================================
+
+/** Spoken digits in English, Hindi and Tamil (native script and romanized) */
+const DIGIT_WORDS: Record<string, number> = {
+    zero: 0, oh: 0, o: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+    shunya: 0, ek: 1, do: 2, teen: 3, char: 4, chaar: 4, panch: 5, paanch: 5, chhe: 6, che: 6, chheh: 6,
+    saat: 7, aath: 8, nau: 9, nao: 9,
+    'शून्य': 0, 'एक': 1, 'दो': 2, 'तीन': 3, 'चार': 4, 'पांच': 5, 'पाँच': 5, 'छह': 6, 'छः': 6, 'छे': 6,
+    'सात': 7, 'आठ': 8, 'नौ': 9,
+    poojiyam: 0, pujyam: 0, onnu: 1, ondru: 1, rendu: 2, irandu: 2, moonu: 3, moondru: 3, naalu: 4,
+    naangu: 4, anju: 5, ainthu: 5, aaru: 6, ezhu: 7, ettu: 8, onbathu: 9,
+    'பூஜ்ஜியம்': 0, 'பூஜ்யம்': 0, 'சுழியம்': 0, 'ஒன்று': 1, 'ஒன்னு': 1, 'இரண்டு': 2, 'ரெண்டு': 2,
+    'மூன்று': 3, 'மூணு': 3, 'நான்கு': 4, 'நாலு': 4, 'ஐந்து': 5, 'அஞ்சு': 5, 'ஆறு': 6, 'ஏழு': 7,
+    'எட்டு': 8, 'ஒன்பது': 9,
+};
+
+const REPEAT_WORDS: Record<string, number> = {
+    double: 2, triple: 3, 'डबल': 2, 'ट्रिपल': 3, 'டபுள்': 2, 'ட்ரிபிள்': 3,
+};
+
+/**
+ * Digits from native scripts (०-९, ௦-௯) to ASCII
+ */
+function toAsciiDigits(text: string): string {
+    return text.replace(/[०-९௦-௯]/g, ch => {
+        const code = ch.charCodeAt(0);
+        return String(code - (code >= 0x0BE6 ? 0x0BE6 : 0x0966));
+    });
+}
+
+/**
+ * Indian mobile number from digits or spoken words ("nine eight double seven...")
+ * @returns +91 followed by the 10-digit number
+ */
+function parsePhoneNumber(text: string): { value?: string; error?: string } {
+    let digits = '';
+    let repeat = 1;
+    for (const token of toAsciiDigits(text).toLowerCase().split(/[\s,.\-()]+/)) {
+        if (!token) continue;
+        if (/^\+?\d+$/.test(token)) {
+            const number = token.replace('+', '');
+            // "double 98" repeats only the first digit that follows
+            digits += number[0].repeat(repeat - 1) + number;
+            repeat = 1;
+        } else if (REPEAT_WORDS[token]) {
+            repeat = REPEAT_WORDS[token];
+        } else if (DIGIT_WORDS[token] !== undefined) {
+            digits += String(DIGIT_WORDS[token]).repeat(repeat);
+            repeat = 1;
+        }
+    }
+
+    if (digits.length === 12 && digits.startsWith('91')) digits = digits.slice(2);
+    if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+
+    if (!/^[6-9]\d{9}$/.test(digits)) {
+        return { error: 'Indian mobile numbers have 10 digits and start with 6, 7, 8 or 9' };
+    }
+    return { value: `+91${digits}` };
+}
+
+// =============================================================================
+// Spoken dates
+// =============================================================================
+
+/** Month names - English is matched on its first three letters, others as word prefixes */
+const MONTH_NAMES: Array<[string[], number]> = [
+    [['jan', 'जनवरी', 'ஜனவரி'], 1],
+    [['feb', 'फ़रवरी', 'फरवरी', 'பிப்ரவரி'], 2],
+    [['mar', 'मार्च', 'மார்ச்'], 3],
+    [['apr', 'अप्रैल', 'ஏப்ரல்'], 4],
+    [['may', 'मई', 'மே'], 5],
+    [['jun', 'जून', 'ஜூன்'], 6],
+    [['jul', 'जुलाई', 'ஜூலை'], 7],
+    [['aug', 'अगस्त', 'ஆகஸ்ட்', 'ஆகஸ்டு'], 8],
+    [['sep', 'सितंबर', 'सितम्बर', 'செப்டம்பர்'], 9],
+    [['oct', 'अक्टूबर', 'அக்டோபர்'], 10],
+    [['nov', 'नवंबर', 'नवम्बर', 'நவம்பர்'], 11],
+    [['dec', 'दिसंबर', 'दिसम्बर', 'டிசம்பர்'], 12],
+];
+
+/** Weekday names (0 = Sunday) */
+const WEEKDAY_NAMES: Array<[string[], number]> = [
+    [['sunday', 'ravivar', 'रविवार', 'ஞாயிறு', 'ஞாயிற்றுக்கிழமை'], 0],
+    [['monday', 'somvar', 'सोमवार', 'திங்கள்', 'திங்கட்கிழமை'], 1],
+    [['tuesday', 'mangalvar', 'मंगलवार', 'செவ்வாய்'], 2],
+    [['wednesday', 'budhvar', 'बुधवार', 'புதன்'], 3],
+    [['thursday', 'guruvar', 'गुरुवार', 'வியாழன்', 'வியாழக்கிழமை'], 4],
+    [['friday', 'shukravar', 'शुक्रवार', 'வெள்ளி'], 5],
+    [['saturday', 'shanivar', 'शनिवार', 'சனி'], 6],
+];
+
+/** Days from today - longer phrases first ("day after tomorrow" before "tomorrow") */
+const RELATIVE_DAYS: Array<[string, number]> = [
+    ['day after tomorrow', 2], ['நாளை மறுநாள்', 2], ['நாளன்னைக்கு', 2], ['parso', 2], ['परसों', 2],
+    ['tomorrow', 1], ['நாளைக்கு', 1], ['நாளை', 1], ['naalaikku', 1], ['naalai', 1], ['kal', 1], ['कल', 1],
+    ['today', 0], ['இன்னைக்கு', 0], ['இன்று', 0], ['aaj', 0], ['आज', 0],
+];
+
+/**
+ * Today's date in India
+ */
+function todayInIndia(now: Date): { year: number; month: number; day: number } {
+    const [year, month, day] = new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Kolkata' })
+        .format(now)
+        .split('-')
+        .map(Number);
+    return { year, month, day };
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return null;
+    }
+    return date.toISOString().slice(0, 10);
+}
+
+function addDays(today: { year: number; month: number; day: number }, days: number): string {
+    return new Date(Date.UTC(today.year, today.month - 1, today.day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Date from "2026-03-15", "15/3", "15 March", "மார்ச் 15ஆம் தேதி", "15 मार्च 2026",
+ * "tomorrow"/"நாளை"/"कल" or a weekday. Day and month without a year mean the next
+ * time that date comes round.
+ * @returns YYYY-MM-DD
+ */
+function parseSpokenDate(text: string, now: Date): { value?: string; error?: string } {
+    const input = toAsciiDigits(text).toLowerCase().replace(/\s+/g, ' ').trim();
+    const today = todayInIndia(now);
+    const invalid = { error: 'Not a valid date - ask for the day, month and year' };
+
+    const iso = input.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (iso) {
+        const value = toIsoDate(+iso[1], +iso[2], +iso[3]);
+        return value ? { value } : invalid;
+    }
+
+    let day: number | undefined;
+    let month: number | undefined;
+    let year: number | undefined;
+
+    // Day first, as dates are written in India (15/03/2026, 15-3-26)
+    const numeric = input.match(/(?<!\d)(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2}|\d{4}))?(?!\d)/);
+    if (numeric) {
+        day = +numeric[1];
+        month = +numeric[2];
+        if (numeric[3]) year = numeric[3].length === 2 ? 2000 + +numeric[3] : +numeric[3];
+    } else {
+        const tokens = input.split(/[\s,]+/);
+        for (const [names, number] of MONTH_NAMES) {
+            const [english, ...others] = names;
+            if (tokens.some(t => (/^[a-z]/.test(t) && t.length >= 3 && t.startsWith(english)) ||
+                others.some(name => t.startsWith(name)))) {
+                month = number;
+                break;
+            }
+        }
+        if (month) {
+            const year4 = input.match(/(?<!\d)(\d{4})(?!\d)/);
+            if (year4) year = +year4[1];
+            const day2 = input.replace(/(?<!\d)\d{4}(?!\d)/, '').match(/(?<!\d)(\d{1,2})(?!\d)/);
+            if (day2) day = +day2[1];
+        }
+    }
+
+    if (day && month) {
+        if (year === undefined) {
+            year = today.year;
+            const candidate = toIsoDate(year, month, day);
+            if (candidate && candidate < addDays(today, 0)) year++;
+        }
+        const value = toIsoDate(year, month, day);
+        return value ? { value } : invalid;
+    }
+
+    for (const [phrase, offset] of RELATIVE_DAYS) {
+        const ascii = /^[a-z ]+$/.test(phrase);
+        const found = ascii ? new RegExp(`(^|\\s)${phrase}(\\s|$)`).test(input) : input.includes(phrase);
+        if (found) return { value: addDays(today, offset) };
+    }
+
+    const weekdayToday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+    for (const [names, weekday] of WEEKDAY_NAMES) {
+        if (names.some(name => input.includes(name))) {
+            const ahead = ((weekday - weekdayToday + 7) % 7) || 7;
+            return { value: addDays(today, ahead) };
+        }
+    }
+
+    return invalid;
+}
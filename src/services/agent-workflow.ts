@@ -0,0 +1,402 @@
+/**
+ * Agent Workflows
+ *
+ * Optional per-agent conversation flow (stored as JSON on agents.workflow).
+ * A workflow is a graph of nodes the agent runtime walks as a state machine,
+ * giving the LLM only the current node's instructions and tools:
+ *
+ * - say:      tell the caller something, then continue to the next node
+ * - collect:  ask for one value (slot) and record it with record_answer
+ * - tool:     call one of the agent's tools, optionally saving its result as a slot
+ * - branch:   pick the next node from the collected slots (no LLM turn)
+ * - transfer: hand the caller to a department from the transfer directory
+ * - end:      say goodbye and end the call
+ *
+ * @module services/agent-workflow
+ */
+
+export const WORKFLOW_NODE_TYPES = ['say', 'collect', 'tool', 'branch', 'transfer', 'end'] as const;
+export type WorkflowNodeType = typeof WORKFLOW_NODE_TYPES[number];
+
+export const WORKFLOW_SLOT_TYPES = ['text', 'number', 'yes_no', 'choice'] as const;
+export type WorkflowSlotType = typeof WORKFLOW_SLOT_TYPES[number];
+
+export const WORKFLOW_OPERATORS = [
+    'equals', 'not_equals', 'contains', 'greater_than', 'less_than', 'exists', 'not_exists',
+] as const;
+export type WorkflowOperator = typeof WORKFLOW_OPERATORS[number];
+
+const MAX_WORKFLOW_NODES = 50;
+const MAX_BRANCH_CONDITIONS = 10;
+const ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Value a collect node asks the caller for
+ */
+export interface WorkflowSlot {
+    name: string;
+    /** What to ask for (e.g. "date of birth, as day, month and year") */
+    description: string;
+    type?: WorkflowSlotType;
+    /** Allowed answers for 'choice' slots */
+    options?: string[];
+}
+
+/**
+ * Branch rule - `slot` may be a dotted path into a saved tool result (e.g. "availability.result.open")
+ */
+export interface WorkflowCondition {
+    slot: string;
+    operator: WorkflowOperator;
+    value?: string | number | boolean;
+    next: string;
+}
+
+interface WorkflowNodeBase {
+    id: string;
+    /** Extra guidance for the LLM while on this node */
+    instructions?: string;
+    /** Agent tools also allowed on this node (e.g. search_knowledge for questions) */
+    tools?: string[];
+}
+
+export interface SayNode extends WorkflowNodeBase {
+    type: 'say';
+    message: string;
+    next: string;
+}
+
+export interface CollectNode extends WorkflowNodeBase {
+    type: 'collect';
+    slot: WorkflowSlot;
+    next: string;
+}
+
+export interface ToolNode extends WorkflowNodeBase {
+    type: 'tool';
+    tool: string;
+    /** Slot the tool's result is saved as */
+    saveAs?: string;
+    next: string;
+    /** Node to go to when the tool fails (default: stay and let the LLM retry) */
+    onError?: string;
+}
+
+export interface BranchNode extends WorkflowNodeBase {
+    type: 'branch';
+    conditions: WorkflowCondition[];
+    default: string;
+}
+
+export interface TransferNode extends WorkflowNodeBase {
+    type: 'transfer';
+    department: string;
+}
+
+export interface EndNode extends WorkflowNodeBase {
+    type: 'end';
+}
+
+export type WorkflowNode = SayNode | CollectNode | ToolNode | BranchNode | TransferNode | EndNode;
+
+export interface WorkflowDefinition {
+    /** Node the conversation starts on (after the greeting) */
+    start: string;
+    nodes: WorkflowNode[];
+}
+
+/**
+ * What a workflow is checked against at save time
+ */
+export interface WorkflowValidationContext {
+    /** Tool names the agent has (tool nodes and per-node tools must use these) */
+    tools?: string[];
+    /** Departments in the agent's transfer directory */
+    departments?: string[];
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Nodes a node can move to
+ */
+export function getNextNodeIds(node: WorkflowNode): string[] {
+    switch (node.type) {
+        case 'say':
+        case 'collect':
+            return [node.next];
+        case 'tool':
+            return node.onError ? [node.next, node.onError] : [node.next];
+        case 'branch':
+            return [...(node.conditions || []).map(c => c.next), node.default];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Validate an agent workflow
+ * @returns List of problems (empty when valid)
+ */
+export function validateWorkflow(raw: any, context: WorkflowValidationContext = {}): string[] {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return ['workflow must be an object'];
+    }
+    if (!Array.isArray(raw.nodes) || raw.nodes.length === 0 || raw.nodes.length > MAX_WORKFLOW_NODES) {
+        return [`workflow.nodes must be an array of 1-${MAX_WORKFLOW_NODES} nodes`];
+    }
+
+    const errors: string[] = [];
+    const ids = new Set<string>();
+    const slots = new Set<string>();
+
+    raw.nodes.forEach((node: any, i: number) => {
+        if (!node || typeof node !== 'object') {
+            errors.push(`nodes[${i}] must be an object`);
+            return;
+        }
+        if (typeof node.id !== 'string' || !ID_PATTERN.test(node.id)) {
+            errors.push(`nodes[${i}].id must be snake_case (a-z, 0-9, _)`);
+        } else if (ids.has(node.id)) {
+            errors.push(`nodes[${i}].id is a duplicate: ${node.id}`);
+        } else {
+            ids.add(node.id);
+        }
+        if (node.type === 'collect' && typeof node.slot?.name === 'string') {
+            slots.add(node.slot.name);
+        }
+        if (node.type === 'tool' && typeof node.saveAs === 'string') {
+            slots.add(node.saveAs);
+        }
+    });
+    if (errors.length > 0) return errors;
+
+    if (!isNonEmptyString(raw.start) || !ids.has(raw.start)) {
+        errors.push('workflow.start must be the id of a node');
+    }
+
+    const checkTarget = (label: string, target: unknown) => {
+        if (!isNonEmptyString(target)) {
+            errors.push(`${label} is required`);
+        } else if (!ids.has(target)) {
+            errors.push(`${label} points to an unknown node: ${target}`);
+        }
+    };
+    const checkTool = (label: string, tool: unknown) => {
+        if (!isNonEmptyString(tool)) {
+            errors.push(`${label} is required`);
+        } else if (context.tools && !context.tools.includes(tool)) {
+            errors.push(`${label} is not one of the agent's tools: ${tool}`);
+        }
+    };
+
+    for (const node of raw.nodes) {
+        const at = `node ${node.id}`;
+
+        if (!(WORKFLOW_NODE_TYPES as readonly string[]).includes(node.type)) {
+            errors.push(`${at}: type must be one of ${WORKFLOW_NODE_TYPES.join(', ')}`);
+            continue;
+        }
+        if (node.instructions !== undefined && typeof node.instructions !== 'string') {
+            errors.push(`${at}: instructions must be a string`);
+        }
+        if (node.tools !== undefined) {
+            if (!Array.isArray(node.tools)) {
+                errors.push(`${at}: tools must be an array of tool names`);
+            } else {
+                node.tools.forEach((tool: unknown, i: number) => checkTool(`${at}: tools[${i}]`, tool));
+            }
+        }
+
+        switch (node.type) {
+            case 'say':
+                if (!isNonEmptyString(node.message)) errors.push(`${at}: message is required`);
+                checkTarget(`${at}: next`, node.next);
+                break;
+
+            case 'collect': {
+                const slot = node.slot;
+                if (!slot || typeof slot !== 'object') {
+                    errors.push(`${at}: slot is required`);
+                } else {
+                    if (typeof slot.name !== 'string' || !ID_PATTERN.test(slot.name)) {
+                        errors.push(`${at}: slot.name must be snake_case (a-z, 0-9, _)`);
+                    }
+                    if (!isNonEmptyString(slot.description)) {
+                        errors.push(`${at}: slot.description is required`);
+                    }
+                    if (slot.type !== undefined && !(WORKFLOW_SLOT_TYPES as readonly string[]).includes(slot.type)) {
+                        errors.push(`${at}: slot.type must be one of ${WORKFLOW_SLOT_TYPES.join(', ')}`);
+                    }
+                    if (slot.type === 'choice' && (!Array.isArray(slot.options) || slot.options.length < 2 || !slot.options.every(isNonEmptyString))) {
+                        errors.push(`${at}: choice slots need at least 2 options`);
+                    }
+                }
+                checkTarget(`${at}: next`, node.next);
+                break;
+            }
+
+            case 'tool':
+                checkTool(`${at}: tool`, node.tool);
+                if (node.saveAs !== undefined && (typeof node.saveAs !== 'string' || !ID_PATTERN.test(node.saveAs))) {
+                    errors.push(`${at}: saveAs must be snake_case (a-z, 0-9, _)`);
+                }
+                checkTarget(`${at}: next`, node.next);
+                if (node.onError !== undefined) checkTarget(`${at}: onError`, node.onError);
+                break;
+
+            case 'branch':
+                if (!Array.isArray(node.conditions) || node.conditions.length === 0 || node.conditions.length > MAX_BRANCH_CONDITIONS) {
+                    errors.push(`${at}: conditions must be an array of 1-${MAX_BRANCH_CONDITIONS} conditions`);
+                } else {
+                    node.conditions.forEach((condition: any, i: number) => {
+                        const label = `${at}: conditions[${i}]`;
+                        const root = typeof condition?.slot === 'string' ? condition.slot.split('.')[0] : '';
+                        if (!root) {
+                            errors.push(`${label}.slot is required`);
+                        } else if (!slots.has(root)) {
+                            errors.push(`${label}.slot is never collected or saved: ${root}`);
+                        }
+                        if (!(WORKFLOW_OPERATORS as readonly string[]).includes(condition?.operator)) {
+                            errors.push(`${label}.operator must be one of ${WORKFLOW_OPERATORS.join(', ')}`);
+                        } else if (condition.operator !== 'exists' && condition.operator !== 'not_exists' && !['string', 'number', 'boolean'].includes(typeof condition.value)) {
+                            errors.push(`${label}.value is required for ${condition.operator}`);
+                        }
+                        checkTarget(`${label}.next`, condition?.next);
+                    });
+                }
+                checkTarget(`${at}: default`, node.default);
+                break;
+
+            case 'transfer':
+                if (!isNonEmptyString(node.department)) {
+                    errors.push(`${at}: department is required`);
+                } else if (context.departments && !context.departments.some(d => d.toLowerCase() === node.department.toLowerCase())) {
+                    errors.push(`${at}: department is not in the transfer directory: ${node.department}`);
+                }
+                break;
+        }
+    }
+    if (errors.length > 0) return errors;
+
+    const definition = raw as WorkflowDefinition;
+    const byId = new Map(definition.nodes.map(node => [node.id, node]));
+
+    // Every node must be reachable from the start
+    const reached = new Set<string>();
+    const queue = [definition.start];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (reached.has(id)) continue;
+        reached.add(id);
+        queue.push(...getNextNodeIds(byId.get(id)!));
+    }
+    for (const node of definition.nodes) {
+        if (!reached.has(node.id)) errors.push(`node ${node.id} can never be reached from ${definition.start}`);
+    }
+
+    // A loop of say/branch nodes would spin without ever waiting for the caller
+    const instant = (node: WorkflowNode) => node.type === 'say' || node.type === 'branch';
+    const visiting = new Set<string>();
+    const done = new Set<string>();
+    const findLoop = (id: string): string | null => {
+        if (visiting.has(id)) return id;
+        if (done.has(id)) return null;
+        const node = byId.get(id)!;
+        if (!instant(node)) return null;
+        visiting.add(id);
+        for (const next of getNextNodeIds(node)) {
+            const loop = findLoop(next);
+            if (loop) return loop;
+        }
+        visiting.delete(id);
+        done.add(id);
+        return null;
+    };
+    for (const node of definition.nodes) {
+        const loop = findLoop(node.id);
+        if (loop) {
+            errors.push(`node ${loop} loops through say/branch nodes without waiting for the caller`);
+            break;
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Check and normalize an answer for a collect node
+ */
+export function normalizeSlotValue(
+    slot: WorkflowSlot,
+    raw: string
+): { value?: string | number | boolean; error?: string } {
+    const text = String(raw ?? '').trim();
+    if (!text) return { error: `No ${slot.name} given` };
+
+    switch (slot.type || 'text') {
+        case 'number': {
+            const value = Number(text.replace(/[,\s]/g, ''));
+            return Number.isFinite(value) ? { value } : { error: `${slot.name} must be a number` };
+        }
+        case 'yes_no': {
+            const answer = text.toLowerCase();
+            if (['yes', 'y', 'true', 'haan', 'ha', 'aam'].includes(answer)) return { value: true };
+            if (['no', 'n', 'false', 'nahi', 'illai'].includes(answer)) return { value: false };
+            return { error: `${slot.name} must be yes or no` };
+        }
+        case 'choice': {
+            const option = slot.options?.find(o => o.toLowerCase() === text.toLowerCase());
+            return option ? { value: option } : { error: `${slot.name} must be one of: ${slot.options?.join(', ')}` };
+        }
+        default:
+            return { value: text };
+    }
+}
+
+/**
+ * Read a slot, following dots into saved tool results
+ */
+export function getSlotValue(slots: Record<string, unknown>, path: string): unknown {
+    let value: unknown = slots;
+    for (const key of path.split('.')) {
+        if (typeof value === 'string') {
+            try {
+                value = JSON.parse(value);
+            } catch {
+                return undefined;
+            }
+        }
+        if (value === null || typeof value !== 'object') return undefined;
+        value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+}
+
+/**
+ * Evaluate a branch condition against the collected slots
+ */
+export function evaluateCondition(condition: WorkflowCondition, slots: Record<string, unknown>): boolean {
+    const actual = getSlotValue(slots, condition.slot);
+    const exists = actual !== undefined && actual !== null && actual !== '';
+
+    switch (condition.operator) {
+        case 'exists':
+            return exists;
+        case 'not_exists':
+            return !exists;
+        case 'equals':
+            return exists && String(actual).toLowerCase() === String(condition.value).toLowerCase();
+        case 'not_equals':
+            return !exists || String(actual).toLowerCase() !== String(condition.value).toLowerCase();
+        case 'contains':
+            return exists && String(actual).toLowerCase().includes(String(condition.value).toLowerCase());
+        case 'greater_than':
+            return exists && Number(actual) > Number(condition.value);
+        case 'less_than':
+            return exists && Number(actual) < Number(condition.value);
+        default:
+            return false;
+    }
+}
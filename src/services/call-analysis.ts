@@ -0,0 +1,200 @@
+/**
+ * Call Analysis Service - Post-call summary, sentiment and disposition
+ *
+ * Runs once the call's interactions are saved (after flushSessionToConvex):
+ * - Short English summary of the call (whatever language was spoken)
+ * - Overall sentiment with a -1..1 score, plus per-turn sentiment for each
+ *   caller message (callInteractions.sentiment - feeds the sentiment charts)
+ * - Disposition from the agent's config.dispositions (default DEFAULT_CALL_DISPOSITIONS)
+ * - Key entities (names, dates, amounts, products...)
+ *
+ * Results are stored on callSessions.analysis and passed to call_ended integrations.
+ * It runs in the job process after the session has ended, so the OpenAI call is
+ * bounded by config.analysis.timeoutMs and never retried.
+ */
+
+import OpenAI from 'openai';
+import { config } from '../core/config.js';
+import { getConvexClient, isConvexConfigured } from '../core/convex-client.js';
+import { logger } from '../core/logging.js';
+import { getAgentConfigService } from './agent-config.js';
+
+export type CallSentiment = 'positive' | 'neutral' | 'negative';
+
+/**
+ * Stored on callSessions.analysis
+ */
+export interface CallAnalysis {
+    summary: string;
+    sentiment: CallSentiment;
+    /** -1 (very negative) to 1 (very positive) */
+    sentimentScore: number;
+    /** One of the agent's dispositions ('unknown' if the model picked none of them) */
+    disposition: string;
+    dispositionReason?: string;
+    entities: Array<{ type: string; value: string }>;
+    model: string;
+    analyzedAt: number;
+}
+
+const SENTIMENTS: CallSentiment[] = ['positive', 'neutral', 'negative'];
+
+// Longest transcript sent to the model (the start of very long calls is dropped)
+const MAX_TRANSCRIPT_CHARS = 24000;
+
+const SYSTEM_PROMPT = `You analyze phone calls between a caller and an AI voice agent. The conversation may be in English, an Indian language, or a mix.
+
+Return a JSON object with:
+- "summary": 2-3 sentences in English - why the caller called and how the call ended
+- "sentiment": the caller's overall sentiment - "positive", "neutral" or "negative"
+- "sentimentScore": number from -1 (very negative) to 1 (very positive)
+- "disposition": exactly one label from the allowed list
+- "dispositionReason": one short sentence explaining the disposition
+- "entities": array of {"type", "value"} for key facts the caller gave (name, phone, date, time, amount, product, location, order id...) - values as stated, empty array if none
+- "turnSentiments": object mapping each numbered caller turn ("1", "2"...) to "positive", "neutral" or "negative"
+
+Only use information from the transcript. Return valid JSON only.`;
+
+/**
+ * Call Analysis Service class
+ */
+export class CallAnalysisService {
+    private openai: OpenAI | null = null;
+
+    constructor() {
+        const apiKey = config.convex.openaiApiKey;
+        if (apiKey) {
+            this.openai = new OpenAI({ apiKey, timeout: config.analysis.timeoutMs, maxRetries: 0 });
+        }
+    }
+
+    /**
+     * Check if post-call analysis can run
+     */
+    isAvailable(): boolean {
+        return config.analysis.enabled && this.openai !== null && isConvexConfigured();
+    }
+
+    /**
+     * Analyze a finished call and store the result on its session
+     * @returns null when analysis is disabled or the caller never spoke
+     */
+    async analyzeCall(sessionId: string): Promise<CallAnalysis | null> {
+        if (!this.isAvailable()) return null;
+
+        const convex = getConvexClient();
+        const session = await convex.query('callSessions:getBySessionId', { sessionId });
+        if (!session) {
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+
+        const interactions = await convex.query('callInteractions:getBySessionId', { sessionId }) as any[];
+        const callerTurns = interactions.filter(i => i.interactionType === 'user_message' && i.userInput);
+        if (callerTurns.length === 0) {
+            logger.info('Skipping post-call analysis - caller did not speak', { sessionId });
+            return null;
+        }
+
+        const agentConfig = session.agentId
+            ? await getAgentConfigService().loadAgentConfig(session.agentId).catch(() => null)
+            : null;
+        const dispositions = agentConfig?.dispositions || config.analysis.defaultDispositions;
+
+        // Caller turns are numbered so per-turn sentiment maps back to interactions
+        let turnNumber = 0;
+        let transcript = interactions
+            .map(i => {
+                if (i.interactionType === 'user_message' && i.userInput) return `[${++turnNumber}] Caller: ${i.userInput}`;
+                if (i.interactionType === 'agent_response' && i.agentResponse) return `Agent: ${i.agentResponse}`;
+                if (i.interactionType === 'function_call') return `(Agent used tool: ${i.functionName})`;
+                return null;
+            })
+            .filter(Boolean)
+            .join('\n');
+        if (transcript.length > MAX_TRANSCRIPT_CHARS) {
+            transcript = transcript.slice(-MAX_TRANSCRIPT_CHARS);
+        }
+
+        const model = config.analysis.model;
+        const response = await this.openai!.chat.completions.create({
+            model,
+            messages: [
+                { role: 'system', content: SYSTEM_PROMPT },
+                {
+                    role: 'user',
+                    content: `Allowed dispositions: ${dispositions.map(d => `"${d}"`).join(', ')}\n\nTRANSCRIPT:\n"""\n${transcript}\n"""`,
+                },
+            ],
+            response_format: { type: 'json_object' },
+            temperature: 0.1,
+            max_tokens: 1000,
+        });
+
+        const content = response.choices[0]?.message?.content;
+        if (!content) {
+            throw new Error('Empty response from OpenAI');
+        }
+        const raw = JSON.parse(content);
+
+        const analysis = this.normalize(raw, dispositions, model);
+        const turnSentiments = callerTurns
+            .map((turn, index) => ({
+                interactionId: turn._id,
+                sentiment: raw.turnSentiments?.[String(index + 1)],
+            }))
+            .filter(t => SENTIMENTS.includes(t.sentiment));
+
+        await convex.mutation('callSessions:saveAnalysis', { sessionId, analysis, turnSentiments });
+
+        logger.info('Post-call analysis saved', {
+            sessionId,
+            sentiment: analysis.sentiment,
+            disposition: analysis.disposition,
+            entities: analysis.entities.length,
+            turnSentiments: turnSentiments.length,
+            tokensUsed: response.usage?.total_tokens,
+        });
+
+        return analysis;
+    }
+
+    /**
+     * Coerce the model's answer into a valid CallAnalysis
+     */
+    private normalize(raw: any, dispositions: string[], model: string): CallAnalysis {
+        const sentiment: CallSentiment = SENTIMENTS.includes(raw.sentiment) ? raw.sentiment : 'neutral';
+        const score = Number(raw.sentimentScore);
+
+        const answer = typeof raw.disposition === 'string' ? raw.disposition.trim().toLowerCase() : '';
+        const disposition = dispositions.find(d => d.toLowerCase() === answer);
+        if (!disposition) {
+            logger.warning('Model returned a disposition outside the allowed list', { disposition: raw.disposition, dispositions });
+        }
+
+        return {
+            summary: typeof raw.summary === 'string' && raw.summary.trim() ? raw.summary.trim() : 'No summary available',
+            sentiment,
+            sentimentScore: Number.isFinite(score) ? Math.max(-1, Math.min(1, score)) : 0,
+            disposition: disposition || 'unknown',
+            dispositionReason: typeof raw.dispositionReason === 'string' ? raw.dispositionReason : undefined,
+            entities: (Array.isArray(raw.entities) ? raw.entities : [])
+                .filter((e: any) => e && typeof e.type === 'string' && e.value !== undefined && e.value !== null)
+                .map((e: any) => ({ type: e.type, value: String(e.value) })),
+            model,
+            analyzedAt: Date.now(),
+        };
+    }
+}
+
+// Singleton instance
+let callAnalysisService: CallAnalysisService | null = null;
+
+/**
+ * Get singleton call analysis service
+ */
+export function getCallAnalysisService(): CallAnalysisService {
+    if (!callAnalysisService) {
+        callAnalysisService = new CallAnalysisService();
+    }
+    return callAnalysisService;
+}
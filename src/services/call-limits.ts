@@ -0,0 +1,185 @@
+/**
+ * Call Limit Service - Per-agent concurrency and monthly quotas
+ *
+ * Handles:
+ * - Acquiring/releasing concurrent call slots (atomic in Convex)
+ * - Monthly usage per billing cycle
+ * - Over-limit decisions (reject, busy message, queue)
+ *
+ * Fails open: if Convex is unavailable calls are admitted rather than dropped.
+ */
+
+import { getConvexClient, isConvexConfigured } from '../core/convex-client.js';
+import { logger } from '../core/logging.js';
+
+/**
+ * What happens to calls beyond the agent's limits
+ */
+export type OverLimitBehavior = 'reject' | 'busy_message' | 'queue';
+
+/**
+ * Call direction counted against the agent's limits
+ */
+export type CallSlotDirection = 'inbound' | 'outbound' | 'web';
+
+/**
+ * Result of trying to admit a call
+ */
+export interface CallAdmission {
+    allowed: boolean;
+    status: 'acquired' | 'already_held' | 'untracked' | 'over_limit' | 'unavailable';
+    reason?: 'concurrent_limit' | 'monthly_limit';
+    behavior?: OverLimitBehavior;
+    message?: string;
+    maxQueueWaitSeconds?: number;
+    currentConcurrentCalls?: number;
+    maxConcurrentCalls?: number;
+    monthlyCallCount?: number;
+    monthlyCallLimit?: number;
+}
+
+/**
+ * Current usage snapshot for an agent
+ */
+export interface AgentUsage {
+    agentId: string;
+    organizationId: string;
+    currentConcurrentCalls: number;
+    maxConcurrentCalls: number;
+    monthlyCallCount: number;
+    monthlyCallLimit: number;
+    rejectedCount: number;
+    cycleStart: number;
+    cycleEnd: number;
+    overLimitBehavior: OverLimitBehavior;
+    activeCalls: Array<{ slotKey: string; direction: CallSlotDirection; acquiredAt: number }>;
+}
+
+/**
+ * How often a queued caller re-checks for a free slot
+ */
+const QUEUE_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Call Limit Service class
+ */
+export class CallLimitService {
+    /**
+     * Try to admit a call for an agent
+     * Idempotent per slotKey (room name) so every entry point can call it.
+     */
+    async acquireSlot(params: {
+        agentId: string;
+        organizationId: string;
+        slotKey: string;
+        direction: CallSlotDirection;
+    }): Promise<CallAdmission> {
+        if (!isConvexConfigured()) {
+            return { allowed: true, status: 'unavailable' };
+        }
+
+        try {
+            const result = await getConvexClient().mutation('agentUsage:acquireCallSlot', params);
+
+            if (!result.allowed) {
+                logger.warning('Agent call limit reached', {
+                    agentId: params.agentId,
+                    slotKey: params.slotKey,
+                    reason: result.reason,
+                    behavior: result.behavior,
+                    currentConcurrentCalls: result.currentConcurrentCalls,
+                    monthlyCallCount: result.monthlyCallCount,
+                });
+            }
+
+            return result as CallAdmission;
+        } catch (error) {
+            logger.error('Failed to acquire call slot - admitting call', {
+                agentId: params.agentId,
+                slotKey: params.slotKey,
+                error: (error as Error).message,
+            });
+            return { allowed: true, status: 'unavailable' };
+        }
+    }
+
+    /**
+     * Release a call slot (safe to call more than once)
+     */
+    async releaseSlot(slotKey: string): Promise<void> {
+        if (!isConvexConfigured()) return;
+
+        try {
+            const result = await getConvexClient().mutation('agentUsage:releaseCallSlot', { slotKey });
+            if (result?.released) {
+                logger.debug('Call slot released', { slotKey, currentConcurrentCalls: result.currentConcurrentCalls });
+            }
+        } catch (error) {
+            logger.error('Failed to release call slot', {
+                slotKey,
+                error: (error as Error).message,
+            });
+        }
+    }
+
+    /**
+     * Count a call that was turned away
+     */
+    async recordRejection(agentId: string, organizationId: string): Promise<void> {
+        if (!isConvexConfigured()) return;
+
+        try {
+            await getConvexClient().mutation('agentUsage:recordRejection', { agentId, organizationId });
+        } catch (error) {
+            logger.error('Failed to record call rejection', {
+                agentId,
+                error: (error as Error).message,
+            });
+        }
+    }
+
+    /**
+     * Wait in queue until a slot frees up
+     * @returns true if a slot was acquired before maxWaitSeconds
+     */
+    async waitForSlot(
+        params: { agentId: string; organizationId: string; slotKey: string; direction: CallSlotDirection },
+        maxWaitSeconds: number
+    ): Promise<boolean> {
+        const deadline = Date.now() + maxWaitSeconds * 1000;
+
+        while (Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, QUEUE_POLL_INTERVAL_MS));
+
+            const admission = await this.acquireSlot(params);
+            if (admission.allowed) {
+                logger.info('Queued call admitted', { agentId: params.agentId, slotKey: params.slotKey });
+                return true;
+            }
+        }
+
+        logger.warning('Queued call timed out', { agentId: params.agentId, slotKey: params.slotKey, maxWaitSeconds });
+        return false;
+    }
+
+    /**
+     * Get current usage for an agent
+     */
+    async getUsage(agentId: string): Promise<AgentUsage | null> {
+        if (!isConvexConfigured()) return null;
+        return await getConvexClient().query('agentUsage:getUsage', { agentId });
+    }
+}
+
+// Singleton instance
+let callLimitService: CallLimitService | null = null;
+
+/**
+ * Get singleton call limit service
+ */
+export function getCallLimitService(): CallLimitService {
+    if (!callLimitService) {
+        callLimitService = new CallLimitService();
+    }
+    return callLimitService;
+}
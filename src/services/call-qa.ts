@@ -0,0 +1,205 @@
+/**
+ * Call QA Service - Scorecards for completed calls
+ *
+ * Grades the transcript saved by callSessions:updateTranscript against the agent's
+ * rubric (config.qaRubric), one pass/fail/not_applicable verdict per criterion:
+ * - score: weighted share of applicable criteria passed (0-100)
+ * - passed: score >= passingScore and no critical criterion failed
+ *
+ * Scorecards are stored in callScores; agents without a rubric are not graded.
+ * Grading runs alongside post-call analysis while the job process shuts down,
+ * so it is bounded by config.qa.timeoutMs and never retried.
+ */
+
+import OpenAI from 'openai';
+import { config } from '../core/config.js';
+import { getConvexClient, isConvexConfigured } from '../core/convex-client.js';
+import { logger } from '../core/logging.js';
+import { getAgentConfigService, type QARubric } from './agent-config.js';
+
+export type CriterionResult = 'pass' | 'fail' | 'not_applicable';
+
+/**
+ * Stored in callScores
+ */
+export interface CallScorecard {
+    sessionId: string;
+    organizationId: string;
+    agentId: string;
+    score: number;
+    passed: boolean;
+    passingScore: number;
+    criteria: Array<{
+        id: string;
+        description: string;
+        weight: number;
+        critical: boolean;
+        result: CriterionResult;
+        evidence?: string;
+    }>;
+    model: string;
+    gradedAt: number;
+}
+
+const RESULTS: CriterionResult[] = ['pass', 'fail', 'not_applicable'];
+
+// Longest transcript sent to the grader (the start of very long calls is dropped)
+const MAX_TRANSCRIPT_CHARS = 24000;
+
+const SYSTEM_PROMPT = `You are a strict quality assurance reviewer grading a phone call handled by an AI voice agent. The conversation may be in English, an Indian language, or a mix.
+
+For every criterion, decide:
+- "pass": the agent clearly met it
+- "fail": the agent did not meet it, or broke it
+- "not_applicable": the situation the criterion covers never came up in this call
+
+Grade only from the transcript - do not assume anything happened that is not in it. Lines in parentheses are tools the agent used.
+
+Return a JSON object: {"criteria": {"<criterion id>": {"result": "pass" | "fail" | "not_applicable", "evidence": "short quote or reason, in English"}}}`;
+
+/**
+ * Call QA Service class
+ */
+export class CallQAService {
+    private openai: OpenAI | null = null;
+
+    constructor() {
+        const apiKey = config.convex.openaiApiKey;
+        if (apiKey) {
+            this.openai = new OpenAI({ apiKey, timeout: config.qa.timeoutMs, maxRetries: 0 });
+        }
+    }
+
+    /**
+     * Check if QA grading can run
+     */
+    isAvailable(): boolean {
+        return config.qa.enabled && this.openai !== null && isConvexConfigured();
+    }
+
+    /**
+     * Grade a finished call against its agent's rubric and store the scorecard
+     * @returns null when grading is disabled, the agent has no rubric or there is no transcript
+     */
+    async gradeCall(sessionId: string): Promise<CallScorecard | null> {
+        if (!this.isAvailable()) return null;
+
+        const convex = getConvexClient();
+        const session = await convex.query('callSessions:getBySessionId', { sessionId });
+        if (!session) {
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+        if (!session.agentId) return null;
+
+        const agentConfig = await getAgentConfigService().loadAgentConfig(session.agentId);
+        const rubric = agentConfig?.qaRubric;
+        if (!rubric) return null;
+
+        const transcript = this.formatTranscript(session.transcript || []);
+        if (!transcript) {
+            logger.info('Skipping QA grading - no transcript', { sessionId });
+            return null;
+        }
+
+        const model = config.qa.model;
+        const response = await this.openai!.chat.completions.create({
+            model,
+            messages: [
+                { role: 'system', content: SYSTEM_PROMPT },
+                {
+                    role: 'user',
+                    content: `CRITERIA:\n${rubric.criteria.map(c => `- ${c.id}: ${c.description}`).join('\n')}\n\nTRANSCRIPT:\n"""\n${transcript}\n"""`,
+                },
+            ],
+            response_format: { type: 'json_object' },
+            temperature: 0,
+            max_tokens: 1500,
+        });
+
+        const content = response.choices[0]?.message?.content;
+        if (!content) {
+            throw new Error('Empty response from OpenAI');
+        }
+
+        const scorecard = this.score(rubric, JSON.parse(content).criteria || {}, {
+            sessionId,
+            organizationId: session.organizationId,
+            agentId: session.agentId,
+            model,
+        });
+        await convex.mutation('callScores:saveScore', scorecard);
+
+        logger.info('QA scorecard saved', {
+            sessionId,
+            score: scorecard.score,
+            passed: scorecard.passed,
+            failed: scorecard.criteria.filter(c => c.result === 'fail').map(c => c.id),
+            tokensUsed: response.usage?.total_tokens,
+        });
+
+        return scorecard;
+    }
+
+    /**
+     * Turn the grader's verdicts into a weighted score
+     * Criteria the grader skipped count as failed
+     */
+    private score(
+        rubric: QARubric,
+        verdicts: Record<string, { result?: string; evidence?: string }>,
+        call: Pick<CallScorecard, 'sessionId' | 'organizationId' | 'agentId' | 'model'>
+    ): CallScorecard {
+        const criteria = rubric.criteria.map(c => {
+            const verdict = verdicts[c.id];
+            const result = RESULTS.includes(verdict?.result as CriterionResult) ? verdict!.result as CriterionResult : 'fail';
+            return {
+                id: c.id,
+                description: c.description,
+                weight: c.weight ?? 1,
+                critical: c.critical ?? false,
+                result,
+                evidence: typeof verdict?.evidence === 'string' ? verdict.evidence : undefined,
+            };
+        });
+
+        const applicable = criteria.filter(c => c.result !== 'not_applicable');
+        const totalWeight = applicable.reduce((sum, c) => sum + c.weight, 0);
+        const passedWeight = applicable.filter(c => c.result === 'pass').reduce((sum, c) => sum + c.weight, 0);
+        const score = totalWeight > 0 ? Math.round((passedWeight / totalWeight) * 100) : 100;
+
+        const passingScore = rubric.passingScore ?? config.qa.passingScore;
+        const criticalFailed = criteria.some(c => c.critical && c.result === 'fail');
+
+        return {
+            ...call,
+            score,
+            passed: score >= passingScore && !criticalFailed,
+            passingScore,
+            criteria,
+            gradedAt: Date.now(),
+        };
+    }
+
+    private formatTranscript(transcript: Array<{ speaker: string; text: string; type?: string }>): string {
+        const text = transcript
+            .map(entry => {
+                if (entry.type === 'function_call') return `(${entry.text})`;
+                return `${entry.speaker === 'user' ? 'Caller' : entry.speaker === 'agent' ? 'Agent' : 'System'}: ${entry.text}`;
+            })
+            .join('\n');
+        return text.length > MAX_TRANSCRIPT_CHARS ? text.slice(-MAX_TRANSCRIPT_CHARS) : text;
+    }
+}
+
+// Singleton instance
+let callQAService: CallQAService | null = null;
+
+/**
+ * Get singleton call QA service
+ */
+export function getCallQAService(): CallQAService {
+    if (!callQAService) {
+        callQAService = new CallQAService();
+    }
+    return callQAService;
+}
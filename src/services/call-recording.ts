@@ -0,0 +1,237 @@
+/**
+ * Call Recording Service - Mixed call audio via LiveKit egress
+ *
+ * Handles:
+ * - Starting/stopping an audio-only room composite egress per call
+ *   (caller + agent mixed, written as OGG to an S3-compatible bucket)
+ * - Recording state on callSessions (retention is enforced by a Convex cron)
+ * - Short-lived signed playback/download URLs for the API
+ *
+ * Recording never blocks a call: if egress or Convex fails the call carries on
+ * unrecorded (and the consent message is not played).
+ */
+
+import crypto from 'crypto';
+import { EgressClient, EncodedFileOutput, EncodedFileType, S3Upload } from 'livekit-server-sdk';
+import { config } from '../core/config.js';
+import { getConvexClient, isConvexConfigured } from '../core/convex-client.js';
+import { logger } from '../core/logging.js';
+
+/**
+ * A recording in progress
+ */
+export interface ActiveRecording {
+    egressId: string;
+    recordingKey: string;
+    recordingUrl: string;
+}
+
+/**
+ * Object URL for a key (virtual-hosted on AWS, path-style on custom endpoints)
+ */
+function objectUrl(key: string): URL {
+    const { s3Bucket, s3Region, s3Endpoint, s3ForcePathStyle } = config.recording;
+    const path = key.split('/').map(encodeURIComponent).join('/');
+    if (s3Endpoint || s3ForcePathStyle) {
+        const endpoint = (s3Endpoint || `https://s3.${s3Region}.amazonaws.com`).replace(/\/+$/, '');
+        return new URL(`${endpoint}/${s3Bucket}/${path}`);
+    }
+    return new URL(`https://${s3Bucket}.s3.${s3Region}.amazonaws.com/${path}`);
+}
+
+/**
+ * RFC 3986 encoding required by AWS Signature V4
+ */
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Presign a GET for an object (AWS Signature V4, query-string auth)
+ */
+function presignGetUrl(key: string, expiresInSeconds: number, extraParams: Record<string, string> = {}): string {
+    const { s3Region, s3AccessKeyId, s3SecretAccessKey } = config.recording;
+    const url = objectUrl(key);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${s3Region}/s3/aws4_request`;
+
+    const params: Record<string, string> = {
+        'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+        'X-Amz-Credential': `${s3AccessKeyId}/${scope}`,
+        'X-Amz-Date': amzDate,
+        'X-Amz-Expires': String(expiresInSeconds),
+        'X-Amz-SignedHeaders': 'host',
+        ...extraParams,
+    };
+    const canonicalQuery = Object.keys(params)
+        .sort()
+        .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(params[name])}`)
+        .join('&');
+
+    const canonicalRequest = ['GET', url.pathname, canonicalQuery, `host:${url.host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+    const stringToSign = [
+        'AWS4-HMAC-SHA256',
+        amzDate,
+        scope,
+        crypto.createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n');
+
+    let signingKey: Buffer = crypto.createHmac('sha256', `AWS4${s3SecretAccessKey}`).update(date).digest();
+    for (const part of [s3Region, 's3', 'aws4_request']) {
+        signingKey = crypto.createHmac('sha256', signingKey).update(part).digest();
+    }
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+}
+
+/**
+ * Call Recording Service class
+ */
+export class CallRecordingService {
+    private egressClient: EgressClient | null = null;
+
+    /**
+     * True when a bucket and credentials are configured
+     */
+    isConfigured(): boolean {
+        const { s3Bucket, s3AccessKeyId, s3SecretAccessKey } = config.recording;
+        return !!(s3Bucket && s3AccessKeyId && s3SecretAccessKey);
+    }
+
+    private getEgressClient(): EgressClient {
+        if (!this.egressClient) {
+            this.egressClient = new EgressClient(
+                config.livekit.url,
+                config.livekit.apiKey,
+                config.livekit.apiSecret
+            );
+        }
+        return this.egressClient;
+    }
+
+    /**
+     * Start recording a room's mixed audio
+     * @returns The recording, or null if it could not be started
+     */
+    async startRecording(params: {
+        roomName: string;
+        sessionId: string;
+        organizationId: string;
+        retentionDays?: number;
+    }): Promise<ActiveRecording | null> {
+        if (!this.isConfigured()) {
+            logger.warning('Recording requested but RECORDING_S3_* is not configured', { sessionId: params.sessionId });
+            return null;
+        }
+
+        const recording = config.recording;
+        const recordingKey = `recordings/${params.organizationId}/${params.sessionId}.ogg`;
+        const retentionDays = params.retentionDays ?? recording.retentionDays;
+
+        try {
+            const output = new EncodedFileOutput({
+                fileType: EncodedFileType.OGG,
+                filepath: recordingKey,
+                disableManifest: true,
+                output: {
+                    case: 's3',
+                    value: new S3Upload({
+                        bucket: recording.s3Bucket,
+                        region: recording.s3Region,
+                        endpoint: recording.s3Endpoint || '',
+                        accessKey: recording.s3AccessKeyId,
+                        secret: recording.s3SecretAccessKey,
+                        forcePathStyle: recording.s3ForcePathStyle,
+                    }),
+                },
+            });
+
+            const info = await this.getEgressClient().startRoomCompositeEgress(params.roomName, output, { audioOnly: true });
+            const active: ActiveRecording = {
+                egressId: info.egressId,
+                recordingKey,
+                recordingUrl: objectUrl(recordingKey).toString(),
+            };
+
+            if (isConvexConfigured()) {
+                await getConvexClient().mutation('callRecordings:startRecording', {
+                    sessionId: params.sessionId,
+                    egressId: active.egressId,
+                    recordingKey,
+                    recordingUrl: active.recordingUrl,
+                    retentionDays,
+                });
+            }
+
+            logger.info('Call recording started', {
+                sessionId: params.sessionId,
+                egressId: active.egressId,
+                recordingKey,
+                retentionDays,
+            });
+            return active;
+        } catch (error) {
+            logger.error('Failed to start call recording', {
+                sessionId: params.sessionId,
+                roomName: params.roomName,
+                error: (error as Error).message,
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Stop a recording at the end of the call (egress finishes uploading on its own)
+     */
+    async stopRecording(sessionId: string, recording: ActiveRecording): Promise<void> {
+        let status: 'completed' | 'failed' = 'completed';
+
+        try {
+            await this.getEgressClient().stopEgress(recording.egressId);
+        } catch (error) {
+            // Egress also stops by itself when the room closes
+            const message = (error as Error).message;
+            if (!/not found|already|complete|ended/i.test(message)) {
+                status = 'failed';
+                logger.error('Failed to stop call recording', { sessionId, egressId: recording.egressId, error: message });
+            }
+        }
+
+        if (!isConvexConfigured()) return;
+
+        try {
+            await getConvexClient().mutation('callRecordings:finishRecording', { sessionId, status });
+        } catch (error) {
+            logger.error('Failed to record recording status', { sessionId, error: (error as Error).message });
+        }
+    }
+
+    /**
+     * Signed, short-lived links to play or download a recording
+     */
+    getRecordingUrls(recordingKey: string, filename: string): { playbackUrl: string; downloadUrl: string; expiresIn: number } {
+        const expiresIn = config.recording.urlExpirySeconds;
+        return {
+            playbackUrl: presignGetUrl(recordingKey, expiresIn, { 'response-content-type': 'audio/ogg' }),
+            downloadUrl: presignGetUrl(recordingKey, expiresIn, {
+                'response-content-disposition': `attachment; filename="${filename}"`,
+            }),
+            expiresIn,
+        };
+    }
+}
+
+// Singleton instance
+let callRecordingService: CallRecordingService | null = null;
+
+/**
+ * Get singleton call recording service
+ */
+export function getCallRecordingService(): CallRecordingService {
+    if (!callRecordingService) {
+        callRecordingService = new CallRecordingService();
+    }
+    return callRecordingService;
+}
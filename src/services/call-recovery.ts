@@ -0,0 +1,95 @@
+/**
+ * Call Recovery - Startup reconciliation after a worker or job process crash
+ *
+ * Runs once in the worker's main process:
+ * 1. Replays spool files left by dead job processes into callInteractions
+ *    (idempotent - interactions already written by periodic flushes are skipped)
+ * 2. Marks 'active' sessions whose LiveKit room no longer exists as 'failed',
+ *    with a transcript rebuilt from whatever interactions were recovered
+ */
+
+import { RoomServiceClient } from 'livekit-server-sdk';
+import { config } from '../core/config.js';
+import { getConvexClient, isConvexConfigured } from '../core/convex-client.js';
+import { logger } from '../core/logging.js';
+import { getInteractionSpool } from './interaction-spool.js';
+
+// Interactions per replay mutation (keeps each Convex transaction small)
+const REPLAY_BATCH_SIZE = 100;
+
+export interface RecoveryResult {
+    replayedSessions: number;
+    replayedInteractions: number;
+    failedSessions: number;
+}
+
+/**
+ * Replay orphaned spools, then fail active sessions whose call is gone
+ */
+export async function recoverOrphanedCalls(): Promise<RecoveryResult> {
+    const result: RecoveryResult = { replayedSessions: 0, replayedInteractions: 0, failedSessions: 0 };
+    if (!isConvexConfigured()) return result;
+
+    const convex = getConvexClient();
+    const spool = getInteractionSpool();
+
+    // 1. Replay spools
+    for (const orphan of await spool.listOrphaned()) {
+        try {
+            for (let i = 0; i < orphan.interactions.length; i += REPLAY_BATCH_SIZE) {
+                const batch = await convex.mutation('callInteractions:logInteractionsBatch', {
+                    interactions: orphan.interactions.slice(i, i + REPLAY_BATCH_SIZE),
+                });
+                result.replayedInteractions += batch.count;
+            }
+            await spool.removeFile(orphan.file);
+            result.replayedSessions++;
+        } catch (error) {
+            // Left on disk for the next restart
+            logger.warning('Failed to replay interaction spool', {
+                sessionId: orphan.sessionId,
+                error: (error as Error).message,
+            });
+        }
+    }
+
+    // 2. Reconcile sessions still marked active
+    const activeSessions = await convex.query('callSessions:listActive', {}) as Array<{
+        sessionId: string;
+        roomName?: string;
+        startedAt: number;
+    }>;
+    if (activeSessions.length > 0) {
+        const roomService = new RoomServiceClient(config.livekit.url, config.livekit.apiKey, config.livekit.apiSecret);
+        const liveRooms = new Set((await roomService.listRooms()).map(room => room.name));
+        const cutoff = Date.now() - config.session.orphanGraceMs;
+
+        for (const session of activeSessions) {
+            // Without a room there is no way to tell if the call is still running
+            if (!session.roomName || liveRooms.has(session.roomName) || session.startedAt > cutoff) continue;
+
+            try {
+                const outcome = await convex.mutation('callSessions:failOrphanedSession', {
+                    sessionId: session.sessionId,
+                    reason: 'agent_process_lost',
+                });
+                if (outcome.success) {
+                    result.failedSessions++;
+                    logger.info('Orphaned call marked failed', {
+                        sessionId: session.sessionId,
+                        recoveredInteractions: outcome.recoveredInteractions,
+                        slotReleased: outcome.slotReleased,
+                    });
+                }
+            } catch (error) {
+                logger.warning('Failed to reconcile orphaned session', {
+                    sessionId: session.sessionId,
+                    error: (error as Error).message,
+                });
+            }
+        }
+    }
+
+    logger.info('Call recovery complete', { ...result });
+    return result;
+}
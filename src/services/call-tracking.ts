@@ -5,10 +5,14 @@
  * - User message logging (transcriptions)
  * - Agent response logging
  * - Function call tracking
+ * - Provider failover metrics
+ * - Live monitoring feed (turns, tool calls and agent state while the call runs)
+ * - Write-ahead persistence (periodic flushes, local spool when Convex is unreachable)
  * - Conversation history retrieval
  * - Latency metrics
  */
 
+import { config } from '../core/config.js';
 import { getConvexClient, isConvexConfigured } from '../core/convex-client.js';
 import { logger } from '../core/logging.js';
 import {
@@ -17,34 +21,92 @@ import {
     Sentiment,
     ConversationHistory,
 } from '../models/session.js';
+import type { FailoverEvent } from '../plugins/failover.js';
+import { getInteractionSpool, type InteractionSpool, type SpooledInteraction } from './interaction-spool.js';
 
 /**
  * In-memory interaction buffer for fast access
  */
 const interactionBuffer = new Map<string, Interaction[]>();
 
+/**
+ * Interaction IDs already written to callInteractions, per session
+ */
+const persistedIds = new Map<string, Set<string>>();
+
+/**
+ * Process-wide sequence used to build unique interaction IDs
+ */
+let interactionSequence = 0;
+
+/**
+ * Shape written to callInteractions (interactionId makes retries idempotent)
+ */
+function toConvexInteraction(i: Interaction): SpooledInteraction {
+    return {
+        interactionId: i.id,
+        sessionId: i.sessionId,
+        organizationId: i.organizationId,
+        agentId: i.agentId,
+        interactionType: i.interactionType as SpooledInteraction['interactionType'], // 'user_message', 'agent_response' or 'function_call'
+        timestamp: i.timestamp,
+        userInput: i.userInput,
+        agentResponse: i.agentResponse,
+        functionName: i.functionName,
+        functionParams: i.functionParams ? JSON.stringify(i.functionParams) : undefined,
+        functionResult: i.functionResult ? JSON.stringify(i.functionResult) : undefined,
+        latencyMs: i.latencyMs,
+        language: i.language,
+    };
+}
+
+/**
+ * Event published to the live monitoring feed (convex/callLiveEvents.ts)
+ */
+interface LiveCallEvent {
+    sessionId: string;
+    organizationId: string;
+    agentId?: string;
+    eventType: 'user_message' | 'agent_response' | 'function_call' | 'agent_state';
+    text?: string;
+    language?: string;
+    functionName?: string;
+    functionParams?: string;
+    functionResult?: string;
+    state?: string;
+    timestamp: number;
+}
+
 /**
  * Call Tracking Service class
  */
 export class CallTrackingService {
     private convexConfigured: boolean;
     private maxBufferSize: number;
+    private liveMonitoring: boolean;
+    private liveEventQueue: LiveCallEvent[] = [];
+    private liveFlushTimer: NodeJS.Timeout | null = null;
+    private spool: InteractionSpool | null;
+    private persistTimer: NodeJS.Timeout | null = null;
+    private persisting = new Map<string, Promise<number>>();
 
-    constructor(maxBufferSize: number = 500) {
-        this.convexConfigured = isConvexConfigured();
+    /**
+     * @param options.persist - false keeps interactions in memory only (text-mode test runs)
+     */
+    constructor(maxBufferSize: number = 500, options: { persist?: boolean } = {}) {
+        this.convexConfigured = options.persist !== false && isConvexConfigured();
         this.maxBufferSize = maxBufferSize;
+        this.liveMonitoring = this.convexConfigured && config.monitoring.enabled;
+        this.spool = this.convexConfigured ? getInteractionSpool() : null;
 
-        if (!this.convexConfigured) {
+        if (!this.convexConfigured && options.persist !== false) {
             logger.warning('Convex not configured - interactions stored in memory only');
         }
     }
 
     /**
      * Log a user message (speech transcription)
-     */
-    /**
-     * Log a user message (speech transcription)
-     * NOTE: Buffered in memory only - saved to Convex at end of call via flushSessionToConvex()
+     * NOTE: Buffered and spooled - saved to Convex by the periodic flush and flushSessionToConvex()
      */
     async logUserMessage(
         sessionId: string,
@@ -53,10 +115,14 @@ export class CallTrackingService {
         options?: {
             agentId?: string;
             latencyMs?: number;
+            /** Spoken language (BCP-47, e.g. 'hi-IN') */
+            language?: string;
+            /** False for interim transcripts (kept out of the live feed) */
+            isFinal?: boolean;
         }
     ): Promise<void> {
         const interaction: Interaction = {
-            id: `${sessionId}-${Date.now()}-user`,
+            id: this.nextInteractionId(sessionId, 'user'),
             type: InteractionType.USER_MESSAGE,
             content: userInput,
             timestamp: Date.now(), // Epoch ms for Convex v.number()
@@ -66,15 +132,27 @@ export class CallTrackingService {
             interactionType: InteractionType.USER_MESSAGE,
             userInput,
             latencyMs: options?.latencyMs,
+            language: options?.language,
         };
 
         this.addToBuffer(sessionId, interaction);
+        if (options?.isFinal !== false) {
+            this.publishLiveEvent({
+                sessionId,
+                organizationId,
+                agentId: options?.agentId,
+                eventType: 'user_message',
+                text: userInput,
+                language: options?.language,
+                timestamp: interaction.timestamp,
+            });
+        }
         logger.debug('User message buffered', { sessionId, inputLength: userInput.length });
     }
 
     /**
      * Log an agent response
-     * NOTE: Buffered in memory only - saved to Convex at end of call via flushSessionToConvex()
+     * NOTE: Buffered and spooled - saved to Convex by the periodic flush and flushSessionToConvex()
      */
     async logAgentResponse(
         sessionId: string,
@@ -83,10 +161,12 @@ export class CallTrackingService {
         options?: {
             agentId?: string;
             latencyMs?: number;
+            /** Spoken language (BCP-47, e.g. 'hi-IN') */
+            language?: string;
         }
     ): Promise<void> {
         const interaction: Interaction = {
-            id: `${sessionId}-${Date.now()}-agent`,
+            id: this.nextInteractionId(sessionId, 'agent'),
             type: InteractionType.AGENT_RESPONSE,
             content: agentResponse,
             timestamp: Date.now(), // Epoch ms for Convex v.number()
@@ -96,15 +176,25 @@ export class CallTrackingService {
             interactionType: InteractionType.AGENT_RESPONSE,
             agentResponse,
             latencyMs: options?.latencyMs,
+            language: options?.language,
         };
 
         this.addToBuffer(sessionId, interaction);
+        this.publishLiveEvent({
+            sessionId,
+            organizationId,
+            agentId: options?.agentId,
+            eventType: 'agent_response',
+            text: agentResponse,
+            language: options?.language,
+            timestamp: interaction.timestamp,
+        });
         logger.debug('Agent response buffered', { sessionId, responseLength: agentResponse.length });
     }
 
     /**
      * Log a function call (tool use)
-     * NOTE: Buffered in memory only - saved to Convex at end of call via flushSessionToConvex()
+     * NOTE: Buffered and spooled - saved to Convex by the periodic flush and flushSessionToConvex()
      */
     async logFunctionCall(
         sessionId: string,
@@ -118,7 +208,7 @@ export class CallTrackingService {
         }
     ): Promise<void> {
         const interaction: Interaction = {
-            id: `${sessionId}-${Date.now()}-func`,
+            id: this.nextInteractionId(sessionId, 'func'),
             type: InteractionType.FUNCTION_CALL,
             content: `${functionName}(${JSON.stringify(functionParams).substring(0, 100)})`,
             timestamp: Date.now(), // Epoch ms for Convex v.number()
@@ -133,14 +223,98 @@ export class CallTrackingService {
         };
 
         this.addToBuffer(sessionId, interaction);
+        this.publishLiveEvent({
+            sessionId,
+            organizationId,
+            agentId: options?.agentId,
+            eventType: 'function_call',
+            functionName,
+            functionParams: JSON.stringify(functionParams),
+            functionResult: JSON.stringify(functionResult),
+            timestamp: interaction.timestamp,
+        });
         logger.debug('Function call buffered', { sessionId, functionName });
     }
 
     /**
-     * Flush all buffered interactions to Convex at end of call
-     * This is called once when the session ends, replacing per-turn saves
+     * Record an agent state change (listening, thinking, speaking...)
+     * NOTE: Live feed only - not part of the stored transcript
+     */
+    logAgentState(
+        sessionId: string,
+        organizationId: string,
+        state: string,
+        options?: {
+            agentId?: string;
+        }
+    ): void {
+        this.publishLiveEvent({
+            sessionId,
+            organizationId,
+            agentId: options?.agentId,
+            eventType: 'agent_state',
+            state,
+            timestamp: Date.now(),
+        });
+    }
+
+    /**
+     * Record a mid-call provider failover (or recovery) in callMetrics
+     * NOTE: Written immediately (not buffered) so outages are visible while calls are live
+     */
+    async logFailover(
+        sessionId: string,
+        organizationId: string,
+        event: FailoverEvent,
+        options?: {
+            agentId?: string;
+        }
+    ): Promise<void> {
+        if (!this.convexConfigured) return;
+
+        const convex = getConvexClient();
+        await convex.mutation('callMetrics:logMetric', {
+            sessionId,
+            organizationId,
+            agentId: options?.agentId,
+            metricType: 'failover',
+            metricName: `${event.modality}_${event.reason === 'recovered' ? 'recovered' : 'failover'}`,
+            value: 1,
+            unit: 'count',
+            metadata: JSON.stringify(event),
+        });
+        logger.debug('Failover recorded', { sessionId, modality: event.modality, from: event.from, to: event.to });
+    }
+
+    /**
+     * Write interactions of in-progress calls that are not in Convex yet
+     * Runs every config.session.flushIntervalMs; a failed write stays in the buffer
+     * and spool and is retried on the next run
+     */
+    async persistAllPending(): Promise<void> {
+        for (const sessionId of [...interactionBuffer.keys()]) {
+            try {
+                const count = await this.persistPending(sessionId);
+                if (count > 0) {
+                    logger.debug('Interactions persisted', { sessionId, count });
+                }
+            } catch (error) {
+                logger.warning('Periodic interaction flush failed - kept in spool', {
+                    sessionId,
+                    error: (error as Error).message,
+                });
+            }
+        }
+    }
+
+    /**
+     * Flush the rest of a session to Convex at end of call
+     * Writes interactions the periodic flush has not saved yet, then the unified transcript.
+     * On failure the buffer and spool are kept for a retry (or replay on worker restart)
      */
     async flushSessionToConvex(sessionId: string): Promise<{ success: boolean; count: number }> {
+        await this.flushLiveEvents();
+
         const interactions = this.getFromBuffer(sessionId);
         
         if (interactions.length === 0) {
@@ -157,35 +331,13 @@ export class CallTrackingService {
         try {
             const convex = getConvexClient();
             
-            // 1. Save individual interactions to callInteractions table
-            const interactionsForDb = interactions.map(i => ({
-                sessionId: i.sessionId,
-                organizationId: i.organizationId,
-                agentId: i.agentId,
-                interactionType: i.interactionType, // Already in correct format: 'user_message', 'agent_response', 'function_call'
-                timestamp: i.timestamp,
-                userInput: i.userInput,
-                agentResponse: i.agentResponse,
-                functionName: i.functionName,
-                functionParams: i.functionParams ? JSON.stringify(i.functionParams) : undefined,
-                functionResult: i.functionResult ? JSON.stringify(i.functionResult) : undefined,
-                latencyMs: i.latencyMs,
-            }));
-
-            logger.info('Attempting to save interactions to callInteractions table', {
-                sessionId,
-                count: interactionsForDb.length,
-                sampleInteraction: interactionsForDb[0],
-            });
-
-            const result = await convex.mutation('callInteractions:logInteractionsBatch', {
-                interactions: interactionsForDb,
-            });
+            // 1. Save remaining interactions to callInteractions table
+            const saved = await this.persistPending(sessionId);
 
             logger.info('✅ Individual interactions saved to callInteractions table', {
                 sessionId,
-                count: result.count,
-                ids: result.ids.slice(0, 3), // Show first 3 IDs
+                count: interactions.length,
+                savedAtEnd: saved,
             });
             
             // 2. Build unified transcript for callSessions
@@ -196,6 +348,7 @@ export class CallTrackingService {
                             i.interactionType === InteractionType.AGENT_RESPONSE ? 'agent' : 'system',
                     text: i.userInput || i.agentResponse || `Function: ${i.functionName}`,
                 };
+                if (i.language) entry.language = i.language;
 
                 // Add type for function calls
                 if (i.interactionType === InteractionType.FUNCTION_CALL) {
@@ -236,6 +389,7 @@ export class CallTrackingService {
                 });
             }
 
+            await this.spool?.remove(sessionId);
             this.clearBuffer(sessionId);
             return { success: true, count: interactions.length };
         } catch (error) {
@@ -245,7 +399,7 @@ export class CallTrackingService {
                 error: (error as Error).message,
                 stack: (error as Error).stack,
             });
-            // Keep buffer in case of retry - don't clear
+            // Keep buffer and spool in case of retry - don't clear
             return { success: false, count: interactions.length };
         }
     }
@@ -408,7 +562,102 @@ export class CallTrackingService {
     }
 
     /**
-     * Add interaction to buffer
+     * Queue an event for the live monitoring feed
+     * Events are written in small batches (config.monitoring.flushIntervalMs) to keep
+     * Convex writes per call low while dashboards stay near real time
+     */
+    private publishLiveEvent(event: LiveCallEvent): void {
+        if (!this.liveMonitoring) return;
+
+        this.liveEventQueue.push(event);
+        if (!this.liveFlushTimer) {
+            this.liveFlushTimer = setTimeout(() => {
+                this.flushLiveEvents().catch(() => {});
+            }, config.monitoring.flushIntervalMs);
+        }
+    }
+
+    /**
+     * Write queued live events to Convex
+     * Best-effort: a failed batch is dropped (the full transcript is still flushed at end of call)
+     */
+    async flushLiveEvents(): Promise<void> {
+        if (this.liveFlushTimer) {
+            clearTimeout(this.liveFlushTimer);
+            this.liveFlushTimer = null;
+        }
+        if (this.liveEventQueue.length === 0) return;
+
+        const events = this.liveEventQueue.splice(0, this.liveEventQueue.length);
+        try {
+            const convex = getConvexClient();
+            await convex.mutation('callLiveEvents:appendBatch', { events });
+        } catch (error) {
+            logger.warning('Failed to publish live call events', {
+                count: events.length,
+                error: (error as Error).message,
+            });
+        }
+    }
+
+    /**
+     * Write a session's buffered interactions that are not yet in Convex
+     * Concurrent calls for the same session are serialized; throws if Convex is unreachable
+     * @returns Number of interactions written
+     */
+    private async persistPending(sessionId: string): Promise<number> {
+        let inFlight: Promise<number> | undefined;
+        while ((inFlight = this.persisting.get(sessionId))) {
+            await inFlight.catch(() => {});
+        }
+
+        const persisted = persistedIds.get(sessionId);
+        const pending = this.getFromBuffer(sessionId).filter(i => !persisted?.has(i.id));
+        if (pending.length === 0) return 0;
+
+        const write = (async () => {
+            await getConvexClient().mutation('callInteractions:logInteractionsBatch', {
+                interactions: pending.map(toConvexInteraction),
+            });
+
+            // The session may have been cleared while the write was in flight
+            if (interactionBuffer.has(sessionId)) {
+                const ids = persistedIds.get(sessionId) || new Set<string>();
+                pending.forEach(i => ids.add(i.id));
+                persistedIds.set(sessionId, ids);
+            }
+            return pending.length;
+        })();
+
+        this.persisting.set(sessionId, write);
+        try {
+            return await write;
+        } finally {
+            this.persisting.delete(sessionId);
+        }
+    }
+
+    /**
+     * Start the periodic flush (first interaction logged in this process)
+     */
+    private ensurePersistTimer(): void {
+        if (this.persistTimer || !this.convexConfigured) return;
+
+        this.persistTimer = setInterval(() => {
+            this.persistAllPending().catch(() => {});
+        }, config.session.flushIntervalMs);
+        this.persistTimer.unref();
+    }
+
+    /**
+     * Unique, stable ID for a new interaction (used as the callInteractions idempotency key)
+     */
+    private nextInteractionId(sessionId: string, kind: 'user' | 'agent' | 'func'): string {
+        return `${sessionId}-${Date.now()}-${++interactionSequence}-${kind}`;
+    }
+
+    /**
+     * Add interaction to buffer (and the write-ahead spool)
      */
     private addToBuffer(sessionId: string, interaction: Interaction): void {
         if (!interactionBuffer.has(sessionId)) {
@@ -417,6 +666,8 @@ export class CallTrackingService {
 
         const buffer = interactionBuffer.get(sessionId)!;
         buffer.push(interaction);
+        this.spool?.append(toConvexInteraction(interaction));
+        this.ensurePersistTimer();
 
         // Trim if over max size
         if (buffer.length > this.maxBufferSize) {
@@ -440,6 +691,7 @@ export class CallTrackingService {
      */
     clearBuffer(sessionId: string): void {
         interactionBuffer.delete(sessionId);
+        persistedIds.delete(sessionId);
     }
 }
 
@@ -0,0 +1,324 @@
+/**
+ * Campaign Service - Outbound calling campaigns
+ *
+ * Handles:
+ * - Parsing contact list CSVs (phone + name + per-contact variables)
+ * - The dialer loop: claims contacts queued by the Convex scheduler cron,
+ *   places the calls and reports busy / no-answer / answered back for retries
+ *
+ * Scheduling decisions (calling windows, pacing, retry timing) live in
+ * convex/campaigns.ts so several API instances can share one campaign.
+ */
+
+import { getConvexClient, isConvexConfigured } from '../core/convex-client.js';
+import { logger } from '../core/logging.js';
+import { getCallLimitService } from './call-limits.js';
+import {
+    createOutboundCallHandler,
+    generateSIPRoomName,
+    isOutboundEnabled,
+    validatePhoneNumber,
+    TransferOutcome,
+} from '../telephony/index.js';
+
+/**
+ * Contact parsed from a CSV upload
+ */
+export interface CampaignContactInput {
+    phoneNumber: string;
+    name?: string;
+    timezone?: string;
+    variables?: Record<string, string>;
+}
+
+/**
+ * Result of parsing a contact CSV
+ */
+export interface ContactCsvParseResult {
+    contacts: CampaignContactInput[];
+    errors: Array<{ row: number; error: string }>;
+}
+
+/**
+ * Contact claimed from Convex for dialing
+ */
+interface ClaimedContact {
+    contactId: string;
+    campaignId: string;
+    organizationId: string;
+    agentId: string;
+    phoneNumber: string;
+    name?: string;
+    variables?: string;
+    attempt: number;
+}
+
+/**
+ * Column names accepted for each well-known field (case-insensitive)
+ */
+const PHONE_COLUMNS = ['phone', 'phone_number', 'phonenumber', 'number', 'mobile'];
+const NAME_COLUMNS = ['name', 'customer_name', 'full_name'];
+const TIMEZONE_COLUMNS = ['timezone', 'time_zone', 'tz'];
+
+/**
+ * Dialer defaults
+ */
+const DIALER_POLL_INTERVAL_MS = 5000;
+const DIALER_MAX_IN_FLIGHT = 10;
+const LIMIT_REQUEUE_DELAY_SECONDS = 60;
+
+/**
+ * Split one CSV line into fields (handles quoted fields and escaped quotes)
+ */
+function splitCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (inQuotes) {
+            if (char === '"' && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                current += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            fields.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    fields.push(current.trim());
+
+    return fields;
+}
+
+/**
+ * Parse a contact list CSV
+ *
+ * The header row must include a phone column (phone, phone_number, number, mobile).
+ * name / timezone columns are optional; every other column becomes a per-contact
+ * variable available to the agent.
+ *
+ * @param csv - Raw CSV text
+ * @param defaultCountryCode - Prepended to numbers without one (e.g. "+91")
+ */
+export function parseContactsCsv(csv: string, defaultCountryCode?: string): ContactCsvParseResult {
+    const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+    const contacts: CampaignContactInput[] = [];
+    const errors: Array<{ row: number; error: string }> = [];
+
+    if (lines.length === 0) {
+        errors.push({ row: 0, error: 'CSV is empty' });
+        return { contacts, errors };
+    }
+
+    const headers = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+    const phoneIndex = headers.findIndex(h => PHONE_COLUMNS.includes(h));
+    const nameIndex = headers.findIndex(h => NAME_COLUMNS.includes(h));
+    const timezoneIndex = headers.findIndex(h => TIMEZONE_COLUMNS.includes(h));
+
+    if (phoneIndex === -1) {
+        errors.push({ row: 1, error: `Header must include a phone column (${PHONE_COLUMNS.join(', ')})` });
+        return { contacts, errors };
+    }
+
+    for (let i = 1; i < lines.length; i++) {
+        const fields = splitCsvLine(lines[i]);
+        let rawPhone = fields[phoneIndex] || '';
+
+        if (defaultCountryCode && rawPhone && !rawPhone.startsWith('+')) {
+            rawPhone = defaultCountryCode + rawPhone.replace(/^0+/, '');
+        }
+
+        const phone = validatePhoneNumber(rawPhone);
+        if (!phone.isValid) {
+            errors.push({ row: i + 1, error: `Invalid phone number: ${fields[phoneIndex] || '(empty)'}` });
+            continue;
+        }
+
+        const variables: Record<string, string> = {};
+        headers.forEach((header, index) => {
+            if (index === phoneIndex || index === nameIndex || index === timezoneIndex) return;
+            if (header && fields[index]) variables[header] = fields[index];
+        });
+
+        contacts.push({
+            phoneNumber: phone.e164!,
+            name: nameIndex >= 0 ? fields[nameIndex] || undefined : undefined,
+            timezone: timezoneIndex >= 0 ? fields[timezoneIndex] || undefined : undefined,
+            variables: Object.keys(variables).length > 0 ? variables : undefined,
+        });
+    }
+
+    return { contacts, errors };
+}
+
+/**
+ * Campaign Dialer
+ *
+ * Polls Convex for queued contacts and dials them, at most
+ * DIALER_MAX_IN_FLIGHT at a time per process. Per-campaign pacing is
+ * enforced by the scheduler, per-agent limits by the call limit service.
+ */
+export class CampaignDialer {
+    private timer: NodeJS.Timeout | null = null;
+    private inFlight = new Set<string>();
+    private polling = false;
+
+    /**
+     * Start polling for queued contacts
+     */
+    start(intervalMs: number = DIALER_POLL_INTERVAL_MS): void {
+        if (this.timer) return;
+
+        if (!isConvexConfigured() || !isOutboundEnabled()) {
+            logger.info('Campaign dialer disabled (Convex or outbound calling not configured)');
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.poll().catch(error => {
+                logger.error('Campaign dialer poll failed', { error: (error as Error).message });
+            });
+        }, intervalMs);
+
+        logger.info('Campaign dialer started', { intervalMs });
+    }
+
+    /**
+     * Stop polling (calls already dialing finish on their own)
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+            logger.info('Campaign dialer stopped', { inFlight: this.inFlight.size });
+        }
+    }
+
+    /**
+     * Claim queued contacts and dial them
+     */
+    async poll(): Promise<void> {
+        if (this.polling) return;
+        const capacity = DIALER_MAX_IN_FLIGHT - this.inFlight.size;
+        if (capacity <= 0) return;
+
+        this.polling = true;
+        try {
+            const claimed: ClaimedContact[] = await getConvexClient().mutation('campaigns:claimQueuedContacts', {
+                limit: capacity,
+            });
+
+            for (const contact of claimed) {
+                this.inFlight.add(contact.contactId);
+                this.dial(contact)
+                    .catch(error => {
+                        logger.error('Campaign dial failed', {
+                            contactId: contact.contactId,
+                            error: (error as Error).message,
+                        });
+                    })
+                    .finally(() => this.inFlight.delete(contact.contactId));
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    /**
+     * Place one campaign call and report the outcome
+     */
+    private async dial(contact: ClaimedContact): Promise<void> {
+        const convex = getConvexClient();
+        const callLimits = getCallLimitService();
+        const roomName = generateSIPRoomName(contact.organizationId, contact.agentId);
+
+        const admission = await callLimits.acquireSlot({
+            agentId: contact.agentId,
+            organizationId: contact.organizationId,
+            slotKey: roomName,
+            direction: 'outbound',
+        });
+
+        if (!admission.allowed) {
+            // Agent is busy - try again later without burning an attempt
+            await convex.mutation('campaigns:requeueContact', {
+                contactId: contact.contactId,
+                delaySeconds: LIMIT_REQUEUE_DELAY_SECONDS,
+            });
+            return;
+        }
+
+        let variables: Record<string, string> | undefined;
+        try {
+            variables = contact.variables ? JSON.parse(contact.variables) : undefined;
+        } catch {
+            variables = undefined;
+        }
+
+        logger.info('Dialing campaign contact', {
+            campaignId: contact.campaignId,
+            contactId: contact.contactId,
+            attempt: contact.attempt,
+            roomName,
+        });
+
+        const outboundHandler = createOutboundCallHandler();
+        const response = await outboundHandler.initiateCall({
+            organizationId: contact.organizationId,
+            agentId: contact.agentId,
+            phoneNumber: contact.phoneNumber,
+            roomName,
+            waitUntilAnswered: true,
+            metadata: {
+                campaignId: contact.campaignId,
+                campaignContactId: contact.contactId,
+                customerName: contact.name,
+                customData: variables,
+            },
+        });
+
+        if (!response.success) {
+            await callLimits.releaseSlot(roomName);
+        }
+
+        const outcome = response.success ? TransferOutcome.ANSWERED : (response.outcome || TransferOutcome.FAILED);
+
+        await convex.mutation('campaigns:recordDialResult', {
+            contactId: contact.contactId,
+            outcome,
+            roomName,
+            sipStatusCode: response.sipStatusCode,
+            error: response.error,
+        });
+
+        logger.info('Campaign dial finished', {
+            campaignId: contact.campaignId,
+            contactId: contact.contactId,
+            outcome,
+            sipStatusCode: response.sipStatusCode,
+        });
+    }
+}
+
+// Singleton instance
+let campaignDialer: CampaignDialer | null = null;
+
+/**
+ * Get singleton campaign dialer
+ */
+export function getCampaignDialer(): CampaignDialer {
+    if (!campaignDialer) {
+        campaignDialer = new CampaignDialer();
+    }
+    return campaignDialer;
+}
@@ -0,0 +1,277 @@
+/**
+ * Catalog Import
+ *
+ * Turns spreadsheet rows into catalog items. The first non-empty row of each
+ * sheet is the header; columns are recognized by common names:
+ * - name (item, product, dish), category (section, course), description
+ * - price (cost, rate, mrp) - "₹120", "Rs. 1,200" and "$5.50" all work
+ * - variants (sizes, options, portions) - "Half: 140, Full: 240", or one
+ *   price column per variant ("price half", "Full Price")
+ * - available (in stock, status) - "no", "sold out", "out of stock" = unavailable
+ * - tags (dietary, labels, food type) plus dietary columns (veg, vegan, jain...)
+ *   holding yes/no or the tag itself
+ *
+ * Without a category column, a row with only a name is a section heading for
+ * the rows below it, and in a workbook with several sheets the sheet name is
+ * the category. Any other column is kept as an item attribute.
+ *
+ * @module catalog/import
+ */
+
+import {
+    CATALOG_LIMITS,
+    CatalogImportError,
+    type CatalogItemInput,
+    type CatalogParseResult,
+    type CatalogVariant,
+    type SpreadsheetSheet,
+} from './types.js';
+
+const COLUMN_ALIASES: Record<string, string[]> = {
+    name: ['name', 'item', 'item name', 'product', 'product name', 'dish', 'dish name', 'title'],
+    category: ['category', 'section', 'course', 'group', 'department'],
+    description: ['description', 'desc', 'details'],
+    price: ['price', 'cost', 'rate', 'amount', 'mrp', 'unit price', 'selling price'],
+    currency: ['currency'],
+    variants: ['variants', 'sizes', 'size', 'options', 'portions'],
+    available: ['available', 'availability', 'in stock', 'stock', 'status'],
+    tags: ['tags', 'dietary', 'diet', 'labels', 'food type', 'veg non veg'],
+};
+
+/**
+ * Dietary columns that become tags
+ */
+const DIETARY_COLUMNS: Record<string, string> = {
+    'veg': 'vegetarian',
+    'vegetarian': 'vegetarian',
+    'is veg': 'vegetarian',
+    'non veg': 'non-vegetarian',
+    'vegan': 'vegan',
+    'jain': 'jain',
+    'halal': 'halal',
+    'gluten free': 'gluten-free',
+    'dairy free': 'dairy-free',
+    'nut free': 'nut-free',
+    'spicy': 'spicy',
+};
+
+/**
+ * Tag spellings folded into one canonical tag
+ */
+const TAG_SYNONYMS: Record<string, string> = {
+    'veg': 'vegetarian',
+    'veggie': 'vegetarian',
+    'pure veg': 'vegetarian',
+    'non veg': 'non-vegetarian',
+    'nonveg': 'non-vegetarian',
+    'non vegetarian': 'non-vegetarian',
+    'gf': 'gluten-free',
+    'gluten free': 'gluten-free',
+    'dairy free': 'dairy-free',
+    'nut free': 'nut-free',
+    'hot': 'spicy',
+};
+
+const CURRENCY_SYMBOLS: Array<[RegExp, string]> = [
+    [/₹|\brs\.?|\binr\b/i, 'INR'],
+    [/\$|\busd\b/i, 'USD'],
+    [/€|\beur\b/i, 'EUR'],
+    [/£|\bgbp\b/i, 'GBP'],
+    [/\baed\b|\bdhs?\b/i, 'AED'],
+];
+
+const UNAVAILABLE_VALUES = new Set([
+    'no', 'n', 'false', '0', 'off', 'unavailable', 'not available', 'out of stock',
+    'sold out', 'soldout', 'inactive', 'discontinued', 'na', 'n/a',
+]);
+
+const TRUE_VALUES = new Set(['yes', 'y', 'true', '1', 'x', '✓', '✔']);
+
+function normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Canonical form of a tag
+ */
+export function normalizeTag(tag: string): string {
+    const key = tag.toLowerCase().replace(/[-_]+/g, ' ').replace(/\s+/g, ' ').trim();
+    return TAG_SYNONYMS[key] ?? key.replace(/ /g, '-');
+}
+
+/**
+ * Parse a price cell ("₹1,200", "Rs. 99.50", "$5") - undefined when there is no number
+ */
+export function parsePrice(value: string): { price?: number; currency?: string } {
+    const match = value.replace(/,(?=\d{2,3}\b)/g, '').match(/\d+(?:\.\d+)?/);
+    const currency = CURRENCY_SYMBOLS.find(([pattern]) => pattern.test(value))?.[1];
+    return { price: match ? parseFloat(match[0]) : undefined, currency };
+}
+
+/**
+ * Parse a variants cell: "Half: 140, Full: 240", "Small 120 / Large 180", "Regular | Large"
+ */
+export function parseVariants(value: string): CatalogVariant[] {
+    let parts = value.split(/\s*[;|\/\n]\s*/);
+    if (parts.length === 1) parts = value.split(/\s*,\s*(?=\D)/);
+
+    const variants: CatalogVariant[] = [];
+    for (const part of parts) {
+        const match = part.match(/^(.*?)[\s:=\-–(]*(?:₹|rs\.?|inr|\$|€|£)?\s*(\d[\d,]*(?:\.\d+)?)\)?$/i);
+        const name = (match ? match[1] : part).replace(/[\s:=\-–(]+$/, '').trim();
+        if (!name) continue;
+        variants.push({ name, price: match ? parseFloat(match[2].replace(/,/g, '')) : undefined });
+    }
+    return variants;
+}
+
+/**
+ * Variant name of a per-variant price column ("price half" → "half", "full price" → "full")
+ */
+function variantPriceColumn(header: string): string | null {
+    const match = header.match(/^(?:price|cost|rate) (.+)$/) ?? header.match(/^(.+) (?:price|cost|rate)$/);
+    if (!match || COLUMN_ALIASES.price.includes(header)) return null;
+    return match[1];
+}
+
+function titleCase(text: string): string {
+    return text.replace(/\b\w/g, c => c.toUpperCase());
+}
+
+interface ColumnMap {
+    fields: Partial<Record<keyof typeof COLUMN_ALIASES, number>>;
+    dietary: Array<{ index: number; tag: string }>;
+    variantPrices: Array<{ index: number; name: string }>;
+    attributes: Array<{ index: number; name: string }>;
+}
+
+/**
+ * Work out which column holds which field
+ */
+function mapColumns(headers: string[]): ColumnMap {
+    const map: ColumnMap = { fields: {}, dietary: [], variantPrices: [], attributes: [] };
+
+    headers.forEach((raw, index) => {
+        const header = normalizeHeader(raw);
+        if (!header) return;
+
+        const field = Object.keys(COLUMN_ALIASES).find(key =>
+            map.fields[key] === undefined && COLUMN_ALIASES[key].includes(header)
+        );
+        if (field) {
+            map.fields[field] = index;
+        } else if (DIETARY_COLUMNS[header]) {
+            map.dietary.push({ index, tag: DIETARY_COLUMNS[header] });
+        } else if (variantPriceColumn(header)) {
+            map.variantPrices.push({ index, name: titleCase(variantPriceColumn(header)!) });
+        } else {
+            map.attributes.push({ index, name: raw.trim() });
+        }
+    });
+
+    return map;
+}
+
+/**
+ * Parse spreadsheet sheets into catalog items
+ *
+ * @param sheets - Sheets from readSpreadsheet()
+ * @param defaultCurrency - Currency for prices without a symbol (e.g. "INR")
+ * @throws CatalogImportError when no sheet has a name column or no items are found
+ */
+export function parseCatalogSheets(sheets: SpreadsheetSheet[], defaultCurrency?: string): CatalogParseResult {
+    const items = new Map<string, CatalogItemInput>();
+    const errors: CatalogParseResult['errors'] = [];
+    let duplicates = 0;
+    let sheetsWithItems = 0;
+
+    for (const sheet of sheets) {
+        const headerIndex = sheet.rows.findIndex(row => row.some(Boolean));
+        if (headerIndex === -1) continue;
+
+        const columns = mapColumns(sheet.rows[headerIndex]);
+        if (columns.fields.name === undefined) {
+            errors.push({
+                sheet: sheet.name,
+                row: headerIndex + 1,
+                error: `No item name column (expected one of: ${COLUMN_ALIASES.name.join(', ')})`,
+            });
+            continue;
+        }
+        sheetsWithItems++;
+
+        const cell = (row: string[], index?: number) => (index === undefined ? '' : (row[index] ?? '').trim());
+        const { fields } = columns;
+        let sectionCategory = sheets.length > 1 ? sheet.name : undefined;
+
+        for (let i = headerIndex + 1; i < sheet.rows.length; i++) {
+            const row = sheet.rows[i];
+            const filled = row.filter(Boolean);
+            if (filled.length === 0) continue;
+
+            const name = cell(row, fields.name);
+            if (!name) {
+                errors.push({ sheet: sheet.name, row: i + 1, error: 'Missing item name' });
+                continue;
+            }
+
+            // A lone name without a category column is a section heading ("STARTERS")
+            if (fields.category === undefined && filled.length === 1) {
+                sectionCategory = titleCase(name.toLowerCase().replace(/[:\-–]+$/, '').trim());
+                continue;
+            }
+
+            const { price, currency: priceCurrency } = parsePrice(cell(row, fields.price));
+            const variants = cell(row, fields.variants) ? parseVariants(cell(row, fields.variants)) : [];
+            for (const column of columns.variantPrices) {
+                const variantPrice = parsePrice(cell(row, column.index)).price;
+                if (variantPrice !== undefined) variants.push({ name: column.name, price: variantPrice });
+            }
+
+            const availability = cell(row, fields.available).toLowerCase();
+            const tags = new Set(
+                cell(row, fields.tags).split(/[,;|\/]/).map(t => t.trim()).filter(Boolean).map(normalizeTag)
+            );
+            for (const column of columns.dietary) {
+                // yes/no, or the tag itself ("Veg" / "Non-Veg" in a veg column)
+                const value = cell(row, column.index).toLowerCase();
+                if (TRUE_VALUES.has(value)) tags.add(column.tag);
+                else if (value && !UNAVAILABLE_VALUES.has(value)) tags.add(normalizeTag(value));
+            }
+
+            const attributes: Record<string, string> = {};
+            for (const column of columns.attributes) {
+                const value = cell(row, column.index);
+                if (value) attributes[column.name] = value;
+            }
+
+            const item: CatalogItemInput = {
+                name,
+                category: cell(row, fields.category) || sectionCategory,
+                description: cell(row, fields.description) || undefined,
+                price,
+                currency: cell(row, fields.currency).toUpperCase() || priceCurrency || defaultCurrency,
+                variants,
+                available: !UNAVAILABLE_VALUES.has(availability),
+                tags: [...tags],
+                attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+            };
+
+            const key = `${(item.category ?? '').toLowerCase()}|${name.toLowerCase()}`;
+            if (items.has(key)) duplicates++;
+            items.set(key, item);
+        }
+    }
+
+    if (sheetsWithItems === 0) {
+        throw new CatalogImportError(errors[0]?.error ?? 'The file has no rows');
+    }
+    if (items.size === 0) {
+        throw new CatalogImportError('No catalog items found below the header row');
+    }
+    if (items.size > CATALOG_LIMITS.maxItems) {
+        throw new CatalogImportError(`Catalogs are limited to ${CATALOG_LIMITS.maxItems} items (file has ${items.size})`);
+    }
+
+    return { items: [...items.values()], errors, duplicates };
+}
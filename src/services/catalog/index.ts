@@ -0,0 +1,46 @@
+/**
+ * Catalog Module
+ *
+ * Structured catalogs (menus, price lists) imported from CSV / XLSX into
+ * Convex and answered with exact lookups by the lookup_catalog tool, instead
+ * of recovering prices from vector search snippets.
+ *
+ * @module catalog
+ */
+
+// Types
+export {
+    CatalogImportError,
+    CATALOG_LIMITS,
+    CATALOG_FILE_TYPES,
+    CATALOG_SORTS,
+} from './types.js';
+
+export type {
+    CatalogSort,
+    SpreadsheetSheet,
+    CatalogVariant,
+    CatalogItemInput,
+    CatalogItem,
+    CatalogParseResult,
+    CatalogFilters,
+    CatalogMatch,
+    CatalogLookupResult,
+} from './types.js';
+
+// Import
+export { readSpreadsheet, parseCsv, parseXlsx } from './spreadsheet.js';
+export { parseCatalogSheets, parsePrice, parseVariants, normalizeTag } from './import.js';
+
+// Lookup
+export {
+    lookupCatalog,
+    catalogCategories,
+    itemPrices,
+    formatCatalogPrice,
+    formatCatalogResult,
+} from './lookup.js';
+
+// Service
+export { importCatalog, toCatalogItem, CatalogLookup } from './service.js';
+export type { CatalogImportOptions, CatalogImportResult } from './service.js';
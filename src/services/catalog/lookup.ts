@@ -0,0 +1,263 @@
+/**
+ * Catalog Lookup
+ *
+ * Filters a catalog by name, category, dietary tags, price range and
+ * availability. Names and categories match fuzzily - partial names and the
+ * spelling drift of speech-to-text ("biriyani" for "biryani") still find the
+ * item - while prices, tags and availability are exact, so answers come from
+ * the structured rows rather than from retrieved text snippets.
+ *
+ * @module catalog/lookup
+ */
+
+import { normalizeTag } from './import.js';
+import {
+    CATALOG_LIMITS,
+    type CatalogFilters,
+    type CatalogItem,
+    type CatalogLookupResult,
+    type CatalogMatch,
+} from './types.js';
+
+// Minimum similarity for a word to count as the same word
+const WORD_MATCH_THRESHOLD = 0.75;
+
+// Minimum similarity for a category name to match
+const CATEGORY_MATCH_THRESHOLD = 0.8;
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'of', 'and', 'with', 'some', 'any', 'your', 'you', 'have', 'do', 'is', 'are', 'there', 'item', 'items']);
+
+/**
+ * Tags satisfied by other tags (a vegan dish is also vegetarian)
+ */
+const IMPLIED_BY: Record<string, string[]> = {
+    'vegetarian': ['vegan', 'jain'],
+    'dairy-free': ['vegan'],
+    'egg-free': ['vegan'],
+};
+
+const CURRENCY_PREFIXES: Record<string, string> = {
+    INR: '₹',
+    USD: '$',
+    EUR: '€',
+    GBP: '£',
+};
+
+function normalizeText(text: string): string {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+}
+
+function tokenize(text: string): string[] {
+    return normalizeText(text).split(' ').filter(word => word && !STOP_WORDS.has(word));
+}
+
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Similarity of two words (1 = identical); a word the other starts with counts as a near match
+ */
+function wordSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (a.length >= 3 && b.startsWith(a)) return 0.95;
+    return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Average best-word similarity of the query words against the target words
+ * (0 when any query word has no match)
+ */
+function wordsScore(queryWords: string[], targetWords: string[]): number {
+    if (queryWords.length === 0 || targetWords.length === 0) return 0;
+
+    let total = 0;
+    for (const word of queryWords) {
+        const best = Math.max(...targetWords.map(target => wordSimilarity(word, target)));
+        if (best < WORD_MATCH_THRESHOLD) return 0;
+        total += best;
+    }
+    return total / queryWords.length;
+}
+
+/**
+ * Relevance of an item to a query (0 = no match, 1 = exact name)
+ */
+function scoreItem(item: CatalogItem, query: string): number {
+    const normalizedQuery = normalizeText(query);
+    const normalizedName = normalizeText(item.name);
+    if (normalizedQuery === normalizedName) return 1;
+    if (` ${normalizedName} `.includes(` ${normalizedQuery} `)) return 0.9;
+
+    const queryWords = tokenize(query);
+    const nameScore = wordsScore(queryWords, tokenize(item.name));
+    if (nameScore > 0) return 0.85 * nameScore;
+
+    // Words that describe the item rather than name it ("paneer" in a description, "spicy" as a tag)
+    const otherWords = tokenize([
+        item.category ?? '',
+        item.description ?? '',
+        ...item.tags,
+        ...item.variants.map(variant => variant.name),
+    ].join(' '));
+    return 0.6 * wordsScore(queryWords, otherWords);
+}
+
+/**
+ * Every price of an item (base price and variant prices)
+ */
+export function itemPrices(item: CatalogItem): number[] {
+    const prices = item.variants.map(variant => variant.price);
+    if (item.price !== undefined) prices.unshift(item.price);
+    return prices.filter((price): price is number => price !== undefined);
+}
+
+function hasTag(item: CatalogItem, tag: string): boolean {
+    return item.tags.includes(tag) || (IMPLIED_BY[tag] ?? []).some(implied => item.tags.includes(implied));
+}
+
+/**
+ * Categories matching a requested category name (best matches only)
+ */
+function resolveCategories(categories: string[], requested: string): string[] {
+    const requestedWords = tokenize(requested);
+    const scored = categories.map(category => {
+        const exact = normalizeText(category) === normalizeText(requested);
+        return { category, score: exact ? 1 : wordsScore(requestedWords, tokenize(category)) };
+    });
+
+    const best = Math.max(0, ...scored.map(s => s.score));
+    if (best < CATEGORY_MATCH_THRESHOLD) return [];
+    // "starters" matches both "Veg Starters" and "Non-Veg Starters"
+    return scored.filter(s => s.score >= best - 0.05).map(s => s.category);
+}
+
+/**
+ * Distinct categories in catalog order
+ */
+export function catalogCategories(items: CatalogItem[]): string[] {
+    return [...new Set(items.map(item => item.category).filter((c): c is string => !!c))];
+}
+
+/**
+ * Filter and rank catalog items
+ */
+export function lookupCatalog(items: CatalogItem[], filters: CatalogFilters): CatalogLookupResult {
+    let candidates = items;
+    let category: string | undefined;
+
+    if (filters.category) {
+        const categories = resolveCategories(catalogCategories(items), filters.category);
+        if (categories.length === 0) {
+            return { matches: [], total: 0, suggestions: catalogCategories(items) };
+        }
+        category = categories.join(', ');
+        candidates = candidates.filter(item => item.category && categories.includes(item.category));
+    }
+
+    const tags = (filters.tags ?? []).map(normalizeTag).filter(Boolean);
+    if (tags.length > 0) {
+        candidates = candidates.filter(item => tags.every(tag => hasTag(item, tag)));
+    }
+
+    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+        const min = filters.minPrice ?? 0;
+        const max = filters.maxPrice ?? Infinity;
+        candidates = candidates.filter(item => itemPrices(item).some(price => price >= min && price <= max));
+    }
+
+    if (filters.availableOnly) {
+        candidates = candidates.filter(item => item.available);
+    }
+
+    let matches: CatalogMatch[] = candidates.map(item => ({ item, score: 1 }));
+    if (filters.query?.trim()) {
+        matches = candidates
+            .map(item => ({ item, score: scoreItem(item, filters.query!) }))
+            .filter(match => match.score > 0);
+    }
+
+    const lowest = (match: CatalogMatch) => Math.min(...itemPrices(match.item), Infinity);
+    const highest = (match: CatalogMatch) => Math.max(...itemPrices(match.item), -Infinity);
+    if (filters.sort === 'price_asc') {
+        matches.sort((a, b) => (lowest(a) - lowest(b)) || 0);
+    } else if (filters.sort === 'price_desc') {
+        matches.sort((a, b) => (highest(b) - highest(a)) || 0);
+    } else {
+        // Stable sort keeps catalog order among equal scores
+        matches.sort((a, b) => b.score - a.score);
+    }
+
+    const limit = Math.min(Math.max(1, filters.limit ?? CATALOG_LIMITS.defaultLookupLimit), CATALOG_LIMITS.maxLookupLimit);
+    return { matches: matches.slice(0, limit), total: matches.length, category };
+}
+
+/**
+ * Format a price for the LLM ("₹240", "$5.50", "AED 20")
+ */
+export function formatCatalogPrice(price: number, currency?: string): string {
+    const amount = Number.isInteger(price) ? String(price) : price.toFixed(2);
+    if (!currency) return amount;
+    const prefix = CURRENCY_PREFIXES[currency];
+    return prefix ? `${prefix}${amount}` : `${currency} ${amount}`;
+}
+
+/**
+ * One line per item: name, category, price and variants, tags, availability, description
+ */
+function formatItem(item: CatalogItem): string {
+    let line = `- ${item.name}`;
+    if (item.category) line += ` [${item.category}]`;
+
+    const prices: string[] = [];
+    if (item.price !== undefined) prices.push(formatCatalogPrice(item.price, item.currency));
+    const variants = item.variants.map(variant =>
+        variant.price !== undefined ? `${variant.name} ${formatCatalogPrice(variant.price, item.currency)}` : variant.name
+    );
+    if (variants.length > 0) prices.push(`(${variants.join(', ')})`);
+    line += `: ${prices.length > 0 ? prices.join(' ') : 'price not listed'}`;
+
+    if (item.tags.length > 0) line += ` - ${item.tags.join(', ')}`;
+    if (!item.available) line += ' - CURRENTLY UNAVAILABLE';
+    if (item.description) line += ` - ${item.description}`;
+    return line;
+}
+
+/**
+ * Format a lookup result as the tool response
+ */
+export function formatCatalogResult(result: CatalogLookupResult, filters: CatalogFilters): string {
+    if (result.suggestions) {
+        return `There is no "${filters.category}" category. Categories: ${result.suggestions.join(', ')}.`;
+    }
+    if (result.matches.length === 0) {
+        return 'No items in the catalog match that. Say it is not on the menu / price list rather than guessing.';
+    }
+
+    const shown = result.total > result.matches.length ? `, showing ${result.matches.length}` : '';
+    const header = `Found ${result.total} matching item${result.total === 1 ? '' : 's'}${shown}` +
+        (result.category ? ` in ${result.category}` : '') + ':';
+
+    return [
+        header,
+        ...result.matches.map(match => formatItem(match.item)),
+        'Quote these prices exactly as listed.',
+    ].join('\n');
+}
@@ -0,0 +1,169 @@
+/**
+ * Catalog Service
+ *
+ * Imports catalog files into Convex and loads an agent's catalog for lookups.
+ *
+ * @module catalog/service
+ */
+
+import { getConvexClient } from '../../core/convex-client.js';
+import { logger } from '../../core/logging.js';
+import { parseCatalogSheets } from './import.js';
+import { catalogCategories, lookupCatalog } from './lookup.js';
+import { readSpreadsheet } from './spreadsheet.js';
+import {
+    CATALOG_LIMITS,
+    CatalogImportError,
+    type CatalogFilters,
+    type CatalogItem,
+    type CatalogItemInput,
+    type CatalogLookupResult,
+    type CatalogParseResult,
+} from './types.js';
+
+/**
+ * Catalog import options
+ */
+export interface CatalogImportOptions {
+    organizationId: string;
+    agentId: string;
+    fileName: string;
+    data: Buffer;
+    /** replace (default): items missing from the file are removed; merge: they are kept */
+    mode?: 'replace' | 'merge';
+    /** Currency for prices without a symbol */
+    currency?: string;
+}
+
+/**
+ * Catalog import outcome
+ */
+export interface CatalogImportResult {
+    items: number;
+    added: number;
+    updated: number;
+    removed: number;
+    duplicates: number;
+    categories: string[];
+    errors: CatalogParseResult['errors'];
+}
+
+/**
+ * Map a Convex catalog item to the service shape
+ */
+export function toCatalogItem(doc: any): CatalogItem {
+    let attributes: Record<string, string> | undefined;
+    try {
+        attributes = doc.attributes ? JSON.parse(doc.attributes) : undefined;
+    } catch {
+        attributes = undefined;
+    }
+
+    return {
+        id: doc._id,
+        name: doc.name,
+        category: doc.category,
+        description: doc.description,
+        price: doc.price,
+        currency: doc.currency,
+        variants: doc.variants || [],
+        available: doc.available,
+        tags: doc.tags || [],
+        attributes,
+    };
+}
+
+/**
+ * Import a CSV / XLSX catalog for an agent
+ * @throws CatalogImportError when the file has no usable items
+ */
+export async function importCatalog(options: CatalogImportOptions): Promise<CatalogImportResult> {
+    if (options.data.length > CATALOG_LIMITS.maxFileBytes) {
+        throw new CatalogImportError(`Catalog files are limited to ${CATALOG_LIMITS.maxFileBytes} bytes`);
+    }
+
+    const sheets = await readSpreadsheet(options.fileName, options.data);
+    const parsed = parseCatalogSheets(sheets, options.currency);
+    const convex = getConvexClient();
+    const importId = crypto.randomUUID();
+
+    let added = 0;
+    let updated = 0;
+    for (let i = 0; i < parsed.items.length; i += CATALOG_LIMITS.upsertBatchSize) {
+        const batch = parsed.items.slice(i, i + CATALOG_LIMITS.upsertBatchSize).map((item: CatalogItemInput) => ({
+            ...item,
+            attributes: item.attributes ? JSON.stringify(item.attributes) : undefined,
+        }));
+        const result = await convex.mutation('catalog:upsertItems', {
+            organizationId: options.organizationId,
+            agentId: options.agentId,
+            importId,
+            items: batch,
+        });
+        added += result.added;
+        updated += result.updated;
+    }
+
+    // Only after every batch landed, so a failed import never empties the catalog
+    let removed = 0;
+    if ((options.mode ?? 'replace') === 'replace') {
+        const result = await convex.mutation('catalog:removeItemsNotInImport', {
+            agentId: options.agentId,
+            importId,
+        });
+        removed = result.removed;
+    }
+
+    const categories = catalogCategories(parsed.items.map(item => ({ ...item, id: '' })));
+    logger.info('Catalog imported', {
+        agentId: options.agentId,
+        fileName: options.fileName,
+        items: parsed.items.length,
+        added,
+        updated,
+        removed,
+        rowErrors: parsed.errors.length,
+    });
+
+    return {
+        items: parsed.items.length,
+        added,
+        updated,
+        removed,
+        duplicates: parsed.duplicates,
+        categories,
+        errors: parsed.errors,
+    };
+}
+
+/**
+ * An agent's catalog, loaded once per call so lookups add no round trip
+ * (edits made during the call show up from the next call)
+ */
+export class CatalogLookup {
+    private items: CatalogItem[] = [];
+
+    constructor(private readonly agentId: string) {}
+
+    /**
+     * Load the catalog
+     * @returns Number of items
+     */
+    async load(): Promise<number> {
+        const docs = await getConvexClient().query('catalog:listByAgent', { agentId: this.agentId });
+        this.items = (docs || []).map(toCatalogItem);
+        return this.items.length;
+    }
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    get categories(): string[] {
+        return catalogCategories(this.items);
+    }
+
+    lookup(filters: CatalogFilters): CatalogLookupResult {
+        return lookupCatalog(this.items, filters);
+    }
+}
@@ -0,0 +1,254 @@
+/**
+ * Spreadsheet Reading
+ *
+ * Reads CSV and XLSX files into rows of cell text:
+ * - CSV: RFC 4180 quoting (quoted commas, quotes and line breaks), comma,
+ *   semicolon or tab delimited (detected from the header line)
+ * - XLSX: every visible sheet, shared and inline strings, booleans and numbers
+ *   (formulas contribute their cached value)
+ *
+ * @module catalog/spreadsheet
+ */
+
+import * as path from 'path';
+import JSZip from 'jszip';
+import { Parser } from 'htmlparser2';
+import { CatalogImportError, type SpreadsheetSheet } from './types.js';
+
+/**
+ * Pick the delimiter used in the header line
+ */
+function detectDelimiter(csv: string): string {
+    const header = csv.slice(0, csv.search(/\r?\n|$/));
+    const counts = [',', ';', '\t'].map(d => ({ d, n: header.split(d).length - 1 }));
+    counts.sort((a, b) => b.n - a.n);
+    return counts[0].n > 0 ? counts[0].d : ',';
+}
+
+/**
+ * Parse CSV text into rows
+ */
+export function parseCsv(csv: string): string[][] {
+    const text = csv.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(text);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field.trim() === '') {
+            field = '';
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field.trim());
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field.trim());
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field.trim());
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+/**
+ * Walk an XML document, calling back for open tags, text and close tags
+ */
+function walkXml(
+    xml: string,
+    handlers: {
+        open?: (name: string, attribs: Record<string, string>) => void;
+        text?: (text: string) => void;
+        close?: (name: string) => void;
+    }
+): void {
+    const parser = new Parser({
+        onopentag: (name, attribs) => handlers.open?.(name, attribs),
+        ontext: (text) => handlers.text?.(text),
+        onclosetag: (name) => handlers.close?.(name),
+    }, { xmlMode: true, decodeEntities: true });
+    parser.write(xml);
+    parser.end();
+}
+
+/**
+ * Zero-based column index of a cell reference ("C7" → 2)
+ */
+function columnIndex(ref: string): number {
+    const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+    let index = 0;
+    for (const letter of letters) {
+        index = index * 26 + (letter.charCodeAt(0) - 64);
+    }
+    return index - 1;
+}
+
+/**
+ * Read the shared string table
+ */
+function parseSharedStrings(xml: string): string[] {
+    const strings: string[] = [];
+    let current = '';
+    let inText = false;
+    let inPhonetic = false;
+
+    walkXml(xml, {
+        open: (name) => {
+            if (name === 'si') current = '';
+            else if (name === 'rPh') inPhonetic = true;
+            else if (name === 't' && !inPhonetic) inText = true;
+        },
+        text: (text) => {
+            if (inText) current += text;
+        },
+        close: (name) => {
+            if (name === 't') inText = false;
+            else if (name === 'rPh') inPhonetic = false;
+            else if (name === 'si') strings.push(current);
+        },
+    });
+
+    return strings;
+}
+
+/**
+ * Read a worksheet into rows
+ */
+function parseWorksheet(xml: string, sharedStrings: string[]): string[][] {
+    const rows: string[][] = [];
+    let row: string[] | null = null;
+    let cellType = '';
+    let cellColumn = 0;
+    let value = '';
+    let capture = false;
+
+    walkXml(xml, {
+        open: (name, attribs) => {
+            if (name === 'row') {
+                const rowNumber = Number(attribs.r) || rows.length + 1;
+                while (rows.length < rowNumber - 1) rows.push([]);
+                row = [];
+            } else if (name === 'c' && row) {
+                cellType = attribs.t ?? 'n';
+                cellColumn = attribs.r ? columnIndex(attribs.r) : row.length;
+                value = '';
+            } else if (name === 'v' || (name === 't' && cellType === 'inlineStr')) {
+                capture = true;
+            }
+        },
+        text: (text) => {
+            if (capture) value += text;
+        },
+        close: (name) => {
+            if (name === 'v' || name === 't') {
+                capture = false;
+            } else if (name === 'c' && row) {
+                let text = value;
+                if (cellType === 's') {
+                    text = sharedStrings[Number(value)] ?? '';
+                } else if (cellType === 'b') {
+                    text = value === '1' ? 'TRUE' : 'FALSE';
+                } else if (cellType === 'e') {
+                    text = '';
+                } else if (cellType === 'n' && value !== '') {
+                    // Drop binary float noise (0.1 + 0.2 style) from stored numbers
+                    text = String(Number(Number(value).toPrecision(12)));
+                }
+                while (row.length < cellColumn) row.push('');
+                row[cellColumn] = text.trim();
+            } else if (name === 'row' && row) {
+                rows.push(row);
+                row = null;
+            }
+        },
+    });
+
+    return rows;
+}
+
+/**
+ * Read every visible sheet of an XLSX workbook
+ */
+export async function parseXlsx(data: Buffer): Promise<SpreadsheetSheet[]> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(data);
+    } catch {
+        throw new CatalogImportError('File is not a valid XLSX workbook');
+    }
+
+    const read = async (file: string) => zip.file(file)?.async('string');
+    const workbookXml = await read('xl/workbook.xml');
+    if (!workbookXml) {
+        throw new CatalogImportError('File is not a valid XLSX workbook (no xl/workbook.xml)');
+    }
+
+    // Sheet name → relationship ID → worksheet file
+    const sheetRefs: Array<{ name: string; relId: string }> = [];
+    walkXml(workbookXml, {
+        open: (name, attribs) => {
+            if (name === 'sheet' && attribs.state !== 'hidden' && attribs.state !== 'veryHidden') {
+                sheetRefs.push({ name: attribs.name, relId: attribs['r:id'] });
+            }
+        },
+    });
+
+    const targets = new Map<string, string>();
+    walkXml(await read('xl/_rels/workbook.xml.rels') ?? '', {
+        open: (name, attribs) => {
+            if (name === 'Relationship') {
+                const target = attribs.Target.startsWith('/')
+                    ? attribs.Target.slice(1)
+                    : path.posix.join('xl', attribs.Target);
+                targets.set(attribs.Id, target);
+            }
+        },
+    });
+
+    const sharedStringsXml = await read('xl/sharedStrings.xml');
+    const sharedStrings = sharedStringsXml ? parseSharedStrings(sharedStringsXml) : [];
+
+    const sheets: SpreadsheetSheet[] = [];
+    for (const ref of sheetRefs) {
+        const sheetXml = await read(targets.get(ref.relId) ?? '');
+        if (sheetXml) {
+            sheets.push({ name: ref.name, rows: parseWorksheet(sheetXml, sharedStrings) });
+        }
+    }
+    return sheets;
+}
+
+/**
+ * Read a CSV or XLSX file
+ * @throws CatalogImportError for other file types or unreadable workbooks
+ */
+export async function readSpreadsheet(fileName: string, data: Buffer): Promise<SpreadsheetSheet[]> {
+    const ext = path.extname(fileName).toLowerCase();
+    if (ext === '.csv') {
+        return [{ name: path.basename(fileName, ext), rows: parseCsv(data.toString('utf8')) }];
+    }
+    if (ext === '.xlsx') {
+        return parseXlsx(data);
+    }
+    throw new CatalogImportError(`Catalogs are imported from .csv or .xlsx files, not ${ext || fileName}`);
+}
@@ -0,0 +1,126 @@
+/**
+ * Catalog Types
+ *
+ * Type definitions for structured catalogs (menus, price lists) imported from
+ * CSV / XLSX and queried by the lookup_catalog tool.
+ *
+ * @module catalog/types
+ */
+
+/**
+ * Custom error for imports that produce no usable catalog
+ */
+export class CatalogImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CatalogImportError';
+    }
+}
+
+/**
+ * Catalog limits
+ */
+export const CATALOG_LIMITS = {
+    maxFileBytes: 10 * 1024 * 1024,
+    maxItems: 5000,
+    upsertBatchSize: 100,   // Items per Convex mutation
+    defaultLookupLimit: 8,  // Items returned to the LLM (keeps answers short)
+    maxLookupLimit: 25,
+};
+
+/**
+ * File types a catalog can be imported from
+ */
+export const CATALOG_FILE_TYPES = ['.csv', '.xlsx'] as const;
+
+/**
+ * Sort orders for lookups
+ */
+export const CATALOG_SORTS = ['relevance', 'price_asc', 'price_desc'] as const;
+export type CatalogSort = typeof CATALOG_SORTS[number];
+
+/**
+ * One sheet of a spreadsheet (a CSV is a single sheet)
+ */
+export interface SpreadsheetSheet {
+    name: string;
+    rows: string[][];
+}
+
+/**
+ * A size / portion / option with its own price
+ */
+export interface CatalogVariant {
+    name: string;
+    price?: number;
+}
+
+/**
+ * An item as imported (matches the catalog:upsertItems item shape, minus JSON encoding)
+ */
+export interface CatalogItemInput {
+    name: string;
+    category?: string;
+    description?: string;
+    price?: number;
+    currency?: string;
+    variants: CatalogVariant[];
+    available: boolean;
+    tags: string[];
+    /** Spreadsheet columns that are not catalog fields (e.g. "spice level", "serves") */
+    attributes?: Record<string, string>;
+}
+
+/**
+ * A stored catalog item
+ */
+export interface CatalogItem extends CatalogItemInput {
+    id: string;
+}
+
+/**
+ * Result of parsing a catalog file
+ */
+export interface CatalogParseResult {
+    items: CatalogItemInput[];
+    errors: Array<{ sheet: string; row: number; error: string }>;
+    /** Rows that repeated an earlier category + name (the later row wins) */
+    duplicates: number;
+}
+
+/**
+ * Lookup filters (all optional, combined with AND)
+ */
+export interface CatalogFilters {
+    /** Item name or words from it - typos and partial names are tolerated */
+    query?: string;
+    category?: string;
+    /** Every tag must match, e.g. ["vegetarian", "gluten-free"] */
+    tags?: string[];
+    minPrice?: number;
+    maxPrice?: number;
+    availableOnly?: boolean;
+    sort?: CatalogSort;
+    limit?: number;
+}
+
+/**
+ * A matching item with its relevance (1 = exact name)
+ */
+export interface CatalogMatch {
+    item: CatalogItem;
+    score: number;
+}
+
+/**
+ * Lookup result
+ */
+export interface CatalogLookupResult {
+    matches: CatalogMatch[];
+    /** Matching items before the limit was applied */
+    total: number;
+    /** Category the filter resolved to (after fuzzy matching) */
+    category?: string;
+    /** Known categories, when the requested one matched nothing */
+    suggestions?: string[];
+}
@@ -10,6 +10,8 @@
 // Core Services
 export * from './agent-config.js';
 export * from './call-tracking.js';
+export * from './call-limits.js';
+export * from './campaigns.js';
 export * from './session.js';
 
 // Document & Knowledge Services
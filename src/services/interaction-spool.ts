@@ -0,0 +1,176 @@
+/**
+ * Interaction Spool - Write-ahead log of call interactions on local disk
+ *
+ * Every interaction is appended to <spoolDir>/<sessionId>.<bootId>.<pid>.jsonl
+ * as it is logged, before it reaches Convex. The file is removed once the call
+ * has been persisted. Files left behind by a job process that died (OOM kill,
+ * FFI panic) or that could not reach Convex are replayed when the worker
+ * restarts (see call-recovery.ts).
+ *
+ * The pid alone can't tell a dead writer from a live one: a restarted container
+ * reuses the same low pids. The boot ID is generated once per worker start and
+ * inherited by its job processes through the environment, so every file from an
+ * earlier boot is an orphan whatever its pid. Each worker needs its own spool dir.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../core/config.js';
+import { logger } from '../core/logging.js';
+
+/**
+ * Interaction as written to callInteractions (callInteractions:logInteractionsBatch)
+ */
+export interface SpooledInteraction {
+    interactionId: string;
+    sessionId: string;
+    organizationId: string;
+    agentId?: string;
+    interactionType: 'user_message' | 'agent_response' | 'function_call';
+    timestamp: number;
+    userInput?: string;
+    agentResponse?: string;
+    functionName?: string;
+    functionParams?: string;
+    functionResult?: string;
+    latencyMs?: number;
+    language?: string;
+}
+
+/**
+ * Spool file left behind by a process that is no longer running
+ */
+export interface OrphanedSpool {
+    sessionId: string;
+    file: string;
+    interactions: SpooledInteraction[];
+}
+
+const SPOOL_FILE_PATTERN = /^(.+)\.([a-z0-9]+)\.(\d+)\.jsonl$/;
+
+const BOOT_ID_ENV = 'CALL_SPOOL_BOOT_ID';
+
+/**
+ * ID of this worker boot
+ * Set in the worker's main process on import, before any job process is forked.
+ */
+const bootId = process.env[BOOT_ID_ENV] || (process.env[BOOT_ID_ENV] =
+    Date.now().toString(36) + Math.random().toString(36).slice(2, 8));
+
+/**
+ * True if a process with this pid is still running
+ */
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0); // Signal 0 only checks existence
+        return true;
+    } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+/**
+ * Interaction Spool class
+ */
+export class InteractionSpool {
+    private dir: string;
+    private ready: Promise<void> | null = null;
+    private writes = new Map<string, Promise<void>>();
+
+    constructor(dir: string = config.session.spoolDir) {
+        this.dir = path.resolve(dir);
+    }
+
+    private fileFor(sessionId: string): string {
+        return path.join(this.dir, `${sessionId}.${bootId}.${process.pid}.jsonl`);
+    }
+
+    private ensureDir(): Promise<void> {
+        if (!this.ready) {
+            this.ready = fs.mkdir(this.dir, { recursive: true }).then(() => undefined);
+        }
+        return this.ready;
+    }
+
+    /**
+     * Append an interaction (writes per session are kept in order)
+     */
+    append(interaction: SpooledInteraction): Promise<void> {
+        const { sessionId } = interaction;
+        const line = JSON.stringify(interaction) + '\n';
+
+        const previous = this.writes.get(sessionId) || Promise.resolve();
+        const write = previous
+            .then(() => this.ensureDir())
+            .then(() => fs.appendFile(this.fileFor(sessionId), line))
+            .catch(error => {
+                logger.warning('Failed to spool interaction', { sessionId, error: (error as Error).message });
+            });
+
+        this.writes.set(sessionId, write);
+        return write;
+    }
+
+    /**
+     * Delete a session's spool once everything in it is persisted
+     */
+    async remove(sessionId: string): Promise<void> {
+        await this.writes.get(sessionId);
+        this.writes.delete(sessionId);
+        await this.removeFile(this.fileFor(sessionId));
+    }
+
+    async removeFile(file: string): Promise<void> {
+        await fs.rm(file, { force: true });
+    }
+
+    /**
+     * Spool files whose writing process has exited
+     * Files from an earlier boot are always orphans; files from this boot are
+     * orphans once their job process is gone. A torn last line (process killed
+     * mid-write) is skipped.
+     */
+    async listOrphaned(): Promise<OrphanedSpool[]> {
+        let names: string[];
+        try {
+            names = await fs.readdir(this.dir);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const orphaned: OrphanedSpool[] = [];
+        for (const name of names) {
+            const match = name.match(SPOOL_FILE_PATTERN);
+            if (!match) continue;
+            if (match[2] === bootId && isProcessAlive(parseInt(match[3], 10))) continue;
+
+            const file = path.join(this.dir, name);
+            const interactions: SpooledInteraction[] = [];
+            for (const line of (await fs.readFile(file, 'utf8')).split('\n')) {
+                if (!line.trim()) continue;
+                try {
+                    interactions.push(JSON.parse(line));
+                } catch {
+                    logger.debug('Skipping torn spool line', { file });
+                }
+            }
+
+            orphaned.push({ sessionId: match[1], file, interactions });
+        }
+        return orphaned;
+    }
+}
+
+// Singleton instance
+let interactionSpool: InteractionSpool | null = null;
+
+/**
+ * Get singleton interaction spool
+ */
+export function getInteractionSpool(): InteractionSpool {
+    if (!interactionSpool) {
+        interactionSpool = new InteractionSpool();
+    }
+    return interactionSpool;
+}
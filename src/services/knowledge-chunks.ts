@@ -0,0 +1,91 @@
+/**
+ * Knowledge Chunks - turns parsed documents and crawled pages into chunks
+ *
+ * Shared by every ingestion path (file upload, URL ingestion, source syncs) so
+ * the same content always produces the same chunks - source syncs rely on that
+ * to detect which chunks changed.
+ */
+
+import { getChunkingService, analyzeContentType } from './chunking.js';
+import type { ParsedDocument } from './document-parser/index.js';
+import type { CrawledPage } from './web-crawler/index.js';
+import { detectTextLanguage } from './voice-knowledge/language.js';
+
+/**
+ * A chunk ready for preview or persistence
+ */
+export interface KnowledgeChunk {
+    text: string;
+    chunkIndex: number;
+    metadata: Record<string, any>;
+}
+
+/**
+ * Record each chunk's language (cross-lingual retrieval)
+ */
+export function tagChunkLanguages<T extends { text: string; metadata: any }>(chunks: T[]): T[] {
+    return chunks.map(c => ({
+        ...c,
+        metadata: { ...c.metadata, language: c.metadata?.language ?? detectTextLanguage(c.text) },
+    }));
+}
+
+/**
+ * Chunk a parsed file - structure-aware when the parser found elements, plain text otherwise
+ */
+export function chunkParsedDocument(
+    parsed: Pick<ParsedDocument, 'content' | 'structuredElements'>,
+    fileName: string,
+    sourceType: string
+): KnowledgeChunk[] {
+    const chunkingService = getChunkingService();
+    const structuredElements = parsed.structuredElements || [];
+    let chunks: KnowledgeChunk[];
+
+    if (structuredElements.length > 0) {
+        const contentType = analyzeContentType(structuredElements);
+        chunks = chunkingService.chunkDocumentIntelligent(
+            structuredElements,
+            contentType,
+            [fileName]
+        );
+    } else {
+        const cleanedText = chunkingService.cleanText(parsed.content);
+        chunks = chunkingService.chunkText(cleanedText, {
+            filename: fileName,
+            sourceType,
+        });
+    }
+
+    return tagChunkLanguages(chunks);
+}
+
+/**
+ * Chunk crawled pages, keeping each page's URL and title as context
+ */
+export function chunkCrawledPages(pages: CrawledPage[], sourceType: string): KnowledgeChunk[] {
+    const chunkingService = getChunkingService();
+    const chunks: KnowledgeChunk[] = [];
+
+    for (const page of pages) {
+        let pageChunks = chunkingService.chunkDocumentIntelligent(
+            page.elements,
+            analyzeContentType(page.elements),
+            [page.title]
+        );
+        // Short pages fall below the structured chunker's minimum size
+        if (pageChunks.length === 0) {
+            const pageText = page.elements.map(e => e.markdown || e.text).join('\n\n');
+            pageChunks = chunkingService.chunkText(chunkingService.cleanText(pageText), {
+                filename: page.title,
+                sourceType,
+            });
+        }
+        chunks.push(...pageChunks.map(c => ({
+            ...c,
+            metadata: { ...c.metadata, sourceUrl: page.url, pageTitle: page.title },
+        })));
+    }
+
+    return tagChunkLanguages(chunks.map((c, index) => ({ ...c, chunkIndex: index })));
+}
@@ -0,0 +1,397 @@
+/**
+ * Knowledge Source Sync - keeps source-backed documents up to date
+ *
+ * Handles:
+ * - Fetching a source: URL (page / sitemap / crawl), Google Drive export link,
+ *   or a newly uploaded version of a file
+ * - Change detection: the whole source is hashed first (unchanged content costs
+ *   nothing), then each chunk is keyed by its content hash so only new chunks
+ *   are embedded (rag:upsertChunks) and vanished ones are deleted
+ * - The sync worker loop: claims sources queued by the Convex cron (or a
+ *   manual sync) and reports each run back for the sync history
+ *
+ * Scheduling lives in convex/knowledgeSources.ts so several API instances can
+ * share the queue.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConvexClient, isConvexConfigured } from '../core/convex-client.js';
+import { logger } from '../core/logging.js';
+import { findStaleChunkKeys, generateChunkKey, generateContentHash } from './chunking/deduplication.js';
+import { getDocumentParser, MIME_TYPES } from './document-parser/index.js';
+import { chunkCrawledPages, chunkParsedDocument, type KnowledgeChunk } from './knowledge-chunks.js';
+import { crawlWebsite, CRAWLER_USER_AGENT, fetchPublic, readBodyLimited, type CrawlMode } from './web-crawler/index.js';
+
+/**
+ * Source kinds
+ */
+export const SOURCE_TYPES = ['url', 'drive', 'upload'] as const;
+export type SourceType = typeof SOURCE_TYPES[number];
+
+/**
+ * Source claimed from Convex for syncing
+ */
+export interface ClaimedSourceSync {
+    runId: string;
+    sourceId: string;
+    organizationId: string;
+    agentId: string;
+    name: string;
+    type: SourceType;
+    url?: string;
+    crawlMode?: string;
+    maxPages?: number;
+    maxDepth?: number;
+    sourceType: string;
+    documentId: string;
+    /** Hash of the content at the last successful sync */
+    contentHash?: string;
+}
+
+/**
+ * A file to sync from (uploaded or downloaded)
+ */
+export interface SourceFile {
+    fileName: string;
+    data: Buffer;
+}
+
+/**
+ * Outcome of one sync
+ */
+export interface SourceSyncResult {
+    status: 'completed' | 'unchanged' | 'failed';
+    chunksTotal: number;
+    chunksAdded: number;
+    chunksRemoved: number;
+    chunksUnchanged: number;
+    error?: string;
+}
+
+/**
+ * Sync worker defaults
+ */
+const SYNC_POLL_INTERVAL_MS = 30000;
+const SYNC_MAX_IN_FLIGHT = 2;
+const UPSERT_BATCH_SIZE = 50;
+const DOWNLOAD_TIMEOUT_MS = 60000;
+const MAX_DOWNLOAD_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Turn a Google Docs / Sheets / Slides / Drive sharing link into a file download link
+ * Links that are already export or download links are returned unchanged.
+ */
+export function toDriveExportUrl(url: string): string {
+    if (/\/export\?|[?&]export=download/.test(url)) return url;
+
+    const docs = url.match(/docs\.google\.com\/(document|spreadsheets|presentation)\/d\/([\w-]+)/);
+    if (docs) {
+        const format = { document: 'docx', spreadsheets: 'xlsx', presentation: 'pdf' }[docs[1] as 'document' | 'spreadsheets' | 'presentation'];
+        return `https://docs.google.com/${docs[1]}/d/${docs[2]}/export?format=${format}`;
+    }
+
+    const file = url.match(/drive\.google\.com\/(?:file\/d\/|open\?id=)([\w-]+)/);
+    if (file) {
+        return `https://drive.google.com/uc?export=download&id=${file[1]}`;
+    }
+    return url;
+}
+
+/**
+ * File name of a download, from Content-Disposition or the content type
+ */
+function downloadFileName(response: Response, fallbackName: string): string {
+    const disposition = response.headers.get('content-disposition') || '';
+    const encoded = disposition.match(/filename\*=UTF-8''([^;]+)/i);
+    if (encoded) return decodeURIComponent(encoded[1]);
+    const plain = disposition.match(/filename="?([^";]+)"?/i);
+    if (plain) return plain[1];
+
+    const contentType = (response.headers.get('content-type') || '').split(';')[0].trim();
+    const extension = Object.entries(MIME_TYPES).find(([, mime]) => mime === contentType)?.[0] ?? '.txt';
+    return `${fallbackName}${extension}`;
+}
+
+/**
+ * Download a Drive export link (any other link is fetched as-is, so it gets
+ * the same public-address checks as URL ingestion)
+ */
+async function downloadDriveFile(url: string, name: string): Promise<SourceFile> {
+    const { response } = await fetchPublic(toDriveExportUrl(url), {
+        headers: { 'User-Agent': CRAWLER_USER_AGENT },
+        signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+        await response.body?.cancel();
+        throw new Error(`Download failed: HTTP ${response.status} (is the file shared with "anyone with the link"?)`);
+    }
+
+    const data = await readBodyLimited(response, MAX_DOWNLOAD_BYTES);
+    return { fileName: downloadFileName(response, name.replace(/[^\w.-]+/g, '_')), data };
+}
+
+/**
+ * Parse and chunk a file
+ */
+async function chunkFile(file: SourceFile, sourceType: string, runId: string): Promise<KnowledgeChunk[]> {
+    const tempPath = path.join(process.env.TEMP || '/tmp', `${runId}_${path.basename(file.fileName)}`);
+    fs.writeFileSync(tempPath, file.data);
+
+    try {
+        const parsed = await getDocumentParser().parseFile(tempPath);
+        if (!parsed.content) {
+            throw new Error('Document parsing returned empty content');
+        }
+        return chunkParsedDocument(parsed, file.fileName, sourceType);
+    } finally {
+        try {
+            fs.unlinkSync(tempPath);
+        } catch {
+            // Ignore cleanup errors
+        }
+    }
+}
+
+/**
+ * Fetch and chunk a source's current content
+ */
+async function loadSourceChunks(
+    source: ClaimedSourceSync,
+    upload?: SourceFile
+): Promise<{ chunks: KnowledgeChunk[]; bytes: number; pagesFetched?: number; fileName?: string; fileType?: string }> {
+    if (source.type === 'url') {
+        const crawl = await crawlWebsite({
+            url: source.url!,
+            mode: (source.crawlMode as CrawlMode) || 'page',
+            maxPages: source.maxPages,
+            maxDepth: source.maxDepth,
+        });
+        return {
+            chunks: chunkCrawledPages(crawl.pages, source.sourceType),
+            bytes: crawl.totalBytes,
+            pagesFetched: crawl.pages.length,
+            fileType: '.html',
+        };
+    }
+
+    const file = source.type === 'drive'
+        ? await downloadDriveFile(source.url!, source.name)
+        : upload;
+    if (!file) {
+        throw new Error('Uploaded sources need a file to sync from');
+    }
+
+    return {
+        chunks: await chunkFile(file, source.sourceType, source.runId),
+        bytes: file.data.length,
+        fileName: file.fileName,
+        fileType: path.extname(file.fileName),
+    };
+}
+
+/**
+ * Sync one claimed source and report the run to Convex
+ *
+ * @param upload - The new file version (upload sources only)
+ */
+export async function syncKnowledgeSource(source: ClaimedSourceSync, upload?: SourceFile): Promise<SourceSyncResult> {
+    const convex = getConvexClient();
+    const startTime = Date.now();
+    logger.info('Syncing knowledge source', { sourceId: source.sourceId, type: source.type, runId: source.runId });
+
+    try {
+        const { chunks, bytes, pagesFetched, fileName, fileType } = await loadSourceChunks(source, upload);
+        if (chunks.length === 0) {
+            throw new Error('Source produced no content');
+        }
+
+        const contentHash = generateContentHash(chunks.map(c => c.text).join('\n'));
+        const existingKeys: string[] = await convex.query('knowledgeSources:listChunkKeys', {
+            documentId: source.documentId,
+        });
+
+        // Whole source unchanged - nothing to embed
+        if (contentHash === source.contentHash && existingKeys.length > 0) {
+            const result: SourceSyncResult = {
+                status: 'unchanged',
+                chunksTotal: existingKeys.length,
+                chunksAdded: 0,
+                chunksRemoved: 0,
+                chunksUnchanged: existingKeys.length,
+            };
+            await convex.mutation('knowledgeSources:completeSync', {
+                runId: source.runId,
+                ...result,
+                contentHash,
+                pagesFetched,
+                bytes,
+            });
+            logger.info('Knowledge source unchanged', { sourceId: source.sourceId, latencyMs: Date.now() - startTime });
+            return result;
+        }
+
+        // Key each chunk by its content; identical chunks within the source are stored once
+        const prepared = new Map<string, { text: string; key: string; title?: string; contentHash: string; metadata: Record<string, any> }>();
+        for (const chunk of chunks) {
+            const chunkHash = generateContentHash(chunk.text);
+            const key = generateChunkKey(source.agentId, source.documentId, chunkHash);
+            if (prepared.has(key)) continue;
+            prepared.set(key, {
+                text: chunk.text,
+                key,
+                title: chunk.metadata.pageTitle || chunk.metadata.section || undefined,
+                contentHash: chunkHash,
+                metadata: {
+                    chunkIndex: chunk.chunkIndex,
+                    documentId: source.documentId,
+                    tokenCount: chunk.metadata.tokenCount,
+                    language: chunk.metadata.language,
+                    sourceUrl: chunk.metadata.sourceUrl,
+                },
+            });
+        }
+        const upserts = [...prepared.values()];
+
+        let chunksAdded = 0;
+        let chunksUnchanged = 0;
+        for (let i = 0; i < upserts.length; i += UPSERT_BATCH_SIZE) {
+            const result = await convex.action('rag:upsertChunks', {
+                namespace: source.agentId,
+                documentId: source.documentId,
+                organizationId: source.organizationId,
+                totalChunks: upserts.length,
+                chunks: upserts.slice(i, i + UPSERT_BATCH_SIZE),
+            });
+            chunksAdded += result.inserted;
+            chunksUnchanged += result.skipped;
+        }
+
+        // Remove chunks whose content is gone (after the upsert, so the agent never sees an empty source)
+        const documentPrefix = generateChunkKey(source.agentId, source.documentId, '');
+        const staleKeys = findStaleChunkKeys(existingKeys, [...prepared.keys()], documentPrefix);
+        let chunksRemoved = 0;
+        if (staleKeys.length > 0) {
+            const result = await convex.action('rag:deleteChunksByKeys', {
+                namespace: source.agentId,
+                documentId: source.documentId,
+                keys: staleKeys,
+            });
+            chunksRemoved = result.deleted;
+        }
+
+        const result: SourceSyncResult = {
+            status: 'completed',
+            chunksTotal: upserts.length,
+            chunksAdded,
+            chunksRemoved,
+            chunksUnchanged,
+        };
+        await convex.mutation('knowledgeSources:completeSync', {
+            runId: source.runId,
+            ...result,
+            contentHash,
+            fileName,
+            fileType,
+            pagesFetched,
+            bytes,
+        });
+
+        logger.info('Knowledge source synced', {
+            sourceId: source.sourceId,
+            ...result,
+            latencyMs: Date.now() - startTime,
+        });
+        return result;
+    } catch (error) {
+        const message = (error as Error).message;
+        logger.error('Knowledge source sync failed', { sourceId: source.sourceId, error: message });
+
+        await convex.mutation('knowledgeSources:completeSync', {
+            runId: source.runId,
+            status: 'failed',
+            error: message,
+        }).catch(reportError => {
+            logger.error('Failed to record sync failure', { sourceId: source.sourceId, error: (reportError as Error).message });
+        });
+
+        return { status: 'failed', chunksTotal: 0, chunksAdded: 0, chunksRemoved: 0, chunksUnchanged: 0, error: message };
+    }
+}
+
+/**
+ * Sync worker - claims queued sources and syncs them in the background
+ */
+export class KnowledgeSourceSyncer {
+    private timer: NodeJS.Timeout | null = null;
+    private inFlight = new Set<string>();
+    private polling = false;
+
+    /**
+     * Start polling for queued sources
+     */
+    start(intervalMs: number = SYNC_POLL_INTERVAL_MS): void {
+        if (this.timer) return;
+
+        if (!isConvexConfigured()) {
+            logger.info('Knowledge source sync disabled (Convex not configured)');
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.poll().catch(error => {
+                logger.error('Knowledge source sync poll failed', { error: (error as Error).message });
+            });
+        }, intervalMs);
+
+        logger.info('Knowledge source syncer started', { intervalMs });
+    }
+
+    /**
+     * Stop polling (running syncs finish on their own)
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+            logger.info('Knowledge source syncer stopped', { inFlight: this.inFlight.size });
+        }
+    }
+
+    /**
+     * Claim queued sources and sync them
+     */
+    async poll(): Promise<void> {
+        if (this.polling) return;
+        const capacity = SYNC_MAX_IN_FLIGHT - this.inFlight.size;
+        if (capacity <= 0) return;
+
+        this.polling = true;
+        try {
+            const claimed: ClaimedSourceSync[] = await getConvexClient().mutation('knowledgeSources:claimQueuedSyncs', {
+                limit: capacity,
+            });
+
+            for (const source of claimed) {
+                this.inFlight.add(source.sourceId);
+                syncKnowledgeSource(source)
+                    .finally(() => this.inFlight.delete(source.sourceId));
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+}
+
+// Singleton instance
+let knowledgeSourceSyncer: KnowledgeSourceSyncer | null = null;
+
+/**
+ * Get singleton knowledge source syncer
+ */
+export function getKnowledgeSourceSyncer(): KnowledgeSourceSyncer {
+    if (!knowledgeSourceSyncer) {
+        knowledgeSourceSyncer = new KnowledgeSourceSyncer();
+    }
+    return knowledgeSourceSyncer;
+}
@@ -0,0 +1,180 @@
+/**
+ * Prompt Templates - Per-call variables in agent prompts and greetings
+ *
+ * Syntax: {{customer.name}} or with a fallback {{customer.name | there}}
+ *
+ * Variables (resolved at session start from room / participant metadata):
+ * - customer.name, customer.phone
+ * - appointment.id
+ * - call.reason, call.direction
+ * - campaign.id
+ * - custom.<key>   (OutboundCallMetadata.customData / campaign CSV columns)
+ */
+
+import { logger } from '../core/logging.js';
+
+/**
+ * Values available to templates, grouped by namespace
+ */
+export type PromptVariables = Record<string, Record<string, string | undefined>>;
+
+/**
+ * A variable reference found in a template
+ */
+export interface TemplateVariableRef {
+    path: string;
+    defaultValue?: string;
+}
+
+/**
+ * Result of rendering a template
+ */
+export interface RenderedTemplate {
+    text: string;
+    /** Variables with no value and no fallback (rendered as empty) */
+    missing: string[];
+}
+
+/**
+ * Known variables per namespace (custom accepts any key)
+ */
+const KNOWN_VARIABLES: Record<string, string[] | '*'> = {
+    customer: ['name', 'phone'],
+    appointment: ['id'],
+    call: ['reason', 'direction'],
+    campaign: ['id'],
+    custom: '*',
+};
+
+/**
+ * {{ namespace.key }} or {{ namespace.key | fallback }}
+ */
+const TEMPLATE_PATTERN = /\{\{\s*([a-zA-Z_][\w]*(?:\.[\w-]+)*)\s*(?:\|\s*([^}]*?))?\s*\}\}/g;
+
+/**
+ * List variable references in a template
+ */
+export function extractTemplateVariables(template: string): TemplateVariableRef[] {
+    const refs: TemplateVariableRef[] = [];
+    for (const match of template.matchAll(TEMPLATE_PATTERN)) {
+        refs.push({
+            path: match[1],
+            defaultValue: match[2] !== undefined ? match[2].replace(/^["']|["']$/g, '') : undefined,
+        });
+    }
+    return refs;
+}
+
+/**
+ * Validate variable references against the known variables
+ * @returns List of problems (empty when valid)
+ */
+export function validatePromptTemplate(template: string, field: string = 'template'): string[] {
+    const errors: string[] = [];
+
+    for (const ref of extractTemplateVariables(template)) {
+        const [namespace, key, ...rest] = ref.path.split('.');
+        const known = KNOWN_VARIABLES[namespace];
+
+        if (!known) {
+            errors.push(`${field}: unknown variable {{${ref.path}}} (namespaces: ${Object.keys(KNOWN_VARIABLES).join(', ')})`);
+        } else if (!key || rest.length > 0) {
+            errors.push(`${field}: {{${ref.path}}} must be written as {{${namespace}.<name>}}`);
+        } else if (known !== '*' && !known.includes(key)) {
+            errors.push(`${field}: unknown variable {{${ref.path}}} (${namespace} has: ${known.join(', ')})`);
+        }
+    }
+
+    // Unbalanced braces are almost always a typo
+    const stripped = template.replace(TEMPLATE_PATTERN, '');
+    if (stripped.includes('{{') || stripped.includes('}}')) {
+        errors.push(`${field}: malformed template placeholder (expected {{namespace.name}})`);
+    }
+
+    return errors;
+}
+
+/**
+ * Render a template with per-call variables
+ * Missing values use the inline fallback, or render as empty.
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables): RenderedTemplate {
+    const missing: string[] = [];
+
+    const text = template.replace(TEMPLATE_PATTERN, (_match, path: string, fallback?: string) => {
+        const [namespace, key] = path.split('.');
+        const value = variables[namespace]?.[key];
+
+        if (value !== undefined && value !== '') return value;
+        if (fallback !== undefined) return fallback.replace(/^["']|["']$/g, '');
+
+        missing.push(path);
+        return '';
+    });
+
+    return { text, missing };
+}
+
+/**
+ * Build template variables from call metadata (room or participant)
+ * Accepts the OutboundCallMetadata shape plus phoneNumber / callType.
+ */
+export function buildPromptVariables(metadata: Record<string, any> | null | undefined): PromptVariables {
+    const custom: Record<string, string> = {};
+    for (const [key, value] of Object.entries(metadata?.customData || {})) {
+        if (value !== null && value !== undefined) custom[key] = String(value);
+    }
+
+    return {
+        customer: {
+            name: metadata?.customerName,
+            phone: metadata?.phoneNumber,
+        },
+        appointment: {
+            id: metadata?.appointmentId,
+        },
+        call: {
+            reason: metadata?.callReason,
+            direction: metadata?.callType,
+        },
+        campaign: {
+            id: metadata?.campaignId,
+        },
+        custom,
+    };
+}
+
+/**
+ * Parse a LiveKit metadata string (room or participant) into an object
+ */
+export function parseCallMetadata(raw: string | undefined | null): Record<string, any> | null {
+    if (!raw) return null;
+    try {
+        const parsed = JSON.parse(raw);
+        return parsed && typeof parsed === 'object' ? parsed : null;
+    } catch {
+        logger.debug('Ignoring non-JSON call metadata');
+        return null;
+    }
+}
+
+/**
+ * Whether any template variable has a value
+ */
+export function hasPromptVariables(variables: PromptVariables): boolean {
+    return Object.values(variables).some(group => Object.values(group).some(value => value !== undefined && value !== ''));
+}
+
+/**
+ * One-line summary of the call variables for a system message
+ * Used when variables arrive after the prompt was built (participant metadata).
+ */
+export function describePromptVariables(variables: PromptVariables): string {
+    const parts: string[] = [];
+    for (const [namespace, group] of Object.entries(variables)) {
+        for (const [key, value] of Object.entries(group)) {
+            if (value !== undefined && value !== '') parts.push(`${namespace}.${key}: ${value}`);
+        }
+    }
+    return parts.join('; ');
+}
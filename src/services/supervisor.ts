@@ -0,0 +1,162 @@
+/**
+ * Supervisor Service - Human intervention on active AI calls
+ *
+ * Handles:
+ * - Listen-only room tokens (hidden participant, subscribe only)
+ * - Whisper: guidance text delivered to the agent over a LiveKit data message
+ *   (sent only to the agent participant, so the caller never sees or hears it)
+ * - Takeover/release: pauses the AI so a human can speak from the browser
+ * - Audit trail of every intervention on callSessions.supervisorActions
+ */
+
+import crypto from 'crypto';
+import { AccessToken, DataPacket_Kind, RoomServiceClient } from 'livekit-server-sdk';
+import { config } from '../core/config.js';
+import { getConvexClient } from '../core/convex-client.js';
+import { logger } from '../core/logging.js';
+
+/**
+ * Data message topic the agent listens on
+ */
+export const SUPERVISOR_TOPIC = 'supervisor';
+
+/**
+ * ParticipantInfo_Kind.AGENT (the enum is not re-exported by livekit-server-sdk)
+ */
+const AGENT_PARTICIPANT_KIND = 4;
+
+export type SupervisorAction = 'listen' | 'whisper' | 'takeover' | 'release';
+
+/**
+ * Command sent from the API to the agent in the call's room
+ */
+export type SupervisorCommand =
+    | { action: 'whisper'; supervisor: string; message: string }
+    | { action: 'takeover'; supervisor: string }
+    | { action: 'release'; supervisor: string };
+
+/**
+ * Browser access to the call's room
+ */
+export interface SupervisorJoin {
+    identity: string;
+    token: string;
+    livekitUrl: string;
+    joinUrl: string;
+    expiresIn: number;
+}
+
+/**
+ * Supervisor Service class
+ */
+export class SupervisorService {
+    private roomService: RoomServiceClient | null = null;
+
+    private getRoomService(): RoomServiceClient {
+        if (!this.roomService) {
+            this.roomService = new RoomServiceClient(
+                config.livekit.url,
+                config.livekit.apiKey,
+                config.livekit.apiSecret
+            );
+        }
+        return this.roomService;
+    }
+
+    /**
+     * Token for a supervisor to join the call's room
+     * Listen-only joins are hidden and cannot publish; takeover joins can speak
+     */
+    async createJoin(roomName: string, supervisor: string, mode: 'listen' | 'takeover'): Promise<SupervisorJoin> {
+        const slug = supervisor.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'supervisor';
+        const identity = `supervisor-${slug}-${crypto.randomBytes(3).toString('hex')}`;
+        const expiresIn = config.supervisor.tokenTtlSeconds;
+
+        const token = new AccessToken(config.livekit.apiKey, config.livekit.apiSecret, {
+            identity,
+            name: `${supervisor} (supervisor)`,
+            ttl: expiresIn,
+            metadata: JSON.stringify({ role: 'supervisor', mode }),
+        });
+        token.addGrant({
+            roomJoin: true,
+            room: roomName,
+            canSubscribe: true,
+            canPublish: mode === 'takeover',
+            canPublishData: false,
+            hidden: mode === 'listen',
+        });
+        const jwt = await token.toJwt();
+
+        const joinUrl = new URL(config.supervisor.joinUrl);
+        joinUrl.searchParams.set('liveKitUrl', config.livekit.url);
+        joinUrl.searchParams.set('token', jwt);
+
+        return { identity, token: jwt, livekitUrl: config.livekit.url, joinUrl: joinUrl.toString(), expiresIn };
+    }
+
+    /**
+     * Deliver a command to the agent participant(s) in the room
+     * @returns false if no agent is in the room (call already ended)
+     */
+    async sendCommand(roomName: string, command: SupervisorCommand): Promise<boolean> {
+        const roomService = this.getRoomService();
+        const participants = await roomService.listParticipants(roomName);
+        const agentIdentities = participants
+            .filter(p => (p.kind as number) === AGENT_PARTICIPANT_KIND)
+            .map(p => p.identity);
+
+        if (agentIdentities.length === 0) {
+            logger.warning('No agent in room for supervisor command', { roomName, action: command.action });
+            return false;
+        }
+
+        await roomService.sendData(
+            roomName,
+            new TextEncoder().encode(JSON.stringify(command)),
+            DataPacket_Kind.RELIABLE,
+            { destinationIdentities: agentIdentities, topic: SUPERVISOR_TOPIC }
+        );
+
+        logger.info('Supervisor command sent', { roomName, action: command.action, supervisor: command.supervisor });
+        return true;
+    }
+
+    /**
+     * Append an intervention to the session's audit trail
+     */
+    async recordAction(
+        sessionId: string,
+        action: SupervisorAction,
+        supervisor: string,
+        options?: {
+            message?: string;
+            participantIdentity?: string;
+        }
+    ): Promise<void> {
+        await getConvexClient().mutation('callSessions:recordSupervisorAction', {
+            sessionId,
+            action: {
+                action,
+                supervisor,
+                message: options?.message,
+                participantIdentity: options?.participantIdentity,
+                at: Date.now(),
+            },
+        });
+        logger.info('Supervisor action recorded', { sessionId, action, supervisor });
+    }
+}
+
+// Singleton instance
+let supervisorService: SupervisorService | null = null;
+
+/**
+ * Get singleton supervisor service
+ */
+export function getSupervisorService(): SupervisorService {
+    if (!supervisorService) {
+        supervisorService = new SupervisorService();
+    }
+    return supervisorService;
+}
@@ -7,7 +7,14 @@
  */
 
 import { llm } from '@livekit/agents';
+import OpenAI from 'openai';
 import { logger } from '../../core/logging.js';
+import { config } from '../../core/config.js';
+import { getConvexClient, isConvexConfigured } from '../../core/convex-client.js';
+import { getIntegrationEventHandler } from '../IntegrationEventHandler.js';
+import { createTransferHandler, findTransferTarget } from '../../telephony/transfer-handler.js';
+import { TransferMode, TransferOutcome } from '../../telephony/types.js';
+import type { HandoffTarget } from '../agent-config.js';
 import type { ToolExecutionContext, ToolResult } from './types.js';
 
 /**
@@ -79,13 +86,96 @@ export function createEndCallTool(
 }
 
 /**
- * Create a transfer call tool (placeholder for future implementation)
+ * Build the briefing spoken to the human during a warm transfer
+ * Uses the LLM when available, otherwise falls back to the last caller messages.
+ */
+async function buildTransferSummary(
+    context: ToolExecutionContext,
+    department: string,
+    reason?: string
+): Promise<string> {
+    const messages = await context.callTracker.getRecentMessagesForContext(context.sessionId, 12);
+    const intro = `Hi, this is the virtual assistant transferring a caller to ${department}.`;
+
+    const apiKey = config.convex?.openaiApiKey || process.env.OPENAI_API_KEY;
+    if (apiKey && messages.length > 0) {
+        try {
+            const openai = new OpenAI({ apiKey });
+            const transcript = messages
+                .map(m => `${m.role === 'user' ? 'Caller' : 'Agent'}: ${m.content}`)
+                .join('\n');
+
+            const response = await openai.chat.completions.create({
+                model: 'gpt-4o-mini',
+                messages: [
+                    {
+                        role: 'system',
+                        content: 'You brief a human support agent who is about to take over a phone call. In at most two short spoken sentences, say who the caller is (if known), what they need, and anything already tried. No greetings, no lists.',
+                    },
+                    {
+                        role: 'user',
+                        content: `Transfer reason: ${reason || 'caller asked for a human'}\n\nConversation:\n${transcript}`,
+                    },
+                ],
+                temperature: 0.2,
+                max_tokens: 120,
+            });
+
+            const summary = response.choices[0]?.message?.content?.trim();
+            if (summary) {
+                return `${intro} ${summary}`;
+            }
+        } catch (error) {
+            logger.warning('Transfer summary generation failed - using fallback', {
+                error: (error as Error).message,
+                sessionId: context.sessionId,
+            });
+        }
+    }
+
+    const lastCallerMessage = [...messages].reverse().find(m => m.role === 'user')?.content;
+    const parts = [intro];
+    if (reason) parts.push(`Reason: ${reason}.`);
+    if (lastCallerMessage) parts.push(`The caller last said: ${lastCallerMessage}`);
+    return parts.join(' ');
+}
+
+/**
+ * Caller-facing response for each transfer outcome
+ */
+function describeTransferOutcome(outcome: TransferOutcome, department: string): string {
+    switch (outcome) {
+        case TransferOutcome.ANSWERED:
+            return `The call has been transferred to ${department}.`;
+        case TransferOutcome.REFERRED:
+            return `The caller has been handed over to ${department}'s line.`;
+        case TransferOutcome.VOICEMAIL:
+            return `${department} was unavailable, so the caller has been sent to their voicemail.`;
+        case TransferOutcome.BUSY:
+            return `${department} is busy right now. Apologize, offer to help further or suggest calling back later.`;
+        case TransferOutcome.NO_ANSWER:
+            return `Nobody from ${department} answered. Apologize, offer to help further or suggest calling back later.`;
+        default:
+            return `The transfer to ${department} could not be completed. Apologize and offer to help further.`;
+    }
+}
+
+/**
+ * Create a transfer call tool
+ *
+ * Transfers SIP calls to a department from the agent's transfer directory.
+ * Cold transfers use SIP REFER; warm transfers dial the human into the room,
+ * brief them with a generated summary, and then the agent drops off.
  */
 export function createTransferCallTool(
     context: ToolExecutionContext
 ): llm.FunctionTool<{ department?: string; reason?: string }, any, ToolResult> {
+    const directory = context.transferDirectory || [];
+    const departments = directory.map(t => t.description ? `"${t.department}" (${t.description})` : `"${t.department}"`);
+
     return llm.tool({
-        description: 'Transfer the call to a human agent or specific department. Use this when the user requests to speak with a human or needs specialized assistance.',
+        description: 'Transfer the call to a human agent or specific department. Use this when the user requests to speak with a human or needs specialized assistance.' +
+            (departments.length > 0 ? ` Available departments: ${departments.join(', ')}.` : ''),
         parameters: {
             type: 'object',
             properties: {
@@ -100,28 +190,248 @@ export function createTransferCallTool(
             },
             required: [],
         } as any,
-        execute: async (args, opts) => {
-            logger.info('Transfer call requested', {
-                department: args.department,
+        execute: async (args) => {
+            return executeTransfer(context, args.department, args.reason);
+        },
+    });
+}
+
+/**
+ * Transfer the current call to a department from the agent's transfer directory
+ *
+ * Shared by the transfer_call tool and the IVR menu. Records the outcome on the
+ * call session and fires the escalation_requested integrations.
+ */
+export async function executeTransfer(
+    context: ToolExecutionContext,
+    department?: string,
+    reason?: string
+): Promise<ToolResult> {
+    const directory = context.transferDirectory || [];
+    const startTime = Date.now();
+
+    logger.info('Transfer call requested', {
+        department,
+        reason,
+        sessionId: context.sessionId,
+    });
+
+    const target = findTransferTarget(directory, department);
+    const sipParticipantIdentity = context.getSipParticipantIdentity?.();
+
+    if (!target || !sipParticipantIdentity || !context.roomName) {
+        const error = !target
+            ? 'No matching department in the transfer directory'
+            : 'Transfers are only available on phone calls';
+
+        logger.warning('Transfer call unavailable', {
+            error,
+            department,
+            sessionId: context.sessionId,
+        });
+
+        await context.callTracker.logFunctionCall(
+            context.sessionId,
+            context.organizationId,
+            'transfer_call',
+            { department, reason },
+            { status: 'unavailable', error },
+            { latencyMs: Date.now() - startTime }
+        );
+
+        return {
+            success: false,
+            error,
+            result: directory.length > 0 && !target
+                ? `I can transfer to: ${directory.map(t => t.department).join(', ')}. Ask the caller which one they need.`
+                : 'A transfer is not possible right now. Apologize and offer to help further.',
+        };
+    }
+
+    const speak = context.getSpeakCallback?.();
+    const mode = target.mode === 'warm' ? TransferMode.WARM : TransferMode.COLD;
+    const summary = mode === TransferMode.WARM
+        ? await buildTransferSummary(context, target.department, reason)
+        : undefined;
+
+    if (speak) {
+        try {
+            await speak(`Please hold while I connect you to ${target.department}.`);
+        } catch (error) {
+            logger.warning('Failed to play transfer hold message', {
+                error: (error as Error).message,
+                sessionId: context.sessionId,
+            });
+        }
+    }
+
+    const result = await createTransferHandler().transfer(
+        {
+            roomName: context.roomName,
+            sipParticipantId: sipParticipantIdentity,
+            target,
+            reason,
+            summary,
+        },
+        speak
+    );
+
+    await context.callTracker.logFunctionCall(
+        context.sessionId,
+        context.organizationId,
+        'transfer_call',
+        { department: target.department, reason, mode: result.mode },
+        { status: result.outcome, destination: result.destination, sipStatusCode: result.sipStatusCode },
+        { latencyMs: Date.now() - startTime }
+    );
+
+    if (isConvexConfigured()) {
+        try {
+            await getConvexClient().mutation('callSessions:recordTransfer', {
+                sessionId: context.sessionId,
+                transfer: {
+                    department: target.department,
+                    destination: result.destination,
+                    mode: result.mode,
+                    outcome: result.outcome,
+                    reason,
+                    summary,
+                    sipStatusCode: result.sipStatusCode,
+                    error: result.error,
+                    requestedAt: result.requestedAt,
+                    completedAt: result.completedAt,
+                },
+            });
+        } catch (error) {
+            logger.error('Failed to record transfer', {
+                error: (error as Error).message,
+                sessionId: context.sessionId,
+            });
+        }
+    }
+
+    const integrationHandler = getIntegrationEventHandler({ convexUrl: config.convex.url });
+    integrationHandler.onEscalationRequested(context.sessionId, {
+        reason: reason || 'transfer_requested',
+        priority: 'high',
+        targetAgent: target.department,
+        context: summary,
+        transfer: {
+            mode: result.mode,
+            destination: result.destination,
+            outcome: result.outcome,
+            sipStatusCode: result.sipStatusCode,
+        },
+    }).catch(err => logger.error('Escalation integrations failed', { error: err.message }));
+
+    const handedOff = result.outcome === TransferOutcome.ANSWERED
+        || result.outcome === TransferOutcome.REFERRED
+        || result.outcome === TransferOutcome.VOICEMAIL;
+    if (handedOff) {
+        // The caller now belongs to a human (or voicemail) - the agent leaves the room
+        const shutdownCallback = context.getShutdownCallback?.();
+        if (shutdownCallback) {
+            setTimeout(() => {
+                shutdownCallback('call_transferred').catch(error => {
+                    logger.error('Error during post-transfer shutdown', {
+                        error: (error as Error).message,
+                        sessionId: context.sessionId,
+                    });
+                });
+            }, 500);
+        }
+    }
+
+    return {
+        success: handedOff,
+        result: describeTransferOutcome(result.outcome, target.department),
+        data: { outcome: result.outcome, mode: result.mode },
+    };
+}
+
+/**
+ * Match the LLM's choice against the handoff targets (by name, or by agent ID)
+ */
+function findHandoffTarget(targets: HandoffTarget[], requested?: string): HandoffTarget | undefined {
+    if (!requested) return targets.length === 1 ? targets[0] : undefined;
+    const key = requested.trim().toLowerCase();
+    return targets.find(t => t.name.toLowerCase() === key || t.agentId === requested.trim());
+}
+
+/**
+ * Create an agent handoff tool
+ *
+ * Passes the call to another AI agent from config.handoffTargets. The new
+ * agent takes over with its own prompt, tools, voice and knowledge, keeping
+ * the conversation so far; the swap happens once this tool returns.
+ */
+export function createHandoffTool(
+    context: ToolExecutionContext
+): llm.FunctionTool<{ agent?: string; reason?: string }, any, ToolResult | llm.AgentHandoff> {
+    const targets = context.handoffTargets || [];
+    const options = targets.map(t => `"${t.name}" (${t.description})`);
+
+    return llm.tool({
+        description: 'Hand the call over to another AI assistant that specializes in what the caller needs. ' +
+            'The caller stays on the line and the conversation so far is kept. ' +
+            `Available assistants: ${options.join(', ')}.`,
+        parameters: {
+            type: 'object',
+            properties: {
+                agent: {
+                    type: 'string',
+                    description: 'Name of the assistant to hand over to',
+                    enum: targets.map(t => t.name),
+                },
+                reason: {
+                    type: 'string',
+                    description: 'What the caller needs, for the next assistant (e.g. "wants a refund for invoice 1042")',
+                },
+            },
+            required: ['agent'],
+        } as any,
+        execute: async (args) => {
+            const startTime = Date.now();
+            const target = findHandoffTarget(targets, args.agent);
+            const handoff = context.getHandoffCallback?.();
+
+            logger.info('Agent handoff requested', {
+                agent: args.agent,
                 reason: args.reason,
                 sessionId: context.sessionId,
             });
 
-            // Log the transfer request
+            const outcome = target && handoff
+                ? await handoff(target.agentId, args.reason)
+                : { error: target ? 'Handoffs are not available on this call' : 'No matching assistant' };
+
             await context.callTracker.logFunctionCall(
                 context.sessionId,
                 context.organizationId,
-                'transfer_call',
-                { department: args.department, reason: args.reason },
-                { status: 'requested' },
-                { latencyMs: 0 }
+                'handoff_to_agent',
+                { agent: target?.name || args.agent, reason: args.reason },
+                outcome.agent
+                    ? { status: 'handed_off', toAgentId: target!.agentId }
+                    : { status: 'unavailable', error: outcome.error },
+                { latencyMs: Date.now() - startTime }
             );
 
-            // Note: Call transfer implementation depends on telephony provider
-            return {
-                success: true,
-                result: `I'll transfer you to ${args.department || 'a human agent'}. Please hold while I connect you.`,
-            };
+            if (!outcome.agent) {
+                logger.warning('Agent handoff unavailable', {
+                    agent: args.agent,
+                    error: outcome.error,
+                    sessionId: context.sessionId,
+                });
+                return {
+                    success: false,
+                    error: outcome.error,
+                    result: target
+                        ? 'The handover is not possible right now. Keep helping the caller yourself.'
+                        : `I can hand over to: ${targets.map(t => t.name).join(', ')}.`,
+                };
+            }
+
+            return llm.handoff({ agent: outcome.agent });
         },
     });
 }
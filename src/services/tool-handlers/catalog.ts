@@ -0,0 +1,130 @@
+/**
+ * Catalog Tools
+ *
+ * Exact lookups in the agent's structured catalog (menu / price list).
+ *
+ * @module tool-handlers/catalog-tools
+ */
+
+import { llm } from '@livekit/agents';
+import { logger } from '../../core/logging.js';
+import { CATALOG_SORTS, formatCatalogResult, type CatalogFilters } from '../catalog/index.js';
+import type { ToolExecutionContext, ToolResult } from './types.js';
+
+type CatalogLookupArgs = {
+    query?: string;
+    category?: string;
+    tags?: string[];
+    min_price?: number;
+    max_price?: number;
+    available_only?: boolean;
+    sort?: string;
+    limit?: number;
+};
+
+/**
+ * Create the catalog lookup tool (only offered when the agent has a catalog)
+ */
+export function createCatalogLookupTool(
+    context: ToolExecutionContext
+): llm.FunctionTool<CatalogLookupArgs, any, ToolResult> {
+    const categories = context.catalog?.categories ?? [];
+
+    return llm.tool({
+        description: 'Look up items in the catalog (menu / price list): names, prices, sizes and variants, categories, dietary tags and availability. ' +
+            'Use this instead of search_knowledge for anything about specific items or prices - the prices are exact. ' +
+            'All filters are optional and combine; call with no filters to list items.' +
+            (categories.length > 0 ? ` Categories: ${categories.slice(0, 30).join(', ')}.` : ''),
+        parameters: {
+            type: 'object',
+            properties: {
+                query: {
+                    type: 'string',
+                    description: 'Item name or words from it, e.g. "paneer tikka" or "biryani"',
+                },
+                category: {
+                    type: 'string',
+                    description: 'Category to list, e.g. "starters" or "desserts"',
+                },
+                tags: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Dietary tags every item must have, e.g. ["vegetarian"], ["vegan", "gluten-free"]',
+                },
+                min_price: {
+                    type: 'number',
+                    description: 'Minimum price',
+                },
+                max_price: {
+                    type: 'number',
+                    description: 'Maximum price ("under 300" → 300)',
+                },
+                available_only: {
+                    type: 'boolean',
+                    description: 'Only items available right now',
+                },
+                sort: {
+                    type: 'string',
+                    enum: [...CATALOG_SORTS],
+                    description: 'price_asc for "cheapest", price_desc for "most expensive"',
+                },
+                limit: {
+                    type: 'number',
+                    description: 'Maximum number of items to return (default: 8)',
+                },
+            },
+            required: [],
+        } as any,
+        execute: async (args, opts) => {
+            const startTime = Date.now();
+            logger.info('Executing catalog lookup tool', {
+                args,
+                sessionId: context.sessionId,
+            });
+
+            if (!context.catalog) {
+                return {
+                    success: false,
+                    error: 'No catalog is available for this agent.',
+                };
+            }
+
+            try {
+                const filters: CatalogFilters = {
+                    query: args.query,
+                    category: args.category,
+                    tags: args.tags,
+                    minPrice: args.min_price,
+                    maxPrice: args.max_price,
+                    availableOnly: args.available_only,
+                    sort: CATALOG_SORTS.find(sort => sort === args.sort),
+                    limit: args.limit,
+                };
+                const result = context.catalog.lookup(filters);
+
+                await context.callTracker.logFunctionCall(
+                    context.sessionId,
+                    context.organizationId,
+                    'lookup_catalog',
+                    args,
+                    { total: result.total, items: result.matches.map(match => match.item.name) },
+                    { latencyMs: Date.now() - startTime }
+                );
+
+                return {
+                    success: true,
+                    result: formatCatalogResult(result, filters),
+                };
+            } catch (error) {
+                logger.error('Catalog lookup tool error', {
+                    error: (error as Error).message,
+                    sessionId: context.sessionId,
+                });
+                return {
+                    success: false,
+                    error: 'Failed to look up the catalog. Please try again.',
+                };
+            }
+        },
+    });
+}
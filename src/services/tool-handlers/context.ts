@@ -12,7 +12,9 @@ import { logger } from '../../core/logging.js';
 import type { GeneratedFunction } from '../function-generator.js';
 import type { ToolExecutionContext } from './types.js';
 import { createKnowledgeSearchTool } from './search.js';
-import { createTransferCallTool, createEndCallTool } from './calls.js';
+import { createTransferCallTool, createEndCallTool, createHandoffTool } from './calls.js';
+import { createCollectDigitsTool } from './dtmf.js';
+import { createCatalogLookupTool } from './catalog.js';
 import { createVectorSearchTool, createWebhookTool, createStaticTool } from './dynamic.js';
 
 /**
@@ -21,7 +23,10 @@ import { createVectorSearchTool, createWebhookTool, createStaticTool } from './d
  * Creates a tool context that handles:
  * 1. End call tool for graceful termination
  * 2. Transfer call tool for escalation to human agents
- * 3. Generated functions from domain configs (search_catalog, get_information, etc.)
+ * 3. Collect digits tool for keypad entry (SIP calls only)
+ * 4. Handoff tool for passing the call to another agent (when targets are configured)
+ * 5. Catalog lookup tool for exact item / price answers (when the agent has a catalog)
+ * 6. Generated functions from domain configs (search_catalog, get_information, etc.)
  */
 export function buildToolContext(
     generatedFunctions: GeneratedFunction[],
@@ -35,6 +40,21 @@ export function buildToolContext(
     // Add transfer call tool for escalating to human agents
     toolContext['transfer_call'] = createTransferCallTool(executionContext);
 
+    // Add keypad input tool when the call can send DTMF
+    if (executionContext.dtmfHandler) {
+        toolContext['collect_digits'] = createCollectDigitsTool(executionContext);
+    }
+
+    // Add agent handoff tool when the agent has specialists to hand over to
+    if (executionContext.handoffTargets?.length) {
+        toolContext['handoff_to_agent'] = createHandoffTool(executionContext);
+    }
+
+    // Add catalog lookup when the agent has a structured catalog
+    if (executionContext.catalog) {
+        toolContext['lookup_catalog'] = createCatalogLookupTool(executionContext);
+    }
+
     // Add generated functions based on handler type
     for (const func of generatedFunctions) {
         if (!func.enabled) continue;
@@ -73,12 +93,32 @@ export function buildToolContext(
 
 /**
  * Create minimal tool context with search and end_call tools
+ * (plus transfer_call / collect_digits / handoff_to_agent / lookup_catalog when the call supports them)
  */
 export function createMinimalToolContext(
     executionContext: ToolExecutionContext
 ): llm.ToolContext {
-    return {
+    const toolContext: llm.ToolContext = {
         search_knowledge: createKnowledgeSearchTool(executionContext),
         end_call: createEndCallTool(executionContext),
     };
+
+    // Only offer transfers when the agent has somewhere to transfer to
+    if (executionContext.transferDirectory?.length) {
+        toolContext['transfer_call'] = createTransferCallTool(executionContext);
+    }
+
+    if (executionContext.dtmfHandler) {
+        toolContext['collect_digits'] = createCollectDigitsTool(executionContext);
+    }
+
+    if (executionContext.handoffTargets?.length) {
+        toolContext['handoff_to_agent'] = createHandoffTool(executionContext);
+    }
+
+    if (executionContext.catalog) {
+        toolContext['lookup_catalog'] = createCatalogLookupTool(executionContext);
+    }
+
+    return toolContext;
 }
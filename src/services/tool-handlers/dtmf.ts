@@ -0,0 +1,111 @@
+/**
+ * Keypad Input Tools
+ *
+ * Tools for collecting DTMF digits from SIP callers
+ * (order numbers, PINs, account numbers on bad lines).
+ *
+ * @module tool-handlers/dtmf-tools
+ */
+
+import { llm } from '@livekit/agents';
+import { logger } from '../../core/logging.js';
+import type { ToolExecutionContext, ToolResult } from './types.js';
+
+/**
+ * Create a collect digits tool for keypad entry
+ *
+ * Optionally speaks a prompt, then waits for the caller to press digits
+ * until max_digits, the terminator key, or the timeout is reached.
+ */
+export function createCollectDigitsTool(
+    context: ToolExecutionContext
+): llm.FunctionTool<{ prompt?: string; max_digits?: number; terminator?: string; timeout_seconds?: number }, any, ToolResult> {
+    return llm.tool({
+        description: 'Ask the caller to type digits on their phone keypad (order numbers, PINs, account numbers). Use this when speech recognition is struggling or the caller prefers the keypad. Returns the digits entered.',
+        parameters: {
+            type: 'object',
+            properties: {
+                prompt: {
+                    type: 'string',
+                    description: 'What to say before collecting (e.g., "Please enter your 6 digit order number followed by the hash key")',
+                },
+                max_digits: {
+                    type: 'number',
+                    description: 'Maximum number of digits to collect (default: 16)',
+                },
+                terminator: {
+                    type: 'string',
+                    enum: ['#', '*'],
+                    description: 'Key that ends entry early (default: "#")',
+                },
+                timeout_seconds: {
+                    type: 'number',
+                    description: 'Seconds to wait for input (default: 10)',
+                },
+            },
+            required: [],
+        } as any,
+        execute: async (args) => {
+            const startTime = Date.now();
+            const dtmfHandler = context.dtmfHandler;
+
+            logger.info('Collect digits tool invoked', {
+                maxDigits: args.max_digits,
+                terminator: args.terminator,
+                sessionId: context.sessionId,
+            });
+
+            if (!dtmfHandler) {
+                return {
+                    success: false,
+                    error: 'Keypad input is only available on phone calls',
+                    result: 'Keypad input is not available on this call. Ask the caller to say the digits instead.',
+                };
+            }
+
+            // Type-ahead: digits pressed while the prompt plays still count
+            const promptStartedAt = Date.now();
+            const speak = context.getSpeakCallback?.();
+            if (args.prompt && speak) {
+                try {
+                    await speak(args.prompt);
+                } catch (error) {
+                    logger.warning('Failed to play digit collection prompt', {
+                        error: (error as Error).message,
+                        sessionId: context.sessionId,
+                    });
+                }
+            }
+
+            const collected = await dtmfHandler.collectDigits({
+                maxDigits: args.max_digits,
+                terminator: args.terminator || '#',
+                timeoutMs: (args.timeout_seconds ?? 10) * 1000,
+                since: promptStartedAt,
+            });
+
+            await context.callTracker.logFunctionCall(
+                context.sessionId,
+                context.organizationId,
+                'collect_digits',
+                { max_digits: args.max_digits, terminator: args.terminator, timeout_seconds: args.timeout_seconds },
+                { digitCount: collected.digits.length, reason: collected.reason },
+                { latencyMs: Date.now() - startTime }
+            );
+
+            if (!collected.digits) {
+                return {
+                    success: false,
+                    result: 'The caller did not enter any digits. Ask them to try again or say the number instead.',
+                    data: { reason: collected.reason },
+                };
+            }
+
+            return {
+                success: true,
+                result: `The caller entered: ${collected.digits}`,
+                data: { digits: collected.digits, reason: collected.reason },
+            };
+        },
+    });
+}
@@ -12,6 +12,8 @@ export type {
     ToolExecutionContext,
     ToolResult,
     ShutdownCallbackFn,
+    SpeakCallbackFn,
+    HandoffCallbackFn,
 } from './types.js';
 
 // Search tools
@@ -24,13 +26,25 @@ export {
 export {
     createTransferCallTool,
     createEndCallTool,
+    createHandoffTool,
+    executeTransfer,
 } from './calls.js';
 
+// Keypad input tools
+export {
+    createCollectDigitsTool,
+} from './dtmf.js';
+
 // Business tools
 export {
     createBusinessInfoTool,
 } from './business.js';
 
+// Catalog tools
+export {
+    createCatalogLookupTool,
+} from './catalog.js';
+
 // Dynamic tools (from generated functions)
 export {
     createVectorSearchTool,
@@ -6,9 +6,14 @@
  * @module tool-handlers/types
  */
 
+import type { voice } from '@livekit/agents';
 import type { VoiceKnowledgeService } from '../voice-knowledge/index.js';
 import type { SessionService } from '../session.js';
 import type { CallTrackingService } from '../call-tracking.js';
+import type { TransferTarget } from '../../telephony/types.js';
+import type { DTMFHandler } from '../../telephony/dtmf-handler.js';
+import type { HandoffTarget } from '../agent-config.js';
+import type { CatalogLookup } from '../catalog/index.js';
 
 /**
  * Callback to shutdown/disconnect the call
@@ -16,6 +21,20 @@ import type { CallTrackingService } from '../call-tracking.js';
  */
 export type ShutdownCallbackFn = (reason: string) => Promise<void>;
 
+/**
+ * Callback to speak text into the room and wait until it finishes playing
+ */
+export type SpeakCallbackFn = (text: string) => Promise<void>;
+
+/**
+ * Callback to prepare a mid-call handoff to another agent
+ * Resolves with the agent to switch to, or why the handoff is not possible
+ */
+export type HandoffCallbackFn = (
+    targetAgentId: string,
+    reason?: string
+) => Promise<{ agent?: voice.Agent; error?: string }>;
+
 /**
  * Tool execution context passed to handlers
  */
@@ -32,6 +51,22 @@ export interface ToolExecutionContext {
      * Returns the shutdown callback when called (allows setting after tool creation)
      */
     getShutdownCallback?: () => ShutdownCallbackFn | undefined;
+    /** LiveKit room name for the current call */
+    roomName?: string;
+    /** Transfer directory from the agent record (departments and numbers) */
+    transferDirectory?: TransferTarget[];
+    /** Deferred getter for the caller's SIP participant identity (set once they join) */
+    getSipParticipantIdentity?: () => string | undefined;
+    /** Deferred speak callback getter (used for hold messages and warm transfer briefings) */
+    getSpeakCallback?: () => SpeakCallbackFn | undefined;
+    /** DTMF handler for keypad input (SIP calls only) */
+    dtmfHandler?: DTMFHandler;
+    /** Agents this agent may hand the call to (from config.handoffTargets) */
+    handoffTargets?: HandoffTarget[];
+    /** Deferred handoff callback getter (set once the call's handoff manager exists) */
+    getHandoffCallback?: () => HandoffCallbackFn | undefined;
+    /** The agent's structured catalog (only set when it has items) */
+    catalog?: CatalogLookup;
 }
 
 /**
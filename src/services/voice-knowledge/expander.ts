@@ -3,6 +3,9 @@
  * 
  * Expands short queries for better semantic matching.
  * Fixes issue where "address" or "location" queries fail due to poor embedding quality.
+ * 
+ * Only the vector leg of hybrid search gets the expanded query - exact terms
+ * (product names, SKUs, transliterations) are matched by the keyword leg.
  */
 
 import { logger } from '../../core/logging.js';
@@ -18,7 +21,6 @@ export const INFO_TYPE_KEYWORDS: Record<string, string[]> = {
     contact: ['contact', 'phone', 'email', 'call', 'reach'],
     menu: ['menu', 'food', 'dish', 'items', 'catalog'],
     price: ['price', 'cost', 'fee', 'charge', 'expensive', 'cheap', 'rupees', 'inr'],
-    surgery: ['surgery', 'operation', 'procedure', 'replacement', 'tkr', 'thr', 'acl'],
 };
 
 /**
@@ -29,8 +31,7 @@ const EXPANSION_MAP: Record<string, string> = {
     hours: 'what are the business hours and operating times',
     contact: 'what is the contact information phone number and email',
     menu: 'what items are on the menu or catalog',
-    price: 'what is the price cost package rates rupees',
-    surgery: 'procedure package rates price cost',
+    price: 'what is the price cost rates rupees',
 };
 
 /**
@@ -48,8 +49,8 @@ export interface ExpandedQuery {
  * to match relevant content. This function expands them into full
  * questions for better semantic search results.
  * 
- * Also expands queries with cost/surgery keywords to better match
- * procedure rate chunks in the knowledge base.
+ * Also expands queries with cost keywords to better match price chunks
+ * in the knowledge base.
  * 
  * @param query Original user query
  * @returns Expanded query and detected info type
@@ -57,34 +58,12 @@ export interface ExpandedQuery {
 export function expandQuery(query: string): ExpandedQuery {
     const normalizedQuery = query.toLowerCase().trim();
 
-    // Check for cost/surgery related queries - these need to include "package rates"
-    // to better match the procedural cost chunks in the knowledge base
+    // Cost queries need price terms to match rate chunks semantically
     const costKeywords = ['cost', 'price', 'fee', 'charge', 'rupees', 'inr', 'how much', 'kitna', 'paisa'];
-    const surgeryKeywords = ['surgery', 'replacement', 'tkr', 'thr', 'acl', 'pcl', 'operation', 'procedure'];
-    
     const hasCostKeyword = costKeywords.some(kw => normalizedQuery.includes(kw));
-    const hasSurgeryKeyword = surgeryKeywords.some(kw => normalizedQuery.includes(kw));
     
-    // If query mentions surgery AND cost, expand with "package rates" for better matching
-    if (hasCostKeyword && hasSurgeryKeyword) {
-        // Add "package rates" to help match procedural cost chunks
-        const expanded = `${query} package rates price rupees`;
-        
-        logger.info('Query expansion triggered', {
-            original: query,
-            originalLength: query.length,
-            expanded,
-            expandedLength: expanded.length,
-            infoType: 'surgery_cost',
-            reason: 'surgery_cost_query_expansion'
-        });
-        
-        return { expanded, infoType: 'price' };
-    }
-    
-    // If query has cost keyword but no surgery, still expand
     if (hasCostKeyword) {
-        const expanded = `${query} package rates price`;
+        const expanded = `${query} price rates`;
         
         logger.info('Query expansion triggered', {
             original: query,
@@ -97,22 +76,6 @@ export function expandQuery(query: string): ExpandedQuery {
         
         return { expanded, infoType: 'price' };
     }
-    
-    // If query has surgery keyword, add "cost package rates" to catch cost queries
-    if (hasSurgeryKeyword) {
-        const expanded = `${query} cost package rates`;
-        
-        logger.info('Query expansion triggered', {
-            original: query,
-            originalLength: query.length,
-            expanded,
-            expandedLength: expanded.length,
-            infoType: 'surgery',
-            reason: 'surgery_query_expansion'
-        });
-        
-        return { expanded, infoType: 'surgery' };
-    }
 
     // Short queries (<15 chars) need expansion for better embeddings
     if (normalizedQuery.length < 15) {
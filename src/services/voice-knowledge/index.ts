@@ -13,6 +13,8 @@ export type {
     VoiceSearchItem,
     VoiceSearchResponse,
     AgentRagConfig,
+    RagMode,
+    Reranker,
     BusinessInfoResult,
     HybridSearchResult,
     HybridSearchOptions,
@@ -29,6 +31,8 @@ export {
     getPriceRange,
 } from './parser.js';
 
+export { RAG_MODES, RERANKERS } from './types.js';
+
 // Query expansion
 export {
     expandQuery,
@@ -36,6 +40,29 @@ export {
     INFO_TYPE_KEYWORDS,
 } from './expander.js';
 
+// Cross-lingual retrieval
+export {
+    detectTextLanguage,
+    isEnglish,
+} from './language.js';
+export {
+    translateQuery,
+    translationSource,
+    getQueryTranslator,
+    SarvamQueryTranslator,
+    LocalQueryTranslator,
+} from './translator.js';
+export type {
+    QueryTranslation,
+    QueryTranslator,
+} from './translator.js';
+
+// Reranking
+export {
+    rerankResults,
+    isRerankerAvailable,
+} from './reranker.js';
+
 // Main service
 export {
     VoiceKnowledgeService,
@@ -0,0 +1,75 @@
+/**
+ * Language Detection for Voice Knowledge
+ *
+ * Script-based detection for Indian languages - cheap enough to run on every
+ * query and every chunk at ingestion. Latin text is reported as English;
+ * romanized Tamil or Hindi can only be told apart with a hint (the caller's
+ * language).
+ */
+
+/**
+ * Unicode block of each Indian script and the language it is read as
+ */
+const SCRIPT_RANGES: Array<{ language: string; from: number; to: number }> = [
+    { language: 'hi-IN', from: 0x0900, to: 0x097F }, // Devanagari (also Marathi)
+    { language: 'bn-IN', from: 0x0980, to: 0x09FF },
+    { language: 'pa-IN', from: 0x0A00, to: 0x0A7F }, // Gurmukhi
+    { language: 'gu-IN', from: 0x0A80, to: 0x0AFF },
+    { language: 'od-IN', from: 0x0B00, to: 0x0B7F },
+    { language: 'ta-IN', from: 0x0B80, to: 0x0BFF },
+    { language: 'te-IN', from: 0x0C00, to: 0x0C7F },
+    { language: 'kn-IN', from: 0x0C80, to: 0x0CFF },
+    { language: 'ml-IN', from: 0x0D00, to: 0x0D7F },
+];
+
+export const ENGLISH = 'en-IN';
+
+/**
+ * Check if a language code is English (en, en-IN, en-US...)
+ */
+export function isEnglish(language: string | undefined): boolean {
+    return !language || language.toLowerCase().startsWith('en');
+}
+
+/**
+ * Detect the language of a text from its script
+ *
+ * @param text Query or chunk text
+ * @param hint Known language (e.g. 'mr-IN' to read Devanagari as Marathi)
+ * @returns Language code of the dominant script, or en-IN for Latin text
+ */
+export function detectTextLanguage(text: string, hint?: string): string {
+    const counts = new Map<string, number>();
+    let latin = 0;
+
+    for (const char of text) {
+        const code = char.codePointAt(0)!;
+        if ((code >= 0x41 && code <= 0x5A) || (code >= 0x61 && code <= 0x7A)) {
+            latin++;
+            continue;
+        }
+        const script = SCRIPT_RANGES.find(range => code >= range.from && code <= range.to);
+        if (script) {
+            counts.set(script.language, (counts.get(script.language) ?? 0) + 1);
+        }
+    }
+
+    let language = ENGLISH;
+    let best = latin;
+    for (const [candidate, count] of counts) {
+        if (count > best) {
+            language = candidate;
+            best = count;
+        }
+    }
+
+    if (language === 'hi-IN' && hint === 'mr-IN') return hint;
+    return language;
+}
+
+/**
+ * Check if a text is written (mostly) in an Indian script
+ */
+export function isNativeScript(text: string): boolean {
+    return !isEnglish(detectTextLanguage(text));
+}
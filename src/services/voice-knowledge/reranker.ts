@@ -0,0 +1,165 @@
+/**
+ * Reranker for Voice Knowledge
+ *
+ * Optional second pass over the fused hybrid-search candidates (config.rag.rerank):
+ * - llm: an OpenAI model orders the passages by relevance (config.rag.llmRerankModel)
+ * - cross_encoder: a Cohere/Jina-compatible /rerank endpoint (RAG_CROSS_ENCODER_URL)
+ *
+ * Reranking is best-effort - on errors, timeouts or a missing provider the
+ * fused order is kept, so a slow reranker never stalls a call.
+ */
+
+import OpenAI from 'openai';
+import { config } from '../../core/config.js';
+import { logger } from '../../core/logging.js';
+import type { Reranker } from './types.js';
+
+/**
+ * Anything with passage text (a rag:search result)
+ */
+export interface RerankCandidate {
+    text?: string;
+    score?: number;
+}
+
+// Longest passage sent to the LLM reranker
+const MAX_PASSAGE_CHARS = 600;
+
+let openaiClient: OpenAI | null | undefined;
+
+function getOpenAI(): OpenAI | null {
+    if (openaiClient === undefined) {
+        const apiKey = config.convex.openaiApiKey;
+        openaiClient = apiKey ? new OpenAI({ apiKey }) : null;
+    }
+    return openaiClient;
+}
+
+/**
+ * Check if a reranker can run in this deployment
+ */
+export function isRerankerAvailable(method: Reranker): boolean {
+    if (method === 'llm') return getOpenAI() !== null;
+    if (method === 'cross_encoder') return !!config.rag.crossEncoderUrl;
+    return false;
+}
+
+/**
+ * Reorder candidates by relevance to the query and keep the best topK
+ *
+ * @param query Caller's question
+ * @param candidates Fused search results, best first
+ * @param method Reranker from the agent's config.rag.rerank
+ * @param topK Results to keep
+ * @returns Reranked results (the first topK candidates unchanged if reranking is unavailable or fails)
+ */
+export async function rerankResults<T extends RerankCandidate>(
+    query: string,
+    candidates: T[],
+    method: Reranker,
+    topK: number
+): Promise<T[]> {
+    if (method === 'none' || candidates.length <= 1) {
+        return candidates.slice(0, topK);
+    }
+    if (!isRerankerAvailable(method)) {
+        logger.warning(`Reranker not available, keeping fused order`, { method });
+        return candidates.slice(0, topK);
+    }
+
+    const startTime = Date.now();
+    try {
+        const order = method === 'llm'
+            ? await rankWithLLM(query, candidates)
+            : await rankWithCrossEncoder(query, candidates, topK);
+
+        // Indices the reranker skipped keep their fused order after the ranked ones
+        const seen = new Set<number>();
+        const ranked: T[] = [];
+        for (const index of [...order, ...candidates.keys()]) {
+            if (index < 0 || index >= candidates.length || seen.has(index)) continue;
+            seen.add(index);
+            ranked.push(candidates[index]);
+        }
+
+        logger.info(`Rerank completed`, {
+            method,
+            candidates: candidates.length,
+            latencyMs: Date.now() - startTime,
+            movedTop: order[0] !== undefined && order[0] !== 0,
+        });
+
+        return ranked.slice(0, topK);
+    } catch (error) {
+        logger.warning(`Rerank failed, keeping fused order`, {
+            method,
+            error: (error as Error).message,
+            latencyMs: Date.now() - startTime,
+        });
+        return candidates.slice(0, topK);
+    }
+}
+
+/**
+ * Ask the LLM for the passage numbers ordered by relevance
+ */
+async function rankWithLLM(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const passages = candidates
+        .map((c, i) => `[${i}] ${(c.text ?? '').slice(0, MAX_PASSAGE_CHARS).replace(/\s+/g, ' ')}`)
+        .join('\n');
+
+    const response = await getOpenAI()!.chat.completions.create({
+        model: config.rag.llmRerankModel,
+        messages: [
+            {
+                role: 'system',
+                content: 'You rank knowledge-base passages by how well they answer a caller\'s question. ' +
+                    'The question may be in English, an Indian language, or transliterated. ' +
+                    'Return JSON {"ranking": [passage numbers, most relevant first]}, leaving out passages that do not help.',
+            },
+            { role: 'user', content: `QUESTION: ${query}\n\nPASSAGES:\n${passages}` },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0,
+        max_tokens: 100,
+    }, { timeout: config.rag.rerankTimeoutMs, maxRetries: 0 });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+        throw new Error('Empty response from OpenAI');
+    }
+    const ranking = JSON.parse(content).ranking;
+    if (!Array.isArray(ranking)) {
+        throw new Error('Reranker response has no ranking');
+    }
+    return ranking.map(Number).filter(Number.isInteger);
+}
+
+/**
+ * Score the passages with a cross-encoder /rerank endpoint
+ */
+async function rankWithCrossEncoder(query: string, candidates: RerankCandidate[], topK: number): Promise<number[]> {
+    const response = await fetch(config.rag.crossEncoderUrl!, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(config.rag.crossEncoderApiKey ? { Authorization: `Bearer ${config.rag.crossEncoderApiKey}` } : {}),
+        },
+        body: JSON.stringify({
+            model: config.rag.crossEncoderModel,
+            query,
+            documents: candidates.map(c => c.text ?? ''),
+            top_n: topK,
+        }),
+        signal: AbortSignal.timeout(config.rag.rerankTimeoutMs),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Cross-encoder returned ${response.status}`);
+    }
+
+    const body = await response.json() as { results?: Array<{ index: number; relevance_score: number }> };
+    return (body.results ?? [])
+        .sort((a, b) => b.relevance_score - a.relevance_score)
+        .map(r => r.index);
+}
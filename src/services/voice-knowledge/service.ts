@@ -7,6 +7,8 @@
  * Domain-agnostic - works with any type of business content.
  * 
  * Features:
+ * - Hybrid keyword + vector retrieval with optional reranking (per-agent config.rag)
+ * - Cross-lingual retrieval - Tamil/Hindi questions also search their English translation
  * - Multi-level caching (embedding cache, result cache)
  * - Parallel search across catalog and knowledge
  * - Latency-optimized response formatting
@@ -29,6 +31,74 @@ import {
 } from './types.js';
 import { parseEnrichedText, formatPrice, getPriceRange } from './parser.js';
 import { expandQuery, getAdjustedThreshold } from './expander.js';
+import { rerankResults } from './reranker.js';
+import { translateQuery, translationSource, type QueryTranslation } from './translator.js';
+import { ENGLISH } from './language.js';
+
+/**
+ * A rag:search hit
+ */
+interface RetrievedChunk {
+    entryId: string;
+    text?: string;
+    title?: string;
+    /** Cosine similarity - unset for hybrid hits found only by the keyword leg */
+    score?: number;
+    /** Hybrid mode RRF score (0-1) - ranks results, not a similarity */
+    fusedScore?: number;
+    /** Language the chunk is written in (recorded at ingestion) */
+    language?: string;
+}
+
+/**
+ * Raw rag:search output after merging and optional reranking
+ */
+interface RetrievalResult {
+    results: RetrievedChunk[];
+    text: string;
+    expandedQuery: string;
+    infoType?: string;
+    translation: QueryTranslation | null;
+    /** Translation was needed but failed - the results are for the original query only */
+    translationFailed: boolean;
+}
+
+/**
+ * Ranking score of a hit: the fused score in hybrid mode, the similarity otherwise
+ */
+function rankScore(result: RetrievedChunk): number {
+    return result.fusedScore ?? result.score ?? 0;
+}
+
+/**
+ * Merge the hits of several searches (original + translated query), best rank per chunk
+ */
+function mergeResults(resultSets: RetrievedChunk[][]): RetrievedChunk[] {
+    const merged = new Map<string, RetrievedChunk>();
+    for (const results of resultSets) {
+        for (const result of results) {
+            const existing = merged.get(result.entryId);
+            if (!existing || rankScore(result) > rankScore(existing)) {
+                merged.set(result.entryId, result);
+            }
+        }
+    }
+    return [...merged.values()].sort((a, b) => rankScore(b) - rankScore(a));
+}
+
+/**
+ * Best cosine similarity among the hits (keyword-only hits don't count)
+ */
+function topSimilarity(results: RetrievedChunk[]): number {
+    return Math.max(0, ...results.map(r => r.score ?? 0));
+}
+
+/**
+ * Context text for the LLM - same format as rag:search's text
+ */
+function formatContext(results: RetrievedChunk[]): string {
+    return results.map(r => (r.title ? `# ${r.title}:\n${r.text ?? ''}` : r.text ?? '')).join('\n---\n');
+}
 
 /**
  * Voice Knowledge Service class
@@ -38,6 +108,8 @@ export class VoiceKnowledgeService {
     private agentId: string;
     private convexConfigured: boolean;
     private resultCache: LRUCache<VoiceSearchResponse>;
+    private ragConfig: AgentRagConfig;
+    private getCallerLanguage: () => string = () => ENGLISH;
 
     // Context cache per organization (with TTL)
     private orgContextCache: Map<string, { timestamp: number; data: any }>;
@@ -45,10 +117,12 @@ export class VoiceKnowledgeService {
 
     /**
      * Initialize voice knowledge service for an agent
+     * @param ragConfig - Retrieval tuning from the agent's config.rag
      */
-    constructor(organizationId: string, agentId: string) {
+    constructor(organizationId: string, agentId: string, ragConfig: AgentRagConfig = {}) {
         this.organizationId = organizationId;
         this.agentId = agentId;
+        this.ragConfig = ragConfig;
         this.convexConfigured = isConvexConfigured();
         this.resultCache = getResultCache();
         this.orgContextCache = new Map();
@@ -58,6 +132,35 @@ export class VoiceKnowledgeService {
         );
     }
 
+    /**
+     * Apply the agent's retrieval settings once its config has loaded
+     */
+    setRagConfig(ragConfig: AgentRagConfig): void {
+        this.ragConfig = ragConfig;
+    }
+
+    /**
+     * Follow the language the caller is speaking (Latin-script queries in a
+     * non-English call are translated as romanized speech)
+     */
+    setCallerLanguage(getLanguage: () => string): void {
+        this.getCallerLanguage = getLanguage;
+    }
+
+    /**
+     * Result cache key - the same words retrieve different chunks depending on
+     * the caller's language and whether the query gets translated
+     */
+    private resultCacheKey(prefix: string, query: string, limit: number, ragConfig: AgentRagConfig): string {
+        const callerLanguage = this.getCallerLanguage();
+        const knowledgeLanguage = ragConfig.knowledgeLanguage ?? ENGLISH;
+        const translateFrom = ragConfig.crossLingual === false
+            ? null
+            : translationSource(query, callerLanguage, knowledgeLanguage);
+        const languages = translateFrom ? `${translateFrom}>${knowledgeLanguage}` : 'untranslated';
+        return `${prefix}:${this.agentId}:${callerLanguage}:${languages}:${query.toLowerCase().trim()}:${limit}`;
+    }
+
     /**
      * Invalidate caches when knowledge base is updated
      */
@@ -130,11 +233,84 @@ export class VoiceKnowledgeService {
     }
 
     /**
-     * Fast semantic search using RAG
+     * Run rag:search with the agent's retrieval settings
+     * 
+     * Hybrid mode sends the expanded query to the vector leg and the caller's
+     * own words to the keyword leg, so product names and SKUs match exactly.
+     * A question asked in another language than the knowledge base is also
+     * searched in translation, and the hits of both searches are merged.
+     * With a reranker, more candidates are fetched and reordered before the
+     * top results are kept.
+     */
+    private async retrieve(
+        query: string,
+        limit: number,
+        baseThreshold: number,
+        ragConfig: AgentRagConfig
+    ): Promise<RetrievalResult> {
+        let translation: QueryTranslation | null = null;
+        let translationFailed = false;
+        if (ragConfig.crossLingual !== false) {
+            try {
+                translation = await translateQuery(query, this.getCallerLanguage(), ragConfig.knowledgeLanguage ?? ENGLISH);
+            } catch (error) {
+                translationFailed = true;
+                logger.warning('Query translation failed, searching original only', {
+                    error: (error as Error).message,
+                    agentId: this.agentId,
+                });
+            }
+        }
+
+        // Expansion keywords are English - expand the translation when there is one
+        const { expanded: expandedQuery, infoType } = expandQuery(translation?.text ?? query);
+        // Lower threshold for info-type queries (address, hours, contact) - they need more recall
+        const minScore = getAdjustedThreshold(baseThreshold, infoType);
+        const rerank = ragConfig.rerank ?? 'none';
+        const fetchLimit = rerank === 'none' ? limit : Math.max(ragConfig.rerankCandidates ?? limit * 3, limit);
+
+        const runSearch = (vectorQuery: string, keywordQuery: string) => getConvexClient().action('rag:search', {
+            namespace: this.agentId,
+            query: vectorQuery,
+            keywordQuery,
+            limit: fetchLimit,
+            minScore,
+            mode: ragConfig.mode ?? 'vector',
+            vectorWeight: ragConfig.vectorWeight,
+            keywordWeight: ragConfig.keywordWeight,
+            rrfK: ragConfig.rrfK,
+        }) as Promise<any>;
+
+        const searches = translation
+            ? [
+                runSearch(query, query),
+                runSearch(expandedQuery, [translation.text, translation.transliteration].filter(Boolean).join(' ')),
+            ]
+            : [runSearch(expandedQuery, query)]; // Use expanded query for better embeddings
+        const responses = await Promise.all(searches);
+
+        const rawResults = mergeResults(responses.map(r => r?.results ?? [])).slice(0, fetchLimit);
+        if (rerank === 'none') {
+            return {
+                results: rawResults,
+                text: translation ? formatContext(rawResults) : responses[0]?.text ?? '',
+                expandedQuery,
+                infoType,
+                translation,
+                translationFailed,
+            };
+        }
+
+        const reranked = await rerankResults(translation?.text ?? query, rawResults, rerank, limit);
+        return { results: reranked, text: formatContext(reranked), expandedQuery, infoType, translation, translationFailed };
+    }
+
+    /**
+     * Fast knowledge search using RAG
      * Optimized for voice agent function calls
      * 
      * Works with any domain: products, menu items, services, FAQs, etc.
-     * Pure semantic search - domain agnostic.
+     * Semantic search by default, hybrid keyword + semantic with config.rag.mode - domain agnostic.
      */
     async search(
         query: string,
@@ -143,18 +319,12 @@ export class VoiceKnowledgeService {
     ): Promise<VoiceSearchResponse> {
         const startTime = Date.now();
 
-        // Expand short queries for better semantic matching
-        const { expanded: expandedQuery, infoType } = expandQuery(query);
-
         // Get RAG config from agent configuration
-        const ragConfig = agentConfig?.rag ?? {};
+        const ragConfig = agentConfig?.rag ?? this.ragConfig;
         const topK = limit ?? ragConfig.topK ?? 5;
-        
-        // Lower threshold for info-type queries (address, hours, contact) - they need more recall
         const baseThreshold = ragConfig.similarityThreshold ?? 0.25;
-        const similarityThreshold = getAdjustedThreshold(baseThreshold, infoType);
 
-        const cacheKey = `items:${this.agentId}:${expandedQuery}:${topK}`;
+        const cacheKey = this.resultCacheKey('items', query, topK, ragConfig);
 
         // Check result cache
         const cached = await this.resultCache.get(cacheKey);
@@ -171,19 +341,10 @@ export class VoiceKnowledgeService {
         }
 
         try {
-            const convex = getConvexClient();
-
-            // Pure semantic search - agent-scoped namespace with expanded query
-            const results = await convex.action('rag:search', {
-                namespace: this.agentId,
-                query: expandedQuery, // Use expanded query for better embeddings
-                limit: topK,
-                minScore: similarityThreshold,
-            }) as any;
-
-            const rawResults = results?.results ?? [];
-            const wasExpanded = expandedQuery !== query;
-            const topScore = rawResults[0]?.score ?? 0;
+            const { results: rawResults, expandedQuery, infoType, translation, translationFailed } = await this.retrieve(query, topK, baseThreshold, ragConfig);
+            const similarityThreshold = getAdjustedThreshold(baseThreshold, infoType);
+            const wasExpanded = expandedQuery !== (translation?.text ?? query);
+            const topScore = topSimilarity(rawResults);
             
             logger.info(
                 `RAG search completed`,
@@ -192,11 +353,16 @@ export class VoiceKnowledgeService {
                     queryLength: query.length,
                     wasExpanded,
                     expandedQuery: wasExpanded ? expandedQuery : null,
+                    translatedQuery: translation?.text ?? null,
+                    queryLanguage: translation?.sourceLanguage ?? null,
                     infoType: infoType ?? null,
                     threshold: similarityThreshold,
+                    mode: ragConfig.mode ?? 'vector',
+                    rerank: ragConfig.rerank ?? 'none',
                     topK,
                     resultsFound: rawResults.length,
                     topScore: rawResults.length > 0 ? topScore.toFixed(3) : null,
+                    topFusedScore: rawResults[0]?.fusedScore?.toFixed(3) ?? null,
                     expansionImpact: wasExpanded ? 'needs_validation' : 'not_applicable'
                 }
             );
@@ -224,6 +390,7 @@ export class VoiceKnowledgeService {
                     return {
                         ...parsed,
                         score,
+                        fusedScore: item.fusedScore,
                     };
                 });
 
@@ -234,8 +401,10 @@ export class VoiceKnowledgeService {
                 };
             }
 
-            // Cache result
-            await this.resultCache.set(cacheKey, response);
+            // Cache result (not when translation failed - the next call retries it)
+            if (!translationFailed) {
+                await this.resultCache.set(cacheKey, response);
+            }
 
             const latencyMs = Date.now() - startTime;
             
@@ -283,7 +452,7 @@ export class VoiceKnowledgeService {
         }
 
         // Phase 2: Cache lookup before RAG search
-        const cacheKey = `rag:${this.agentId}:${query.toLowerCase().trim()}:${limit}`;
+        const cacheKey = this.resultCacheKey('rag', query, limit, this.ragConfig);
         try {
             const cached = await this.resultCache.get(cacheKey);
             // The cache stores the full result object as unknown, need to cast back
@@ -304,21 +473,12 @@ export class VoiceKnowledgeService {
         }
 
         try {
-            const convex = getConvexClient();
-
-            // Expand query for better semantic matching
-            const { expanded: expandedQuery, infoType } = expandQuery(query);
-            const minScore = getAdjustedThreshold(0.25, infoType);
-
-            const results = await convex.action('rag:search', {
-                namespace: this.agentId,
-                query: expandedQuery,
+            const { results: rawResults, text: formattedText, translationFailed } = await this.retrieve(
+                query,
                 limit,
-                minScore,
-            }) as any;
-
-            const rawResults = results?.results ?? [];
-            const formattedText = results?.text ?? '';
+                this.ragConfig.similarityThreshold ?? 0.25,
+                this.ragConfig
+            );
 
             let response: VoiceSearchResponse;
 
@@ -331,6 +491,7 @@ export class VoiceKnowledgeService {
                 const items: VoiceSearchItem[] = rawResults.map((item: any) => ({
                     ...parseEnrichedText(item.text ?? ''),
                     score: item.score ?? 0,
+                    fusedScore: item.fusedScore,
                 }));
 
                 response = {
@@ -359,8 +520,8 @@ export class VoiceKnowledgeService {
                 context: formattedText,
             };
             
-            // Only cache successful results with content
-            if (response.found && formattedText) {
+            // Only cache successful results with content (and a translation, when one was needed)
+            if (response.found && formattedText && !translationFailed) {
                 this.resultCache.set(cacheKey, result as any).catch(err => {
                     logger.debug('Failed to cache RAG result', { error: err.message });
                 });
@@ -520,7 +681,11 @@ export class VoiceKnowledgeService {
                 namespace: this.agentId,
                 query,
                 limit,
-                minScore: 0.25,
+                minScore: this.ragConfig.similarityThreshold ?? 0.25,
+                mode: this.ragConfig.mode ?? 'vector',
+                vectorWeight: this.ragConfig.vectorWeight,
+                keywordWeight: this.ragConfig.keywordWeight,
+                rrfK: this.ragConfig.rrfK,
             }) as any;
 
             const rawResults = results?.results ?? [];
@@ -720,7 +885,8 @@ export class VoiceKnowledgeService {
  */
 export function createVoiceKnowledgeService(
     organizationId: string,
-    agentId: string
+    agentId: string,
+    ragConfig?: AgentRagConfig
 ): VoiceKnowledgeService {
-    return new VoiceKnowledgeService(organizationId, agentId);
+    return new VoiceKnowledgeService(organizationId, agentId, ragConfig);
 }
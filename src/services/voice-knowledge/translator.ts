@@ -0,0 +1,248 @@
+/**
+ * Query Translator for Voice Knowledge
+ *
+ * Callers ask in Tamil or Hindi while most knowledge bases are written in
+ * English. Before retrieval the query is translated into the knowledge base's
+ * language (config.rag.knowledgeLanguage), and native-script queries are also
+ * romanized so transliterated names in English chunks ("biryani") match by
+ * keyword. Both the original and the translated query are then searched.
+ *
+ * Backends (RAG_TRANSLATION_BACKEND):
+ * - sarvam: Sarvam translate + transliterate APIs (default)
+ * - local: any OpenAI-compatible chat endpoint (vLLM, Ollama...) at RAG_LOCAL_TRANSLATE_URL
+ * - none: queries are searched as spoken
+ *
+ * Translation is best-effort - on errors or timeouts only the original query is searched.
+ */
+
+import OpenAI from 'openai';
+import { config } from '../../core/config.js';
+import { logger } from '../../core/logging.js';
+import { LRUCache } from '../../utils/cache.js';
+import { getLanguageName } from '../agent-config.js';
+import { detectTextLanguage, isEnglish } from './language.js';
+
+const SARVAM_API_URL = 'https://api.sarvam.ai';
+
+/**
+ * A query in the knowledge base's language
+ */
+export interface QueryTranslation {
+    text: string;
+    /** Romanized original (native-script queries only) */
+    transliteration?: string;
+    /** Language the caller asked in */
+    sourceLanguage: string;
+}
+
+/**
+ * Translation backend
+ */
+export interface QueryTranslator {
+    readonly name: string;
+    /**
+     * @param sourceLanguage - Language code, or 'auto' for Latin-script (possibly romanized) queries
+     */
+    translate(query: string, sourceLanguage: string, targetLanguage: string, signal: AbortSignal): Promise<QueryTranslation>;
+}
+
+/**
+ * Sarvam translate (mayura) + transliterate
+ */
+export class SarvamQueryTranslator implements QueryTranslator {
+    readonly name = 'sarvam';
+
+    constructor(private apiKey: string, private model: string) {}
+
+    async translate(query: string, sourceLanguage: string, targetLanguage: string, signal: AbortSignal): Promise<QueryTranslation> {
+        const romanize = sourceLanguage !== 'auto' && isEnglish(targetLanguage);
+
+        const [translated, transliterated] = await Promise.all([
+            this.post('/translate', {
+                input: query,
+                source_language_code: sourceLanguage,
+                target_language_code: targetLanguage,
+                model: this.model,
+            }, signal),
+            romanize
+                ? this.post('/transliterate', {
+                    input: query,
+                    source_language_code: sourceLanguage,
+                    target_language_code: 'en-IN',
+                }, signal)
+                : Promise.resolve(null),
+        ]);
+
+        return {
+            text: translated.translated_text,
+            transliteration: transliterated?.transliterated_text,
+            sourceLanguage: translated.source_language_code || sourceLanguage,
+        };
+    }
+
+    private async post(path: string, body: Record<string, unknown>, signal: AbortSignal): Promise<any> {
+        const response = await fetch(`${SARVAM_API_URL}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'api-subscription-key': this.apiKey,
+            },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            throw new Error(`Sarvam ${path} returned ${response.status}`);
+        }
+        return response.json();
+    }
+}
+
+/**
+ * Local model behind an OpenAI-compatible chat endpoint
+ */
+export class LocalQueryTranslator implements QueryTranslator {
+    readonly name = 'local';
+    private client: OpenAI;
+
+    constructor(baseURL: string, private model: string, apiKey?: string) {
+        this.client = new OpenAI({ baseURL, apiKey: apiKey || 'local' });
+    }
+
+    async translate(query: string, sourceLanguage: string, targetLanguage: string, signal: AbortSignal): Promise<QueryTranslation> {
+        const response = await this.client.chat.completions.create({
+            model: this.model,
+            messages: [
+                {
+                    role: 'system',
+                    content: `Translate the caller's question into ${getLanguageName(targetLanguage)} so it can be searched in a knowledge base. ` +
+                        'Keep product names, numbers and codes as they are. ' +
+                        'Return JSON {"translation": string, "transliteration": the question in Latin letters if it is written in an Indian script, else null, "language": language code of the question, e.g. "ta-IN"}.',
+                },
+                { role: 'user', content: query },
+            ],
+            response_format: { type: 'json_object' },
+            temperature: 0,
+            max_tokens: 200,
+        }, { signal, maxRetries: 0 });
+
+        const content = response.choices[0]?.message?.content;
+        if (!content) {
+            throw new Error('Empty response from translation model');
+        }
+        const raw = JSON.parse(content);
+        if (typeof raw.translation !== 'string' || !raw.translation.trim()) {
+            throw new Error('Translation model returned no translation');
+        }
+
+        return {
+            text: raw.translation,
+            transliteration: typeof raw.transliteration === 'string' ? raw.transliteration : undefined,
+            sourceLanguage: typeof raw.language === 'string' ? raw.language : sourceLanguage,
+        };
+    }
+}
+
+let translatorInstance: QueryTranslator | null | undefined;
+
+/**
+ * Get the configured translator (null when translation is off or not set up)
+ */
+export function getQueryTranslator(): QueryTranslator | null {
+    if (translatorInstance !== undefined) return translatorInstance;
+
+    const { translationBackend, localTranslateUrl, localTranslateModel } = config.rag;
+    if (translationBackend === 'sarvam' && config.sarvam.apiKey) {
+        translatorInstance = new SarvamQueryTranslator(config.sarvam.apiKey, config.rag.sarvamTranslateModel);
+    } else if (translationBackend === 'local' && localTranslateUrl && localTranslateModel) {
+        translatorInstance = new LocalQueryTranslator(localTranslateUrl, localTranslateModel, config.rag.localTranslateApiKey);
+    } else {
+        if (translationBackend !== 'none') {
+            logger.warning('Query translation not configured - cross-lingual retrieval disabled', { backend: translationBackend });
+        }
+        translatorInstance = null;
+    }
+    return translatorInstance;
+}
+
+// Translations are reused across calls (same menu questions come up all day)
+const translationCache = new LRUCache<QueryTranslation>(1000, 3600);
+
+function baseLanguage(language: string): string {
+    return language.toLowerCase().split('-')[0];
+}
+
+/**
+ * Language to translate a query from, without translating it
+ *
+ * @returns The detected language ('auto' for romanized text), or null when the
+ *   query needs no translation or no translator is configured
+ */
+export function translationSource(
+    query: string,
+    callerLanguage: string,
+    knowledgeLanguage: string
+): string | null {
+    const trimmed = query.trim();
+    if (!trimmed) return null;
+
+    const detected = detectTextLanguage(trimmed, callerLanguage);
+    const nativeScript = !isEnglish(detected);
+    if (!nativeScript && (isEnglish(callerLanguage) || !isEnglish(knowledgeLanguage))) {
+        return null; // Latin text for an English caller, or no way to tell what it is
+    }
+    if (nativeScript && baseLanguage(detected) === baseLanguage(knowledgeLanguage)) {
+        return null;
+    }
+    if (!getQueryTranslator()) return null;
+
+    return nativeScript ? detected : 'auto';
+}
+
+/**
+ * Translate a query into the knowledge base's language when it is asked in another one
+ *
+ * @param query Query as the caller (or the LLM) phrased it
+ * @param callerLanguage Language the caller is speaking - Latin-script queries are
+ *   treated as romanized when it is not English
+ * @param knowledgeLanguage Language the knowledge base is written in
+ * @returns null when the query is already in the knowledge base's language
+ *   or translation is not configured
+ * @throws When the translator fails or times out (callers search the original only)
+ */
+export async function translateQuery(
+    query: string,
+    callerLanguage: string,
+    knowledgeLanguage: string
+): Promise<QueryTranslation | null> {
+    const sourceLanguage = translationSource(query, callerLanguage, knowledgeLanguage);
+    if (!sourceLanguage) return null;
+
+    const translator = getQueryTranslator()!;
+    const trimmed = query.trim();
+    const cacheKey = `${sourceLanguage}:${knowledgeLanguage}:${trimmed.toLowerCase()}`;
+    let translation = await translationCache.get(cacheKey);
+
+    if (!translation) {
+        const startTime = Date.now();
+        translation = await translator.translate(
+            trimmed,
+            sourceLanguage,
+            knowledgeLanguage,
+            AbortSignal.timeout(config.rag.translateTimeoutMs)
+        );
+
+        logger.info('Query translated for retrieval', {
+            backend: translator.name,
+            original: trimmed,
+            translated: translation.text,
+            transliteration: translation.transliteration ?? null,
+            sourceLanguage: translation.sourceLanguage,
+            latencyMs: Date.now() - startTime,
+        });
+        await translationCache.set(cacheKey, translation);
+    }
+
+    // Romanized queries that were English all along
+    const unchanged = translation.text.trim().toLowerCase() === trimmed.toLowerCase() && !translation.transliteration;
+    return unchanged ? null : translation;
+}
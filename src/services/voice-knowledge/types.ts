@@ -19,7 +19,10 @@ export interface ParsedItem {
  * Search result item for voice response
  */
 export interface VoiceSearchItem extends ParsedItem {
+    /** Cosine similarity (0 for hybrid hits found only by keyword) */
     score: number;
+    /** Hybrid mode RRF score (0-1) - ranking only, not a similarity */
+    fusedScore?: number;
 }
 
 /**
@@ -35,11 +38,40 @@ export interface VoiceSearchResponse {
 }
 
 /**
- * Agent configuration for RAG
+ * Retrieval modes: vector + keyword fused with RRF, or vector only
+ */
+export const RAG_MODES = ['hybrid', 'vector'] as const;
+export type RagMode = typeof RAG_MODES[number];
+
+/**
+ * Optional second pass that reorders the fused candidates
+ */
+export const RERANKERS = ['none', 'llm', 'cross_encoder'] as const;
+export type Reranker = typeof RERANKERS[number];
+
+/**
+ * Agent configuration for RAG (config.rag)
  */
 export interface AgentRagConfig {
     topK?: number;
+    /** Minimum cosine similarity for vector hits */
     similarityThreshold?: number;
+    /** Default vector - hybrid adds the keyword leg */
+    mode?: RagMode;
+    /** RRF weight of vector hits (default 1) */
+    vectorWeight?: number;
+    /** RRF weight of keyword hits (default 1) - raise for catalogs full of product names and SKUs */
+    keywordWeight?: number;
+    /** RRF constant (default 60) - lower favours the top few hits of each leg */
+    rrfK?: number;
+    /** Default none */
+    rerank?: Reranker;
+    /** Fused hits handed to the reranker (default 3x topK) */
+    rerankCandidates?: number;
+    /** Also search a translation of questions asked in another language (default true) */
+    crossLingual?: boolean;
+    /** Language the knowledge base is written in (default en-IN) */
+    knowledgeLanguage?: string;
 }
 
 /**
@@ -0,0 +1,337 @@
+/**
+ * Web Crawler
+ *
+ * Fetches the pages for a URL ingestion and extracts them into structured
+ * elements. Crawling is deliberately conservative:
+ * - only the starting site (www. and bare host count as one site)
+ * - only public addresses, checked on every connection including redirects (see fetch.ts)
+ * - robots.txt is honored, including Crawl-delay
+ * - one request at a time, bounded by max pages, max depth, total requests, timeout and page size
+ * - only text/html responses are extracted; failed pages are skipped, not fatal
+ *
+ * @module web-crawler/crawler
+ */
+
+import { logger } from '../../core/logging.js';
+import { assertPublicUrl, fetchPublic, readBodyLimited } from './fetch.js';
+import { extractHtml } from './html.js';
+import { parseRobotsTxt, RobotsRules } from './robots.js';
+import { isSitemapXml, parseSitemap } from './sitemap.js';
+import {
+    CRAWL_LIMITS,
+    CRAWLER_USER_AGENT,
+    WebCrawlError,
+    type CrawledPage,
+    type CrawlOptions,
+    type CrawlResult,
+} from './types.js';
+
+// Links to files that are never HTML pages
+const NON_HTML_EXTENSIONS = /\.(pdf|docx?|xlsx?|pptx?|csv|zip|gz|rar|jpe?g|png|gif|webp|svg|ico|mp3|mp4|mov|avi|css|js|json|xml|woff2?|ttf)$/i;
+
+interface FetchedText {
+    url: string;
+    contentType: string;
+    body: string;
+}
+
+function siteOf(url: string): string {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+}
+
+function normalizeUrl(url: string): string {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function clamp(value: number | undefined, fallback: number, max: number): number {
+    if (value === undefined || !Number.isFinite(value)) return fallback;
+    return Math.min(Math.max(1, Math.floor(value)), max);
+}
+
+/**
+ * Crawler for one URL ingestion (robots.txt rules are cached per crawl)
+ */
+export class WebCrawler {
+    private robots = new Map<string, RobotsRules>();
+    private lastFetchAt = 0;
+    private site = '';
+    private fetches = 0;
+    private maxFetches: number = CRAWL_LIMITS.maxFetches;
+
+    /**
+     * Fetch and extract the pages for a URL
+     * @throws WebCrawlError if the URL is invalid, not public, or no page could be extracted
+     */
+    async crawl(options: CrawlOptions): Promise<CrawlResult> {
+        const start = await assertPublicUrl(options.url);
+
+        this.site = siteOf(start.href);
+        const maxPages = clamp(options.maxPages, CRAWL_LIMITS.defaultMaxPages, CRAWL_LIMITS.maxPages);
+        this.maxFetches = Math.min(CRAWL_LIMITS.maxFetches, maxPages * CRAWL_LIMITS.fetchesPerPage);
+        const result: CrawlResult = { pages: [], skipped: [], totalBytes: 0 };
+
+        const crawlPage = async (url: string): Promise<string[]> => {
+            const links = await this.crawlPage(url, result);
+            await options.onProgress?.({
+                pages: result.pages.length,
+                skipped: result.skipped.length,
+                fetches: this.fetches,
+                maxPages,
+            });
+            return links;
+        };
+
+        logger.info('Starting web crawl', { url: start.href, mode: options.mode, maxPages, maxFetches: this.maxFetches });
+
+        if (options.mode === 'page') {
+            await crawlPage(start.href);
+        } else if (options.mode === 'sitemap') {
+            const urls = await this.collectSitemapUrls(start.href, maxPages);
+            if (urls.length === 0) {
+                throw new WebCrawlError(`No sitemap pages found for ${start.href}`);
+            }
+            for (const url of urls) {
+                if (this.fetches >= this.maxFetches) break;
+                await crawlPage(url);
+            }
+        } else {
+            const maxDepth = clamp(options.maxDepth, CRAWL_LIMITS.defaultMaxDepth, CRAWL_LIMITS.maxDepth);
+            await this.crawlLinks(start.href, maxPages, maxDepth, crawlPage, result);
+        }
+
+        logger.info('Web crawl complete', {
+            url: start.href,
+            pages: result.pages.length,
+            skipped: result.skipped.length,
+            fetches: this.fetches,
+            totalBytes: result.totalBytes,
+        });
+        if (this.fetches >= this.maxFetches) {
+            logger.warning('Web crawl stopped at fetch limit', { url: start.href, maxFetches: this.maxFetches });
+        }
+
+        if (result.pages.length === 0) {
+            const reason = result.skipped[0]?.reason ?? 'no pages fetched';
+            throw new WebCrawlError(`Nothing could be ingested from ${start.href}: ${reason}`);
+        }
+        return result;
+    }
+
+    /**
+     * Breadth-first crawl of same-site links
+     * Stops at max pages kept or the fetch limit, so a site of skipped pages can't keep it going.
+     */
+    private async crawlLinks(
+        startUrl: string,
+        maxPages: number,
+        maxDepth: number,
+        crawlPage: (url: string) => Promise<string[]>,
+        result: CrawlResult
+    ): Promise<void> {
+        const queue: Array<{ url: string; depth: number }> = [{ url: normalizeUrl(startUrl), depth: 0 }];
+        const seen = new Set([queue[0].url]);
+
+        while (queue.length > 0 && result.pages.length < maxPages && this.fetches < this.maxFetches) {
+            const { url, depth } = queue.shift()!;
+            const links = await crawlPage(url);
+            if (depth >= maxDepth) continue;
+
+            for (const link of links) {
+                const normalized = normalizeUrl(link);
+                if (seen.has(normalized) || !this.isCrawlable(normalized)) continue;
+                seen.add(normalized);
+                queue.push({ url: normalized, depth: depth + 1 });
+            }
+        }
+    }
+
+    /**
+     * Page URLs from the sitemap at the URL, or the site's sitemaps when the URL is a page
+     */
+    private async collectSitemapUrls(url: string, maxPages: number): Promise<string[]> {
+        const origin = new URL(url).origin;
+        let pending = [url];
+
+        // A site URL rather than a sitemap: use robots.txt Sitemap lines, else /sitemap.xml
+        if (!/\.xml$/i.test(new URL(url).pathname)) {
+            const robots = await this.getRobots(url);
+            pending = robots.sitemaps.length > 0 ? [...robots.sitemaps] : [`${origin}/sitemap.xml`];
+        }
+
+        const pages: string[] = [];
+        const fetched = new Set<string>();
+
+        while (
+            pending.length > 0 &&
+            fetched.size < CRAWL_LIMITS.maxSitemapFiles &&
+            pages.length < maxPages &&
+            this.fetches < this.maxFetches
+        ) {
+            const sitemapUrl = pending.shift()!;
+            if (fetched.has(sitemapUrl)) continue;
+            fetched.add(sitemapUrl);
+
+            try {
+                await this.throttle(await this.getRobots(sitemapUrl));
+                const response = await this.fetchText(sitemapUrl);
+                if (!isSitemapXml(response.body)) {
+                    logger.warning('Not a sitemap, skipping', { url: sitemapUrl });
+                    continue;
+                }
+                const sitemap = parseSitemap(response.body);
+                pending.push(...sitemap.sitemaps);
+                for (const page of sitemap.pages) {
+                    if (pages.length >= maxPages) break;
+                    if (this.isCrawlable(page) && !pages.includes(normalizeUrl(page))) {
+                        pages.push(normalizeUrl(page));
+                    }
+                }
+            } catch (error) {
+                logger.warning('Failed to fetch sitemap', { url: sitemapUrl, error: (error as Error).message });
+            }
+        }
+
+        return pages;
+    }
+
+    /**
+     * Fetch and extract one page
+     * @returns Links on the page (empty when it was skipped)
+     */
+    private async crawlPage(url: string, result: CrawlResult): Promise<string[]> {
+        const robots = await this.getRobots(url);
+        if (!robots.isAllowed(url)) {
+            result.skipped.push({ url, reason: 'disallowed by robots.txt' });
+            return [];
+        }
+
+        try {
+            await this.throttle(robots);
+            const response = await this.fetchText(url);
+
+            if (!/html/i.test(response.contentType)) {
+                result.skipped.push({ url, reason: `not an HTML page (${response.contentType || 'unknown type'})` });
+                return [];
+            }
+            if (siteOf(response.url) !== this.site) {
+                result.skipped.push({ url, reason: `redirected off-site to ${response.url}` });
+                return [];
+            }
+
+            const extracted = extractHtml(response.body, response.url);
+            const bytes = Buffer.byteLength(response.body);
+            result.totalBytes += bytes;
+
+            if (extracted.elements.length === 0) {
+                result.skipped.push({ url, reason: 'no text content' });
+            } else {
+                const page: CrawledPage = {
+                    url: response.url,
+                    title: extracted.title || new URL(response.url).pathname,
+                    language: extracted.language,
+                    elements: extracted.elements,
+                    bytes,
+                };
+                result.pages.push(page);
+                logger.debug('Crawled page', { url: page.url, elements: page.elements.length });
+            }
+            return extracted.links;
+        } catch (error) {
+            result.skipped.push({ url, reason: (error as Error).message });
+            return [];
+        }
+    }
+
+    private isCrawlable(url: string): boolean {
+        try {
+            const parsed = new URL(url);
+            return (parsed.protocol === 'http:' || parsed.protocol === 'https:') &&
+                siteOf(parsed.href) === this.site &&
+                !NON_HTML_EXTENSIONS.test(parsed.pathname);
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * robots.txt rules for a URL's origin
+     * A missing robots.txt allows everything; a server error disallows everything (RFC 9309).
+     */
+    private async getRobots(url: string): Promise<RobotsRules> {
+        const origin = new URL(url).origin;
+        const cached = this.robots.get(origin);
+        if (cached) return cached;
+
+        let rules = new RobotsRules();
+        try {
+            const { response } = await this.request(`${origin}/robots.txt`, {
+                headers: { 'User-Agent': CRAWLER_USER_AGENT },
+                signal: AbortSignal.timeout(CRAWL_LIMITS.fetchTimeoutMs),
+            });
+            if (response.ok) {
+                const body = await readBodyLimited(response, CRAWL_LIMITS.maxPageBytes);
+                rules = parseRobotsTxt(new TextDecoder().decode(body));
+            } else if (response.status >= 500) {
+                rules = parseRobotsTxt('User-agent: *\nDisallow: /');
+            }
+        } catch (error) {
+            logger.debug('robots.txt not reachable, crawling without it', { origin, error: (error as Error).message });
+        }
+
+        this.robots.set(origin, rules);
+        return rules;
+    }
+
+    private async throttle(robots: RobotsRules): Promise<void> {
+        const delay = Math.max(CRAWL_LIMITS.minDelayMs, Math.min(robots.crawlDelayMs, CRAWL_LIMITS.maxCrawlDelayMs));
+        const wait = this.lastFetchAt + delay - Date.now();
+        if (wait > 0) await sleep(wait);
+        this.lastFetchAt = Date.now();
+    }
+
+    /**
+     * Every request goes through here so it is counted against the fetch limit
+     */
+    private async request(url: string, init: RequestInit): Promise<{ response: Response; url: string }> {
+        if (this.fetches >= this.maxFetches) {
+            throw new Error(`fetch limit of ${this.maxFetches} requests reached`);
+        }
+        this.fetches++;
+        return fetchPublic(url, init);
+    }
+
+    private async fetchText(url: string): Promise<FetchedText> {
+        const { response, url: finalUrl } = await this.request(url, {
+            headers: {
+                'User-Agent': CRAWLER_USER_AGENT,
+                Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+            },
+            signal: AbortSignal.timeout(CRAWL_LIMITS.fetchTimeoutMs),
+        });
+        if (!response.ok) {
+            await response.body?.cancel();
+            throw new Error(`HTTP ${response.status}`);
+        }
+
+        const body = await readBodyLimited(response, CRAWL_LIMITS.maxPageBytes);
+
+        return {
+            url: finalUrl,
+            contentType: response.headers.get('content-type') ?? '',
+            body: new TextDecoder().decode(body),
+        };
+    }
+}
+
+/**
+ * Fetch and extract the pages for a URL ingestion
+ */
+export async function crawlWebsite(options: CrawlOptions): Promise<CrawlResult> {
+    return new WebCrawler().crawl(options);
+}
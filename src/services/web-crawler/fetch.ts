@@ -0,0 +1,193 @@
+/**
+ * Public-Only Fetch
+ *
+ * URL ingestion fetches whatever address a caller sends, and the fetched text
+ * ends up in a knowledge base they can read back. Every connection - including
+ * each redirect hop - is therefore refused when the host is loopback, private
+ * (RFC 1918, CGNAT, ULA), link-local (including the cloud metadata address
+ * 169.254.169.254) or otherwise not publicly routable.
+ *
+ * Hostnames are checked in the connection's own DNS lookup, not in a separate
+ * one beforehand, so a host that re-resolves to a private address between the
+ * check and the connect (DNS rebinding) is still refused.
+ *
+ * @module web-crawler/fetch
+ */
+
+import { lookup, type LookupAddress, type LookupOptions } from 'node:dns';
+import { lookup as lookupAll } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { Agent } from 'undici';
+import { WebCrawlError } from './types.js';
+
+// Redirect hops followed before giving up
+const MAX_REDIRECTS = 5;
+
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],         // "this" network
+    ['10.0.0.0', 8],        // RFC 1918
+    ['100.64.0.0', 10],     // Carrier-grade NAT
+    ['127.0.0.0', 8],       // Loopback
+    ['169.254.0.0', 16],    // Link-local, cloud metadata
+    ['172.16.0.0', 12],     // RFC 1918
+    ['192.0.0.0', 24],      // IETF protocol assignments
+    ['192.168.0.0', 16],    // RFC 1918
+    ['198.18.0.0', 15],     // Benchmarking
+    ['224.0.0.0', 4],       // Multicast
+    ['240.0.0.0', 4],       // Reserved, broadcast
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 128],            // Unspecified
+    ['::1', 128],           // Loopback
+    ['64:ff9b::', 96],      // NAT64 (embeds an IPv4 address)
+    ['fc00::', 7],          // Unique local
+    ['fe80::', 10],         // Link-local
+    ['ff00::', 8],          // Multicast
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * True if an IP address is not publicly routable
+ * IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked as IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+    const family = isIP(address);
+    if (family === 0) return true;
+    return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup for outgoing connections that fails when any resolved address is private
+ */
+function publicLookup(
+    hostname: string,
+    options: LookupOptions,
+    callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+    lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, []);
+        if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+            return callback(new WebCrawlError(`${hostname} is not a public address`), []);
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+}
+
+// Connections only ever reach public addresses, whatever DNS says by the time they open
+const publicDispatcher = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * Parse a URL and check what can be checked without DNS: the scheme, and IP
+ * literal hosts (which connect without a lookup)
+ * @throws WebCrawlError if the URL can't be fetched
+ */
+function parsePublicUrl(url: string | URL): URL {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new WebCrawlError(`Invalid URL: ${url}`);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new WebCrawlError('Only http and https URLs can be ingested');
+    }
+
+    // IPv6 literals keep their brackets in URL.hostname
+    const host = parsed.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(host) && isPrivateAddress(host)) {
+        throw new WebCrawlError(`${parsed.hostname} is not a public address`);
+    }
+    return parsed;
+}
+
+/**
+ * Check that a URL is http(s) and every address its host resolves to right now is public
+ * For rejecting a URL up front with a clear error - fetchPublic enforces the
+ * same rule again when it connects.
+ * @throws WebCrawlError if it isn't
+ */
+export async function assertPublicUrl(url: string | URL): Promise<URL> {
+    const parsed = parsePublicUrl(url);
+    const host = parsed.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(host)) return parsed;
+
+    let addresses: string[];
+    try {
+        addresses = (await lookupAll(host, { all: true })).map(entry => entry.address);
+    } catch {
+        throw new WebCrawlError(`Could not resolve ${parsed.hostname}`);
+    }
+
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+        throw new WebCrawlError(`${parsed.hostname} is not a public address`);
+    }
+    return parsed;
+}
+
+/**
+ * fetch() restricted to public addresses
+ * Every connection resolves through publicLookup, and redirects are followed
+ * by hand so each hop is checked too.
+ *
+ * @returns The final response and its URL
+ */
+export async function fetchPublic(url: string, init: RequestInit = {}): Promise<{ response: Response; url: string }> {
+    let current = url;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        parsePublicUrl(current);
+        let response: Response;
+        try {
+            response = await fetch(current, { ...init, redirect: 'manual', dispatcher: publicDispatcher } as RequestInit);
+        } catch (error) {
+            // fetch() wraps connect errors in "fetch failed" - surface the blocked address instead
+            const cause = (error as Error).cause;
+            throw cause instanceof WebCrawlError ? cause : error;
+        }
+
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) {
+            return { response, url: current };
+        }
+
+        await response.body?.cancel();
+        current = new URL(location, current).href;
+    }
+
+    throw new Error(`more than ${MAX_REDIRECTS} redirects`);
+}
+
+/**
+ * Read a response body, aborting as soon as it grows past maxBytes
+ * (Content-Length is checked first but can be missing or wrong)
+ */
+export async function readBodyLimited(response: Response, maxBytes: number): Promise<Buffer> {
+    const tooLarge = () => new Error(`larger than ${maxBytes} bytes`);
+
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+        await response.body?.cancel();
+        throw tooLarge();
+    }
+    if (!response.body) return Buffer.alloc(0);
+
+    const reader = response.body.getReader();
+    const parts: Uint8Array[] = [];
+    let total = 0;
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        total += value.byteLength;
+        if (total > maxBytes) {
+            await reader.cancel();
+            throw tooLarge();
+        }
+        parts.push(value);
+    }
+    return Buffer.concat(parts);
+}
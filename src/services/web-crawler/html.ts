@@ -0,0 +1,235 @@
+/**
+ * HTML Extraction
+ *
+ * Turns a web page into the document parser's StructuredElement format so it
+ * goes through the same chunking as uploaded documents:
+ * - h1-h6 → heading, p/div/section text → paragraph
+ * - ul/ol → one list element per top-level list ("- item", nested items indented)
+ * - table → markdown pipe table
+ *
+ * Page chrome (nav, footer, aside, forms, scripts, a site <header> outside
+ * main/article, hidden elements) is skipped. Links - including those in the
+ * navigation - are collected for the crawler.
+ *
+ * @module web-crawler/html
+ */
+
+import { Parser } from 'htmlparser2';
+import type { StructuredElement } from '../document-parser/types.js';
+import { buildHierarchyFromElements } from '../document-parser/extractor.js';
+
+/**
+ * Content extracted from one page
+ */
+export interface ExtractedHtml {
+    title: string;
+    language?: string;
+    elements: StructuredElement[];
+    /** Absolute http(s) URLs of <a href> links on the page */
+    links: string[];
+}
+
+const SKIPPED_TAGS = new Set([
+    'script', 'style', 'noscript', 'template', 'svg', 'iframe', 'canvas',
+    'nav', 'footer', 'aside', 'form', 'button', 'select', 'dialog',
+]);
+
+const BLOCK_TAGS = new Set([
+    'p', 'div', 'section', 'article', 'main', 'header', 'blockquote', 'pre',
+    'dl', 'dt', 'dd', 'figure', 'figcaption', 'address', 'br', 'hr', 'body',
+]);
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+function normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function isHidden(attribs: Record<string, string>): boolean {
+    return 'hidden' in attribs ||
+        attribs['aria-hidden'] === 'true' ||
+        attribs.role === 'navigation' ||
+        /display\s*:\s*none/i.test(attribs.style ?? '');
+}
+
+function toMarkdownTable(rows: string[][]): string {
+    const width = Math.max(...rows.map(row => row.length));
+    const lines = rows.map(row => {
+        const cells = [...row, ...Array(width - row.length).fill('')];
+        return `| ${cells.join(' | ')} |`;
+    });
+    lines.splice(1, 0, `|${' --- |'.repeat(width)}`);
+    return lines.join('\n');
+}
+
+/**
+ * Extract structured elements, title and links from an HTML page
+ *
+ * @param html Page source
+ * @param pageUrl Final URL of the page (for resolving relative links)
+ */
+export function extractHtml(html: string, pageUrl: string): ExtractedHtml {
+    const elements: StructuredElement[] = [];
+    const links: string[] = [];
+    let title = '';
+    let language: string | undefined;
+    let baseUrl = pageUrl;
+
+    // Open tags, and whether each one hides its content
+    const stack: Array<{ name: string; skip: boolean }> = [];
+    let skipDepth = 0;
+    let inTitle = false;
+    let contentDepth = 0; // inside <main>/<article>
+
+    let buffer = '';
+    let headingLevel = 0;
+
+    let listDepth = 0;
+    let listItems: string[] = [];
+
+    let tableDepth = 0;
+    let tableRows: string[][] = [];
+    let tableRow: string[] = [];
+
+    const flushParagraph = () => {
+        const text = normalize(buffer);
+        buffer = '';
+        if (!text) return;
+        if (listDepth > 0) {
+            listItems.push(`${'  '.repeat(listDepth - 1)}- ${text}`);
+        } else {
+            elements.push({ type: 'paragraph', text, markdown: text });
+        }
+    };
+
+    const parser = new Parser({
+        onopentag(name, attribs) {
+            // Navigation links are followed even though their text is skipped
+            if (name === 'a' && attribs.href) {
+                try {
+                    const link = new URL(attribs.href, baseUrl);
+                    if (link.protocol === 'http:' || link.protocol === 'https:') {
+                        link.hash = '';
+                        links.push(link.href);
+                    }
+                } catch {
+                    // Ignore malformed hrefs
+                }
+            }
+
+            const skip = skipDepth > 0 ||
+                SKIPPED_TAGS.has(name) ||
+                (name === 'header' && contentDepth === 0) ||
+                isHidden(attribs);
+            stack.push({ name, skip });
+            if (skip) {
+                skipDepth++;
+                return;
+            }
+
+            if (name === 'html' && attribs.lang) language = attribs.lang;
+            if (name === 'base' && attribs.href) {
+                try { baseUrl = new URL(attribs.href, pageUrl).href; } catch { /* keep page URL */ }
+            }
+            if (name === 'title') inTitle = true;
+            if (name === 'main' || name === 'article') contentDepth++;
+
+            if (tableDepth > 0) {
+                if (name === 'table') tableDepth++;
+                else if (name === 'br') buffer += ' ';
+                return;
+            }
+
+            if (name === 'table') {
+                flushParagraph();
+                tableDepth = 1;
+                tableRows = [];
+                tableRow = [];
+            } else if (name === 'ul' || name === 'ol') {
+                flushParagraph();
+                listDepth++;
+            } else if (name === 'li') {
+                flushParagraph();
+            } else if (HEADING_TAGS.has(name)) {
+                flushParagraph();
+                headingLevel = Number(name[1]);
+            } else if (BLOCK_TAGS.has(name)) {
+                flushParagraph();
+            }
+        },
+
+        ontext(text) {
+            if (skipDepth > 0) return;
+            if (inTitle) {
+                title += text;
+            } else if (stack.length > 0) {
+                buffer += text;
+            }
+        },
+
+        onclosetag(name) {
+            // htmlparser2 closes implied tags itself, so the top of the stack matches
+            const open = stack.pop();
+            if (!open) return;
+            if (open.skip) {
+                skipDepth--;
+                return;
+            }
+
+            if (name === 'title') inTitle = false;
+            if (name === 'main' || name === 'article') contentDepth--;
+
+            if (tableDepth > 0) {
+                if (name === 'td' || name === 'th') {
+                    tableRow.push(normalize(buffer).replace(/\|/g, '/'));
+                    buffer = '';
+                } else if (name === 'tr') {
+                    if (tableRow.some(Boolean)) tableRows.push(tableRow);
+                    tableRow = [];
+                } else if (name === 'table' && --tableDepth === 0) {
+                    if (tableRow.some(Boolean)) tableRows.push(tableRow);
+                    buffer = '';
+                    if (tableRows.length > 0) {
+                        const markdown = toMarkdownTable(tableRows);
+                        elements.push({ type: 'table', text: markdown, markdown });
+                    }
+                }
+                return;
+            }
+
+            if (HEADING_TAGS.has(name) && headingLevel > 0) {
+                const text = normalize(buffer);
+                buffer = '';
+                if (text) {
+                    elements.push({
+                        type: 'heading',
+                        level: headingLevel,
+                        text,
+                        markdown: `${'#'.repeat(headingLevel)} ${text}`,
+                    });
+                }
+                headingLevel = 0;
+            } else if (name === 'ul' || name === 'ol') {
+                flushParagraph();
+                if (--listDepth === 0 && listItems.length > 0) {
+                    const text = listItems.join('\n');
+                    elements.push({ type: 'list', text, markdown: text });
+                    listItems = [];
+                }
+            } else if (name === 'li' || BLOCK_TAGS.has(name)) {
+                flushParagraph();
+            }
+        },
+    }, { decodeEntities: true });
+
+    parser.write(html);
+    parser.end();
+    flushParagraph();
+
+    return {
+        title: normalize(title),
+        language,
+        elements: buildHierarchyFromElements(elements),
+        links: [...new Set(links)],
+    };
+}
@@ -0,0 +1,38 @@
+/**
+ * Web Crawler Module
+ *
+ * URL ingestion: fetches a page, a sitemap's pages, or a bounded same-site
+ * crawl (robots.txt respected) and extracts each page into StructuredElements
+ * for the chunking pipeline.
+ *
+ * @module web-crawler
+ */
+
+// Types
+export {
+    WebCrawlError,
+    CRAWL_MODES,
+    CRAWL_LIMITS,
+    CRAWLER_USER_AGENT,
+} from './types.js';
+
+export type {
+    CrawlMode,
+    CrawlOptions,
+    CrawlProgress,
+    CrawledPage,
+    CrawlResult,
+} from './types.js';
+
+// Parsing
+export { extractHtml } from './html.js';
+export type { ExtractedHtml } from './html.js';
+export { parseRobotsTxt, RobotsRules } from './robots.js';
+export { parseSitemap, isSitemapXml } from './sitemap.js';
+export type { ParsedSitemap } from './sitemap.js';
+
+// Fetching (public addresses only)
+export { isPrivateAddress, assertPublicUrl, fetchPublic, readBodyLimited } from './fetch.js';
+
+// Crawler
+export { WebCrawler, crawlWebsite } from './crawler.js';
@@ -0,0 +1,117 @@
+/**
+ * robots.txt Support
+ *
+ * Parses the group that applies to us (our own User-agent, else "*") and
+ * answers whether a path may be fetched. Matching follows RFC 9309: the
+ * longest matching rule wins, Allow wins ties, "*" and "$" are wildcards.
+ *
+ * @module web-crawler/robots
+ */
+
+import { CRAWLER_AGENT_TOKEN } from './types.js';
+
+interface RobotsRule {
+    allow: boolean;
+    pattern: string;
+    regex: RegExp;
+}
+
+/**
+ * Rules from one site's robots.txt
+ */
+export class RobotsRules {
+    constructor(
+        private readonly rules: RobotsRule[] = [],
+        /** Crawl-delay in milliseconds (0 when not set) */
+        readonly crawlDelayMs: number = 0,
+        /** Sitemap URLs listed in the file */
+        readonly sitemaps: string[] = []
+    ) {}
+
+    /**
+     * Check if a URL's path may be fetched
+     */
+    isAllowed(url: string): boolean {
+        const { pathname, search } = new URL(url);
+        const target = pathname + search;
+
+        let best: RobotsRule | null = null;
+        for (const rule of this.rules) {
+            if (!rule.regex.test(target)) continue;
+            if (
+                !best ||
+                rule.pattern.length > best.pattern.length ||
+                (rule.pattern.length === best.pattern.length && rule.allow)
+            ) {
+                best = rule;
+            }
+        }
+        return best ? best.allow : true;
+    }
+}
+
+function toRegex(pattern: string): RegExp {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Parse a robots.txt file
+ */
+export function parseRobotsTxt(content: string): RobotsRules {
+    type Group = { agents: string[]; rules: RobotsRule[]; crawlDelayMs: number };
+    const groups: Group[] = [];
+    const sitemaps: string[] = [];
+    let current: Group | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+
+        const field = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+
+        if (field === 'sitemap') {
+            if (value) sitemaps.push(value);
+            continue;
+        }
+
+        if (field === 'user-agent') {
+            // Consecutive User-agent lines share one group
+            if (!current || !lastWasAgent) {
+                current = { agents: [], rules: [], crawlDelayMs: 0 };
+                groups.push(current);
+            }
+            current.agents.push(value.toLowerCase());
+            lastWasAgent = true;
+            continue;
+        }
+
+        lastWasAgent = false;
+        if (!current) continue;
+
+        if ((field === 'allow' || field === 'disallow') && value) {
+            current.rules.push({ allow: field === 'allow', pattern: value, regex: toRegex(value) });
+        } else if (field === 'crawl-delay') {
+            const seconds = parseFloat(value);
+            if (Number.isFinite(seconds) && seconds > 0) {
+                current.crawlDelayMs = seconds * 1000;
+            }
+        }
+    }
+
+    const ours = groups.filter(g => g.agents.some(agent => agent === CRAWLER_AGENT_TOKEN));
+    const applicable = ours.length > 0 ? ours : groups.filter(g => g.agents.includes('*'));
+
+    return new RobotsRules(
+        applicable.flatMap(g => g.rules),
+        Math.max(0, ...applicable.map(g => g.crawlDelayMs)),
+        sitemaps
+    );
+}
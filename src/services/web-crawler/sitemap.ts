@@ -0,0 +1,50 @@
+/**
+ * Sitemap Parsing
+ *
+ * Reads <loc> entries from sitemap.xml files. A sitemap index lists further
+ * sitemaps instead of pages; the crawler fetches those (bounded by
+ * CRAWL_LIMITS.maxSitemapFiles).
+ *
+ * @module web-crawler/sitemap
+ */
+
+export interface ParsedSitemap {
+    /** Page URLs (<urlset>) */
+    pages: string[];
+    /** Child sitemap URLs (<sitemapindex>) */
+    sitemaps: string[];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&apos;': "'",
+};
+
+function decodeXml(value: string): string {
+    return value
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/&(amp|lt|gt|quot|apos);/g, entity => XML_ENTITIES[entity]);
+}
+
+/**
+ * Parse a sitemap or sitemap index
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+    const locs = [...xml.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi)]
+        .map(match => decodeXml(match[1]).trim())
+        .filter(Boolean);
+
+    return /<sitemapindex[\s>]/i.test(xml)
+        ? { pages: [], sitemaps: locs }
+        : { pages: locs, sitemaps: [] };
+}
+
+/**
+ * Check if a response body looks like a sitemap
+ */
+export function isSitemapXml(body: string): boolean {
+    return /<(urlset|sitemapindex)[\s>]/i.test(body);
+}
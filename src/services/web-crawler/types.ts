@@ -0,0 +1,92 @@
+/**
+ * Web Crawler Types
+ *
+ * Type definitions for URL ingestion (single page, sitemap, same-domain crawl).
+ *
+ * @module web-crawler/types
+ */
+
+import type { StructuredElement } from '../document-parser/types.js';
+
+/**
+ * Custom error for crawl failures (bad URL, blocked by robots.txt, nothing fetched)
+ */
+export class WebCrawlError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WebCrawlError';
+    }
+}
+
+/**
+ * How the starting URL is expanded into pages
+ * - page: just that URL
+ * - sitemap: every page listed in the sitemap (URL of a sitemap.xml, or a site whose robots.txt/sitemap.xml lists one)
+ * - crawl: breadth-first over same-domain links, starting at the URL
+ */
+export const CRAWL_MODES = ['page', 'sitemap', 'crawl'] as const;
+export type CrawlMode = typeof CRAWL_MODES[number];
+
+/**
+ * Crawl limits
+ */
+export const CRAWL_LIMITS = {
+    defaultMaxPages: 25,
+    maxPages: 200,          // Hard cap for max_pages
+    defaultMaxDepth: 2,
+    maxDepth: 5,            // Hard cap for max_depth
+    fetchTimeoutMs: 15000,
+    maxPageBytes: 2 * 1024 * 1024,
+    minDelayMs: 250,        // Politeness delay between requests
+    maxCrawlDelayMs: 5000,  // Upper bound for a robots.txt Crawl-delay
+    maxSitemapFiles: 10,    // Sitemap index fan-out
+    fetchesPerPage: 3,      // Request budget per requested page (skipped pages, robots.txt and sitemaps count too)
+    maxFetches: 400,        // Hard cap on requests per crawl
+};
+
+export const CRAWLER_USER_AGENT = 'VoiceAgentBot/1.0 (+knowledge-base ingestion)';
+
+// Token matched against robots.txt User-agent lines
+export const CRAWLER_AGENT_TOKEN = 'voiceagentbot';
+
+/**
+ * Options for a crawl
+ */
+export interface CrawlOptions {
+    url: string;
+    mode: CrawlMode;
+    maxPages?: number;
+    maxDepth?: number;      // crawl mode only
+    /** Called after each page is fetched (kept or skipped) */
+    onProgress?: (progress: CrawlProgress) => Promise<void> | void;
+}
+
+/**
+ * Crawl progress reported to onProgress
+ */
+export interface CrawlProgress {
+    pages: number;          // Pages kept so far
+    skipped: number;
+    fetches: number;        // Requests made (including robots.txt and sitemaps)
+    maxPages: number;
+}
+
+/**
+ * One fetched page, extracted into the document parser's element format
+ */
+export interface CrawledPage {
+    url: string;
+    title: string;
+    language?: string;      // <html lang>
+    elements: StructuredElement[];
+    bytes: number;
+}
+
+/**
+ * Crawl result
+ */
+export interface CrawlResult {
+    pages: CrawledPage[];
+    skipped: Array<{ url: string; reason: string }>;
+    totalBytes: number;
+}
@@ -11,6 +11,7 @@
 import { z } from 'zod';
 import dotenv from 'dotenv';
 import { logger } from '../core/logging.js';
+import { TransferOutcome } from './types.js';
 
 dotenv.config();
 
@@ -212,6 +213,44 @@ export function generateSIPRoomName(organizationId: string, agentId: string): st
   return `${telephonyConfig.sipRoomPrefix}${organizationId}_${agentId}_${uniqueId}`;
 }
 
+/**
+ * SIP status codes that mean the callee is busy or declined
+ */
+const BUSY_STATUS_CODES = new Set([486, 600, 603]);
+
+/**
+ * SIP status codes that mean nobody picked up in time
+ */
+const NO_ANSWER_STATUS_CODES = new Set([408, 480, 487]);
+
+/**
+ * Read the SIP status code LiveKit attaches to Twirp errors
+ */
+export function getSipStatusCode(error: unknown): number | undefined {
+  const metadata = (error as { metadata?: Record<string, string> })?.metadata;
+  const raw = metadata?.sip_status_code;
+  const code = raw ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(code) ? code : undefined;
+}
+
+/**
+ * Map a failed dial (transfer or outbound call) to busy / no answer / failed
+ */
+export function classifySipFailure(sipStatusCode: number | undefined, message: string): TransferOutcome {
+  if (sipStatusCode !== undefined) {
+    if (BUSY_STATUS_CODES.has(sipStatusCode)) return TransferOutcome.BUSY;
+    if (NO_ANSWER_STATUS_CODES.has(sipStatusCode)) return TransferOutcome.NO_ANSWER;
+  }
+
+  const lower = message.toLowerCase();
+  if (lower.includes('busy')) return TransferOutcome.BUSY;
+  if (lower.includes('no answer') || lower.includes('timeout') || lower.includes('not answered')) {
+    return TransferOutcome.NO_ANSWER;
+  }
+
+  return TransferOutcome.FAILED;
+}
+
 /**
  * Parse SIP room name to extract organization and agent IDs
  */
@@ -0,0 +1,296 @@
+/**
+ * DTMF Handler - Keypad input from SIP callers
+ *
+ * Handles:
+ * - Listening to LiveKit SIP DTMF events on the room
+ * - Collecting digit sequences (max digits, terminator, timeouts)
+ * - Pre-conversation IVR menus ("press 1 for Hindi, 2 for Tamil")
+ */
+
+import { RoomEvent, type Room, type RemoteParticipant } from '@livekit/rtc-node';
+import { logger } from '../core/logging.js';
+import type {
+  DTMFEvent,
+  DigitCollectionOptions,
+  DigitCollectionReason,
+  DigitCollectionResult,
+  IVRMenuConfig,
+  IVRMenuOption,
+} from './types.js';
+
+/**
+ * Valid DTMF keys
+ */
+const DTMF_DIGITS = new Set(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '*', '#']);
+
+/**
+ * Default collection settings
+ */
+const DEFAULT_MAX_DIGITS = 16;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_INTER_DIGIT_TIMEOUT_MS = 4_000;
+
+/**
+ * How many recent digits are kept for type-ahead
+ */
+const MAX_HISTORY = 64;
+
+/**
+ * Listener for individual DTMF digits
+ */
+export type DTMFListener = (event: DTMFEvent) => void;
+
+/**
+ * DTMF Handler
+ */
+export class DTMFHandler {
+  private room: Room | null = null;
+  private listeners = new Set<DTMFListener>();
+  private history: DTMFEvent[] = [];
+  private activeCollection: (() => void) | null = null;
+
+  private readonly onDtmfReceived = (code: number, digit: string, participant: RemoteParticipant) => {
+    const key = digit || this.codeToDigit(code);
+    if (!DTMF_DIGITS.has(key)) {
+      logger.debug('Ignoring unknown DTMF key', { code, digit });
+      return;
+    }
+
+    const event: DTMFEvent = {
+      digit: key,
+      timestamp: Date.now(),
+      participantId: participant?.identity || 'unknown',
+    };
+
+    this.history.push(event);
+    if (this.history.length > MAX_HISTORY) {
+      this.history.shift();
+    }
+
+    logger.debug('DTMF digit received', { digit: key, participantId: event.participantId });
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warning('DTMF listener error', { error: (error as Error).message });
+      }
+    }
+  };
+
+  /**
+   * Start listening for DTMF on a room
+   */
+  attach(room: Room): void {
+    if (this.room === room) return;
+    this.detach();
+
+    this.room = room;
+    room.on(RoomEvent.DtmfReceived, this.onDtmfReceived);
+    logger.debug('DTMF handler attached to room', { roomName: room.name });
+  }
+
+  /**
+   * Stop listening and cancel any in-flight collection
+   */
+  detach(): void {
+    if (this.room) {
+      this.room.off(RoomEvent.DtmfReceived, this.onDtmfReceived);
+      this.room = null;
+    }
+    this.cancel();
+  }
+
+  /**
+   * Subscribe to individual digits
+   * @returns Unsubscribe function
+   */
+  onDigit(listener: DTMFListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Collect a sequence of digits
+   *
+   * Resolves when maxDigits is reached, the terminator is pressed,
+   * or the overall / inter-digit timeout fires. Only one collection
+   * runs at a time - starting a new one cancels the previous.
+   */
+  collectDigits(options: DigitCollectionOptions = {}): Promise<DigitCollectionResult> {
+    const maxDigits = Math.max(1, options.maxDigits ?? DEFAULT_MAX_DIGITS);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const interDigitTimeoutMs = options.interDigitTimeoutMs ?? DEFAULT_INTER_DIGIT_TIMEOUT_MS;
+    const terminator = options.terminator;
+    const startedAt = Date.now();
+
+    this.cancel();
+
+    return new Promise(resolve => {
+      let digits = '';
+      let timer: NodeJS.Timeout | null = null;
+      let unsubscribe: (() => void) | null = null;
+      let finished = false;
+
+      const finish = (reason: DigitCollectionReason) => {
+        if (finished) return;
+        finished = true;
+        if (timer) clearTimeout(timer);
+        unsubscribe?.();
+        this.activeCollection = null;
+
+        logger.info('DTMF collection finished', { digitCount: digits.length, reason });
+        resolve({ digits, reason, durationMs: Date.now() - startedAt });
+      };
+
+      const armTimer = (ms: number) => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => finish('timeout'), ms);
+      };
+
+      const accept = (digit: string) => {
+        if (finished) return;
+        if (terminator && digit === terminator) {
+          finish('terminator');
+          return;
+        }
+        digits += digit;
+        if (digits.length >= maxDigits) {
+          finish('max_digits');
+          return;
+        }
+        armTimer(interDigitTimeoutMs);
+      };
+
+      this.activeCollection = () => finish('cancelled');
+      armTimer(timeoutMs);
+
+      // Digits pressed while a prompt was still playing count as input
+      if (options.since !== undefined) {
+        for (const event of this.history) {
+          if (event.timestamp >= options.since) accept(event.digit);
+        }
+      }
+
+      if (!finished) {
+        unsubscribe = this.onDigit(event => accept(event.digit));
+      }
+    });
+  }
+
+  /**
+   * Cancel the in-flight collection (if any)
+   */
+  cancel(): void {
+    this.activeCollection?.();
+  }
+
+  /**
+   * Digits received so far (most recent last)
+   */
+  getHistory(): DTMFEvent[] {
+    return [...this.history];
+  }
+
+  /**
+   * Map a numeric DTMF event code to its key
+   */
+  private codeToDigit(code: number): string {
+    if (code >= 0 && code <= 9) return String(code);
+    if (code === 10) return '*';
+    if (code === 11) return '#';
+    return '';
+  }
+}
+
+/**
+ * Validate an IVR menu from agent config
+ * @returns List of problems (empty when valid)
+ */
+export function validateIVRMenu(menu: IVRMenuConfig): string[] {
+  const errors: string[] = [];
+
+  if (!menu.prompt?.trim()) {
+    errors.push('ivrMenu.prompt is required');
+  }
+  if (!Array.isArray(menu.options) || menu.options.length === 0) {
+    errors.push('ivrMenu.options must contain at least one option');
+    return errors;
+  }
+
+  const seen = new Set<string>();
+  for (const option of menu.options) {
+    if (!DTMF_DIGITS.has(option.digit)) {
+      errors.push(`ivrMenu option has invalid digit: ${option.digit}`);
+    } else if (seen.has(option.digit)) {
+      errors.push(`ivrMenu digit ${option.digit} is used more than once`);
+    }
+    seen.add(option.digit);
+
+    if (!['language', 'agent', 'transfer'].includes(option.action)) {
+      errors.push(`ivrMenu option ${option.digit} has invalid action: ${option.action}`);
+    }
+    if (!option.value) {
+      errors.push(`ivrMenu option ${option.digit} is missing a value`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Run an IVR menu: speak the prompt, wait for a keypress, repeat on timeout/invalid input
+ *
+ * @param menu - Menu from agent config
+ * @param dtmfHandler - Handler attached to the call's room
+ * @param speak - Speaks text and resolves when playout completes
+ * @returns Selected option, or null when the caller never made a valid choice
+ */
+export async function runIVRMenu(
+  menu: IVRMenuConfig,
+  dtmfHandler: DTMFHandler,
+  speak: (text: string) => Promise<void>
+): Promise<IVRMenuOption | null> {
+  const maxAttempts = menu.maxAttempts ?? 2;
+  const timeoutMs = (menu.timeoutSeconds ?? 6) * 1000;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const promptStartedAt = Date.now();
+    await speak(menu.prompt);
+
+    const result = await dtmfHandler.collectDigits({
+      maxDigits: 1,
+      timeoutMs,
+      since: promptStartedAt,
+    });
+
+    if (result.reason === 'cancelled') {
+      return null;
+    }
+
+    const option = menu.options.find(o => o.digit === result.digits);
+    if (option) {
+      logger.info('IVR option selected', {
+        digit: option.digit,
+        action: option.action,
+        value: option.value,
+        attempt,
+      });
+      return option;
+    }
+
+    logger.info('No valid IVR selection', { digits: result.digits, reason: result.reason, attempt });
+    if (result.digits && menu.invalidPrompt && attempt < maxAttempts) {
+      await speak(menu.invalidPrompt);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create a DTMF handler
+ */
+export function createDTMFHandler(): DTMFHandler {
+  return new DTMFHandler();
+}
@@ -15,6 +15,8 @@ export {
   validatePhoneNumber,
   generateSIPRoomName,
   parseSIPRoomName,
+  getSipStatusCode,
+  classifySipFailure,
   type TwilioConfig,
   type SIPConfig,
   type LatencyTargets,
@@ -26,6 +28,8 @@ export {
   CallDirection,
   SIPCallState,
   TelephonyErrorType,
+  TransferMode,
+  TransferOutcome,
   type SIPParticipantInfo,
   type OutboundCallRequest,
   type OutboundCallResponse,
@@ -37,6 +41,15 @@ export {
   type GreetingConfig,
   type PhoneNumberValidation,
   type DTMFEvent,
+  type DigitCollectionOptions,
+  type DigitCollectionReason,
+  type DigitCollectionResult,
+  type IVRAction,
+  type IVRMenuOption,
+  type IVRMenuConfig,
+  type TransferTarget,
+  type TransferRequest,
+  type TransferResult,
 } from './types.js';
 
 // Latency Tracking
@@ -66,6 +79,21 @@ export {
   createOutboundCallHandler,
 } from './outbound-handler.js';
 
+// Call Transfer
+export {
+  TransferHandler,
+  createTransferHandler,
+  findTransferTarget,
+} from './transfer-handler.js';
+
+// DTMF / IVR
+export {
+  DTMFHandler,
+  createDTMFHandler,
+  runIVRMenu,
+  validateIVRMenu,
+} from './dtmf-handler.js';
+
 // Call Manager
 export {
   CallManager,
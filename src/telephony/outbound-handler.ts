@@ -16,6 +16,8 @@ import {
   isOutboundEnabled, 
   validatePhoneNumber,
   generateSIPRoomName,
+  getSipStatusCode,
+  classifySipFailure,
 } from './config.js';
 import { LatencyTracker, LatencyOperation } from './latency-tracker.js';
 import {
@@ -149,6 +151,10 @@ export class OutboundCallHandler {
         agentId: request.agentId,
       });
 
+      // Create the room up front with the call metadata so the agent can
+      // resolve prompt variables ({{customer.name}}) as soon as it joins
+      await this.createRoomWithMetadata(roomName, phoneNumber, request);
+
       // Create SIP participant (this initiates the outbound call)
       // Note: This requires the livekit-server-sdk with SIP support
       const sipParticipantId = await this.createSIPParticipant(
@@ -166,7 +172,7 @@ export class OutboundCallHandler {
         callId,
         roomName,
         sipParticipantId,
-        state: SIPCallState.RINGING,
+        state: request.waitUntilAnswered ? SIPCallState.CONNECTED : SIPCallState.RINGING,
         initiatedAt: Date.now(),
       };
 
@@ -176,8 +182,10 @@ export class OutboundCallHandler {
       }
 
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const sipStatusCode = getSipStatusCode(error);
       logger.error('Failed to initiate outbound call', {
         error: errorMessage,
+        sipStatusCode,
         phoneNumber: request.phoneNumber,
       });
 
@@ -188,11 +196,48 @@ export class OutboundCallHandler {
         roomName: '',
         sipParticipantId: '',
         state: SIPCallState.FAILED,
+        outcome: classifySipFailure(sipStatusCode, errorMessage),
+        sipStatusCode,
         initiatedAt: Date.now(),
       };
     }
   }
 
+  /**
+   * Build the metadata attached to the room and the SIP participant
+   */
+  private buildCallMetadata(phoneNumber: string, request: OutboundCallRequest): string {
+    return JSON.stringify({
+      organizationId: request.organizationId,
+      agentId: request.agentId,
+      callType: 'outbound',
+      phoneNumber,
+      ...request.metadata,
+    });
+  }
+
+  /**
+   * Create the call room with metadata (best effort - the SIP call creates it otherwise)
+   */
+  private async createRoomWithMetadata(
+    roomName: string,
+    phoneNumber: string,
+    request: OutboundCallRequest
+  ): Promise<void> {
+    try {
+      await this.roomService.createRoom({
+        name: roomName,
+        metadata: this.buildCallMetadata(phoneNumber, request),
+        emptyTimeout: 60,
+      });
+    } catch (error) {
+      logger.warning('Failed to create room with call metadata', {
+        roomName,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
   /**
    * Create a SIP participant to initiate an outbound call
    * 
@@ -214,13 +259,7 @@ export class OutboundCallHandler {
     const participantIdentity = `sip_outbound_${phoneNumber.replace(/\+/g, '')}`;
 
     // Build participant metadata
-    const metadata = JSON.stringify({
-      organizationId: request.organizationId,
-      agentId: request.agentId,
-      callType: 'outbound',
-      phoneNumber,
-      ...request.metadata,
-    });
+    const metadata = this.buildCallMetadata(phoneNumber, request);
 
     logger.info('Creating SIP participant for outbound call', {
       roomName,
@@ -242,6 +281,7 @@ export class OutboundCallHandler {
           playDialtone: true,
           ringingTimeout: request.ringTimeout || telephonyConfig.defaultRingTimeout,
           maxCallDuration: 3600, // 1 hour max
+          waitUntilAnswered: request.waitUntilAnswered,
         }
       );
 
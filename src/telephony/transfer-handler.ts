@@ -0,0 +1,351 @@
+/**
+ * Transfer Handler - Hand SIP callers over to humans
+ *
+ * Handles:
+ * - Cold transfers via LiveKit SIP REFER (caller leaves the room)
+ * - Warm transfers (human dialed into the room, briefed while the caller is on hold, agent drops off)
+ * - Mapping SIP failures to busy / no-answer outcomes
+ * - Voicemail fallback when the human can't take the call
+ */
+
+import { RoomServiceClient, SipClient, TrackType } from 'livekit-server-sdk';
+import { logger } from '../core/logging.js';
+import { config } from '../core/config.js';
+import { telephonyConfig, validatePhoneNumber, getSipStatusCode, classifySipFailure } from './config.js';
+import {
+  TransferMode,
+  TransferOutcome,
+  TransferRequest,
+  TransferResult,
+  TransferTarget,
+} from './types.js';
+
+/**
+ * Callback used during warm transfers to speak the briefing into the room (caller on hold)
+ */
+export type BriefingCallback = (summary: string) => Promise<void>;
+
+/**
+ * ParticipantInfo_Kind.AGENT (the enum is not re-exported by livekit-server-sdk)
+ */
+const AGENT_PARTICIPANT_KIND = 4;
+
+/**
+ * Subscriptions removed while the caller is on hold, restored afterwards
+ */
+interface CallerHold {
+  roomName: string;
+  callerIdentity: string;
+  humanIdentity: string;
+  agentTrackSids: string[];
+  callerTrackSids: string[];
+}
+
+/**
+ * Transfer Handler
+ */
+export class TransferHandler {
+  private sipClient: SipClient;
+  private roomService: RoomServiceClient;
+
+  constructor() {
+    this.sipClient = new SipClient(
+      config.livekit.url,
+      config.livekit.apiKey,
+      config.livekit.apiSecret
+    );
+    this.roomService = new RoomServiceClient(
+      config.livekit.url,
+      config.livekit.apiKey,
+      config.livekit.apiSecret
+    );
+  }
+
+  /**
+   * Transfer a call using the target's configured mode
+   * Falls back to the target's voicemail when the human is busy or doesn't answer
+   */
+  async transfer(request: TransferRequest, brief?: BriefingCallback): Promise<TransferResult> {
+    const mode = request.target.mode === TransferMode.WARM ? TransferMode.WARM : TransferMode.COLD;
+
+    const result = mode === TransferMode.WARM
+      ? await this.warmTransfer(request, brief)
+      : await this.coldTransfer(request);
+
+    const unreachable = result.outcome === TransferOutcome.BUSY || result.outcome === TransferOutcome.NO_ANSWER;
+    if (!unreachable || !request.target.voicemail) {
+      return result;
+    }
+
+    logger.info('Transfer target unreachable - falling back to voicemail', {
+      department: request.target.department,
+      outcome: result.outcome,
+    });
+
+    const voicemailResult = await this.coldTransfer({
+      ...request,
+      target: { ...request.target, destination: request.target.voicemail },
+    });
+
+    if (voicemailResult.outcome !== TransferOutcome.REFERRED) {
+      // Keep the original busy/no-answer outcome - voicemail couldn't help either
+      return { ...result, error: voicemailResult.error, completedAt: voicemailResult.completedAt };
+    }
+
+    return {
+      ...voicemailResult,
+      outcome: TransferOutcome.VOICEMAIL,
+      requestedAt: result.requestedAt,
+      sipStatusCode: result.sipStatusCode,
+    };
+  }
+
+  /**
+   * Cold transfer - SIP REFER the caller to the destination
+   * The caller's SIP leg leaves the LiveKit room once the REFER succeeds.
+   * An accepted REFER says nothing about whether the destination picks up,
+   * so the outcome is REFERRED rather than ANSWERED.
+   */
+  async coldTransfer(request: TransferRequest): Promise<TransferResult> {
+    const requestedAt = Date.now();
+    const transferTo = this.toTransferUri(request.target.destination);
+
+    logger.info('Starting cold transfer', {
+      roomName: request.roomName,
+      department: request.target.department,
+      sipParticipantId: request.sipParticipantId,
+    });
+
+    try {
+      await this.sipClient.transferSipParticipant(
+        request.roomName,
+        request.sipParticipantId,
+        transferTo,
+        { playDialtone: true }
+      );
+
+      logger.info('Cold transfer referred', {
+        roomName: request.roomName,
+        department: request.target.department,
+      });
+
+      return {
+        outcome: TransferOutcome.REFERRED,
+        mode: TransferMode.COLD,
+        destination: request.target.destination,
+        requestedAt,
+        completedAt: Date.now(),
+      };
+    } catch (error) {
+      return this.failedResult(error, TransferMode.COLD, request, requestedAt);
+    }
+  }
+
+  /**
+   * Warm transfer - dial the human into the room, brief them, then let the agent leave
+   *
+   * The caller is on hold during the briefing: they stop hearing the agent and
+   * the human stops hearing them. If the hold can't be set up the briefing is
+   * skipped rather than spoken where the caller can hear it.
+   *
+   * SIP URI destinations can't be dialed through the outbound trunk,
+   * so they fall back to a cold transfer.
+   */
+  async warmTransfer(request: TransferRequest, brief?: BriefingCallback): Promise<TransferResult> {
+    const requestedAt = Date.now();
+    const trunkId = telephonyConfig.sip.outboundTrunkId;
+    const phone = validatePhoneNumber(request.target.destination);
+
+    if (!trunkId || !phone.isValid) {
+      logger.warning('Warm transfer unavailable - falling back to cold transfer', {
+        department: request.target.department,
+        hasOutboundTrunk: !!trunkId,
+      });
+      return this.coldTransfer(request);
+    }
+
+    const humanParticipantId = `sip_transfer_${phone.e164!.replace(/\+/g, '')}_${Date.now()}`;
+
+    logger.info('Starting warm transfer', {
+      roomName: request.roomName,
+      department: request.target.department,
+      humanParticipantId,
+    });
+
+    try {
+      // Blocks until the human answers (or the ring timeout fails the request)
+      await this.sipClient.createSipParticipant(
+        trunkId,
+        phone.e164!,
+        request.roomName,
+        {
+          participantIdentity: humanParticipantId,
+          participantName: `${request.target.department} (transfer)`,
+          participantMetadata: JSON.stringify({
+            callType: 'transfer',
+            department: request.target.department,
+            reason: request.reason,
+          }),
+          ringingTimeout: telephonyConfig.defaultRingTimeout,
+          waitUntilAnswered: true,
+        }
+      );
+    } catch (error) {
+      return this.failedResult(error, TransferMode.WARM, request, requestedAt);
+    }
+
+    if (brief && request.summary) {
+      const hold = await this.holdCaller(request.roomName, request.sipParticipantId, humanParticipantId);
+
+      if (hold) {
+        try {
+          await brief(request.summary);
+        } catch (error) {
+          // Human is connected - a failed briefing shouldn't undo the transfer
+          logger.warning('Warm transfer briefing failed', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+            roomName: request.roomName,
+          });
+        } finally {
+          await this.releaseCaller(hold);
+        }
+      }
+    }
+
+    logger.info('Warm transfer completed', {
+      roomName: request.roomName,
+      department: request.target.department,
+      humanParticipantId,
+    });
+
+    return {
+      outcome: TransferOutcome.ANSWERED,
+      mode: TransferMode.WARM,
+      destination: request.target.destination,
+      humanParticipantId,
+      requestedAt,
+      completedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Put the caller on hold for the briefing
+   * Unsubscribes the caller from the agent's audio and the human from the caller's.
+   * @returns null when the hold couldn't be set up
+   */
+  private async holdCaller(roomName: string, callerIdentity: string, humanIdentity: string): Promise<CallerHold | null> {
+    try {
+      const participants = await this.roomService.listParticipants(roomName);
+      const audioTrackSids = (match: (identity: string, kind: number) => boolean) => participants
+        .filter(p => match(p.identity, p.kind as number))
+        .flatMap(p => p.tracks.filter(t => t.type === TrackType.AUDIO).map(t => t.sid));
+
+      const agentTrackSids = audioTrackSids((_, kind) => kind === AGENT_PARTICIPANT_KIND);
+      const callerTrackSids = audioTrackSids(identity => identity === callerIdentity);
+
+      if (agentTrackSids.length === 0) {
+        throw new Error('Agent audio track not found');
+      }
+
+      await this.roomService.updateSubscriptions(roomName, callerIdentity, agentTrackSids, false);
+      if (callerTrackSids.length > 0) {
+        await this.roomService.updateSubscriptions(roomName, humanIdentity, callerTrackSids, false);
+      }
+
+      return { roomName, callerIdentity, humanIdentity, agentTrackSids, callerTrackSids };
+    } catch (error) {
+      logger.warning('Could not put caller on hold - skipping warm transfer briefing', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        roomName,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Take the caller off hold so they and the human can talk
+   */
+  private async releaseCaller(hold: CallerHold): Promise<void> {
+    try {
+      if (hold.callerTrackSids.length > 0) {
+        await this.roomService.updateSubscriptions(hold.roomName, hold.humanIdentity, hold.callerTrackSids, true);
+      }
+      await this.roomService.updateSubscriptions(hold.roomName, hold.callerIdentity, hold.agentTrackSids, true);
+    } catch (error) {
+      logger.error('Failed to take caller off hold', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        roomName: hold.roomName,
+      });
+    }
+  }
+
+  /**
+   * Build a failed transfer result from a LiveKit SIP error
+   */
+  private failedResult(
+    error: unknown,
+    mode: TransferMode,
+    request: TransferRequest,
+    requestedAt: number
+  ): TransferResult {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const sipStatusCode = getSipStatusCode(error);
+    const outcome = classifySipFailure(sipStatusCode, message);
+
+    logger.error('Call transfer failed', {
+      mode,
+      outcome,
+      sipStatusCode,
+      department: request.target.department,
+      roomName: request.roomName,
+      error: message,
+    });
+
+    return {
+      outcome,
+      mode,
+      destination: request.target.destination,
+      sipStatusCode,
+      error: message,
+      requestedAt,
+      completedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Normalize a destination into a REFER target (tel: or sip: URI)
+   */
+  private toTransferUri(destination: string): string {
+    if (destination.startsWith('sip:') || destination.startsWith('tel:')) {
+      return destination;
+    }
+
+    const phone = validatePhoneNumber(destination);
+    return `tel:${phone.e164 || destination}`;
+  }
+}
+
+/**
+ * Find a transfer directory entry by department name
+ * Matching is case-insensitive; falls back to the first entry when no department is given.
+ */
+export function findTransferTarget(
+  directory: TransferTarget[],
+  department?: string
+): TransferTarget | undefined {
+  if (directory.length === 0) return undefined;
+  if (!department) return directory[0];
+
+  const wanted = department.trim().toLowerCase();
+  return (
+    directory.find(t => t.department.toLowerCase() === wanted) ||
+    directory.find(t => t.department.toLowerCase().includes(wanted) || wanted.includes(t.department.toLowerCase()))
+  );
+}
+
+/**
+ * Create a transfer handler
+ */
+export function createTransferHandler(): TransferHandler {
+  return new TransferHandler();
+}
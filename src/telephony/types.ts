@@ -38,6 +38,77 @@ export interface DTMFEvent {
   participantId: string;
 }
 
+/**
+ * Options for collecting a sequence of DTMF digits
+ */
+export interface DigitCollectionOptions {
+  /** Stop after this many digits (terminator not included) */
+  maxDigits?: number;
+  
+  /** Key that ends entry early (e.g., '#') */
+  terminator?: string;
+  
+  /** Overall time to wait for input in milliseconds */
+  timeoutMs?: number;
+  
+  /** Time allowed between digits once entry has started (ms) */
+  interDigitTimeoutMs?: number;
+  
+  /** Also consume digits pressed since this timestamp (type-ahead during prompts) */
+  since?: number;
+}
+
+/**
+ * Why digit collection finished
+ */
+export type DigitCollectionReason = 'max_digits' | 'terminator' | 'timeout' | 'cancelled';
+
+/**
+ * Result of a digit collection
+ */
+export interface DigitCollectionResult {
+  digits: string;
+  reason: DigitCollectionReason;
+  durationMs: number;
+}
+
+/**
+ * Action taken when an IVR menu option is selected
+ * - language: switch STT/TTS/LLM to the language code in `value`
+ * - agent: hand the call to the agent ID in `value`
+ * - transfer: transfer to the department in `value` (from the transfer directory)
+ */
+export type IVRAction = 'language' | 'agent' | 'transfer';
+
+/**
+ * Single IVR menu option ("press 1 for Hindi")
+ */
+export interface IVRMenuOption {
+  digit: string;
+  action: IVRAction;
+  value: string;
+  label?: string;
+}
+
+/**
+ * Pre-conversation IVR menu defined in the agent config (`ivrMenu`)
+ */
+export interface IVRMenuConfig {
+  /** Prompt spoken before collecting a keypress */
+  prompt: string;
+  
+  options: IVRMenuOption[];
+  
+  /** Seconds to wait for a keypress after the prompt (default: 6) */
+  timeoutSeconds?: number;
+  
+  /** Times the prompt is repeated before giving up (default: 2) */
+  maxAttempts?: number;
+  
+  /** Spoken when an unmapped key is pressed */
+  invalidPrompt?: string;
+}
+
 /**
  * SIP participant information extracted from LiveKit participant attributes
  */
@@ -89,6 +160,9 @@ export interface OutboundCallRequest {
   /** Optional: Maximum ring time before giving up (seconds) */
   ringTimeout?: number;
   
+  /** Optional: Block until the callee answers so busy / no-answer can be reported */
+  waitUntilAnswered?: boolean;
+  
   /** Optional: Metadata to attach to the call session */
   metadata?: OutboundCallMetadata;
 }
@@ -109,6 +183,9 @@ export interface OutboundCallMetadata {
   /** Campaign ID for tracking bulk calls */
   campaignId?: string;
   
+  /** Campaign contact being dialed */
+  campaignContactId?: string;
+  
   /** Custom data */
   customData?: Record<string, any>;
 }
@@ -134,6 +211,12 @@ export interface OutboundCallResponse {
   /** Current call state */
   state: SIPCallState;
   
+  /** Dial outcome on failure (busy / no_answer / failed) */
+  outcome?: TransferOutcome;
+  
+  /** SIP status code reported by the trunk on failure */
+  sipStatusCode?: number;
+  
   /** Timestamp when call was initiated */
   initiatedAt: number;
 }
@@ -259,6 +342,91 @@ export interface GreetingConfig {
   default: string;
 }
 
+/**
+ * Call transfer mode
+ * - cold: SIP REFER hands the caller straight to the destination
+ * - warm: the agent dials the human into the room, briefs them, then drops off
+ */
+export enum TransferMode {
+  COLD = 'cold',
+  WARM = 'warm',
+}
+
+/**
+ * Final outcome of a transfer attempt
+ * - answered: the human picked up (warm transfers)
+ * - referred: the trunk accepted the SIP REFER; whether the destination answers is unknown
+ */
+export enum TransferOutcome {
+  ANSWERED = 'answered',
+  REFERRED = 'referred',
+  BUSY = 'busy',
+  NO_ANSWER = 'no_answer',
+  VOICEMAIL = 'voicemail',
+  FAILED = 'failed',
+}
+
+/**
+ * Transfer directory entry configured on the agent record
+ */
+export interface TransferTarget {
+  /** Department name the caller/LLM refers to (e.g., "billing") */
+  department: string;
+  
+  /** E.164 phone number or sip: URI of the human */
+  destination: string;
+  
+  /** Transfer mode (defaults to cold) */
+  mode?: 'cold' | 'warm';
+  
+  /** Optional voicemail destination used when the human is busy or doesn't answer */
+  voicemail?: string;
+  
+  /** Optional description shown to the LLM */
+  description?: string;
+}
+
+/**
+ * Request to transfer an active SIP call
+ */
+export interface TransferRequest {
+  /** LiveKit room the call lives in */
+  roomName: string;
+  
+  /** Identity of the caller's SIP participant */
+  sipParticipantId: string;
+  
+  /** Directory entry to transfer to */
+  target: TransferTarget;
+  
+  /** Why the transfer was requested */
+  reason?: string;
+  
+  /** Briefing spoken to the human before the agent leaves (warm only) */
+  summary?: string;
+}
+
+/**
+ * Result of a transfer attempt
+ */
+export interface TransferResult {
+  outcome: TransferOutcome;
+  mode: TransferMode;
+  
+  /** Destination that was finally used (may be the voicemail fallback) */
+  destination: string;
+  
+  /** SIP status code reported by the trunk on failure */
+  sipStatusCode?: number;
+  
+  /** Identity of the human's SIP participant (warm transfers) */
+  humanParticipantId?: string;
+  
+  error?: string;
+  requestedAt: number;
+  completedAt: number;
+}
+
 /**
  * Phone number validation result
  */
@@ -0,0 +1,243 @@
+import { describe, expect, it } from 'vitest';
+import {
+    formatFieldForReadBack,
+    needsConfirmation,
+    parseFieldValue,
+    validateFields,
+    type FieldDefinition,
+} from '../../../src/services/agent-fields.js';
+
+const PHONE: FieldDefinition = { name: 'phone_number', type: 'phone' };
+const DATE: FieldDefinition = { name: 'visit_date', type: 'date' };
+
+// Tuesday 10 March 2026, midday in India
+const NOW = new Date('2026-03-10T06:30:00Z');
+
+function phone(raw: string) {
+    return parseFieldValue(PHONE, raw).value;
+}
+
+function date(raw: string, now: Date = NOW) {
+    return parseFieldValue(DATE, raw, now).value;
+}
+
+describe('parseFieldValue - phone numbers', () => {
+    it('accepts a plain 10-digit mobile number', () => {
+        expect(phone('9876543210')).toBe('+919876543210');
+        expect(phone('98765-43210')).toBe('+919876543210');
+    });
+
+    it('drops a +91, 91 or 0 prefix', () => {
+        expect(phone('+91 98765 43210')).toBe('+919876543210');
+        expect(phone('91 9876543210')).toBe('+919876543210');
+        expect(phone('098765 43210')).toBe('+919876543210');
+    });
+
+    it('reads Devanagari and Tamil digits', () => {
+        expect(phone('९८७६५४३२१०')).toBe('+919876543210');
+        expect(phone('௯௮௭௬௫௪௩௨௧௦')).toBe('+919876543210');
+    });
+
+    it('reads spoken digits in English, Hindi and Tamil', () => {
+        expect(phone('nine eight seven six five four three two one zero')).toBe('+919876543210');
+        expect(phone('nau aath saat chhe paanch chaar teen do ek shunya')).toBe('+919876543210');
+        expect(phone('onbathu ettu ezhu aaru anju naalu moonu rendu onnu poojiyam')).toBe('+919876543210');
+        expect(phone('नौ आठ सात छह पांच चार तीन दो एक शून्य')).toBe('+919876543210');
+        expect(phone('ஒன்பது எட்டு ஏழு ஆறு ஐந்து நான்கு மூன்று இரண்டு ஒன்று பூஜ்ஜியம்')).toBe('+919876543210');
+    });
+
+    it('mixes spoken digits with written ones', () => {
+        expect(phone('nine eight 765 four three 210')).toBe('+919876543210');
+    });
+
+    it('expands double and triple', () => {
+        expect(phone('double nine eight seven six five four three two one')).toBe('+919987654321');
+        expect(phone('triple seven six five four three two one zero')).toBe('+917776543210');
+        expect(phone('डबल नौ आठ सात छह पांच चार तीन दो एक')).toBe('+919987654321');
+        expect(phone('டபுள் ஒன்பது எட்டு ஏழு ஆறு ஐந்து நான்கு மூன்று இரண்டு ஒன்று')).toBe('+919987654321');
+    });
+
+    it('repeats only the first digit after double when digits are written', () => {
+        expect(phone('double 98 765 4321')).toBe('+919987654321');
+        expect(phone('98 triple 7 654 32')).toBe('+919877765432');
+    });
+
+    it('rejects numbers that are not Indian mobile numbers', () => {
+        const error = 'Indian mobile numbers have 10 digits and start with 6, 7, 8 or 9';
+        expect(parseFieldValue(PHONE, '98765 4321').error).toBe(error);
+        expect(parseFieldValue(PHONE, '5876543210').error).toBe(error);
+        expect(parseFieldValue(PHONE, '+1 415 555 0100').error).toBe(error);
+        expect(parseFieldValue(PHONE, '   ').error).toBe('No phone_number given');
+    });
+});
+
+describe('parseFieldValue - dates', () => {
+    it('accepts ISO dates and rejects impossible ones', () => {
+        expect(date('2026-04-01')).toBe('2026-04-01');
+        expect(parseFieldValue(DATE, '2026-02-30', NOW).error).toMatch(/^Not a valid date/);
+    });
+
+    it('reads numeric dates day first', () => {
+        expect(date('15/03/2026')).toBe('2026-03-15');
+        expect(date('15-3-26')).toBe('2026-03-15');
+        expect(date('5/4')).toBe('2026-04-05');
+        expect(date('05.04.2027')).toBe('2027-04-05');
+        expect(parseFieldValue(DATE, '31/02', NOW).error).toBeDefined();
+    });
+
+    it('reads month names in English, Hindi and Tamil', () => {
+        expect(date('15 March')).toBe('2026-03-15');
+        expect(date('March 15th, 2027')).toBe('2027-03-15');
+        expect(date('15 मार्च 2026')).toBe('2026-03-15');
+        expect(date('मार्च १५')).toBe('2026-03-15');
+        expect(date('மார்ச் 15ஆம் தேதி')).toBe('2026-03-15');
+        expect(date('ஏப்ரல் ௨')).toBe('2026-04-02');
+    });
+
+    it('rolls a date without a year that has already passed into next year', () => {
+        expect(date('9 March')).toBe('2027-03-09');
+        expect(date('5/1')).toBe('2027-01-05');
+        // Today has not passed
+        expect(date('10 March')).toBe('2026-03-10');
+    });
+
+    it('reads relative days in English, Hindi and Tamil', () => {
+        expect(date('today')).toBe('2026-03-10');
+        expect(date('tomorrow morning')).toBe('2026-03-11');
+        expect(date('day after tomorrow')).toBe('2026-03-12');
+        expect(date('aaj')).toBe('2026-03-10');
+        expect(date('kal')).toBe('2026-03-11');
+        expect(date('कल')).toBe('2026-03-11');
+        expect(date('परसों')).toBe('2026-03-12');
+        expect(date('இன்னைக்கு')).toBe('2026-03-10');
+        expect(date('நாளைக்கு')).toBe('2026-03-11');
+        expect(date('நாளை மறுநாள்')).toBe('2026-03-12');
+    });
+
+    it('does not match relative words inside other words', () => {
+        // "kal" in "kalyan"
+        expect(parseFieldValue(DATE, 'kalyan', NOW).error).toBeDefined();
+    });
+
+    it('reads a weekday as the next one, a week ahead when it is today', () => {
+        expect(date('friday')).toBe('2026-03-13');
+        expect(date('next monday')).toBe('2026-03-16');
+        expect(date('tuesday')).toBe('2026-03-17');
+        expect(date('शनिवार')).toBe('2026-03-14');
+        expect(date('somvar')).toBe('2026-03-16');
+        expect(date('வியாழக்கிழமை')).toBe('2026-03-12');
+    });
+
+    it('counts days from the date in India, not UTC', () => {
+        // 20:00 UTC on 9 March is already 10 March in India
+        expect(date('today', new Date('2026-03-09T20:00:00Z'))).toBe('2026-03-10');
+    });
+
+    it('rolls relative days over the end of the year', () => {
+        const newYearsEve = new Date('2026-12-31T06:30:00Z');
+        expect(date('tomorrow', newYearsEve)).toBe('2027-01-01');
+        expect(date('2 January', newYearsEve)).toBe('2027-01-02');
+        expect(date('31 December', newYearsEve)).toBe('2026-12-31');
+    });
+
+    it('rejects text with no date in it', () => {
+        expect(parseFieldValue(DATE, 'sometime soon', NOW).error).toBe('Not a valid date - ask for the day, month and year');
+    });
+});
+
+describe('parseFieldValue - other types', () => {
+    it('normalizes spoken email addresses', () => {
+        expect(parseFieldValue({ name: 'email', type: 'email' }, 'Priya dot K at the rate of gmail dot com').value)
+            .toBe('priya.k@gmail.com');
+        expect(parseFieldValue({ name: 'email', type: 'email' }, 'priya at gmail').error).toBeDefined();
+    });
+
+    it('reads numbers with currency, separators and native digits', () => {
+        const amount: FieldDefinition = { name: 'amount', type: 'number' };
+        expect(parseFieldValue(amount, '₹1,500').value).toBe(1500);
+        expect(parseFieldValue(amount, '२५००').value).toBe(2500);
+        expect(parseFieldValue(amount, 'fifteen').error).toBe('amount must be a number');
+    });
+
+    it('capitalizes names and rejects digits in them', () => {
+        const name: FieldDefinition = { name: 'full_name', type: 'name' };
+        expect(parseFieldValue(name, 'priya  raman').value).toBe('Priya Raman');
+        expect(parseFieldValue(name, 'room 4').error).toBeDefined();
+    });
+
+    it('matches enum options exactly or by a single mention', () => {
+        const slot: FieldDefinition = { name: 'slot', type: 'enum', options: ['Morning', 'Evening'] };
+        expect(parseFieldValue(slot, 'morning').value).toBe('Morning');
+        expect(parseFieldValue(slot, 'evening would be better').value).toBe('Evening');
+        expect(parseFieldValue(slot, 'morning or evening').error).toBe('slot must be one of: Morning, Evening');
+    });
+
+    it('checks the parsed value against the field pattern', () => {
+        const pin: FieldDefinition = { name: 'pincode', type: 'text', pattern: '^\\d{6}$' };
+        expect(parseFieldValue(pin, '600001').value).toBe('600001');
+        expect(parseFieldValue(pin, '6000').error).toBe('pincode is not in the expected format');
+    });
+});
+
+describe('formatFieldForReadBack', () => {
+    it('spaces out phone digits and spells out dates', () => {
+        expect(formatFieldForReadBack(PHONE, '+919876543210')).toBe('9 8 7 6 5, 4 3 2 1 0');
+        expect(formatFieldForReadBack(DATE, '2026-03-15')).toBe('Sunday, 15 March 2026');
+        expect(formatFieldForReadBack({ name: 'email', type: 'email' }, 'priya.k@gmail.com')).toBe('priya dot k at gmail dot com');
+    });
+});
+
+describe('needsConfirmation', () => {
+    it('confirms phone, email, date and address unless the field says otherwise', () => {
+        expect(needsConfirmation(PHONE)).toBe(true);
+        expect(needsConfirmation({ name: 'full_name', type: 'name' })).toBe(false);
+        expect(needsConfirmation({ ...PHONE, confirm: false })).toBe(false);
+        expect(needsConfirmation({ name: 'full_name', type: 'name', confirm: true })).toBe(true);
+    });
+});
+
+describe('validateFields', () => {
+    it('accepts a valid field list', () => {
+        expect(validateFields([
+            { name: 'full_name', type: 'name' },
+            { name: 'phone_number', type: 'phone', required: true, confirm: true },
+            { name: 'slot', type: 'enum', options: ['Morning', 'Evening'] },
+            { name: 'pincode', type: 'text', pattern: '^\\d{6}$', description: '6-digit PIN code' },
+        ])).toEqual([]);
+    });
+
+    it('requires 1-20 fields', () => {
+        const error = ['fields must be an array of 1-20 fields'];
+        expect(validateFields([])).toEqual(error);
+        expect(validateFields({ name: 'full_name', type: 'name' })).toEqual(error);
+        expect(validateFields(Array.from({ length: 21 }, (_, i) => ({ name: `field_${i}`, type: 'text' })))).toEqual(error);
+    });
+
+    it('requires unique snake_case names', () => {
+        expect(validateFields([
+            { name: 'Full Name', type: 'name' },
+            { name: 'phone', type: 'phone' },
+            { name: 'phone', type: 'phone' },
+        ])).toEqual([
+            'fields[0].name must be snake_case (a-z, 0-9, _)',
+            'fields[2].name is a duplicate: phone',
+        ]);
+    });
+
+    it('checks types, flags, enum options and patterns', () => {
+        expect(validateFields([
+            { name: 'a', type: 'url' },
+            { name: 'b', type: 'text', required: 'yes', description: 5 },
+            { name: 'c', type: 'enum', options: ['ok', ' '] },
+            { name: 'd', type: 'enum' },
+            { name: 'e', type: 'text', pattern: '(' },
+        ])).toEqual([
+            'fields[0].type must be one of: text, name, phone, email, date, number, address, enum',
+            'fields[1].description must be a string',
+            'fields[1].required must be true or false',
+            'fields[2].options must be a list of values for enum fields',
+            'fields[3].options must be a list of values for enum fields',
+            'fields[4].pattern is not a valid regular expression',
+        ]);
+    });
+});
@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import { formatCatalogResult, lookupCatalog } from '../../../../src/services/catalog/lookup.js';
+import type { CatalogItem } from '../../../../src/services/catalog/types.js';
+
+function item(fields: Partial<CatalogItem> & Pick<CatalogItem, 'id' | 'name'>): CatalogItem {
+    return { currency: 'INR', variants: [], available: true, tags: [], ...fields };
+}
+
+const MENU: CatalogItem[] = [
+    item({ id: 'biryani', name: 'Chicken Biryani', category: 'Biryani', price: 240, tags: ['non-vegetarian'] }),
+    item({
+        id: 'paneer',
+        name: 'Paneer Tikka',
+        category: 'Veg Starters',
+        price: 220,
+        tags: ['vegetarian'],
+        description: 'Cottage cheese grilled in the tandoor',
+    }),
+    item({ id: 'chilli', name: 'Chilli Chicken', category: 'Non-Veg Starters', price: 260, tags: ['spicy'], available: false }),
+    item({ id: 'bowl', name: 'Buddha Bowl', category: 'Bowls', price: 300, tags: ['vegan'] }),
+    // Variant prices only
+    item({
+        id: 'dosa',
+        name: 'Masala Dosa',
+        category: 'Dosa',
+        variants: [{ name: 'Regular', price: 120 }, { name: 'Family', price: 400 }],
+        tags: ['vegetarian'],
+    }),
+    // No prices at all
+    item({ id: 'coffee', name: 'Filter Coffee', category: 'Beverages', variants: [{ name: 'Small' }, { name: 'Large' }], tags: ['vegetarian'] }),
+];
+
+function ids(filters: Parameters<typeof lookupCatalog>[1]): string[] {
+    return lookupCatalog(MENU, filters).matches.map(match => match.item.id);
+}
+
+describe('lookupCatalog', () => {
+    describe('name matching', () => {
+        it('scores an exact name 1 and a whole-word part of the name 0.9', () => {
+            expect(lookupCatalog(MENU, { query: 'chicken biryani' }).matches[0]).toMatchObject({ item: { id: 'biryani' }, score: 1 });
+            expect(lookupCatalog(MENU, { query: 'Biryani' }).matches[0]).toMatchObject({ item: { id: 'biryani' }, score: 0.9 });
+        });
+
+        it('tolerates speech-to-text spelling drift', () => {
+            // One edit in eight letters: similarity 0.875
+            const [match] = lookupCatalog(MENU, { query: 'biriyani' }).matches;
+            expect(match.item.id).toBe('biryani');
+            expect(match.score).toBeCloseTo(0.85 * 0.875);
+        });
+
+        it('accepts a word exactly at the similarity threshold', () => {
+            // "dosi" vs "dosa": one edit in four letters, similarity 0.75
+            const result = lookupCatalog(MENU, { query: 'dosi' });
+            expect(result.matches.map(match => match.item.id)).toEqual(['dosa']);
+            expect(result.matches[0].score).toBeCloseTo(0.85 * 0.75);
+        });
+
+        it('rejects a word just below the similarity threshold', () => {
+            // "dusi" vs "dosa": two edits in four letters, similarity 0.5
+            expect(ids({ query: 'dusi' })).toEqual([]);
+            // "beryana" vs "biryani": two edits in seven letters, similarity ~0.71
+            expect(ids({ query: 'beryana' })).toEqual([]);
+        });
+
+        it('treats a prefix of three or more letters as a near match', () => {
+            expect(lookupCatalog(MENU, { query: 'pan' }).matches[0]).toMatchObject({ item: { id: 'paneer' } });
+            expect(lookupCatalog(MENU, { query: 'pan' }).matches[0].score).toBeCloseTo(0.85 * 0.95);
+            expect(ids({ query: 'pa' })).toEqual([]);
+        });
+
+        it('falls back to description, tags and variants at a lower score', () => {
+            const [match] = lookupCatalog(MENU, { query: 'cottage cheese' }).matches;
+            expect(match.item.id).toBe('paneer');
+            expect(match.score).toBeCloseTo(0.6);
+            expect(ids({ query: 'family' })).toEqual(['dosa']);
+        });
+
+        it('requires every query word to match', () => {
+            expect(ids({ query: 'paneer pizza' })).toEqual([]);
+        });
+
+        it('ignores stop words', () => {
+            expect(ids({ query: 'do you have the masala dosa' })).toEqual(['dosa']);
+        });
+    });
+
+    describe('tags', () => {
+        it('counts vegan and other implying tags as satisfying the implied tag', () => {
+            expect(ids({ tags: ['vegetarian'] })).toEqual(['paneer', 'bowl', 'dosa', 'coffee']);
+            expect(ids({ tags: ['dairy-free'] })).toEqual(['bowl']);
+        });
+
+        it('does not apply implications in reverse', () => {
+            expect(ids({ tags: ['vegan'] })).toEqual(['bowl']);
+        });
+
+        it('normalizes tag synonyms', () => {
+            expect(ids({ tags: ['Veg'] })).toEqual(ids({ tags: ['vegetarian'] }));
+            expect(ids({ tags: ['hot'] })).toEqual(['chilli']);
+        });
+
+        it('requires every tag', () => {
+            expect(ids({ tags: ['vegetarian', 'spicy'] })).toEqual([]);
+        });
+    });
+
+    describe('price range', () => {
+        it('matches an item when any of its variant prices is in range', () => {
+            expect(ids({ minPrice: 350 })).toEqual(['dosa']);
+            expect(ids({ maxPrice: 150 })).toEqual(['dosa']);
+        });
+
+        it('includes both bounds', () => {
+            expect(ids({ minPrice: 220, maxPrice: 240 })).toEqual(['biryani', 'paneer']);
+        });
+
+        it('excludes a variant-priced item when no single variant is in range', () => {
+            // 120 and 400 straddle the range without either falling inside it
+            expect(ids({ minPrice: 200, maxPrice: 250 })).not.toContain('dosa');
+        });
+
+        it('excludes items without any price', () => {
+            expect(ids({ minPrice: 0 })).not.toContain('coffee');
+        });
+    });
+
+    describe('sorting', () => {
+        it('sorts ascending by the lowest price, unpriced items last', () => {
+            expect(ids({ sort: 'price_asc', limit: 25 })).toEqual(['dosa', 'paneer', 'biryani', 'chilli', 'bowl', 'coffee']);
+        });
+
+        it('sorts descending by the highest price, unpriced items last', () => {
+            expect(ids({ sort: 'price_desc', limit: 25 })).toEqual(['dosa', 'bowl', 'chilli', 'biryani', 'paneer', 'coffee']);
+        });
+
+        it('keeps catalog order among equal relevance', () => {
+            expect(ids({ query: 'chicken' })).toEqual(['biryani', 'chilli']);
+        });
+    });
+
+    describe('categories', () => {
+        it('matches every category that fits the requested name equally well', () => {
+            const result = lookupCatalog(MENU, { category: 'starters' });
+            expect(result.matches.map(match => match.item.id)).toEqual(['paneer', 'chilli']);
+            expect(result.category).toBe('Veg Starters, Non-Veg Starters');
+        });
+
+        it('tolerates a misspelled category', () => {
+            expect(ids({ category: 'beverage' })).toEqual(['coffee']);
+        });
+
+        it('suggests the catalog categories when none match', () => {
+            const result = lookupCatalog(MENU, { category: 'desserts' });
+            expect(result.matches).toEqual([]);
+            expect(result.suggestions).toEqual(['Biryani', 'Veg Starters', 'Non-Veg Starters', 'Bowls', 'Dosa', 'Beverages']);
+        });
+    });
+
+    it('drops unavailable items only when asked', () => {
+        expect(ids({ category: 'non-veg starters' })).toEqual(['chilli']);
+        expect(ids({ category: 'non-veg starters', availableOnly: true })).toEqual([]);
+    });
+
+    it('limits the matches but reports the total', () => {
+        const result = lookupCatalog(MENU, { limit: 2 });
+        expect(result.matches).toHaveLength(2);
+        expect(result.total).toBe(MENU.length);
+    });
+});
+
+describe('formatCatalogResult', () => {
+    it('lists variant prices, tags and availability', () => {
+        const filters = { tags: ['vegetarian'], limit: 2 };
+        expect(formatCatalogResult(lookupCatalog(MENU, filters), filters)).toBe([
+            'Found 4 matching items, showing 2:',
+            '- Paneer Tikka [Veg Starters]: ₹220 - vegetarian - Cottage cheese grilled in the tandoor',
+            '- Buddha Bowl [Bowls]: ₹300 - vegan',
+            'Quote these prices exactly as listed.',
+        ].join('\n'));
+    });
+
+    it('formats variant-only and unpriced items', () => {
+        const filters = { query: 'masala dosa' };
+        expect(formatCatalogResult(lookupCatalog(MENU, filters), filters)).toContain(
+            '- Masala Dosa [Dosa]: (Regular ₹120, Family ₹400) - vegetarian'
+        );
+
+        const coffee = { query: 'filter coffee' };
+        expect(formatCatalogResult(lookupCatalog(MENU, coffee), coffee)).toContain(
+            '- Filter Coffee [Beverages]: (Small, Large) - vegetarian'
+        );
+    });
+
+    it('marks unavailable items', () => {
+        const filters = { query: 'chilli chicken' };
+        expect(formatCatalogResult(lookupCatalog(MENU, filters), filters)).toContain('- CURRENTLY UNAVAILABLE');
+    });
+
+    it('names the matched category', () => {
+        const filters = { category: 'dosa' };
+        expect(formatCatalogResult(lookupCatalog(MENU, filters), filters).split('\n')[0]).toBe('Found 1 matching item in Dosa:');
+    });
+
+    it('lists the categories for an unknown category and refuses to guess on no match', () => {
+        const unknown = { category: 'desserts' };
+        expect(formatCatalogResult(lookupCatalog(MENU, unknown), unknown)).toBe(
+            'There is no "desserts" category. Categories: Biryani, Veg Starters, Non-Veg Starters, Bowls, Dosa, Beverages.'
+        );
+
+        const none = { query: 'pizza' };
+        expect(formatCatalogResult(lookupCatalog(MENU, none), none)).toMatch(/^No items in the catalog match that/);
+    });
+});
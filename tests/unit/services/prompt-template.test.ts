@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// The real logger loads the full environment config
+vi.mock('../../../src/core/logging.js', () => ({
+    logger: { debug: vi.fn(), info: vi.fn(), warning: vi.fn(), error: vi.fn() },
+}));
+
+import {
+    buildPromptVariables,
+    extractTemplateVariables,
+    renderPromptTemplate,
+    validatePromptTemplate,
+    type PromptVariables,
+} from '../../../src/services/prompt-template.js';
+
+const VARIABLES: PromptVariables = {
+    customer: { name: 'Priya', phone: '+919800000000' },
+    appointment: { id: undefined },
+    call: { reason: '', direction: 'outbound' },
+    campaign: { id: undefined },
+    custom: { 'order-id': 'A-17' },
+};
+
+describe('renderPromptTemplate', () => {
+    it('substitutes known values', () => {
+        expect(renderPromptTemplate('Hi {{customer.name}}, calling about order {{custom.order-id}}.', VARIABLES)).toEqual({
+            text: 'Hi Priya, calling about order A-17.',
+            missing: [],
+        });
+    });
+
+    it('allows whitespace inside the braces', () => {
+        expect(renderPromptTemplate('Hi {{  customer.name  }}!', VARIABLES).text).toBe('Hi Priya!');
+    });
+
+    it('renders missing variables as empty and reports them', () => {
+        expect(renderPromptTemplate('Appointment {{appointment.id}} for {{custom.plan}}.', VARIABLES)).toEqual({
+            text: 'Appointment  for .',
+            missing: ['appointment.id', 'custom.plan'],
+        });
+    });
+
+    it('treats an empty value as missing', () => {
+        expect(renderPromptTemplate('Reason: {{call.reason}}', VARIABLES).missing).toEqual(['call.reason']);
+    });
+
+    it('reports variables from an unknown namespace as missing', () => {
+        expect(renderPromptTemplate('{{agent.name}}', VARIABLES)).toEqual({ text: '', missing: ['agent.name'] });
+    });
+
+    describe('fallbacks', () => {
+        it('uses the fallback when the value is missing or empty', () => {
+            expect(renderPromptTemplate('Hi {{appointment.id | none}}', VARIABLES).text).toBe('Hi none');
+            expect(renderPromptTemplate('Reason: {{call.reason | a follow-up}}', VARIABLES).text).toBe('Reason: a follow-up');
+        });
+
+        it('prefers the value over the fallback', () => {
+            expect(renderPromptTemplate('Hi {{customer.name | there}}', VARIABLES).text).toBe('Hi Priya');
+        });
+
+        it('strips one pair of surrounding quotes', () => {
+            expect(renderPromptTemplate('Hi {{appointment.id | "my friend"}}', VARIABLES).text).toBe('Hi my friend');
+            expect(renderPromptTemplate("Hi {{appointment.id | 'my friend'}}", VARIABLES).text).toBe('Hi my friend');
+        });
+
+        it('keeps quotes inside the fallback', () => {
+            expect(renderPromptTemplate("{{appointment.id | it's new}}", VARIABLES).text).toBe("it's new");
+            expect(renderPromptTemplate('{{appointment.id | ""quoted""}}', VARIABLES).text).toBe('"quoted"');
+        });
+
+        it('does not report a variable with a fallback as missing, even an empty one', () => {
+            expect(renderPromptTemplate('[{{appointment.id | ""}}]', VARIABLES)).toEqual({ text: '[]', missing: [] });
+            expect(renderPromptTemplate('[{{appointment.id |}}]', VARIABLES)).toEqual({ text: '[]', missing: [] });
+        });
+
+        it('trims whitespace around the fallback but not inside quotes', () => {
+            expect(renderPromptTemplate('[{{appointment.id |   soon   }}]', VARIABLES).text).toBe('[soon]');
+            expect(renderPromptTemplate('[{{appointment.id | " soon "}}]', VARIABLES).text).toBe('[ soon ]');
+        });
+    });
+
+    it('leaves text that is not a placeholder alone', () => {
+        const template = 'Use {single} braces and {{ }} as written';
+        expect(renderPromptTemplate(template, VARIABLES)).toEqual({ text: template, missing: [] });
+    });
+});
+
+describe('validatePromptTemplate', () => {
+    it('accepts known variables, any custom key and fallbacks', () => {
+        expect(validatePromptTemplate('Hi {{customer.name | there}}, {{call.direction}} {{custom.anything-here}}')).toEqual([]);
+    });
+
+    it('rejects an unknown namespace', () => {
+        expect(validatePromptTemplate('{{agent.name}}', 'prompt')).toEqual([
+            'prompt: unknown variable {{agent.name}} (namespaces: customer, appointment, call, campaign, custom)',
+        ]);
+    });
+
+    it('rejects an unknown key and lists the known ones', () => {
+        expect(validatePromptTemplate('{{customer.email}}', 'greeting')).toEqual([
+            'greeting: unknown variable {{customer.email}} (customer has: name, phone)',
+        ]);
+    });
+
+    it('requires exactly namespace.name', () => {
+        expect(validatePromptTemplate('{{customer}} {{custom.a.b}}')).toEqual([
+            'template: {{customer}} must be written as {{customer.<name>}}',
+            'template: {{custom.a.b}} must be written as {{custom.<name>}}',
+        ]);
+    });
+
+    it('flags unbalanced or empty placeholders', () => {
+        const malformed = 'template: malformed template placeholder (expected {{namespace.name}})';
+        expect(validatePromptTemplate('Hi {{customer.name}')).toEqual([malformed]);
+        expect(validatePromptTemplate('Hi customer.name}}')).toEqual([malformed]);
+        expect(validatePromptTemplate('Hi {{ }}')).toEqual([malformed]);
+    });
+
+    it('reports every problem in the template', () => {
+        expect(validatePromptTemplate('{{agent.name}} {{customer.email}} {{', 'prompt')).toHaveLength(3);
+    });
+});
+
+describe('extractTemplateVariables', () => {
+    it('lists each reference with its unquoted fallback', () => {
+        expect(extractTemplateVariables('{{customer.name | "there"}} {{call.reason}}')).toEqual([
+            { path: 'customer.name', defaultValue: 'there' },
+            { path: 'call.reason', defaultValue: undefined },
+        ]);
+    });
+});
+
+describe('buildPromptVariables', () => {
+    it('maps call metadata into template variables', () => {
+        const variables = buildPromptVariables({
+            customerName: 'Arun',
+            phoneNumber: '+14155550100',
+            callType: 'outbound',
+            customData: { plan: 'gold', visits: 3, skipped: null },
+        });
+
+        expect(renderPromptTemplate(
+            '{{customer.name}} {{customer.phone}} {{call.direction}} {{custom.plan}} {{custom.visits}} {{custom.skipped | -}}',
+            variables
+        )).toEqual({ text: 'Arun +14155550100 outbound gold 3 -', missing: [] });
+    });
+
+    it('leaves everything missing without metadata', () => {
+        expect(renderPromptTemplate('{{customer.name | there}}', buildPromptVariables(null)).text).toBe('there');
+    });
+});